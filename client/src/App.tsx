@@ -8,6 +8,10 @@ import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/LoginPage";
 import Landing from "@/pages/Landing";
 import Register from "@/pages/Register";
+import ResetPassword from "@/pages/ResetPassword";
+import ChangePassword from "@/pages/ChangePassword";
+import TwoFactorSetup from "@/pages/TwoFactorSetup";
+import ActiveSessions from "@/pages/ActiveSessions";
 import RoleSelector from "@/pages/RoleSelector";
 import Layout from "@/components/Layout";
 import OfflineBanner from "@/components/OfflineBanner";
@@ -23,6 +27,7 @@ import CashDrawApprovals from "@/pages/finance/CashDrawApprovals";
 import Reports from "@/pages/management/Reports";
 import AttendanceManagement from "@/pages/finance/AttendanceManagement";
 import PortalLinks from "@/pages/finance/PortalLinks";
+import LateFees from "@/pages/finance/LateFees";
 
 import TeacherDashboard from "@/pages/teacher/Dashboard";
 import Attendance from "@/pages/teacher/Attendance";
@@ -30,8 +35,11 @@ import Gradebook from "@/pages/teacher/Gradebook";
 import Earnings from "@/pages/teacher/Earnings";
 import DigitalDiary from "@/pages/teacher/DigitalDiary";
 import ScheduleManager from "@/pages/teacher/ScheduleManager";
+import LeaveRequests from "@/pages/teacher/LeaveRequests";
 
 import StudentPortal from "@/pages/StudentPortal";
+import ParentHome from "@/pages/parent/Home";
+import PortalAccess from "@/pages/PortalAccess";
 
 import ManagementDashboard from "@/pages/management/Dashboard";
 import Expenses from "@/pages/management/Expenses";
@@ -42,6 +50,12 @@ import TeacherImpersonation from "@/pages/management/TeacherImpersonation";
 import ReadOnlyTeacherDashboard from "@/pages/management/ReadOnlyTeacherDashboard";
 import StandaloneFinanceDashboard from "@/pages/management/StandaloneFinanceDashboard";
 import Branches from "@/pages/management/Branches";
+import ScheduledJobs from "@/pages/management/ScheduledJobs";
+import SubjectCatalogue from "@/pages/management/SubjectCatalogue";
+import SubjectCombos from "@/pages/management/SubjectCombos";
+import Roles from "@/pages/management/Roles";
+import ScheduleConflicts from "@/pages/management/ScheduleConflicts";
+import Rooms from "@/pages/management/Rooms";
 
 function AuthenticatedRouter() {
   const { user } = useAuth();
@@ -64,6 +78,18 @@ function AuthenticatedRouter() {
         {(params) => <StudentPortal studentId={params.studentId} />}
       </Route>
       
+      {/* Shared portal links (also opened by staff to preview) */}
+      <Route path="/portal/:token">
+        {(params) => <PortalAccess token={params.token} />}
+      </Route>
+      
+      {/* Emailed reset links can be opened while signed in */}
+      <Route path="/reset-password" component={ResetPassword} />
+      
+      <Route path="/change-password" component={ChangePassword} />
+      <Route path="/two-factor" component={TwoFactorSetup} />
+      <Route path="/sessions" component={ActiveSessions} />
+      
       {/* Teacher Impersonation - Standalone Route (Full Page) */}
       <Route path="/teacher-view-readonly" component={ReadOnlyTeacherDashboard} />
       
@@ -87,7 +113,7 @@ function AuthenticatedRouter() {
             return (
               <Switch>
                 <Route path="/dashboard">
-                  {() => <StudentPortal studentId="4067f9d8-8deb-44c5-acaf-9067a0ccca21" />}
+                  {() => <ParentHome />}
                 </Route>
                 <Route component={NotFound} />
               </Switch>
@@ -106,6 +132,7 @@ function AuthenticatedRouter() {
                     <Route path="/invoices" component={Invoices} />
                     <Route path="/receipts" component={Receipts} />
                     <Route path="/daily-close" component={DailyClose} />
+                    <Route path="/late-fees" component={LateFees} />
                     <Route path="/attendance-management" component={AttendanceManagement} />
                     <Route path="/portal-links" component={PortalLinks} />
                   </>
@@ -116,6 +143,7 @@ function AuthenticatedRouter() {
                   <>
                     <Route path="/dashboard" component={TeacherDashboard} />
                     <Route path="/attendance" component={Attendance} />
+                    <Route path="/leave-requests" component={LeaveRequests} />
                     <Route path="/gradebook" component={Gradebook} />
                     <Route path="/earnings" component={Earnings} />
                     <Route path="/digital-diary" component={DigitalDiary} />
@@ -131,10 +159,17 @@ function AuthenticatedRouter() {
                     <Route path="/payouts" component={PayoutSummary} />
                     <Route path="/daily-close-log" component={DailyCloseLog} />
                     <Route path="/staff-management" component={StaffManagement} />
+                    <Route path="/roles" component={Roles} />
                     <Route path="/branches" component={Branches} />
                     <Route path="/students" component={StudentLedger} />
                     <Route path="/reports" component={Reports} />
                     <Route path="/approvals" component={CashDrawApprovals} />
+                    <Route path="/leave-requests" component={LeaveRequests} />
+                    <Route path="/scheduled-jobs" component={ScheduledJobs} />
+                    <Route path="/schedule-conflicts" component={ScheduleConflicts} />
+                    <Route path="/rooms" component={Rooms} />
+                    <Route path="/subjects" component={SubjectCatalogue} />
+                    <Route path="/subject-combos" component={SubjectCombos} />
                     <Route path="/teacher-impersonation" component={TeacherImpersonation} />
                   </>
                 )}
@@ -177,12 +212,27 @@ function AppRouter() {
           )}
         </Route>
         <Route path="/register" component={Register} />
+        <Route path="/reset-password" component={ResetPassword} />
+        {/* Parent/student portal links */}
+        <Route path="/portal/:token">
+          {(params) => <PortalAccess token={params.token} />}
+        </Route>
         {/* Public marketing landing (default for "/" and any other path) */}
         <Route component={Landing} />
       </Switch>
     );
   }
 
+  // The server refuses everything else until a temporary or expired password is replaced
+  if (user?.mustChangePassword) {
+    return <ChangePassword />;
+  }
+
+  // ...and until two-factor authentication is set up where the school requires it for the role
+  if (user?.twoFactorSetupRequired) {
+    return <TwoFactorSetup />;
+  }
+
   return <AuthenticatedRouter />;
 }
 
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ExcusedAbsencePolicy } from "@shared/attendance";
+
+interface AttendanceSettings {
+  amendHours: number | null;
+  excusedAbsences: ExcusedAbsencePolicy;
+  limits: { minHours: number; maxHours: number };
+  excusedPolicies: Record<ExcusedAbsencePolicy, string>;
+}
+
+// Hours after a class ends that teachers and front desk may still change its register (blank means
+// always), and how excused, leave and medical absences count in attendance percentages
+export default function AttendanceCutoffCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [hours, setHours] = useState<string | null>(null);
+  const [excusedAbsences, setExcusedAbsences] = useState<ExcusedAbsencePolicy>('exclude');
+
+  const { data: settings } = useQuery<AttendanceSettings>({
+    queryKey: ["/api/attendance-settings"],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setHours(settings.amendHours?.toString() ?? "");
+    setExcusedAbsences(settings.excusedAbsences);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest('PUT', '/api/attendance-settings', {
+        amendHours: value.trim() ? Number(value) : null,
+        excusedAbsences,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Attendance Settings Saved",
+        description: "Registers past the cut-off can now only be amended by management.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance-settings'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the attendance settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!settings || hours === null) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Attendance Rules
+        </CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Hours after a class ends that teachers and front desk may still take or change its attendance
+          ({settings.limits.minHours} to {settings.limits.maxHours}). After that only management can amend it.
+          Leave blank for no cut-off.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-xs">
+          <Label htmlFor="attendance-amend-hours">Hours after the class</Label>
+          <Input
+            id="attendance-amend-hours"
+            type="number"
+            min={settings.limits.minHours}
+            max={settings.limits.maxHours}
+            placeholder="No cut-off"
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            data-testid="input-attendance-amend-hours"
+          />
+        </div>
+
+        <div className="max-w-sm">
+          <Label htmlFor="attendance-excused-absences">Excused, leave and medical absences</Label>
+          <Select value={excusedAbsences} onValueChange={(value) => setExcusedAbsences(value as ExcusedAbsencePolicy)}>
+            <SelectTrigger id="attendance-excused-absences" data-testid="select-excused-absences">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(settings.excusedPolicies).map(([policy, label]) => (
+                <SelectItem key={policy} value={policy}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 mt-1">How they count in attendance percentages for parents, students and reports.</p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(hours)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-attendance-cutoff"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
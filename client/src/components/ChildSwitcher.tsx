@@ -0,0 +1,33 @@
+import { Button } from "@/components/ui/button";
+
+interface Child {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Bar above the student portal for parents (or family links) with several children
+export default function ChildSwitcher({ children, selectedId, onSelect }: {
+  children: Child[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}) {
+  if (children.length < 2) return null;
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-4 py-2 flex items-center gap-2 overflow-x-auto">
+      <span className="text-sm text-gray-600 mr-2">Viewing:</span>
+      {children.map((child) => (
+        <Button
+          key={child.id}
+          size="sm"
+          variant={child.id === selectedId ? "default" : "outline"}
+          onClick={() => onSelect(child.id)}
+          data-testid={`button-portal-child-${child.id}`}
+        >
+          {child.firstName} {child.lastName}
+        </Button>
+      ))}
+    </div>
+  );
+}
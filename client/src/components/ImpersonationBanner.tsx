@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Eye, PencilLine } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const minutesLeft = (expiresAt: string) => Math.max(0, Math.ceil((Date.parse(expiresAt) - Date.now()) / 60000));
+
+// Shown while a manager is impersonating a teacher: who, whether changes are allowed,
+// time left, and a way out. When it runs out the server ends it and the page returns.
+export default function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const impersonation = user?.impersonation;
+  const [remaining, setRemaining] = useState(() => (impersonation ? minutesLeft(impersonation.expiresAt) : 0));
+
+  useEffect(() => {
+    if (!impersonation) return;
+    setRemaining(minutesLeft(impersonation.expiresAt));
+    const timer = setInterval(() => {
+      const left = minutesLeft(impersonation.expiresAt);
+      setRemaining(left);
+      if (left === 0) queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    }, 15000);
+    return () => clearInterval(timer);
+  }, [impersonation?.expiresAt]);
+
+  const endMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', '/api/impersonation'),
+    onSuccess: () => {
+      toast({ title: "Impersonation Ended", description: "Returned to Management Dashboard" });
+      localStorage.setItem('selectedRole', 'management');
+      window.location.href = '/dashboard';
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end impersonation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!impersonation) return null;
+
+  return (
+    <Alert className={impersonation.allowWrites ? "bg-red-50 border-red-200" : "bg-orange-50 border-orange-200"} data-testid="banner-impersonation">
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          {impersonation.allowWrites
+            ? <PencilLine className="h-4 w-4 text-red-600" />
+            : <Eye className="h-4 w-4 text-orange-600" />}
+          <span className={`font-medium ${impersonation.allowWrites ? 'text-red-800' : 'text-orange-800'}`}>
+            Viewing as: {impersonation.teacherName}
+          </span>
+          <span className={`text-sm ${impersonation.allowWrites ? 'text-red-600' : 'text-orange-600'}`}>
+            ({impersonation.allowWrites ? 'Changes allowed and recorded' : 'Read-Only Mode'} - ends in {remaining} min)
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => endMutation.mutate()}
+          disabled={endMutation.isPending}
+          data-testid="button-end-impersonation"
+        >
+          End Impersonation
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
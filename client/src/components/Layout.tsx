@@ -1,5 +1,6 @@
 import Sidebar from "./Sidebar";
 import BranchSwitcher from "./BranchSwitcher";
+import ImpersonationBanner from "./ImpersonationBanner";
 import { useAuth } from "@/hooks/useAuth";
 import {
   DropdownMenu,
@@ -8,7 +9,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { User, LogOut, ArrowLeft } from "lucide-react";
+import { User, LogOut, ArrowLeft, KeyRound, ShieldCheck, Laptop } from "lucide-react";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -92,6 +93,30 @@ export default function Layout({ children, selectedRole }: LayoutProps) {
                   <User className="mr-2 h-4 w-4" />
                   <span>Profile</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => { window.location.href = '/change-password'; }}
+                  data-testid="menu-change-password"
+                >
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  <span>Change Password</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => { window.location.href = '/two-factor'; }}
+                  data-testid="menu-two-factor"
+                >
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  <span>Two-Factor Sign-In</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => { window.location.href = '/sessions'; }}
+                  data-testid="menu-active-sessions"
+                >
+                  <Laptop className="mr-2 h-4 w-4" />
+                  <span>Active Sessions</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   className="cursor-pointer text-red-600 focus:text-red-600"
                   onClick={handleLogout}
@@ -108,6 +133,12 @@ export default function Layout({ children, selectedRole }: LayoutProps) {
 
         {/* Main Content */}
         <main className="flex-1 overflow-y-auto p-6">
+          {/* While impersonating, the server answers as the teacher everywhere */}
+          {user?.impersonation && (
+            <div className="mb-6">
+              <ImpersonationBanner />
+            </div>
+          )}
           {children}
         </main>
       </div>
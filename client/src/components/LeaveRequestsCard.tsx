@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ATTENDANCE_STATUS_STYLES } from "@/lib/attendance";
+import type { LeaveRequest } from "@/types";
+
+const ABSENCE_TYPES: LeaveRequest['absenceType'][] = ['leave', 'medical', 'excused'];
+
+export const LEAVE_STATUS_STYLES: Record<LeaveRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export const formatLeaveDates = (request: Pick<LeaveRequest, 'startDate' | 'endDate'>) =>
+  request.startDate === request.endDate ? request.startDate : `${request.startDate} to ${request.endDate}`;
+
+// Portal: ask for the student to be excused for some days; their teacher or management reviews it
+export default function LeaveRequestsCard({ studentId }: { studentId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split('T')[0];
+  const [form, setForm] = useState({ startDate: today, endDate: today, absenceType: 'leave', reason: '' });
+
+  const queryKey = ['/api/students', studentId, 'leave-requests'];
+  const { data: requests = [] } = useQuery<LeaveRequest[]>({ queryKey });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update the leave request",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/students/${studentId}/leave-requests`, form);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Leave Request Sent", description: "The school will review it and mark the classes." });
+      setForm({ startDate: today, endDate: today, absenceType: 'leave', reason: '' });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/students/${studentId}/leave-requests/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5 text-purple-600" />
+          <CardTitle>Leave Requests</CardTitle>
+        </div>
+        <p className="text-sm text-gray-600">Let the school know in advance, or send a note for days already missed</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="leave-start">First day</Label>
+            <Input
+              id="leave-start"
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              data-testid="input-leave-start"
+            />
+          </div>
+          <div>
+            <Label htmlFor="leave-end">Last day</Label>
+            <Input
+              id="leave-end"
+              type="date"
+              value={form.endDate}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              data-testid="input-leave-end"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="leave-type">Type</Label>
+          <Select value={form.absenceType} onValueChange={(absenceType) => setForm({ ...form, absenceType })}>
+            <SelectTrigger id="leave-type" data-testid="select-leave-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ABSENCE_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{ATTENDANCE_STATUS_STYLES[type].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="leave-reason">Reason</Label>
+          <Textarea
+            id="leave-reason"
+            rows={2}
+            placeholder="e.g. Family wedding, fever"
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            data-testid="input-leave-reason"
+          />
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !form.reason.trim()}
+          data-testid="button-send-leave-request"
+        >
+          {createMutation.isPending ? "Sending..." : "Send Request"}
+        </Button>
+
+        {requests.length > 0 && (
+          <div className="space-y-2">
+            {requests.map((request) => (
+              <div key={request.id} className="py-2 px-3 bg-gray-50 rounded-lg" data-testid={`leave-request-${request.id}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{formatLeaveDates(request)}</p>
+                    <p className="text-sm text-gray-600">
+                      {ATTENDANCE_STATUS_STYLES[request.absenceType].label}: {request.reason}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={LEAVE_STATUS_STYLES[request.status]}>{request.status}</Badge>
+                    {request.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => cancelMutation.mutate(request.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-leave-${request.id}`}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {request.reviewNote && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {request.reviewerName ? `${request.reviewerName}: ` : ''}{request.reviewNote}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface MonthlyInvoiceRunProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface InvoiceLine {
+  type: 'subject' | 'combo';
+  description: string;
+  unitPrice: number;
+  discountType: string;
+  discountValue: number;
+  discountAmount: number;
+  discountReason: string | null;
+  total: number;
+}
+
+interface DraftInvoice {
+  studentId: string;
+  studentName: string;
+  rollNumber: string;
+  billingPeriodStart: string;
+  total: string;
+  creditAvailable?: number;
+  notes: string | null;
+  items: InvoiceLine[];
+}
+
+interface RunResult {
+  dryRun: boolean;
+  invoicesGenerated: number;
+  total: number;
+  invoices: DraftInvoice[];
+}
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
+const discountLabel = (line: InvoiceLine) =>
+  line.discountType === 'percentage' ? `${line.discountValue}%` : rs(line.discountAmount);
+
+export default function MonthlyInvoiceRun({ open, onOpenChange }: MonthlyInvoiceRunProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [preview, setPreview] = useState<RunResult | null>(null);
+
+  const targetDate = `${month}-01`;
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) =>
+      (await apiRequest('POST', '/api/billing/generate-monthly', { targetDate, dryRun })).json() as Promise<RunResult>,
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Monthly invoices generated",
+        description: `${result.invoicesGenerated} invoice(s), ${rs(result.total)} in total.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      setPreview(null);
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setPreview(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Monthly Invoices</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="billing-month">Billing month</Label>
+            <Input
+              id="billing-month"
+              type="month"
+              value={month}
+              onChange={(e) => {
+                setMonth(e.target.value);
+                setPreview(null);
+              }}
+              data-testid="input-billing-month"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => runMutation.mutate(true)}
+            disabled={!month || runMutation.isPending}
+            data-testid="button-preview-monthly"
+          >
+            <i className="fas fa-eye mr-2"></i>
+            Preview
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              {preview.invoicesGenerated === 0
+                ? "Nothing to bill: every enrolled student already has an invoice for this month."
+                : `${preview.invoicesGenerated} invoice(s) would be created, ${rs(preview.total)} in total. Nothing has been saved yet.`}
+            </p>
+            {preview.invoices.length > 0 && (
+              <div className="border rounded">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left p-2">Student / item</th>
+                      <th className="text-right p-2">Fee</th>
+                      <th className="text-right p-2">Discount</th>
+                      <th className="text-right p-2">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.invoices.map((invoice) => (
+                      <Fragment key={invoice.studentId}>
+                        <tr className="border-t bg-gray-50/50">
+                          <td className="p-2 font-medium" colSpan={3}>
+                            {invoice.studentName} <span className="text-gray-500">({invoice.rollNumber})</span>
+                            {(invoice.creditAvailable ?? 0) > 0 && (
+                              <Badge variant="secondary" className="ml-2">Credit {rs(invoice.creditAvailable)} will be applied</Badge>
+                            )}
+                          </td>
+                          <td className="p-2 text-right font-medium">{rs(invoice.total)}</td>
+                        </tr>
+                        {invoice.items.map((line, i) => (
+                          <tr key={i} className="text-gray-700">
+                            <td className="p-2 pl-6">
+                              {line.type === 'combo' && <Badge variant="outline" className="mr-2">Combo</Badge>}
+                              {line.description}
+                              {line.discountReason && <span className="text-gray-500"> - {line.discountReason}</span>}
+                            </td>
+                            <td className="p-2 text-right">{rs(line.unitPrice)}</td>
+                            <td className="p-2 text-right">{line.discountAmount > 0 ? discountLabel(line) : '-'}</td>
+                            <td className="p-2 text-right">{rs(line.total)}</td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => runMutation.mutate(false)}
+            disabled={!preview || preview.invoicesGenerated === 0 || runMutation.isPending}
+            data-testid="button-generate-monthly"
+          >
+            {runMutation.isPending ? "Working..." : `Generate ${preview?.invoicesGenerated ?? ''} Invoice(s)`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
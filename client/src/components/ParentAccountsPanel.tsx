@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Mail, UserCheck, UserX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type ParentSlot = 'primary' | 'additional';
+
+interface ParentAccountSlot {
+  slot: ParentSlot;
+  email: string | null;
+  account: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    isActive: boolean;
+    invitationPending: boolean;
+  } | null;
+}
+
+interface InviteResult {
+  tempPassword: string | null;
+  invitationSent: boolean;
+}
+
+const SLOT_LABELS: Record<ParentSlot, string> = {
+  primary: "Parent/Guardian",
+  additional: "Additional Parent/Guardian",
+};
+
+// Parent sign-in accounts for a student, invited from the saved parent email addresses
+export default function ParentAccountsPanel({ studentId }: { studentId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: slots = [] } = useQuery<ParentAccountSlot[]>({
+    queryKey: ['/api/students', studentId, 'parent-accounts'],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/students', studentId, 'parent-accounts'] });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (slot: ParentSlot) => {
+      const response = await apiRequest('POST', `/api/students/${studentId}/parent-accounts/${slot}`);
+      return response.json() as Promise<InviteResult>;
+    },
+    onSuccess: (result) => {
+      const parts = [
+        result.invitationSent ? "Invitation emailed to the parent." : "The invitation email could not be sent.",
+        result.tempPassword ? `Temporary password: ${result.tempPassword}` : null,
+      ];
+      toast({
+        title: "Success",
+        description: parts.filter(Boolean).join(" "),
+        duration: result.tempPassword ? 15000 : undefined,
+      });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to invite parent",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (slot: ParentSlot) => {
+      await apiRequest('DELETE', `/api/students/${studentId}/parent-accounts/${slot}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Parent account unlinked from this student" });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlink parent",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Parent Accounts</h4>
+        <p className="text-xs text-gray-500">
+          Parents sign in to follow all of their children. Save any email changes before inviting.
+        </p>
+      </div>
+      {slots.map(({ slot, email, account }) => (
+        <div key={slot} className="flex items-center justify-between gap-3 rounded-md border p-3" data-testid={`parent-account-${slot}`}>
+          <div className="min-w-0">
+            <div className="text-sm font-medium">{SLOT_LABELS[slot]}</div>
+            <div className="text-xs text-gray-500 truncate">{email || "No email address saved"}</div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {account && (
+              account.invitationPending
+                ? <Badge variant="outline">Invited</Badge>
+                : <Badge className="bg-green-100 text-green-800"><UserCheck className="h-3 w-3 mr-1" />Active</Badge>
+            )}
+            {(!account || account.invitationPending) && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!email || inviteMutation.isPending}
+                onClick={() => inviteMutation.mutate(slot)}
+                data-testid={`button-invite-parent-${slot}`}
+              >
+                <Mail className="h-4 w-4 mr-1" />
+                {account ? "Resend" : "Invite"}
+              </Button>
+            )}
+            {account && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={unlinkMutation.isPending}
+                onClick={() => unlinkMutation.mutate(slot)}
+                data-testid={`button-unlink-parent-${slot}`}
+              >
+                <UserX className="h-4 w-4 mr-1" />
+                Unlink
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
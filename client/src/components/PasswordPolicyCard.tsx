@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+const CHARACTER_RULES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: "requireUppercase", label: "Uppercase letter" },
+  { key: "requireLowercase", label: "Lowercase letter" },
+  { key: "requireDigit", label: "Number" },
+  { key: "requireSymbol", label: "Symbol" },
+];
+
+// School-wide password rules, applied whenever a staff member chooses a password
+export default function PasswordPolicyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PasswordPolicy | null>(null);
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setForm(policy);
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PasswordPolicy) => {
+      const response = await apiRequest('PUT', '/api/password-policy', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password Policy Saved",
+        description: "New passwords must follow the updated rules.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/password-policy'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save password policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!form) return null;
+
+  const setNumber = (key: "minLength" | "historyCount" | "maxAgeDays") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: Number(e.target.value) });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Password Policy
+        </CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Applies when staff choose a new password. Existing passwords are checked for expiry at sign-in.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="policy-min-length">Minimum length</Label>
+            <Input id="policy-min-length" type="number" min={8} max={128} value={form.minLength} onChange={setNumber("minLength")} data-testid="input-policy-min-length" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-history">Block reuse of last</Label>
+            <Input id="policy-history" type="number" min={0} max={24} value={form.historyCount} onChange={setNumber("historyCount")} data-testid="input-policy-history" />
+            <p className="text-xs text-gray-500">passwords (0 = only the current one)</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-max-age">Expire after</Label>
+            <Input id="policy-max-age" type="number" min={0} max={365} value={form.maxAgeDays} onChange={setNumber("maxAgeDays")} data-testid="input-policy-max-age" />
+            <p className="text-xs text-gray-500">days (0 = never)</p>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Must include</p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {CHARACTER_RULES.map((rule) => (
+              <div key={rule.key} className="flex items-center gap-2">
+                <Switch
+                  id={`policy-${rule.key}`}
+                  checked={!!form[rule.key]}
+                  onCheckedChange={(checked) => setForm({ ...form, [rule.key]: checked })}
+                  data-testid={`switch-policy-${rule.key}`}
+                />
+                <Label htmlFor={`policy-${rule.key}`}>{rule.label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-password-policy"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
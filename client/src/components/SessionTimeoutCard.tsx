@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Timer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SessionTimeoutSettings {
+  idleMinutes: Record<string, number>;
+  availableRoles: string[];
+  limits: { minMinutes: number; maxMinutes: number };
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  management: "Management",
+  finance: "Finance",
+  teacher: "Teachers",
+  parent: "Parents",
+};
+
+// Minutes of inactivity after which each role is signed out; blank means never
+export default function SessionTimeoutCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [minutes, setMinutes] = useState<Record<string, string> | null>(null);
+
+  const { data: settings } = useQuery<SessionTimeoutSettings>({
+    queryKey: ["/api/security/session-timeouts"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setMinutes(Object.fromEntries(settings.availableRoles.map((role) => [role, settings.idleMinutes[role]?.toString() ?? ""])));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: Record<string, string>) => {
+      const idleMinutes = Object.fromEntries(
+        Object.entries(values).map(([role, value]) => [role, value.trim() ? Number(value) : null]),
+      );
+      const response = await apiRequest('PUT', '/api/security/session-timeouts', { idleMinutes });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Session Timeouts Saved",
+        description: "Signed-in users are held to the new limits within a minute.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/security/session-timeouts'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save session timeouts",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!settings || !minutes) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Idle Sign-Out
+        </CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Sign people out after this many minutes without activity ({settings.limits.minMinutes} to {settings.limits.maxMinutes}).
+          Leave blank to keep them signed in for up to a week.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {settings.availableRoles.map((role) => (
+            <div key={role}>
+              <Label htmlFor={`idle-minutes-${role}`}>{ROLE_LABELS[role] ?? role}</Label>
+              <Input
+                id={`idle-minutes-${role}`}
+                type="number"
+                min={settings.limits.minMinutes}
+                max={settings.limits.maxMinutes}
+                placeholder="Never"
+                value={minutes[role]}
+                onChange={(e) => setMinutes({ ...minutes, [role]: e.target.value })}
+                data-testid={`input-idle-minutes-${role}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(minutes)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-session-timeouts"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -23,21 +23,23 @@ export default function Sidebar({ selectedRole }: SidebarProps) {
       case 'finance':
         return [
           { path: '/dashboard', icon: 'fas fa-tachometer-alt', label: 'Dashboard' },
-          { path: '/enrollment', icon: 'fas fa-user-plus', label: 'Enrollment' },
+          { path: '/enrollment', icon: 'fas fa-user-plus', label: 'Enrollment', permission: 'enroll' },
           { path: '/invoices', icon: 'fas fa-file-invoice', label: 'Invoices' },
           { path: '/receipts', icon: 'fas fa-receipt', label: 'Receipts' },
+          { path: '/late-fees', icon: 'fas fa-hourglass-half', label: 'Late Fees', permission: 'manage_late_fees' },
           { path: '/students', icon: 'fas fa-users', label: 'Student Ledger' },
-          { path: '/attendance-management', icon: 'fas fa-calendar-check', label: 'Attendance' },
-          { path: '/daily-close', icon: 'fas fa-lock', label: 'Daily Close' },
-          { path: '/portal-links', icon: 'fas fa-link', label: 'Portal Links' },
+          { path: '/attendance-management', icon: 'fas fa-calendar-check', label: 'Attendance', permission: 'take_attendance' },
+          { path: '/daily-close', icon: 'fas fa-lock', label: 'Daily Close', permission: 'lock_daily_close' },
+          { path: '/portal-links', icon: 'fas fa-link', label: 'Portal Links', permission: 'manage_portal_links' },
         ];
       case 'teacher':
         return [
           { path: '/dashboard', icon: 'fas fa-home', label: 'Today' },
-          { path: '/attendance', icon: 'fas fa-calendar-check', label: 'Attendance' },
-          { path: '/gradebook', icon: 'fas fa-book', label: 'Gradebook' },
+          { path: '/attendance', icon: 'fas fa-calendar-check', label: 'Attendance', permission: 'take_attendance' },
+          { path: '/leave-requests', icon: 'fas fa-calendar-minus', label: 'Leave Requests', permission: 'take_attendance' },
+          { path: '/gradebook', icon: 'fas fa-book', label: 'Gradebook', permission: 'edit_grades' },
           { path: '/schedule-manager', icon: 'fas fa-calendar-alt', label: 'Schedule Manager' },
-          { path: '/digital-diary', icon: 'fas fa-bullhorn', label: 'Digital Diary' },
+          { path: '/digital-diary', icon: 'fas fa-bullhorn', label: 'Digital Diary', permission: 'post_announcements' },
           { path: '/earnings', icon: 'fas fa-dollar-sign', label: 'Earnings' },
         ];
       case 'parent':
@@ -47,14 +49,21 @@ export default function Sidebar({ selectedRole }: SidebarProps) {
       case 'management':
         const managementItems = [
           { path: '/dashboard', icon: 'fas fa-chart-pie', label: 'Overview' },
-          { path: '/expenses', icon: 'fas fa-receipt', label: 'Expenses' },
-          { path: '/payouts', icon: 'fas fa-money-bill', label: 'Payout Summary' },
-          { path: '/staff-management', icon: 'fas fa-users', label: 'Staff Management' },
-          { path: '/branches', icon: 'fas fa-building', label: 'Branches' },
+          { path: '/expenses', icon: 'fas fa-receipt', label: 'Expenses', permission: 'manage_expenses' },
+          { path: '/payouts', icon: 'fas fa-money-bill', label: 'Payout Summary', permission: 'manage_payouts' },
+          { path: '/staff-management', icon: 'fas fa-users', label: 'Staff Management', permission: 'manage_staff' },
+          { path: '/roles', icon: 'fas fa-user-shield', label: 'Roles', permission: 'manage_staff' },
+          { path: '/branches', icon: 'fas fa-building', label: 'Branches', permission: 'manage_settings' },
           { path: '/students', icon: 'fas fa-user-graduate', label: 'Student Ledger' },
+          { path: '/subjects', icon: 'fas fa-book-open', label: 'Subjects', permission: 'manage_subjects' },
+          { path: '/subject-combos', icon: 'fas fa-layer-group', label: 'Subject Combos', permission: 'manage_subjects' },
+          { path: '/schedule-conflicts', icon: 'fas fa-exclamation-triangle', label: 'Schedule Conflicts' },
+          { path: '/rooms', icon: 'fas fa-door-open', label: 'Rooms', permission: 'manage_settings' },
           { path: '/daily-close-log', icon: 'fas fa-calendar-check', label: 'Daily Close Log' },
-          { path: '/reports', icon: 'fas fa-chart-line', label: 'Reports' },
-          { path: '/approvals', icon: 'fas fa-check-circle', label: 'Cash Draw Approvals' },
+          { path: '/reports', icon: 'fas fa-chart-line', label: 'Reports', permission: 'view_reports' },
+          { path: '/approvals', icon: 'fas fa-check-circle', label: 'Cash Draw Approvals', permission: 'approve_cash_draw' },
+          { path: '/leave-requests', icon: 'fas fa-calendar-minus', label: 'Leave Requests', permission: 'take_attendance' },
+          { path: '/scheduled-jobs', icon: 'fas fa-clock', label: 'Scheduled Jobs', permission: 'manage_settings' },
         ];
         
         
@@ -65,7 +74,11 @@ export default function Sidebar({ selectedRole }: SidebarProps) {
     }
   };
 
-  const navItems = getNavItems();
+  // Items tagged with a permission (server/permissions.ts) only show when the user's base
+  // role or custom role grants it; the server enforces the same on every write
+  const navItems = getNavItems().filter((item: { permission?: string }) =>
+    !item.permission || !user?.permissions || user.permissions.includes(item.permission)
+  );
 
   return (
     <div className="w-64 bg-white shadow-lg flex flex-col">
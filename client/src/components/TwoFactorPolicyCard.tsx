@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TwoFactorSettings {
+  requiredRoles: string[];
+  availableRoles: string[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  management: "Management",
+  finance: "Finance",
+  teacher: "Teachers",
+};
+
+// Roles that must sign in with an authenticator app code as well as their password
+export default function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [requiredRoles, setRequiredRoles] = useState<string[] | null>(null);
+
+  const { data: settings } = useQuery<TwoFactorSettings>({
+    queryKey: ["/api/security/two-factor"],
+  });
+
+  useEffect(() => {
+    if (settings) setRequiredRoles(settings.requiredRoles);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      const response = await apiRequest('PUT', '/api/security/two-factor', { requiredRoles: roles });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-Factor Settings Saved",
+        description: "Staff in the selected roles will be asked to set it up at their next sign-in.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/security/two-factor'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save two-factor settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!settings || !requiredRoles) return null;
+
+  const toggle = (role: string, checked: boolean) =>
+    setRequiredRoles(checked ? [...requiredRoles, role] : requiredRoles.filter((r) => r !== role));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5" />
+          Two-Factor Sign-In
+        </CardTitle>
+        <p className="text-sm text-gray-600 mt-1">
+          Require a code from an authenticator app for these roles. Anyone else can still turn it on for themselves.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {settings.availableRoles.map((role) => (
+            <div key={role} className="flex items-center gap-2">
+              <Switch
+                id={`two-factor-${role}`}
+                checked={requiredRoles.includes(role)}
+                onCheckedChange={(checked) => toggle(role, checked)}
+                data-testid={`switch-two-factor-${role}`}
+              />
+              <Label htmlFor={`two-factor-${role}`}>{ROLE_LABELS[role] ?? role}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(requiredRoles)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-two-factor-policy"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
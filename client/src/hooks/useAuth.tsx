@@ -2,6 +2,16 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+export interface Impersonation {
+  id: string;
+  teacherId: string;
+  teacherName: string;
+  allowWrites: boolean;
+  justification: string | null;
+  startedAt: string;
+  expiresAt: string;
+}
+
 export interface AuthUser {
   id: string;
   tenantId: string;
@@ -13,6 +23,13 @@ export interface AuthUser {
   isSuperAdmin?: boolean;
   isTeacher?: boolean;
   accessibleDashboards?: string[];
+  // Named permissions from the base role or the custom role (server/permissions.ts)
+  permissions?: string[];
+  // Set while this manager is viewing the teacher area as a teacher (server/impersonation.ts)
+  impersonation?: Impersonation | null;
+  mustChangePassword?: boolean;
+  passwordExpired?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
 
 export function useAuth() {
@@ -0,0 +1,20 @@
+import type { AttendanceStatus } from "@shared/attendance";
+
+// Badge, card and calendar colours of each attendance status
+export const ATTENDANCE_STATUS_STYLES: Record<AttendanceStatus, { label: string; badge: string; card: string; day: string }> = {
+  present: { label: 'Present', badge: 'bg-green-100 text-green-800', card: 'bg-green-50 border-green-200', day: 'bg-green-500' },
+  absent: { label: 'Absent', badge: 'bg-red-100 text-red-800', card: 'bg-red-50 border-red-200', day: 'bg-red-500' },
+  late: { label: 'Late', badge: 'bg-yellow-100 text-yellow-800', card: 'bg-yellow-50 border-yellow-200', day: 'bg-yellow-500' },
+  excused: { label: 'Excused', badge: 'bg-indigo-100 text-indigo-800', card: 'bg-indigo-50 border-indigo-200', day: 'bg-indigo-500' },
+  leave: { label: 'Leave', badge: 'bg-purple-100 text-purple-800', card: 'bg-purple-50 border-purple-200', day: 'bg-purple-500' },
+  medical: { label: 'Medical', badge: 'bg-teal-100 text-teal-800', card: 'bg-teal-50 border-teal-200', day: 'bg-teal-500' },
+};
+
+export const attendanceStatusStyle = (status: string) =>
+  ATTENDANCE_STATUS_STYLES[status as AttendanceStatus] ?? { label: status, badge: 'bg-gray-100 text-gray-800', card: 'border-gray-200', day: 'bg-gray-300' };
+
+/** "Late (15 min)" for a late mark with minutes, otherwise the status label. */
+export function attendanceStatusLabel(status: string, minutesLate?: number | null): string {
+  const { label } = attendanceStatusStyle(status);
+  return status === 'late' && minutesLate ? `${label} (${minutesLate} min)` : label;
+}
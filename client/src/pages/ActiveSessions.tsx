@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Laptop, LogOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Logo from "@/components/Logo";
+
+interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastActivityAt: string | null;
+  current: boolean;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Unknown");
+
+// Where the user is signed in, from the profile menu; other devices can be signed out
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading, refetch } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      toast({ title: "Success", description: "That device has been signed out" });
+      refetch();
+    },
+    onError: onError("Failed to sign out session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/sessions/sign-out-others');
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (data) => {
+      toast({ title: "Success", description: data.message });
+      refetch();
+    },
+    onError: onError("Failed to sign out other sessions"),
+  });
+
+  const others = sessions.filter((s) => !s.current);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-6">
+              <Logo size="text-2xl" />
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900 mb-2 flex items-center justify-center gap-2">
+              <Laptop className="h-6 w-6" style={{ color: '#253C8D' }} />
+              Active sessions
+            </h1>
+            <p className="text-gray-600 text-sm">
+              Devices where you are signed in. Sign out any you don't recognise and change your password.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : (
+            <div className="space-y-3">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-3 rounded-md border p-3" data-testid={`session-${session.id}`}>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium flex items-center gap-2">
+                      {session.device}
+                      {session.current && <Badge className="bg-green-100 text-green-800">This device</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {session.ipAddress || "Unknown IP"} - signed in {formatTime(session.signedInAt)}
+                    </div>
+                    <div className="text-xs text-gray-500">Last active {formatTime(session.lastActivityAt)}</div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      <LogOut className="h-4 w-4 mr-1" />
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {others.length > 0 && (
+            <Button
+              className="w-full mt-6 text-white"
+              style={{ backgroundColor: '#253C8D' }}
+              disabled={revokeOthersMutation.isPending}
+              onClick={() => revokeOthersMutation.mutate()}
+              data-testid="button-revoke-other-sessions"
+            >
+              {revokeOthersMutation.isPending ? "Signing out..." : "Sign Out All Other Sessions"}
+            </Button>
+          )}
+
+          <Button
+            type="button"
+            variant="ghost"
+            className="w-full mt-4"
+            onClick={() => window.history.back()}
+            data-testid="button-leave-sessions"
+          >
+            Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
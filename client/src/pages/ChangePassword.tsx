@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, EyeOff, Lock, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Logo from "@/components/Logo";
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordForm = z.infer<typeof changePasswordSchema>;
+
+interface PasswordPolicyResponse {
+  minLength: number;
+  requirements: string[];
+}
+
+// Shown instead of the app while a password change is required (temporary, reset or
+// expired password), and from the profile menu for a voluntary change.
+export default function ChangePassword() {
+  const [showPassword, setShowPassword] = useState(false);
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const required = !!user?.mustChangePassword;
+
+  const { data: policy } = useQuery<PasswordPolicyResponse>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+
+  const form = useForm<ChangePasswordForm>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: ChangePasswordForm) =>
+      apiRequest('POST', '/api/auth/change-password', {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      }),
+    onSuccess: async () => {
+      toast({
+        title: "Password Changed",
+        description: "Your other devices have been signed out.",
+      });
+      await queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      if (!required) {
+        window.location.href = localStorage.getItem('selectedRole') ? '/dashboard' : '/';
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Password Not Changed",
+        description: error.message || "Failed to change password. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const fields = [
+    { name: "currentPassword" as const, label: required ? "Current (temporary) password" : "Current password", autoComplete: "current-password" },
+    { name: "newPassword" as const, label: "New password", autoComplete: "new-password" },
+    { name: "confirmPassword" as const, label: "Confirm new password", autoComplete: "new-password" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-6">
+              <Logo size="text-2xl" />
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900 mb-2">
+              {required ? "Set a new password" : "Change password"}
+            </h1>
+            <p className="text-gray-600 text-sm">
+              {!required
+                ? "You'll be signed out of other devices once it's changed."
+                : user?.passwordExpired
+                  ? "Your password has expired. Choose a new one to continue."
+                  : "You're signed in with a temporary password. Choose your own to continue."}
+            </p>
+          </div>
+
+          {policy?.requirements && (
+            <div className="mb-6 rounded-md bg-blue-50 border border-blue-100 p-3">
+              <p className="text-sm font-medium text-gray-800 flex items-center gap-2 mb-1">
+                <ShieldCheck className="h-4 w-4 text-blue-700" /> Your school's password rules
+              </p>
+              <ul className="text-sm text-gray-600 list-disc pl-6 space-y-0.5" data-testid="list-password-rules">
+                {policy.requirements.map((rule) => <li key={rule}>{rule}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <form onSubmit={form.handleSubmit((data) => changeMutation.mutate(data))} className="space-y-5">
+            {fields.map((field, index) => (
+              <div key={field.name} className="space-y-1">
+                <label htmlFor={field.name} className="text-sm font-medium text-gray-700 block">
+                  {field.label}
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id={field.name}
+                    type={showPassword ? "text" : "password"}
+                    autoComplete={field.autoComplete}
+                    className={`pl-10 ${index === 0 ? 'pr-10' : ''} h-12 border-gray-300`}
+                    {...form.register(field.name)}
+                    data-testid={`input-${field.name}`}
+                  />
+                  {index === 0 && (
+                    <button
+                      type="button"
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  )}
+                </div>
+                {form.formState.errors[field.name] && (
+                  <p className="text-sm text-red-600">{form.formState.errors[field.name]?.message}</p>
+                )}
+              </div>
+            ))}
+
+            <Button
+              type="submit"
+              className="w-full h-12 text-white font-medium text-base rounded-md"
+              style={{ backgroundColor: '#253C8D' }}
+              disabled={changeMutation.isPending}
+              data-testid="button-change-password"
+            >
+              {changeMutation.isPending ? "Saving..." : "Change Password"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => (required ? logout() : window.history.back())}
+              data-testid="button-cancel-change-password"
+            >
+              {required ? "Sign Out" : "Cancel"}
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Eye, EyeOff, Mail, Lock, KeyRound } from "lucide-react";
+import { Eye, EyeOff, Mail, Lock, KeyRound, Smartphone } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import Logo from "@/components/Logo";
@@ -37,6 +37,10 @@ interface LoginPageProps {
 export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [forgotPasswordOpen, setForgotPasswordOpen] = useState(false);
+  // Second sign-in step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [secondFactor, setSecondFactor] = useState("");
   const { toast } = useToast();
 
   const loginForm = useForm<LoginForm>({
@@ -60,35 +64,11 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
     },
     onSuccess: async (response) => {
       const user = await response.json();
-      
-      toast({
-        title: "Login Successful",
-        description: "Welcome to Frontbench!",
-      });
-      
-      // Smart redirect based on user role - skip RoleSelector for non-super admins
-      if (!user.isSuperAdmin) {
-        let targetDashboard: string;
-        
-        if (user.role === 'teacher') {
-          targetDashboard = 'teacher';
-        } else if (user.role === 'finance') {
-          targetDashboard = 'finance';
-        } else if (user.role === 'management') {
-          targetDashboard = 'management';
-        } else {
-          targetDashboard = 'finance'; // Default fallback
-        }
-        
-        // Set role and redirect directly to dashboard
-        localStorage.setItem('selectedRole', targetDashboard);
-        window.location.href = '/dashboard';
-      } else {
-        // Super admins go to role selector
-        window.location.href = '/';
+      if (user.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
       }
-      
-      onLoginSuccess(user);
+      completeLogin(user);
     },
     onError: (error: any) => {
       toast({
@@ -99,6 +79,60 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/auth/login/2fa', useRecoveryCode ? { recoveryCode: secondFactor } : { code: secondFactor });
+    },
+    onSuccess: async (response) => {
+      completeLogin(await response.json());
+    },
+    onError: (error: any) => {
+      setSecondFactor("");
+      // 401/423: the pending sign-in expired or the account was locked - start again from the password
+      if (error.message?.startsWith('401') || error.message?.startsWith('423')) {
+        setTwoFactorStep(false);
+      }
+      toast({
+        title: "Verification Failed",
+        description: error.message || "That code is not valid. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completeLogin = (user: any) => {
+    toast({
+      title: "Login Successful",
+      description: "Welcome to Frontbench!",
+    });
+    
+    // Smart redirect based on user role - skip RoleSelector for non-super admins
+    if (!user.isSuperAdmin) {
+      let targetDashboard: string;
+      
+      if (user.role === 'teacher') {
+        targetDashboard = 'teacher';
+      } else if (user.role === 'finance') {
+        targetDashboard = 'finance';
+      } else if (user.role === 'management') {
+        targetDashboard = 'management';
+      } else if (user.role === 'parent') {
+        targetDashboard = 'parent';
+      } else {
+        targetDashboard = 'finance'; // Default fallback
+      }
+      
+      // Set role and redirect directly to dashboard
+      localStorage.setItem('selectedRole', targetDashboard);
+      window.location.href = '/dashboard';
+    } else {
+      // Super admins go to role selector
+      window.location.href = '/';
+    }
+    
+    onLoginSuccess(user);
+  };
+
   const forgotPasswordMutation = useMutation({
     mutationFn: async (data: ForgotPasswordForm) => {
       return await apiRequest('POST', '/api/auth/forgot-password', data);
@@ -139,13 +173,89 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
             </div>
 
             <h1 className="text-2xl font-semibold text-gray-900 mb-2">
-              Welcome back
+              {twoFactorStep ? "Two-factor verification" : "Welcome back"}
             </h1>
             <p className="text-gray-600 text-sm">
-              Sign in to access your school
+              {!twoFactorStep
+                ? "Sign in to access your school"
+                : useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when setting up two-factor authentication"
+                  : "Enter the 6-digit code from your authenticator app"}
             </p>
           </div>
 
+          {twoFactorStep ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (secondFactor.trim()) twoFactorMutation.mutate();
+              }}
+              className="space-y-5"
+            >
+              <div className="space-y-1">
+                <label htmlFor="second-factor" className="text-sm font-medium text-gray-700 block">
+                  {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                </label>
+                <div className="relative">
+                  {useRecoveryCode ? (
+                    <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  ) : (
+                    <Smartphone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  )}
+                  <Input
+                    id="second-factor"
+                    autoFocus
+                    autoComplete="one-time-code"
+                    inputMode={useRecoveryCode ? "text" : "numeric"}
+                    placeholder={useRecoveryCode ? "XXXXX-XXXXX" : "123456"}
+                    className="pl-10 h-12 border-gray-300 tracking-widest"
+                    value={secondFactor}
+                    onChange={(e) => setSecondFactor(e.target.value)}
+                    data-testid="input-second-factor"
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-12 text-white font-medium text-base rounded-md"
+                style={{ backgroundColor: '#253C8D' }}
+                disabled={twoFactorMutation.isPending || !secondFactor.trim()}
+                data-testid="button-verify-second-factor"
+              >
+                {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between pt-2">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="text-sm p-0 h-auto font-medium"
+                  style={{ color: '#253C8D' }}
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setSecondFactor("");
+                  }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="text-sm p-0 h-auto text-gray-600"
+                  onClick={() => {
+                    setTwoFactorStep(false);
+                    setSecondFactor("");
+                    loginForm.resetField("password");
+                  }}
+                  data-testid="button-back-to-login"
+                >
+                  Back to sign in
+                </Button>
+              </div>
+            </form>
+          ) : (
           <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-5">
             {/* Email Field */}
             <div className="space-y-1">
@@ -287,6 +397,7 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
               </Dialog>
             </div>
           </form>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Link2Off, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import Logo from "@/components/Logo";
+import StudentPortal from "@/pages/StudentPortal";
+import ChildSwitcher from "@/components/ChildSwitcher";
+
+interface PortalStudent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  rollNumber: string;
+}
+
+interface PortalSession {
+  students: PortalStudent[];
+  expiresAt: string;
+}
+
+// Entry point for links shared with parents (/portal/:token). The server checks the
+// signed token and remembers it for this browser; a family link can switch children.
+export default function PortalAccess({ token }: { token: string }) {
+  const [studentId, setStudentId] = useState<string | null>(null);
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/portal/session', { token });
+      return response.json() as Promise<PortalSession>;
+    },
+    onSuccess: (data) => setStudentId(data.students[0]?.id ?? null),
+  });
+
+  useEffect(() => {
+    openMutation.mutate();
+  }, [token]);
+
+  if (openMutation.isError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <div className="flex justify-center mb-6">
+            <Logo size="text-2xl" />
+          </div>
+          <Link2Off className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">This link can't be opened</h1>
+          <p className="text-gray-600 text-sm mb-6" data-testid="text-portal-link-error">
+            It has expired or been replaced. Please ask the school office for a new portal link.
+          </p>
+          <Button variant="outline" onClick={() => openMutation.mutate()} data-testid="button-retry-portal-link">
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const children = openMutation.data?.students ?? [];
+  if (!studentId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ChildSwitcher children={children} selectedId={studentId} onSelect={setStudentId} />
+      <StudentPortal key={studentId} studentId={studentId} />
+    </>
+  );
+}
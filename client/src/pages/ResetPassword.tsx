@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, EyeOff, Lock, CheckCircle2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Logo from "@/components/Logo";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [showPassword, setShowPassword] = useState(false);
+  const [done, setDone] = useState(false);
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordForm) =>
+      apiRequest('POST', '/api/auth/reset-password', { token, password: data.password }),
+    onSuccess: () => setDone(true),
+    onError: (error: any) => {
+      toast({
+        title: "Password Not Reset",
+        description: error.message || "Failed to reset password. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-6">
+              <Logo size="text-2xl" />
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900 mb-2">
+              {done ? "Password updated" : "Choose a new password"}
+            </h1>
+            {!done && (
+              <p className="text-gray-600 text-sm">
+                You'll be signed out of other devices once it's changed.
+              </p>
+            )}
+          </div>
+
+          {!token ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-red-600">This reset link is incomplete. Please use the link from your email, or request a new one.</p>
+              <Button variant="outline" className="w-full" onClick={() => { window.location.href = '/login'; }}>
+                Back to Sign In
+              </Button>
+            </div>
+          ) : done ? (
+            <div className="space-y-4 text-center">
+              <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+              <p className="text-sm text-gray-600">Your password has been reset. Sign in with your new password.</p>
+              <Button
+                className="w-full h-12 text-white"
+                style={{ backgroundColor: '#253C8D' }}
+                onClick={() => { window.location.href = '/login'; }}
+                data-testid="button-go-to-login"
+              >
+                Sign In
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-5">
+              <div className="space-y-1">
+                <label htmlFor="new-password" className="text-sm font-medium text-gray-700 block">
+                  New password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="new-password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    className="pl-10 pr-10 h-12 border-gray-300"
+                    {...form.register("password")}
+                    data-testid="input-new-password"
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+                {form.formState.errors.password && (
+                  <p className="text-sm text-red-600">{form.formState.errors.password.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor="confirm-password" className="text-sm font-medium text-gray-700 block">
+                  Confirm new password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="confirm-password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    className="pl-10 h-12 border-gray-300"
+                    {...form.register("confirmPassword")}
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+                {form.formState.errors.confirmPassword && (
+                  <p className="text-sm text-red-600">{form.formState.errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-12 text-white font-medium text-base rounded-md"
+                style={{ backgroundColor: '#253C8D' }}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-password"
+              >
+                {resetMutation.isPending ? "Saving..." : "Reset Password"}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
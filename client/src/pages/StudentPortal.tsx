@@ -1,6 +1,9 @@
 import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
+import type { AttendanceSummary, ClassSession } from "@/types";
+import { attendanceRate, isExcused, type AttendanceStatus } from "@shared/attendance";
+import LeaveRequestsCard from "@/components/LeaveRequestsCard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -50,7 +53,7 @@ interface Grade {
 interface AttendanceRecord {
   id: string;
   attendanceDate: string;
-  status: 'present' | 'absent' | 'late';
+  status: AttendanceStatus;
   subjectName: string;
   classTime: string;
 }
@@ -81,21 +84,6 @@ interface ScheduleNotification {
   subjectName: string;
 }
 
-interface ScheduleItem {
-  id: string;
-  type: 'regular' | 'cancellation' | 'reschedule' | 'extra_class';
-  subjectId: string;
-  subjectName: string;
-  subjectCode: string;
-  dayOfWeek?: number;
-  startTime: string;
-  endTime: string;
-  location?: string;
-  teacherName: string;
-  affectedDate?: string;
-  reason?: string;
-}
-
 export default function StudentPortal(props: StudentPortalProps = {}) {
   const { studentId: urlStudentId } = useParams<{ studentId: string }>();
   const studentId = props.studentId || urlStudentId;
@@ -111,12 +99,12 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
     enabled: !!studentId,
   });
 
-  // Fetch student schedule
-  const { data: schedule } = useQuery({
+  // Fetch the student's class sessions for the coming week
+  const { data: sessions = [] } = useQuery<ClassSession[]>({
     queryKey: ["/api/student", studentId, "schedule"],
     queryFn: async () => {
       const response = await fetch(`/api/student/${studentId}/schedule`);
-      return response.ok ? response.json() : { regularSchedules: [], scheduleChanges: [] };
+      return response.ok ? response.json() : [];
     },
     enabled: !!studentId,
   });
@@ -166,13 +154,19 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
     enabled: !!studentId,
     queryFn: async () => {
       const url = selectedSubjectId === 'all' 
-        ? `/api/students/${studentId}/attendance`
+        ? `/api/attendance/student/${studentId}`
         : `/api/students/${studentId}/attendance/${selectedSubjectId}`;
       const response = await fetch(url);
       return response.ok ? response.json() : [];
     }
   });
 
+  // The school's rule for counting excused absences comes with the overall summary
+  const { data: attendanceSummary } = useQuery<AttendanceSummary>({
+    queryKey: [`/api/students/${studentId}/attendance`],
+    enabled: !!studentId,
+  });
+
   // Calculate attendance statistics
   const attendanceArray = Array.isArray(attendance) ? attendance : [];
   const attendanceStats = {
@@ -180,11 +174,11 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
     present: attendanceArray.filter((a: any) => a.status === 'present').length,
     late: attendanceArray.filter((a: any) => a.status === 'late').length,
     absent: attendanceArray.filter((a: any) => a.status === 'absent').length,
+    excused: attendanceArray.filter((a: any) => isExcused(a.status)).length,
   };
 
-  const attendancePercentage = attendanceStats.total > 0 
-    ? Math.round(((attendanceStats.present + attendanceStats.late) / attendanceStats.total) * 100)
-    : 0;
+  const rate = attendanceRate(attendanceArray.map((a) => a.status), attendanceSummary?.excusedAbsences);
+  const attendancePercentage = rate.percentage;
 
   // Get current selected subject info
   const currentSubject = selectedSubjectId === 'all' 
@@ -359,7 +353,7 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
                 <div>
                   <p className="text-xs font-semibold text-cyan-600 mb-1">ATTENDANCE</p>
                   <p className="text-2xl font-bold text-cyan-900">{attendancePercentage}%</p>
-                  <p className="text-xs text-cyan-700">{attendanceStats.present} of {attendanceStats.total} Days</p>
+                  <p className="text-xs text-cyan-700">{rate.attended} of {rate.counted} Days</p>
                 </div>
                 <div className="bg-cyan-100 p-2 rounded-full">
                   <CheckCircle className="h-6 w-6 text-cyan-600" />
@@ -457,7 +451,7 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
                 <p className="text-sm text-gray-600">Monthly attendance summary and detailed log</p>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="grid grid-cols-4 gap-4 mb-6">
                   <div className="text-center p-4 bg-green-50 rounded-xl">
                     <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
                     <p className="text-2xl font-bold text-green-900">{attendanceStats.present || 23}</p>
@@ -473,6 +467,11 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
                     <p className="text-2xl font-bold text-red-900">{attendanceStats.absent || 1}</p>
                     <p className="text-sm text-red-700">ABSENT</p>
                   </div>
+                  <div className="text-center p-4 bg-purple-50 rounded-xl">
+                    <Calendar className="h-8 w-8 text-purple-600 mx-auto mb-2" />
+                    <p className="text-2xl font-bold text-purple-900">{attendanceStats.excused}</p>
+                    <p className="text-sm text-purple-700">EXCUSED</p>
+                  </div>
                 </div>
 
                 <h4 className="font-medium text-gray-700 mb-3">Recent Attendance Log</h4>
@@ -507,6 +506,8 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
 
           {/* Right Column */}
           <div className="space-y-6">
+            {studentId && <LeaveRequestsCard studentId={studentId} />}
+
             {/* Fee Status */}
             <Card>
               <CardHeader>
@@ -731,65 +732,53 @@ export default function StudentPortal(props: StudentPortalProps = {}) {
                   </div>
                 )}
 
-                {/* Weekly Schedule */}
+                {/* This week's classes */}
                 <div>
-                  <h4 className="font-medium text-gray-700 mb-3">Weekly Class Schedule</h4>
-                  {schedule?.regularSchedules?.length > 0 ? (
+                  <h4 className="font-medium text-gray-700 mb-3">This Week's Classes</h4>
+                  {sessions.length > 0 ? (
                     <div className="space-y-3">
-                      {(() => {
-                        const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-                        const scheduleByDay: any = {};
-                        
-                        schedule.regularSchedules.forEach((item: any) => {
-                          const day = dayNames[item.dayOfWeek];
-                          if (!scheduleByDay[day]) {
-                            scheduleByDay[day] = [];
-                          }
-                          scheduleByDay[day].push(item);
-                        });
-
-                        // Sort each day's classes by start time
-                        Object.keys(scheduleByDay).forEach(day => {
-                          scheduleByDay[day].sort((a: any, b: any) => a.startTime.localeCompare(b.startTime));
-                        });
-
-                        return dayNames.map(day => (
-                          <div key={day} className="border rounded-lg p-3">
-                            <h5 className="font-medium text-gray-800 mb-2">{day}</h5>
-                            {scheduleByDay[day]?.length > 0 ? (
-                              <div className="space-y-2">
-                                {scheduleByDay[day].map((classItem: any, index: number) => (
-                                  <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                                    <div className="flex items-center gap-3">
-                                      <div className="text-sm font-medium text-blue-600">
-                                        {classItem.startTime} - {classItem.endTime}
-                                      </div>
-                                      <div>
-                                        <p className="font-medium text-gray-900">{classItem.subjectName}</p>
-                                        <p className="text-xs text-gray-600">
-                                          {classItem.teacherName}
-                                          {classItem.location && ` • ${classItem.location}`}
-                                        </p>
-                                      </div>
-                                    </div>
-                                    <Badge variant="outline" className="text-xs">
-                                      {classItem.subjectCode}
-                                    </Badge>
+                      {Array.from(new Set(sessions.map(session => session.sessionDate))).map(date => (
+                        <div key={date} className="border rounded-lg p-3">
+                          <h5 className="font-medium text-gray-800 mb-2">
+                            {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                          </h5>
+                          <div className="space-y-2">
+                            {sessions.filter(session => session.sessionDate === date).map(session => (
+                              <div key={session.id} className="flex items-center justify-between p-2 bg-gray-50 rounded" data-testid={`session-${session.id}`}>
+                                <div className="flex items-center gap-3">
+                                  <div className={`text-sm font-medium ${session.status === 'cancelled' ? 'text-gray-400 line-through' : 'text-blue-600'}`}>
+                                    {session.startTime} - {session.endTime}
                                   </div>
-                                ))}
+                                  <div>
+                                    <p className="font-medium text-gray-900">{session.subject}</p>
+                                    <p className="text-xs text-gray-600">
+                                      {session.teacherName}
+                                      {session.location && ` • ${session.location}`}
+                                    </p>
+                                  </div>
+                                </div>
+                                {session.status === 'cancelled' ? (
+                                  <Badge className="text-xs bg-red-100 text-red-800">Cancelled</Badge>
+                                ) : session.changeType === 'reschedule' ? (
+                                  <Badge className="text-xs bg-orange-100 text-orange-800">Rescheduled</Badge>
+                                ) : session.changeType === 'extra_class' ? (
+                                  <Badge className="text-xs bg-green-100 text-green-800">Extra class</Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-xs">
+                                    {session.subjectCode}
+                                  </Badge>
+                                )}
                               </div>
-                            ) : (
-                              <p className="text-sm text-gray-500">No classes scheduled</p>
-                            )}
+                            ))}
                           </div>
-                        ));
-                      })()}
+                        </div>
+                      ))}
                     </div>
                   ) : (
                     <div className="text-center py-8">
                       <Calendar className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-                      <p className="text-gray-500 font-medium">No schedule available</p>
-                      <p className="text-sm text-gray-400">Your class schedule will appear here once created by teachers</p>
+                      <p className="text-gray-500 font-medium">No classes this week</p>
+                      <p className="text-sm text-gray-400">Your classes will appear here once teachers set up the timetable</p>
                     </div>
                   )}
                 </div>
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Copy, KeyRound, ShieldCheck, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Logo from "@/components/Logo";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// Shown instead of the app while the school requires 2FA for the user's role and it is
+// not set up yet, and from the profile menu to enroll, manage recovery codes or turn it off.
+export default function TwoFactorSetup() {
+  const { toast } = useToast();
+  const { user, logout } = useAuth();
+  const required = !!user?.twoFactorSetupRequired;
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, refetch } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/setup');
+      return response.json() as Promise<TwoFactorSetupResponse>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Two-Factor Enabled",
+        description: "You'll be asked for a code from your app each time you sign in.",
+      });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refetch();
+    },
+    onError: onError("Failed to enable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/2fa/recovery-codes', { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refetch();
+    },
+    onError: onError("Failed to create recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/auth/2fa/disable', { password }),
+    onSuccess: () => {
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Sign-in now only needs your password.",
+      });
+      setPassword("");
+      refetch();
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  // Leaving the forced enrollment screen: refresh the session so the app loads
+  const finish = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    if (!required) {
+      window.location.href = localStorage.getItem('selectedRole') ? '/dashboard' : '/';
+    }
+  };
+
+  const copyCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard?.writeText(recoveryCodes.join('\n'));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-6">
+              <Logo size="text-2xl" />
+            </div>
+            <h1 className="text-2xl font-semibold text-gray-900 mb-2 flex items-center justify-center gap-2">
+              <ShieldCheck className="h-6 w-6" style={{ color: '#253C8D' }} />
+              Two-factor authentication
+            </h1>
+            <p className="text-gray-600 text-sm">
+              {required
+                ? "Your school requires a code from an authenticator app when you sign in. Set it up to continue."
+                : "Protect your account with a code from an authenticator app as well as your password."}
+            </p>
+          </div>
+
+          {recoveryCodes ? (
+            <div className="space-y-4" data-testid="panel-recovery-codes">
+              <div className="rounded-md bg-amber-50 border border-amber-200 p-3 text-sm text-amber-900">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+                They won't be shown again.
+              </div>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <div key={recoveryCode} className="rounded bg-gray-100 px-3 py-2 text-center">{recoveryCode}</div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+                  <Copy className="mr-2 h-4 w-4" /> Copy
+                </Button>
+                <Button
+                  className="flex-1 text-white"
+                  style={{ backgroundColor: '#253C8D' }}
+                  onClick={() => {
+                    setRecoveryCodes(null);
+                    finish();
+                  }}
+                  data-testid="button-recovery-codes-saved"
+                >
+                  I've saved them
+                </Button>
+              </div>
+            </div>
+          ) : setup ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                enableMutation.mutate();
+              }}
+              className="space-y-5"
+            >
+              <ol className="text-sm text-gray-700 list-decimal pl-5 space-y-1">
+                <li>Scan this QR code with Google Authenticator, Microsoft Authenticator or a similar app.</li>
+                <li>Enter the 6-digit code the app shows.</li>
+              </ol>
+              <div className="flex justify-center">
+                <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48" data-testid="img-two-factor-qr" />
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+                <p className="font-mono text-sm break-all" data-testid="text-two-factor-secret">{setup.secret}</p>
+              </div>
+              <div className="relative">
+                <Smartphone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  className="pl-10 h-12 tracking-widest"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  data-testid="input-two-factor-code"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full h-12 text-white font-medium text-base rounded-md"
+                style={{ backgroundColor: '#253C8D' }}
+                disabled={enableMutation.isPending || !code.trim()}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Turn On"}
+              </Button>
+            </form>
+          ) : status?.enabled ? (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">Status</span>
+                <Badge className="bg-green-100 text-green-800">On</Badge>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">Recovery codes left</span>
+                <span className="text-sm font-medium" data-testid="text-recovery-codes-remaining">{status.recoveryCodesRemaining}</span>
+              </div>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  regenerateMutation.mutate();
+                }}
+                className="space-y-2"
+              >
+                <label htmlFor="regenerate-code" className="text-sm font-medium text-gray-700 block">
+                  New recovery codes
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    id="regenerate-code"
+                    inputMode="numeric"
+                    placeholder="Code from your app"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    data-testid="input-regenerate-code"
+                  />
+                  <Button type="submit" variant="outline" disabled={regenerateMutation.isPending || !code.trim()} data-testid="button-regenerate-recovery-codes">
+                    <KeyRound className="mr-2 h-4 w-4" /> Generate
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">Replaces any codes you haven't used.</p>
+              </form>
+
+              {status.required ? (
+                <p className="text-xs text-gray-500">Your school requires two-factor authentication for your role, so it can't be turned off.</p>
+              ) : (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    disableMutation.mutate();
+                  }}
+                  className="space-y-2"
+                >
+                  <label htmlFor="disable-password" className="text-sm font-medium text-gray-700 block">
+                    Turn off two-factor authentication
+                  </label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="disable-password"
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder="Your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      data-testid="input-disable-password"
+                    />
+                    <Button type="submit" variant="destructive" disabled={disableMutation.isPending || !password} data-testid="button-disable-two-factor">
+                      Turn Off
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ) : (
+            <Button
+              className="w-full h-12 text-white font-medium text-base rounded-md"
+              style={{ backgroundColor: '#253C8D' }}
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              data-testid="button-start-two-factor"
+            >
+              {setupMutation.isPending ? "Preparing..." : "Set Up Authenticator App"}
+            </Button>
+          )}
+
+          {!recoveryCodes && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full mt-4"
+              onClick={() => (required ? logout() : window.history.back())}
+              data-testid="button-leave-two-factor"
+            >
+              {required ? "Sign Out" : "Back"}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -9,6 +10,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Check, X, Clock, QrCode, Users, Calendar, School, ChevronRight } from "lucide-react";
 import QrScanner from "qr-scanner";
+import type { AttendanceHistory, ClassSession } from "@/types";
+import { EXCUSED_STATUSES, isExcused, type AttendanceStatus } from "@shared/attendance";
+import { ATTENDANCE_STATUS_STYLES, attendanceStatusStyle } from "@/lib/attendance";
 
 interface Student {
   id: string;
@@ -18,26 +22,17 @@ interface Student {
   profileImageUrl?: string;
 }
 
-interface Class {
-  id: string;
-  name: string;
-  subject: string;
-  startTime: string;
-  endTime: string;
-  dayOfWeek: number;
-  teacherName: string;
-  teacherId: string;
-}
-
 interface AttendanceRecord {
   studentId: string;
-  status: 'present' | 'absent' | 'late';
+  status: AttendanceStatus;
+  minutesLate?: number | null;
 }
 
 export default function AttendanceManagement() {
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
   const [selectedClass, setSelectedClass] = useState("");
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+  const [reason, setReason] = useState("");
   const [attendanceMethod, setAttendanceMethod] = useState<'tap' | 'qr'>('tap');
   const [isScanning, setIsScanning] = useState(false);
   const [qrScanner, setQrScanner] = useState<QrScanner | null>(null);
@@ -45,18 +40,17 @@ export default function AttendanceManagement() {
   const queryClient = useQueryClient();
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  // Fetch all classes for the selected date
-  const { data: allClasses, isLoading: classesLoading } = useQuery<Class[]>({
-    queryKey: ['/api/classes/all', selectedDate],
+  // Fetch every class session on the selected date
+  const { data: allClasses, isLoading: classesLoading } = useQuery<ClassSession[]>({
+    queryKey: ['/api/class-sessions', selectedDate],
     queryFn: async () => {
-      // This would need to be implemented on the backend
-      const response = await fetch(`/api/classes/all?date=${selectedDate}`);
+      const response = await fetch(`/api/class-sessions?date=${selectedDate}`);
       return response.ok ? response.json() : [];
     }
   });
 
   const { data: students, isLoading: studentsLoading } = useQuery<Student[]>({
-    queryKey: ['/api/classes', selectedClass, 'students'],
+    queryKey: ['/api/class-sessions', selectedClass, 'students'],
     enabled: !!selectedClass,
   });
 
@@ -65,22 +59,38 @@ export default function AttendanceManagement() {
     queryKey: ['/api/attendance', selectedClass, selectedDate],
     enabled: !!selectedClass,
     queryFn: async () => {
-      const response = await fetch(`/api/attendance?classId=${selectedClass}&date=${selectedDate}`);
+      const response = await fetch(`/api/attendance?sessionId=${selectedClass}`);
       return response.ok ? response.json() : [];
     }
   });
 
+  const { data: history } = useQuery<AttendanceHistory>({
+    queryKey: ['/api/class-sessions', selectedClass, 'attendance', 'history'],
+    enabled: !!selectedClass,
+  });
+
   // Update attendance records when existing attendance is loaded
   useEffect(() => {
     if (existingAttendance) {
       const records = existingAttendance.map((att: any) => ({
         studentId: att.studentId,
-        status: att.status
+        status: att.status,
+        minutesLate: att.minutesLate,
       }));
       setAttendanceRecords(records);
+      setReason("");
     }
   }, [existingAttendance]);
 
+  // Marks already saved that this update changes; these need a reason
+  const changedCount = attendanceRecords.filter(record => {
+    const saved = existingAttendance?.find((att: any) => att.studentId === record.studentId);
+    return saved && saved.status !== record.status;
+  }).length;
+  const canAmend = history?.canAmend ?? true;
+  // Past the cut-off staff may still add marks, just not change saved ones
+  const markLocked = (studentId: string) => !canAmend && !!existingAttendance?.some((att: any) => att.studentId === studentId);
+
   // Check if attendance has been taken for a class
   const getClassAttendanceStatus = (classId: string) => {
     if (classId === selectedClass && existingAttendance && existingAttendance.length > 0) {
@@ -91,15 +101,10 @@ export default function AttendanceManagement() {
 
   const submitAttendanceMutation = useMutation({
     mutationFn: async () => {
-      const promises = attendanceRecords.map(record => 
-        apiRequest('POST', '/api/attendance', {
-          classId: selectedClass,
-          studentId: record.studentId,
-          attendanceDate: selectedDate,
-          status: record.status,
-        })
-      );
-      return Promise.all(promises);
+      return apiRequest('PUT', `/api/class-sessions/${selectedClass}/attendance`, {
+        records: attendanceRecords,
+        reason: changedCount > 0 ? reason : undefined,
+      });
     },
     onSuccess: () => {
       toast({
@@ -107,11 +112,12 @@ export default function AttendanceManagement() {
         description: "Attendance updated successfully!",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/class-sessions', selectedClass, 'attendance'] });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update attendance. Please try again.",
+        description: error?.message || "Failed to update attendance. Please try again.",
         variant: "destructive",
       });
     },
@@ -178,23 +184,26 @@ export default function AttendanceManagement() {
     }
   };
 
-  const markAttendance = (studentId: string, status: 'present' | 'absent' | 'late') => {
+  const markAttendance = (studentId: string, status: AttendanceStatus) => {
     setAttendanceRecords(prev => {
       const existing = prev.find(r => r.studentId === studentId);
       if (existing) {
-        return prev.map(r => r.studentId === studentId ? { ...r, status } : r);
+        return prev.map(r => r.studentId === studentId ? { ...r, status, minutesLate: status === 'late' ? r.minutesLate : null } : r);
       }
       return [...prev, { studentId, status }];
     });
   };
 
+  const setMinutesLate = (studentId: string, value: string) => {
+    const minutes = value === '' ? null : Math.round(Number(value));
+    setAttendanceRecords(prev => prev.map(r => r.studentId === studentId ? { ...r, minutesLate: minutes } : r));
+  };
+
   const undoMark = (studentId: string) => {
     setAttendanceRecords(prev => prev.filter(r => r.studentId !== studentId));
   };
 
-  const getStudentStatus = (studentId: string): 'present' | 'absent' | 'late' | undefined => {
-    return attendanceRecords.find(r => r.studentId === studentId)?.status;
-  };
+  const getStudentRecord = (studentId: string) => attendanceRecords.find(r => r.studentId === studentId);
 
   const handleSubmit = () => {
     if (!selectedClass) {
@@ -205,12 +214,21 @@ export default function AttendanceManagement() {
       });
       return;
     }
+    if (changedCount > 0 && !reason.trim()) {
+      toast({
+        title: "Reason needed",
+        description: "Say why attendance that was already taken is being changed.",
+        variant: "destructive",
+      });
+      return;
+    }
     submitAttendanceMutation.mutate();
   };
 
   const presentCount = attendanceRecords.filter(r => r.status === 'present').length;
   const absentCount = attendanceRecords.filter(r => r.status === 'absent').length;
   const lateCount = attendanceRecords.filter(r => r.status === 'late').length;
+  const excusedCount = attendanceRecords.filter(r => isExcused(r.status)).length;
   const totalStudents = students?.length || 0;
   const unmarkedCount = totalStudents - attendanceRecords.length;
 
@@ -224,7 +242,7 @@ export default function AttendanceManagement() {
     }
     acc[cls.teacherId].classes.push(cls);
     return acc;
-  }, {} as Record<string, { teacherName: string; classes: Class[] }>) || {};
+  }, {} as Record<string, { teacherName: string; classes: ClassSession[] }>) || {};
 
   return (
     <div className="space-y-6">
@@ -244,7 +262,7 @@ export default function AttendanceManagement() {
               </p>
             </div>
             {selectedClass && (
-              <div className="grid grid-cols-4 gap-4 text-center">
+              <div className="grid grid-cols-5 gap-4 text-center">
                 <div>
                   <div className="flex items-center justify-center gap-1">
                     <Check className="h-4 w-4 text-green-600" />
@@ -272,6 +290,15 @@ export default function AttendanceManagement() {
                     {lateCount}
                   </p>
                 </div>
+                <div>
+                  <div className="flex items-center justify-center gap-1">
+                    <Calendar className="h-4 w-4 text-blue-600" />
+                    <span className="text-sm text-gray-600">Excused</span>
+                  </div>
+                  <p className="text-2xl font-bold text-blue-600">
+                    {excusedCount}
+                  </p>
+                </div>
                 <div>
                   <div className="flex items-center justify-center gap-1">
                     <Users className="h-4 w-4 text-gray-600" />
@@ -294,7 +321,11 @@ export default function AttendanceManagement() {
               <input
                 type="date"
                 value={selectedDate}
-                onChange={(e) => setSelectedDate(e.target.value)}
+                onChange={(e) => {
+                  // Sessions belong to one date; pick again on the new day
+                  setSelectedDate(e.target.value);
+                  setSelectedClass("");
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 data-testid="input-date"
               />
@@ -320,12 +351,15 @@ export default function AttendanceManagement() {
                     {classes.map((classItem) => (
                       <Card 
                         key={classItem.id}
-                        className={`cursor-pointer transition-all ${
-                          selectedClass === classItem.id 
-                            ? 'bg-blue-50 border-blue-500 shadow-md' 
-                            : 'hover:bg-gray-50 border-gray-200'
+                        className={`transition-all ${
+                          classItem.status === 'cancelled'
+                            ? 'opacity-60 border-gray-200'
+                            : selectedClass === classItem.id 
+                            ? 'cursor-pointer bg-blue-50 border-blue-500 shadow-md' 
+                            : 'cursor-pointer hover:bg-gray-50 border-gray-200'
                         }`}
                         onClick={() => {
+                          if (classItem.status === 'cancelled') return;
                           setSelectedClass(classItem.id);
                           setAttendanceRecords([]);
                         }}
@@ -342,12 +376,19 @@ export default function AttendanceManagement() {
                                     ✓ Taken
                                   </Badge>
                                 )}
+                                {classItem.status === 'cancelled' && (
+                                  <Badge variant="secondary" className="bg-red-100 text-red-800">
+                                    Cancelled
+                                  </Badge>
+                                )}
                               </div>
                               <p className="text-sm text-gray-600">
                                 {classItem.startTime} - {classItem.endTime}
                               </p>
                               <p className="text-xs text-gray-500">
-                                {classItem.name}
+                                {classItem.location || 'No room set'}
+                                {classItem.changeType === 'reschedule' && ' • Rescheduled'}
+                                {classItem.changeType === 'extra_class' && ' • Extra class'}
                               </p>
                             </div>
                             <ChevronRight 
@@ -399,18 +440,14 @@ export default function AttendanceManagement() {
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {students?.map((student) => {
-                      const status = getStudentStatus(student.id);
+                      const record = getStudentRecord(student.id);
+                      const status = record?.status;
                       const isMarked = !!status;
                       
                       return (
                         <Card 
                           key={student.id} 
-                          className={`${
-                            status === 'present' ? 'bg-green-50 border-green-200' :
-                            status === 'absent' ? 'bg-red-50 border-red-200' :
-                            status === 'late' ? 'bg-yellow-50 border-yellow-200' :
-                            'border-gray-200'
-                          }`}
+                          className={status ? attendanceStatusStyle(status).card : 'border-gray-200'}
                         >
                           <CardContent className="pt-4">
                             <div className="flex items-center justify-between">
@@ -430,19 +467,27 @@ export default function AttendanceManagement() {
                               
                               {isMarked ? (
                                 <div className="flex items-center space-x-1">
-                                  <Badge 
-                                    className={
-                                      status === 'present' ? 'bg-green-100 text-green-800' :
-                                      status === 'absent' ? 'bg-red-100 text-red-800' :
-                                      'bg-yellow-100 text-yellow-800'
-                                    }
-                                  >
-                                    {status}
+                                  <Badge className={attendanceStatusStyle(status).badge}>
+                                    {attendanceStatusStyle(status).label}
                                   </Badge>
+                                  {status === 'late' && (
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      max={600}
+                                      placeholder="min"
+                                      value={record?.minutesLate ?? ''}
+                                      onChange={(e) => setMinutesLate(student.id, e.target.value)}
+                                      disabled={markLocked(student.id)}
+                                      className="w-16 h-7 text-xs"
+                                      title="Minutes late"
+                                    />
+                                  )}
                                   <Button
                                     size="sm"
                                     variant="ghost"
                                     onClick={() => undoMark(student.id)}
+                                    disabled={markLocked(student.id)}
                                     className="w-6 h-6 p-0"
                                   >
                                     <X className="h-3 w-3" />
@@ -474,6 +519,16 @@ export default function AttendanceManagement() {
                                   >
                                     <Clock className="h-3 w-3" />
                                   </Button>
+                                  <Select onValueChange={(value) => markAttendance(student.id, value as AttendanceStatus)}>
+                                    <SelectTrigger className="w-8 h-8 p-0 justify-center" title="Excused absence">
+                                      <Calendar className="h-3 w-3" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {EXCUSED_STATUSES.map((excused) => (
+                                        <SelectItem key={excused} value={excused}>{ATTENDANCE_STATUS_STYLES[excused].label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
                               )}
                             </div>
@@ -535,16 +590,56 @@ export default function AttendanceManagement() {
                 </Card>
               </TabsContent>
 
+              {history?.locked && (
+                <div className="mt-6 p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                  {canAmend
+                    ? "This register is past the school's cut-off. As management you can still amend it."
+                    : "This register is past the school's cut-off: saved marks can no longer be changed (ask management to amend them), but students not marked yet can still be marked."}
+                </div>
+              )}
+
+              {changedCount > 0 && (
+                <div className="pt-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reason for changing {changedCount} saved mark(s)
+                  </label>
+                  <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Parent sent a medical note"
+                    data-testid="input-change-reason"
+                  />
+                </div>
+              )}
+
               {/* Submit Button */}
               <div className="flex justify-end pt-6">
                 <Button
                   onClick={handleSubmit}
-                  disabled={submitAttendanceMutation.isPending || attendanceRecords.length === 0}
+                  disabled={submitAttendanceMutation.isPending || attendanceRecords.length === 0 || (!canAmend && changedCount > 0)}
                   className="min-w-[200px]"
                 >
                   {submitAttendanceMutation.isPending ? 'Updating...' : 'Update Attendance'}
                 </Button>
               </div>
+
+              {history && history.edits.length > 0 && (
+                <div className="pt-6">
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Change History</h4>
+                  <div className="space-y-2">
+                    {history.edits.map((edit) => (
+                      <div key={edit.id} className="text-sm border-b last:border-0 pb-2">
+                        <div className="text-gray-900">
+                          {edit.studentName}: <span className="capitalize">{edit.previousStatus}</span> → <span className="capitalize">{edit.newStatus}</span>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {edit.changedByName || 'Unknown'} · {new Date(edit.changedAt).toLocaleString()} · {edit.reason}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </Tabs>
           )}
         </CardContent>
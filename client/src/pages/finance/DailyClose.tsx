@@ -76,6 +76,16 @@ export default function DailyClose() {
     queryKey: ['/api/payments'],
   });
 
+  // Refunds paid out on the selected day (cash/bank out)
+  const { data: refunds } = useQuery<any[]>({
+    queryKey: ['/api/refunds', { date: selectedDate }],
+    queryFn: async () => {
+      const res = await fetch(`/api/refunds?date=${selectedDate}`, { credentials: 'include' });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+  });
+
   const createDailyCloseMutation = useMutation({
     mutationFn: async (data: any) => {
       return await apiRequest('POST', '/api/daily-close', data);
@@ -170,13 +180,21 @@ export default function DailyClose() {
     new Date(payment.paymentDate).toDateString() === new Date(selectedDate).toDateString()
   ) || [];
 
+  const refundedCash = (refunds || [])
+    .filter((r: any) => r.refundMethod === 'cash')
+    .reduce((sum: number, r: any) => sum + Number(r.amount), 0);
+
+  const refundedBank = (refunds || [])
+    .filter((r: any) => ['bank_transfer', 'card'].includes(r.refundMethod))
+    .reduce((sum: number, r: any) => sum + Number(r.amount), 0);
+
   const expectedCash = todaysPayments
     .filter((p: any) => p.paymentMethod === 'cash')
-    .reduce((sum: number, p: any) => sum + Number(p.amount), 0);
+    .reduce((sum: number, p: any) => sum + Number(p.amount), 0) - refundedCash;
 
   const expectedBank = todaysPayments
     .filter((p: any) => ['bank_transfer', 'card'].includes(p.paymentMethod))
-    .reduce((sum: number, p: any) => sum + Number(p.amount), 0);
+    .reduce((sum: number, p: any) => sum + Number(p.amount), 0) - refundedBank;
 
   const expectedTotal = expectedCash + expectedBank;
   const actualTotal = (parseFloat(totalCash) || 0) + (parseFloat(totalBank) || 0);
@@ -283,6 +301,11 @@ export default function DailyClose() {
                 <p className="text-2xl font-semibold text-gray-900" data-testid="stat-expected-cash">
                   Rs. {expectedCash.toLocaleString()}
                 </p>
+                {refundedCash > 0 && (
+                  <p className="text-xs text-red-600" data-testid="stat-refunded-cash">
+                    after Rs. {refundedCash.toLocaleString()} refunded
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -299,6 +322,11 @@ export default function DailyClose() {
                 <p className="text-2xl font-semibold text-gray-900" data-testid="stat-expected-bank">
                   Rs. {expectedBank.toLocaleString()}
                 </p>
+                {refundedBank > 0 && (
+                  <p className="text-xs text-red-600" data-testid="stat-refunded-bank">
+                    after Rs. {refundedBank.toLocaleString()} refunded
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
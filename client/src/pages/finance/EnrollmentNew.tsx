@@ -25,6 +25,16 @@ interface Subject {
   createdAt: Date | null;
 }
 
+interface SubjectCombo {
+  id: string;
+  name: string;
+  classLevels: string[];
+  discountedFee: string;
+  description: string | null;
+  subjects: { id: string; name: string; baseFee: string }[];
+  individualTotal: number;
+}
+
 interface RollNumberResponse {
   nextRollNumber: string;
   format: string;
@@ -57,7 +67,9 @@ interface EnrollmentFormData {
   
   // Enrollment Details
   selectedSubjects: string[];
+  selectedCombos: string[];
   addOns: string[];
+  // Keyed by subject id, or by combo id for combos
   subjectDiscounts: Record<string, {
     discountType: 'none' | 'percentage' | 'fixed';
     discountValue: number;
@@ -76,6 +88,7 @@ export default function EnrollmentNew() {
   const [formData, setFormData] = useState<Partial<EnrollmentFormData>>({
     classLevels: [],
     selectedSubjects: [],
+    selectedCombos: [],
     addOns: [],
     subjectDiscounts: {},
   });
@@ -89,6 +102,11 @@ export default function EnrollmentNew() {
     enabled: currentStep >= 2,
   });
 
+  const { data: combos } = useQuery<SubjectCombo[]>({
+    queryKey: ['/api/subject-combos'],
+    enabled: currentStep >= 2,
+  });
+
   // Reserve a unique roll number when form loads
   const { data: rollNumberReservation, isLoading: isLoadingRollNumber, error: rollNumberError } = useQuery({
     queryKey: ['/api/roll-numbers/reserve'],
@@ -123,7 +141,7 @@ export default function EnrollmentNew() {
       queryClient.invalidateQueries({ queryKey: ['/api/students'] });
       queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
       // Reset form
-      setFormData({ classLevels: [], selectedSubjects: [], addOns: [], subjectDiscounts: {} });
+      setFormData({ classLevels: [], selectedSubjects: [], selectedCombos: [], addOns: [], subjectDiscounts: {} });
       setCurrentStep(1);
     },
     onError: (error: any) => {
@@ -160,10 +178,10 @@ export default function EnrollmentNew() {
         return true;
         
       case 2:
-        if (!formData.selectedSubjects || formData.selectedSubjects.length === 0) {
+        if (!formData.selectedSubjects?.length && !formData.selectedCombos?.length) {
           toast({
             title: "No Subjects Selected",
-            description: "Please select at least one subject",
+            description: "Please select at least one subject or combo",
             variant: "destructive",
           });
           return false;
@@ -215,19 +233,19 @@ export default function EnrollmentNew() {
         }
       });
 
+      const discountFor = (id: string) => {
+        const discount = (formData.subjectDiscounts || {})[id] || { discountType: 'none', discountValue: 0, discountReason: '' };
+        return {
+          discountType: discount.discountType,
+          discountValue: discount.discountValue,
+          discountReason: discount.discountReason
+        };
+      };
+
       const enrollmentData = {
         studentData,
-        selectedSubjects: formData.selectedSubjects?.map(subjectId => {
-          const subjectDiscounts = formData.subjectDiscounts || {};
-          const subjectDiscount = subjectDiscounts[subjectId] || { discountType: 'none', discountValue: 0, discountReason: '' };
-          
-          return {
-            subjectId,
-            discountType: subjectDiscount.discountType,
-            discountValue: subjectDiscount.discountValue,
-            discountReason: subjectDiscount.discountReason
-          };
-        }) || [],
+        selectedSubjects: formData.selectedSubjects?.map(subjectId => ({ subjectId, ...discountFor(subjectId) })) || [],
+        selectedCombos: formData.selectedCombos?.map(comboId => ({ comboId, ...discountFor(comboId) })) || [],
         additionalFees
       };
 
@@ -248,6 +266,37 @@ export default function EnrollmentNew() {
     )
   ) || [];
 
+  // A combo is only offered when it covers every class level the student takes
+  const filteredCombos = combos?.filter(c =>
+    formData.classLevels && formData.classLevels.length > 0 &&
+    formData.classLevels.every(level => c.classLevels?.includes(level))
+  ) || [];
+
+  const selectedCombos = combos?.filter(c => formData.selectedCombos?.includes(c.id)) || [];
+  const comboSubjectIds = new Set(selectedCombos.flatMap(c => c.subjects.map(s => s.id)));
+
+  const toggleCombo = (combo: SubjectCombo, checked: boolean) => {
+    const current = formData.selectedCombos || [];
+    if (checked) {
+      // The combo replaces its member subjects (and any other combo sharing them)
+      const memberIds = combo.subjects.map(s => s.id);
+      const overlapping = selectedCombos.filter(c => c.subjects.some(s => memberIds.includes(s.id))).map(c => c.id);
+      updateFormData('selectedCombos', [...current.filter(id => !overlapping.includes(id)), combo.id]);
+      updateFormData('selectedSubjects', (formData.selectedSubjects || []).filter(id => !memberIds.includes(id)));
+    } else {
+      updateFormData('selectedCombos', current.filter(id => id !== combo.id));
+    }
+  };
+
+  // Everything a discount can be applied to: selected combos and individual subjects
+  const discountTargets = [
+    ...selectedCombos.map(c => ({ id: c.id, name: c.name, fee: c.discountedFee, label: 'Combo Fee' })),
+    ...(formData.selectedSubjects || []).flatMap(subjectId => {
+      const subject = subjects?.find(s => s.id === subjectId);
+      return subject ? [{ id: subject.id, name: subject.name, fee: subject.baseFee, label: 'Base Fee' }] : [];
+    }),
+  ];
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4">
@@ -539,12 +588,43 @@ export default function EnrollmentNew() {
                   <FileText className="w-5 h-5 mr-2" />
                   Select Subjects
                 </h2>
+
+                {filteredCombos.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">Combos</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {filteredCombos.map((combo) => (
+                        <label key={combo.id} className="flex items-start space-x-3 p-4 border border-blue-200 rounded-lg hover:bg-blue-50 cursor-pointer">
+                          <Checkbox
+                            checked={formData.selectedCombos?.includes(combo.id) || false}
+                            onCheckedChange={(checked) => toggleCombo(combo, !!checked)}
+                            className="mt-1"
+                            data-testid={`checkbox-combo-${combo.id}`}
+                          />
+                          <div className="flex-1">
+                            <div className="font-medium text-gray-900">{combo.name}</div>
+                            <div className="text-sm text-gray-600">{combo.subjects.map(s => s.name).join(', ')}</div>
+                            <div className="text-sm font-medium text-green-600">
+                              Rs. {Number(combo.discountedFee).toLocaleString()}/month
+                              <span className="text-gray-500 line-through ml-2">Rs. {combo.individualTotal.toLocaleString()}</span>
+                            </div>
+                            {combo.description && (
+                              <div className="text-xs text-gray-500 mt-1">{combo.description}</div>
+                            )}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                    <h3 className="text-lg font-medium text-gray-900 mt-6 mb-3">Individual Subjects</h3>
+                  </div>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {filteredSubjects.map((subject) => (
-                    <label key={subject.id} className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-gray-50 cursor-pointer">
+                    <label key={subject.id} className={`flex items-start space-x-3 p-4 border rounded-lg ${comboSubjectIds.has(subject.id) ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'}`}>
                       <Checkbox
-                        checked={formData.selectedSubjects?.includes(subject.id) || false}
+                        checked={comboSubjectIds.has(subject.id) || formData.selectedSubjects?.includes(subject.id) || false}
+                        disabled={comboSubjectIds.has(subject.id)}
                         onCheckedChange={(checked) => {
                           const current = formData.selectedSubjects || [];
                           if (checked) {
@@ -558,7 +638,9 @@ export default function EnrollmentNew() {
                       <div className="flex-1">
                         <div className="font-medium text-gray-900">{subject.name}</div>
                         <div className="text-sm text-gray-600">{subject.code}</div>
-                        <div className="text-sm font-medium text-green-600">Rs. {subject.baseFee}/month</div>
+                        <div className="text-sm font-medium text-green-600">
+                          {comboSubjectIds.has(subject.id) ? 'Included in combo' : `Rs. ${subject.baseFee}/month`}
+                        </div>
                         {subject.description && (
                           <div className="text-xs text-gray-500 mt-1">{subject.description}</div>
                         )}
@@ -672,13 +754,11 @@ export default function EnrollmentNew() {
             {currentStep === 4 && (
               <div className="space-y-6">
                 <h2 className="text-xl font-semibold text-gray-900">Subject-Specific Discounts</h2>
-                <p className="text-gray-600">Apply discounts to individual subjects</p>
+                <p className="text-gray-600">Apply discounts to individual subjects or combos</p>
                 
                 <div className="space-y-4">
-                  {formData.selectedSubjects?.map((subjectId) => {
-                    const subject = subjects?.find(s => s.id === subjectId);
-                    if (!subject) return null;
-                    
+                  {discountTargets.map((subject) => {
+                    const subjectId = subject.id;
                     const subjectDiscounts = formData.subjectDiscounts || {};
                     const subjectDiscount = subjectDiscounts[subjectId] || { discountType: 'none', discountValue: 0, discountReason: '' };
                     
@@ -687,7 +767,7 @@ export default function EnrollmentNew() {
                         <div className="flex items-center justify-between mb-3">
                           <div>
                             <h4 className="font-medium text-gray-800">{subject.name}</h4>
-                            <p className="text-sm text-gray-600">Base Fee: Rs. {subject.baseFee}/month</p>
+                            <p className="text-sm text-gray-600">{subject.label}: Rs. {subject.fee}/month</p>
                           </div>
                           <div className="text-right">
                             {subjectDiscount.discountType !== 'none' && (
@@ -700,8 +780,8 @@ export default function EnrollmentNew() {
                             <div className="text-lg font-semibold">
                               Final: Rs. {(
                                 subjectDiscount.discountType === 'percentage' 
-                                  ? Number(subject.baseFee) - (Number(subject.baseFee) * Number(subjectDiscount.discountValue) / 100)
-                                  : Number(subject.baseFee) - Number(subjectDiscount.discountValue)
+                                  ? Number(subject.fee) - (Number(subject.fee) * Number(subjectDiscount.discountValue) / 100)
+                                  : Number(subject.fee) - Number(subjectDiscount.discountValue)
                               ).toLocaleString()}/month
                             </div>
                           </div>
@@ -775,9 +855,9 @@ export default function EnrollmentNew() {
                         </div>
                       </div>
                     );
-                  }) || []}
+                  })}
                   
-                  {(!formData.selectedSubjects || formData.selectedSubjects.length === 0) && (
+                  {discountTargets.length === 0 && (
                     <div className="text-center py-8 text-gray-500">
                       No subjects selected. Go back to select subjects first.
                     </div>
@@ -822,11 +902,20 @@ export default function EnrollmentNew() {
                     <CardHeader className="pb-3">
                       <CardTitle className="text-lg flex items-center">
                         <FileText className="w-4 h-4 mr-2" />
-                        Selected Subjects ({formData.selectedSubjects?.length || 0})
+                        Selected Subjects ({(formData.selectedSubjects?.length || 0) + comboSubjectIds.size})
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-2">
+                        {selectedCombos.map(combo => (
+                          <div key={combo.id} className="flex justify-between items-center p-2 bg-blue-50 rounded">
+                            <div>
+                              <div className="font-medium">{combo.name} <Badge variant="outline" className="ml-1">Combo</Badge></div>
+                              <div className="text-sm text-gray-600">{combo.subjects.map(s => s.name).join(', ')}</div>
+                            </div>
+                            <div className="text-sm font-medium text-green-600">Rs. {combo.discountedFee}/month</div>
+                          </div>
+                        ))}
                         {formData.selectedSubjects?.map(subjectId => {
                           const subject = subjects?.find(s => s.id === subjectId);
                           return subject ? (
@@ -14,6 +14,7 @@ import { useBranches } from "@/hooks/useBranches";
 import { apiRequest } from "@/lib/queryClient";
 import type { Invoice } from "@shared/schema";
 import InvoiceWizard from "@/components/InvoiceWizard";
+import MonthlyInvoiceRun from "@/components/MonthlyInvoiceRun";
 import { isOverdue, getCurrentPakistanTime, formatPakistanDate } from "@/utils/pakistanTime";
 
 export default function Invoices() {
@@ -26,6 +27,7 @@ export default function Invoices() {
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
   const [showCreateInvoiceDialog, setShowCreateInvoiceDialog] = useState(false);
   const [showInvoiceWizard, setShowInvoiceWizard] = useState(false);
+  const [showMonthlyRun, setShowMonthlyRun] = useState(false);
   
   // Advanced filtering states
   const [statusFilter, setStatusFilter] = useState("all");
@@ -1142,13 +1144,23 @@ export default function Invoices() {
         <CardHeader>
           <div className="flex items-center justify-between mb-4">
             <CardTitle>Invoices</CardTitle>
-            <Button 
-              onClick={() => setShowInvoiceWizard(true)}
-              data-testid="button-create-invoice"
-            >
-              <i className="fas fa-plus mr-2"></i>
-              Create Invoice
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowMonthlyRun(true)}
+                data-testid="button-monthly-run"
+              >
+                <i className="fas fa-calendar-plus mr-2"></i>
+                Monthly Invoices
+              </Button>
+              <Button 
+                onClick={() => setShowInvoiceWizard(true)}
+                data-testid="button-create-invoice"
+              >
+                <i className="fas fa-plus mr-2"></i>
+                Create Invoice
+              </Button>
+            </div>
           </div>
           
           {/* Enhanced Search and Filters */}
@@ -1623,6 +1635,8 @@ export default function Invoices() {
         }}
         editingInvoice={editingInvoice}
       />
+
+      <MonthlyInvoiceRun open={showMonthlyRun} onOpenChange={setShowMonthlyRun} />
     </div>
   );
 }
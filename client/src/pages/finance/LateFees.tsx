@@ -0,0 +1,529 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type LateFeeType = 'flat' | 'percentage' | 'per_day';
+
+interface LateFeePolicy {
+  id: string;
+  name: string;
+  type: LateFeeType;
+  amount: string;
+  cap: string | null;
+  graceDays: number;
+  exemptDiscounted: boolean;
+  isActive: boolean;
+}
+
+interface LateFeeLine {
+  invoiceId: string;
+  invoiceNumber: string;
+  studentName: string;
+  dueDate: string;
+  daysOverdue: number;
+  base: number;
+  currentLateFee: number;
+  targetLateFee: number;
+  charge: number;
+  skipped: 'exempt' | 'discounted' | null;
+}
+
+interface LateFeePreview {
+  asOf: string;
+  lines: LateFeeLine[];
+  total: number;
+}
+
+interface LateFeeExemption {
+  id: string;
+  studentId: string;
+  studentName: string;
+  rollNumber: string;
+  reason: string;
+}
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
+const emptyPolicy = { name: "", type: "flat" as LateFeeType, amount: "", cap: "", graceDays: "0", exemptDiscounted: false };
+
+const describePolicy = (p: Pick<LateFeePolicy, 'type' | 'amount' | 'cap' | 'graceDays'>) => {
+  const charge = p.type === 'flat' ? `${rs(p.amount)} once`
+    : p.type === 'percentage' ? `${Number(p.amount)}% of the invoice`
+    : `${rs(p.amount)} per day`;
+  const cap = p.cap ? `, capped at ${rs(p.cap)}` : '';
+  return `${charge}${cap} after ${p.graceDays} grace day${p.graceDays === 1 ? '' : 's'}`;
+};
+
+export default function LateFees() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [policyDialog, setPolicyDialog] = useState<{ id: string | null } | null>(null);
+  const [policyForm, setPolicyForm] = useState(emptyPolicy);
+  const [preview, setPreview] = useState<(LateFeePreview & { policyName: string }) | null>(null);
+  const [exemptStudentId, setExemptStudentId] = useState("");
+  const [exemptReason, setExemptReason] = useState("");
+  const [waiveInvoice, setWaiveInvoice] = useState<any>(null);
+  const [waiveReason, setWaiveReason] = useState("");
+
+  const { data: policies = [] } = useQuery<LateFeePolicy[]>({ queryKey: ['/api/late-fees/policies'] });
+  const { data: exemptions = [] } = useQuery<LateFeeExemption[]>({ queryKey: ['/api/late-fees/exemptions'] });
+  const { data: students = [] } = useQuery<any[]>({ queryKey: ['/api/students'] });
+  const { data: invoices = [] } = useQuery<any[]>({ queryKey: ['/api/invoices'] });
+
+  const chargedInvoices = invoices.filter((inv: any) => Number(inv.lateFee || 0) > 0);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/late-fees/policies'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/late-fees/exemptions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+  };
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...policyForm, graceDays: Number(policyForm.graceDays || 0), cap: policyForm.cap || null };
+      return policyDialog?.id
+        ? apiRequest('PUT', `/api/late-fees/policies/${policyDialog.id}`, body)
+        : apiRequest('POST', '/api/late-fees/policies', body);
+    },
+    onSuccess: () => {
+      toast({ title: "Policy saved", description: "Preview it before enabling." });
+      setPolicyDialog(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest('POST', `/api/late-fees/policies/${id}/activate`, { isActive }),
+    onSuccess: (_res, { isActive }) => {
+      toast({
+        title: isActive ? "Policy enabled" : "Policy disabled",
+        description: isActive ? "Late fees will be applied by the daily job." : "No further late fees will be charged.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (body: { policyId?: string; policy?: any }) => {
+      const res = await apiRequest('POST', '/api/late-fees/preview', body);
+      return res.json() as Promise<LateFeePreview>;
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => (await apiRequest('POST', '/api/late-fees/run')).json(),
+    onSuccess: (result: any) => {
+      toast({
+        title: "Late fees applied",
+        description: result.policyId
+          ? `${result.charged} invoice(s) charged, ${rs(result.total)} in total.`
+          : "No policy is enabled.",
+      });
+      setPreview(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const addExemptionMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/late-fees/exemptions', { studentId: exemptStudentId, reason: exemptReason }),
+    onSuccess: () => {
+      setExemptStudentId("");
+      setExemptReason("");
+      refresh();
+    },
+    onError,
+  });
+
+  const removeExemptionMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/late-fees/exemptions/${id}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const waiveMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/invoices/${waiveInvoice.id}/waive-late-fee`, { reason: waiveReason }),
+    onSuccess: () => {
+      toast({ title: "Late fee waived", description: `${waiveInvoice.invoiceNumber} will not be charged again.` });
+      setWaiveInvoice(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const openPolicyDialog = (policy?: LateFeePolicy) => {
+    setPolicyForm(policy ? {
+      name: policy.name,
+      type: policy.type,
+      amount: String(Number(policy.amount)),
+      cap: policy.cap ? String(Number(policy.cap)) : "",
+      graceDays: String(policy.graceDays ?? 0),
+      exemptDiscounted: !!policy.exemptDiscounted,
+    } : emptyPolicy);
+    setPolicyDialog({ id: policy?.id ?? null });
+  };
+
+  const showPreview = (body: { policyId?: string; policy?: any }, policyName: string) => {
+    previewMutation.mutate(body, {
+      onSuccess: (data) => {
+        setPreview({ ...data, policyName });
+        const affected = data.lines.filter((l) => l.charge > 0).length;
+        toast({ title: `Preview: ${policyName}`, description: `Would charge ${rs(data.total)} on ${affected} invoice(s).` });
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Late-Fee Policies</CardTitle>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending || !policies.some((p) => p.isActive)}
+                data-testid="button-run-late-fees"
+              >
+                {runMutation.isPending ? "Applying..." : "Apply Now"}
+              </Button>
+              <Button onClick={() => openPolicyDialog()} data-testid="button-new-policy">
+                <i className="fas fa-plus mr-2"></i>
+                New Policy
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {policies.length === 0 ? (
+            <p className="text-sm text-gray-500">No late-fee policies yet. Overdue invoices are not being charged.</p>
+          ) : (
+            <div className="divide-y">
+              {policies.map((policy) => (
+                <div key={policy.id} className="flex items-center justify-between py-3" data-testid={`row-policy-${policy.id}`}>
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{policy.name}</span>
+                      {policy.isActive && <Badge className="bg-green-100 text-green-800">ENABLED</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {describePolicy(policy)}
+                      {policy.exemptDiscounted && " · discounted enrollments exempt"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => showPreview({ policyId: policy.id }, policy.name)}>
+                      Preview
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openPolicyDialog(policy)}>
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={policy.isActive ? "destructive" : "default"}
+                      onClick={() => activateMutation.mutate({ id: policy.id, isActive: !policy.isActive })}
+                      disabled={activateMutation.isPending}
+                      data-testid={`button-toggle-policy-${policy.id}`}
+                    >
+                      {policy.isActive ? "Disable" : "Enable"}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Preview: {preview.policyName} as of {preview.asOf}</CardTitle>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold" data-testid="text-preview-total">Would charge {rs(preview.total)}</span>
+                <Button size="sm" variant="ghost" onClick={() => setPreview(null)}>Close</Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {preview.lines.length === 0 ? (
+              <p className="text-sm text-gray-500">No overdue invoices would be affected.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Invoice</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Student</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Due</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Days overdue</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Invoice amount</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Late fee now</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Would charge</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.lines.map((line) => (
+                      <tr key={line.invoiceId}>
+                        <td className="px-4 py-2 font-mono">{line.invoiceNumber}</td>
+                        <td className="px-4 py-2">{line.studentName}</td>
+                        <td className="px-4 py-2">{line.dueDate}</td>
+                        <td className="px-4 py-2 text-right">{line.daysOverdue}</td>
+                        <td className="px-4 py-2 text-right">{rs(line.base)}</td>
+                        <td className="px-4 py-2 text-right">{rs(line.currentLateFee)}</td>
+                        <td className="px-4 py-2 text-right">
+                          {line.skipped ? (
+                            <Badge variant="outline">{line.skipped === 'exempt' ? 'Exempt' : 'Discounted'}</Badge>
+                          ) : (
+                            <span className={line.charge > 0 ? "font-semibold text-red-600" : "text-gray-500"}>
+                              {rs(line.charge)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Exempt Students</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <Select value={exemptStudentId} onValueChange={setExemptStudentId}>
+                <SelectTrigger data-testid="select-exempt-student">
+                  <SelectValue placeholder="Student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((s: any) => (
+                    <SelectItem key={s.id} value={s.id}>{s.firstName} {s.lastName} ({s.rollNumber})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Reason"
+                value={exemptReason}
+                onChange={(e) => setExemptReason(e.target.value)}
+                data-testid="input-exempt-reason"
+              />
+              <Button
+                onClick={() => addExemptionMutation.mutate()}
+                disabled={!exemptStudentId || !exemptReason.trim() || addExemptionMutation.isPending}
+              >
+                Exempt
+              </Button>
+            </div>
+            {exemptions.length === 0 ? (
+              <p className="text-sm text-gray-500">No students are exempt.</p>
+            ) : (
+              <div className="divide-y">
+                {exemptions.map((e) => (
+                  <div key={e.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <span className="font-medium">{e.studentName}</span>
+                      <span className="ml-2 text-xs text-gray-500 font-mono">{e.rollNumber}</span>
+                      <p className="text-xs text-gray-600">{e.reason}</p>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => removeExemptionMutation.mutate(e.id)}>
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Charged Late Fees</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chargedInvoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No invoices currently carry a late fee.</p>
+            ) : (
+              <div className="divide-y">
+                {chargedInvoices.map((inv: any) => (
+                  <div key={inv.id} className="flex items-center justify-between py-2" data-testid={`row-late-fee-${inv.id}`}>
+                    <div>
+                      <span className="font-mono">{inv.invoiceNumber}</span>
+                      <p className="text-xs text-gray-600">Due {inv.dueDate} · balance {rs(inv.balanceDue)}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold text-red-600">{rs(inv.lateFee)}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setWaiveInvoice(inv); setWaiveReason(""); }}
+                        data-testid={`button-waive-${inv.id}`}
+                      >
+                        Waive
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!policyDialog} onOpenChange={(open) => !open && setPolicyDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{policyDialog?.id ? "Edit Late-Fee Policy" : "New Late-Fee Policy"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                value={policyForm.name}
+                onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+                placeholder="e.g. Standard late fee"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select value={policyForm.type} onValueChange={(v) => setPolicyForm({ ...policyForm, type: v as LateFeeType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flat">Flat amount</SelectItem>
+                    <SelectItem value="percentage">Percentage of invoice</SelectItem>
+                    <SelectItem value="per_day">Per day overdue</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="policy-amount">{policyForm.type === 'percentage' ? 'Percentage' : 'Amount (Rs.)'}</Label>
+                <Input
+                  id="policy-amount"
+                  type="number"
+                  min="0"
+                  value={policyForm.amount}
+                  onChange={(e) => setPolicyForm({ ...policyForm, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-cap">Cap per invoice (Rs., optional)</Label>
+                <Input
+                  id="policy-cap"
+                  type="number"
+                  min="0"
+                  value={policyForm.cap}
+                  onChange={(e) => setPolicyForm({ ...policyForm, cap: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="policy-grace">Grace days</Label>
+                <Input
+                  id="policy-grace"
+                  type="number"
+                  min="0"
+                  value={policyForm.graceDays}
+                  onChange={(e) => setPolicyForm({ ...policyForm, graceDays: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="policy-exempt-discounted"
+                checked={policyForm.exemptDiscounted}
+                onCheckedChange={(checked) => setPolicyForm({ ...policyForm, exemptDiscounted: checked })}
+              />
+              <Label htmlFor="policy-exempt-discounted">Exempt students with a discounted enrollment</Label>
+            </div>
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => showPreview({
+                  policy: { ...policyForm, graceDays: Number(policyForm.graceDays || 0), cap: policyForm.cap || null },
+                }, policyForm.name || "Draft policy")}
+                disabled={!policyForm.amount || previewMutation.isPending}
+              >
+                Preview
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setPolicyDialog(null)}>Cancel</Button>
+                <Button
+                  onClick={() => savePolicyMutation.mutate()}
+                  disabled={!policyForm.name.trim() || !policyForm.amount || savePolicyMutation.isPending}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!waiveInvoice} onOpenChange={(open) => !open && setWaiveInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive late fee on {waiveInvoice?.invoiceNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Removes {rs(waiveInvoice?.lateFee)} from the invoice. It will not be charged late fees again.
+            </p>
+            <div>
+              <Label htmlFor="waive-reason">Reason *</Label>
+              <Textarea
+                id="waive-reason"
+                value={waiveReason}
+                onChange={(e) => setWaiveReason(e.target.value)}
+                data-testid="input-waive-reason"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setWaiveInvoice(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                onClick={() => waiveMutation.mutate()}
+                disabled={!waiveReason.trim() || waiveMutation.isPending}
+                data-testid="button-confirm-waive"
+              >
+                Waive
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
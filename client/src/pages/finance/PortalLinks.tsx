@@ -1,10 +1,36 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { useTenant } from "@/hooks/useTenant";
 import {
   Search, 
@@ -14,7 +40,10 @@ import {
   Mail, 
   Users,
   Link as LinkIcon,
-  CheckCircle
+  CheckCircle,
+  RefreshCw,
+  Ban,
+  History
 } from "lucide-react";
 
 interface Student {
@@ -27,18 +56,98 @@ interface Student {
   isActive: boolean;
 }
 
+interface PortalLink {
+  id: string;
+  studentId: string | null;
+  parentId: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked';
+  url: string;
+}
+
+interface PortalAccessEntry {
+  id: string;
+  accessedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  userId: string | null;
+}
+
+const LINK_LIFETIMES = [30, 90, 180, 365];
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
 export default function PortalLinks() {
   const { tenant } = useTenant();
   const schoolName = tenant?.name ?? "Your School";
   const [searchTerm, setSearchTerm] = useState("");
   const [copiedLinks, setCopiedLinks] = useState<Set<string>>(new Set());
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [accessLogFor, setAccessLogFor] = useState<{ link: PortalLink; name: string } | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Fetch all students
   const { data: students, isLoading } = useQuery<Student[]>({
     queryKey: ['/api/students'],
   });
 
+  // Issued links, newest first (the first per student/parent is the current one)
+  const { data: portalLinks = [] } = useQuery<PortalLink[]>({
+    queryKey: ['/api/portal-links'],
+  });
+
+  const { data: accessLog = [], isLoading: accessLogLoading } = useQuery<PortalAccessEntry[]>({
+    queryKey: ['/api/portal-links', accessLogFor?.link.id, 'access-log'],
+    enabled: !!accessLogFor,
+  });
+
+  // Generate mutation - issuing again replaces (revokes) the previous link
+  const generateMutation = useMutation({
+    mutationFn: async (subject: { studentId?: string; parentId?: string }) => {
+      const response = await apiRequest('POST', '/api/portal-links', { ...subject, expiresInDays: Number(expiresInDays) });
+      return response.json() as Promise<PortalLink>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Portal link generated. Any previous link no longer works.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/portal-links'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate portal link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => apiRequest('POST', `/api/portal-links/${linkId}/revoke`),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Portal link revoked",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/portal-links'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke portal link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const currentLink = (match: (link: PortalLink) => boolean) => portalLinks.find(match);
+
   // Filter students based on search term
   const filteredStudents = students?.filter(student =>
     student.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -46,18 +155,11 @@ export default function PortalLinks() {
     student.rollNumber.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
 
-  // Generate portal link
-  const generatePortalLink = (studentId: string) => {
-    const baseUrl = window.location.origin;
-    return `${baseUrl}/student/${studentId}`;
-  };
-
   // Copy link to clipboard
-  const copyToClipboard = async (studentId: string, studentName: string) => {
-    const link = generatePortalLink(studentId);
+  const copyToClipboard = async (link: PortalLink, studentName: string) => {
     try {
-      await navigator.clipboard.writeText(link);
-      setCopiedLinks(prev => new Set(Array.from(prev).concat([studentId])));
+      await navigator.clipboard.writeText(link.url);
+      setCopiedLinks(prev => new Set(Array.from(prev).concat([link.id])));
       toast({
         title: "Link Copied!",
         description: `Portal link for ${studentName} copied to clipboard`,
@@ -67,7 +169,7 @@ export default function PortalLinks() {
       setTimeout(() => {
         setCopiedLinks(prev => {
           const updated = new Set(Array.from(prev));
-          updated.delete(studentId);
+          updated.delete(link.id);
           return updated;
         });
       }, 3000);
@@ -89,10 +191,9 @@ export default function PortalLinks() {
   };
 
   // Send email (placeholder for now)
-  const sendEmail = (studentId: string, studentName: string) => {
-    const link = generatePortalLink(studentId);
+  const sendEmail = (link: PortalLink, studentName: string) => {
     const subject = `Student Portal Access - ${studentName}`;
-    const body = `Dear Parent,\n\nYou can access your child's academic portal using the following link:\n\n${link}\n\nThis portal provides real-time access to:\n- Attendance records\n- Grades and assessments\n- Fee status and payments\n\nBest regards,\n${schoolName}`;
+    const body = `Dear Parent,\n\nYou can access your child's academic portal using the following link:\n\n${link.url}\n\nThe link is valid until ${formatDate(link.expiresAt)}. This portal provides real-time access to:\n- Attendance records\n- Grades and assessments\n- Fee status and payments\n\nBest regards,\n${schoolName}`;
     
     const mailtoLink = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
     window.open(mailtoLink);
@@ -102,7 +203,7 @@ export default function PortalLinks() {
     <div className="p-6 max-w-7xl mx-auto">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900 mb-2">Student Portal Links</h1>
-        <p className="text-gray-600">Generate and share direct portal access links with parents</p>
+        <p className="text-gray-600">Generate, share and revoke expiring portal access links for parents</p>
       </div>
 
       {/* Search */}
@@ -118,8 +219,21 @@ export default function PortalLinks() {
               data-testid="input-student-search"
             />
           </div>
-          <div className="mt-4 text-sm text-gray-500">
-            Found {filteredStudents.length} students
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <span className="text-sm text-gray-500">Found {filteredStudents.length} students</span>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>New links expire after</span>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger className="w-32" data-testid="select-link-lifetime">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINK_LIFETIMES.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -134,15 +248,16 @@ export default function PortalLinks() {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {filteredStudents.map((student) => {
-            const portalLink = generatePortalLink(student.id);
-            const isCopied = copiedLinks.has(student.id);
+            const studentName = `${student.firstName} ${student.lastName}`;
+            const link = currentLink((l) => l.studentId === student.id);
+            const familyLink = student.parentId ? currentLink((l) => l.parentId === student.parentId) : undefined;
             
             return (
               <Card key={student.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg">
-                      {student.firstName} {student.lastName}
+                      {studentName}
                     </CardTitle>
                     <Badge 
                       variant={student.isActive ? "default" : "secondary"}
@@ -157,59 +272,32 @@ export default function PortalLinks() {
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  {/* Portal Link Display */}
-                  <div className="bg-gray-50 p-3 rounded-lg">
-                    <div className="flex items-center gap-2 mb-2">
-                      <LinkIcon className="h-4 w-4 text-blue-600" />
-                      <span className="text-sm font-medium text-gray-700">Portal Link</span>
-                    </div>
-                    <div className="text-xs text-gray-600 break-all font-mono bg-white p-2 rounded border">
-                      {portalLink}
-                    </div>
-                  </div>
-
-                  {/* Action Buttons */}
-                  <div className="flex flex-col gap-2">
-                    <Button
-                      onClick={() => copyToClipboard(student.id, `${student.firstName} ${student.lastName}`)}
-                      variant={isCopied ? "default" : "outline"}
-                      className={`w-full ${isCopied ? "bg-green-600 hover:bg-green-700" : ""}`}
-                      data-testid={`button-copy-${student.id}`}
-                    >
-                      {isCopied ? (
-                        <>
-                          <CheckCircle className="h-4 w-4 mr-2" />
-                          Copied!
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-4 w-4 mr-2" />
-                          Copy Link
-                        </>
-                      )}
-                    </Button>
-                    
-                    <div className="grid grid-cols-2 gap-2">
-                      <Button
-                        onClick={() => window.open(portalLink, '_blank')}
-                        variant="outline"
-                        size="sm"
-                        data-testid={`button-preview-${student.id}`}
-                      >
-                        <ExternalLink className="h-4 w-4 mr-1" />
-                        Preview
-                      </Button>
-                      <Button
-                        onClick={() => sendEmail(student.id, `${student.firstName} ${student.lastName}`)}
-                        variant="outline"
-                        size="sm"
-                        data-testid={`button-email-${student.id}`}
-                      >
-                        <Mail className="h-4 w-4 mr-1" />
-                        Email
-                      </Button>
-                    </div>
-                  </div>
+                  <PortalLinkPanel
+                    title="Portal Link"
+                    link={link}
+                    isCopied={!!link && copiedLinks.has(link.id)}
+                    testId={student.id}
+                    onGenerate={() => generateMutation.mutate({ studentId: student.id })}
+                    onCopy={(l) => copyToClipboard(l, studentName)}
+                    onEmail={(l) => sendEmail(l, studentName)}
+                    onRevoke={(l) => revokeMutation.mutate(l.id)}
+                    onShowAccess={(l) => setAccessLogFor({ link: l, name: studentName })}
+                    busy={generateMutation.isPending || revokeMutation.isPending}
+                  />
+                  {student.parentId && (
+                    <PortalLinkPanel
+                      title="Family Link (all children)"
+                      link={familyLink}
+                      isCopied={!!familyLink && copiedLinks.has(familyLink.id)}
+                      testId={`family-${student.id}`}
+                      onGenerate={() => generateMutation.mutate({ parentId: student.parentId! })}
+                      onCopy={(l) => copyToClipboard(l, `${student.lastName} family`)}
+                      onEmail={(l) => sendEmail(l, `${student.lastName} family`)}
+                      onRevoke={(l) => revokeMutation.mutate(l.id)}
+                      onShowAccess={(l) => setAccessLogFor({ link: l, name: `${student.lastName} family` })}
+                      busy={generateMutation.isPending || revokeMutation.isPending}
+                    />
+                  )}
                 </CardContent>
               </Card>
             );
@@ -238,10 +326,206 @@ export default function PortalLinks() {
             <p>• <strong>Copy Link:</strong> Share the URL directly with parents via WhatsApp, SMS, or other messaging apps</p>
             <p>• <strong>Preview:</strong> Test the portal link to ensure it works correctly</p>
             <p>• <strong>Email:</strong> Send a professionally formatted email with the portal link</p>
-            <p>• <strong>Security:</strong> Each link is unique to a student and provides view-only access</p>
+            <p>• <strong>Regenerate:</strong> Issue a fresh link; the previous one stops working immediately</p>
+            <p>• <strong>Revoke:</strong> Switch a link off, e.g. if it was shared with the wrong person</p>
+            <p>• <strong>Security:</strong> Links are signed, expire after the chosen period and give view-only access; every opening is logged</p>
           </div>
         </CardContent>
       </Card>
+
+      {/* Access Log */}
+      <Dialog open={!!accessLogFor} onOpenChange={(open) => !open && setAccessLogFor(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Link Access - {accessLogFor?.name}
+            </DialogTitle>
+            <DialogDescription>
+              Each time this link was opened, newest first.
+            </DialogDescription>
+          </DialogHeader>
+          {accessLogLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : accessLog.length === 0 ? (
+            <p className="text-sm text-gray-500" data-testid="text-access-log-empty">This link hasn't been opened yet.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y" data-testid="list-access-log">
+              {accessLog.map((entry) => (
+                <div key={entry.id} className="py-2 text-sm">
+                  <div className="font-medium text-gray-900">{formatDateTime(entry.accessedAt)}</div>
+                  <div className="text-xs text-gray-500 break-all">
+                    {entry.ipAddress ?? 'Unknown IP'}{entry.userId ? ' · opened by staff' : ''}
+                    {entry.userAgent ? ` · ${entry.userAgent}` : ''}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface PortalLinkPanelProps {
+  title: string;
+  link: PortalLink | undefined;
+  isCopied: boolean;
+  testId: string;
+  busy: boolean;
+  onGenerate: () => void;
+  onCopy: (link: PortalLink) => void;
+  onEmail: (link: PortalLink) => void;
+  onRevoke: (link: PortalLink) => void;
+  onShowAccess: (link: PortalLink) => void;
+}
+
+function PortalLinkPanel({ title, link, isCopied, testId, busy, onGenerate, onCopy, onEmail, onRevoke, onShowAccess }: PortalLinkPanelProps) {
+  const active = link?.status === 'active';
+
+  return (
+    <div className="space-y-2">
+      {/* Portal Link Display */}
+      <div className="bg-gray-50 p-3 rounded-lg">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="flex items-center gap-2">
+            <LinkIcon className="h-4 w-4 text-blue-600" />
+            <span className="text-sm font-medium text-gray-700">{title}</span>
+          </div>
+          {link && (
+            <Badge
+              variant="outline"
+              className={active ? "text-green-700 border-green-300" : "text-gray-600"}
+              data-testid={`badge-link-status-${testId}`}
+            >
+              {active ? `Expires ${formatDate(link.expiresAt)}` : link.status === 'revoked' ? "Revoked" : "Expired"}
+            </Badge>
+          )}
+        </div>
+        {active ? (
+          <>
+            <div className="text-xs text-gray-600 break-all font-mono bg-white p-2 rounded border">
+              {link.url}
+            </div>
+            <button
+              type="button"
+              className="mt-2 text-xs text-blue-700 hover:underline flex items-center gap-1"
+              onClick={() => onShowAccess(link)}
+              data-testid={`button-access-log-${testId}`}
+            >
+              <History className="h-3 w-3" />
+              {link.lastUsedAt ? `Last opened ${formatDateTime(link.lastUsedAt)}` : "Not opened yet"}
+            </button>
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {link ? "This link no longer works. Generate a new one to share." : "No link has been generated yet."}
+          </p>
+        )}
+      </div>
+
+      {/* Action Buttons */}
+      {active ? (
+        <div className="flex flex-col gap-2">
+          <Button
+            onClick={() => onCopy(link)}
+            variant={isCopied ? "default" : "outline"}
+            className={`w-full ${isCopied ? "bg-green-600 hover:bg-green-700" : ""}`}
+            data-testid={`button-copy-${testId}`}
+          >
+            {isCopied ? (
+              <>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Copied!
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Link
+              </>
+            )}
+          </Button>
+          
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              onClick={() => window.open(link.url, '_blank')}
+              variant="outline"
+              size="sm"
+              data-testid={`button-preview-${testId}`}
+            >
+              <ExternalLink className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button
+              onClick={() => onEmail(link)}
+              variant="outline"
+              size="sm"
+              data-testid={`button-email-${testId}`}
+            >
+              <Mail className="h-4 w-4 mr-1" />
+              Email
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={busy} data-testid={`button-regenerate-${testId}`}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Regenerate
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Regenerate Portal Link</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The current link will stop working straight away. Share the new link with the family.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onGenerate}>Regenerate</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  disabled={busy}
+                  data-testid={`button-revoke-${testId}`}
+                >
+                  <Ban className="h-4 w-4 mr-1" />
+                  Revoke
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Revoke Portal Link</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Anyone using this link will lose access immediately. You can generate a new link later.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => onRevoke(link)}>Revoke</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      ) : (
+        <Button
+          onClick={onGenerate}
+          variant="outline"
+          className="w-full"
+          disabled={busy}
+          data-testid={`button-generate-${testId}`}
+        >
+          <LinkIcon className="h-4 w-4 mr-2" />
+          Generate Link
+        </Button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { formatPKR } from "@/lib/currency";
 import { useTenant } from "@/hooks/useTenant";
 import { useBranches } from "@/hooks/useBranches";
@@ -30,6 +35,58 @@ export default function Receipts() {
     queryKey: ['/api/students'],
   });
 
+  const { data: refunds } = useQuery<any[]>({
+    queryKey: ['/api/refunds'],
+  });
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Refund dialog
+  const [refundPayment, setRefundPayment] = useState<any>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundMethod, setRefundMethod] = useState("cash");
+  const [refundDate, setRefundDate] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+
+  const refundsFor = (paymentId: string) => (refunds || []).filter((r: any) => r.paymentId === paymentId);
+  const refundedAmount = (paymentId: string) =>
+    refundsFor(paymentId).reduce((sum: number, r: any) => sum + Number(r.amount), 0);
+
+  const openRefundDialog = (payment: any) => {
+    setRefundPayment(payment);
+    setRefundAmount(String(Number(payment.amount) - refundedAmount(payment.id)));
+    setRefundMethod(payment.paymentMethod);
+    setRefundDate(new Date().toISOString().split('T')[0]);
+    setRefundReason("");
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/payments/${refundPayment.id}/refund`, {
+        amount: refundAmount,
+        refundMethod,
+        refundDate,
+        reason: refundReason,
+      });
+      return res.json();
+    },
+    onSuccess: (refund: any) => {
+      toast({ title: "Refund recorded", description: `Credit note ${refund.creditNoteNumber} issued.` });
+      setRefundPayment(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/refunds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Refund failed",
+        description: error?.message || "Could not record the refund. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Helper function to get student name
   const getStudentName = (studentId: string) => {
     const student = students?.find((s: any) => s.id === studentId);
@@ -662,6 +719,7 @@ export default function Receipts() {
                   <th className="px-4 py-3 text-left font-medium text-gray-700 w-36">Amount</th>
                   <th className="px-4 py-3 text-left font-medium text-gray-700 w-40">Payment Method</th>
                   <th className="px-4 py-3 text-left font-medium text-gray-700">Notes</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Refunds</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
@@ -720,11 +778,36 @@ export default function Receipts() {
                         {payment.notes || '-'}
                       </span>
                     </td>
-
+                    <td className="px-4 py-3">
+                      <div className="flex flex-col items-start gap-1">
+                        {refundsFor(payment.id).map((refund: any) => (
+                          <a
+                            key={refund.id}
+                            href={`/api/refunds/${refund.id}/credit-note`}
+                            className="text-xs text-red-600 hover:underline font-mono whitespace-nowrap"
+                            data-testid={`link-credit-note-${refund.id}`}
+                          >
+                            {refund.creditNoteNumber} (-Rs. {Number(refund.amount).toLocaleString()})
+                          </a>
+                        ))}
+                        {payment.status === 'refunded' ? (
+                          <Badge className="bg-red-100 text-red-800">REFUNDED</Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openRefundDialog(payment)}
+                            data-testid={`button-refund-${payment.id}`}
+                          >
+                            Refund
+                          </Button>
+                        )}
+                      </div>
+                    </td>
                   </tr>
                 )) : (
                   <tr>
-                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                       <i className="fas fa-receipt text-4xl mb-4"></i>
                       <p>No receipts found</p>
                       {(searchQuery || paymentMethodFilter !== "all" || dateRangeFilter !== "all" || amountRangeFilter !== "all" || studentFilter !== "all") && (
@@ -738,6 +821,84 @@ export default function Receipts() {
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={!!refundPayment} onOpenChange={(open) => !open && setRefundPayment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund {refundPayment?.receiptNumber}</DialogTitle>
+          </DialogHeader>
+          {refundPayment && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Paid Rs. {Number(refundPayment.amount).toLocaleString()}
+                {refundedAmount(refundPayment.id) > 0 && (
+                  <> &middot; already refunded Rs. {refundedAmount(refundPayment.id).toLocaleString()}</>
+                )}
+                . Invoices settled by this receipt are reopened for the refunded amount.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="refund-amount">Amount</Label>
+                  <Input
+                    id="refund-amount"
+                    type="number"
+                    min="0"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    data-testid="input-refund-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="refund-date">Refund date</Label>
+                  <Input
+                    id="refund-date"
+                    type="date"
+                    value={refundDate}
+                    max={new Date().toISOString().split('T')[0]}
+                    onChange={(e) => setRefundDate(e.target.value)}
+                    data-testid="input-refund-date"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Paid back by</Label>
+                <Select value={refundMethod} onValueChange={setRefundMethod}>
+                  <SelectTrigger data-testid="select-refund-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="cheque">Cheque</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="refund-reason">Reason *</Label>
+                <Textarea
+                  id="refund-reason"
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                  placeholder="Why is this payment being reversed?"
+                  data-testid="input-refund-reason"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setRefundPayment(null)}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  disabled={!refundReason.trim() || !(Number(refundAmount) > 0) || refundMutation.isPending}
+                  onClick={() => refundMutation.mutate()}
+                  data-testid="button-confirm-refund"
+                >
+                  {refundMutation.isPending ? "Processing..." : "Record Refund"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -30,6 +30,7 @@ import { useToast } from "@/hooks/use-toast";
 import { formatPKR } from "@/lib/currency";
 import { apiRequest } from "@/lib/queryClient";
 import { useBranches } from "@/hooks/useBranches";
+import ParentAccountsPanel from "@/components/ParentAccountsPanel";
 import type { Student } from "@shared/schema";
 
 export default function StudentLedger() {
@@ -121,6 +122,7 @@ export default function StudentLedger() {
                 ...student,
                 feeStatus: financialRes?.feeStatus || "pending",
                 outstandingBalance: financialRes?.outstandingBalance || 0,
+                creditBalance: financialRes?.creditBalance || 0,
                 attendancePercentage: attendanceRes?.attendancePercentage || 0,
                 averageGrade: gradeRes?.averageGrade || "N/A",
                 enrollments: enrollmentsRes || [],
@@ -136,6 +138,7 @@ export default function StudentLedger() {
                 ...student,
                 feeStatus: "pending" as const,
                 outstandingBalance: 0,
+                creditBalance: 0,
                 attendancePercentage: 0,
                 averageGrade: "N/A",
                 enrollments: [],
@@ -728,6 +731,14 @@ export default function StudentLedger() {
                             >
                               Rs. {student.outstandingBalance.toLocaleString()}
                             </span>
+                            {student.creditBalance > 0 && (
+                              <span
+                                className="text-xs text-blue-600"
+                                data-testid={`text-credit-balance-${student.id}`}
+                              >
+                                Credit: Rs. {student.creditBalance.toLocaleString()}
+                              </span>
+                            )}
                             <Badge
                               className={`${getStatusColor(student.feeStatus || 'unknown')} w-fit mt-1`}
                             >
@@ -1197,6 +1208,7 @@ export default function StudentLedger() {
                   />
                 </div>
               </div>
+              <ParentAccountsPanel studentId={editFormData.id} />
               <div className="flex justify-end space-x-2 pt-4">
                 <Button
                   variant="outline"
@@ -10,85 +10,106 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
-interface TeacherPayout {
+interface PayoutAdjustment {
+  id: string;
+  amount: string;
+  reason: string;
+  createdAt: string;
+}
+
+interface PayoutRunItem {
   id: string;
   teacherId: string;
   teacherName: string;
-  baseAmount: number;
-  extraAmount: number;
-  totalAmount: number;
-  payoutRate: number;
-  isFixed: boolean;
-  isPaidOut: boolean;
+  collected: string;
+  feeShare: string;
+  extraClasses: string;
+  gross: string;
+  cashDraws: string;
+  adjustments: string;
+  net: string;
+  expenseId: string | null;
+  adjustmentEntries: PayoutAdjustment[];
+}
+
+interface PayoutRun {
+  id: string;
   month: string;
-  year: number;
+  status: 'open' | 'locked';
+  openedAt: string;
+  lockedAt: string | null;
+  items?: PayoutRunItem[];
 }
 
+interface PayoutRule {
+  id: string;
+  teacherId: string;
+  teacherName: string;
+  isFixed: boolean;
+  fixedPercentage: string | null;
+  tier1Percentage: string | null;
+  tier1Threshold: string | null;
+  tier2Percentage: string | null;
+  extraClassRate: string | null;
+  effectiveFrom: string;
+}
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
 export default function PayoutSummary() {
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedTeacher, setSelectedTeacher] = useState("");
   const [newRate, setNewRate] = useState("");
+  const [newExtraClassRate, setNewExtraClassRate] = useState("");
+  const [adjustingItem, setAdjustingItem] = useState<PayoutRunItem | null>(null);
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [adjustmentReason, setAdjustmentReason] = useState("");
+  const [lockPaymentMethod, setLockPaymentMethod] = useState("bank_transfer");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // In real implementation, these would come from actual API calls
-  const { data: teachers } = useQuery({
+  const monthKey = `${selectedYear}-${String(selectedMonth + 1).padStart(2, '0')}`;
+
+  const { data: teachers } = useQuery<any[]>({
     queryKey: ['/api/teachers'],
   });
 
-  const { data: payoutRules } = useQuery({
+  const { data: payoutRules } = useQuery<PayoutRule[]>({
     queryKey: ['/api/payout-rules'],
   });
 
-  // Mock payout data for demonstration
-  const mockPayouts: TeacherPayout[] = [
-    {
-      id: '1',
-      teacherId: 'teacher1',
-      teacherName: 'Mr. Tariq Ahmed',
-      baseAmount: 21000,
-      extraAmount: 3500,
-      totalAmount: 24500,
-      payoutRate: 70,
-      isFixed: true,
-      isPaidOut: false,
-      month: 'March',
-      year: 2024,
-    },
-    {
-      id: '2',
-      teacherId: 'teacher2',
-      teacherName: 'Ms. Ayesha Malik',
-      baseAmount: 18000,
-      extraAmount: 2000,
-      totalAmount: 20000,
-      payoutRate: 65,
-      isFixed: false,
-      isPaidOut: true,
-      month: 'March',
-      year: 2024,
-    },
-    {
-      id: '3',
-      teacherId: 'teacher3',
-      teacherName: 'Mr. Hassan Ali',
-      baseAmount: 15000,
-      extraAmount: 1500,
-      totalAmount: 16500,
-      payoutRate: 70,
-      isFixed: true,
-      isPaidOut: false,
-      month: 'March',
-      year: 2024,
-    },
-  ];
+  const { data: payoutRuns } = useQuery<PayoutRun[]>({
+    queryKey: ['/api/payout-runs'],
+  });
+
+  const runSummary = payoutRuns?.find(run => run.month === monthKey);
+
+  const { data: run } = useQuery<PayoutRun>({
+    queryKey: ['/api/payout-runs', runSummary?.id],
+    enabled: !!runSummary,
+  });
+
+  const refreshRun = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/payout-runs'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
 
   const updatePayoutRateMutation = useMutation({
-    mutationFn: async ({ teacherId, rate }: { teacherId: string; rate: number }) => {
-      // In real implementation, this would update the payout rule
-      return await apiRequest('PATCH', `/api/payout-rules/${teacherId}`, {
+    mutationFn: async ({ teacherId, rate, extraClassRate }: { teacherId: string; rate: number; extraClassRate?: number }) => {
+      // New rule version effective today; earlier months keep their old rate
+      return await apiRequest('POST', '/api/payout-rules', {
+        teacherId,
+        isFixed: true,
         fixedPercentage: rate,
+        extraClassRate,
         effectiveFrom: new Date().toISOString().split('T')[0],
       });
     },
@@ -99,36 +120,52 @@ export default function PayoutSummary() {
       });
       queryClient.invalidateQueries({ queryKey: ['/api/payout-rules'] });
       setNewRate("");
+      setNewExtraClassRate("");
       setSelectedTeacher("");
     },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to update payout rate. Please try again.",
-        variant: "destructive",
-      });
+    onError,
+  });
+
+  const openRunMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/payout-runs', { month: monthKey }),
+    onSuccess: () => {
+      toast({ title: "Payout run opened", description: `Earnings calculated for ${monthKey}.` });
+      refreshRun();
     },
+    onError,
   });
 
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (payoutId: string) => {
-      // In real implementation, this would mark the payout as completed
-      console.log('Marking payout as paid:', payoutId);
-      return Promise.resolve();
+  const recalculateMutation = useMutation({
+    mutationFn: async (runId: string) => apiRequest('POST', `/api/payout-runs/${runId}/recalculate`),
+    onSuccess: () => {
+      toast({ title: "Recalculated", description: "Payouts refreshed from the latest collections." });
+      refreshRun();
     },
+    onError,
+  });
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async ({ runId, itemId, amount, reason }: { runId: string; itemId: string; amount: number; reason: string }) =>
+      apiRequest('POST', `/api/payout-runs/${runId}/items/${itemId}/adjustments`, { amount, reason }),
     onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Payout marked as completed!",
-      });
+      toast({ title: "Adjustment recorded" });
+      setAdjustingItem(null);
+      setAdjustmentAmount("");
+      setAdjustmentReason("");
+      refreshRun();
     },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to update payout status. Please try again.",
-        variant: "destructive",
-      });
+    onError,
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: async (runId: string) =>
+      apiRequest('POST', `/api/payout-runs/${runId}/lock`, { paymentMethod: lockPaymentMethod }),
+    onSuccess: () => {
+      toast({ title: "Payout run locked", description: "Payouts have been recorded as expenses." });
+      refreshRun();
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
     },
+    onError,
   });
 
   const handleUpdateRate = () => {
@@ -154,21 +191,43 @@ export default function PayoutSummary() {
     updatePayoutRateMutation.mutate({
       teacherId: selectedTeacher,
       rate,
+      extraClassRate: newExtraClassRate ? parseFloat(newExtraClassRate) : undefined,
     });
   };
 
+  const handleAddAdjustment = () => {
+    const amount = parseFloat(adjustmentAmount);
+    if (!run || !adjustingItem || !amount || !adjustmentReason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a non-zero amount (negative for deductions) and a reason.",
+        variant: "destructive",
+      });
+      return;
+    }
+    adjustmentMutation.mutate({ runId: run.id, itemId: adjustingItem.id, amount, reason: adjustmentReason.trim() });
+  };
+
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
     'July', 'August', 'September', 'October', 'November', 'December'
   ];
+  const currentYear = new Date().getFullYear();
+  const years = [currentYear - 2, currentYear - 1, currentYear];
 
-  const filteredPayouts = mockPayouts.filter(payout => 
-    payout.month === monthNames[selectedMonth] && payout.year === selectedYear
-  );
+  const items = run?.items || [];
+  const isLocked = run?.status === 'locked';
+  const totalNet = items.reduce((sum, item) => sum + Number(item.net), 0);
+  const totalGross = items.reduce((sum, item) => sum + Number(item.gross), 0);
+  const totalDraws = items.reduce((sum, item) => sum + Number(item.cashDraws), 0);
 
-  const totalPayouts = filteredPayouts.reduce((sum, payout) => sum + payout.totalAmount, 0);
-  const pendingPayouts = filteredPayouts.filter(p => !p.isPaidOut).length;
-  const completedPayouts = filteredPayouts.filter(p => p.isPaidOut).length;
+  // Latest rule per teacher (rules arrive newest-first per teacher)
+  const currentRules = Object.values(
+    (payoutRules || []).reduce<Record<string, PayoutRule>>((acc, rule) => {
+      if (!acc[rule.teacherId]) acc[rule.teacherId] = rule;
+      return acc;
+    }, {})
+  );
 
   return (
     <div className="space-y-6">
@@ -190,13 +249,13 @@ export default function PayoutSummary() {
                   ))}
                 </SelectContent>
               </Select>
-              
+
               <Select value={selectedYear.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
                 <SelectTrigger className="w-20" data-testid="select-year">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {[2023, 2024, 2025].map((year) => (
+                  {years.map((year) => (
                     <SelectItem key={year} value={year.toString()}>
                       {year}
                     </SelectItem>
@@ -223,9 +282,9 @@ export default function PayoutSummary() {
                           <SelectValue placeholder="Choose teacher..." />
                         </SelectTrigger>
                         <SelectContent>
-                          {filteredPayouts.map((payout) => (
-                            <SelectItem key={payout.teacherId} value={payout.teacherId}>
-                              {payout.teacherName}
+                          {(teachers || []).map((teacher) => (
+                            <SelectItem key={teacher.id} value={teacher.id}>
+                              {teacher.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -246,9 +305,22 @@ export default function PayoutSummary() {
                       />
                     </div>
 
+                    <div>
+                      <Label htmlFor="extra-rate">Extra Class Rate (Rs. per class)</Label>
+                      <Input
+                        id="extra-rate"
+                        type="number"
+                        min="0"
+                        placeholder="0"
+                        value={newExtraClassRate}
+                        onChange={(e) => setNewExtraClassRate(e.target.value)}
+                        data-testid="input-extra-class-rate"
+                      />
+                    </div>
+
                     <div className="flex justify-end space-x-2">
                       <Button variant="outline">Cancel</Button>
-                      <Button 
+                      <Button
                         onClick={handleUpdateRate}
                         disabled={updatePayoutRateMutation.isPending}
                         data-testid="button-update-rate"
@@ -273,9 +345,9 @@ export default function PayoutSummary() {
                 <i className="fas fa-dollar-sign text-blue-600 text-xl"></i>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Total Payouts</p>
-                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-total-payouts">
-                  Rs. {totalPayouts.toLocaleString()}
+                <p className="text-sm font-medium text-gray-600">Gross Earnings</p>
+                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-total-gross">
+                  {rs(totalGross)}
                 </p>
               </div>
             </div>
@@ -286,12 +358,12 @@ export default function PayoutSummary() {
           <CardContent className="pt-6">
             <div className="flex items-center">
               <div className="p-2 bg-yellow-100 rounded-lg">
-                <i className="fas fa-clock text-yellow-600 text-xl"></i>
+                <i className="fas fa-hand-holding-usd text-yellow-600 text-xl"></i>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Pending</p>
-                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-pending-payouts">
-                  {pendingPayouts}
+                <p className="text-sm font-medium text-gray-600">Cash Drawn</p>
+                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-total-draws">
+                  {rs(totalDraws)}
                 </p>
               </div>
             </div>
@@ -302,12 +374,12 @@ export default function PayoutSummary() {
           <CardContent className="pt-6">
             <div className="flex items-center">
               <div className="p-2 bg-green-100 rounded-lg">
-                <i className="fas fa-check-circle text-green-600 text-xl"></i>
+                <i className="fas fa-wallet text-green-600 text-xl"></i>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Completed</p>
-                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-completed-payouts">
-                  {completedPayouts}
+                <p className="text-sm font-medium text-gray-600">Net Payable</p>
+                <p className="text-2xl font-semibold text-gray-900" data-testid="stat-total-payouts">
+                  {rs(totalNet)}
                 </p>
               </div>
             </div>
@@ -323,7 +395,7 @@ export default function PayoutSummary() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Teachers</p>
                 <p className="text-2xl font-semibold text-gray-900" data-testid="stat-total-teachers">
-                  {filteredPayouts.length}
+                  {items.length}
                 </p>
               </div>
             </div>
@@ -335,101 +407,133 @@ export default function PayoutSummary() {
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
-            <CardTitle>
+            <CardTitle className="flex items-center gap-3">
               {monthNames[selectedMonth]} {selectedYear} Payouts
+              {run && (
+                <Badge
+                  className={isLocked ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}
+                  data-testid="badge-run-status"
+                >
+                  <i className={`fas fa-${isLocked ? 'lock' : 'lock-open'} mr-1`}></i>
+                  {isLocked ? 'Locked' : 'Open'}
+                </Badge>
+              )}
             </CardTitle>
             <div className="flex space-x-2">
-              <Button variant="outline" data-testid="button-export-payouts">
-                <i className="fas fa-download mr-2"></i>
-                Export
-              </Button>
-              <Button 
-                disabled={pendingPayouts === 0}
-                data-testid="button-process-all"
-              >
-                <i className="fas fa-credit-card mr-2"></i>
-                Process All Pending
-              </Button>
+              {!runSummary && (
+                <Button
+                  onClick={() => openRunMutation.mutate()}
+                  disabled={openRunMutation.isPending}
+                  data-testid="button-open-run"
+                >
+                  <i className="fas fa-play mr-2"></i>
+                  {openRunMutation.isPending ? 'Opening...' : 'Open Payout Run'}
+                </Button>
+              )}
+              {run && !isLocked && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => recalculateMutation.mutate(run.id)}
+                    disabled={recalculateMutation.isPending}
+                    data-testid="button-recalculate-run"
+                  >
+                    <i className="fas fa-sync mr-2"></i>
+                    Recalculate
+                  </Button>
+                  <Select value={lockPaymentMethod} onValueChange={setLockPaymentMethod}>
+                    <SelectTrigger className="w-36" data-testid="select-lock-payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="cheque">Cheque</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => {
+                      if (confirm(`Lock ${monthKey} payouts? This records ${rs(totalNet)} as expenses and cannot be undone.`)) {
+                        lockMutation.mutate(run.id);
+                      }
+                    }}
+                    disabled={lockMutation.isPending}
+                    data-testid="button-lock-run"
+                  >
+                    <i className="fas fa-lock mr-2"></i>
+                    {lockMutation.isPending ? 'Locking...' : 'Lock & Pay'}
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         </CardHeader>
-        
+
         <CardContent>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead className="bg-gray-50">
                 <tr>
                   <th className="px-4 py-3 text-left font-medium text-gray-700">Teacher</th>
-                  <th className="px-4 py-3 text-left font-medium text-gray-700">Rate</th>
-                  <th className="px-4 py-3 text-left font-medium text-gray-700">Base Amount</th>
-                  <th className="px-4 py-3 text-left font-medium text-gray-700">Extra Amount</th>
-                  <th className="px-4 py-3 text-left font-medium text-gray-700">Total Amount</th>
-                  <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Collected</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Fee Share</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Extra Classes</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Cash Drawn</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Adjustments</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Net Payable</th>
                   <th className="px-4 py-3 text-left font-medium text-gray-700">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {filteredPayouts.length > 0 ? filteredPayouts.map((payout) => (
-                  <tr key={payout.id} className="hover:bg-gray-50" data-testid={`row-payout-${payout.id}`}>
+                {items.length > 0 ? items.map((item) => (
+                  <tr key={item.id} className="hover:bg-gray-50" data-testid={`row-payout-${item.id}`}>
                     <td className="px-4 py-3">
                       <div className="flex items-center">
                         <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mr-3">
                           <i className="fas fa-user-tie text-blue-600 text-sm"></i>
                         </div>
-                        <div>
-                          <p className="font-medium text-gray-900" data-testid={`teacher-name-${payout.id}`}>
-                            {payout.teacherName}
-                          </p>
-                          <p className="text-xs text-gray-500">
-                            {payout.isFixed ? 'Fixed Rate' : 'Tiered Rate'}
-                          </p>
-                        </div>
+                        <p className="font-medium text-gray-900" data-testid={`teacher-name-${item.id}`}>
+                          {item.teacherName}
+                        </p>
                       </div>
                     </td>
+                    <td className="px-4 py-3">{rs(item.collected)}</td>
                     <td className="px-4 py-3">
-                      <Badge variant="outline" data-testid={`rate-${payout.id}`}>
-                        {payout.payoutRate}%
-                      </Badge>
+                      <span className="font-semibold" data-testid={`base-amount-${item.id}`}>{rs(item.feeShare)}</span>
                     </td>
                     <td className="px-4 py-3">
-                      <span className="font-semibold" data-testid={`base-amount-${payout.id}`}>
-                        Rs. {payout.baseAmount.toLocaleString()}
+                      <span className="font-semibold text-green-600" data-testid={`extra-amount-${item.id}`}>
+                        {rs(item.extraClasses)}
                       </span>
                     </td>
-                    <td className="px-4 py-3">
-                      <span className="font-semibold text-green-600" data-testid={`extra-amount-${payout.id}`}>
-                        Rs. {payout.extraAmount.toLocaleString()}
-                      </span>
+                    <td className="px-4 py-3 text-red-600">- {rs(item.cashDraws)}</td>
+                    <td className="px-4 py-3" title={item.adjustmentEntries.map(a => `${a.reason}: ${a.amount}`).join('\n')}>
+                      {rs(item.adjustments)}
                     </td>
                     <td className="px-4 py-3">
-                      <span className="font-bold text-blue-600" data-testid={`total-amount-${payout.id}`}>
-                        Rs. {payout.totalAmount.toLocaleString()}
+                      <span className="font-bold text-blue-600" data-testid={`total-amount-${item.id}`}>
+                        {rs(item.net)}
                       </span>
                     </td>
-                    <td className="px-4 py-3">
-                      <Badge 
-                        className={payout.isPaidOut ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}
-                        data-testid={`status-${payout.id}`}
-                      >
-                        <i className={`fas fa-${payout.isPaidOut ? 'check-circle' : 'clock'} mr-1`}></i>
-                        {payout.isPaidOut ? 'Paid' : 'Pending'}
-                      </Badge>
-                    </td>
                     <td className="px-4 py-3">
                       <div className="flex space-x-2">
-                        <Button size="sm" variant="ghost" data-testid={`button-view-details-${payout.id}`}>
-                          <i className="fas fa-eye"></i>
-                        </Button>
-                        {!payout.isPaidOut && (
-                          <Button 
-                            size="sm" 
-                            className="bg-green-600 hover:bg-green-700"
-                            onClick={() => markAsPaidMutation.mutate(payout.id)}
-                            disabled={markAsPaidMutation.isPending}
-                            data-testid={`button-mark-paid-${payout.id}`}
+                        {!isLocked && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setAdjustingItem(item)}
+                            data-testid={`button-adjust-${item.id}`}
                           >
-                            <i className="fas fa-check mr-1"></i>
-                            Mark Paid
+                            <i className="fas fa-plus-minus mr-1"></i>
+                            Adjust
+                          </Button>
+                        )}
+                        {isLocked && (
+                          <Button size="sm" variant="ghost" asChild data-testid={`button-payslip-${item.id}`}>
+                            <a href={`/api/payout-runs/${run!.id}/payslips/${item.teacherId}`}>
+                              <i className="fas fa-file-pdf mr-1"></i>
+                              Payslip
+                            </a>
                           </Button>
                         )}
                       </div>
@@ -437,9 +541,9 @@ export default function PayoutSummary() {
                   </tr>
                 )) : (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                       <i className="fas fa-users text-4xl mb-4"></i>
-                      <p>No payout data for selected period</p>
+                      <p>{runSummary ? 'No teacher earnings for this period' : 'No payout run opened for this period'}</p>
                     </td>
                   </tr>
                 )}
@@ -449,6 +553,53 @@ export default function PayoutSummary() {
         </CardContent>
       </Card>
 
+      {/* Adjustment dialog */}
+      <Dialog open={!!adjustingItem} onOpenChange={(open) => !open && setAdjustingItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust payout - {adjustingItem?.teacherName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {adjustingItem?.adjustmentEntries.map((entry) => (
+              <div key={entry.id} className="flex justify-between text-sm p-2 bg-gray-50 rounded">
+                <span>{entry.reason}</span>
+                <span className="font-semibold">{rs(entry.amount)}</span>
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="adjustment-amount">Amount (Rs., negative for a deduction)</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                value={adjustmentAmount}
+                onChange={(e) => setAdjustmentAmount(e.target.value)}
+                data-testid="input-adjustment-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="adjustment-reason">Reason</Label>
+              <Input
+                id="adjustment-reason"
+                value={adjustmentReason}
+                onChange={(e) => setAdjustmentReason(e.target.value)}
+                placeholder="e.g. Exam invigilation bonus"
+                data-testid="input-adjustment-reason"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setAdjustingItem(null)}>Cancel</Button>
+              <Button
+                onClick={handleAddAdjustment}
+                disabled={adjustmentMutation.isPending}
+                data-testid="button-save-adjustment"
+              >
+                {adjustmentMutation.isPending ? 'Saving...' : 'Save Adjustment'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Payout Rules */}
       <Card>
         <CardHeader>
@@ -458,22 +609,27 @@ export default function PayoutSummary() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-4">
               <h4 className="font-medium text-gray-800">Fixed Rate Teachers</h4>
-              {filteredPayouts.filter(p => p.isFixed).map((teacher) => (
-                <div key={teacher.id} className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
-                  <span className="font-medium">{teacher.teacherName}</span>
-                  <Badge className="bg-blue-100 text-blue-800">{teacher.payoutRate}%</Badge>
+              {currentRules.filter(r => r.isFixed).map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+                  <div>
+                    <span className="font-medium">{rule.teacherName}</span>
+                    <p className="text-xs text-gray-500">Since {rule.effectiveFrom}</p>
+                  </div>
+                  <Badge className="bg-blue-100 text-blue-800">{Number(rule.fixedPercentage)}%</Badge>
                 </div>
               ))}
             </div>
-            
+
             <div className="space-y-4">
               <h4 className="font-medium text-gray-800">Tiered Rate Teachers</h4>
-              {filteredPayouts.filter(p => !p.isFixed).map((teacher) => (
-                <div key={teacher.id} className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
-                  <span className="font-medium">{teacher.teacherName}</span>
+              {currentRules.filter(r => !r.isFixed).map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
+                  <span className="font-medium">{rule.teacherName}</span>
                   <div className="text-right">
-                    <Badge className="bg-purple-100 text-purple-800">{teacher.payoutRate}%</Badge>
-                    <p className="text-xs text-gray-500 mt-1">Base rate</p>
+                    <Badge className="bg-purple-100 text-purple-800">
+                      {Number(rule.tier1Percentage)}% / {Number(rule.tier2Percentage ?? rule.tier1Percentage)}%
+                    </Badge>
+                    <p className="text-xs text-gray-500 mt-1">Above {rs(rule.tier1Threshold)}</p>
                   </div>
                 </div>
               ))}
@@ -1,9 +1,11 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { Switch, Route, Link } from "wouter";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 import Logo from "@/components/Logo";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,30 +23,29 @@ import DigitalDiary from "@/pages/teacher/DigitalDiary";
 import ScheduleManager from "@/pages/teacher/ScheduleManager";
 // NotFound component not needed - using inline component
 
-interface ImpersonationData {
-  teacherId: string;
-  teacherName: string;
-  originalRole: string;
-}
-
+// The teacher area as the impersonated teacher sees it. The server runs these pages'
+// requests as the teacher while the impersonation lasts (server/impersonation.ts).
 export default function ReadOnlyTeacherDashboard() {
-  const [impersonationData, setImpersonationData] = useState<ImpersonationData | null>(null);
-  const { user, logout, isLoggingOut } = useAuth() as any;
+  const { user, isLoading, logout, isLoggingOut } = useAuth() as any;
+  const impersonationData = user?.impersonation;
 
   useEffect(() => {
-    const data = sessionStorage.getItem('impersonatingTeacher');
-    if (data) {
-      setImpersonationData(JSON.parse(data));
-    } else {
-      // If no impersonation data, redirect back to management
+    // Not impersonating (or it has expired): back to choosing a teacher
+    if (!isLoading && !impersonationData) {
       window.location.href = '/teacher-impersonation';
     }
-  }, []);
+  }, [isLoading, impersonationData]);
+
+  const endMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', '/api/impersonation'),
+    onSettled: () => {
+      localStorage.setItem('selectedRole', 'management');
+      window.location.href = '/dashboard';
+    },
+  });
 
   const handleBackToManagement = () => {
-    sessionStorage.removeItem('impersonatingTeacher');
-    localStorage.setItem('selectedRole', 'management');
-    window.location.href = '/dashboard';
+    endMutation.mutate();
   };
 
   const handleLogout = () => {
@@ -115,7 +116,7 @@ export default function ReadOnlyTeacherDashboard() {
             <div className="flex items-center space-x-4">
               <div>
                 <h1 className="text-2xl font-semibold text-gray-800">
-                  Teacher Dashboard (Read-Only)
+                  Teacher Dashboard {impersonationData.allowWrites ? '(Impersonating)' : '(Read-Only)'}
                 </h1>
                 <nav className="text-sm text-gray-600">
                   Home {'>'} teacher-impersonation {'>'} Dashboard
@@ -170,19 +171,9 @@ export default function ReadOnlyTeacherDashboard() {
 
         {/* Main Content */}
         <main className="flex-1 overflow-y-auto p-6">
-          {/* Impersonation Alert */}
+          {/* Impersonation Banner */}
           <div className="mb-6">
-            <Alert className="bg-orange-50 border-orange-200">
-              <AlertDescription className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <i className="fas fa-eye text-orange-600"></i>
-                  <span className="font-medium text-orange-800">
-                    Viewing as: {impersonationData.teacherName}
-                  </span>
-                  <span className="text-sm text-orange-600">(Read-Only Mode)</span>
-                </div>
-              </AlertDescription>
-            </Alert>
+            <ImpersonationBanner />
           </div>
 
           {/* Teacher Dashboard Routes */}
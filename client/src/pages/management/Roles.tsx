@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TenantRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  memberCount: number;
+}
+
+interface RolesResponse {
+  roles: TenantRole[];
+  permissions: Record<string, { label: string; area: string }>;
+  defaults: Record<string, string[]>;
+}
+
+const BASE_ROLE_LABELS: Record<string, string> = {
+  finance: 'Finance',
+  teacher: 'Teacher',
+  management: 'Management',
+};
+
+const emptyRole = { name: "", description: "", permissions: [] as string[] };
+
+// Custom roles: named permission sets that replace a staff member's base role defaults
+export default function Roles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<{ id: string | null } | null>(null);
+  const [form, setForm] = useState(emptyRole);
+
+  const { data, isLoading } = useQuery<RolesResponse>({ queryKey: ['/api/roles'] });
+  const roles = data?.roles ?? [];
+  const catalogue = Object.entries(data?.permissions ?? {});
+  const areas = Array.from(new Set(catalogue.map(([, p]) => p.area)));
+  const label = (key: string) => data?.permissions[key]?.label ?? key;
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      dialog?.id
+        ? apiRequest('PUT', `/api/roles/${dialog.id}`, form)
+        : apiRequest('POST', '/api/roles', form),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Role saved" });
+      setDialog(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/roles/${id}`),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Role deleted. Its members are back on their base role's permissions." });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    },
+    onError,
+  });
+
+  const openDialog = (role?: TenantRole) => {
+    setForm(role ? { name: role.name, description: role.description || "", permissions: role.permissions } : emptyRole);
+    setDialog({ id: role?.id ?? null });
+  };
+
+  const toggle = (key: string, on: boolean) => setForm({
+    ...form,
+    permissions: on ? Array.from(new Set([...form.permissions, key])) : form.permissions.filter((p) => p !== key),
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Roles</CardTitle>
+            <Button onClick={() => openDialog()} data-testid="button-new-role">
+              <i className="fas fa-plus mr-2"></i>
+              New Role
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            A custom role replaces the default permissions of a staff member's base role. Assign roles from Staff Management.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : roles.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No custom roles yet. Staff use their base role's defaults.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {roles.map((role) => (
+                <div key={role.id} className="p-4 border rounded-lg" data-testid={`card-role-${role.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">{role.name}</div>
+                      {role.description && <div className="text-xs text-gray-500">{role.description}</div>}
+                    </div>
+                    <Badge variant="secondary">{role.memberCount} member(s)</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-3">
+                    {role.permissions.map((key) => (
+                      <Badge key={key} variant="outline" className="text-xs">{label(key)}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(role)}>Edit</Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        if (confirm(`Delete the ${role.name} role?`)) deleteMutation.mutate(role.id);
+                      }}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-role-${role.id}`}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Base Role Defaults</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {Object.entries(BASE_ROLE_LABELS).map(([role, name]) => (
+              <div key={role}>
+                <div className="text-sm font-medium text-gray-900">{name}</div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {(data.defaults[role] ?? []).map((key) => (
+                    <Badge key={key} variant="outline" className="text-xs">{label(key)}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dialog?.id ? 'Edit Role' : 'New Role'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Receptionist"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            {areas.map((area) => (
+              <div key={area}>
+                <Label>{area}</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                  {catalogue.filter(([, p]) => p.area === area).map(([key, p]) => (
+                    <label key={key} className="flex items-center gap-2 p-2 border rounded text-sm">
+                      <Checkbox
+                        checked={form.permissions.includes(key)}
+                        onCheckedChange={(checked) => toggle(key, !!checked)}
+                        data-testid={`checkbox-permission-${key}`}
+                      />
+                      {p.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-role">
+                {saveMutation.isPending ? "Saving..." : "Save Role"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
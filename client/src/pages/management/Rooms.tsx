@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Room } from "@/types";
+
+type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+const WEEK: Array<{ day: Weekday; label: string }> = [
+  { day: 'monday', label: 'Mon' },
+  { day: 'tuesday', label: 'Tue' },
+  { day: 'wednesday', label: 'Wed' },
+  { day: 'thursday', label: 'Thu' },
+  { day: 'friday', label: 'Fri' },
+  { day: 'saturday', label: 'Sat' },
+  { day: 'sunday', label: 'Sun' },
+];
+
+interface RoomBooking {
+  scheduleId: string;
+  dayOfWeek: Weekday;
+  startTime: string;
+  endTime: string;
+  subject: string;
+  teacherName: string;
+  enrolled: number;
+}
+
+interface RoomUtilisation extends Room {
+  bookings: RoomBooking[];
+  grid: Array<{ start: string; end: string; days: Record<Weekday, RoomBooking[]> }>;
+  bookedMinutes: number;
+  warnings: string[];
+}
+
+const emptyRoom = { name: "", capacity: "", equipment: [] as string[] };
+
+const hours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}h`;
+
+export default function Rooms() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<{ id: string | null } | null>(null);
+  const [form, setForm] = useState(emptyRoom);
+  const [gridRoomId, setGridRoomId] = useState<string>("");
+
+  const { data: rooms = [], isLoading } = useQuery<Room[]>({
+    queryKey: ['/api/rooms', 'all'],
+    queryFn: async () => {
+      const res = await fetch('/api/rooms?all=true', { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+  const { data: equipment = {} } = useQuery<Record<string, string>>({ queryKey: ['/api/rooms/equipment'] });
+  const { data: utilisation = [] } = useQuery<RoomUtilisation[]>({ queryKey: ['/api/rooms/utilisation'] });
+
+  const gridRoom = utilisation.find((r) => r.id === gridRoomId) ?? utilisation[0];
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/rooms/utilisation'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...form, capacity: form.capacity === "" ? null : Number(form.capacity) };
+      return dialog?.id
+        ? apiRequest('PUT', `/api/rooms/${dialog.id}`, body)
+        : apiRequest('POST', '/api/rooms', body);
+    },
+    onSuccess: () => {
+      toast({ title: "Room saved" });
+      setDialog(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest('POST', `/api/rooms/${id}/active`, { isActive }),
+    onSuccess: (_res, { isActive }) => {
+      toast({
+        title: isActive ? "Room back in use" : "Room retired",
+        description: isActive ? undefined : "Classes already booked in it keep it.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const openDialog = (room?: Room) => {
+    setForm(room ? {
+      name: room.name,
+      capacity: room.capacity ? String(room.capacity) : "",
+      equipment: room.equipment || [],
+    } : emptyRoom);
+    setDialog({ id: room?.id ?? null });
+  };
+
+  const toggle = (list: string[], value: string, on: boolean) =>
+    on ? Array.from(new Set([...list, value])) : list.filter((v) => v !== value);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Rooms &amp; Resources</CardTitle>
+            <Button onClick={() => openDialog()} data-testid="button-new-room">
+              <i className="fas fa-plus mr-2"></i>
+              New Room
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Rooms belong to the active branch. Teachers pick them when scheduling, and a class with more students than seats is flagged.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : rooms.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No rooms yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {rooms.map((room) => {
+                const usage = utilisation.find((r) => r.id === room.id);
+                return (
+                  <div key={room.id} className={`p-4 border rounded-lg ${room.isActive ? '' : 'opacity-60'}`} data-testid={`card-room-${room.id}`}>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{room.name}</div>
+                        {room.branchName && <div className="text-xs text-gray-500">{room.branchName}</div>}
+                      </div>
+                      <div className="text-sm text-gray-700">
+                        {room.capacity ? `${room.capacity} seats` : 'Capacity not set'}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {room.equipment.map((item) => (
+                        <Badge key={item} variant="secondary" className="text-xs">{equipment[item] || item}</Badge>
+                      ))}
+                      {!room.isActive && <Badge variant="outline" className="text-xs">Retired</Badge>}
+                    </div>
+                    {usage && (
+                      <div className="text-xs text-gray-500 mt-2">
+                        {usage.bookings.length} weekly class(es), {hours(usage.bookedMinutes)} booked
+                      </div>
+                    )}
+                    {usage?.warnings.map((warning) => (
+                      <div key={warning} className="text-xs text-amber-700 mt-1">{warning}</div>
+                    ))}
+                    <div className="flex gap-2 mt-3">
+                      <Button size="sm" variant="outline" onClick={() => openDialog(room)}>Edit</Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => activeMutation.mutate({ id: room.id, isActive: !room.isActive })}
+                        disabled={activeMutation.isPending}
+                      >
+                        {room.isActive ? 'Retire' : 'Use again'}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Room Utilisation</CardTitle>
+            {utilisation.length > 0 && (
+              <Select value={gridRoom?.id} onValueChange={setGridRoomId}>
+                <SelectTrigger className="w-56" data-testid="select-grid-room">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {utilisation.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>{room.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-2">Free and booked hours across the week from the weekly timetable.</p>
+        </CardHeader>
+        <CardContent>
+          {!gridRoom ? (
+            <p className="text-sm text-gray-500 text-center py-8">Add a room to see its week.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse" data-testid="room-grid">
+                <thead>
+                  <tr>
+                    <th className="p-2 text-left text-gray-500 font-medium w-24">Time</th>
+                    {WEEK.map(({ day, label }) => (
+                      <th key={day} className="p-2 text-left text-gray-500 font-medium">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {gridRoom.grid.map((row) => (
+                    <tr key={row.start} className="border-t">
+                      <td className="p-2 text-gray-500 whitespace-nowrap">{row.start}-{row.end}</td>
+                      {WEEK.map(({ day }) => {
+                        const booked = row.days[day];
+                        const over = booked.some((b) => gridRoom.capacity && b.enrolled > gridRoom.capacity);
+                        return (
+                          <td
+                            key={day}
+                            className={`p-2 align-top border-l ${booked.length === 0 ? 'bg-green-50' : over ? 'bg-amber-100' : 'bg-blue-50'}`}
+                          >
+                            {booked.length === 0 ? (
+                              <span className="text-green-700">Free</span>
+                            ) : booked.map((b) => (
+                              <div key={b.scheduleId}>
+                                <div className="font-medium text-gray-800">{b.subject}</div>
+                                <div className="text-gray-500">{b.startTime}-{b.endTime} · {b.teacherName}</div>
+                              </div>
+                            ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dialog?.id ? 'Edit Room' : 'New Room'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="room-name">Name</Label>
+              <Input
+                id="room-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Room 101, Physics Lab"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="room-capacity">Capacity (seats)</Label>
+              <Input
+                id="room-capacity"
+                type="number"
+                min={1}
+                value={form.capacity}
+                onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label>Equipment</Label>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {Object.entries(equipment).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.equipment.includes(key)}
+                      onCheckedChange={(checked) => setForm({
+                        ...form,
+                        equipment: toggle(form.equipment, key, !!checked),
+                      })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-room">
+                {saveMutation.isPending ? "Saving..." : "Save Room"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import type { ScheduleConflict, TimetableSlot } from "@/types";
+
+type ConflictRow = ScheduleConflict & { slot: TimetableSlot };
+
+interface CurrentConflicts {
+  weekly: ConflictRow[];
+  upcoming: ConflictRow[];
+  range: { start: string; end: string };
+}
+
+const typeBadge = (type: ScheduleConflict['type']) => {
+  if (type === 'teacher') return <Badge className="bg-red-100 text-red-800">Teacher</Badge>;
+  if (type === 'room') return <Badge className="bg-orange-100 text-orange-800">Room</Badge>;
+  return <Badge className="bg-yellow-100 text-yellow-800">Students</Badge>;
+};
+
+const capitalize = (s?: string) => (s ? s.charAt(0).toUpperCase() + s.slice(1) : '');
+
+const describeSlot = (slot: TimetableSlot) => (
+  <div>
+    <div className="font-medium">{slot.subject || 'Class'}</div>
+    <div className="text-xs text-gray-500">
+      {slot.startTime}-{slot.endTime}
+      {slot.location ? ` · ${slot.location}` : ''}
+      {slot.teacherName ? ` · ${slot.teacherName}` : ''}
+      {slot.scheduleChangeId ? (slot.scheduleId ? ' · Rescheduled' : ' · Extra class') : ''}
+    </div>
+  </div>
+);
+
+function ConflictTable({ rows, dated }: { rows: ConflictRow[]; dated: boolean }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{dated ? 'Date' : 'Day'}</TableHead>
+          <TableHead>Clash</TableHead>
+          <TableHead>Class</TableHead>
+          <TableHead>Conflicts with</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, i) => (
+          <TableRow key={i} data-testid={`row-conflict-${i}`}>
+            <TableCell>{dated ? row.slot.sessionDate : capitalize(row.slot.dayOfWeek)}</TableCell>
+            <TableCell>{typeBadge(row.type)}</TableCell>
+            <TableCell>{describeSlot(row.slot)}</TableCell>
+            <TableCell>{describeSlot(row.with)}</TableCell>
+            <TableCell className="text-sm text-gray-600">{row.message}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function ScheduleConflicts() {
+  const { data, isLoading } = useQuery<CurrentConflicts>({
+    queryKey: ['/api/schedule-conflicts'],
+    queryFn: async () => {
+      const res = await fetch('/api/schedule-conflicts', { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Timetable Conflicts</CardTitle>
+          <p className="text-sm text-gray-600">
+            Recurring classes that overlap every week on the same teacher, room or enrolled students.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : !data?.weekly.length ? (
+            <p className="text-sm text-gray-500 text-center py-8">No clashes in the weekly timetable.</p>
+          ) : (
+            <ConflictTable rows={data.weekly} dated={false} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Changes</CardTitle>
+          <p className="text-sm text-gray-600">
+            Clashes caused by reschedules and extra classes
+            {data ? ` from ${data.range.start} to ${data.range.end}` : ''}.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : !data?.upcoming.length ? (
+            <p className="text-sm text-gray-500 text-center py-8">No reschedules or extra classes clash.</p>
+          ) : (
+            <ConflictTable rows={data.upcoming} dated />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ScheduledJobRun } from "@shared/schema";
+
+type JobName = 'subject_fees' | 'recurring_billing' | 'late_fees';
+
+const JOB_LABELS: Record<JobName, string> = {
+  subject_fees: 'Subject fee changes',
+  recurring_billing: 'Recurring billing',
+  late_fees: 'Late fees',
+};
+
+type JobRunRow = ScheduledJobRun & { triggeredByName: string | null };
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
+const statusBadge = (status: string) => {
+  if (status === 'success') return <Badge className="bg-green-100 text-green-800">Success</Badge>;
+  if (status === 'partial') return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>;
+  return <Badge variant="destructive">Failed</Badge>;
+};
+
+export default function ScheduledJobs() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [job, setJob] = useState<'all' | JobName>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery<JobRunRow[]>({
+    queryKey: ['/api/scheduled-jobs/runs', job],
+    queryFn: async () => {
+      const qs = job === 'all' ? '' : `?job=${job}`;
+      const res = await fetch(`/api/scheduled-jobs/runs${qs}`, { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (name: JobName) => (await apiRequest('POST', `/api/scheduled-jobs/${name}/run`)).json(),
+    onSuccess: (run: JobRunRow) => {
+      toast({
+        title: `${JOB_LABELS[run.job as JobName]} finished`,
+        description: `${run.generated} done, ${run.skipped} skipped, ${run.failed} failed.`,
+        variant: run.status === 'failed' ? 'destructive' : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-jobs/runs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Scheduled Jobs</CardTitle>
+            <div className="flex gap-2">
+              {(Object.keys(JOB_LABELS) as JobName[]).map((name) => (
+                <Button
+                  key={name}
+                  variant="outline"
+                  onClick={() => runMutation.mutate(name)}
+                  disabled={runMutation.isPending}
+                  data-testid={`button-run-${name}`}
+                >
+                  <i className="fas fa-play mr-2"></i>
+                  Run {JOB_LABELS[name].toLowerCase()} now
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-gray-600">
+              Invoices are generated from billing schedules on their due day (school time) and missed days are caught up automatically.
+            </p>
+            <Select value={job} onValueChange={(v) => setJob(v as 'all' | JobName)}>
+              <SelectTrigger className="w-48" data-testid="select-job">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All jobs</SelectItem>
+                {(Object.keys(JOB_LABELS) as JobName[]).map((name) => (
+                  <SelectItem key={name} value={name}>{JOB_LABELS[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No runs recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>For date</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Processed</TableHead>
+                  <TableHead className="text-right">Done</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <TableRow
+                      className={run.errors?.length ? "cursor-pointer" : undefined}
+                      onClick={() => run.errors?.length && setExpanded(expanded === run.id ? null : run.id)}
+                      data-testid={`row-job-run-${run.id}`}
+                    >
+                      <TableCell>{new Date(run.startedAt).toLocaleString('en-PK')}</TableCell>
+                      <TableCell>{JOB_LABELS[run.job as JobName] || run.job}</TableCell>
+                      <TableCell>{run.asOf}</TableCell>
+                      <TableCell>
+                        {run.trigger === 'manual' ? `Manual${run.triggeredByName ? ` (${run.triggeredByName})` : ''}` : 'Scheduler'}
+                      </TableCell>
+                      <TableCell>{statusBadge(run.status)}</TableCell>
+                      <TableCell className="text-right">{run.processed}</TableCell>
+                      <TableCell className="text-right">{run.generated}</TableCell>
+                      <TableCell className="text-right">{run.skipped}</TableCell>
+                      <TableCell className="text-right">{run.failed}</TableCell>
+                      <TableCell className="text-right">{rs(run.amount)}</TableCell>
+                    </TableRow>
+                    {expanded === run.id && (
+                      <TableRow>
+                        <TableCell colSpan={10} className="bg-red-50">
+                          <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+                            {run.errors?.map((error, i) => <li key={i}>{error}</li>)}
+                          </ul>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
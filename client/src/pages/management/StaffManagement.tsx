@@ -22,15 +22,21 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Users, UserPlus, Mail, Phone, User, Edit, Trash2 } from "lucide-react";
+import { Users, UserPlus, Mail, Phone, User, Edit, Trash2, KeyRound, LockOpen, Smartphone, UserCheck, UserX } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import AddTeacherModal from "@/components/AddTeacherModal";
 import AddStaffModal from "@/components/AddStaffModal";
 import AddManagementModal from "@/components/AddManagementModal";
 import EditTeacherModal from "@/components/EditTeacherModal";
 import EditStaffModal from "@/components/EditStaffModal";
 import EditManagementModal from "@/components/EditManagementModal";
+import PasswordPolicyCard from "@/components/PasswordPolicyCard";
+import TwoFactorPolicyCard from "@/components/TwoFactorPolicyCard";
+import SessionTimeoutCard from "@/components/SessionTimeoutCard";
+import AttendanceCutoffCard from "@/components/AttendanceCutoffCard";
 
 interface Staff {
   id: string;
@@ -47,6 +53,15 @@ interface Staff {
   firstName?: string;
   lastName?: string;
   payoutPercentage?: number;
+  mustChangePassword?: boolean;
+  lockedUntil?: string | null;
+  twoFactorEnabled?: boolean;
+  customRoleId?: string | null;
+}
+
+interface CustomRole {
+  id: string;
+  name: string;
 }
 
 export default function StaffManagement() {
@@ -61,10 +76,17 @@ export default function StaffManagement() {
   const [selectedManagement, setSelectedManagement] = useState<Staff | null>(null);
 
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
+  // Deactivated members are included so they can be reactivated
   const { data: staff, isLoading } = useQuery<any[]>({
-    queryKey: ["/api/staff"],
+    queryKey: ["/api/staff", "all"],
+    queryFn: async () => {
+      const res = await fetch('/api/staff?all=true', { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
   });
 
   // Fetch subjects to map IDs to names
@@ -72,6 +94,12 @@ export default function StaffManagement() {
     queryKey: ['/api/subjects'],
   });
 
+  // School-defined roles a member can be given instead of their base role's default permissions
+  const { data: rolesData } = useQuery<{ roles: CustomRole[] }>({
+    queryKey: ['/api/roles'],
+  });
+  const roles = rolesData?.roles ?? [];
+
   // Helper function to get subject names from IDs
   const getSubjectNames = (subjectIds: string[] = []) => {
     if (!subjects || !Array.isArray(subjects) || !subjectIds || !Array.isArray(subjectIds) || subjectIds.length === 0) return 'None';
@@ -144,6 +172,118 @@ export default function StaffManagement() {
     },
   });
 
+  // Force password reset mutation - the new temporary password is shown once
+  const forcePasswordResetMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const response = await apiRequest('POST', `/api/staff/${memberId}/force-password-reset`);
+      return response.json();
+    },
+    onSuccess: (data: { name: string; tempPassword: string }) => {
+      toast({
+        title: "Password Reset",
+        description: `${data.name} has been signed out. Their temporary password is ${data.tempPassword} - share it with them; they must choose a new password when they sign in.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Unlock mutation - lifts a lockout from too many failed sign-ins
+  const unlockMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      return await apiRequest('POST', `/api/staff/${memberId}/unlock`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Account has been unlocked",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset 2FA mutation - for a lost phone; the member sets it up again if their role requires it
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      return await apiRequest('POST', `/api/staff/${memberId}/reset-two-factor`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor authentication has been reset",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Custom role mutation - null puts the member back on their base role's defaults
+  const customRoleMutation = useMutation({
+    mutationFn: async ({ memberId, roleId }: { memberId: string; roleId: string | null }) => {
+      return await apiRequest('PUT', `/api/staff/${memberId}/custom-role`, { roleId });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Permissions updated. They apply from the member's next request.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Active status mutation - deactivating also signs the member out of every device
+  const activeMutation = useMutation({
+    mutationFn: async ({ memberId, isActive }: { memberId: string; isActive: boolean }) => {
+      const response = await apiRequest('POST', `/api/staff/${memberId}/active`, { isActive });
+      return response.json();
+    },
+    onSuccess: (data: { isActive: boolean; sessionsEnded: number }) => {
+      toast({
+        title: "Success",
+        description: data.isActive
+          ? "Account reactivated. They can sign in again."
+          : `Account deactivated and signed out of ${data.sessionsEnded} session(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change account status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLocked = (member: Staff) => !!member.lockedUntil && new Date(member.lockedUntil) > new Date();
+
   // Handlers
   const handleEditTeacher = (teacher: Staff) => {
     setSelectedTeacher(teacher);
@@ -175,6 +315,7 @@ export default function StaffManagement() {
   const activeTeachers = staff?.filter(s => s.role === 'teacher' && s.isActive) || [];
   const activeStaff = staff?.filter(s => s.role !== 'teacher' && s.role !== 'management' && s.isActive) || [];
   const activeManagement = staff?.filter(s => s.role === 'management' && s.isActive) || [];
+  const deactivatedMembers = staff?.filter(s => !s.isActive) || [];
 
   if (isLoading) {
     return (
@@ -310,6 +451,7 @@ export default function StaffManagement() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Subjects</TableHead>
                   <TableHead>Hired</TableHead>
+                  <TableHead>Permissions</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -320,6 +462,15 @@ export default function StaffManagement() {
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-gray-500" />
                         {teacher.name}
+                        {isLocked(teacher) && (
+                          <Badge variant="outline" className="text-red-700 border-red-300">Locked</Badge>
+                        )}
+                        {teacher.mustChangePassword && (
+                          <Badge variant="outline" className="text-amber-700 border-amber-300">Password change pending</Badge>
+                        )}
+                        {teacher.twoFactorEnabled && (
+                          <Badge variant="outline" className="text-green-700 border-green-300">2FA</Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -342,6 +493,14 @@ export default function StaffManagement() {
                     <TableCell className="text-gray-500">
                       {teacher.hireDate ? new Date(teacher.hireDate).toLocaleDateString() : 'Not set'}
                     </TableCell>
+                    <TableCell>
+                      <CustomRoleSelect
+                        member={teacher}
+                        roles={roles}
+                        onChange={(roleId) => customRoleMutation.mutate({ memberId: teacher.id, roleId })}
+                        disabled={customRoleMutation.isPending || teacher.id === user?.id}
+                      />
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button
@@ -352,6 +511,39 @@ export default function StaffManagement() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {isLocked(teacher) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Unlock sign-in"
+                            onClick={() => unlockMutation.mutate(teacher.id)}
+                            disabled={unlockMutation.isPending}
+                            data-testid={`button-unlock-${teacher.id}`}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {teacher.twoFactorEnabled && teacher.id !== user?.id && (
+                          <ResetTwoFactorButton
+                            name={teacher.name}
+                            onConfirm={() => resetTwoFactorMutation.mutate(teacher.id)}
+                            testId={`button-reset-two-factor-${teacher.id}`}
+                          />
+                        )}
+                        {teacher.id !== user?.id && (
+                          <DeactivateButton
+                            name={teacher.name}
+                            onConfirm={() => activeMutation.mutate({ memberId: teacher.id, isActive: false })}
+                            testId={`button-deactivate-${teacher.id}`}
+                          />
+                        )}
+                        {teacher.id !== user?.id && (
+                          <ForcePasswordResetButton
+                            name={teacher.name}
+                            onConfirm={() => forcePasswordResetMutation.mutate(teacher.id)}
+                            testId={`button-reset-password-${teacher.id}`}
+                          />
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -423,6 +615,7 @@ export default function StaffManagement() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Role</TableHead>
                   <TableHead>Hired</TableHead>
+                  <TableHead>Permissions</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -433,6 +626,15 @@ export default function StaffManagement() {
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-gray-500" />
                         {staffMember.name}
+                        {isLocked(staffMember) && (
+                          <Badge variant="outline" className="text-red-700 border-red-300">Locked</Badge>
+                        )}
+                        {staffMember.mustChangePassword && (
+                          <Badge variant="outline" className="text-amber-700 border-amber-300">Password change pending</Badge>
+                        )}
+                        {staffMember.twoFactorEnabled && (
+                          <Badge variant="outline" className="text-green-700 border-green-300">2FA</Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -455,6 +657,14 @@ export default function StaffManagement() {
                     <TableCell className="text-gray-500">
                       {staffMember.hireDate ? new Date(staffMember.hireDate).toLocaleDateString() : 'Not set'}
                     </TableCell>
+                    <TableCell>
+                      <CustomRoleSelect
+                        member={staffMember}
+                        roles={roles}
+                        onChange={(roleId) => customRoleMutation.mutate({ memberId: staffMember.id, roleId })}
+                        disabled={customRoleMutation.isPending || staffMember.id === user?.id}
+                      />
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button
@@ -465,6 +675,39 @@ export default function StaffManagement() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {isLocked(staffMember) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Unlock sign-in"
+                            onClick={() => unlockMutation.mutate(staffMember.id)}
+                            disabled={unlockMutation.isPending}
+                            data-testid={`button-unlock-${staffMember.id}`}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {staffMember.twoFactorEnabled && staffMember.id !== user?.id && (
+                          <ResetTwoFactorButton
+                            name={staffMember.name}
+                            onConfirm={() => resetTwoFactorMutation.mutate(staffMember.id)}
+                            testId={`button-reset-two-factor-${staffMember.id}`}
+                          />
+                        )}
+                        {staffMember.id !== user?.id && (
+                          <DeactivateButton
+                            name={staffMember.name}
+                            onConfirm={() => activeMutation.mutate({ memberId: staffMember.id, isActive: false })}
+                            testId={`button-deactivate-${staffMember.id}`}
+                          />
+                        )}
+                        {staffMember.id !== user?.id && (
+                          <ForcePasswordResetButton
+                            name={staffMember.name}
+                            onConfirm={() => forcePasswordResetMutation.mutate(staffMember.id)}
+                            testId={`button-reset-password-${staffMember.id}`}
+                          />
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -535,6 +778,7 @@ export default function StaffManagement() {
                   <TableHead>Position</TableHead>
                   <TableHead>Also Teacher</TableHead>
                   <TableHead>Hire Date</TableHead>
+                  <TableHead>Permissions</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -543,7 +787,18 @@ export default function StaffManagement() {
                   <TableRow key={managementMember.id}>
                     <TableCell>
                       <div className="space-y-1">
-                        <div className="font-medium">{managementMember.name}</div>
+                        <div className="font-medium flex items-center gap-2">
+                          {managementMember.name}
+                          {isLocked(managementMember) && (
+                            <Badge variant="outline" className="text-red-700 border-red-300">Locked</Badge>
+                          )}
+                          {managementMember.mustChangePassword && (
+                            <Badge variant="outline" className="text-amber-700 border-amber-300">Password change pending</Badge>
+                          )}
+                          {managementMember.twoFactorEnabled && (
+                            <Badge variant="outline" className="text-green-700 border-green-300">2FA</Badge>
+                          )}
+                        </div>
                         <div className="flex items-center gap-2 text-sm text-gray-500">
                           <Mail className="h-4 w-4 text-gray-500" />
                           {managementMember.email}
@@ -573,6 +828,14 @@ export default function StaffManagement() {
                     <TableCell className="text-gray-500">
                       {managementMember.hireDate ? new Date(managementMember.hireDate).toLocaleDateString() : 'Not set'}
                     </TableCell>
+                    <TableCell>
+                      <CustomRoleSelect
+                        member={managementMember}
+                        roles={roles}
+                        onChange={(roleId) => customRoleMutation.mutate({ memberId: managementMember.id, roleId })}
+                        disabled={customRoleMutation.isPending || managementMember.id === user?.id}
+                      />
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button
@@ -583,6 +846,39 @@ export default function StaffManagement() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {isLocked(managementMember) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Unlock sign-in"
+                            onClick={() => unlockMutation.mutate(managementMember.id)}
+                            disabled={unlockMutation.isPending}
+                            data-testid={`button-unlock-${managementMember.id}`}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {managementMember.twoFactorEnabled && managementMember.id !== user?.id && (
+                          <ResetTwoFactorButton
+                            name={managementMember.name}
+                            onConfirm={() => resetTwoFactorMutation.mutate(managementMember.id)}
+                            testId={`button-reset-two-factor-${managementMember.id}`}
+                          />
+                        )}
+                        {managementMember.id !== user?.id && (
+                          <DeactivateButton
+                            name={managementMember.name}
+                            onConfirm={() => activeMutation.mutate({ memberId: managementMember.id, isActive: false })}
+                            testId={`button-deactivate-${managementMember.id}`}
+                          />
+                        )}
+                        {managementMember.id !== user?.id && (
+                          <ForcePasswordResetButton
+                            name={managementMember.name}
+                            onConfirm={() => forcePasswordResetMutation.mutate(managementMember.id)}
+                            testId={`button-reset-password-${managementMember.id}`}
+                          />
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -622,6 +918,61 @@ export default function StaffManagement() {
         </CardContent>
       </Card>
 
+      {deactivatedMembers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserX className="h-5 w-5" />
+              Deactivated Accounts
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              These members cannot sign in. Their records are kept.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deactivatedMembers.map((member) => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{member.name}</TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell className="capitalize">{member.role}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => activeMutation.mutate({ memberId: member.id, isActive: true })}
+                        disabled={activeMutation.isPending}
+                        data-testid={`button-reactivate-${member.id}`}
+                      >
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        Reactivate
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PasswordPolicyCard />
+
+      <TwoFactorPolicyCard />
+
+      <SessionTimeoutCard />
+
+      <AttendanceCutoffCard />
+
       {/* Add Teacher Modal */}
       <AddTeacherModal 
         open={addTeacherModalOpen} 
@@ -662,4 +1013,103 @@ export default function StaffManagement() {
       />
     </div>
   );
-}
\ No newline at end of file
+}
+
+function ForcePasswordResetButton({ name, onConfirm, testId }: { name: string; onConfirm: () => void; testId: string }) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Force password reset" data-testid={testId}>
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Force Password Reset</AlertDialogTitle>
+          <AlertDialogDescription>
+            {name} will be signed out of every device and given a new temporary password. They must choose their own password the next time they sign in.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Reset Password</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function DeactivateButton({ name, onConfirm, testId }: { name: string; onConfirm: () => void; testId: string }) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Deactivate account" data-testid={testId}>
+          <UserX className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Deactivate Account</AlertDialogTitle>
+          <AlertDialogDescription>
+            {name} will be signed out of every device and won't be able to sign in until reactivated. Their records are kept.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Deactivate</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function ResetTwoFactorButton({ name, onConfirm, testId }: { name: string; onConfirm: () => void; testId: string }) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Reset two-factor authentication" data-testid={testId}>
+          <Smartphone className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+          <AlertDialogDescription>
+            {name}'s authenticator app and recovery codes will stop working. Use this when they have lost their phone; if their role requires two-factor sign-in they will set it up again next time they sign in.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Reset</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+const BASE_ROLE_DEFAULTS = 'base-role';
+
+function CustomRoleSelect({ member, roles, onChange, disabled }: {
+  member: Staff;
+  roles: CustomRole[];
+  onChange: (roleId: string | null) => void;
+  disabled: boolean;
+}) {
+  return (
+    <Select
+      value={member.customRoleId ?? BASE_ROLE_DEFAULTS}
+      onValueChange={(value) => onChange(value === BASE_ROLE_DEFAULTS ? null : value)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-40" data-testid={`select-custom-role-${member.id}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BASE_ROLE_DEFAULTS}>Role defaults</SelectItem>
+        {roles.map((role) => (
+          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
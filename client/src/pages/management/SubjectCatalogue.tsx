@@ -0,0 +1,438 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Subject, SubjectFeeVersion } from "@shared/schema";
+
+type CatalogueSubject = Subject & {
+  feeHistory: SubjectFeeVersion[];
+  upcomingFee: SubjectFeeVersion | null;
+  activeStudents: number;
+};
+
+interface SubjectDependants {
+  activeStudents: number;
+  schedules: number;
+  teachers: { id: string; name: string }[];
+  combos: { id: string; name: string }[];
+}
+
+const classLevelOptions = [
+  { value: 'o-level', label: 'O-Level' },
+  { value: 'igcse', label: 'IGCSE' },
+  { value: 'as-level', label: 'AS-Level' },
+  { value: 'a2-level', label: 'A2-Level' },
+];
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptySubject = { name: "", code: "", classLevels: [] as string[], baseFee: "", description: "" };
+
+export default function SubjectCatalogue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [classLevel, setClassLevel] = useState('all');
+  const [editing, setEditing] = useState<{ id: string | null } | null>(null);
+  const [form, setForm] = useState(emptySubject);
+  const [repricing, setRepricing] = useState<CatalogueSubject | null>(null);
+  const [feeForm, setFeeForm] = useState({ baseFee: "", effectiveFrom: today(), reason: "" });
+  const [archiving, setArchiving] = useState<{ subject: CatalogueSubject; dependants: SubjectDependants } | null>(null);
+
+  const { data: catalogue = [], isLoading } = useQuery<CatalogueSubject[]>({
+    queryKey: ['/api/subjects/catalogue', classLevel],
+    queryFn: async () => {
+      const qs = classLevel === 'all' ? '?all=true' : `?all=true&classLevel=${classLevel}`;
+      const res = await fetch(`/api/subjects/catalogue${qs}`, { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/subjects/catalogue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/subjects'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => editing?.id
+      ? apiRequest('PUT', `/api/subjects/${editing.id}`, form)
+      : apiRequest('POST', '/api/subjects', { ...form, baseFee: Number(form.baseFee) }),
+    onSuccess: () => {
+      toast({ title: "Subject saved" });
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const feeMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/subjects/${repricing!.id}/fees`, { ...feeForm, baseFee: Number(feeForm.baseFee) }),
+    onSuccess: () => {
+      const immediate = feeForm.effectiveFrom <= today();
+      toast({
+        title: immediate ? "Fee updated" : "Fee change scheduled",
+        description: immediate ? undefined : `Rs. ${Number(feeForm.baseFee).toLocaleString()} from ${feeForm.effectiveFrom}. Earlier periods keep the current fee.`,
+      });
+      setRepricing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const cancelFeeMutation = useMutation({
+    mutationFn: async ({ subjectId, versionId }: { subjectId: string; versionId: string }) =>
+      apiRequest('DELETE', `/api/subjects/${subjectId}/fees/${versionId}`),
+    onSuccess: () => {
+      toast({ title: "Fee change cancelled" });
+      setRepricing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest('POST', `/api/subjects/${id}/active`, { isActive, confirm: true }),
+    onSuccess: (_res, { isActive }) => {
+      toast({ title: isActive ? "Subject restored" : "Subject archived" });
+      setArchiving(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const openEditor = (subject?: CatalogueSubject) => {
+    setForm(subject ? {
+      name: subject.name,
+      code: subject.code,
+      classLevels: subject.classLevels,
+      baseFee: String(Number(subject.baseFee)),
+      description: subject.description || "",
+    } : emptySubject);
+    setEditing({ id: subject?.id ?? null });
+  };
+
+  const openReprice = (subject: CatalogueSubject) => {
+    setFeeForm({ baseFee: String(Number(subject.baseFee)), effectiveFrom: today(), reason: "" });
+    setRepricing(subject);
+  };
+
+  // Archiving shows what still uses the subject before anything changes
+  const startArchive = async (subject: CatalogueSubject) => {
+    try {
+      const res = await apiRequest('GET', `/api/subjects/${subject.id}/dependants`);
+      setArchiving({ subject, dependants: await res.json() });
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const levelLabel = (level: string) => classLevelOptions.find((o) => o.value === level)?.label || level;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Subjects</CardTitle>
+            <div className="flex gap-2">
+              <Select value={classLevel} onValueChange={setClassLevel}>
+                <SelectTrigger className="w-40" data-testid="select-class-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All levels</SelectItem>
+                  {classLevelOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={() => openEditor()} data-testid="button-new-subject">
+                <i className="fas fa-plus mr-2"></i>
+                New Subject
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            Fee changes take effect from their effective date. Invoices for earlier months keep the fee they were billed at.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : catalogue.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No subjects yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Class levels</TableHead>
+                  <TableHead className="text-right">Monthly fee</TableHead>
+                  <TableHead className="text-right">Students</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {catalogue.map((subject) => (
+                  <TableRow key={subject.id} className={subject.isActive ? undefined : "opacity-60"} data-testid={`row-subject-${subject.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{subject.name}</div>
+                      <div className="text-xs text-gray-500">{subject.code}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {subject.classLevels.map((level) => (
+                          <Badge key={level} variant="secondary" className="text-xs">{levelLabel(level)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div>{rs(subject.baseFee)}</div>
+                      {subject.upcomingFee && (
+                        <div className="text-xs text-blue-600">
+                          {rs(subject.upcomingFee.baseFee)} from {subject.upcomingFee.effectiveFrom}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{subject.activeStudents}</TableCell>
+                    <TableCell>
+                      {subject.isActive
+                        ? <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        : <Badge variant="outline">Archived</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button size="sm" variant="outline" onClick={() => openEditor(subject)}>Edit</Button>
+                      <Button size="sm" variant="outline" onClick={() => openReprice(subject)}>Change fee</Button>
+                      {subject.isActive ? (
+                        <Button size="sm" variant="outline" onClick={() => startArchive(subject)}>Archive</Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => activeMutation.mutate({ id: subject.id, isActive: true })}
+                          disabled={activeMutation.isPending}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit Subject' : 'New Subject'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="subject-name">Name</Label>
+                <Input id="subject-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="subject-code">Code</Label>
+                <Input id="subject-code" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label>Class levels</Label>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {classLevelOptions.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.classLevels.includes(option.value)}
+                      onCheckedChange={(checked) => setForm({
+                        ...form,
+                        classLevels: checked
+                          ? Array.from(new Set([...form.classLevels, option.value]))
+                          : form.classLevels.filter((l) => l !== option.value),
+                      })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {!editing?.id && (
+              <div>
+                <Label htmlFor="subject-fee">Monthly fee (Rs.)</Label>
+                <Input
+                  id="subject-fee"
+                  type="number"
+                  value={form.baseFee}
+                  onChange={(e) => setForm({ ...form, baseFee: e.target.value })}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="subject-description">Description</Label>
+              <Textarea
+                id="subject-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-subject">
+                {saveMutation.isPending ? "Saving..." : "Save Subject"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!repricing} onOpenChange={(open) => !open && setRepricing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Change fee: {repricing?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="fee-amount">New monthly fee (Rs.)</Label>
+                <Input
+                  id="fee-amount"
+                  type="number"
+                  value={feeForm.baseFee}
+                  onChange={(e) => setFeeForm({ ...feeForm, baseFee: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee-effective">Effective from</Label>
+                <Input
+                  id="fee-effective"
+                  type="date"
+                  min={today()}
+                  value={feeForm.effectiveFrom}
+                  onChange={(e) => setFeeForm({ ...feeForm, effectiveFrom: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="fee-reason">Reason</Label>
+              <Input
+                id="fee-reason"
+                value={feeForm.reason}
+                onChange={(e) => setFeeForm({ ...feeForm, reason: e.target.value })}
+                placeholder="e.g. Annual fee revision"
+              />
+            </div>
+
+            {repricing && repricing.feeHistory.length > 0 && (
+              <div>
+                <Label>Fee history</Label>
+                <div className="border rounded mt-2 divide-y text-sm">
+                  {[...repricing.feeHistory].reverse().map((version) => (
+                    <div key={version.id} className="flex items-center justify-between p-2">
+                      <div>
+                        <span className="font-medium">{rs(version.baseFee)}</span>
+                        <span className="text-gray-500"> from {version.effectiveFrom}</span>
+                        {version.reason && <span className="text-gray-500"> - {version.reason}</span>}
+                      </div>
+                      {version.effectiveFrom > today() && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelFeeMutation.mutate({ subjectId: repricing.id, versionId: version.id })}
+                          disabled={cancelFeeMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setRepricing(null)}>Close</Button>
+              <Button onClick={() => feeMutation.mutate()} disabled={feeMutation.isPending} data-testid="button-save-fee">
+                {feeMutation.isPending ? "Saving..." : "Save Fee"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!archiving} onOpenChange={(open) => !open && setArchiving(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Archive {archiving?.subject.name}?</DialogTitle>
+          </DialogHeader>
+          {archiving && (
+            <div className="space-y-4 text-sm">
+              <p className="text-gray-600">
+                Archived subjects are no longer offered for new enrollments. Existing enrollments, schedules and teacher assignments are left as they are.
+              </p>
+              {archiving.dependants.activeStudents > 0 || archiving.dependants.schedules > 0 ||
+                archiving.dependants.teachers.length > 0 || archiving.dependants.combos.length > 0 ? (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded space-y-1 text-amber-800">
+                  <div className="font-medium">This subject is still in use:</div>
+                  {archiving.dependants.activeStudents > 0 && <div>{archiving.dependants.activeStudents} student(s) actively enrolled</div>}
+                  {archiving.dependants.schedules > 0 && <div>{archiving.dependants.schedules} active class schedule(s)</div>}
+                  {archiving.dependants.teachers.length > 0 && (
+                    <div>Taught by {archiving.dependants.teachers.map((t) => t.name).join(', ')}</div>
+                  )}
+                  {archiving.dependants.combos.length > 0 && (
+                    <div>Part of combo(s) {archiving.dependants.combos.map((c) => c.name).join(', ')}</div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-600">Nothing depends on this subject.</p>
+              )}
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button variant="outline" onClick={() => setArchiving(null)}>Cancel</Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => activeMutation.mutate({ id: archiving.subject.id, isActive: false })}
+                  disabled={activeMutation.isPending}
+                  data-testid="button-confirm-archive"
+                >
+                  Archive Subject
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
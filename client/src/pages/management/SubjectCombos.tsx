@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ComboSubject {
+  id: string;
+  name: string;
+  code: string;
+  baseFee: string;
+}
+
+interface SubjectCombo {
+  id: string;
+  name: string;
+  classLevels: string[];
+  discountedFee: string;
+  description: string | null;
+  revenueSplit: 'base_fee' | 'equal';
+  isActive: boolean;
+  subjects: ComboSubject[];
+  individualTotal: number;
+  activeStudents: number;
+}
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+  classLevels: string[];
+  baseFee: string;
+}
+
+const classLevelOptions = [
+  { value: 'o-level', label: 'O-Level' },
+  { value: 'igcse', label: 'IGCSE' },
+  { value: 'as-level', label: 'AS-Level' },
+  { value: 'a2-level', label: 'A2-Level' },
+];
+
+const SPLIT_LABELS = {
+  base_fee: 'In proportion to subject fees',
+  equal: 'Equally between subjects',
+};
+
+const rs = (v: string | number | null | undefined) => `Rs. ${Number(v || 0).toLocaleString()}`;
+
+const emptyCombo = {
+  name: "",
+  classLevels: [] as string[],
+  discountedFee: "",
+  description: "",
+  revenueSplit: 'base_fee' as 'base_fee' | 'equal',
+  subjectIds: [] as string[],
+};
+
+export default function SubjectCombos() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialog, setDialog] = useState<{ id: string | null; locked: boolean } | null>(null);
+  const [form, setForm] = useState(emptyCombo);
+
+  const { data: combos = [], isLoading } = useQuery<SubjectCombo[]>({
+    queryKey: ['/api/subject-combos', 'all'],
+    queryFn: async () => {
+      const res = await fetch('/api/subject-combos?all=true', { credentials: 'include' });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+  const { data: subjects = [] } = useQuery<Subject[]>({ queryKey: ['/api/subjects'] });
+
+  const eligibleSubjects = subjects.filter((s) =>
+    form.classLevels.length > 0 && form.classLevels.every((level) => s.classLevels?.includes(level))
+  );
+  const individualTotal = subjects
+    .filter((s) => form.subjectIds.includes(s.id))
+    .reduce((sum, s) => sum + Number(s.baseFee), 0);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/subject-combos'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...form, discountedFee: Number(form.discountedFee) };
+      return dialog?.id
+        ? apiRequest('PUT', `/api/subject-combos/${dialog.id}`, body)
+        : apiRequest('POST', '/api/subject-combos', body);
+    },
+    onSuccess: () => {
+      toast({ title: "Combo saved" });
+      setDialog(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest('POST', `/api/subject-combos/${id}/active`, { isActive }),
+    onSuccess: (_res, { isActive }) => {
+      toast({
+        title: isActive ? "Combo offered again" : "Combo withdrawn",
+        description: isActive ? undefined : "Students already enrolled keep it.",
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const openDialog = (combo?: SubjectCombo) => {
+    setForm(combo ? {
+      name: combo.name,
+      classLevels: combo.classLevels,
+      discountedFee: String(Number(combo.discountedFee)),
+      description: combo.description || "",
+      revenueSplit: combo.revenueSplit || 'base_fee',
+      subjectIds: combo.subjects.map((s) => s.id),
+    } : emptyCombo);
+    setDialog({ id: combo?.id ?? null, locked: (combo?.activeStudents ?? 0) > 0 });
+  };
+
+  const toggle = (list: string[], value: string, on: boolean) =>
+    on ? Array.from(new Set([...list, value])) : list.filter((v) => v !== value);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Subject Combos</CardTitle>
+            <Button onClick={() => openDialog()} data-testid="button-new-combo">
+              <i className="fas fa-plus mr-2"></i>
+              New Combo
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600 mt-2">
+            A combo bills its subjects at one monthly fee. Teacher payouts split the combo fee back across its subjects.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+          ) : combos.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No combos yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {combos.map((combo) => (
+                <div key={combo.id} className={`p-4 border rounded-lg ${combo.isActive ? '' : 'opacity-60'}`} data-testid={`card-combo-${combo.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">{combo.name}</div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {combo.classLevels.map((level) => (
+                          <Badge key={level} variant="secondary" className="text-xs">
+                            {classLevelOptions.find((o) => o.value === level)?.label || level}
+                          </Badge>
+                        ))}
+                        {!combo.isActive && <Badge variant="outline" className="text-xs">Withdrawn</Badge>}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-lg font-semibold text-green-600">{rs(combo.discountedFee)}/month</div>
+                      <div className="text-xs text-gray-500 line-through">{rs(combo.individualTotal)}</div>
+                    </div>
+                  </div>
+                  <div className="text-sm text-gray-700 mt-3">
+                    {combo.subjects.map((s) => s.name).join(', ')}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Payout split: {SPLIT_LABELS[combo.revenueSplit] || combo.revenueSplit} - {combo.activeStudents} student(s) enrolled
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(combo)}>Edit</Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => activeMutation.mutate({ id: combo.id, isActive: !combo.isActive })}
+                      disabled={activeMutation.isPending}
+                    >
+                      {combo.isActive ? 'Withdraw' : 'Offer again'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dialog?.id ? 'Edit Combo' : 'New Combo'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="combo-name">Name</Label>
+              <Input
+                id="combo-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Pre-Medical"
+              />
+            </div>
+
+            <div>
+              <Label>Class levels</Label>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {classLevelOptions.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.classLevels.includes(option.value)}
+                      disabled={dialog?.locked}
+                      onCheckedChange={(checked) => setForm({
+                        ...form,
+                        classLevels: toggle(form.classLevels, option.value, !!checked),
+                      })}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label>Subjects</Label>
+              {dialog?.locked && (
+                <p className="text-xs text-amber-700 mt-1">Students are enrolled in this combo, so its subjects cannot change.</p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                {eligibleSubjects.map((subject) => (
+                  <label key={subject.id} className="flex items-center justify-between p-2 border rounded text-sm">
+                    <span className="flex items-center gap-2">
+                      <Checkbox
+                        checked={form.subjectIds.includes(subject.id)}
+                        disabled={dialog?.locked}
+                        onCheckedChange={(checked) => setForm({
+                          ...form,
+                          subjectIds: toggle(form.subjectIds, subject.id, !!checked),
+                        })}
+                      />
+                      {subject.name}
+                    </span>
+                    <span className="text-gray-500">{rs(subject.baseFee)}</span>
+                  </label>
+                ))}
+              </div>
+              {form.classLevels.length > 0 && eligibleSubjects.length === 0 && (
+                <p className="text-sm text-gray-500 mt-2">No subject is offered at every selected level.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="combo-fee">Combo fee (Rs./month)</Label>
+                <Input
+                  id="combo-fee"
+                  type="number"
+                  value={form.discountedFee}
+                  onChange={(e) => setForm({ ...form, discountedFee: e.target.value })}
+                />
+                {individualTotal > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Individually: {rs(individualTotal)}</p>
+                )}
+              </div>
+              <div>
+                <Label>Teacher payout split</Label>
+                <Select
+                  value={form.revenueSplit}
+                  onValueChange={(v) => setForm({ ...form, revenueSplit: v as 'base_fee' | 'equal' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="base_fee">{SPLIT_LABELS.base_fee}</SelectItem>
+                    <SelectItem value="equal">{SPLIT_LABELS.equal}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="combo-description">Description</Label>
+              <Textarea
+                id="combo-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-combo">
+                {saveMutation.isPending ? "Saving..." : "Save Combo"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 
 interface Teacher {
   id: string;
@@ -19,69 +25,58 @@ interface Teacher {
 
 export default function TeacherImpersonation() {
   const [selectedTeacher, setSelectedTeacher] = useState<string>("");
-  const [isImpersonating, setIsImpersonating] = useState(false);
+  const [allowWrites, setAllowWrites] = useState(false);
+  const [justification, setJustification] = useState("");
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const { data: teachers, isLoading } = useQuery({
     queryKey: ["/api/staff"],
-    select: (data: Teacher[]) => data.filter(staff => staff.isTeacher)
+    select: (data: Teacher[]) => data.filter(staff => staff.isTeacher && staff.id !== user?.id)
   });
 
-  const handleImpersonate = (teacherId: string) => {
-    const teacher = teachers?.find(t => t.id === teacherId);
-    if (!teacher) return;
-
-    // Set special session flag for impersonation mode
-    sessionStorage.setItem('impersonatingTeacher', JSON.stringify({
-      teacherId: teacher.id,
-      teacherName: `${teacher.firstName} ${teacher.lastName}`,
-      originalRole: 'management'
-    }));
-
-    // Navigate to teacher dashboard in read-only mode
-    window.location.href = '/teacher-view-readonly';
-    
-    toast({
-      title: "Teacher Impersonation Started",
-      description: `Now viewing as ${teacher.firstName} ${teacher.lastName}`,
-    });
-  };
-
-  const stopImpersonation = () => {
-    sessionStorage.removeItem('impersonatingTeacher');
-    setIsImpersonating(false);
-    window.location.href = '/dashboard';
-    
-    toast({
-      title: "Impersonation Ended",
-      description: "Returned to Management Dashboard",
-    });
-  };
+  // The server starts a time-boxed impersonation and audits it (server/impersonation.ts)
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/impersonation', {
+        teacherId: selectedTeacher,
+        allowWrites,
+        justification: allowWrites ? justification : undefined,
+      });
+      return response.json() as Promise<{ teacherName: string }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Teacher Impersonation Started",
+        description: `Now viewing as ${data.teacherName}`,
+      });
+      // Navigate to the teacher dashboard as this teacher
+      window.location.href = '/teacher-view-readonly';
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start impersonation",
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Check if currently impersonating
-  const impersonationData = sessionStorage.getItem('impersonatingTeacher');
-  const currentImpersonation = impersonationData ? JSON.parse(impersonationData) : null;
+  const currentImpersonation = user?.impersonation;
 
   if (currentImpersonation) {
     return (
       <div className="p-6 max-w-4xl mx-auto">
-        <Alert className="mb-6 border-orange-200 bg-orange-50">
-          <AlertDescription className="flex items-center justify-between">
-            <div>
-              <strong>Currently impersonating:</strong> {currentImpersonation.teacherName}
-              <br />
-              <span className="text-sm text-gray-600">You are viewing the system as this teacher (read-only mode)</span>
-            </div>
-            <Button onClick={stopImpersonation} variant="outline" size="sm">
-              End Impersonation
-            </Button>
-          </AlertDescription>
-        </Alert>
+        <div className="mb-6">
+          <ImpersonationBanner />
+        </div>
 
         <div className="text-center py-12">
           <h2 className="text-2xl font-bold text-gray-900 mb-4">Teacher Dashboard View</h2>
-          <p className="text-gray-600 mb-6">This would show the teacher's dashboard in read-only mode</p>
-          <Badge variant="secondary">Read-Only Mode Active</Badge>
+          <p className="text-gray-600 mb-6">You are still viewing the system as {currentImpersonation.teacherName}.</p>
+          <Button onClick={() => { window.location.href = '/teacher-view-readonly'; }}>
+            Open Teacher Dashboard
+          </Button>
         </div>
       </div>
     );
@@ -143,18 +138,45 @@ export default function TeacherImpersonation() {
                     <h3 className="font-medium text-blue-900 mb-2">Impersonation Details</h3>
                     <ul className="text-sm text-blue-800 space-y-1">
                       <li>• You will see the Teacher Dashboard exactly as this teacher sees it</li>
-                      <li>• Access is read-only - you cannot make any changes</li>
-                      <li>• This session will be logged for audit purposes</li>
+                      <li>• Access is read-only unless you allow changes below</li>
+                      <li>• The session ends by itself after 30 minutes</li>
+                      <li>• Starting, stopping and any change you make are recorded in the audit log</li>
                       <li>• Click "End Impersonation" to return to your dashboard</li>
                     </ul>
                   </div>
                 )}
+
+                {selectedTeacher && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="impersonation-allow-writes"
+                        checked={allowWrites}
+                        onCheckedChange={setAllowWrites}
+                        data-testid="switch-impersonation-writes"
+                      />
+                      <Label htmlFor="impersonation-allow-writes">Allow changes (e.g. fix attendance on the teacher's behalf)</Label>
+                    </div>
+                    {allowWrites && (
+                      <div>
+                        <Label htmlFor="impersonation-justification">Reason for making changes</Label>
+                        <Textarea
+                          id="impersonation-justification"
+                          value={justification}
+                          onChange={(e) => setJustification(e.target.value)}
+                          placeholder="Recorded with every change you make"
+                          data-testid="input-impersonation-justification"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-end pt-4">
                 <Button
-                  onClick={() => handleImpersonate(selectedTeacher)}
-                  disabled={!selectedTeacher}
+                  onClick={() => startMutation.mutate()}
+                  disabled={!selectedTeacher || startMutation.isPending}
                   className="bg-blue-600 hover:bg-blue-700"
                 >
                   <i className="fas fa-eye mr-2"></i>
@@ -4,6 +4,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Attendance, Student } from "@shared/schema";
+import { attendanceRate, isExcused } from "@shared/attendance";
+import { ATTENDANCE_STATUS_STYLES } from "@/lib/attendance";
+import type { AttendanceSummary } from "@/types";
 
 export default function AttendanceCalendar() {
   const [selectedChild, setSelectedChild] = useState("");
@@ -11,7 +14,7 @@ export default function AttendanceCalendar() {
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
 
   const { data: children } = useQuery<Student[]>({
-    queryKey: ['/api/students'], // In real implementation, filter by parent ID
+    queryKey: ['/api/students'], // Scoped server-side to the signed-in parent's children
   });
 
   const { data: attendanceData } = useQuery<Attendance[]>({
@@ -19,6 +22,12 @@ export default function AttendanceCalendar() {
     enabled: !!selectedChild,
   });
 
+  // Carries the school's rule for counting excused absences
+  const { data: attendanceSummary } = useQuery<AttendanceSummary>({
+    queryKey: ['/api/students', selectedChild, 'attendance'],
+    enabled: !!selectedChild,
+  });
+
   const selectedChildData = children?.find(child => child.id === selectedChild);
 
   // Generate calendar days for the selected month
@@ -55,18 +64,12 @@ export default function AttendanceCalendar() {
   };
 
   const getStatusColor = (status: string | null) => {
-    switch (status) {
-      case 'present':
-        return 'bg-green-500 text-white';
-      case 'absent':
-        return 'bg-red-500 text-white';
-      case 'late':
-        return 'bg-yellow-500 text-white';
-      default:
-        // Weekend or holiday
-        const dayOfWeek = new Date(selectedYear, selectedMonth, parseInt(status || '1')).getDay();
-        return dayOfWeek === 0 || dayOfWeek === 6 ? 'bg-gray-200 text-gray-600' : 'bg-gray-100 text-gray-800';
+    if (status && status in ATTENDANCE_STATUS_STYLES) {
+      return `${ATTENDANCE_STATUS_STYLES[status as keyof typeof ATTENDANCE_STATUS_STYLES].day} text-white`;
     }
+    // Weekend or holiday
+    const dayOfWeek = new Date(selectedYear, selectedMonth, parseInt(status || '1')).getDay();
+    return dayOfWeek === 0 || dayOfWeek === 6 ? 'bg-gray-200 text-gray-600' : 'bg-gray-100 text-gray-800';
   };
 
   const isToday = (day: number) => {
@@ -94,8 +97,11 @@ export default function AttendanceCalendar() {
   const presentCount = thisMonthAttendance.filter(a => a.status === 'present').length;
   const absentCount = thisMonthAttendance.filter(a => a.status === 'absent').length;
   const lateCount = thisMonthAttendance.filter(a => a.status === 'late').length;
-  const totalDays = thisMonthAttendance.length;
-  const attendancePercentage = totalDays > 0 ? (presentCount / totalDays) * 100 : 0;
+  const excusedCount = thisMonthAttendance.filter(a => isExcused(a.status)).length;
+  const attendancePercentage = attendanceRate(
+    thisMonthAttendance.map(a => a.status),
+    attendanceSummary?.excusedAbsences,
+  ).percentage;
 
   return (
     <div className="space-y-6">
@@ -167,7 +173,7 @@ export default function AttendanceCalendar() {
       {selectedChild && (
         <>
           {/* Attendance Statistics */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <Card>
               <CardContent className="pt-6">
                 <div className="text-center">
@@ -201,11 +207,22 @@ export default function AttendanceCalendar() {
               </CardContent>
             </Card>
             
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-purple-600" data-testid="stat-excused">
+                    {excusedCount}
+                  </p>
+                  <p className="text-sm text-gray-600">Excused / Leave</p>
+                </div>
+              </CardContent>
+            </Card>
+            
             <Card>
               <CardContent className="pt-6">
                 <div className="text-center">
                   <p className="text-2xl font-bold text-blue-600" data-testid="stat-percentage">
-                    {attendancePercentage.toFixed(0)}%
+                    {attendancePercentage}%
                   </p>
                   <p className="text-sm text-gray-600">Attendance</p>
                 </div>
@@ -256,19 +273,13 @@ export default function AttendanceCalendar() {
               </div>
               
               {/* Legend */}
-              <div className="flex items-center justify-center space-x-6 mt-6 text-xs">
-                <div className="flex items-center">
-                  <div className="w-3 h-3 bg-green-500 rounded-full mr-2"></div>
-                  <span className="text-gray-600">Present</span>
-                </div>
-                <div className="flex items-center">
-                  <div className="w-3 h-3 bg-red-500 rounded-full mr-2"></div>
-                  <span className="text-gray-600">Absent</span>
-                </div>
-                <div className="flex items-center">
-                  <div className="w-3 h-3 bg-yellow-500 rounded-full mr-2"></div>
-                  <span className="text-gray-600">Late</span>
-                </div>
+              <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 mt-6 text-xs">
+                {Object.values(ATTENDANCE_STATUS_STYLES).map(({ label, day }) => (
+                  <div key={label} className="flex items-center">
+                    <div className={`w-3 h-3 ${day} rounded-full mr-2`}></div>
+                    <span className="text-gray-600">{label}</span>
+                  </div>
+                ))}
                 <div className="flex items-center">
                   <div className="w-3 h-3 bg-blue-500 rounded-full mr-2"></div>
                   <span className="text-gray-600">Today</span>
@@ -11,7 +11,7 @@ export default function Grades() {
   const [selectedSubject, setSelectedSubject] = useState("all");
 
   const { data: children } = useQuery<any[]>({
-    queryKey: ['/api/students'], // In real implementation, filter by parent ID
+    queryKey: ['/api/students'], // Scoped server-side to the signed-in parent's children
   });
 
   const { data: grades } = useQuery<any[]>({
@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import type { Student } from "@shared/schema";
+import StudentPortal from "@/pages/StudentPortal";
+import ChildSwitcher from "@/components/ChildSwitcher";
+
+// Dashboard for signed-in parents: the student portal for each of their children
+export default function ParentHome() {
+  const [selectedChild, setSelectedChild] = useState<string | null>(null);
+
+  const { data: children = [], isLoading } = useQuery<Student[]>({
+    queryKey: ['/api/students'], // Scoped server-side to the signed-in parent's children
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (children.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center max-w-sm">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-medium text-gray-900 mb-2">No children linked yet</h1>
+          <p className="text-gray-600 text-sm">
+            Your account isn't linked to a student. Please contact the school office.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const studentId = selectedChild ?? children[0].id;
+
+  return (
+    <>
+      <ChildSwitcher children={children} selectedId={studentId} onSelect={setSelectedChild} />
+      <StudentPortal key={studentId} studentId={studentId} />
+    </>
+  );
+}
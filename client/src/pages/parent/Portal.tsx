@@ -11,7 +11,7 @@ export default function ParentPortal() {
   const [selectedChild, setSelectedChild] = useState("");
 
   const { data: children, isLoading } = useQuery<any[]>({
-    queryKey: ['/api/students'], // In real implementation, this would filter by parent ID
+    queryKey: ['/api/students'], // Scoped server-side to the signed-in parent's children
   });
 
   const selectedChildData = children?.find(child => child.id === selectedChild);
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -9,6 +10,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Check, X, Clock, QrCode, Users, Calendar } from "lucide-react";
 import QrScanner from "qr-scanner";
+import type { AttendanceHistory, ClassSession } from "@/types";
+import { EXCUSED_STATUSES, isExcused, type AttendanceStatus } from "@shared/attendance";
+import { ATTENDANCE_STATUS_STYLES, attendanceStatusStyle } from "@/lib/attendance";
 
 interface Student {
   id: string;
@@ -20,12 +24,17 @@ interface Student {
 
 interface AttendanceRecord {
   studentId: string;
-  status: 'present' | 'absent' | 'late';
+  status: AttendanceStatus;
+  minutesLate?: number | null;
 }
 
+const formatDeadline = (deadline: string) =>
+  new Date(deadline).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
 export default function Attendance() {
   const [selectedClass, setSelectedClass] = useState("");
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+  const [reason, setReason] = useState("");
   const [attendanceMethod, setAttendanceMethod] = useState<'tap' | 'qr'>('tap');
   const [isScanning, setIsScanning] = useState(false);
   const [qrScanner, setQrScanner] = useState<QrScanner | null>(null);
@@ -33,61 +42,84 @@ export default function Attendance() {
   const queryClient = useQueryClient();
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  const { data: todayClasses } = useQuery<any[]>({
+  const { data: todaySessions } = useQuery<ClassSession[]>({
     queryKey: ['/api/teacher/classes/today'],
   });
+  const todayClasses = todaySessions?.filter(session => session.status !== 'cancelled');
 
   const { data: students, isLoading: studentsLoading } = useQuery<Student[]>({
-    queryKey: ['/api/classes', selectedClass, 'students'],
+    queryKey: ['/api/class-sessions', selectedClass, 'students'],
+    enabled: !!selectedClass,
+  });
+
+  // The register as already saved, and whether it can still be changed
+  const { data: savedRecords } = useQuery<AttendanceRecord[]>({
+    queryKey: ['/api/class-sessions', selectedClass, 'attendance'],
+    enabled: !!selectedClass,
+  });
+  const { data: history } = useQuery<AttendanceHistory>({
+    queryKey: ['/api/class-sessions', selectedClass, 'attendance', 'history'],
     enabled: !!selectedClass,
   });
 
+  useEffect(() => {
+    setAttendanceRecords((savedRecords || []).map(({ studentId, status, minutesLate }) => ({ studentId, status, minutesLate })));
+    setReason("");
+  }, [selectedClass, savedRecords]);
+
+  const isSaved = (savedRecords?.length || 0) > 0;
+  const changedCount = attendanceRecords.filter(record => {
+    const saved = savedRecords?.find(r => r.studentId === record.studentId);
+    return saved && saved.status !== record.status;
+  }).length;
+  const canAmend = history?.canAmend ?? true;
+  // Past the cut-off staff may still add marks, just not change saved ones
+  const markLocked = (studentId: string) => !canAmend && !!savedRecords?.some(r => r.studentId === studentId);
+
   const submitAttendanceMutation = useMutation({
     mutationFn: async () => {
-      const promises = attendanceRecords.map(record => 
-        apiRequest('POST', '/api/attendance', {
-          classId: selectedClass,
-          studentId: record.studentId,
-          attendanceDate: new Date().toISOString().split('T')[0],
-          status: record.status,
-        })
-      );
-      return Promise.all(promises);
+      return apiRequest('PUT', `/api/class-sessions/${selectedClass}/attendance`, {
+        records: attendanceRecords,
+        reason: changedCount > 0 ? reason : undefined,
+      });
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: "Attendance submitted successfully!",
+        description: isSaved ? "Attendance updated." : "Attendance submitted successfully!",
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/class-sessions', selectedClass, 'attendance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
-      setAttendanceRecords([]);
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to submit attendance. Please try again.",
+        description: error?.message || "Failed to submit attendance. Please try again.",
         variant: "destructive",
       });
     },
   });
 
-  const markAttendance = (studentId: string, status: 'present' | 'absent' | 'late') => {
+  const markAttendance = (studentId: string, status: AttendanceStatus) => {
     setAttendanceRecords(prev => {
       const existing = prev.find(r => r.studentId === studentId);
       if (existing) {
-        return prev.map(r => r.studentId === studentId ? { ...r, status } : r);
+        return prev.map(r => r.studentId === studentId ? { ...r, status, minutesLate: status === 'late' ? r.minutesLate : null } : r);
       }
       return [...prev, { studentId, status }];
     });
   };
 
+  const setMinutesLate = (studentId: string, value: string) => {
+    const minutes = value === '' ? null : Math.round(Number(value));
+    setAttendanceRecords(prev => prev.map(r => r.studentId === studentId ? { ...r, minutesLate: minutes } : r));
+  };
+
   const undoMark = (studentId: string) => {
     setAttendanceRecords(prev => prev.filter(r => r.studentId !== studentId));
   };
 
-  const getStudentStatus = (studentId: string): 'present' | 'absent' | 'late' | undefined => {
-    return attendanceRecords.find(r => r.studentId === studentId)?.status;
-  };
+  const getStudentRecord = (studentId: string) => attendanceRecords.find(r => r.studentId === studentId);
 
   const handleSubmit = () => {
     if (attendanceRecords.length === 0) {
@@ -98,6 +130,14 @@ export default function Attendance() {
       });
       return;
     }
+    if (changedCount > 0 && !reason.trim()) {
+      toast({
+        title: "Reason needed",
+        description: "Say why you are changing attendance that was already taken.",
+        variant: "destructive",
+      });
+      return;
+    }
     submitAttendanceMutation.mutate();
   };
 
@@ -167,6 +207,7 @@ export default function Attendance() {
   const presentCount = attendanceRecords.filter(r => r.status === 'present').length;
   const absentCount = attendanceRecords.filter(r => r.status === 'absent').length;
   const lateCount = attendanceRecords.filter(r => r.status === 'late').length;
+  const excusedCount = attendanceRecords.filter(r => isExcused(r.status)).length;
   const totalStudents = students?.length || 0;
   const unmarkedCount = totalStudents - attendanceRecords.length;
 
@@ -184,12 +225,12 @@ export default function Attendance() {
               {selectedClass && (
                 <p className="text-gray-600 mt-1 flex items-center gap-2" data-testid="text-class-info">
                   <Calendar className="h-4 w-4" />
-                  {todayClasses?.find((c: any) => c.id === selectedClass)?.subject} - {new Date().toLocaleDateString()}
+                  {todayClasses?.find(c => c.id === selectedClass)?.subject} - {new Date().toLocaleDateString()}
                 </p>
               )}
             </div>
             {selectedClass && (
-              <div className="grid grid-cols-4 gap-4 text-center">
+              <div className="grid grid-cols-5 gap-4 text-center">
                 <div>
                   <div className="flex items-center justify-center gap-1">
                     <Check className="h-4 w-4 text-green-600" />
@@ -217,6 +258,15 @@ export default function Attendance() {
                     {lateCount}
                   </p>
                 </div>
+                <div>
+                  <div className="flex items-center justify-center gap-1">
+                    <Calendar className="h-4 w-4 text-blue-600" />
+                    <span className="text-sm text-gray-600">Excused</span>
+                  </div>
+                  <p className="text-2xl font-bold text-blue-600" data-testid="text-excused-count">
+                    {excusedCount}
+                  </p>
+                </div>
                 <div>
                   <div className="flex items-center justify-center gap-1">
                     <Users className="h-4 w-4 text-gray-600" />
@@ -240,7 +290,7 @@ export default function Attendance() {
                 <SelectValue placeholder="Choose a class..." />
               </SelectTrigger>
               <SelectContent>
-                {todayClasses?.map((classItem: any) => (
+                {todayClasses?.map((classItem) => (
                   <SelectItem key={classItem.id} value={classItem.id}>
                     {classItem.subject} ({classItem.startTime} - {classItem.endTime})
                   </SelectItem>
@@ -249,6 +299,18 @@ export default function Attendance() {
             </Select>
           </div>
 
+          {selectedClass && history && (
+            history.locked ? (
+              <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800" data-testid="text-attendance-locked">
+                {history.canAmend
+                  ? "This register is past the school's cut-off. As management you can still amend it."
+                  : "This register is past the school's cut-off: saved marks can no longer be changed (ask management to amend them), but students not marked yet can still be marked."}
+              </div>
+            ) : history.deadline && isSaved ? (
+              <p className="text-xs text-gray-500">Attendance can be changed until {formatDeadline(history.deadline)}.</p>
+            ) : null
+          )}
+
           {/* Method Toggle */}
           {selectedClass && (
             <Tabs value={attendanceMethod} onValueChange={(value) => setAttendanceMethod(value as 'tap' | 'qr')} className="w-full">
@@ -273,18 +335,14 @@ export default function Attendance() {
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {students?.map((student) => {
-                      const status = getStudentStatus(student.id);
+                      const record = getStudentRecord(student.id);
+                      const status = record?.status;
                       const isMarked = !!status;
                       
                       return (
                         <Card 
                           key={student.id} 
-                          className={`${
-                            status === 'present' ? 'bg-green-50 border-green-200' :
-                            status === 'absent' ? 'bg-red-50 border-red-200' :
-                            status === 'late' ? 'bg-yellow-50 border-yellow-200' :
-                            'border-gray-200'
-                          }`}
+                          className={status ? attendanceStatusStyle(status).card : 'border-gray-200'}
                           data-testid={`card-student-${student.id}`}
                         >
                           <CardContent className="pt-4">
@@ -306,19 +364,30 @@ export default function Attendance() {
                               {isMarked ? (
                                 <div className="flex items-center space-x-1">
                                   <Badge 
-                                    className={
-                                      status === 'present' ? 'bg-green-100 text-green-800' :
-                                      status === 'absent' ? 'bg-red-100 text-red-800' :
-                                      'bg-yellow-100 text-yellow-800'
-                                    }
+                                    className={attendanceStatusStyle(status).badge}
                                     data-testid={`badge-status-${student.id}`}
                                   >
-                                    {status}
+                                    {attendanceStatusStyle(status).label}
                                   </Badge>
+                                  {status === 'late' && (
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      max={600}
+                                      placeholder="min"
+                                      value={record?.minutesLate ?? ''}
+                                      onChange={(e) => setMinutesLate(student.id, e.target.value)}
+                                      disabled={markLocked(student.id)}
+                                      className="w-16 h-7 text-xs"
+                                      title="Minutes late"
+                                      data-testid={`input-minutes-late-${student.id}`}
+                                    />
+                                  )}
                                   <Button
                                     size="sm"
                                     variant="ghost"
                                     onClick={() => undoMark(student.id)}
+                                    disabled={markLocked(student.id)}
                                     className="w-6 h-6 p-0"
                                     data-testid={`button-undo-${student.id}`}
                                   >
@@ -351,6 +420,16 @@ export default function Attendance() {
                                   >
                                     <i className="fas fa-clock text-xs"></i>
                                   </Button>
+                                  <Select onValueChange={(value) => markAttendance(student.id, value as AttendanceStatus)}>
+                                    <SelectTrigger className="w-8 h-8 p-0 justify-center" title="Excused absence" data-testid={`select-excused-${student.id}`}>
+                                      <i className="fas fa-ellipsis-h text-xs"></i>
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {EXCUSED_STATUSES.map((excused) => (
+                                        <SelectItem key={excused} value={excused}>{ATTENDANCE_STATUS_STYLES[excused].label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
                               )}
                             </div>
@@ -431,6 +510,7 @@ export default function Attendance() {
             <div className="flex justify-between items-center">
               <div className="text-sm text-gray-600" data-testid="text-progress">
                 <span>{attendanceRecords.length}</span> of <span>{totalStudents}</span> students marked
+                {changedCount > 0 && <span className="text-amber-700"> · {changedCount} changed</span>}
               </div>
               <div className="flex space-x-3">
                 <Button 
@@ -442,13 +522,47 @@ export default function Attendance() {
                 </Button>
                 <Button 
                   onClick={handleSubmit}
-                  disabled={attendanceRecords.length === 0 || submitAttendanceMutation.isPending}
+                  disabled={attendanceRecords.length === 0 || (!canAmend && changedCount > 0) || submitAttendanceMutation.isPending}
                   data-testid="button-submit-attendance"
                 >
-                  {submitAttendanceMutation.isPending ? 'Submitting...' : 'Submit Attendance'}
+                  {submitAttendanceMutation.isPending ? 'Submitting...' : isSaved ? 'Update Attendance' : 'Submit Attendance'}
                 </Button>
               </div>
             </div>
+            {changedCount > 0 && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason for the change</label>
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Student arrived after the register was taken"
+                  data-testid="input-change-reason"
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Changes made after the register was taken */}
+      {selectedClass && history && history.edits.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Change History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {history.edits.map((edit) => (
+                <div key={edit.id} className="text-sm border-b last:border-0 pb-2" data-testid={`row-attendance-edit-${edit.id}`}>
+                  <div className="text-gray-900">
+                    {edit.studentName}: <span className="capitalize">{edit.previousStatus}</span> → <span className="capitalize">{edit.newStatus}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {edit.changedByName || 'Unknown'} · {new Date(edit.changedAt).toLocaleString()} · {edit.reason}
+                  </div>
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -3,10 +3,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Link } from "wouter";
-import type { ClassSchedule } from "@/types";
+import type { ClassSession } from "@/types";
 
 export default function TeacherDashboard() {
-  const { data: todayClasses, isLoading: classesLoading } = useQuery<ClassSchedule[]>({
+  const { data: todayClasses, isLoading: classesLoading } = useQuery<ClassSession[]>({
     queryKey: ['/api/teacher/classes/today'],
   });
 
@@ -17,7 +17,9 @@ export default function TeacherDashboard() {
   const currentMinute = currentTime.getMinutes();
   const currentTimeString = `${currentHour.toString().padStart(2, '0')}:${currentMinute.toString().padStart(2, '0')}`;
 
-  const getClassStatus = (startTime: string, endTime: string): 'completed' | 'in-progress' | 'upcoming' => {
+  const getClassStatus = (session: ClassSession): 'cancelled' | 'completed' | 'in-progress' | 'upcoming' => {
+    const { startTime, endTime } = session;
+    if (session.status === 'cancelled') return 'cancelled';
     if (currentTimeString > endTime) return 'completed';
     if (currentTimeString >= startTime && currentTimeString <= endTime) return 'in-progress';
     return 'upcoming';
@@ -31,6 +33,8 @@ export default function TeacherDashboard() {
         return 'bg-blue-100 text-blue-800';
       case 'upcoming':
         return 'bg-gray-100 text-gray-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -44,6 +48,8 @@ export default function TeacherDashboard() {
         return 'border-l-blue-500';
       case 'upcoming':
         return 'border-l-gray-300';
+      case 'cancelled':
+        return 'border-l-red-400';
       default:
         return 'border-l-gray-300';
     }
@@ -103,7 +109,7 @@ export default function TeacherDashboard() {
       {/* Class Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {todayClasses && todayClasses.length > 0 ? todayClasses.map((classItem) => {
-          const status = getClassStatus(classItem.startTime, classItem.endTime);
+          const status = getClassStatus(classItem);
           
           return (
             <Card key={classItem.id} className={`border-l-4 ${getBorderColor(status)}`} data-testid={`card-class-${classItem.id}`}>
@@ -114,24 +120,20 @@ export default function TeacherDashboard() {
                   </h3>
                   <Badge className={getStatusColor(status)} data-testid={`badge-status-${classItem.id}`}>
                     {status === 'in-progress' ? 'In Progress' : 
-                     status === 'completed' ? 'Completed' : 'Upcoming'}
+                     status === 'completed' ? 'Completed' :
+                     status === 'cancelled' ? 'Cancelled' : 'Upcoming'}
                   </Badge>
                 </div>
                 <p className="text-sm text-gray-600 mb-1" data-testid={`text-time-${classItem.id}`}>
                   {classItem.startTime} - {classItem.endTime}
                 </p>
-                <p className="text-xs text-gray-500 mb-3" data-testid={`text-students-${classItem.id}`}>
-                  {classItem.name}
+                <p className="text-xs text-gray-500 mb-3" data-testid={`text-location-${classItem.id}`}>
+                  {classItem.location || 'No room set'}
+                  {classItem.changeType === 'reschedule' && ' • Rescheduled'}
+                  {classItem.changeType === 'extra_class' && ' • Extra class'}
+                  {classItem.changeReason && ` • ${classItem.changeReason}`}
                 </p>
                 
-                {status === 'completed' && classItem.attendanceCount && (
-                  <div className="mb-3">
-                    <span className="text-xs text-green-600" data-testid={`text-attendance-${classItem.id}`}>
-                      Attendance: {classItem.attendanceCount.present}/{classItem.attendanceCount.total}
-                    </span>
-                  </div>
-                )}
-                
                 <div className="mt-2">
                   {status === 'in-progress' ? (
                     <Link href="/attendance">
@@ -139,6 +141,16 @@ export default function TeacherDashboard() {
                         Take Attendance
                       </Button>
                     </Link>
+                  ) : status === 'cancelled' ? (
+                    <Button 
+                      className="w-full" 
+                      size="sm" 
+                      variant="outline" 
+                      disabled
+                      data-testid={`button-cancelled-${classItem.id}`}
+                    >
+                      Cancelled
+                    </Button>
                   ) : status === 'upcoming' ? (
                     <Button 
                       className="w-full" 
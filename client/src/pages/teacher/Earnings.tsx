@@ -12,15 +12,54 @@ import { apiRequest } from "@/lib/queryClient";
 import type { TeacherEarnings, CashDrawRequest } from "@/types";
 
 export default function Earnings() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
   const [requestAmount, setRequestAmount] = useState("");
   const [requestReason, setRequestReason] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const { data: earnings, isLoading: earningsLoading } = useQuery<TeacherEarnings>({
-    queryKey: ['/api/teacher/earnings'],
+    queryKey: ['/api/teacher/earnings', month],
+    queryFn: async () => {
+      const response = await fetch(`/api/teacher/earnings?month=${month}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch earnings");
+      return response.json();
+    }
   });
 
+  // Per-subject totals for the breakdown card
+  const subjectBreakdown = Object.values(
+    (earnings?.lines || []).reduce<Record<string, { subjectName: string; students: Set<string>; share: number }>>((acc, line) => {
+      const entry = acc[line.subjectId] || { subjectName: line.subjectName, students: new Set<string>(), share: 0 };
+      entry.students.add(line.studentId);
+      entry.share += line.share;
+      acc[line.subjectId] = entry;
+      return acc;
+    }, {})
+  );
+
+  const handleDownloadStatement = () => {
+    if (!earnings) return;
+    const rows = [
+      ['Date', 'Receipt', 'Invoice', 'Student', 'Subject', 'Collected', 'Share'],
+      ...earnings.lines.map(line => [
+        line.paymentDate, line.receiptNumber, line.invoiceNumber, line.studentName,
+        line.subjectName, line.amountCollected.toFixed(2), line.share.toFixed(2),
+      ]),
+      ...earnings.extraClassLines.map(extra => [
+        extra.date, '', '', '', `Extra class - ${extra.subjectName}`, '', extra.amount.toFixed(2),
+      ]),
+      ['', '', '', '', 'Total', earnings.collected.toFixed(2), earnings.total.toFixed(2)],
+    ];
+    const csv = rows.map(r => r.map(v => `"${String(v).replace(/"/g, '""')}"`).join(',')).join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `earnings-${earnings.month}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const { data: cashDrawRequests } = useQuery<any[]>({
     queryKey: ['/api/cash-draw-requests'],
   });
@@ -116,6 +155,18 @@ export default function Earnings() {
 
   return (
     <div className="space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <Label htmlFor="earnings-month">Month</Label>
+        <Input
+          id="earnings-month"
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="w-44"
+          data-testid="input-earnings-month"
+        />
+      </div>
+
       {/* Earnings Overview */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
@@ -125,7 +176,7 @@ export default function Earnings() {
                 <i className="fas fa-percentage text-blue-600 text-xl"></i>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Base Rate (70%)</p>
+                <p className="text-sm font-medium text-gray-600">Fee Share</p>
                 <p className="text-2xl font-semibold text-gray-900" data-testid="stat-base-earnings">
                   Rs. {earnings?.baseAmount?.toLocaleString() || '0'}
                 </p>
@@ -141,7 +192,7 @@ export default function Earnings() {
                 <i className="fas fa-plus text-green-600 text-xl"></i>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Extra Classes</p>
+                <p className="text-sm font-medium text-gray-600">Extra Classes ({earnings?.extraClassCount || 0})</p>
                 <p className="text-2xl font-semibold text-gray-900" data-testid="stat-extra-earnings">
                   Rs. {earnings?.extraClasses?.toLocaleString() || '0'}
                 </p>
@@ -221,18 +272,21 @@ export default function Earnings() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-3">
-              <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                <span className="text-gray-600">Physics A-Level (24 students)</span>
-                <span className="font-semibold">Rs. 12,000</span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                <span className="text-gray-600">Chemistry O-Level (18 students)</span>
-                <span className="font-semibold">Rs. 9,000</span>
-              </div>
-              <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                <span className="text-gray-600">Extra Sessions (5 hours)</span>
-                <span className="font-semibold">Rs. 3,500</span>
-              </div>
+              {subjectBreakdown.map((entry) => (
+                <div key={entry.subjectName} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <span className="text-gray-600">{entry.subjectName} ({entry.students.size} students)</span>
+                  <span className="font-semibold">Rs. {Math.round(entry.share).toLocaleString()}</span>
+                </div>
+              ))}
+              {(earnings?.extraClassCount || 0) > 0 && (
+                <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <span className="text-gray-600">Extra Classes ({earnings?.extraClassCount})</span>
+                  <span className="font-semibold">Rs. {earnings?.extraClasses?.toLocaleString()}</span>
+                </div>
+              )}
+              {subjectBreakdown.length === 0 && !earnings?.extraClassCount && (
+                <p className="text-sm text-gray-500 text-center py-2">No fees collected for your classes this month</p>
+              )}
               <div className="flex justify-between items-center p-3 bg-blue-50 rounded-lg border-t border-blue-200">
                 <span className="font-semibold text-blue-800">Total This Month</span>
                 <span className="font-bold text-blue-800">Rs. {earnings?.total?.toLocaleString() || '0'}</span>
@@ -240,7 +294,13 @@ export default function Earnings() {
             </div>
 
             <div className="pt-4">
-              <Button variant="outline" className="w-full" data-testid="button-download-statement">
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleDownloadStatement}
+                disabled={!earnings}
+                data-testid="button-download-statement"
+              >
                 <i className="fas fa-download mr-2"></i>
                 Download Statement
               </Button>
@@ -249,6 +309,66 @@ export default function Earnings() {
         </Card>
       </div>
 
+      {/* Earnings Statement */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Receipt</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Student</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Subject</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Collected</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-700">Your Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {earnings?.lines.map((line) => (
+                  <tr key={`${line.allocationId}-${line.invoiceItemId}`} className="hover:bg-gray-50" data-testid={`row-earning-${line.invoiceItemId}`}>
+                    <td className="px-4 py-3">{new Date(line.paymentDate).toLocaleDateString()}</td>
+                    <td className="px-4 py-3">{line.receiptNumber}</td>
+                    <td className="px-4 py-3">{line.studentName}</td>
+                    <td className="px-4 py-3">{line.subjectName}</td>
+                    <td className="px-4 py-3 text-right">Rs. {line.amountCollected.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right font-semibold">Rs. {line.share.toLocaleString()}</td>
+                  </tr>
+                ))}
+                {earnings?.extraClassLines.map((extra) => (
+                  <tr key={extra.scheduleChangeId} className="hover:bg-gray-50" data-testid={`row-extra-class-${extra.scheduleChangeId}`}>
+                    <td className="px-4 py-3">{new Date(extra.date).toLocaleDateString()}</td>
+                    <td className="px-4 py-3">-</td>
+                    <td className="px-4 py-3">-</td>
+                    <td className="px-4 py-3">Extra class: {extra.subjectName}</td>
+                    <td className="px-4 py-3 text-right">-</td>
+                    <td className="px-4 py-3 text-right font-semibold">Rs. {extra.amount.toLocaleString()}</td>
+                  </tr>
+                ))}
+                {!earnings?.lines.length && !earnings?.extraClassLines.length ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                      No earnings recorded for this month
+                    </td>
+                  </tr>
+                ) : (
+                  <tr className="bg-blue-50 font-semibold">
+                    <td colSpan={4} className="px-4 py-3 text-blue-800">Total</td>
+                    <td className="px-4 py-3 text-right text-blue-800" data-testid="text-total-collected">
+                      Rs. {earnings?.collected.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-right text-blue-800">Rs. {earnings?.total.toLocaleString()}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Request History */}
       <Card>
         <CardHeader>
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ATTENDANCE_STATUS_STYLES } from "@/lib/attendance";
+import { formatLeaveDates, LEAVE_STATUS_STYLES } from "@/components/LeaveRequestsCard";
+import type { LeaveRequest } from "@/types";
+
+interface ReviewResult {
+  plan: { marked: number; unchanged: number; skipped: { attended: number; locked: number } } | null;
+}
+
+// Leave requests from the portal; teachers see their own students', management everyone's
+export default function LeaveRequests() {
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests, isLoading } = useQuery<LeaveRequest[]>({
+    queryKey: ['/api/leave-requests', statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await apiRequest('GET', `/api/leave-requests${query}`);
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'approved' | 'rejected' }) => {
+      const response = await apiRequest('POST', `/api/leave-requests/${id}/review`, { decision, note: notes[id] });
+      return response.json() as Promise<ReviewResult>;
+    },
+    onSuccess: ({ plan }, { id }) => {
+      const skipped = plan ? plan.skipped.attended + plan.skipped.locked : 0;
+      toast({
+        title: plan ? "Leave Approved" : "Leave Rejected",
+        description: plan
+          ? `${plan.marked} class${plan.marked === 1 ? '' : 'es'} marked` +
+            (skipped ? `, ${skipped} left as they were (attended or past the amend cut-off).` : '.')
+          : "The family can see your note in the portal.",
+      });
+      setNotes(({ [id]: _, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/class-sessions'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to review the request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Leave Requests
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              Approving marks the student's classes in those days; classes they attended are left as they are.
+            </p>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40" data-testid="select-leave-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse bg-gray-200 h-24 rounded-lg"></div>
+        ) : !requests?.length ? (
+          <p className="text-center text-gray-500 py-8" data-testid="text-no-leave-requests">No leave requests.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="p-4 border rounded-lg" data-testid={`leave-request-${request.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {request.studentName} <span className="text-sm text-gray-500">({request.rollNumber})</span>
+                    </p>
+                    <p className="text-sm text-gray-700">
+                      {formatLeaveDates(request)} · {ATTENDANCE_STATUS_STYLES[request.absenceType].label}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">{request.reason}</p>
+                    {request.reviewedAt && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {request.status === 'approved' ? `Approved, ${request.sessionsMarked} classes marked` : 'Rejected'}
+                        {request.reviewerName && ` by ${request.reviewerName}`}
+                        {request.reviewNote && `: ${request.reviewNote}`}
+                      </p>
+                    )}
+                  </div>
+                  <Badge className={LEAVE_STATUS_STYLES[request.status]}>{request.status}</Badge>
+                </div>
+
+                {request.status === 'pending' && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <Input
+                      placeholder="Note for the family (needed to reject)"
+                      value={notes[request.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                      data-testid={`input-leave-note-${request.id}`}
+                    />
+                    <Button
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => reviewMutation.mutate({ id: request.id, decision: 'approved' })}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-approve-leave-${request.id}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => reviewMutation.mutate({ id: request.id, decision: 'rejected' })}
+                      disabled={reviewMutation.isPending || !notes[request.id]?.trim()}
+                      data-testid={`button-reject-leave-${request.id}`}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,15 +22,20 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { Room, ScheduleConflict } from "@/types";
 
 const scheduleSchema = z.object({
   subjectId: z.string().min(1, "Subject is required"),
   dayOfWeek: z.enum(["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]),
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
+  roomId: z.string().optional(),
   location: z.string().optional(),
 });
 
+// Radix Select items cannot have an empty value
+const NO_ROOM = "none";
+
 
 
 type ScheduleFormData = z.infer<typeof scheduleSchema>;
@@ -48,6 +53,7 @@ const dayLabels = {
 export default function ScheduleManager() {
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<any>(null);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -58,6 +64,7 @@ export default function ScheduleManager() {
       dayOfWeek: "monday",
       startTime: "",
       endTime: "",
+      roomId: NO_ROOM,
       location: "",
     },
   });
@@ -86,18 +93,35 @@ export default function ScheduleManager() {
 
   
 
+  // Rooms of the branch the class can be held in
+  const { data: rooms = [] } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    queryFn: async () => {
+      const response = await fetch("/api/rooms", { credentials: "include" });
+      const data = await response.json();
+      return Array.isArray(data) ? data : [];
+    },
+  });
+  const selectedRoomId = scheduleForm.watch("roomId");
+
   // Create/Update schedule mutation
   const scheduleUpsertMutation = useMutation({
-    mutationFn: async (data: ScheduleFormData & { id?: string }) => {
-      if (data.id) {
-        // Update existing schedule
-        return apiRequest("PUT", `/api/teacher/schedules/${data.id}`, data);
-      } else {
-        // Create new schedule
-        return apiRequest("POST", "/api/teacher/schedules", data);
-      }
+    mutationFn: async (data: Omit<ScheduleFormData, "roomId"> & { roomId: string | null; id?: string }) => {
+      // Not apiRequest: a clash comes back as 409 with the conflicts to show in the dialog
+      const res = await fetch(data.id ? `/api/teacher/schedules/${data.id}` : "/api/teacher/schedules", {
+        method: data.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (res.status === 409) return { conflicts: (body.conflicts || []) as ScheduleConflict[], warnings: [] as string[] };
+      if (!res.ok) throw new Error(body.message || "Failed to save schedule");
+      return { conflicts: [] as ScheduleConflict[], warnings: (body.warnings || []) as string[] };
     },
-    onSuccess: () => {
+    onSuccess: ({ conflicts, warnings }) => {
+      setConflicts(conflicts);
+      if (conflicts.length > 0) return;
       queryClient.invalidateQueries({ queryKey: ["/api/teacher/schedules"] });
       setIsScheduleDialogOpen(false);
       setEditingSchedule(null);
@@ -106,11 +130,14 @@ export default function ScheduleManager() {
         title: "Success",
         description: editingSchedule ? "Schedule updated successfully!" : "Schedule created successfully!",
       });
+      if (warnings.length > 0) {
+        toast({ title: "Room capacity", description: warnings.join(" "), variant: "destructive" });
+      }
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to save schedule",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -140,18 +167,21 @@ export default function ScheduleManager() {
   
 
   const onScheduleSubmit = (data: ScheduleFormData) => {
-    scheduleUpsertMutation.mutate(editingSchedule ? { ...data, id: editingSchedule.id } : data);
+    const payload = { ...data, roomId: data.roomId && data.roomId !== NO_ROOM ? data.roomId : null };
+    scheduleUpsertMutation.mutate(editingSchedule ? { ...payload, id: editingSchedule.id } : payload);
   };
 
   
 
   const handleEditSchedule = (schedule: any) => {
     setEditingSchedule(schedule);
+    setConflicts([]);
     scheduleForm.reset({
       subjectId: schedule.subjectId,
       dayOfWeek: schedule.dayOfWeek,
       startTime: schedule.startTime,
       endTime: schedule.endTime,
+      roomId: schedule.roomId || NO_ROOM,
       location: schedule.location || "",
     });
     setIsScheduleDialogOpen(true);
@@ -187,7 +217,13 @@ export default function ScheduleManager() {
           <p className="text-muted-foreground">Manage your class schedules</p>
         </div>
         
-        <Dialog open={isScheduleDialogOpen} onOpenChange={setIsScheduleDialogOpen}>
+        <Dialog
+          open={isScheduleDialogOpen}
+          onOpenChange={(open) => {
+            setIsScheduleDialogOpen(open);
+            if (!open) setConflicts([]);
+          }}
+        >
           <DialogTrigger asChild>
             <Button data-testid="button-add-schedule">
               <Plus className="h-4 w-4 mr-2" />
@@ -290,24 +326,64 @@ export default function ScheduleManager() {
 
                 <FormField
                   control={scheduleForm.control}
-                  name="location"
+                  name="roomId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Location (Optional)</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          placeholder="Room 101, Lab A, etc."
-                          data-testid="input-location"
-                        />
-                      </FormControl>
+                      <FormLabel>Room</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || NO_ROOM}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-room">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ROOM}>No registered room</SelectItem>
+                          {rooms.map((room) => (
+                            <SelectItem key={room.id} value={room.id}>
+                              {room.name}{room.capacity ? ` (${room.capacity} seats)` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                {(!selectedRoomId || selectedRoomId === NO_ROOM) && (
+                  <FormField
+                    control={scheduleForm.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Location (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="Online, Auditorium, etc."
+                            data-testid="input-location"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {conflicts.length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded space-y-1 text-sm text-amber-800" data-testid="schedule-conflicts">
+                    <div className="font-medium flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4" />
+                      This time slot conflicts with other classes:
+                    </div>
+                    {conflicts.map((conflict, i) => (
+                      <div key={i}>{conflict.message}</div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-3">
-                  <Button type="button" variant="outline" onClick={() => setIsScheduleDialogOpen(false)}>
+                  <Button type="button" variant="outline" onClick={() => { setIsScheduleDialogOpen(false); setConflicts([]); }}>
                     Cancel
                   </Button>
                   <Button type="submit" disabled={scheduleUpsertMutation.isPending} data-testid="button-save-schedule">
@@ -1,3 +1,5 @@
+import type { AttendanceStatus, ExcusedAbsencePolicy } from "@shared/attendance";
+
 export interface DashboardStats {
   totalStudents: number;
   monthlyRevenue: number;
@@ -5,10 +7,45 @@ export interface DashboardStats {
   avgAttendance: number;
 }
 
+export interface TeacherEarningsLine {
+  allocationId: string;
+  paymentId: string;
+  receiptNumber: string;
+  paymentDate: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceItemId: string;
+  studentId: string;
+  studentName: string;
+  subjectId: string;
+  subjectName: string;
+  amountCollected: number;
+  share: number;
+  ruleId: string | null;
+}
+
+export interface TeacherExtraClassLine {
+  sessionId: string;
+  scheduleChangeId: string;
+  date: string;
+  subjectId: string;
+  subjectName: string;
+  amount: number;
+  ruleId: string | null;
+}
+
 export interface TeacherEarnings {
+  teacherId: string;
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  collected: number;
   baseAmount: number;
   extraClasses: number;
+  extraClassCount: number;
   total: number;
+  lines: TeacherEarningsLine[];
+  extraClassLines: TeacherExtraClassLine[];
 }
 
 export interface StudentWithDetails {
@@ -23,25 +60,118 @@ export interface StudentWithDetails {
   profileImageUrl?: string;
 }
 
-export interface ClassSchedule {
+// A dated class from the timetable (server/timetable.ts)
+export interface ClassSession {
   id: string;
-  name: string;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  roomId: string | null;
+  location: string | null;
+  status: 'scheduled' | 'cancelled';
+  branchId: string | null;
+  scheduleId: string | null;
+  scheduleChangeId: string | null;
+  changeType: 'cancellation' | 'reschedule' | 'extra_class' | null;
+  changeReason: string | null;
+  subjectId: string;
   subject: string;
+  subjectCode: string;
+  teacherId: string;
+  teacherName: string;
+}
+
+// A class occupying a time slot, weekly (dayOfWeek) or dated (server/scheduleConflicts.ts)
+export interface TimetableSlot {
+  scheduleId: string | null;
+  scheduleChangeId: string | null;
+  branchId: string | null;
+  teacherId: string;
+  subjectId: string;
   startTime: string;
   endTime: string;
-  status?: 'completed' | 'in-progress' | 'upcoming';
-  attendanceCount?: {
-    present: number;
-    total: number;
-  };
+  roomId: string | null;
+  location: string | null;
+  dayOfWeek?: string;
+  sessionDate?: string;
+  subject?: string;
+  teacherName?: string;
+}
+
+export interface ScheduleConflict {
+  type: 'teacher' | 'room' | 'student';
+  message: string;
+  with: TimetableSlot;
+  studentIds?: string[];
+}
+
+// A classroom, lab or other space of a branch (server/rooms.ts)
+export interface Room {
+  id: string;
+  branchId: string | null;
+  branchName: string | null;
+  name: string;
+  capacity: number | null;
+  equipment: string[];
+  isActive: boolean | null;
 }
 
 export interface AttendanceRecord {
   id: string;
   studentId: string;
-  status: 'present' | 'absent' | 'late';
+  status: AttendanceStatus;
+  minutesLate?: number | null;
+  leaveRequestId?: string | null;
   date: string;
-  classId: string;
+  sessionId: string;
+}
+
+// GET /api/students/:id/attendance - the percentage under the school's excused-absence policy
+export interface AttendanceSummary {
+  attendancePercentage: number;
+  attended: number;
+  counted: number;
+  excusedAbsences: ExcusedAbsencePolicy;
+}
+
+// An absence asked for from the portal (server/leaveRequests.ts)
+export interface LeaveRequest {
+  id: string;
+  studentId: string;
+  studentName: string;
+  rollNumber: string;
+  startDate: string;
+  endDate: string;
+  absenceType: 'leave' | 'medical' | 'excused';
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewedBy: string | null;
+  reviewerName: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  sessionsMarked: number;
+  createdAt: string;
+}
+
+// A mark changed after the register was taken (server/attendance.ts)
+export interface AttendanceEdit {
+  id: string;
+  attendanceId: string;
+  studentId: string;
+  studentName: string;
+  previousStatus: AttendanceRecord['status'];
+  newStatus: AttendanceRecord['status'];
+  reason: string;
+  changedBy: string;
+  changedByName: string;
+  changedAt: string;
+}
+
+export interface AttendanceHistory {
+  edits: AttendanceEdit[];
+  deadline: string | null; // School-local "YYYY-MM-DDTHH:MM" after which only management can amend
+  locked: boolean;
+  canAmend: boolean;
 }
 
 export interface Transaction {
@@ -0,0 +1,53 @@
+/**
+ * Attendance migration (idempotent). Connect as superuser (Railway `postgres`).
+ *   node scripts/attendance.mjs apply    # drop duplicate marks so one row per student and session remains
+ *   node scripts/attendance.mjs status   # report duplicates left, edits recorded, each school's cut-off and leave requests
+ *
+ * Run BEFORE `drizzle-kit push`, which adds attendance_session_student_unique (and
+ * attendance_edits, tenants.attendance_amend_hours), then `node scripts/rls.mjs grants` + `enable`.
+ * The same push adds the excused/leave/medical statuses, attendance.minutes_late and
+ * leave_request_id, leave_requests and tenants.excused_absences (default 'exclude', so
+ * existing percentages do not change until a school picks another rule).
+ * The old front-desk route inserted a new row each time a mark was saved; the most
+ * recently marked row of each (session, student) is the one kept.
+ */
+import pkg from 'pg';
+const { Client } = pkg;
+
+const phase = process.argv[2] || 'apply';
+const c = new Client({ connectionString: process.env.DATABASE_URL, ssl: false });
+await c.connect();
+const run = async (sql, p) => { try { const r = await c.query(sql, p); console.log('  ok:', sql.replace(/\s+/g, ' ').slice(0, 95), `(${r.rowCount})`); } catch (e) { console.error('  ERR:', sql.replace(/\s+/g, ' ').slice(0, 95), '->', e.message); throw e; } };
+
+const DUPLICATES = `SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY session_id, student_id ORDER BY marked_at DESC NULLS LAST, id DESC) AS n
+    FROM attendance WHERE session_id IS NOT NULL
+  ) ranked WHERE n > 1`;
+
+if (phase === 'apply') {
+  console.log('\n== 1. Keep the latest mark per student and session ==');
+  await run(`DELETE FROM attendance WHERE id IN (${DUPLICATES})`);
+
+  console.log('\nDone. Now run `drizzle-kit push`, then `node scripts/rls.mjs grants` and `enable`.');
+}
+
+if (phase === 'status') {
+  const count = async (sql) => (await c.query(sql)).rows[0].n;
+  console.log('duplicate attendance rows:', await count(`SELECT count(*)::int n FROM (${DUPLICATES}) d`));
+  const hasEdits = await count(`SELECT count(*)::int n FROM information_schema.tables WHERE table_name = 'attendance_edits'`);
+  if (hasEdits) {
+    const hasLeave = await count(`SELECT count(*)::int n FROM information_schema.tables WHERE table_name = 'leave_requests'`);
+    console.log('\nAttendance cut-off and edits per tenant:');
+    console.table((await c.query(
+      `SELECT t.name AS tenant, t.attendance_amend_hours AS amend_hours,
+         (SELECT count(*)::int FROM attendance_edits e WHERE e.tenant_id = t.id) AS edits
+         ${hasLeave ? `, t.excused_absences,
+         (SELECT count(*)::int FROM leave_requests l WHERE l.tenant_id = t.id AND l.status = 'pending') AS pending_leave` : ''}
+       FROM tenants t ORDER BY t.name`
+    )).rows);
+  } else {
+    console.log('attendance_edits not created yet (run drizzle-kit push)');
+  }
+}
+
+await c.end();
@@ -11,7 +11,7 @@ const { Client } = pkg;
 
 const APP_ROLE = 'frontbench_app';
 // Tables that gain a branch_id (operational/people/money + location-bound close)
-const BRANCHED = ['users', 'students', 'classes', 'invoices', 'payments', 'expenses', 'daily_close', 'cash_draw_requests'];
+const BRANCHED = ['users', 'students', 'classes', 'invoices', 'payments', 'expenses', 'daily_close', 'cash_draw_requests', 'payment_refunds'];
 
 const phase = process.argv[2] || 'apply';
 const c = new Client({ connectionString: process.env.DATABASE_URL, ssl: false });
@@ -0,0 +1,53 @@
+/**
+ * Student credit wallet backfill (idempotent). Connect as superuser (Railway `postgres`).
+ *   node scripts/credit-ledger.mjs apply    # open each wallet with the unallocated part of legacy payments
+ *   node scripts/credit-ledger.mjs status   # report wallet balances vs. the old payments-minus-allocations figure
+ *
+ * Run after `drizzle-kit push` (creates student_credit_movements) and `node scripts/rls.mjs apply`.
+ * Before the ledger, credit was inferred as payments minus allocations; each payment's
+ * leftover becomes one opening 'overpayment' deposit. Payments already in the ledger are skipped.
+ */
+import pkg from 'pg';
+const { Client } = pkg;
+
+const phase = process.argv[2] || 'apply';
+const c = new Client({ connectionString: process.env.DATABASE_URL, ssl: false });
+await c.connect();
+const run = async (sql, p) => { try { const r = await c.query(sql, p); console.log('  ok:', sql.replace(/\s+/g, ' ').slice(0, 95), `(${r.rowCount})`); } catch (e) { console.error('  ERR:', sql.replace(/\s+/g, ' ').slice(0, 95), '->', e.message); throw e; } };
+
+const UNALLOCATED = `
+  SELECT p.id AS payment_id, p.tenant_id, p.student_id, p.created_at,
+         p.amount - COALESCE((SELECT sum(a.amount) FROM payment_allocations a WHERE a.payment_id = p.id), 0) AS remaining
+  FROM payments p
+  WHERE COALESCE(p.status::text, 'completed') = 'completed'
+    AND COALESCE(p.is_refunded, false) = false`;
+
+if (phase === 'apply') {
+  console.log('\n== Opening deposits for unallocated legacy payments ==');
+  await run(`INSERT INTO student_credit_movements (tenant_id, student_id, type, amount, payment_id, notes, created_at)
+    SELECT u.tenant_id, u.student_id, 'overpayment', u.remaining, u.payment_id, 'Opening balance: unallocated payment', u.created_at
+    FROM (${UNALLOCATED}) u
+    WHERE u.remaining > 0
+      AND NOT EXISTS (SELECT 1 FROM student_credit_movements m WHERE m.payment_id = u.payment_id)`);
+
+  console.log('\nDone. Credit ledger backfilled.');
+}
+
+if (phase === 'status') {
+  console.log('\nWallets (ledger balance vs. legacy unallocated payments):');
+  console.table((await c.query(
+    `SELECT t.name AS tenant, s.roll_number, w.ledger, COALESCE(l.legacy, 0) AS legacy
+     FROM (SELECT tenant_id, student_id, sum(amount) AS ledger FROM student_credit_movements GROUP BY 1, 2) w
+     JOIN tenants t ON t.id = w.tenant_id
+     JOIN students s ON s.id = w.student_id
+     LEFT JOIN (SELECT student_id, sum(remaining) AS legacy FROM (${UNALLOCATED}) u WHERE u.remaining > 0 GROUP BY 1) l
+       ON l.student_id = w.student_id
+     ORDER BY t.name, s.roll_number`
+  )).rows);
+  const negative = await c.query(
+    `SELECT count(*)::int n FROM (SELECT student_id FROM student_credit_movements GROUP BY 1 HAVING sum(amount) < 0) x`
+  );
+  console.log('wallets with a negative balance (should be 0):', negative.rows[0].n);
+}
+
+await c.end();
@@ -22,6 +22,11 @@ const STRICT = [
   'grades', 'payout_rules', 'cash_draw_requests', 'daily_close', 'expenses',
   'announcements', 'announcement_recipients', 'class_schedules', 'schedule_changes',
   'student_notifications', 'tenant_analytics', 'subscriptions', 'billing_history',
+  'payout_runs', 'payout_run_items', 'payout_adjustments', 'numbering_formats', 'numbering_sequences',
+  'student_credit_movements', 'payment_refunds', 'late_fee_policies', 'late_fee_exemptions',
+  'scheduled_job_runs', 'subject_fee_versions', 'password_reset_tokens',
+  'password_policies', 'password_history', 'portal_tokens', 'tenant_roles', 'class_sessions', 'rooms',
+  'attendance_edits', 'leave_requests',
 ];
 // Tables with NULLABLE tenant_id — system-wide rows (NULL) allowed for all tenants.
 const NULLABLE = ['audit_logs', 'system_notifications'];
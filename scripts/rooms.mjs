@@ -0,0 +1,60 @@
+/**
+ * Rooms migration (idempotent). Connect as superuser (Railway `postgres`).
+ *   node scripts/rooms.mjs apply    # register the free-text schedule locations as rooms and link them
+ *   node scripts/rooms.mjs status   # report what is (not yet) linked
+ *
+ * Run after `drizzle-kit push` (creates rooms, class_schedules.room_id,
+ * schedule_changes.new_room_id, class_sessions.room_id) and after scripts/timetable.mjs.
+ * Each distinct location a branch's weekly schedules use becomes a room of that branch
+ * with no capacity set (management fills it in; no capacity warnings until then).
+ */
+import pkg from 'pg';
+const { Client } = pkg;
+
+const phase = process.argv[2] || 'apply';
+const c = new Client({ connectionString: process.env.DATABASE_URL, ssl: false });
+await c.connect();
+const run = async (sql, p) => { try { const r = await c.query(sql, p); console.log('  ok:', sql.replace(/\s+/g, ' ').slice(0, 95), `(${r.rowCount})`); } catch (e) { console.error('  ERR:', sql.replace(/\s+/g, ' ').slice(0, 95), '->', e.message); throw e; } };
+
+if (phase === 'apply') {
+  console.log('\n== 1. branch_id default (inserts stamp the active branch, as in branches.mjs) ==');
+  await run(`ALTER TABLE rooms ALTER COLUMN branch_id SET DEFAULT NULLIF(current_setting('app.branch_id', true), '')`);
+
+  console.log('\n== 2. One room per distinct schedule location and branch ==');
+  await run(`INSERT INTO rooms (tenant_id, branch_id, name)
+    SELECT DISTINCT ON (s.tenant_id, s.branch_id, lower(trim(s.location))) s.tenant_id, s.branch_id, trim(s.location)
+    FROM class_schedules s
+    WHERE s.room_id IS NULL AND trim(COALESCE(s.location, '')) <> ''
+      AND NOT EXISTS (SELECT 1 FROM rooms r WHERE r.tenant_id = s.tenant_id
+        AND r.branch_id IS NOT DISTINCT FROM s.branch_id AND lower(r.name) = lower(trim(s.location)))
+    ON CONFLICT DO NOTHING`);
+
+  console.log('\n== 3. Link schedules to their room ==');
+  await run(`UPDATE class_schedules s SET room_id = r.id, location = r.name
+    FROM rooms r
+    WHERE s.room_id IS NULL AND r.tenant_id = s.tenant_id
+      AND r.branch_id IS NOT DISTINCT FROM s.branch_id AND lower(r.name) = lower(trim(s.location))`);
+
+  console.log('\n== 4. Sessions still held where their schedule is ==');
+  await run(`UPDATE class_sessions x SET room_id = s.room_id
+    FROM class_schedules s
+    WHERE x.room_id IS NULL AND x.schedule_id = s.id AND s.room_id IS NOT NULL
+      AND x.location IS NOT DISTINCT FROM s.location`);
+
+  console.log('\nDone. Rooms registered. Set their capacity and equipment under Management > Rooms.');
+}
+
+if (phase === 'status') {
+  const count = async (sql) => (await c.query(sql)).rows[0].n;
+  console.log('active schedules with a location but no room:',
+    await count(`SELECT count(*)::int n FROM class_schedules WHERE is_active AND room_id IS NULL AND trim(COALESCE(location, '')) <> ''`));
+  console.log('\nRooms per tenant:');
+  console.table((await c.query(
+    `SELECT t.name AS tenant, count(*)::int AS rooms,
+       count(*) FILTER (WHERE r.capacity IS NULL)::int AS without_capacity,
+       count(*) FILTER (WHERE r.is_active = false)::int AS retired
+     FROM rooms r JOIN tenants t ON t.id = r.tenant_id GROUP BY t.name ORDER BY t.name`
+  )).rows);
+}
+
+await c.end();
@@ -0,0 +1,75 @@
+/**
+ * Timetable migration (idempotent). Connect as superuser (Railway `postgres`).
+ *   node scripts/timetable.mjs apply    # carry legacy classes + attendance over to class_schedules / class_sessions
+ *   node scripts/timetable.mjs status   # report what is (not yet) carried across
+ *
+ * Run after `drizzle-kit push` (creates class_sessions, attendance.session_id,
+ * class_schedules.branch_id) and before `node scripts/rls.mjs grants` + `enable`.
+ * Each legacy class becomes a weekly class_schedule with the same id (so a class id held
+ * elsewhere, e.g. announcements.class_id, still names the same class), each (class, date)
+ * that has attendance becomes a class_session, and the attendance rows are linked to it.
+ * The classes table is left in place, deactivated, as the record of where rows came from.
+ */
+import pkg from 'pg';
+const { Client } = pkg;
+
+// classes.day_of_week is 0-6 with 0 = Sunday; class_schedules uses the day_of_week enum
+const WEEKDAY = `(ARRAY['sunday','monday','tuesday','wednesday','thursday','friday','saturday'])[c.day_of_week + 1]::day_of_week`;
+
+const phase = process.argv[2] || 'apply';
+const c = new Client({ connectionString: process.env.DATABASE_URL, ssl: false });
+await c.connect();
+const run = async (sql, p) => { try { const r = await c.query(sql, p); console.log('  ok:', sql.replace(/\s+/g, ' ').slice(0, 95), `(${r.rowCount})`); } catch (e) { console.error('  ERR:', sql.replace(/\s+/g, ' ').slice(0, 95), '->', e.message); throw e; } };
+
+if (phase === 'apply') {
+  console.log('\n== 1. branch_id defaults (inserts stamp the active branch, as in branches.mjs) ==');
+  for (const t of ['class_schedules', 'class_sessions']) {
+    await run(`ALTER TABLE "${t}" ALTER COLUMN branch_id SET DEFAULT NULLIF(current_setting('app.branch_id', true), '')`);
+  }
+  await run(`UPDATE class_schedules s SET branch_id = COALESCE(
+      (SELECT u.branch_id FROM users u WHERE u.id = s.teacher_id),
+      (SELECT b.id FROM branches b WHERE b.tenant_id = s.tenant_id AND b.is_main = true LIMIT 1)
+    ) WHERE s.branch_id IS NULL`);
+
+  console.log('\n== 2. Legacy classes -> weekly class_schedules (same id) ==');
+  await run(`INSERT INTO class_schedules (id, tenant_id, branch_id, teacher_id, subject_id, day_of_week, start_time, end_time, is_active, created_at)
+    SELECT c.id, c.tenant_id, c.branch_id, c.teacher_id, c.subject_id, ${WEEKDAY}, c.start_time, c.end_time, COALESCE(c.is_active, true), c.created_at
+    FROM classes c
+    WHERE NOT EXISTS (SELECT 1 FROM class_schedules s WHERE s.id = c.id)`);
+
+  console.log('\n== 3. One class_session per (class, date) that has attendance ==');
+  await run(`INSERT INTO class_sessions (tenant_id, branch_id, schedule_id, teacher_id, subject_id, session_date, start_time, end_time, location, status)
+    SELECT DISTINCT ON (a.class_id, a.attendance_date)
+      s.tenant_id, s.branch_id, s.id, s.teacher_id, s.subject_id, a.attendance_date, s.start_time, s.end_time, s.location, 'scheduled'
+    FROM attendance a
+    JOIN class_schedules s ON s.id = a.class_id
+    WHERE a.session_id IS NULL
+    ON CONFLICT DO NOTHING`);
+
+  console.log('\n== 4. Link attendance rows to their session ==');
+  await run(`UPDATE attendance a SET session_id = x.id
+    FROM class_sessions x
+    WHERE a.session_id IS NULL AND x.schedule_id = a.class_id AND x.session_date = a.attendance_date`);
+
+  console.log('\n== 5. Retire the legacy classes ==');
+  await run(`UPDATE classes SET is_active = false WHERE is_active IS DISTINCT FROM false`);
+
+  console.log('\nDone. Timetable migrated.');
+}
+
+if (phase === 'status') {
+  const count = async (sql) => (await c.query(sql)).rows[0].n;
+  console.log('legacy classes without a class_schedule (should be 0):',
+    await count(`SELECT count(*)::int n FROM classes c WHERE NOT EXISTS (SELECT 1 FROM class_schedules s WHERE s.id = c.id)`));
+  console.log('attendance rows without a session (should be 0):',
+    await count(`SELECT count(*)::int n FROM attendance WHERE session_id IS NULL`));
+  console.log('\nSessions per tenant:');
+  console.table((await c.query(
+    `SELECT t.name AS tenant, count(*)::int AS sessions,
+       count(*) FILTER (WHERE x.status = 'cancelled')::int AS cancelled,
+       count(*) FILTER (WHERE x.schedule_id IS NULL)::int AS extra_classes
+     FROM class_sessions x JOIN tenants t ON t.id = x.tenant_id GROUP BY t.name ORDER BY t.name`
+  )).rows);
+}
+
+await c.end();
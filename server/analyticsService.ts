@@ -7,7 +7,7 @@ import {
   students, 
   invoices, 
   payments, 
-  classes, 
+  classSchedules,
   attendance,
   billingHistory
 } from '@shared/schema';
@@ -84,8 +84,8 @@ export class AnalyticsService {
         totalClasses: count(),
         totalAttendance: sql<number>`COALESCE((SELECT COUNT(*) FROM ${attendance} WHERE ${attendance.tenantId} = ${tenantId} AND DATE(${attendance.markedAt}) = ${dateStr}), 0)`
       })
-      .from(classes)
-      .where(eq(classes.tenantId, tenantId));
+      .from(classSchedules)
+      .where(eq(classSchedules.tenantId, tenantId));
 
     // Calculate average attendance percentage
     const averageAttendance = academicMetrics.totalClasses > 0 
@@ -153,8 +153,8 @@ export class AnalyticsService {
         totalClasses: count(),
         totalAttendance: sql<number>`COALESCE((SELECT COUNT(*) FROM ${attendance} WHERE ${attendance.tenantId} = ${tenantId} AND DATE(${attendance.markedAt}) = ${dateStr}), 0)`
       })
-      .from(classes)
-      .where(eq(classes.tenantId, tenantId));
+      .from(classSchedules)
+      .where(eq(classSchedules.tenantId, tenantId));
 
     const averageAttendance = academicMetrics.totalClasses > 0 
       ? (academicMetrics.totalAttendance / academicMetrics.totalClasses) * 100 
@@ -0,0 +1,333 @@
+/**
+ * Taking and amending attendance for a class session.
+ *
+ * A session holds at most one mark per student (attendance_session_student_unique), so
+ * saving a register is an upsert: new marks are inserted, changed ones updated, and the
+ * rest left alone, always recorded against the signed-in user. Changing a mark that was
+ * already saved needs a reason and leaves a row in attendance_edits (who changed
+ * present to absent, when and why). Each school sets how many hours after a class ends
+ * staff may still change its register (tenants.attendance_amend_hours); after that only
+ * management can change saved marks (isAmendLocked), though students not marked yet can
+ * still be. Schools also choose how
+ * excused absences (excused, leave, medical) count in attendance percentages.
+ */
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import { attendance, attendanceEdits, classSessions, enrollments, students, tenants, users, type Attendance } from "@shared/schema";
+import {
+  ATTENDANCE_STATUSES,
+  attendanceRate,
+  EXCUSED_ABSENCE_POLICIES,
+  type AttendanceRate,
+  type AttendanceStatus,
+  type ExcusedAbsencePolicy,
+} from "@shared/attendance";
+
+export { ATTENDANCE_STATUSES, EXCUSED_ABSENCE_POLICIES, type AttendanceStatus, type ExcusedAbsencePolicy };
+
+export const AMEND_HOURS_LIMITS = { minHours: 1, maxHours: 30 * 24 };
+export const MAX_MINUTES_LATE = 600;
+
+export interface AttendanceMark {
+  studentId: string;
+  status: AttendanceStatus;
+  minutesLate?: number | null; // Late marks only
+  notes?: string | null;
+}
+
+/** Returns an error message, or null when the marks can be saved. */
+export function validateMarks(input: unknown): string | null {
+  if (!Array.isArray(input) || input.length === 0) return 'Mark at least one student';
+  const seen = new Set<string>();
+  for (const mark of input) {
+    if (!mark || typeof mark.studentId !== 'string' || !mark.studentId) return 'Each mark needs a student';
+    if (!(ATTENDANCE_STATUSES as readonly string[]).includes(mark.status)) {
+      return `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`;
+    }
+    if (mark.notes !== undefined && mark.notes !== null && typeof mark.notes !== 'string') return 'Notes must be text';
+    if (mark.minutesLate !== undefined && mark.minutesLate !== null) {
+      if (mark.status !== 'late') return 'Minutes late can only be given for a late mark';
+      if (!Number.isInteger(mark.minutesLate) || mark.minutesLate < 1 || mark.minutesLate > MAX_MINUTES_LATE) {
+        return `Minutes late must be a whole number from 1 to ${MAX_MINUTES_LATE}`;
+      }
+    }
+    if (seen.has(mark.studentId)) return 'A student is marked more than once';
+    seen.add(mark.studentId);
+  }
+  return null;
+}
+
+type SavedMark = Pick<Attendance, 'id' | 'studentId' | 'status' | 'notes'> & { minutesLate?: number | null };
+
+export interface MarkDiff {
+  create: AttendanceMark[];
+  update: Array<{ record: SavedMark; mark: AttendanceMark }>;
+  unchanged: number;
+}
+
+const sameNotes = (a?: string | null, b?: string | null) => (a?.trim() || null) === (b?.trim() || null);
+
+/**
+ * Split a register into marks to insert, saved marks to update (status, minutes late or
+ * notes differ) and marks already saved as they are. Notes or minutes late left out keep
+ * the saved ones.
+ */
+export function diffMarks(saved: SavedMark[], marks: AttendanceMark[]): MarkDiff {
+  const byStudent = new Map(saved.map((r) => [r.studentId, r]));
+  const diff: MarkDiff = { create: [], update: [], unchanged: 0 };
+  for (const mark of marks) {
+    const record = byStudent.get(mark.studentId);
+    if (!record) diff.create.push(mark);
+    else if (
+      record.status !== mark.status
+      || (mark.minutesLate !== undefined && (record.minutesLate ?? null) !== (mark.minutesLate ?? null))
+      || (mark.notes !== undefined && !sameNotes(record.notes, mark.notes))
+    ) {
+      diff.update.push({ record, mark });
+    } else diff.unchanged++;
+  }
+  return diff;
+}
+
+/** Saved marks whose status the register changes; each needs a reason and an edit row. */
+export const statusChanges = (diff: MarkDiff) => diff.update.filter(({ record, mark }) => record.status !== mark.status);
+
+/** Returns an error message, or null when the cut-off can be saved (null = no cut-off). */
+export function validateAmendHours(input: unknown): string | null {
+  if (input === null) return null;
+  if (!Number.isInteger(input) || (input as number) < AMEND_HOURS_LIMITS.minHours || (input as number) > AMEND_HOURS_LIMITS.maxHours) {
+    return `The cut-off must be between ${AMEND_HOURS_LIMITS.minHours} and ${AMEND_HOURS_LIMITS.maxHours} hours after the class`;
+  }
+  return null;
+}
+
+/** Returns an error message, or null when the excused-absence policy can be saved. */
+export function validateExcusedPolicy(input: unknown): string | null {
+  if (typeof input !== 'string' || !Object.prototype.hasOwnProperty.call(EXCUSED_ABSENCE_POLICIES, input)) {
+    return `Excused absences must be counted as one of: ${Object.keys(EXCUSED_ABSENCE_POLICIES).join(', ')}`;
+  }
+  return null;
+}
+
+const wallClock = (date: Date) => date.toISOString().slice(0, 16);
+
+/** When the register locks, as school-local "YYYY-MM-DDTHH:MM", or null when it never does. */
+export function amendDeadline(session: { sessionDate: string; endTime: string }, amendHours: number | null): string | null {
+  if (amendHours === null) return null;
+  const end = new Date(`${session.sessionDate}T${session.endTime.slice(0, 5)}:00Z`);
+  return wallClock(new Date(end.getTime() + amendHours * 60 * 60 * 1000));
+}
+
+/** The school-local time now, as "YYYY-MM-DDTHH:MM". */
+export function localNow(timeZone = 'Asia/Karachi', now = new Date()): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(now).map((p) => [p.type, p.value]),
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+/** True once the cut-off after the session has passed (staff other than management may no longer change its saved marks). */
+export function isAmendLocked(
+  session: { sessionDate: string; endTime: string },
+  amendHours: number | null,
+  timeZone?: string,
+  now = new Date(),
+): boolean {
+  const deadline = amendDeadline(session, amendHours);
+  return deadline !== null && localNow(timeZone, now) >= deadline;
+}
+
+/** Past the cut-off a register may only add marks; returns an error when it changes saved ones. */
+export function amendLockError(diff: MarkDiff, locked: boolean): string | null {
+  return locked && diff.update.length > 0 ? 'Attendance for this class is locked. Ask management to amend it.' : null;
+}
+
+export async function getAmendHours(tenantId: string): Promise<number | null> {
+  const [tenant] = await db.select({ hours: tenants.attendanceAmendHours }).from(tenants).where(eq(tenants.id, tenantId));
+  return tenant?.hours ?? null;
+}
+
+export interface AttendanceSettings {
+  amendHours: number | null;
+  excusedAbsences: ExcusedAbsencePolicy;
+}
+
+const policyOf = (value: string | null | undefined): ExcusedAbsencePolicy =>
+  value && value in EXCUSED_ABSENCE_POLICIES ? value as ExcusedAbsencePolicy : 'exclude';
+
+export async function getAttendanceSettings(tenantId: string): Promise<AttendanceSettings> {
+  const [tenant] = await db
+    .select({ amendHours: tenants.attendanceAmendHours, excusedAbsences: tenants.excusedAbsences })
+    .from(tenants)
+    .where(eq(tenants.id, tenantId));
+  return { amendHours: tenant?.amendHours ?? null, excusedAbsences: policyOf(tenant?.excusedAbsences) };
+}
+
+/** Save the settings given (either may be left out). */
+export async function saveAttendanceSettings(tenantId: string, input: Partial<Record<keyof AttendanceSettings, unknown>>): Promise<AttendanceSettings> {
+  const error =
+    (input.amendHours !== undefined ? validateAmendHours(input.amendHours) : null)
+    ?? (input.excusedAbsences !== undefined ? validateExcusedPolicy(input.excusedAbsences) : null);
+  if (error) throw new Error(error);
+  await db
+    .update(tenants)
+    .set({
+      ...(input.amendHours !== undefined ? { attendanceAmendHours: input.amendHours as number | null } : {}),
+      ...(input.excusedAbsences !== undefined ? { excusedAbsences: input.excusedAbsences as ExcusedAbsencePolicy } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(tenants.id, tenantId));
+  return await getAttendanceSettings(tenantId);
+}
+
+/** A student's attendance percentage, counting excused absences as their school chose. */
+export async function getStudentAttendanceRate(studentId: string): Promise<AttendanceRate & { excusedAbsences: ExcusedAbsencePolicy }> {
+  const [school] = await db
+    .select({ excusedAbsences: tenants.excusedAbsences })
+    .from(students)
+    .innerJoin(tenants, eq(students.tenantId, tenants.id))
+    .where(eq(students.id, studentId));
+  const excusedAbsences = policyOf(school?.excusedAbsences);
+  const marks = await db.select({ status: attendance.status }).from(attendance).where(eq(attendance.studentId, studentId));
+  return { ...attendanceRate(marks.map((m) => m.status), excusedAbsences), excusedAbsences };
+}
+
+export interface SaveAttendanceResult {
+  records: Attendance[];
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Save a session's register (all of it or some students) for the signed-in user. A
+ * reason is required when it changes a mark already saved. Students must be enrolled in
+ * the session's subject or already have a mark. Marks made by approving a leave request
+ * carry its id. `amendLocked` (past the cut-off, for staff other than management) refuses
+ * changes to saved marks but still takes new ones.
+ */
+export async function saveSessionAttendance(
+  session: { id: string; sessionDate: string; subjectId: string },
+  input: AttendanceMark[],
+  userId: string,
+  reason?: string,
+  options: { leaveRequestId?: string; amendLocked?: boolean } = {},
+): Promise<SaveAttendanceResult> {
+  return await db.transaction((tx) => saveSessionAttendanceIn(tx, session, input, userId, reason, options));
+}
+
+/** saveSessionAttendance inside the caller's transaction. */
+export async function saveSessionAttendanceIn(
+  tx: Tx,
+  session: { id: string; sessionDate: string; subjectId: string },
+  input: AttendanceMark[],
+  userId: string,
+  reason?: string,
+  options: { leaveRequestId?: string; amendLocked?: boolean } = {},
+): Promise<SaveAttendanceResult> {
+  const error = validateMarks(input);
+  if (error) throw new Error(error);
+  const marks: AttendanceMark[] = input.map(({ studentId, status, minutesLate, notes }) => ({ studentId, status, minutesLate, notes }));
+
+  // Serialise register saves per session, so two first saves can't both insert a student
+  await tx.select({ id: classSessions.id }).from(classSessions).where(eq(classSessions.id, session.id)).for('update');
+  const saved = await tx.select().from(attendance).where(eq(attendance.sessionId, session.id));
+  const diff = diffMarks(saved, marks);
+  const lockError = amendLockError(diff, !!options.amendLocked);
+  if (lockError) throw new Error(lockError);
+  const changes = statusChanges(diff);
+  if (changes.length > 0 && !reason?.trim()) {
+    throw new Error('Give a reason for changing attendance that was already taken');
+  }
+
+  if (diff.create.length > 0) {
+    const enrolled = await tx
+      .select({ studentId: enrollments.studentId })
+      .from(enrollments)
+      .where(and(
+        eq(enrollments.subjectId, session.subjectId),
+        eq(enrollments.isActive, true),
+        inArray(enrollments.studentId, diff.create.map((m) => m.studentId)),
+      ));
+    const inClass = new Set(enrolled.map((e) => e.studentId));
+    if (diff.create.some((m) => !inClass.has(m.studentId))) throw new Error('A student is not enrolled in this class');
+  }
+
+  const records: Attendance[] = [];
+  for (const mark of diff.create) {
+    const [record] = await (tx as any)
+      .insert(attendance)
+      .values({
+        sessionId: session.id,
+        studentId: mark.studentId,
+        attendanceDate: session.sessionDate,
+        status: mark.status,
+        minutesLate: mark.status === 'late' ? mark.minutesLate ?? null : null,
+        notes: mark.notes?.trim() || null,
+        leaveRequestId: options.leaveRequestId ?? null,
+        markedBy: userId,
+      })
+      .returning();
+    records.push(record);
+  }
+  for (const { record, mark } of diff.update) {
+    const [updated] = await tx
+      .update(attendance)
+      .set({
+        status: mark.status,
+        ...(mark.status !== 'late' ? { minutesLate: null } : mark.minutesLate !== undefined ? { minutesLate: mark.minutesLate } : {}),
+        ...(mark.notes !== undefined ? { notes: mark.notes?.trim() || null } : {}),
+        ...(mark.status !== record.status ? { leaveRequestId: options.leaveRequestId ?? null } : {}),
+        markedBy: userId,
+        markedAt: new Date(),
+      })
+      .where(eq(attendance.id, record.id))
+      .returning();
+    records.push(updated);
+  }
+  if (changes.length > 0) {
+    await (tx as any).insert(attendanceEdits).values(changes.map(({ record, mark }) => ({
+      attendanceId: record.id,
+      sessionId: session.id,
+      studentId: record.studentId,
+      previousStatus: record.status,
+      newStatus: mark.status,
+      reason: reason!.trim(),
+      changedBy: userId,
+    })));
+  }
+  return { records, created: diff.create.length, updated: diff.update.length, unchanged: diff.unchanged };
+}
+
+/** Every change made to the session's marks after they were taken, newest first. */
+export async function getAttendanceHistory(sessionId: string) {
+  const rows = await db
+    .select({
+      id: attendanceEdits.id,
+      attendanceId: attendanceEdits.attendanceId,
+      studentId: attendanceEdits.studentId,
+      studentFirstName: students.firstName,
+      studentLastName: students.lastName,
+      previousStatus: attendanceEdits.previousStatus,
+      newStatus: attendanceEdits.newStatus,
+      reason: attendanceEdits.reason,
+      changedBy: attendanceEdits.changedBy,
+      changedByFirstName: users.firstName,
+      changedByLastName: users.lastName,
+      changedAt: attendanceEdits.changedAt,
+    })
+    .from(attendanceEdits)
+    .innerJoin(students, eq(attendanceEdits.studentId, students.id))
+    .leftJoin(users, eq(attendanceEdits.changedBy, users.id))
+    .where(eq(attendanceEdits.sessionId, sessionId))
+    .orderBy(desc(attendanceEdits.changedAt), asc(students.firstName));
+  return rows.map(({ studentFirstName, studentLastName, changedByFirstName, changedByLastName, ...edit }) => ({
+    ...edit,
+    studentName: `${studentFirstName} ${studentLastName}`.trim(),
+    changedByName: `${changedByFirstName || ''} ${changedByLastName || ''}`.trim(),
+  }));
+}
@@ -0,0 +1,52 @@
+/**
+ * Security and account events written to audit_logs (sign-ins, lockouts, unlocks, ...).
+ *
+ * Many of these happen before a tenant is known (a failed login for an unknown email),
+ * so rows are written on the shared pool with the tenant set explicitly, or NULL for
+ * events that belong to no school. Writing an audit row must never break the action
+ * being audited: failures are logged and swallowed.
+ */
+import type { Request } from "express";
+import { poolDb } from "./db";
+import { auditLogs } from "@shared/schema";
+
+export interface AuditEvent {
+  tenantId?: string | null;
+  userId?: string | null;
+  action: string; // login, logout, login_failed, account_locked, account_unlocked, security_alert, ...
+  resource: string; // auth, user, ...
+  resourceId?: string | null;
+  details?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditOrigin {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/** IP address and user agent of the request, for AuditEvent. */
+export function requestOrigin(req: Request): AuditOrigin {
+  return {
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+    userAgent: req.get('User-Agent') || null,
+  };
+}
+
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    await poolDb.insert(auditLogs).values({
+      tenantId: event.tenantId ?? null,
+      userId: event.userId ?? null,
+      action: event.action,
+      resource: event.resource,
+      resourceId: event.resourceId ?? null,
+      details: event.details ?? null,
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to write audit event ${event.action}:`, error);
+  }
+}
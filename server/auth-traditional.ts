@@ -1,7 +1,47 @@
-import { Express, RequestHandler } from "express";
+import { Express, Request, RequestHandler } from "express";
 import session from "express-session";
 import { storage } from "./storage";
 import { comparePassword } from "./passwordUtils";
+import { requestPasswordReset, resetPassword } from "./passwordReset";
+import { changePassword, getPasswordPolicy, passwordChangeReason } from "./passwordPolicy";
+import { describePasswordPolicy } from "./passwordUtils";
+import {
+  ACTIVITY_WRITE_INTERVAL_MS,
+  destroyUserSession,
+  destroyUserSessions,
+  getIdleTimeouts,
+  idleLimitFor,
+  isSessionIdle,
+  listUserSessions,
+  publicSessionId,
+} from "./userSessions";
+import { runWithTenant } from "./db";
+import { recordAuditEvent, requestOrigin, type AuditOrigin } from "./auditLog";
+import { accessRoles, userPermissions } from "./permissions";
+import { currentImpersonation, impersonationMiddleware } from "./impersonation";
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  twoFactorSetupRequired,
+  verifySecondFactor,
+} from "./twoFactor";
+import type { User } from "@shared/schema";
+import {
+  clearFailedLogins,
+  ipFailureStats,
+  isIpBlocked,
+  isLockedOut,
+  isSuspiciousIp,
+  loginDelayMs,
+  LOGIN_LIMITS,
+  minutesUntil,
+  raiseSecurityAlert,
+  recordFailedLogin,
+  tenantsTargetedFrom,
+} from "./loginSecurity";
 import connectPg from "connect-pg-simple";
 
 // Session configuration for traditional auth
@@ -36,12 +76,128 @@ export const requireAuth: RequestHandler = (req, res, next) => {
   res.status(401).json({ message: "Authentication required" });
 };
 
+// Ends a session left unused for longer than the school allows for the user's role, and
+// records activity (at most once a minute) for the active sessions list
+export const expireIdleSessions: RequestHandler = async (req, res, next) => {
+  const user = req.session?.user;
+  if (!user) return next();
+  try {
+    const limit = user.tenantId ? idleLimitFor(await getIdleTimeouts(user.tenantId), user.role) : null;
+    const now = Date.now();
+    if (isSessionIdle(req.session.lastActivityAt, limit, now)) {
+      await recordAuditEvent({
+        tenantId: user.tenantId,
+        userId: user.id,
+        action: 'session_timeout',
+        resource: 'auth',
+        details: { idleMinutes: limit },
+        ...requestOrigin(req),
+      });
+      return req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.status(401).json({ message: "You were signed out after a period of inactivity", code: "SESSION_IDLE_TIMEOUT" });
+      });
+    }
+    if (now - (req.session.lastActivityAt ?? 0) > ACTIVITY_WRITE_INTERVAL_MS) {
+      req.session.lastActivityAt = now;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// What a session that still owes a password change or 2FA enrollment may call
+const ACCOUNT_SETUP_ALLOWED = new Set([
+  '/auth/user', '/auth/logout', '/auth/change-password', '/auth/password-policy',
+  '/auth/2fa', '/auth/2fa/setup', '/auth/2fa/enable',
+]);
+
+// Until a required password change / 2FA enrollment is done, every other API call is refused
+export const requireAccountSetup: RequestHandler = (req, res, next) => {
+  const user = req.session?.user;
+  if (!user || ACCOUNT_SETUP_ALLOWED.has(req.path)) {
+    return next();
+  }
+  if (user.mustChangePassword) {
+    return res.status(403).json({ message: "You must change your password before continuing", code: "PASSWORD_CHANGE_REQUIRED" });
+  }
+  if (user.twoFactorSetupRequired) {
+    return res.status(403).json({ message: "Set up two-factor authentication before continuing", code: "TWO_FACTOR_SETUP_REQUIRED" });
+  }
+  next();
+};
+
+// Run in the signed-in user's tenant (auth routes are registered before tenantDbMiddleware)
+function inUserTenant<T>(req: Request, fn: () => Promise<T>): Promise<T> {
+  const user = req.session.user!;
+  return runWithTenant(user.tenantId, user.branchId ?? null, fn);
+}
+
+// How long the password step of a two-factor sign-in stays valid
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
+// Many accounts failing from one IP raises the security alert (once per IP and window)
+async function alertIfSuspicious(origin: AuditOrigin) {
+  if (!origin.ipAddress) return;
+  const stats = await ipFailureStats(origin.ipAddress);
+  if (!isSuspiciousIp(stats)) return;
+  await raiseSecurityAlert(
+    `${stats.failures} failed sign-ins for ${stats.accounts} different accounts from ${origin.ipAddress} in ${LOGIN_LIMITS.ipWindowMinutes} minutes`,
+    await tenantsTargetedFrom(origin.ipAddress),
+    origin,
+  );
+}
+
+// Sign the user in once every factor has passed
+async function startSession(req: Request, user: User, origin: AuditOrigin, secondFactor?: string) {
+  await clearFailedLogins(user);
+  await recordAuditEvent({
+    tenantId: user.tenantId,
+    userId: user.id,
+    action: 'login',
+    resource: 'auth',
+    details: { email: user.email, ...(secondFactor ? { secondFactor } : {}) },
+    ...origin,
+  });
+
+  // A temporary password, a forced reset or an expired password must be changed first;
+  // then 2FA enrollment, where the school requires it for the role
+  const [changeReason, setupTwoFactor] = await runWithTenant(user.tenantId, null, async () =>
+    [await passwordChangeReason(user), await twoFactorSetupRequired(user)] as const);
+
+  // Store user in session (exclude password) - include tenantId for multi-tenant isolation
+  const userSession = {
+    id: user.id,
+    tenantId: user.tenantId, // Critical for multi-tenant data isolation
+    branchId: user.branchId ?? null, // Active branch (drives branch_id stamping on writes)
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    isSuperAdmin: user.isSuperAdmin,
+    isTeacher: user.isTeacher,
+    mustChangePassword: changeReason !== null,
+    passwordExpired: changeReason === 'expired',
+    twoFactorSetupRequired: setupTwoFactor,
+  };
+
+  delete req.session.pendingTwoFactor;
+  req.session.user = userSession;
+  req.session.device = { userAgent: origin.userAgent, ipAddress: origin.ipAddress, signedInAt: Date.now() };
+  req.session.lastActivityAt = Date.now();
+  return userSession;
+}
+
 // Set up traditional authentication routes
 export function setupTraditionalAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
+  app.use('/api', expireIdleSessions);
+  app.use('/api', requireAccountSetup);
+  app.use('/api', impersonationMiddleware);
 
-  // Login endpoint
+  // Login endpoint - throttled per account and per IP, every outcome audited (see loginSecurity.ts)
   app.post('/api/auth/login', async (req, res) => {
     try {
       const { email, password } = req.body;
@@ -50,56 +206,174 @@ export function setupTraditionalAuth(app: Express) {
         return res.status(400).json({ message: "Email and password are required" });
       }
 
+      const origin = requestOrigin(req);
+      const attempted = String(email).trim();
+      const failed = (reason: string, user?: { id: string; tenantId: string }) => recordAuditEvent({
+        tenantId: user?.tenantId ?? null,
+        userId: user?.id ?? null,
+        action: 'login_failed',
+        resource: 'auth',
+        details: { email: attempted, reason },
+        ...origin,
+      });
+
+      // An address that keeps failing is refused outright until its window passes
+      const ipStats = await ipFailureStats(origin.ipAddress);
+      if (isIpBlocked(ipStats)) {
+        await failed('ip_blocked');
+        res.set('Retry-After', String(LOGIN_LIMITS.ipWindowMinutes * 60));
+        return res.status(429).json({ message: "Too many failed sign-in attempts from this network. Please try again later." });
+      }
+
       // Find user by email
-      const user = await storage.getUserByEmail(email);
+      const user = await storage.getUserByEmail(attempted);
+
+      if (user && isLockedOut(user.lockedUntil)) {
+        await failed('locked', user);
+        return res.status(423).json({
+          message: `Too many failed sign-in attempts. Try again in ${minutesUntil(user.lockedUntil!)} minutes or ask an administrator to unlock your account.`,
+        });
+      }
+
+      // Progressive delay, so guessing gets slower with every recent failure
+      const delay = loginDelayMs(Math.max(ipStats.failures, user?.failedLoginCount ?? 0));
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+
       if (!user) {
+        await failed('unknown_account');
+        await alertIfSuspicious(origin);
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
       // Check if user is active
       if (!user.isActive) {
+        await failed('inactive', user);
         return res.status(401).json({ message: "Account is deactivated. Please contact administrator." });
       }
 
       // Verify password
       const isValidPassword = await comparePassword(password, user.password ?? '');
       if (!isValidPassword) {
+        await failed('bad_password', user);
+        const lockedUntil = await recordFailedLogin(user.id);
+        if (lockedUntil) {
+          await recordAuditEvent({
+            tenantId: user.tenantId,
+            userId: user.id,
+            action: 'account_locked',
+            resource: 'user',
+            resourceId: user.id,
+            details: { email: user.email, lockedUntil: lockedUntil.toISOString() },
+            ...origin,
+          });
+        }
+        await alertIfSuspicious(origin);
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      // Store user in session (exclude password) - include tenantId for multi-tenant isolation
-      const userSession = {
-        id: user.id,
-        tenantId: user.tenantId, // Critical for multi-tenant data isolation
-        branchId: user.branchId ?? null, // Active branch (drives branch_id stamping on writes)
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        isSuperAdmin: user.isSuperAdmin,
-        isTeacher: user.isTeacher,
-      };
-
-      req.session.user = userSession;
+      // Two-factor accounts finish signing in at /api/auth/login/2fa
+      if (user.twoFactorEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, tenantId: user.tenantId, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+        return res.json({ twoFactorRequired: true });
+      }
 
-      res.json(userSession);
+      res.json(await startSession(req, user, origin));
     } catch (error) {
       console.error('Login error:', error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Second sign-in step: a code from the authenticator app, or a recovery code
+  app.post('/api/auth/login/2fa', async (req, res) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your email and password again." });
+      }
+
+      const { code, recoveryCode } = req.body || {};
+      if (!code && !recoveryCode) {
+        return res.status(400).json({ message: "Enter the code from your authenticator app or a recovery code" });
+      }
+
+      const origin = requestOrigin(req);
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Account is deactivated. Please contact administrator." });
+      }
+      if (isLockedOut(user.lockedUntil)) {
+        delete req.session.pendingTwoFactor;
+        return res.status(423).json({
+          message: `Too many failed sign-in attempts. Try again in ${minutesUntil(user.lockedUntil!)} minutes or ask an administrator to unlock your account.`,
+        });
+      }
+
+      const passed = await runWithTenant(user.tenantId, null, () =>
+        verifySecondFactor(user.id, { code: code ? String(code) : undefined, recoveryCode: recoveryCode ? String(recoveryCode) : undefined }));
+      if (!passed) {
+        await recordAuditEvent({
+          tenantId: user.tenantId,
+          userId: user.id,
+          action: 'login_failed',
+          resource: 'auth',
+          details: { email: user.email, reason: 'bad_2fa_code' },
+          ...origin,
+        });
+        const lockedUntil = await recordFailedLogin(user.id);
+        if (lockedUntil) {
+          delete req.session.pendingTwoFactor;
+          await recordAuditEvent({
+            tenantId: user.tenantId,
+            userId: user.id,
+            action: 'account_locked',
+            resource: 'user',
+            resourceId: user.id,
+            details: { email: user.email, lockedUntil: lockedUntil.toISOString() },
+            ...origin,
+          });
+          return res.status(423).json({
+            message: `Too many failed sign-in attempts. Try again in ${minutesUntil(lockedUntil)} minutes or ask an administrator to unlock your account.`,
+          });
+        }
+        // 400 rather than 401: the pending sign-in is still valid, only this code was wrong
+        return res.status(400).json({ message: "That code is not valid" });
+      }
+
+      res.json(await startSession(req, user, origin, passed));
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Get current user endpoint
-  app.get('/api/auth/user', (req, res) => {
-    if (req.session?.user) {
-      res.json(req.session.user);
-    } else {
-      res.status(401).json({ message: "Not authenticated" });
+  app.get('/api/auth/user', async (req, res) => {
+    const user = req.session?.user;
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    try {
+      // The dashboards the role selector offers are the user's access roles, and the
+      // permissions (base role defaults or their custom role) decide the navigation
+      const permissions = user.role === 'super_admin'
+        ? await userPermissions(user) // platform admins have no tenant; they hold every permission
+        : await inUserTenant(req, () => userPermissions(user));
+      res.json({ ...user, accessibleDashboards: accessRoles(user), permissions, impersonation: await currentImpersonation(req) });
+    } catch (error) {
+      console.error('Error fetching user permissions:', error);
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
   // Logout endpoint
   app.post('/api/auth/logout', (req, res) => {
+    const user = req.session?.user;
+    if (user) {
+      void recordAuditEvent({ tenantId: user.tenantId, userId: user.id, action: 'logout', resource: 'auth', ...requestOrigin(req) });
+    }
     req.session.destroy((err) => {
       if (err) {
         console.error('Logout error:', err);
@@ -110,7 +384,150 @@ export function setupTraditionalAuth(app: Express) {
     });
   });
 
-  // Forgot password endpoint (placeholder for future email functionality)
+  // The signed-in user's school password rules, for the change-password form
+  app.get('/api/auth/password-policy', requireAuth, async (req, res) => {
+    try {
+      const policy = await inUserTenant(req, () => getPasswordPolicy());
+      res.json({ ...policy, requirements: describePasswordPolicy(policy) });
+    } catch (error) {
+      console.error('Error fetching password policy:', error);
+      res.status(500).json({ message: "Failed to fetch password policy" });
+    }
+  });
+
+  // Change own password (also completes a required change); signs out other devices
+  app.post('/api/auth/change-password', requireAuth, async (req, res) => {
+    const { currentPassword, newPassword } = req.body || {};
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ message: "Current and new password are required" });
+    }
+    try {
+      const sessionUser = req.session.user!;
+      await inUserTenant(req, () => changePassword(sessionUser.id, String(currentPassword), String(newPassword)));
+
+      req.session.user = { ...sessionUser, mustChangePassword: false, passwordExpired: false };
+      await destroyUserSessions(sessionUser.id, req.sessionID);
+      res.json(req.session.user);
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to change password" });
+    }
+  });
+
+  // ---- Two-factor authentication (see twoFactor.ts) ----
+  const twoFactorEvent = (req: Request, action: string) => recordAuditEvent({
+    tenantId: req.session.user!.tenantId,
+    userId: req.session.user!.id,
+    action,
+    resource: 'user',
+    resourceId: req.session.user!.id,
+    ...requestOrigin(req),
+  });
+
+  app.get('/api/auth/2fa', requireAuth, async (req, res) => {
+    try {
+      res.json(await inUserTenant(req, () => getTwoFactorStatus(req.session.user!.id)));
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // New pending secret as a QR code; not active until confirmed with a code
+  app.post('/api/auth/2fa/setup', requireAuth, async (req, res) => {
+    try {
+      res.json(await inUserTenant(req, () => beginTwoFactorSetup(req.session.user!.id)));
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post('/api/auth/2fa/enable', requireAuth, async (req, res) => {
+    try {
+      const recoveryCodes = await inUserTenant(req, () => enableTwoFactor(req.session.user!.id, String(req.body?.code ?? '')));
+      req.session.user = { ...req.session.user!, twoFactorSetupRequired: false };
+      await twoFactorEvent(req, 'two_factor_enabled');
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, async (req, res) => {
+    try {
+      const recoveryCodes = await inUserTenant(req, () => regenerateRecoveryCodes(req.session.user!.id, String(req.body?.code ?? '')));
+      await twoFactorEvent(req, 'two_factor_recovery_codes_regenerated');
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Recovery code error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create recovery codes" });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', requireAuth, async (req, res) => {
+    try {
+      await inUserTenant(req, () => disableTwoFactor(req.session.user!.id, String(req.body?.password ?? '')));
+      await twoFactorEvent(req, 'two_factor_disabled');
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  // Where the user is signed in (device, IP, last activity), this session first
+  app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    const user = req.session.user!;
+    try {
+      const limit = user.tenantId ? idleLimitFor(await getIdleTimeouts(user.tenantId), user.role) : null;
+      res.json(await listUserSessions(user.id, req.sessionID, limit));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  const sessionEvent = (req: Request, action: string, details: Record<string, unknown>) => recordAuditEvent({
+    tenantId: req.session.user!.tenantId,
+    userId: req.session.user!.id,
+    action,
+    resource: 'auth',
+    details,
+    ...requestOrigin(req),
+  });
+
+  // Sign out one other device; this session signs out with /api/auth/logout
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+      const user = req.session.user!;
+      if (publicSessionId(req.sessionID) === req.params.id) {
+        return res.status(400).json({ message: "Use Sign Out to end this session" });
+      }
+      if (!(await destroyUserSession(user.id, req.params.id))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await sessionEvent(req, 'session_revoked', { sessionId: req.params.id });
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  app.post('/api/auth/sessions/sign-out-others', requireAuth, async (req, res) => {
+    try {
+      const ended = await destroyUserSessions(req.session.user!.id, req.sessionID);
+      await sessionEvent(req, 'sessions_revoked', { count: ended });
+      res.json({ message: `Signed out of ${ended} other session(s)`, count: ended });
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+
+  // Forgot password: emails a single-use reset link (see passwordReset.ts)
   app.post('/api/auth/forgot-password', async (req, res) => {
     try {
       const { email } = req.body;
@@ -119,27 +536,35 @@ export function setupTraditionalAuth(app: Express) {
         return res.status(400).json({ message: "Email is required" });
       }
 
-      // Check if user exists
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        // Don't reveal if email exists or not for security
-        return res.json({ message: "If an account exists with this email, you will receive password reset instructions." });
+      // The link is never built from the request's Host header: a forged one would mail
+      // a valid token inside a link to someone else's site
+      const baseUrl = process.env.APP_URL;
+      if (!baseUrl) {
+        console.error('Forgot password: APP_URL is not set, no reset link sent');
+      } else {
+        // Same answer whether or not the account exists, so addresses can't be probed
+        await requestPasswordReset(String(email), { baseUrl, ip: req.ip });
       }
 
-      // TODO: Implement email sending functionality
-      // For now, just log the reset request
-      console.log(`Password reset requested for user: ${email} (ID: ${user.id})`);
-      
-      // In a real implementation, you would:
-      // 1. Generate a secure reset token
-      // 2. Store it in the database with expiration
-      // 3. Send email with reset link
-      // 4. Implement reset password endpoint
-
       res.json({ message: "If an account exists with this email, you will receive password reset instructions." });
     } catch (error) {
       console.error('Forgot password error:', error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-}
\ No newline at end of file
+
+  // Reset password with the emailed token; signs the user out everywhere
+  app.post('/api/auth/reset-password', async (req, res) => {
+    const { token, password } = req.body || {};
+    if (!token || !password) {
+      return res.status(400).json({ message: "Token and new password are required" });
+    }
+    try {
+      await resetPassword(String(token), String(password));
+      res.json({ message: "Your password has been reset. Please sign in with your new password." });
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reset password" });
+    }
+  });
+}
@@ -1,11 +1,23 @@
 import { storage } from "./storage";
 import { db } from "./db";
-import { invoices, payments, paymentAllocations, invoiceAdjustments, billingSchedules, enrollments, subjects } from "@shared/schema";
-import { eq, and, sum, desc, gte, lte, sql } from "drizzle-orm";
+import { invoices, invoiceItems, payments, paymentAllocations, paymentRefunds, invoiceAdjustments, billingSchedules, enrollments, subjects, subjectCombos, comboSubjects, students, studentCreditMovements, dailyClose } from "@shared/schema";
+import { eq, and, or, isNull, sum, desc, asc, gte, lte, sql, type SQL } from "drizzle-orm";
+import { nextDocumentNumber } from "./sequences";
+import { creditSources, planCreditDraw, withRunningBalance } from "./studentCredit";
+import { roundMoney } from "./payouts";
+import { invoiceStatusAsOf, planRefund, refundableAmount } from "./refunds";
+import { addDays, billingPeriod, dueBillingDates, nextBillingDate, type JobCounts } from "./billingSchedules";
+import { billingMonth, billedDays, buildInvoiceLines, invoiceTotals, type ComboPrice, type EnrollmentLike, type SubjectPrice } from "./monthlyBilling";
+import { todayIn } from "./lateFees";
+import { subjectFeesOn } from "./subjectCatalogue";
+import { getCurrentBranchId } from "./tenantContext";
 
 export interface BillingService {
   // Standard monthly billing
-  generateMonthlyInvoices(targetDate?: string): Promise<any[]>;
+  generateMonthlyInvoices(options?: MonthlyBillingOptions): Promise<any[]>;
+  
+  // Recurring billing from billing_schedules
+  generateScheduledInvoices(asOf: string, createdBy: string): Promise<ScheduledBillingResult>;
   
   // Advance payments
   processAdvancePayment(studentId: string, amount: number, paymentData: any): Promise<any>;
@@ -21,106 +33,390 @@ export interface BillingService {
   
   // Credit management
   getStudentCredit(studentId: string): Promise<number>;
+  getStudentCreditMovements(studentId: string): Promise<any[]>;
+  createStudentCredit(studentId: string, amount: number, paymentId: string, type?: 'advance_payment' | 'overpayment', createdBy?: string): Promise<any>;
+  applyCreditToInvoice(invoiceId: string, amount?: number, createdBy?: string): Promise<any>;
+  refundStudentCredit(studentId: string, amount: number, refundedBy: string, reason: string, timeZone?: string): Promise<any[]>;
+  
+  // Refunds / reversals
+  refundPayment(paymentId: string, refund: RefundRequest): Promise<any>;
+  getPaymentRefunds(filters?: { date?: string; paymentId?: string; studentId?: string }): Promise<any[]>;
+  getPaymentRefund(id: string): Promise<any | undefined>;
   allocatePaymentToInvoices(paymentId: string, allocations: any[]): Promise<any>;
   
   // Invoice management
   updateInvoiceStatus(invoiceId: string): Promise<any>;
   getInvoiceBalance(invoiceId: string): Promise<number>;
+  
+  // Document numbering
+  generateInvoiceNumber(): Promise<string>;
+  generateReceiptNumber(invoiceNumber?: string): Promise<string>;
+  generateCreditNoteNumber(): Promise<string>;
+}
+
+export interface RefundRequest {
+  amount?: number; // Defaults to everything still refundable
+  reason: string;
+  refundMethod?: 'cash' | 'bank_transfer' | 'card' | 'cheque'; // Defaults to the payment's method
+  refundDate?: string; // YYYY-MM-DD, defaults to today
+  processedBy: string;
+  creditOnly?: boolean; // Only return what is still in the credit wallet; leave invoices alone
+  timeZone?: string; // Tenant timezone, for "today"
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface MonthlyBillingOptions {
+  targetDate?: string; // YYYY-MM-DD issue date; bills the calendar month it falls in. Defaults to today
+  createdBy?: string;
+  timezone?: string; // Tenant timezone, for "today" and enrollment dates
+  dryRun?: boolean; // Return the would-be invoices without writing anything
+}
+
+export interface ScheduledBillingResult extends JobCounts {
+  asOf: string;
+  amount: number;
+  errors: string[];
+  invoices: any[];
 }
 
 export class PrimaxBillingService implements BillingService {
   
   /**
-   * Generate monthly invoices for all active students on the 1st of the month
+   * Generate the month's invoice for every student with billable enrollments, itemised
+   * per subject or combo with the enrollment discount carried through and prorated for
+   * mid-month joins and withdrawals. Enrollments a billing schedule already billed for
+   * the month are skipped, and a student gets at most one such invoice a month however
+   * many runs overlap. A dry run writes nothing and returns the would-be invoices (with
+   * their items) for review.
    */
-  async generateMonthlyInvoices(targetDate?: string): Promise<any[]> {
-    const billingDate = targetDate ? new Date(targetDate) : new Date();
-    const firstOfMonth = new Date(billingDate.getFullYear(), billingDate.getMonth(), 1);
-    const lastOfMonth = new Date(billingDate.getFullYear(), billingDate.getMonth() + 1, 0);
+  async generateMonthlyInvoices(options: MonthlyBillingOptions = {}): Promise<any[]> {
+    const timezone = options.timezone || 'Asia/Karachi';
+    const createdBy = options.createdBy || 'system';
+    const issueDate = options.targetDate || todayIn(timezone);
+    const month = billingMonth(issueDate);
     
-    // Get all active enrollments
-    const activeEnrollments = await db
+    // Active enrollments, plus any withdrawn during the month (billed up to the withdrawal)
+    const rows = await db
       .select({
-        studentId: enrollments.studentId,
-        subjectId: enrollments.subjectId,
-        baseFee: subjects.baseFee
+        enrollment: enrollments,
+        branchId: students.branchId,
+        studentName: sql<string>`${students.firstName} || ' ' || ${students.lastName}`,
+        rollNumber: students.rollNumber,
       })
       .from(enrollments)
-      .innerJoin(subjects, eq(enrollments.subjectId, subjects.id))
-      .where(eq(enrollments.isActive, true));
+      .innerJoin(students, eq(enrollments.studentId, students.id))
+      .where(or(
+        eq(enrollments.isActive, true),
+        gte(enrollments.withdrawnAt, new Date(Date.parse(month.start) - 24 * 60 * 60 * 1000)),
+      ));
+    
+    // Price each subject at the fee in force on the first day of the month billed
+    const feesForMonth = await subjectFeesOn(month.start);
+    const subjectPrices = new Map<string, SubjectPrice>(
+      (await db.select({ id: subjects.id, name: subjects.name, baseFee: subjects.baseFee }).from(subjects))
+        .map((subject) => [subject.id, { ...subject, baseFee: feesForMonth.get(subject.id) ?? subject.baseFee }]),
+    );
+    const comboPrices = new Map<string, ComboPrice>();
+    const comboRows = await db
+      .select({ combo: subjectCombos, subjectId: comboSubjects.subjectId })
+      .from(subjectCombos)
+      .leftJoin(comboSubjects, eq(comboSubjects.comboId, subjectCombos.id));
+    for (const { combo, subjectId } of comboRows) {
+      const entry = comboPrices.get(combo.id) || { id: combo.id, name: combo.name, discountedFee: combo.discountedFee, subjectIds: [] };
+      if (subjectId) entry.subjectIds.push(subjectId);
+      comboPrices.set(combo.id, entry);
+    }
+    
+    // Enrollments a billing schedule has already billed for some of the month are left to it
+    const scheduled = await db
+      .select({ enrollmentId: billingSchedules.enrollmentId })
+      .from(invoices)
+      .innerJoin(billingSchedules, eq(invoices.billingScheduleId, billingSchedules.id))
+      .where(and(lte(invoices.billingPeriodStart, month.end), gte(invoices.billingPeriodEnd, month.start)));
+    const billedBySchedule = new Set(scheduled.map((s) => s.enrollmentId));
     
     // Group by student
-    const studentEnrollments = activeEnrollments.reduce((acc, enrollment) => {
-      if (!acc[enrollment.studentId]) {
-        acc[enrollment.studentId] = [];
+    const studentEnrollments = rows.filter((row) => !billedBySchedule.has(row.enrollment.id)).reduce((acc, row) => {
+      if (!acc[row.enrollment.studentId]) {
+        acc[row.enrollment.studentId] = { student: row, enrollments: [] };
       }
-      acc[enrollment.studentId].push(enrollment);
+      acc[row.enrollment.studentId].enrollments.push({
+        ...row.enrollment,
+        enrolledOn: row.enrollment.enrolledAt ? todayIn(timezone, row.enrollment.enrolledAt) : null,
+        withdrawnOn: row.enrollment.withdrawnAt ? todayIn(timezone, row.enrollment.withdrawnAt) : null,
+      });
       return acc;
-    }, {} as Record<string, any[]>);
+    }, {} as Record<string, { student: (typeof rows)[number]; enrollments: EnrollmentLike[] }>);
     
     const generatedInvoices = [];
     
-    for (const [studentId, studentSubjects] of Object.entries(studentEnrollments)) {
-      // Check if student already has an invoice for this billing period
-      const existingInvoice = await db
-        .select()
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.studentId, studentId),
-            eq(invoices.billingPeriodStart, firstOfMonth.toISOString().split('T')[0]),
-            eq(invoices.type, 'monthly')
-          )
-        );
-      
+    // This run's own invoice for the student and month (schedule-generated ones are matched per enrollment above)
+    const monthlyRunInvoice = (studentId: string) => and(
+      eq(invoices.studentId, studentId),
+      eq(invoices.billingPeriodStart, month.start),
+      eq(invoices.type, 'monthly'),
+      isNull(invoices.billingScheduleId)
+    );
+    
+    for (const [studentId, { student, enrollments: studentRows }] of Object.entries(studentEnrollments)) {
+      const existingInvoice = await db.select({ id: invoices.id }).from(invoices).where(monthlyRunInvoice(studentId));
       if (existingInvoice.length > 0) {
         continue; // Skip if already billed
       }
       
-      // Calculate total monthly fee
-      const totalFee = studentSubjects.reduce((sum, subject) => 
-        sum + parseFloat(subject.baseFee), 0
-      );
-      
-      // Check for any existing student credit
-      const studentCredit = await this.getStudentCredit(studentId);
-      const finalAmount = Math.max(0, totalFee - studentCredit);
+      const items = buildInvoiceLines(studentRows, subjectPrices, comboPrices, month);
+      if (items.length === 0) continue;
+      const totals = invoiceTotals(items);
+      const prorated = items.filter((item) => item.billedDays < month.days);
       
-      // Generate invoice
-      const invoiceData = {
+      const draft = {
         studentId,
-        invoiceNumber: await this.generateInvoiceNumber(),
-        type: 'monthly',
-        billingPeriodStart: firstOfMonth.toISOString().split('T')[0],
-        billingPeriodEnd: lastOfMonth.toISOString().split('T')[0],
-        issueDate: billingDate.toISOString().split('T')[0],
-        dueDate: new Date(billingDate.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 7 days from issue
-        subtotal: totalFee.toString(),
-        discount: '0',
-        lateFee: '0',
-        adjustments: (studentCredit > 0 ? Math.min(studentCredit, totalFee) : 0).toString(),
-        total: finalAmount.toString(),
-        amountPaid: '0',
-        balanceDue: finalAmount.toString(),
-        status: finalAmount > 0 ? 'sent' : 'paid',
-        notes: studentCredit > 0 ? `Applied student credit: Rs. ${Math.min(studentCredit, totalFee)}` : null,
-        createdBy: 'system'
+        studentName: student.studentName,
+        rollNumber: student.rollNumber,
+        branchId: student.branchId, // the student's campus, not the caller's
+        type: 'monthly' as const,
+        billingPeriodStart: month.start,
+        billingPeriodEnd: month.end,
+        issueDate,
+        dueDate: addDays(issueDate, 7),
+        subtotal: totals.subtotal.toFixed(2),
+        discount: totals.discount.toFixed(2),
+        total: totals.total.toFixed(2),
+        notes: prorated.length ? `Prorated: ${prorated.map((item) => item.description).join('; ')}` : null,
+        items,
       };
       
-      const invoice = await storage.createInvoice(invoiceData);
+      if (options.dryRun) {
+        generatedInvoices.push({ ...draft, invoiceNumber: null, creditAvailable: await this.getStudentCredit(studentId) });
+        continue;
+      }
       
-      // If credit was used, create a payment record for the credit application
-      if (studentCredit > 0 && totalFee > 0) {
-        const creditUsed = Math.min(studentCredit, totalFee);
-        await this.applyCreditToInvoice(invoice.id, creditUsed);
+      // Bill the full fee; any wallet credit is then applied as a payment against it
+      const invoiceNumber = await this.generateInvoiceNumber();
+      let invoice = await db.transaction(async (tx) => {
+        // Serialise per student and check again, so overlapping runs can't both bill the month
+        await tx.select({ id: students.id }).from(students).where(eq(students.id, studentId)).for('update');
+        const [billed] = await tx.select({ id: invoices.id }).from(invoices).where(monthlyRunInvoice(studentId));
+        if (billed) return undefined;
+        
+        const [created] = await (tx as any)
+          .insert(invoices)
+          .values({
+            studentId,
+            branchId: draft.branchId,
+            invoiceNumber,
+            type: draft.type,
+            billingPeriodStart: draft.billingPeriodStart,
+            billingPeriodEnd: draft.billingPeriodEnd,
+            issueDate: draft.issueDate,
+            dueDate: draft.dueDate,
+            subtotal: draft.subtotal,
+            discount: draft.discount,
+            lateFee: '0',
+            adjustments: '0',
+            total: draft.total,
+            amountPaid: '0',
+            balanceDue: draft.total,
+            status: 'sent',
+            notes: draft.notes,
+            createdBy,
+          })
+          .returning();
+        await (tx as any).insert(invoiceItems).values(items.map((item) => ({
+          invoiceId: created.id,
+          enrollmentId: item.enrollmentId,
+          subjectId: item.subjectId,
+          comboId: item.comboId,
+          type: item.type,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice.toFixed(2),
+          discountType: item.discountType,
+          discountValue: item.discountValue.toFixed(2),
+          discountAmount: item.discountAmount.toFixed(2),
+          discountReason: item.discountReason,
+          discountApprovedBy: item.discountApprovedBy,
+          total: item.total.toFixed(2),
+        })));
+        return created;
+      });
+      if (!invoice) continue; // another run billed the student first
+      
+      const studentCredit = await this.getStudentCredit(studentId);
+      if (studentCredit > 0 && totals.total > 0) {
+        const applied = await this.applyCreditToInvoice(invoice.id, Math.min(studentCredit, totals.total));
+        invoice = applied.invoice;
       }
       
-      generatedInvoices.push(invoice);
+      generatedInvoices.push({ ...invoice, studentName: draft.studentName, rollNumber: draft.rollNumber, items });
     }
     
     return generatedInvoices;
   }
   
+  /**
+   * Bill every active schedule whose next billing date has arrived, catching up on
+   * periods missed while the server was down. Each period is written in its own
+   * transaction together with the schedule advance, so a crash or an overlapping run
+   * never bills a period twice (the invoice also carries a unique schedule/period key).
+   */
+  async generateScheduledInvoices(asOf: string, createdBy: string): Promise<ScheduledBillingResult> {
+    const result: ScheduledBillingResult = { asOf, processed: 0, generated: 0, skipped: 0, failed: 0, amount: 0, errors: [], invoices: [] };
+
+    const due = await db
+      .select({
+        schedule: billingSchedules,
+        subjectId: enrollments.subjectId,
+        subjectName: subjects.name,
+        enrollmentActive: enrollments.isActive,
+        branchId: students.branchId,
+        studentActive: students.isActive,
+        studentName: sql<string>`${students.firstName} || ' ' || ${students.lastName}`,
+      })
+      .from(billingSchedules)
+      .innerJoin(enrollments, eq(billingSchedules.enrollmentId, enrollments.id))
+      .innerJoin(students, eq(billingSchedules.studentId, students.id))
+      .leftJoin(subjects, eq(enrollments.subjectId, subjects.id))
+      .where(and(eq(billingSchedules.isActive, true), lte(billingSchedules.nextBillingDate, asOf)))
+      .orderBy(asc(billingSchedules.nextBillingDate));
+
+    for (const row of due) {
+      const schedule = row.schedule;
+      result.processed++;
+
+      // Enrollment ended or the schedule ran past its end date: stop billing it
+      const dates = dueBillingDates(schedule, asOf);
+      if (row.enrollmentActive === false || dates.length === 0) {
+        await db
+          .update(billingSchedules)
+          .set({ isActive: false, updatedAt: new Date() })
+          .where(eq(billingSchedules.id, schedule.id));
+        result.skipped++;
+        continue;
+      }
+      if (row.studentActive === false) {
+        result.skipped++;
+        continue;
+      }
+
+      for (const date of dates) {
+        try {
+          const invoice = await this.billSchedulePeriod(row, date, createdBy);
+          if (!invoice) {
+            result.skipped++;
+            continue;
+          }
+          result.generated++;
+          result.amount = roundMoney(result.amount + Number(invoice.total));
+          result.invoices.push(invoice);
+        } catch (error) {
+          // Leave the schedule on this date so the next run retries it
+          result.failed++;
+          result.errors.push(`${row.studentName} (${date}): ${error instanceof Error ? error.message : String(error)}`);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** Bill one period of a schedule and advance it. Returns undefined if nothing was billed. */
+  private async billSchedulePeriod(
+    row: { schedule: typeof billingSchedules.$inferSelect; subjectId: string | null; subjectName: string | null; branchId: string | null },
+    date: string,
+    createdBy: string,
+  ): Promise<any | undefined> {
+    const schedule = row.schedule;
+    const period = billingPeriod(date, schedule.frequency, schedule.dayOfMonth);
+    const next = nextBillingDate(date, schedule.frequency, schedule.dayOfMonth);
+
+    // Already billed by this schedule, or covered by a manual monthly run for the period
+    const [existing] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(and(
+        eq(invoices.studentId, schedule.studentId),
+        eq(invoices.billingPeriodStart, period.start),
+        or(
+          eq(invoices.billingScheduleId, schedule.id),
+          and(isNull(invoices.billingScheduleId), eq(invoices.type, 'monthly')),
+        ),
+      ));
+    const invoiceNumber = existing ? null : await this.generateInvoiceNumber();
+    const amount = roundMoney(Number(schedule.amount));
+
+    const invoice = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select({ nextBillingDate: billingSchedules.nextBillingDate, isActive: billingSchedules.isActive })
+        .from(billingSchedules)
+        .where(eq(billingSchedules.id, schedule.id))
+        .for('update');
+      if (!locked || !locked.isActive || locked.nextBillingDate !== date) return undefined; // another run got here first
+
+      let created: any;
+      if (invoiceNumber) {
+        [created] = await (tx as any)
+          .insert(invoices)
+          .values({
+            branchId: row.branchId,
+            invoiceNumber,
+            studentId: schedule.studentId,
+            type: 'monthly',
+            billingPeriodStart: period.start,
+            billingPeriodEnd: period.end,
+            issueDate: date,
+            dueDate: addDays(date, 7),
+            subtotal: amount.toFixed(2),
+            discount: '0',
+            lateFee: '0',
+            adjustments: '0',
+            total: amount.toFixed(2),
+            amountPaid: '0',
+            balanceDue: amount.toFixed(2),
+            status: 'sent',
+            isRecurring: true,
+            billingScheduleId: schedule.id,
+            createdBy,
+          })
+          .onConflictDoNothing()
+          .returning();
+        if (created) {
+          await (tx as any).insert(invoiceItems).values({
+            invoiceId: created.id,
+            subjectId: row.subjectId,
+            type: 'subject',
+            description: row.subjectName || 'Tuition fee',
+            quantity: 1,
+            unitPrice: amount.toFixed(2),
+            total: amount.toFixed(2),
+          });
+        }
+      }
+
+      await tx
+        .update(billingSchedules)
+        .set({
+          lastGeneratedDate: date,
+          nextBillingDate: next,
+          isActive: !(schedule.endDate && next > schedule.endDate),
+          updatedAt: new Date(),
+        })
+        .where(eq(billingSchedules.id, schedule.id));
+
+      return created;
+    });
+
+    if (!invoice) return undefined;
+
+    const credit = await this.getStudentCredit(schedule.studentId);
+    if (credit > 0 && amount > 0) {
+      return (await this.applyCreditToInvoice(invoice.id, Math.min(credit, amount))).invoice;
+    }
+    return invoice;
+  }
+  
   /**
    * Process advance payments that cover multiple months
    */
@@ -189,7 +485,7 @@ export class PrimaxBillingService implements BillingService {
     
     // If there's still remaining amount, it becomes student credit for future invoices
     if (remainingAmount > 0) {
-      await this.createStudentCredit(studentId, remainingAmount, payment.id);
+      await this.createStudentCredit(studentId, remainingAmount, payment.id, 'advance_payment', paymentData.receivedBy);
     }
     
     return {
@@ -267,21 +563,23 @@ export class PrimaxBillingService implements BillingService {
         )
       );
     
+    const fees = await subjectFeesOn(enrollmentDate.toISOString().split('T')[0]);
     const totalMonthlyFee = studentEnrollments.reduce((sum, enrollment) => 
-      sum + parseFloat(enrollment.baseFee), 0
+      sum + (fees.get(enrollment.subjectId!) ?? parseFloat(enrollment.baseFee)), 0
     );
     
     let finalAmount = totalMonthlyFee;
     let notes = 'Mid-month enrollment - full month fee';
     
     if (!isFullMonth) {
-      // Calculate pro-rated amount
-      const daysInMonth = new Date(enrollmentDate.getFullYear(), enrollmentDate.getMonth() + 1, 0).getDate();
-      const remainingDays = daysInMonth - enrollmentDate.getDate() + 1;
-      const proRationFactor = remainingDays / daysInMonth;
+      // Calculate pro-rated amount (same days-covered rule as monthly generation)
+      const enrolledOn = enrollmentDate.toISOString().split('T')[0];
+      const month = billingMonth(enrolledOn);
+      const remainingDays = billedDays(month, enrolledOn);
+      const proRationFactor = remainingDays / month.days;
       
       finalAmount = Math.round(totalMonthlyFee * proRationFactor);
-      notes = `Pro-rated fee for ${remainingDays} days of ${daysInMonth} total days`;
+      notes = `Pro-rated fee for ${remainingDays} days of ${month.days} total days`;
     }
     
     const invoiceData = {
@@ -427,7 +725,8 @@ export class PrimaxBillingService implements BillingService {
     const totalInvoiced = studentInvoices.reduce((sum: number, inv: any) => sum + parseFloat(inv.total), 0);
     const totalPaid = studentPayments.reduce((sum: number, pay: any) => sum + parseFloat(pay.amount), 0);
     const totalOutstanding = studentInvoices.reduce((sum: number, inv: any) => sum + parseFloat(inv.balanceDue || '0'), 0);
-    const creditBalance = await this.getStudentCredit(studentId);
+    const creditMovements = await this.getStudentCreditMovements(studentId);
+    const creditBalance = creditMovements.length > 0 ? creditMovements[creditMovements.length - 1].balance : 0;
 
     return {
       studentId,
@@ -449,31 +748,47 @@ export class PrimaxBillingService implements BillingService {
         amount: parseFloat(pay.amount)
       })),
       allocations,
-      adjustments
+      adjustments,
+      creditMovements
     };
   }
 
   /**
-   * Get student's available credit from overpayments
+   * Student wallet balance: the sum of their credit movements
    */
   async getStudentCredit(studentId: string): Promise<number> {
-    // Calculate total payments
-    const totalPayments = await db
-      .select({ total: sum(payments.amount) })
-      .from(payments)
-      .where(eq(payments.studentId, studentId));
-    
-    // Calculate total allocated to invoices
-    const totalAllocated = await db
-      .select({ total: sum(paymentAllocations.amount) })
-      .from(paymentAllocations)
-      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
-      .where(eq(payments.studentId, studentId));
+    const [row] = await db
+      .select({ total: sum(studentCreditMovements.amount) })
+      .from(studentCreditMovements)
+      .where(eq(studentCreditMovements.studentId, studentId));
     
-    const paymentsSum = parseFloat(totalPayments[0]?.total || '0');
-    const allocatedSum = parseFloat(totalAllocated[0]?.total || '0');
+    return roundMoney(parseFloat(row?.total || '0'));
+  }
+  
+  /**
+   * Credit movements oldest first, each with the wallet balance after it
+   */
+  async getStudentCreditMovements(studentId: string): Promise<any[]> {
+    const rows = await db
+      .select({
+        id: studentCreditMovements.id,
+        type: studentCreditMovements.type,
+        amount: studentCreditMovements.amount,
+        paymentId: studentCreditMovements.paymentId,
+        receiptNumber: payments.receiptNumber,
+        invoiceId: studentCreditMovements.invoiceId,
+        invoiceNumber: invoices.invoiceNumber,
+        notes: studentCreditMovements.notes,
+        createdBy: studentCreditMovements.createdBy,
+        createdAt: studentCreditMovements.createdAt
+      })
+      .from(studentCreditMovements)
+      .innerJoin(payments, eq(studentCreditMovements.paymentId, payments.id))
+      .leftJoin(invoices, eq(studentCreditMovements.invoiceId, invoices.id))
+      .where(eq(studentCreditMovements.studentId, studentId))
+      .orderBy(asc(studentCreditMovements.createdAt), asc(studentCreditMovements.id));
     
-    return Math.max(0, paymentsSum - allocatedSum);
+    return withRunningBalance(rows).map((m) => ({ ...m, amount: parseFloat(m.amount) }));
   }
   
   /**
@@ -522,92 +837,325 @@ export class PrimaxBillingService implements BillingService {
   }
   
   // Helper methods
-  private async generateInvoiceNumber(): Promise<string> {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    
-    const lastInvoice = await db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.invoiceNumber, `INV-${year}${month}%`))
-      .orderBy(desc(invoices.createdAt))
-      .limit(1);
-    
-    let sequence = 1;
-    if (lastInvoice.length > 0) {
-      const lastNum = lastInvoice[0].invoiceNumber.split('-')[1];
-      sequence = parseInt(lastNum.slice(6)) + 1;
-    }
-    
-    return `INV-${year}${month}${String(sequence).padStart(4, '0')}`;
+  async generateInvoiceNumber(): Promise<string> {
+    return nextDocumentNumber('invoice', {
+      exists: async (candidate) =>
+        (await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.invoiceNumber, candidate)).limit(1)).length > 0,
+    });
   }
   
+  /**
+   * Receipt numbers: RCP-{InvoiceNumber}-{Sequence} against an invoice, otherwise the
+   * advance-receipt sequence. Formats are per-tenant templates (see sequences.ts).
+   */
   async generateReceiptNumber(invoiceNumber?: string): Promise<string> {
-    if (invoiceNumber) {
-      // Generate invoice-based receipt number: RCP-{InvoiceNumber}-{Sequence}
-      const existingReceipts = await db
+    return nextDocumentNumber(invoiceNumber ? 'receipt' : 'advance_receipt', {
+      invoiceNumber,
+      exists: async (candidate) =>
+        (await db.select({ id: payments.id }).from(payments).where(eq(payments.receiptNumber, candidate)).limit(1)).length > 0,
+    });
+  }
+  
+  async generateCreditNoteNumber(): Promise<string> {
+    return nextDocumentNumber('credit_note', {
+      exists: async (candidate) =>
+        (await db.select({ id: paymentRefunds.id }).from(paymentRefunds).where(eq(paymentRefunds.creditNoteNumber, candidate)).limit(1)).length > 0,
+    });
+  }
+  
+  /**
+   * Deposit the unallocated part of a payment into the student's wallet
+   */
+  async createStudentCredit(
+    studentId: string,
+    amount: number,
+    paymentId: string,
+    type: 'advance_payment' | 'overpayment' = 'advance_payment',
+    createdBy?: string
+  ): Promise<any> {
+    if (roundMoney(amount) <= 0) {
+      throw new Error('Credit amount must be positive');
+    }
+    const [movement] = await (db as any).insert(studentCreditMovements).values({
+      studentId,
+      type,
+      amount: roundMoney(amount).toFixed(2),
+      paymentId,
+      notes: type === 'advance_payment' ? 'Advance payment held as credit' : 'Overpayment held as credit',
+      createdBy: createdBy || null
+    }).returning();
+    return movement;
+  }
+  
+  /**
+   * Pay an invoice from the student's wallet. Credit is drawn oldest payment first and
+   * each draw becomes a real allocation of that payment, so receipts, teacher earnings
+   * and the wallet all agree. Defaults to the lesser of the balance due and the credit.
+   */
+  async applyCreditToInvoice(invoiceId: string, amount?: number, createdBy?: string): Promise<any> {
+    return await db.transaction(async (tx) => {
+      const [owner] = await tx.select({ studentId: invoices.studentId }).from(invoices).where(eq(invoices.id, invoiceId));
+      if (!owner) {
+        throw new Error('Invoice not found');
+      }
+      
+      // Serialise wallet withdrawals per student, then hold the invoice so a payment
+      // recorded meanwhile can't be lost from amountPaid
+      await tx.select({ id: students.id }).from(students).where(eq(students.id, owner.studentId)).for('update');
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      
+      const movements = await tx
         .select()
-        .from(payments)
-        .where(sql`receipt_number LIKE ${`RCP-${invoiceNumber}-%`}`)
-        .orderBy(desc(payments.createdAt));
+        .from(studentCreditMovements)
+        .where(eq(studentCreditMovements.studentId, invoice.studentId))
+        .orderBy(asc(studentCreditMovements.createdAt));
+      const sources = creditSources(movements);
+      const available = sources.reduce((s, src) => s + src.available, 0);
+      const balanceDue = parseFloat(invoice.balanceDue);
+      const wanted = roundMoney(amount ?? Math.min(available, balanceDue));
       
-      let sequence = 1;
-      if (existingReceipts.length > 0) {
-        const lastReceiptNum = existingReceipts[0].receiptNumber;
-        const lastSequence = lastReceiptNum.split('-').pop();
-        if (lastSequence && !isNaN(parseInt(lastSequence))) {
-          sequence = parseInt(lastSequence) + 1;
-        }
+      if (wanted > balanceDue) {
+        throw new Error(`Credit Rs. ${wanted} exceeds invoice balance Rs. ${balanceDue}`);
+      }
+      if (wanted <= 0) {
+        return { invoice, applied: 0, draws: [] };
       }
       
-      return `RCP-${invoiceNumber}-${String(sequence).padStart(2, '0')}`;
-    } else {
-      // Clean fallback for advance payments without specific invoice
-      const today = new Date();
-      const year = today.getFullYear();
-      const month = String(today.getMonth() + 1).padStart(2, '0');
+      const draws = planCreditDraw(sources, wanted);
+      for (const draw of draws) {
+        await (tx as any).insert(paymentAllocations).values({
+          paymentId: draw.paymentId,
+          invoiceId,
+          amount: draw.amount.toFixed(2)
+        });
+        await (tx as any).insert(studentCreditMovements).values({
+          studentId: invoice.studentId,
+          type: 'applied_to_invoice',
+          amount: (-draw.amount).toFixed(2),
+          paymentId: draw.paymentId,
+          invoiceId,
+          notes: `Applied to invoice ${invoice.invoiceNumber}`,
+          createdBy: createdBy || null
+        });
+      }
+      
+      const newAmountPaid = roundMoney(parseFloat(invoice.amountPaid || '0') + wanted);
+      const newBalanceDue = roundMoney(parseFloat(invoice.total) - newAmountPaid);
+      const [updated] = await tx
+        .update(invoices)
+        .set({
+          amountPaid: newAmountPaid.toFixed(2),
+          balanceDue: newBalanceDue.toFixed(2),
+          status: newBalanceDue <= 0 ? 'paid' : 'partial',
+          updatedAt: new Date()
+        })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+      
+      return { invoice: updated, applied: wanted, draws };
+    });
+  }
+  
+  /**
+   * Pay wallet credit back to the student. Drawn oldest payment first like any other
+   * withdrawal; each draw is a credit-only refund of that payment, so it gets a credit
+   * note and shows in the daily close.
+   */
+  async refundStudentCredit(studentId: string, amount: number, refundedBy: string, reason: string, timeZone?: string): Promise<any[]> {
+    const today = todayIn(timeZone);
+    return await db.transaction(async (tx) => {
+      // Held across every draw, so a concurrent withdrawal cannot spend the same credit
+      await tx.select({ id: students.id }).from(students).where(eq(students.id, studentId)).for('update');
       
-      const lastGeneralReceipt = await db
+      const movements = await tx
         .select()
-        .from(payments)
-        .where(sql`receipt_number LIKE ${`RCP-ADV-${year}${month}%`}`)
-        .orderBy(desc(payments.createdAt))
-        .limit(1);
+        .from(studentCreditMovements)
+        .where(eq(studentCreditMovements.studentId, studentId))
+        .orderBy(asc(studentCreditMovements.createdAt));
+      const draws = planCreditDraw(creditSources(movements), amount);
       
-      let sequence = 1;
-      if (lastGeneralReceipt.length > 0) {
-        const lastNum = lastGeneralReceipt[0].receiptNumber.split('-')[2];
-        if (lastNum && lastNum.startsWith(year + month)) {
-          sequence = parseInt(lastNum.slice(6)) + 1;
-        }
+      const refunds = [];
+      for (const draw of draws) {
+        refunds.push(await this.refundPaymentIn(tx, draw.paymentId, {
+          amount: draw.amount,
+          reason,
+          processedBy: refundedBy,
+          creditOnly: true
+        }, today));
+      }
+      return refunds;
+    });
+  }
+  
+  /**
+   * Reverse all or part of a payment. Unspent wallet credit from the payment is returned
+   * first, then its allocations are unwound newest first and each invoice's paid/balance/
+   * status recomputed. Issues a credit note dated on the day the money goes out; that
+   * day must not already be locked in the daily close.
+   */
+  async refundPayment(paymentId: string, refund: RefundRequest): Promise<any> {
+    const today = todayIn(refund.timeZone);
+    return await db.transaction((tx) => this.refundPaymentIn(tx, paymentId, refund, today));
+  }
+  
+  private async refundPaymentIn(tx: Tx, paymentId: string, refund: RefundRequest, today: string): Promise<any> {
+    const reason = refund.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required for refunds');
+    }
+    
+    const refundDate = refund.refundDate || today;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(refundDate)) {
+      throw new Error('Refund date must be YYYY-MM-DD');
+    }
+    if (refundDate > today) {
+      throw new Error('Refunds cannot be dated in the future');
+    }
+    // Share-locked so the day cannot be closed while the refund is being written
+    const branchId = getCurrentBranchId();
+    const [close] = await tx
+      .select({ isLocked: dailyClose.isLocked })
+      .from(dailyClose)
+      .where(and(eq(dailyClose.closeDate, refundDate), branchId ? eq(dailyClose.branchId, branchId) : isNull(dailyClose.branchId)))
+      .for('share');
+    if (close?.isLocked) {
+      throw new Error(`Daily close for ${refundDate} is locked; refunds cannot be back-dated into it`);
+    }
+    
+    // On the request's pinned connection, so the counter bump rolls back with a failed refund
+    const creditNoteNumber = await this.generateCreditNoteNumber();
+    
+    // Same per-student lock as wallet withdrawals, taken before the payment's like theirs
+    const [owner] = await tx.select({ studentId: payments.studentId }).from(payments).where(eq(payments.id, paymentId));
+    if (!owner) {
+      throw new Error('Payment not found');
+    }
+    await tx.select({ id: students.id }).from(students).where(eq(students.id, owner.studentId)).for('update');
+    
+    const [payment] = await tx.select().from(payments).where(eq(payments.id, paymentId)).for('update');
+    if (payment.isRefunded || payment.status === 'refunded') {
+      throw new Error('Payment has already been fully refunded');
+    }
+    
+    const [prior] = await tx
+      .select({ total: sum(paymentRefunds.amount) })
+      .from(paymentRefunds)
+      .where(eq(paymentRefunds.paymentId, paymentId));
+    const refundedSoFar = parseFloat(prior?.total || '0');
+    const refundable = refundableAmount(payment.amount, refundedSoFar);
+    const amount = roundMoney(refund.amount ?? refundable);
+    if (amount > refundable) {
+      throw new Error(`Refund Rs. ${amount} exceeds the refundable Rs. ${refundable} on this payment`);
+    }
+    
+    const [wallet] = await tx
+      .select({ total: sum(studentCreditMovements.amount) })
+      .from(studentCreditMovements)
+      .where(eq(studentCreditMovements.paymentId, paymentId));
+    const allocations = refund.creditOnly
+      ? []
+      : await tx.select().from(paymentAllocations).where(eq(paymentAllocations.paymentId, paymentId));
+    const plan = planRefund(amount, parseFloat(wallet?.total || '0'), allocations);
+    
+    const unwound = [];
+    for (const step of plan.unwind) {
+      const allocation = allocations.find((a) => a.id === step.allocationId)!;
+      const left = roundMoney(parseFloat(allocation.amount) - step.amount);
+      if (left > 0) {
+        await tx.update(paymentAllocations).set({ amount: left.toFixed(2) }).where(eq(paymentAllocations.id, allocation.id));
+      } else {
+        await tx.delete(paymentAllocations).where(eq(paymentAllocations.id, allocation.id));
       }
       
-      return `RCP-ADV-${year}${month}${String(sequence).padStart(4, '0')}`;
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, step.invoiceId)).for('update');
+      const total = parseFloat(invoice.total);
+      const amountPaid = Math.max(0, roundMoney(parseFloat(invoice.amountPaid || '0') - step.amount));
+      await tx
+        .update(invoices)
+        .set({
+          amountPaid: amountPaid.toFixed(2),
+          balanceDue: roundMoney(total - amountPaid).toFixed(2),
+          status: invoiceStatusAsOf(total, amountPaid, invoice.dueDate, today),
+          updatedAt: new Date()
+        })
+        .where(eq(invoices.id, invoice.id));
+      unwound.push({ ...step, invoiceNumber: invoice.invoiceNumber });
     }
+    
+    if (plan.fromCredit > 0) {
+      await (tx as any).insert(studentCreditMovements).values({
+        studentId: payment.studentId,
+        type: 'refund',
+        amount: (-plan.fromCredit).toFixed(2),
+        paymentId,
+        notes: `Refunded on credit note ${creditNoteNumber}`,
+        createdBy: refund.processedBy
+      });
+    }
+    
+    const [record] = await (tx as any).insert(paymentRefunds).values({
+      creditNoteNumber,
+      paymentId,
+      studentId: payment.studentId,
+      amount: amount.toFixed(2),
+      refundMethod: refund.refundMethod || payment.paymentMethod,
+      refundDate,
+      reason,
+      fromCredit: plan.fromCredit.toFixed(2),
+      unwound,
+      processedBy: refund.processedBy
+    }).returning();
+    
+    if (roundMoney(refundedSoFar + amount) >= parseFloat(payment.amount)) {
+      await tx
+        .update(payments)
+        .set({ status: 'refunded', isRefunded: true, refundedAt: new Date(), refundedBy: refund.processedBy })
+        .where(eq(payments.id, paymentId));
+    }
+    
+    return { ...record, receiptNumber: payment.receiptNumber };
   }
   
-  private async createStudentCredit(studentId: string, amount: number, paymentId: string): Promise<void> {
-    // For now, credit is tracked as unallocated payment amount
-    // In a more complex system, you might have a separate credits table
+  async getPaymentRefunds(filters: { date?: string; paymentId?: string; studentId?: string } = {}): Promise<any[]> {
+    const conditions: SQL[] = [];
+    if (filters.date) conditions.push(eq(paymentRefunds.refundDate, filters.date));
+    if (filters.paymentId) conditions.push(eq(paymentRefunds.paymentId, filters.paymentId));
+    if (filters.studentId) conditions.push(eq(paymentRefunds.studentId, filters.studentId));
+    
+    return await this.selectRefunds()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(paymentRefunds.createdAt));
   }
   
-  private async applyCreditToInvoice(invoiceId: string, creditAmount: number): Promise<void> {
-    // Create a virtual payment record for credit application
-    const creditPayment = await storage.createPayment({
-      studentId: '', // Will be filled by the invoice's student
-      amount: creditAmount.toString(),
-      paymentMethod: 'credit_adjustment',
-      receivedBy: 'demo-management-001', // Use a valid user ID for credit adjustments
-      notes: 'Applied student credit balance',
-      receiptNumber: await this.generateReceiptNumber()
-    });
-    
-    await db.insert(paymentAllocations as any).values({
-      paymentId: creditPayment.id,
-      invoiceId,
-      amount: creditAmount.toString()
-    });
+  async getPaymentRefund(id: string): Promise<any | undefined> {
+    const [refund] = await this.selectRefunds().where(eq(paymentRefunds.id, id));
+    return refund;
+  }
+  
+  private selectRefunds() {
+    return db
+      .select({
+        id: paymentRefunds.id,
+        creditNoteNumber: paymentRefunds.creditNoteNumber,
+        paymentId: paymentRefunds.paymentId,
+        receiptNumber: payments.receiptNumber,
+        paymentDate: payments.paymentDate,
+        paymentAmount: payments.amount,
+        studentId: paymentRefunds.studentId,
+        studentName: sql<string>`${students.firstName} || ' ' || ${students.lastName}`,
+        rollNumber: students.rollNumber,
+        amount: paymentRefunds.amount,
+        refundMethod: paymentRefunds.refundMethod,
+        refundDate: paymentRefunds.refundDate,
+        reason: paymentRefunds.reason,
+        fromCredit: paymentRefunds.fromCredit,
+        unwound: paymentRefunds.unwound,
+        processedBy: paymentRefunds.processedBy,
+        createdAt: paymentRefunds.createdAt
+      })
+      .from(paymentRefunds)
+      .innerJoin(payments, eq(paymentRefunds.paymentId, payments.id))
+      .innerJoin(students, eq(paymentRefunds.studentId, students.id));
   }
   
   async allocatePaymentToInvoices(paymentId: string, allocations: any[]): Promise<any> {
@@ -0,0 +1,78 @@
+/**
+ * Recurring billing calendar.
+ *
+ * A billing schedule points at the next date it should bill (`nextBillingDate`). The
+ * scheduler bills every date that has fallen due as of the tenant's local today, one
+ * period at a time and oldest first, advancing the pointer after each - so a server
+ * that was down for a few days catches up instead of skipping periods. Pure helpers
+ * only; billing.ts writes the invoices.
+ */
+
+export type BillingFrequency = 'monthly' | 'weekly' | 'custom';
+
+export interface BillingScheduleLike {
+  nextBillingDate: string;
+  endDate?: string | null;
+  frequency?: string | null;
+  dayOfMonth?: number | null;
+}
+
+export interface JobCounts {
+  processed: number;
+  generated: number;
+  skipped: number;
+  failed: number;
+}
+
+// Upper bound on periods billed for one schedule in a single run
+export const MAX_CATCH_UP_PERIODS = 12;
+
+const toUtc = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number): string {
+  const d = toUtc(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromUtc(d);
+}
+
+/**
+ * The billing date after `date`. Weekly schedules move seven days; everything else is
+ * monthly on `dayOfMonth`, clamped to short months (31st -> 28/29 Feb -> 31 Mar).
+ */
+export function nextBillingDate(date: string, frequency?: string | null, dayOfMonth?: number | null): string {
+  if (frequency === 'weekly') return addDays(date, 7);
+
+  const d = toUtc(date);
+  const day = dayOfMonth && dayOfMonth >= 1 && dayOfMonth <= 31 ? dayOfMonth : d.getUTCDate();
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth() + 1;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return fromUtc(new Date(Date.UTC(year, month, Math.min(day, daysInMonth))));
+}
+
+/** Period billed on `date`: from that date up to the day before the next billing date. */
+export function billingPeriod(date: string, frequency?: string | null, dayOfMonth?: number | null): { start: string; end: string } {
+  return { start: date, end: addDays(nextBillingDate(date, frequency, dayOfMonth), -1) };
+}
+
+/** Billing dates of a schedule that are due as of `asOf`, oldest first. */
+export function dueBillingDates(schedule: BillingScheduleLike, asOf: string, limit = MAX_CATCH_UP_PERIODS): string[] {
+  const dates: string[] = [];
+  let date = schedule.nextBillingDate;
+  while (date <= asOf && dates.length < limit) {
+    if (schedule.endDate && date > schedule.endDate) break;
+    dates.push(date);
+    date = nextBillingDate(date, schedule.frequency, schedule.dayOfMonth);
+  }
+  return dates;
+}
+
+export function runStatus(counts: JobCounts): 'success' | 'partial' | 'failed' {
+  if (counts.failed === 0) return 'success';
+  return counts.generated > 0 ? 'partial' : 'failed';
+}
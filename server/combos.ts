@@ -0,0 +1,177 @@
+/**
+ * Subject combos.
+ *
+ * A combo bundles subjects of a class level at one discounted monthly fee. Enrolling
+ * in a combo creates one enrollment per member subject (each with `comboId` set, so
+ * teachers, attendance and grades work per subject) while billing charges the combo
+ * fee once. Collected combo revenue is split back across the member subjects for
+ * teacher payouts by the combo's `revenueSplit` rule.
+ */
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { comboSubjects, enrollments, subjectCombos, subjects } from "@shared/schema";
+
+export type ComboRevenueSplit = 'base_fee' | 'equal';
+export const COMBO_REVENUE_SPLITS: ComboRevenueSplit[] = ['base_fee', 'equal'];
+
+export interface ComboInput {
+  name: string;
+  classLevels: string[];
+  discountedFee: string | number;
+  description?: string | null;
+  revenueSplit?: ComboRevenueSplit;
+  subjectIds: string[];
+}
+
+export interface ComboMemberLike {
+  id: string;
+  baseFee: string | number;
+  classLevels: string[] | null;
+  isActive?: boolean | null;
+}
+
+/** Returns an error message, or null when the combo can be saved. */
+export function validateCombo(input: Partial<ComboInput>, members: ComboMemberLike[]): string | null {
+  if (!input.name?.trim()) return 'Combo name is required';
+  if (!input.classLevels?.length) return 'Choose at least one class level';
+  const fee = Number(input.discountedFee);
+  if (!(fee > 0)) return 'Combo fee must be greater than zero';
+  if (input.revenueSplit && !COMBO_REVENUE_SPLITS.includes(input.revenueSplit)) return 'Revenue split must be base_fee or equal';
+
+  const ids = Array.from(new Set(input.subjectIds || []));
+  if (ids.length < 2) return 'A combo needs at least two subjects';
+  if (members.length !== ids.length || members.some((m) => m.isActive === false)) return 'Every subject must exist and be active';
+  const offLevel = members.find((m) => !input.classLevels!.every((level) => m.classLevels?.includes(level)));
+  if (offLevel) return 'Every subject must be offered at each of the combo\'s class levels';
+
+  const individual = members.reduce((sum, m) => sum + Number(m.baseFee), 0);
+  if (fee > individual) return `Combo fee exceeds the subjects' individual fees (Rs. ${individual})`;
+  return null;
+}
+
+/** Weights for splitting a combo's revenue across its members (see payouts.apportion). */
+export function comboSplitWeights(members: Array<{ baseFee: string | number }>, rule?: string | null): number[] {
+  if (rule === 'equal') return members.map(() => 1);
+  const fees = members.map((m) => Math.max(0, Number(m.baseFee) || 0));
+  // No fees to weigh by: fall back to equal shares rather than dropping the revenue
+  return fees.some((f) => f > 0) ? fees : members.map(() => 1);
+}
+
+export async function getSubjectCombos(options: { classLevel?: string; includeInactive?: boolean } = {}): Promise<any[]> {
+  const conditions = [];
+  if (!options.includeInactive) conditions.push(eq(subjectCombos.isActive, true));
+  if (options.classLevel) conditions.push(sql`${options.classLevel} = ANY(${subjectCombos.classLevels})`);
+
+  const combos = await db
+    .select()
+    .from(subjectCombos)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(asc(subjectCombos.name));
+  if (combos.length === 0) return [];
+
+  const ids = combos.map((c) => c.id);
+  const members = await db
+    .select({
+      comboId: comboSubjects.comboId,
+      id: subjects.id,
+      name: subjects.name,
+      code: subjects.code,
+      baseFee: subjects.baseFee,
+    })
+    .from(comboSubjects)
+    .innerJoin(subjects, eq(comboSubjects.subjectId, subjects.id))
+    .where(inArray(comboSubjects.comboId, ids))
+    .orderBy(asc(subjects.name));
+  const enrolled = await db
+    .select({ comboId: enrollments.comboId, students: sql<number>`count(distinct ${enrollments.studentId})::int` })
+    .from(enrollments)
+    .where(and(inArray(enrollments.comboId, ids), eq(enrollments.isActive, true)))
+    .groupBy(enrollments.comboId);
+
+  return combos.map((combo) => {
+    const comboMembers = members.filter((m) => m.comboId === combo.id).map(({ comboId, ...m }) => m);
+    return {
+      ...combo,
+      subjects: comboMembers,
+      individualTotal: comboMembers.reduce((sum, m) => sum + Number(m.baseFee), 0),
+      activeStudents: enrolled.find((e) => e.comboId === combo.id)?.students ?? 0,
+    };
+  });
+}
+
+export async function getSubjectCombo(id: string): Promise<any | undefined> {
+  const combos = await getSubjectCombos({ includeInactive: true });
+  return combos.find((c) => c.id === id);
+}
+
+async function loadMembers(subjectIds: string[]): Promise<ComboMemberLike[]> {
+  if (subjectIds.length === 0) return [];
+  return await db
+    .select({ id: subjects.id, baseFee: subjects.baseFee, classLevels: subjects.classLevels, isActive: subjects.isActive })
+    .from(subjects)
+    .where(inArray(subjects.id, Array.from(new Set(subjectIds))));
+}
+
+function comboValues(input: ComboInput) {
+  return {
+    name: input.name.trim(),
+    classLevels: input.classLevels,
+    discountedFee: Number(input.discountedFee).toFixed(2),
+    description: input.description?.trim() || null,
+    revenueSplit: input.revenueSplit || 'base_fee',
+  };
+}
+
+export async function createSubjectCombo(input: ComboInput): Promise<any> {
+  const error = validateCombo(input, await loadMembers(input.subjectIds || []));
+  if (error) throw new Error(error);
+
+  const combo = await db.transaction(async (tx) => {
+    const [created] = await (tx as any).insert(subjectCombos).values(comboValues(input)).returning();
+    await (tx as any).insert(comboSubjects).values(
+      Array.from(new Set(input.subjectIds)).map((subjectId) => ({ comboId: created.id, subjectId })),
+    );
+    return created;
+  });
+  return await getSubjectCombo(combo.id);
+}
+
+/**
+ * Update a combo. Members can only change while no student is actively enrolled in
+ * it - existing students hold one enrollment per member subject.
+ */
+export async function updateSubjectCombo(id: string, input: ComboInput): Promise<any> {
+  const existing = await getSubjectCombo(id);
+  if (!existing) throw new Error('Combo not found');
+
+  const subjectIds = input.subjectIds?.length ? input.subjectIds : existing.subjects.map((s: any) => s.id);
+  const error = validateCombo({ ...input, subjectIds }, await loadMembers(subjectIds));
+  if (error) throw new Error(error);
+
+  const current = new Set<string>(existing.subjects.map((s: any) => s.id));
+  const next = new Set<string>(subjectIds);
+  const membersChanged = current.size !== next.size || Array.from(next).some((sid) => !current.has(sid));
+  if (membersChanged && existing.activeStudents > 0) {
+    throw new Error(`Subjects cannot change while ${existing.activeStudents} student(s) are enrolled in this combo`);
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.update(subjectCombos).set(comboValues({ ...input, subjectIds })).where(eq(subjectCombos.id, id));
+    if (membersChanged) {
+      await tx.delete(comboSubjects).where(eq(comboSubjects.comboId, id));
+      await (tx as any).insert(comboSubjects).values(Array.from(next).map((subjectId) => ({ comboId: id, subjectId })));
+    }
+  });
+  return await getSubjectCombo(id);
+}
+
+/** Stop offering a combo. Students already enrolled keep it, and keep being billed for it. */
+export async function setSubjectComboActive(id: string, isActive: boolean): Promise<any> {
+  const [combo] = await db
+    .update(subjectCombos)
+    .set({ isActive })
+    .where(eq(subjectCombos.id, id))
+    .returning();
+  if (!combo) throw new Error('Combo not found');
+  return combo;
+}
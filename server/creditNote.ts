@@ -0,0 +1,71 @@
+import { jsPDF } from "jspdf";
+
+export interface CreditNoteInput {
+  schoolName: string;
+  creditNoteNumber: string;
+  refundDate: string;
+  studentName: string;
+  rollNumber: string;
+  receiptNumber: string;
+  paymentAmount: number;
+  amount: number;
+  refundMethod: string;
+  reason: string;
+  fromCredit: number;
+  unwound: Array<{ invoiceNumber: string; amount: number }>;
+}
+
+const money = (v: number) => `Rs. ${v.toLocaleString('en-PK', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  cheque: 'Cheque',
+};
+
+/**
+ * Render the credit note issued for a payment refund. Returns the PDF bytes.
+ */
+export function generateCreditNotePdf(input: CreditNoteInput): Buffer {
+  const doc = new jsPDF();
+  let y = 20;
+
+  const line = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, 20, y);
+    doc.text(value, 190, y, { align: 'right' });
+    y += 7;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(input.schoolName, 105, y, { align: 'center' });
+  y += 8;
+  doc.setFontSize(12);
+  doc.text(`Credit Note ${input.creditNoteNumber}`, 105, y, { align: 'center' });
+  y += 12;
+
+  doc.setFontSize(10);
+  line('Date', input.refundDate);
+  line('Student', `${input.studentName} (${input.rollNumber})`);
+  line('Original receipt', `${input.receiptNumber} - ${money(input.paymentAmount)}`);
+  line('Refunded by', METHOD_LABELS[input.refundMethod] || input.refundMethod);
+  y += 4;
+
+  if (input.fromCredit > 0) {
+    line('Returned from credit balance', money(input.fromCredit));
+  }
+  for (const u of input.unwound) {
+    line(`Reversed from invoice ${u.invoiceNumber}`, money(u.amount));
+  }
+  y += 2;
+  doc.line(20, y - 4, 190, y - 4);
+  line('Total refunded', money(input.amount), true);
+
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.text(doc.splitTextToSize(`Reason: ${input.reason}`, 170), 20, y);
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,103 @@
+/**
+ * School-defined (custom) roles.
+ *
+ * A custom role is a named set of permissions from the catalogue in permissions.ts, e.g.
+ * "Receptionist" = enroll only, or "Accountant" = view reports without locking daily
+ * close. Management assigns at most one to a staff member; their base role still decides
+ * which dashboard and areas they reach, while the custom role replaces the base role's
+ * default permissions there. Deleting a role puts its members back on their defaults.
+ */
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import { tenantRoles, users, type TenantRole } from "@shared/schema";
+import { isPermission, type Permission } from "./permissions";
+
+export interface TenantRoleInput {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+/** Returns an error message, or null when the role can be saved. */
+export function validateTenantRole(input: Partial<TenantRoleInput>): string | null {
+  if (!input.name?.trim()) return 'Role name is required';
+  if (input.name.trim().length > 60) return 'Role name must be at most 60 characters';
+  if (!Array.isArray(input.permissions) || input.permissions.length === 0) return 'Choose at least one permission';
+  const unknown = input.permissions.find((p) => !isPermission(p));
+  if (unknown) return `Unknown permission: ${unknown}`;
+  return null;
+}
+
+function roleValues(input: TenantRoleInput) {
+  return {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    permissions: Array.from(new Set(input.permissions)) as Permission[],
+  };
+}
+
+async function assertNameFree(name: string, exceptId?: string) {
+  const [clash] = await db
+    .select({ id: tenantRoles.id })
+    .from(tenantRoles)
+    .where(and(
+      sql`lower(${tenantRoles.name}) = lower(${name.trim()})`,
+      exceptId ? ne(tenantRoles.id, exceptId) : undefined,
+    ));
+  if (clash) throw new Error('A role with this name already exists');
+}
+
+/** The school's custom roles with how many staff hold each. */
+export async function getTenantRoles() {
+  const roles = await db.select().from(tenantRoles).orderBy(asc(tenantRoles.name));
+  const members = await db
+    .select({ roleId: users.customRoleId, count: sql<number>`count(*)::int` })
+    .from(users)
+    .where(sql`${users.customRoleId} is not null`)
+    .groupBy(users.customRoleId);
+  return roles.map((role) => ({ ...role, memberCount: members.find((m) => m.roleId === role.id)?.count ?? 0 }));
+}
+
+export async function createTenantRole(input: TenantRoleInput, createdBy: string): Promise<TenantRole> {
+  const error = validateTenantRole(input);
+  if (error) throw new Error(error);
+  await assertNameFree(input.name);
+
+  const [role] = await (db as any).insert(tenantRoles).values({ ...roleValues(input), createdBy }).returning();
+  return role;
+}
+
+/** Returns undefined when there is no such role in this school. */
+export async function updateTenantRole(id: string, input: TenantRoleInput): Promise<TenantRole | undefined> {
+  const error = validateTenantRole(input);
+  if (error) throw new Error(error);
+  await assertNameFree(input.name, id);
+
+  const [role] = await db
+    .update(tenantRoles)
+    .set({ ...roleValues(input), updatedAt: new Date() })
+    .where(eq(tenantRoles.id, id))
+    .returning();
+  return role;
+}
+
+/** Returns false when there is no such role in this school. */
+export async function deleteTenantRole(id: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await tx.update(users).set({ customRoleId: null, updatedAt: new Date() }).where(eq(users.customRoleId, id));
+    const deleted = await tx.delete(tenantRoles).where(eq(tenantRoles.id, id)).returning({ id: tenantRoles.id });
+    return deleted.length > 0;
+  });
+}
+
+/** Give a staff member a custom role, or put them back on their base role's defaults (null). */
+export async function assignCustomRole(userId: string, roleId: string | null): Promise<void> {
+  const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+  if (!user) throw new Error('Staff member not found');
+  if (user.role === 'parent') throw new Error('Custom roles are for staff accounts');
+  if (roleId) {
+    const [role] = await db.select({ id: tenantRoles.id }).from(tenantRoles).where(eq(tenantRoles.id, roleId));
+    if (!role) throw new Error('Role not found');
+  }
+  await db.update(users).set({ customRoleId: roleId, updatedAt: new Date() }).where(eq(users.id, userId));
+}
@@ -0,0 +1,189 @@
+/**
+ * Teacher impersonation: management sees the teacher area exactly as a teacher does.
+ *
+ * Starting one stores the teacher in the manager's session with an expiry. While it is
+ * active, every API request (other than /api/auth/* and /api/impersonation, which stay
+ * the manager's own) runs with the teacher as the session user, so route policies, data
+ * scoping and permissions are the teacher's; the manager is restored before the session
+ * is saved. Impersonation is read-only unless the manager allowed changes with a written
+ * justification. Starting, stopping, expiry and every change made while impersonating go
+ * to audit_logs with the real user as userId and the teacher in the details.
+ */
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { SessionData } from "express-session";
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import { users } from "@shared/schema";
+import { recordAuditEvent, requestOrigin } from "./auditLog";
+
+export const IMPERSONATION_MINUTES = 30;
+export const JUSTIFICATION_MIN_LENGTH = 10;
+
+export type Impersonation = NonNullable<SessionData['impersonation']>;
+
+// Paths (under /api) that keep running as the manager while impersonating
+const OWN_PATHS = ['/auth/', '/impersonation'];
+
+export const isMutatingMethod = (method: string) => !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+
+export function isImpersonationExpired(impersonation: Pick<Impersonation, 'expiresAt'>, now = Date.now()): boolean {
+  return now >= impersonation.expiresAt;
+}
+
+/** Returns an error message, or null when an impersonation can start with these options. */
+export function validateImpersonationStart(input: { teacherId?: unknown; allowWrites?: unknown; justification?: unknown }): string | null {
+  if (!input.teacherId || typeof input.teacherId !== 'string') return 'Choose a teacher';
+  if (input.allowWrites) {
+    const justification = typeof input.justification === 'string' ? input.justification.trim() : '';
+    if (justification.length < JUSTIFICATION_MIN_LENGTH) {
+      return `Explain why changes are needed (at least ${JUSTIFICATION_MIN_LENGTH} characters)`;
+    }
+  }
+  return null;
+}
+
+const auditDetails = (imp: Impersonation) => ({
+  impersonationId: imp.id,
+  impersonatedUserId: imp.teacher.id,
+  allowWrites: imp.allowWrites,
+});
+
+/** The active impersonation as shown to the client, or null (clearing one that has expired). */
+export async function currentImpersonation(req: Request) {
+  const imp = req.session.impersonation;
+  if (!imp) return null;
+  if (isImpersonationExpired(imp)) {
+    await endImpersonation(req, 'impersonation_expired');
+    return null;
+  }
+  return {
+    id: imp.id,
+    teacherId: imp.teacher.id,
+    teacherName: `${imp.teacher.firstName || ''} ${imp.teacher.lastName || ''}`.trim(),
+    allowWrites: imp.allowWrites,
+    justification: imp.justification,
+    startedAt: new Date(imp.startedAt).toISOString(),
+    expiresAt: new Date(imp.expiresAt).toISOString(),
+  };
+}
+
+/** Start impersonating a teacher of the manager's school (tenant context). */
+export async function startImpersonation(
+  req: Request,
+  input: { teacherId?: unknown; allowWrites?: unknown; justification?: unknown },
+  now = Date.now(),
+) {
+  const error = validateImpersonationStart(input);
+  if (error) throw new Error(error);
+  const manager = req.session.user!;
+  if (input.teacherId === manager.id) throw new Error('You cannot impersonate yourself');
+
+  const [teacher] = await db
+    .select()
+    .from(users)
+    .where(and(eq(users.id, input.teacherId as string), eq(users.isActive, true)));
+  if (!teacher || !(teacher.role === 'teacher' || teacher.isTeacher)) throw new Error('Teacher not found');
+
+  if (req.session.impersonation) await endImpersonation(req, 'impersonation_stopped');
+  const allowWrites = !!input.allowWrites;
+  const imp: Impersonation = {
+    id: randomUUID(),
+    teacher: {
+      id: teacher.id,
+      tenantId: teacher.tenantId,
+      branchId: teacher.branchId ?? null,
+      email: teacher.email,
+      firstName: teacher.firstName,
+      lastName: teacher.lastName,
+      role: 'teacher',
+      isSuperAdmin: false,
+      isTeacher: true,
+    },
+    allowWrites,
+    justification: allowWrites ? String(input.justification).trim() : null,
+    startedAt: now,
+    expiresAt: now + IMPERSONATION_MINUTES * 60 * 1000,
+  };
+  req.session.impersonation = imp;
+  await recordAuditEvent({
+    tenantId: manager.tenantId,
+    userId: manager.id,
+    action: 'impersonation_started',
+    resource: 'user',
+    resourceId: teacher.id,
+    details: { ...auditDetails(imp), justification: imp.justification, expiresAt: new Date(imp.expiresAt).toISOString() },
+    ...requestOrigin(req),
+  });
+  return currentImpersonation(req);
+}
+
+export async function endImpersonation(req: Request, action: 'impersonation_stopped' | 'impersonation_expired' = 'impersonation_stopped') {
+  const imp = req.session.impersonation;
+  if (!imp) return false;
+  delete req.session.impersonation;
+  const manager = req.session.user;
+  await recordAuditEvent({
+    tenantId: manager?.tenantId ?? imp.teacher.tenantId,
+    userId: manager?.id ?? null,
+    action,
+    resource: 'user',
+    resourceId: imp.teacher.id,
+    details: auditDetails(imp),
+    ...requestOrigin(req),
+  });
+  return true;
+}
+
+/**
+ * Runs the request as the impersonated teacher. Mounted on /api after the session and
+ * before the routes; expired impersonations end here.
+ */
+export async function impersonationMiddleware(req: Request, res: Response, next: NextFunction) {
+  const imp = req.session?.impersonation;
+  const manager = req.session?.user;
+  if (!imp || !manager || OWN_PATHS.some((path) => req.path.startsWith(path))) return next();
+
+  try {
+    if (isImpersonationExpired(imp)) {
+      await endImpersonation(req, 'impersonation_expired');
+      return res.status(403).json({ message: "Your impersonation session has expired", code: "IMPERSONATION_EXPIRED" });
+    }
+
+    const mutating = isMutatingMethod(req.method);
+    if (mutating && !imp.allowWrites) {
+      return res.status(403).json({ message: "Impersonation is read-only", code: "IMPERSONATION_READ_ONLY" });
+    }
+    if (mutating) {
+      res.on('finish', () => {
+        void recordAuditEvent({
+          tenantId: manager.tenantId,
+          userId: manager.id,
+          action: 'impersonated_action',
+          resource: 'user',
+          resourceId: imp.teacher.id,
+          details: {
+            ...auditDetails(imp),
+            justification: imp.justification,
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+          },
+          ...requestOrigin(req),
+        });
+      });
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  // Act as the teacher for this request; put the manager back before express-session
+  // saves the session (its res.end wrapper runs after this one)
+  req.session.user = imp.teacher;
+  const end = res.end;
+  res.end = function (this: Response, ...args: any[]) {
+    req.session.user = manager;
+    return (end as (...a: any[]) => Response).apply(this, args);
+  } as Response['end'];
+  next();
+}
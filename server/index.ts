@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupTraditionalAuth } from "./auth-traditional";
+import { startScheduler } from "./scheduler";
 
 const app = express();
 app.use(express.json());
@@ -71,5 +72,6 @@ app.use((req, res, next) => {
     host: "0.0.0.0",
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
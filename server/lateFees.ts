@@ -0,0 +1,364 @@
+/**
+ * Late-fee policy engine.
+ *
+ * A tenant's active policy is evaluated against its overdue invoices and the invoice
+ * is brought up to the fee the policy says it should carry *as of* a date. Because the
+ * target is absolute (not "add another fee"), re-running on the same day charges
+ * nothing, and a per-day policy only ever adds the days accrued since the last run.
+ * Every charge is an invoice_adjustments row of type 'late_fee'; waivers are the
+ * negative counterpart and mark the invoice so it is never charged again.
+ */
+import { and, eq, gt, inArray, lt, sql } from "drizzle-orm";
+import { db } from "./db";
+import { enrollments, invoiceAdjustments, invoices, lateFeeExemptions, lateFeePolicies, paymentAllocations, studentCreditMovements, students } from "@shared/schema";
+import { roundMoney } from "./payouts";
+import { invoiceStatusAsOf, planRefund } from "./refunds";
+
+export type LateFeeType = 'flat' | 'percentage' | 'per_day';
+
+export interface LateFeePolicyLike {
+  type: LateFeeType;
+  amount: string | number;
+  cap?: string | number | null;
+  graceDays?: number | null;
+}
+
+export interface LateFeePolicyInput extends LateFeePolicyLike {
+  name: string;
+  exemptDiscounted?: boolean;
+}
+
+export interface LateFeeLine {
+  invoiceId: string;
+  invoiceNumber: string;
+  studentId: string;
+  studentName: string;
+  dueDate: string;
+  daysOverdue: number;
+  base: number; // invoice total before late fees
+  currentLateFee: number;
+  targetLateFee: number;
+  charge: number; // what a run would add now
+  skipped: 'exempt' | 'discounted' | null;
+}
+
+const num = (v: string | number | null | undefined) => Number(v ?? 0) || 0;
+
+/** Today's date (YYYY-MM-DD) in the tenant's timezone. */
+export function todayIn(timeZone = 'Asia/Karachi', now = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/** Whole days from `from` to `to` (both YYYY-MM-DD); negative when `to` is earlier. */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Returns an error message, or null when the policy is usable. */
+export function validateLateFeePolicy(input: Partial<LateFeePolicyInput>): string | null {
+  if (!input.name?.trim()) return 'Policy name is required';
+  if (!input.type || !['flat', 'percentage', 'per_day'].includes(input.type)) return 'Type must be flat, percentage or per_day';
+  const amount = Number(input.amount);
+  if (!(amount > 0)) return 'Amount must be greater than zero';
+  if (input.type === 'percentage' && amount > 100) return 'Percentage cannot exceed 100';
+  if (input.cap != null && input.cap !== '' && !(Number(input.cap) > 0)) return 'Cap must be greater than zero';
+  const grace = Number(input.graceDays ?? 0);
+  if (!Number.isInteger(grace) || grace < 0 || grace > 365) return 'Grace days must be between 0 and 365';
+  return null;
+}
+
+/**
+ * Total late fee an invoice should carry after `daysOverdue` days. Nothing is due
+ * inside the grace period; per-day fees accrue for each day after it. Capped.
+ */
+export function computeLateFee(policy: LateFeePolicyLike, base: number, daysOverdue: number): number {
+  const grace = policy.graceDays ?? 0;
+  if (daysOverdue <= grace) return 0;
+  let fee: number;
+  switch (policy.type) {
+    case 'flat':
+      fee = num(policy.amount);
+      break;
+    case 'percentage':
+      fee = (base * num(policy.amount)) / 100;
+      break;
+    case 'per_day':
+      fee = num(policy.amount) * (daysOverdue - grace);
+      break;
+  }
+  if (policy.cap != null && policy.cap !== '') fee = Math.min(fee, num(policy.cap));
+  return roundMoney(fee);
+}
+
+// ---- Policies ----
+
+export async function getLateFeePolicies(): Promise<any[]> {
+  return await db.select().from(lateFeePolicies).orderBy(lateFeePolicies.createdAt);
+}
+
+export async function getActiveLateFeePolicy(): Promise<any | undefined> {
+  const [policy] = await db.select().from(lateFeePolicies).where(eq(lateFeePolicies.isActive, true)).limit(1);
+  return policy;
+}
+
+function policyValues(input: LateFeePolicyInput) {
+  return {
+    name: input.name.trim(),
+    type: input.type,
+    amount: num(input.amount).toFixed(2),
+    cap: input.cap != null && input.cap !== '' ? num(input.cap).toFixed(2) : null,
+    graceDays: Number(input.graceDays ?? 0),
+    exemptDiscounted: !!input.exemptDiscounted,
+  };
+}
+
+export async function createLateFeePolicy(input: LateFeePolicyInput, createdBy: string): Promise<any> {
+  const error = validateLateFeePolicy(input);
+  if (error) throw new Error(error);
+  const [policy] = await (db as any).insert(lateFeePolicies)
+    .values({ ...policyValues(input), isActive: false, createdBy })
+    .returning();
+  return policy;
+}
+
+export async function updateLateFeePolicy(id: string, input: LateFeePolicyInput): Promise<any> {
+  const error = validateLateFeePolicy(input);
+  if (error) throw new Error(error);
+  const [policy] = await db.update(lateFeePolicies)
+    .set({ ...policyValues(input), updatedAt: new Date() })
+    .where(eq(lateFeePolicies.id, id))
+    .returning();
+  if (!policy) throw new Error('Late-fee policy not found');
+  return policy;
+}
+
+/** Enabling a policy disables any other, so a tenant has at most one in force. */
+export async function setLateFeePolicyActive(id: string, isActive: boolean): Promise<any> {
+  return await db.transaction(async (tx) => {
+    if (isActive) {
+      await tx.update(lateFeePolicies).set({ isActive: false, updatedAt: new Date() }).where(eq(lateFeePolicies.isActive, true));
+    }
+    const [policy] = await tx.update(lateFeePolicies)
+      .set({ isActive, updatedAt: new Date() })
+      .where(eq(lateFeePolicies.id, id))
+      .returning();
+    if (!policy) throw new Error('Late-fee policy not found');
+    return policy;
+  });
+}
+
+// ---- Exemptions ----
+
+export async function getLateFeeExemptions(): Promise<any[]> {
+  return await db
+    .select({
+      id: lateFeeExemptions.id,
+      studentId: lateFeeExemptions.studentId,
+      studentName: sql<string>`${students.firstName} || ' ' || ${students.lastName}`,
+      rollNumber: students.rollNumber,
+      reason: lateFeeExemptions.reason,
+      createdBy: lateFeeExemptions.createdBy,
+      createdAt: lateFeeExemptions.createdAt,
+    })
+    .from(lateFeeExemptions)
+    .innerJoin(students, eq(lateFeeExemptions.studentId, students.id))
+    .orderBy(students.firstName);
+}
+
+export async function addLateFeeExemption(studentId: string, reason: string, createdBy: string): Promise<any> {
+  if (!reason?.trim()) throw new Error('A reason is required for exemptions');
+  const [exemption] = await (db as any).insert(lateFeeExemptions)
+    .values({ studentId, reason: reason.trim(), createdBy })
+    .onConflictDoUpdate({
+      target: [lateFeeExemptions.studentId, lateFeeExemptions.tenantId],
+      set: { reason: reason.trim(), createdBy, createdAt: new Date() },
+    })
+    .returning();
+  return exemption;
+}
+
+export async function removeLateFeeExemption(id: string): Promise<void> {
+  await db.delete(lateFeeExemptions).where(eq(lateFeeExemptions.id, id));
+}
+
+// ---- Evaluation ----
+
+/** What `policy` would charge on each overdue invoice as of `asOf`. Read-only. */
+export async function evaluateLateFees(
+  policy: LateFeePolicyLike & { exemptDiscounted?: boolean | null },
+  asOf: string,
+): Promise<LateFeeLine[]> {
+  const overdue = await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      studentId: invoices.studentId,
+      firstName: students.firstName,
+      lastName: students.lastName,
+      dueDate: invoices.dueDate,
+      total: invoices.total,
+      lateFee: invoices.lateFee,
+    })
+    .from(invoices)
+    .innerJoin(students, eq(invoices.studentId, students.id))
+    .where(and(
+      inArray(invoices.status, ['sent', 'partial', 'overdue']),
+      gt(invoices.balanceDue, '0'),
+      lt(invoices.dueDate, asOf),
+      eq(invoices.lateFeeWaived, false),
+    ))
+    .orderBy(invoices.dueDate);
+  if (overdue.length === 0) return [];
+
+  const studentIds = Array.from(new Set(overdue.map((i) => i.studentId)));
+  const exempt = new Set(
+    (await db.select({ studentId: lateFeeExemptions.studentId }).from(lateFeeExemptions)
+      .where(inArray(lateFeeExemptions.studentId, studentIds))).map((e) => e.studentId),
+  );
+  const discounted = new Set<string>();
+  if (policy.exemptDiscounted) {
+    const rows = await db.select({ studentId: enrollments.studentId }).from(enrollments)
+      .where(and(
+        inArray(enrollments.studentId, studentIds),
+        eq(enrollments.isActive, true),
+        sql`coalesce(${enrollments.discountType}, 'none') <> 'none'`,
+        gt(enrollments.discountValue, '0'),
+      ));
+    rows.forEach((r) => discounted.add(r.studentId));
+  }
+
+  return overdue.map((inv) => {
+    const currentLateFee = num(inv.lateFee);
+    const base = roundMoney(num(inv.total) - currentLateFee);
+    const daysOverdue = daysBetween(inv.dueDate, asOf);
+    const skipped = exempt.has(inv.studentId) ? 'exempt' : discounted.has(inv.studentId) ? 'discounted' : null;
+    const targetLateFee = skipped ? currentLateFee : Math.max(currentLateFee, computeLateFee(policy, base, daysOverdue));
+    return {
+      invoiceId: inv.id,
+      invoiceNumber: inv.invoiceNumber,
+      studentId: inv.studentId,
+      studentName: `${inv.firstName} ${inv.lastName}`,
+      dueDate: inv.dueDate,
+      daysOverdue,
+      base,
+      currentLateFee,
+      targetLateFee,
+      charge: roundMoney(targetLateFee - currentLateFee),
+      skipped,
+    };
+  });
+}
+
+/**
+ * Charge the active policy's late fees as of `asOf`. Each invoice update is guarded on
+ * the late fee it was evaluated with, so overlapping runs cannot double-charge.
+ */
+export async function applyLateFees(asOf: string): Promise<{ policyId: string | null; evaluated: number; charged: number; total: number }> {
+  const policy = await getActiveLateFeePolicy();
+  if (!policy) return { policyId: null, evaluated: 0, charged: 0, total: 0 };
+
+  const lines = await evaluateLateFees(policy, asOf);
+  let charged = 0;
+  let total = 0;
+  for (const line of lines) {
+    if (line.charge <= 0) continue;
+    const applied = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(invoices)
+        .set({
+          lateFee: line.targetLateFee.toFixed(2),
+          total: sql`${invoices.total} + ${line.charge.toFixed(2)}::numeric`,
+          balanceDue: sql`${invoices.balanceDue} + ${line.charge.toFixed(2)}::numeric`,
+          status: 'overdue',
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(invoices.id, line.invoiceId),
+          eq(invoices.lateFee, line.currentLateFee.toFixed(2)),
+          eq(invoices.lateFeeWaived, false),
+        ))
+        .returning({ id: invoices.id });
+      if (!updated) return false;
+      await (tx as any).insert(invoiceAdjustments).values({
+        invoiceId: line.invoiceId,
+        type: 'late_fee',
+        amount: line.charge.toFixed(2),
+        reason: `Late fee (${policy.name}) as of ${asOf}, ${line.daysOverdue} days overdue`,
+        appliedBy: policy.createdBy,
+      });
+      return true;
+    });
+    if (applied) {
+      charged++;
+      total = roundMoney(total + line.charge);
+    }
+  }
+  return { policyId: policy.id, evaluated: lines.length, charged, total };
+}
+
+/**
+ * Remove an invoice's late fee and stop it from ever being charged again. When the fee
+ * was already paid, what is now paid over the total moves to the student's credit wallet
+ * as an overpayment, taken off the invoice's newest allocations first.
+ */
+export async function waiveLateFee(invoiceId: string, reason: string, waivedBy: string, today: string): Promise<any> {
+  if (!reason?.trim()) throw new Error('A reason is required to waive a late fee');
+  return await db.transaction(async (tx) => {
+    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+    if (!invoice) throw new Error('Invoice not found');
+    if (invoice.lateFeeWaived) throw new Error('Late fee has already been waived on this invoice');
+
+    const fee = num(invoice.lateFee);
+    const total = roundMoney(num(invoice.total) - fee);
+    let amountPaid = num(invoice.amountPaid);
+    if (fee > 0) {
+      await (tx as any).insert(invoiceAdjustments).values({
+        invoiceId,
+        type: 'late_fee',
+        amount: (-fee).toFixed(2),
+        reason: `Late fee waived: ${reason.trim()}`,
+        appliedBy: waivedBy,
+      });
+    }
+
+    const allocations = amountPaid > total
+      ? await tx.select().from(paymentAllocations).where(eq(paymentAllocations.invoiceId, invoiceId))
+      : [];
+    const allocated = roundMoney(allocations.reduce((s, a) => s + num(a.amount), 0));
+    const overpaid = roundMoney(Math.min(amountPaid - total, allocated));
+    if (overpaid > 0) {
+      for (const step of planRefund(overpaid, 0, allocations).unwind) {
+        const allocation = allocations.find((a) => a.id === step.allocationId)!;
+        const left = roundMoney(num(allocation.amount) - step.amount);
+        if (left > 0) {
+          await tx.update(paymentAllocations).set({ amount: left.toFixed(2) }).where(eq(paymentAllocations.id, allocation.id));
+        } else {
+          await tx.delete(paymentAllocations).where(eq(paymentAllocations.id, allocation.id));
+        }
+        await (tx as any).insert(studentCreditMovements).values({
+          studentId: invoice.studentId,
+          type: 'overpayment',
+          amount: step.amount.toFixed(2),
+          paymentId: allocation.paymentId,
+          invoiceId,
+          notes: `Late fee waived on invoice ${invoice.invoiceNumber}`,
+          createdBy: waivedBy,
+        });
+      }
+      amountPaid = roundMoney(amountPaid - overpaid);
+    }
+
+    const [updated] = await tx.update(invoices)
+      .set({
+        lateFee: '0',
+        lateFeeWaived: true,
+        total: total.toFixed(2),
+        amountPaid: amountPaid.toFixed(2),
+        balanceDue: Math.max(0, roundMoney(total - amountPaid)).toFixed(2),
+        status: invoiceStatusAsOf(total, amountPaid, invoice.dueDate, today),
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    return updated;
+  });
+}
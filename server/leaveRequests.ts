@@ -0,0 +1,258 @@
+/**
+ * Leave requests: a parent or student asks from the portal for the student to be excused
+ * for a range of dates, and a teacher of the student or management approves or rejects it.
+ *
+ * Approving marks every class the student has in the range (the sessions of their active
+ * enrollments) with the request's absence type (leave, medical or excused), through the
+ * same register save as a teacher's (attendance.ts), so each mark is recorded against the
+ * approver and a changed mark leaves an edit row. Marks of present or late are kept - the
+ * student came after all - and marks past the school's amend cut-off are only changed
+ * when management approves. A teacher may review a request only when every class it
+ * covers is theirs; one that also covers other teachers' classes is left to management.
+ */
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { isAmendLocked, saveSessionAttendanceIn } from "./attendance";
+import { daysBetween } from "./lateFees";
+import { addDays, listSessions, studentsTaughtBy, type SessionView } from "./timetable";
+import { attendance, enrollments, leaveRequests, leaveRequestStatusEnum, students, users, type LeaveRequest } from "@shared/schema";
+
+export const LEAVE_ABSENCE_TYPES = ['leave', 'medical', 'excused'] as const;
+export type LeaveAbsenceType = typeof LEAVE_ABSENCE_TYPES[number];
+
+export const MAX_LEAVE_DAYS = 31;
+// How far back a request may start, for a note sent after the student was away
+export const LEAVE_BACKDATE_DAYS = 14;
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export interface LeaveRequestInput {
+  startDate: string;
+  endDate: string;
+  absenceType?: LeaveAbsenceType;
+  reason: string;
+}
+
+/** Returns an error message, or null when the request can be sent. */
+export function validateLeaveRequest(input: Partial<Record<keyof LeaveRequestInput, unknown>>, today: string): string | null {
+  if (!isDate(input.startDate) || !isDate(input.endDate)) return 'Dates must be in YYYY-MM-DD format';
+  if (input.endDate < input.startDate) return 'The last day must not be before the first day';
+  if (daysBetween(input.startDate, input.endDate) + 1 > MAX_LEAVE_DAYS) return `A request can cover at most ${MAX_LEAVE_DAYS} days`;
+  if (input.startDate < addDays(today, -LEAVE_BACKDATE_DAYS)) {
+    return `A request can start at most ${LEAVE_BACKDATE_DAYS} days ago`;
+  }
+  if (input.absenceType !== undefined && !(LEAVE_ABSENCE_TYPES as readonly unknown[]).includes(input.absenceType)) {
+    return `The absence must be one of: ${LEAVE_ABSENCE_TYPES.join(', ')}`;
+  }
+  if (typeof input.reason !== 'string' || !input.reason.trim()) return 'Give a reason for the absence';
+  return null;
+}
+
+export interface LeavePlan {
+  mark: SessionView[];
+  unchanged: number; // Already marked with the absence type
+  skipped: { attended: number; locked: number };
+}
+
+/**
+ * Which of the student's sessions an approval marks. Cancelled classes are left out,
+ * present and late marks kept, and saved marks `isLocked` says the approver may no longer
+ * change are skipped (unmarked sessions past the cut-off are still marked).
+ */
+export function planLeaveMarks(
+  sessions: SessionView[],
+  saved: Map<string, string>,
+  absenceType: LeaveAbsenceType,
+  isLocked: (session: SessionView) => boolean,
+): LeavePlan {
+  const plan: LeavePlan = { mark: [], unchanged: 0, skipped: { attended: 0, locked: 0 } };
+  for (const session of sessions) {
+    if (session.status === 'cancelled') continue;
+    const status = saved.get(session.id);
+    if (status === absenceType) plan.unchanged++;
+    else if (status === 'present' || status === 'late') plan.skipped.attended++;
+    else if (status !== undefined && isLocked(session)) plan.skipped.locked++;
+    else plan.mark.push(session);
+  }
+  return plan;
+}
+
+/** Classes in the list (cancelled ones aside) that another teacher takes. */
+export function classesWithOtherTeachers(sessions: Pick<SessionView, 'status' | 'teacherId'>[], teacherId: string): number {
+  return sessions.filter((session) => session.status !== 'cancelled' && session.teacherId !== teacherId).length;
+}
+
+const taughtBy = (teacherId: string) => inArray(leaveRequests.studentId, studentsTaughtBy(teacherId));
+
+const reviewers = alias(users, 'leave_reviewer');
+
+const selectRequests = () => db
+  .select({
+    id: leaveRequests.id,
+    studentId: leaveRequests.studentId,
+    studentFirstName: students.firstName,
+    studentLastName: students.lastName,
+    rollNumber: students.rollNumber,
+    startDate: leaveRequests.startDate,
+    endDate: leaveRequests.endDate,
+    absenceType: leaveRequests.absenceType,
+    reason: leaveRequests.reason,
+    status: leaveRequests.status,
+    reviewedBy: leaveRequests.reviewedBy,
+    reviewerFirstName: reviewers.firstName,
+    reviewerLastName: reviewers.lastName,
+    reviewedAt: leaveRequests.reviewedAt,
+    reviewNote: leaveRequests.reviewNote,
+    sessionsMarked: leaveRequests.sessionsMarked,
+    createdAt: leaveRequests.createdAt,
+  })
+  .from(leaveRequests)
+  .innerJoin(students, eq(leaveRequests.studentId, students.id))
+  .leftJoin(reviewers, eq(leaveRequests.reviewedBy, reviewers.id));
+
+const requestView = (row: Awaited<ReturnType<ReturnType<typeof selectRequests>['execute']>>[number]) => {
+  const { studentFirstName, studentLastName, reviewerFirstName, reviewerLastName, ...request } = row;
+  return {
+    ...request,
+    studentName: `${studentFirstName} ${studentLastName}`.trim(),
+    reviewerName: `${reviewerFirstName || ''} ${reviewerLastName || ''}`.trim() || null,
+  };
+};
+
+export type LeaveRequestView = ReturnType<typeof requestView>;
+
+const isRequestStatus = (status: unknown): status is LeaveRequest['status'] =>
+  (leaveRequestStatusEnum.enumValues as readonly unknown[]).includes(status);
+
+/** Requests for staff, newest first; a teacher (teacherId set) sees only their students'. */
+export async function getLeaveRequests(filter: { status?: string; teacherId?: string | null } = {}): Promise<LeaveRequestView[]> {
+  const rows = await selectRequests()
+    .where(and(
+      isRequestStatus(filter.status) ? eq(leaveRequests.status, filter.status) : undefined,
+      filter.teacherId ? taughtBy(filter.teacherId) : undefined,
+    ))
+    .orderBy(desc(leaveRequests.createdAt));
+  return rows.map(requestView);
+}
+
+/** A student's requests for the portal, newest first. */
+export async function getStudentLeaveRequests(studentId: string): Promise<LeaveRequestView[]> {
+  const rows = await selectRequests()
+    .where(eq(leaveRequests.studentId, studentId))
+    .orderBy(desc(leaveRequests.createdAt));
+  return rows.map(requestView);
+}
+
+export async function createLeaveRequest(
+  studentId: string,
+  input: LeaveRequestInput,
+  today: string,
+  from: { userId: string | null; portalTokenId: string | null },
+): Promise<LeaveRequest> {
+  const error = validateLeaveRequest(input, today);
+  if (error) throw new Error(error);
+  const [request] = await (db as any)
+    .insert(leaveRequests)
+    .values({
+      studentId,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      absenceType: input.absenceType ?? 'leave',
+      reason: input.reason.trim(),
+      requestedBy: from.userId,
+      portalTokenId: from.userId ? null : from.portalTokenId,
+    })
+    .returning();
+  return request;
+}
+
+/** Withdraw a request that has not been reviewed yet. */
+export async function cancelLeaveRequest(id: string, studentId: string): Promise<LeaveRequest> {
+  const [request] = await db
+    .update(leaveRequests)
+    .set({ status: 'cancelled' })
+    .where(and(eq(leaveRequests.id, id), eq(leaveRequests.studentId, studentId), eq(leaveRequests.status, 'pending')))
+    .returning();
+  if (!request) throw new Error('Only a pending request can be cancelled');
+  return request;
+}
+
+export interface Reviewer {
+  userId: string;
+  teacherId: string | null; // Set when the reviewer is a teacher (limited to their students)
+  canAmendLocked: boolean; // Management may mark sessions past the amend cut-off
+  amendHours: number | null;
+  timeZone?: string;
+}
+
+/**
+ * Approve or reject a pending request. Rejecting needs a note for the family; approving
+ * marks the student's sessions in the range and returns what was marked and skipped. The
+ * decision and the marks commit together.
+ */
+export async function reviewLeaveRequest(
+  id: string,
+  decision: unknown,
+  reviewer: Reviewer,
+  note?: string,
+): Promise<{ request: LeaveRequest; plan: Omit<LeavePlan, 'mark'> & { marked: number } | null }> {
+  if (decision !== 'approved' && decision !== 'rejected') throw new Error('Decide approved or rejected');
+  if (decision === 'rejected' && !note?.trim()) throw new Error('Say why the request is rejected');
+  const status: LeaveRequest['status'] = decision;
+
+  return await db.transaction(async (tx) => {
+    const [request] = await tx
+      .select()
+      .from(leaveRequests)
+      .where(and(eq(leaveRequests.id, id), reviewer.teacherId ? taughtBy(reviewer.teacherId) : undefined))
+      .for('update');
+    if (!request) throw new Error('Leave request not found');
+    if (request.status !== 'pending') throw new Error(`This request was already ${request.status}`);
+
+    const enrolled = await tx
+      .select({ subjectId: enrollments.subjectId })
+      .from(enrollments)
+      .where(and(eq(enrollments.studentId, request.studentId), eq(enrollments.isActive, true)));
+    const subjectIds = Array.from(new Set(enrolled.map((e) => e.subjectId).filter((id): id is string => !!id)));
+    const sessions = await listSessions({ start: request.startDate, end: request.endDate }, { subjectIds });
+    if (reviewer.teacherId && classesWithOtherTeachers(sessions, reviewer.teacherId) > 0) {
+      throw new Error('This request also covers classes with other teachers, so management has to review it');
+    }
+
+    const review = { status, reviewedBy: reviewer.userId, reviewedAt: new Date(), reviewNote: note?.trim() || null };
+    if (status === 'rejected') {
+      const [rejected] = await tx.update(leaveRequests).set(review).where(eq(leaveRequests.id, request.id)).returning();
+      return { request: rejected, plan: null };
+    }
+
+    const saved = sessions.length === 0 ? [] : await tx
+      .select({ sessionId: attendance.sessionId, status: attendance.status })
+      .from(attendance)
+      .where(and(eq(attendance.studentId, request.studentId), inArray(attendance.sessionId, sessions.map((s) => s.id))));
+
+    const absenceType = request.absenceType as LeaveAbsenceType;
+    const plan = planLeaveMarks(
+      sessions,
+      new Map(saved.map((m) => [m.sessionId!, m.status])),
+      absenceType,
+      (session) => !reviewer.canAmendLocked && isAmendLocked(session, reviewer.amendHours, reviewer.timeZone),
+    );
+    for (const session of plan.mark) {
+      await saveSessionAttendanceIn(
+        tx,
+        session,
+        [{ studentId: request.studentId, status: absenceType, notes: request.reason }],
+        reviewer.userId,
+        `Leave request approved: ${request.reason}`,
+        { leaveRequestId: request.id },
+      );
+    }
+    const [approved] = await tx
+      .update(leaveRequests)
+      .set({ ...review, sessionsMarked: plan.mark.length })
+      .where(eq(leaveRequests.id, request.id))
+      .returning();
+    return { request: approved, plan: { marked: plan.mark.length, unchanged: plan.unchanged, skipped: plan.skipped } };
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * Sign-in throttling, account lockout and suspicious-activity alerts.
+ *
+ * Two counters guard /api/auth/login. Per account, users.failed_login_count counts
+ * consecutive failures: past a few free attempts each one is answered more slowly, and
+ * every LOCK_THRESHOLD failures lock the account for a period that doubles with each
+ * lockout (reset by a successful sign-in or a management unlock). Per IP, the
+ * login_failed rows in audit_logs over the last IP_WINDOW_MINUTES are the counter -
+ * they slow and eventually refuse an address, and an address failing against many
+ * different accounts raises the security_alert notification for the schools involved.
+ */
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+import { poolDb } from "./db";
+import { auditLogs, tenants, users, type User } from "@shared/schema";
+import { NotificationService } from "./notificationService";
+import { recordAuditEvent, type AuditOrigin } from "./auditLog";
+
+export const LOGIN_LIMITS = {
+  freeFailures: 2, // failures answered without delay
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  lockThreshold: 5, // consecutive account failures per lockout
+  lockoutMinutes: 15, // first lockout; doubles with each further one
+  maxLockoutMinutes: 24 * 60,
+  ipWindowMinutes: 15,
+  ipMaxFailures: 30, // failures from one IP in the window before it is refused
+  suspiciousAccounts: 5, // distinct accounts failed from one IP in the window
+};
+
+export type LoginLimits = typeof LOGIN_LIMITS;
+
+export interface IpFailureStats {
+  failures: number;
+  accounts: number;
+}
+
+/** Delay before answering an attempt that follows `failures` recent failures. */
+export function loginDelayMs(failures: number, limits: LoginLimits = LOGIN_LIMITS): number {
+  const excess = failures - limits.freeFailures;
+  if (excess <= 0) return 0;
+  return Math.min(limits.baseDelayMs * 2 ** (excess - 1), limits.maxDelayMs);
+}
+
+/**
+ * When an account with `failedCount` consecutive failures is locked until, or null when
+ * this failure does not lock it. Each multiple of the threshold doubles the lockout.
+ */
+export function lockoutUntil(failedCount: number, now = new Date(), limits: LoginLimits = LOGIN_LIMITS): Date | null {
+  if (failedCount <= 0 || failedCount % limits.lockThreshold !== 0) return null;
+  const lockouts = failedCount / limits.lockThreshold;
+  const minutes = Math.min(limits.lockoutMinutes * 2 ** (lockouts - 1), limits.maxLockoutMinutes);
+  return new Date(now.getTime() + minutes * 60_000);
+}
+
+export function isLockedOut(lockedUntil: Date | null | undefined, now = new Date()): boolean {
+  return !!lockedUntil && lockedUntil.getTime() > now.getTime();
+}
+
+/** Whole minutes (at least 1) until `until`, for "try again in N minutes" messages. */
+export function minutesUntil(until: Date, now = new Date()): number {
+  return Math.max(1, Math.ceil((until.getTime() - now.getTime()) / 60_000));
+}
+
+export function isIpBlocked(stats: IpFailureStats, limits: LoginLimits = LOGIN_LIMITS): boolean {
+  return stats.failures >= limits.ipMaxFailures;
+}
+
+export function isSuspiciousIp(stats: IpFailureStats, limits: LoginLimits = LOGIN_LIMITS): boolean {
+  return stats.accounts >= limits.suspiciousAccounts;
+}
+
+const ipWindowStart = (now = new Date()) => new Date(now.getTime() - LOGIN_LIMITS.ipWindowMinutes * 60_000);
+
+/** Failed sign-ins from an IP in the current window, and how many distinct emails they tried. */
+export async function ipFailureStats(ipAddress: string | null): Promise<IpFailureStats> {
+  if (!ipAddress) return { failures: 0, accounts: 0 };
+  const [row] = await poolDb
+    .select({
+      failures: sql<number>`count(*)::int`,
+      accounts: sql<number>`count(distinct lower(${auditLogs.details} ->> 'email'))::int`,
+    })
+    .from(auditLogs)
+    .where(and(
+      eq(auditLogs.ipAddress, ipAddress),
+      eq(auditLogs.action, 'login_failed'),
+      gte(auditLogs.createdAt, ipWindowStart()),
+    ));
+  return { failures: row?.failures ?? 0, accounts: row?.accounts ?? 0 };
+}
+
+/** Count a failed password for the account, locking it at the threshold. Returns the lock expiry if it was locked. */
+export async function recordFailedLogin(userId: string, now = new Date()): Promise<Date | null> {
+  const [row] = await poolDb
+    .update(users)
+    .set({ failedLoginCount: sql`coalesce(${users.failedLoginCount}, 0) + 1` })
+    .where(eq(users.id, userId))
+    .returning({ failedLoginCount: users.failedLoginCount });
+  const until = lockoutUntil(row?.failedLoginCount ?? 0, now);
+  if (until) {
+    await poolDb.update(users).set({ lockedUntil: until }).where(eq(users.id, userId));
+  }
+  return until;
+}
+
+export async function clearFailedLogins(user: Pick<User, 'id' | 'failedLoginCount' | 'lockedUntil'>): Promise<void> {
+  if (!user.failedLoginCount && !user.lockedUntil) return;
+  await poolDb.update(users).set({ failedLoginCount: 0, lockedUntil: null }).where(eq(users.id, user.id));
+}
+
+/** Management unlocking a staff account in their school. Returns false when there is no such user. */
+export async function unlockAccount(
+  tenantId: string,
+  userId: string,
+  unlockedBy: string,
+  origin: AuditOrigin,
+): Promise<boolean> {
+  const [user] = await poolDb
+    .update(users)
+    .set({ failedLoginCount: 0, lockedUntil: null, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), eq(users.tenantId, tenantId)))
+    .returning({ id: users.id, email: users.email });
+  if (!user) return false;
+  await recordAuditEvent({
+    tenantId,
+    userId: unlockedBy,
+    action: 'account_unlocked',
+    resource: 'user',
+    resourceId: userId,
+    details: { email: user.email },
+    ...origin,
+  });
+  return true;
+}
+
+/**
+ * Raise the security_alert notification for each school whose accounts were targeted
+ * (system-wide when none of the attempted emails exist). Sent at most once per IP and
+ * window; the alert itself is audited so the check survives restarts.
+ */
+export async function raiseSecurityAlert(
+  activity: string,
+  tenantIds: string[],
+  origin: AuditOrigin,
+): Promise<void> {
+  try {
+    if (origin.ipAddress) {
+      const [already] = await poolDb
+        .select({ id: auditLogs.id })
+        .from(auditLogs)
+        .where(and(
+          eq(auditLogs.ipAddress, origin.ipAddress),
+          eq(auditLogs.action, 'security_alert'),
+          gte(auditLogs.createdAt, ipWindowStart()),
+        ))
+        .limit(1);
+      if (already) return;
+    }
+
+    const schools = tenantIds.length
+      ? await poolDb.select({ id: tenants.id, name: tenants.name }).from(tenants).where(inArray(tenants.id, tenantIds))
+      : [];
+    for (const school of schools.length ? schools : [{ id: undefined, name: 'Frontbench' }]) {
+      await NotificationService.createNotificationFromTemplate(
+        'security_alert',
+        { tenantName: school.name, activity },
+        { tenantId: school.id },
+      );
+      await recordAuditEvent({
+        tenantId: school.id ?? null,
+        action: 'security_alert',
+        resource: 'auth',
+        details: { activity },
+        ...origin,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to raise security alert:', error);
+  }
+}
+
+/** Schools owning the accounts an IP has failed to sign in to during the window. */
+export async function tenantsTargetedFrom(ipAddress: string): Promise<string[]> {
+  const rows = await poolDb
+    .selectDistinct({ tenantId: auditLogs.tenantId })
+    .from(auditLogs)
+    .where(and(
+      eq(auditLogs.ipAddress, ipAddress),
+      eq(auditLogs.action, 'login_failed'),
+      gte(auditLogs.createdAt, ipWindowStart()),
+    ));
+  return rows.map((r) => r.tenantId).filter((id): id is string => !!id);
+}
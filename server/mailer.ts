@@ -0,0 +1,266 @@
+/**
+ * Outgoing mail.
+ *
+ * Code sends mail through `sendMail`; the transport is picked from the environment:
+ *   MAIL_TRANSPORT=smtp     SMTP_HOST, SMTP_PORT (default 587, STARTTLS when offered),
+ *                           SMTP_SECURE=true for implicit TLS (port 465), SMTP_USER/SMTP_PASS
+ *   MAIL_TRANSPORT=file     each message is written as an .eml file to MAIL_DIR (default .mail/)
+ *   MAIL_TRANSPORT=console  each message is logged (the default when SMTP_HOST is not set)
+ * MAIL_FROM is the sender address for every transport.
+ */
+import net from "net";
+import tls from "tls";
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage, from: string): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS; otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_FROM = 'Frontbench <no-reply@frontbench.io>';
+
+/** Bare address from `Name <addr>` or `addr`. */
+export function mailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+// Header values never carry line breaks (header injection); non-ASCII uses RFC 2047
+function encodeHeader(value: string): string {
+  value = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * The message as RFC 5322 text with CRLF line endings. Bodies are base64 encoded, so
+ * no body line can start with "." and need dot-stuffing on the wire.
+ */
+export function buildMimeMessage(message: MailMessage, from: string, date = new Date(), id = randomBytes(12).toString('hex')): string {
+  const domain = mailAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${id}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, body: string) =>
+    [`Content-Type: ${type}; charset=utf-8`, 'Content-Transfer-Encoding: base64', '', base64Lines(body)].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n') + '\r\n';
+  }
+  const boundary = `fb-${id}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** One SMTP conversation: reads multi-line replies and survives the STARTTLS socket upgrade. */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private pending: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  get raw(): net.Socket {
+    return this.socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.pending.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.length < 4 || line[3] === ' ') {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.pending };
+        this.pending = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiting.splice(0).forEach((w) => w.reject(error));
+  }
+
+  read(): Promise<SmtpReply> {
+    const ready = this.replies.shift();
+    if (ready) return Promise.resolve(ready);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /** Send `line` (null just reads) and expect one of the reply codes. `label` keeps credentials out of errors. */
+  async command(line: string | null, expect: number[], label?: string): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expect.includes(reply.code)) {
+      throw new Error(`SMTP ${label ?? line ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.failure = this.failure || new Error('SMTP session closed');
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+export class SmtpTransport implements MailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage, from: string): Promise<void> {
+    const { host, user, pass } = this.options;
+    const session = new SmtpSession(await connect(this.options), this.options.timeoutMs ?? 30_000);
+    try {
+      await session.command(null, [220]);
+      let ehlo = await session.command('EHLO frontbench', [250]);
+
+      if (!this.options.secure && ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+        await session.command('STARTTLS', [220]);
+        session.raw.removeAllListeners('data');
+        session.raw.removeAllListeners('close');
+        session.attach(await upgrade(session.raw, host));
+        ehlo = await session.command('EHLO frontbench', [250]);
+      }
+
+      if (user) {
+        const auth = ehlo.lines.find((l) => /^AUTH\b/i.test(l)) || '';
+        if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+          await session.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${pass ?? ''}`).toString('base64')}`, [235], 'AUTH');
+        } else {
+          await session.command('AUTH LOGIN', [334]);
+          await session.command(Buffer.from(user).toString('base64'), [334], 'AUTH');
+          await session.command(Buffer.from(pass ?? '').toString('base64'), [235], 'AUTH');
+        }
+      }
+
+      await session.command(`MAIL FROM:<${mailAddress(from)}>`, [250]);
+      await session.command(`RCPT TO:<${mailAddress(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      await session.command(`${buildMimeMessage(message, from)}.`, [250], 'DATA');
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+export class FileTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage, from: string): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.dir, name), buildMimeMessage(message, from));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage, from: string): Promise<void> {
+    console.log(`[mail] From: ${from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export function transportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+  if (kind === 'smtp') {
+    if (!env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+    const secure = env.SMTP_SECURE === 'true';
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+    });
+  }
+  if (kind === 'file') return new FileTransport(env.MAIL_DIR || path.resolve(process.cwd(), '.mail'));
+  if (kind === 'console') return new ConsoleTransport();
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+}
+
+let transport: MailTransport | null = null;
+
+/** Swap the transport (tests, or a different provider). */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport = transport || transportFromEnv();
+  await transport.send(message, process.env.MAIL_FROM || DEFAULT_FROM);
+}
@@ -0,0 +1,179 @@
+/**
+ * Monthly invoice lines.
+ *
+ * Turns a student's enrollments into the itemised lines of one month's invoice:
+ *   - a combo enrollment is billed once at the combo's discounted fee and replaces the
+ *     individual fees of its member subjects;
+ *   - the enrollment's discount (type, value, reason, approver) is carried onto the line;
+ *   - enrollments that start or end inside the month are prorated by days covered,
+ *     the same days-remaining / days-in-month rule generateProRatedInvoice uses.
+ * Pure helpers only - billing.ts loads the rows and writes the invoice.
+ */
+import { roundMoney } from "./payouts";
+import { daysBetween } from "./lateFees";
+
+export interface EnrollmentLike {
+  id: string;
+  subjectId: string | null;
+  comboId: string | null;
+  discountType?: string | null;
+  discountValue?: string | number | null;
+  discountReason?: string | null;
+  discountApprovedBy?: string | null;
+  enrolledOn?: string | null; // YYYY-MM-DD, school time
+  withdrawnOn?: string | null; // YYYY-MM-DD, billed up to and including this day
+}
+
+export interface SubjectPrice {
+  id: string;
+  name: string;
+  baseFee: string | number;
+}
+
+export interface ComboPrice {
+  id: string;
+  name: string;
+  discountedFee: string | number;
+  subjectIds: string[];
+}
+
+export interface BillingMonth {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface InvoiceLineDraft {
+  type: 'subject' | 'combo';
+  enrollmentId: string;
+  subjectId: string | null;
+  comboId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number; // fee for the days billed, before discount
+  discountType: string;
+  discountValue: number;
+  discountAmount: number;
+  discountReason: string | null;
+  discountApprovedBy: string | null;
+  total: number;
+  billedDays: number;
+}
+
+/** The calendar month containing `date` (YYYY-MM-DD). */
+export function billingMonth(date: string): BillingMonth {
+  const [y, m] = date.split('-').map(Number);
+  const days = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  const mm = String(m).padStart(2, '0');
+  return { start: `${y}-${mm}-01`, end: `${y}-${mm}-${String(days).padStart(2, '0')}`, days };
+}
+
+/** Days of the month an enrollment covers (0 when it starts after or ended before the month). */
+export function billedDays(month: BillingMonth, enrolledOn?: string | null, withdrawnOn?: string | null): number {
+  const from = enrolledOn && enrolledOn > month.start ? enrolledOn : month.start;
+  const to = withdrawnOn && withdrawnOn < month.end ? withdrawnOn : month.end;
+  return Math.max(0, daysBetween(from, to) + 1);
+}
+
+/** Discount on `fee` for an enrollment discount; fixed discounts never exceed the fee. */
+export function enrollmentDiscount(fee: number, type?: string | null, value?: string | number | null): number {
+  const v = Number(value || 0);
+  if (v <= 0) return 0;
+  if (type === 'percentage') return roundMoney(fee * Math.min(v, 100) / 100);
+  if (type === 'fixed') return roundMoney(Math.min(v, fee));
+  return 0;
+}
+
+function line(
+  base: Pick<InvoiceLineDraft, 'type' | 'enrollmentId' | 'subjectId' | 'comboId'>,
+  name: string,
+  monthlyFee: number,
+  enrollment: EnrollmentLike,
+  days: number,
+  month: BillingMonth,
+): InvoiceLineDraft {
+  const factor = days / month.days;
+  const unitPrice = roundMoney(monthlyFee * factor);
+  const discountAmount = roundMoney(enrollmentDiscount(monthlyFee, enrollment.discountType, enrollment.discountValue) * factor);
+  const hasDiscount = discountAmount > 0;
+  return {
+    ...base,
+    description: days < month.days ? `${name} (${days} of ${month.days} days)` : name,
+    quantity: 1,
+    unitPrice,
+    discountType: hasDiscount ? enrollment.discountType || 'none' : 'none',
+    discountValue: hasDiscount ? Number(enrollment.discountValue || 0) : 0,
+    discountAmount,
+    discountReason: hasDiscount ? enrollment.discountReason || null : null,
+    discountApprovedBy: hasDiscount ? enrollment.discountApprovedBy || null : null,
+    total: roundMoney(unitPrice - discountAmount),
+    billedDays: days,
+  };
+}
+
+/**
+ * Lines for one student's month. Enrollments that reference an unknown subject or
+ * combo (deleted, other tenant) are ignored rather than billed at zero.
+ */
+export function buildInvoiceLines(
+  enrollments: EnrollmentLike[],
+  subjects: Map<string, SubjectPrice>,
+  combos: Map<string, ComboPrice>,
+  month: BillingMonth,
+): InvoiceLineDraft[] {
+  const lines: InvoiceLineDraft[] = [];
+
+  // Combos: one line per combo, spanning the widest enrollment window of its rows
+  const comboGroups = new Map<string, EnrollmentLike[]>();
+  for (const e of enrollments) {
+    if (!e.comboId || !combos.has(e.comboId)) continue;
+    comboGroups.set(e.comboId, [...(comboGroups.get(e.comboId) || []), e]);
+  }
+  const coveredSubjects = new Set<string>();
+  for (const [comboId, group] of Array.from(comboGroups.entries())) {
+    const combo = combos.get(comboId)!;
+    combo.subjectIds.forEach((id) => coveredSubjects.add(id));
+
+    const enrolledOn = group.map((e) => e.enrolledOn || month.start).sort()[0];
+    const withdrawnOn = group.some((e) => !e.withdrawnOn) ? null : group.map((e) => e.withdrawnOn!).sort().reverse()[0];
+    const days = billedDays(month, enrolledOn, withdrawnOn);
+    if (days === 0) continue;
+
+    const discounted = group.find((e) => enrollmentDiscount(1, e.discountType, e.discountValue) > 0) || group[0];
+    const members = combo.subjectIds.map((id) => subjects.get(id)?.name).filter(Boolean);
+    lines.push(line(
+      { type: 'combo', enrollmentId: discounted.id, subjectId: null, comboId },
+      members.length ? `${combo.name}: ${members.join(', ')}` : combo.name,
+      Number(combo.discountedFee),
+      discounted,
+      days,
+      month,
+    ));
+  }
+
+  // Individual subjects not already paid for by a combo
+  for (const e of enrollments) {
+    if (e.comboId && combos.has(e.comboId)) continue;
+    if (!e.subjectId || coveredSubjects.has(e.subjectId)) continue;
+    const subject = subjects.get(e.subjectId);
+    if (!subject) continue;
+    const days = billedDays(month, e.enrolledOn, e.withdrawnOn);
+    if (days === 0) continue;
+    lines.push(line(
+      { type: 'subject', enrollmentId: e.id, subjectId: e.subjectId, comboId: null },
+      subject.name,
+      Number(subject.baseFee),
+      e,
+      days,
+      month,
+    ));
+  }
+
+  return lines;
+}
+
+export function invoiceTotals(lines: InvoiceLineDraft[]): { subtotal: number; discount: number; total: number } {
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.unitPrice, 0));
+  const discount = roundMoney(lines.reduce((sum, l) => sum + l.discountAmount, 0));
+  return { subtotal, discount, total: roundMoney(subtotal - discount) };
+}
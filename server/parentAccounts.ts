@@ -0,0 +1,173 @@
+/**
+ * Parent accounts (role 'parent') and the children they may see.
+ *
+ * A student record has two parent slots: the primary parent (parentEmail -> parentId)
+ * and an additional parent (additionalParentEmail -> additionalParentId). Inviting a
+ * slot creates a parent user for that email, or links the existing one, so a parent
+ * with several children at the school has one account covering all the siblings. New
+ * accounts get a temporary password (shown to the office, like staff accounts) and an
+ * emailed link to choose their own.
+ *
+ * Every parent-facing endpoint resolves what a parent may see through parentChildIds;
+ * teachers are limited to the students in their classes and other staff are not
+ * restricted here.
+ */
+import { and, eq, inArray, or } from "drizzle-orm";
+import { db } from "./db";
+import { students, tenants, users, type Student, type User } from "@shared/schema";
+import { generateUserCredentials } from "./passwordUtils";
+import { sendAccountInvitation } from "./passwordReset";
+import { teacherScope } from "./permissions";
+import { studentsTaughtBy } from "./timetable";
+
+export type ParentSlot = 'primary' | 'additional';
+
+export const PARENT_SLOTS: ParentSlot[] = ['primary', 'additional'];
+
+const SLOT_FIELDS = {
+  primary: { email: 'parentEmail', name: 'parentName', phone: 'parentPhone', link: 'parentId' },
+  additional: { email: 'additionalParentEmail', name: 'additionalParentName', phone: 'additionalParentPhone', link: 'additionalParentId' },
+} as const;
+
+export function isParentSlot(value: unknown): value is ParentSlot {
+  return PARENT_SLOTS.includes(value as ParentSlot);
+}
+
+/** "Ayesha Khan" -> first/last name for the account; a single word is the first name. */
+export function splitParentName(name: string | null | undefined): { firstName: string | null; lastName: string | null } {
+  const parts = String(name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (!parts.length) return { firstName: null, lastName: null };
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') || null };
+}
+
+/** The parent email and linked account id held in a slot of a student record. */
+export function parentSlot(student: Pick<Student, 'parentEmail' | 'additionalParentEmail' | 'parentId' | 'additionalParentId'>, slot: ParentSlot) {
+  return {
+    email: student[SLOT_FIELDS[slot].email]?.trim() || null,
+    parentId: student[SLOT_FIELDS[slot].link] ?? null,
+  };
+}
+
+// ---- Database (tenant context) ----
+
+export const childOf = (parentId: string) => or(eq(students.parentId, parentId), eq(students.additionalParentId, parentId));
+
+export async function parentChildIds(parentId: string): Promise<string[]> {
+  const rows = await db.select({ id: students.id }).from(students).where(childOf(parentId));
+  return rows.map((r) => r.id);
+}
+
+export async function getParentChildren(parentId: string): Promise<Student[]> {
+  return db.select().from(students).where(childOf(parentId)).orderBy(students.firstName);
+}
+
+/** Whether a teacher has the student in one of their classes. */
+export async function teachesStudent(teacherId: string, studentId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: students.id })
+    .from(students)
+    .where(and(eq(students.id, studentId), inArray(students.id, studentsTaughtBy(teacherId))));
+  return !!row;
+}
+
+/**
+ * Whether a signed-in user may see a student: parents only their own children, teachers
+ * only the students in their classes.
+ */
+export async function canViewStudent(user: NonNullable<Parameters<typeof teacherScope>[0]>, studentId: string): Promise<boolean> {
+  if (user.role === 'parent') return (await parentChildIds(user.id)).includes(studentId);
+  const teacherId = teacherScope(user);
+  return teacherId ? teachesStudent(teacherId, studentId) : true;
+}
+
+async function loadStudent(studentId: string): Promise<Student> {
+  const [student] = await db.select().from(students).where(eq(students.id, studentId));
+  if (!student) throw new Error('Student not found');
+  return student;
+}
+
+const accountSummary = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  isActive: user.isActive,
+  invitationPending: !!user.mustChangePassword,
+});
+
+/** Both parent slots of a student, with the linked account if any. */
+export async function getStudentParentAccounts(studentId: string) {
+  const student = await loadStudent(studentId);
+  return Promise.all(PARENT_SLOTS.map(async (slot) => {
+    const { email, parentId } = parentSlot(student, slot);
+    const [account] = parentId ? await db.select().from(users).where(eq(users.id, parentId)) : [];
+    return { slot, email, account: account ? accountSummary(account) : null };
+  }));
+}
+
+/**
+ * Create or link the parent account for a slot and email an invitation. Inviting a
+ * slot that is already linked re-sends the invitation while the parent has not yet
+ * chosen a password. Returns the account, the temporary password when one was created,
+ * and whether the invitation email went out.
+ */
+export async function inviteParent(studentId: string, slot: ParentSlot, options: { baseUrl: string }) {
+  const student = await loadStudent(studentId);
+  const { email, parentId } = parentSlot(student, slot);
+  if (!email) throw new Error('Add the parent email address to the student record first');
+
+  let [account] = await db.select().from(users).where(eq(users.email, email));
+  if (account && account.role !== 'parent') {
+    throw new Error('This email address belongs to a staff account');
+  }
+
+  let tempPassword: string | null = null;
+  if (!account) {
+    const credentials = await generateUserCredentials();
+    const fields = SLOT_FIELDS[slot];
+    [account] = await (db as any).insert(users).values({
+      ...splitParentName(student[fields.name]),
+      email,
+      phone: student[fields.phone],
+      role: 'parent',
+      isTeacher: false,
+      isSuperAdmin: false,
+      password: credentials.password,
+      temporaryPassword: credentials.temporaryPassword,
+      mustChangePassword: credentials.mustChangePassword,
+      isActive: true,
+    }).returning();
+    tempPassword = credentials.temporaryPassword;
+  }
+
+  if (parentId !== account.id) {
+    await db.update(students)
+      .set({ [SLOT_FIELDS[slot].link]: account.id, updatedAt: new Date() })
+      .where(eq(students.id, studentId));
+  }
+
+  // New accounts, and linked ones that have never chosen a password, get the email
+  let invitationSent = false;
+  if (account.mustChangePassword && account.isActive) {
+    const [tenant] = await db.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, account.tenantId));
+    try {
+      await sendAccountInvitation(
+        { id: account.id, email, firstName: account.firstName },
+        { schoolName: tenant?.name || 'Your school', baseUrl: options.baseUrl, purpose: `to follow ${student.firstName}'s progress` },
+      );
+      invitationSent = true;
+    } catch (error) {
+      console.error(`Failed to send parent invitation for user ${account.id}:`, error);
+    }
+  }
+
+  return { account: accountSummary(account), tempPassword, invitationSent };
+}
+
+/** Remove a parent account from a student; the account itself stays for any siblings. */
+export async function unlinkParent(studentId: string, slot: ParentSlot): Promise<void> {
+  await loadStudent(studentId);
+  await db.update(students)
+    .set({ [SLOT_FIELDS[slot].link]: null, updatedAt: new Date() })
+    .where(eq(students.id, studentId));
+}
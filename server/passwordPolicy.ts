@@ -0,0 +1,146 @@
+/**
+ * Per-school password policy and the password changes it governs.
+ *
+ * The rules themselves (length, character classes, expiry) are pure and live in
+ * passwordUtils; this module loads a tenant's policy, checks new passwords against it
+ * and the user's reuse history, and records every password a user chooses. Temporary
+ * passwords (new staff, forced resets) set mustChangePassword, and the session then
+ * cannot reach anything but the auth endpoints until the user picks their own.
+ *
+ * Everything here runs on `db`, so callers must be inside the tenant's context
+ * (a request, or runWithTenant for the unauthenticated auth routes).
+ */
+import { desc, eq } from "drizzle-orm";
+import { db } from "./db";
+import { passwordHistory, passwordPolicies, users, type PasswordPolicy, type User } from "@shared/schema";
+import {
+  comparePassword,
+  DEFAULT_PASSWORD_POLICY,
+  generateUserCredentials,
+  hashPassword,
+  isPasswordExpired,
+  isPasswordReused,
+  passwordProblem,
+  validatePasswordPolicy,
+  type PasswordPolicyLike,
+} from "./passwordUtils";
+import { destroyUserSessions } from "./userSessions";
+
+type DbLike = Pick<typeof db, 'insert'>;
+
+export function toPasswordPolicy(row: Partial<PasswordPolicy> | null | undefined): PasswordPolicyLike {
+  const d = DEFAULT_PASSWORD_POLICY;
+  return {
+    minLength: row?.minLength ?? d.minLength,
+    requireUppercase: row?.requireUppercase ?? d.requireUppercase,
+    requireLowercase: row?.requireLowercase ?? d.requireLowercase,
+    requireDigit: row?.requireDigit ?? d.requireDigit,
+    requireSymbol: row?.requireSymbol ?? d.requireSymbol,
+    historyCount: row?.historyCount ?? d.historyCount,
+    maxAgeDays: row?.maxAgeDays ?? d.maxAgeDays,
+  };
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicyLike> {
+  const [row] = await db.select().from(passwordPolicies).limit(1);
+  return toPasswordPolicy(row);
+}
+
+export async function savePasswordPolicy(input: Partial<PasswordPolicyLike>, updatedBy: string): Promise<PasswordPolicyLike> {
+  const error = validatePasswordPolicy(input);
+  if (error) throw new Error(error);
+  const values = {
+    minLength: Number(input.minLength),
+    requireUppercase: !!input.requireUppercase,
+    requireLowercase: !!input.requireLowercase,
+    requireDigit: !!input.requireDigit,
+    requireSymbol: !!input.requireSymbol,
+    historyCount: Number(input.historyCount ?? 0),
+    maxAgeDays: Number(input.maxAgeDays ?? 0),
+    updatedBy,
+    updatedAt: new Date(),
+  };
+  const [row] = await (db as any).insert(passwordPolicies)
+    .values(values)
+    .onConflictDoUpdate({ target: passwordPolicies.tenantId, set: values })
+    .returning();
+  return toPasswordPolicy(row);
+}
+
+/** Whether the user must pick a new password before doing anything else, and why. */
+export async function passwordChangeReason(user: Pick<User, 'mustChangePassword' | 'passwordChangedAt'>): Promise<'required' | 'expired' | null> {
+  if (user.mustChangePassword) return 'required';
+  return isPasswordExpired(user.passwordChangedAt, await getPasswordPolicy()) ? 'expired' : null;
+}
+
+/**
+ * Throws with a user-facing message unless `password` satisfies the tenant's policy and
+ * is neither the current password nor one of the last `historyCount` the user chose.
+ */
+export async function assertPasswordAllowed(userId: string, password: string, currentHash: string | null): Promise<void> {
+  const policy = await getPasswordPolicy();
+  const problem = passwordProblem(password, policy);
+  if (problem) throw new Error(problem);
+
+  const previous = policy.historyCount > 0
+    ? await db
+        .select({ passwordHash: passwordHistory.passwordHash })
+        .from(passwordHistory)
+        .where(eq(passwordHistory.userId, userId))
+        .orderBy(desc(passwordHistory.createdAt))
+        .limit(policy.historyCount)
+    : [];
+  if (await isPasswordReused(password, [currentHash, ...previous.map((p) => p.passwordHash)])) {
+    throw new Error(policy.historyCount > 0
+      ? `Choose a password you have not used in your last ${policy.historyCount} changes`
+      : 'Choose a password different from your current one');
+  }
+}
+
+/** Remember a chosen password's hash for the reuse check. Pass `tx` inside a transaction. */
+export async function recordPasswordHistory(userId: string, passwordHash: string, tx: DbLike = db): Promise<void> {
+  await (tx as any).insert(passwordHistory).values({ userId, passwordHash });
+}
+
+/** A signed-in user replacing their own password. Returns the updated user. */
+export async function changePassword(userId: string, currentPassword: string, newPassword: string): Promise<User> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
+  if (!user || !user.isActive) throw new Error('This account is no longer active. Please contact your administrator.');
+  if (!(await comparePassword(currentPassword, user.password ?? ''))) {
+    throw new Error('Current password is incorrect');
+  }
+  await assertPasswordAllowed(userId, newPassword, user.password);
+
+  const password = await hashPassword(newPassword);
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(users)
+      .set({ password, mustChangePassword: false, temporaryPassword: null, passwordChangedAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    await recordPasswordHistory(userId, password, tx);
+    return updated;
+  });
+}
+
+/**
+ * Management forcing a staff member to choose a new password: issues a fresh temporary
+ * password (shown once to the admin) and signs the user out everywhere.
+ */
+export async function forcePasswordReset(userId: string): Promise<{ user: User; tempPassword: string }> {
+  const credentials = await generateUserCredentials();
+  const [user] = await db
+    .update(users)
+    .set({
+      password: credentials.password,
+      temporaryPassword: credentials.temporaryPassword,
+      mustChangePassword: true,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+    .returning();
+  if (!user) throw new Error('Staff member not found');
+
+  await destroyUserSessions(userId);
+  return { user, tempPassword: credentials.temporaryPassword };
+}
@@ -0,0 +1,175 @@
+/**
+ * Password reset by emailed link.
+ *
+ * A reset request creates a random token per matching account; only its SHA-256 is
+ * stored (per tenant, in password_reset_tokens) and the token itself goes out in the
+ * email, so a database leak cannot be replayed into resets. Tokens expire after
+ * PASSWORD_RESET_TTL_MINUTES (default 60), are single use, and a newer request
+ * supersedes older ones. The new password must satisfy the school's password policy
+ * (see passwordPolicy.ts). A completed reset replaces the password, clears the
+ * mustChangePassword / temporary password state (the user has just chosen their own
+ * password) and signs the user out of every existing session. The same links invite
+ * new account holders to choose their first password (sendAccountInvitation), valid for
+ * INVITATION_TTL_MINUTES (default 7 days).
+ */
+import { createHash, randomBytes } from "crypto";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { db, poolDb, runWithTenant } from "./db";
+import { passwordResetTokens, tenants, users } from "@shared/schema";
+import { hashPassword } from "./passwordUtils";
+import { assertPasswordAllowed, recordPasswordHistory } from "./passwordPolicy";
+import { sendMail } from "./mailer";
+import { destroyUserSessions } from "./userSessions";
+
+export const RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+// Invitations to new accounts (e.g. parents) use the same links, valid for longer
+export const INVITATION_TTL_MINUTES = Number(process.env.ACCOUNT_INVITATION_TTL_MINUTES) || 7 * 24 * 60;
+
+export interface ResetTokenLike {
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateResetToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashResetToken(token) };
+}
+
+export function isResetTokenUsable(row: ResetTokenLike, now = new Date()): boolean {
+  return !row.usedAt && row.expiresAt.getTime() > now.getTime();
+}
+
+export function resetLink(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email a reset link to every active account with this address (the same address can
+ * exist in several schools). Always resolves quietly so callers cannot tell whether
+ * the address is registered.
+ */
+export async function requestPasswordReset(email: string, options: { baseUrl: string; ip?: string | null }): Promise<void> {
+  const accounts = await poolDb
+    .select({ user: users, schoolName: tenants.name })
+    .from(users)
+    .innerJoin(tenants, eq(users.tenantId, tenants.id))
+    .where(and(eq(users.email, email.trim()), eq(users.isActive, true), eq(tenants.isActive, true)));
+
+  for (const { user, schoolName } of accounts) {
+    const token = await runWithTenant(user.tenantId, null, () =>
+      createResetToken(user.id, RESET_TOKEN_TTL_MINUTES, options.ip ?? null));
+
+    const link = resetLink(options.baseUrl, token);
+    const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+    try {
+      await sendMail({
+        to: user.email!,
+        subject: `Reset your ${schoolName} password`,
+        text: [
+          greeting,
+          '',
+          `We received a request to reset the password for your ${schoolName} account on Frontbench.`,
+          `Open this link within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new password:`,
+          '',
+          link,
+          '',
+          'If you did not ask for this, you can ignore this email - your password stays the same.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      console.error(`Failed to send password reset email for user ${user.id}:`, error);
+    }
+  }
+}
+
+/** New reset token for a user (in their tenant context); a new one supersedes any sent before it. */
+async function createResetToken(userId: string, ttlMinutes: number, ip: string | null): Promise<string> {
+  const { token, tokenHash } = generateResetToken();
+  await db
+    .update(passwordResetTokens)
+    .set({ usedAt: new Date() })
+    .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  await (db as any).insert(passwordResetTokens).values({
+    userId,
+    tokenHash,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    requestedIp: ip,
+  });
+  return token;
+}
+
+/**
+ * Email a new account holder a link to choose their password (in the tenant context).
+ * Throws when the mail cannot be sent so the caller can report it.
+ */
+export async function sendAccountInvitation(
+  user: { id: string; email: string; firstName?: string | null },
+  options: { schoolName: string; baseUrl: string; purpose: string },
+): Promise<void> {
+  const token = await createResetToken(user.id, INVITATION_TTL_MINUTES, null);
+  const days = Math.round(INVITATION_TTL_MINUTES / (24 * 60));
+  await sendMail({
+    to: user.email,
+    subject: `Your ${options.schoolName} account on Frontbench`,
+    text: [
+      user.firstName ? `Hi ${user.firstName},` : 'Hi,',
+      '',
+      `${options.schoolName} has created a Frontbench account for you ${options.purpose}.`,
+      `Open this link within ${days} days to choose your password and sign in:`,
+      '',
+      resetLink(options.baseUrl, token),
+      '',
+      `Your username is ${user.email}.`,
+    ].join('\n'),
+  });
+}
+
+/** Set a new password with a reset token. Throws with a user-facing message when it cannot. */
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  const [row] = await poolDb
+    .select()
+    .from(passwordResetTokens)
+    .where(eq(passwordResetTokens.tokenHash, hashResetToken(token || '')));
+  if (!row || !isResetTokenUsable(row)) {
+    throw new Error('This reset link is invalid or has expired. Please request a new one.');
+  }
+
+  await runWithTenant(row.tenantId, null, async () => {
+    const [current] = await db.select({ password: users.password }).from(users).where(eq(users.id, row.userId));
+    await assertPasswordAllowed(row.userId, newPassword, current?.password ?? null);
+
+    const password = await hashPassword(newPassword);
+    await db.transaction(async (tx) => {
+      // Claim the token; a concurrent reset with the same link finds it already used
+      const [claimed] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.id, row.id),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!claimed) throw new Error('This reset link is invalid or has expired. Please request a new one.');
+
+      const [user] = await tx
+        .update(users)
+        .set({ password, mustChangePassword: false, temporaryPassword: null, passwordChangedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(users.id, row.userId), eq(users.isActive, true)))
+        .returning({ id: users.id });
+      if (!user) throw new Error('This account is no longer active. Please contact your administrator.');
+
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, row.userId), isNull(passwordResetTokens.usedAt)));
+      await recordPasswordHistory(row.userId, password, tx);
+    });
+  });
+
+  await destroyUserSessions(row.userId);
+}
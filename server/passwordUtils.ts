@@ -20,6 +20,101 @@ export function generateTemporaryPassword(): string {
   return chars.join('');
 }
 
+export const MIN_PASSWORD_LENGTH = 8;
+
+// A school's password rules (see password_policies). historyCount = how many previous
+// passwords cannot be reused; maxAgeDays = days before a password expires (0 = never).
+export interface PasswordPolicyLike {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+// Schools without a saved policy only get the minimum length
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicyLike = {
+  minLength: MIN_PASSWORD_LENGTH,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: 0,
+};
+
+const CHARACTER_CLASSES = [
+  { key: 'requireUppercase', pattern: /[A-Z]/, label: 'an uppercase letter' },
+  { key: 'requireLowercase', pattern: /[a-z]/, label: 'a lowercase letter' },
+  { key: 'requireDigit', pattern: /[0-9]/, label: 'a number' },
+  { key: 'requireSymbol', pattern: /[^A-Za-z0-9]/, label: 'a symbol' },
+] as const;
+
+// Why a chosen password is not acceptable under the policy, or null when it is
+export function passwordProblem(
+  password: string | undefined | null,
+  policy: PasswordPolicyLike = DEFAULT_PASSWORD_POLICY,
+): string | null {
+  if (!password || password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+  const missing = CHARACTER_CLASSES.filter((c) => policy[c.key] && !c.pattern.test(password));
+  if (missing.length) {
+    return `Password must include ${missing.map((c) => c.label).join(', ')}`;
+  }
+  return null;
+}
+
+// The policy as a checklist for the change-password form
+export function describePasswordPolicy(policy: PasswordPolicyLike): string[] {
+  const rules = [`At least ${policy.minLength} characters`];
+  for (const c of CHARACTER_CLASSES) {
+    if (policy[c.key]) rules.push(`Includes ${c.label}`);
+  }
+  rules.push(policy.historyCount > 0
+    ? `Not one of your last ${policy.historyCount} passwords`
+    : 'Different from your current password');
+  if (policy.maxAgeDays > 0) rules.push(`Expires after ${policy.maxAgeDays} days`);
+  return rules;
+}
+
+// Returns an error message, or null when the policy can be saved
+export function validatePasswordPolicy(input: Partial<PasswordPolicyLike>): string | null {
+  const minLength = Number(input.minLength);
+  if (!Number.isInteger(minLength) || minLength < MIN_PASSWORD_LENGTH || minLength > 128) {
+    return `Minimum length must be between ${MIN_PASSWORD_LENGTH} and 128`;
+  }
+  const historyCount = Number(input.historyCount ?? 0);
+  if (!Number.isInteger(historyCount) || historyCount < 0 || historyCount > 24) {
+    return 'Password history must be between 0 and 24';
+  }
+  const maxAgeDays = Number(input.maxAgeDays ?? 0);
+  if (!Number.isInteger(maxAgeDays) || maxAgeDays < 0 || maxAgeDays > 365) {
+    return 'Password expiry must be between 0 and 365 days';
+  }
+  return null;
+}
+
+// Whether a password last changed at `changedAt` has outlived the policy's maximum age
+export function isPasswordExpired(
+  changedAt: Date | null | undefined,
+  policy: PasswordPolicyLike,
+  now = new Date(),
+): boolean {
+  if (!policy.maxAgeDays || !changedAt) return false;
+  return now.getTime() - changedAt.getTime() >= policy.maxAgeDays * 86_400_000;
+}
+
+// Whether the password matches any of the given bcrypt hashes (current and previous passwords)
+export async function isPasswordReused(password: string, hashes: Array<string | null | undefined>): Promise<boolean> {
+  for (const hash of hashes) {
+    if (hash && await comparePassword(password, hash)) return true;
+  }
+  return false;
+}
+
 // Hash a password using bcrypt
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12;
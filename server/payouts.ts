@@ -0,0 +1,184 @@
+/**
+ * Teacher payout calculations.
+ *
+ * Pure helpers used by storage.getTeacherEarnings — no DB access here so the
+ * money math can be unit-tested. All amounts are rupees as numbers; results are
+ * rounded to paisa with cumulative rounding so line items always add up to the
+ * rounded total (the statement must reconcile to the payments ledger).
+ */
+
+export interface PayoutRuleLike {
+  id?: string;
+  isFixed: boolean | null;
+  fixedPercentage: string | number | null;
+  tier1Percentage: string | number | null;
+  tier1Threshold: string | number | null;
+  tier2Percentage: string | number | null;
+  extraClassRate?: string | number | null;
+  isActive?: boolean | null;
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+export interface CollectionLine {
+  date: string; // YYYY-MM-DD the money was received
+  amount: number;
+}
+
+export interface MonthRange {
+  month: string; // YYYY-MM
+  start: string; // first day, YYYY-MM-DD
+  end: string; // last day, YYYY-MM-DD
+  nextStart: string; // first day of the following month
+}
+
+export interface EarningsLine {
+  allocationId: string;
+  paymentId: string;
+  receiptNumber: string;
+  paymentDate: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceItemId: string;
+  studentId: string;
+  studentName: string;
+  subjectId: string;
+  subjectName: string;
+  amountCollected: number;
+  share: number;
+  ruleId: string | null;
+}
+
+export interface ExtraClassLine {
+  sessionId: string;
+  scheduleChangeId: string;
+  date: string;
+  subjectId: string;
+  subjectName: string;
+  amount: number;
+  ruleId: string | null;
+}
+
+export interface TeacherEarningsStatement {
+  teacherId: string;
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  collected: number;
+  baseAmount: number;
+  extraClasses: number;
+  extraClassCount: number;
+  total: number;
+  lines: EarningsLine[];
+  extraClassLines: ExtraClassLine[];
+}
+
+const num = (v: string | number | null | undefined) => Number(v ?? 0) || 0;
+
+export const roundMoney = (v: number) => Math.round(v * 100) / 100;
+
+/** Resolve "YYYY-MM" into inclusive date bounds; throws on malformed input. */
+export function getMonthRange(month: string): MonthRange {
+  const m = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!m || Number(m[2]) < 1 || Number(m[2]) > 12) {
+    throw new Error(`Invalid month "${month}" (expected YYYY-MM)`);
+  }
+  const year = Number(m[1]);
+  const mon = Number(m[2]);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const lastDay = new Date(Date.UTC(year, mon, 0)).getUTCDate();
+  const nextYear = mon === 12 ? year + 1 : year;
+  const nextMon = mon === 12 ? 1 : mon + 1;
+  return {
+    month,
+    start: `${year}-${pad(mon)}-01`,
+    end: `${year}-${pad(mon)}-${pad(lastDay)}`,
+    nextStart: `${nextYear}-${pad(nextMon)}-01`,
+  };
+}
+
+/** Current "YYYY-MM" in the tenant's timezone. */
+export function currentMonth(timeZone = 'Asia/Karachi', now = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit' }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${get('year')}-${get('month')}`;
+}
+
+/** The active rule in force on `date`: latest effectiveFrom on or before it. */
+export function selectPayoutRule<T extends PayoutRuleLike>(rules: T[], date: string): T | null {
+  let best: T | null = null;
+  for (const rule of rules) {
+    if (rule.isActive === false) continue;
+    if (rule.effectiveFrom > date) continue;
+    if (!best || rule.effectiveFrom >= best.effectiveFrom) best = rule;
+  }
+  return best;
+}
+
+/**
+ * Teacher share of `amount` given `collectedBefore` already collected this month.
+ * Fixed rules pay a flat percentage; tiered rules pay tier1 up to the threshold
+ * and tier2 on everything above it (tier2 falls back to tier1 when unset).
+ */
+export function shareForAmount(rule: PayoutRuleLike, amount: number, collectedBefore = 0): number {
+  if (rule.isFixed) {
+    return (amount * num(rule.fixedPercentage)) / 100;
+  }
+  const threshold = num(rule.tier1Threshold);
+  const tier1 = num(rule.tier1Percentage);
+  const tier2 = rule.tier2Percentage == null ? tier1 : num(rule.tier2Percentage);
+  const inTier1 = Math.max(0, Math.min(amount, threshold - collectedBefore));
+  const inTier2 = amount - inTier1;
+  return (inTier1 * tier1 + inTier2 * tier2) / 100;
+}
+
+/**
+ * Split a month's collections into per-line shares. Lines are processed in date
+ * order so tier thresholds are crossed by the payment that actually crossed them;
+ * each line uses the rule effective on its own date. Lines without a rule earn 0.
+ */
+export function computeLineShares<T extends CollectionLine>(
+  lines: T[],
+  rules: PayoutRuleLike[],
+): Array<T & { share: number; ruleId: string | null }> {
+  const ordered = lines
+    .map((line, index) => ({ line, index }))
+    .sort((a, b) => (a.line.date === b.line.date ? a.index - b.index : a.line.date < b.line.date ? -1 : 1));
+
+  let collected = 0;
+  let rawTotal = 0;
+  let roundedTotal = 0;
+  const out = new Array<T & { share: number; ruleId: string | null }>(lines.length);
+
+  for (const { line, index } of ordered) {
+    const rule = selectPayoutRule(rules, line.date);
+    const raw = rule ? shareForAmount(rule, line.amount, collected) : 0;
+    collected += line.amount;
+    rawTotal += raw;
+    const share = roundMoney(roundMoney(rawTotal) - roundedTotal);
+    roundedTotal = roundMoney(roundedTotal + share);
+    out[index] = { ...line, share, ruleId: rule?.id ?? null };
+  }
+  return out;
+}
+
+/**
+ * Apportion a payment allocation across the invoice's items by item total.
+ * Returns one amount per weight, summing exactly to `amount`.
+ */
+export function apportion(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((s, w) => s + w, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  let running = 0;
+  let assigned = 0;
+  return weights.map((w) => {
+    running += w;
+    const part = roundMoney(roundMoney((amount * running) / totalWeight) - assigned);
+    assigned = roundMoney(assigned + part);
+    return part;
+  });
+}
+
+/** Net payable for a run line: gross less cash already drawn, plus signed adjustments. */
+export function netPayout(gross: number, cashDraws: number, adjustments: number): number {
+  return roundMoney(gross - cashDraws + adjustments);
+}
@@ -0,0 +1,83 @@
+import { jsPDF } from "jspdf";
+import type { TeacherEarningsStatement } from "./payouts";
+
+export interface PayslipInput {
+  schoolName: string;
+  month: string; // YYYY-MM
+  teacherName: string;
+  lockedAt: Date | null;
+  gross: number;
+  cashDraws: number;
+  adjustments: Array<{ amount: number; reason: string }>;
+  net: number;
+  statement: TeacherEarningsStatement | null;
+}
+
+const money = (v: number) => `Rs. ${v.toLocaleString('en-PK', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Render a teacher payslip for a locked payout run. Returns the PDF bytes.
+ */
+export function generatePayslipPdf(input: PayslipInput): Buffer {
+  const doc = new jsPDF();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = 20;
+
+  const line = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, 20, y);
+    doc.text(value, 190, y, { align: 'right' });
+    y += 7;
+  };
+  const ensureSpace = () => {
+    if (y > pageHeight - 20) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(input.schoolName, 105, y, { align: 'center' });
+  y += 8;
+  doc.setFontSize(12);
+  doc.text(`Payslip - ${input.month}`, 105, y, { align: 'center' });
+  y += 12;
+
+  doc.setFontSize(10);
+  line('Teacher', input.teacherName);
+  line('Finalised', input.lockedAt ? new Date(input.lockedAt).toISOString().split('T')[0] : '-');
+  y += 4;
+
+  if (input.statement) {
+    line('Fees collected for your classes', money(input.statement.collected));
+    line('Fee share', money(input.statement.baseAmount));
+    line(`Extra classes (${input.statement.extraClassCount})`, money(input.statement.extraClasses));
+  }
+  line('Gross earnings', money(input.gross), true);
+  line('Less: cash draws', `- ${money(input.cashDraws)}`);
+  for (const adj of input.adjustments) {
+    ensureSpace();
+    line(`Adjustment: ${adj.reason}`, `${adj.amount < 0 ? '- ' : '+ '}${money(Math.abs(adj.amount))}`);
+  }
+  y += 2;
+  doc.line(20, y - 4, 190, y - 4);
+  line('Net payable', money(input.net), true);
+
+  if (input.statement && input.statement.lines.length > 0) {
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Statement', 20, y);
+    y += 7;
+    doc.setFontSize(8);
+    for (const l of input.statement.lines) {
+      ensureSpace();
+      doc.setFont('helvetica', 'normal');
+      doc.text(`${l.paymentDate}  ${l.receiptNumber}  ${l.studentName} - ${l.subjectName}`, 20, y);
+      doc.text(`${money(l.amountCollected)} -> ${money(l.share)}`, 190, y, { align: 'right' });
+      y += 5;
+    }
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,490 @@
+/**
+ * Who may call each API route, declared once.
+ *
+ * Access roles mirror the dashboards offered by the client's RoleSelection: a user holds
+ * their own role, a super admin holds finance, management and parent, and a super admin
+ * who teaches holds all four. ROUTE_POLICIES gives every route ("METHOD /path", as
+ * registered) one policy: public, any signed-in user, portal (signed-in users or portal
+ * link visitors, narrowed by requirePortalAccess on the route), platform super admin, or a
+ * list of access roles, optionally with a named permission (below). applyRoutePolicies() puts the matching check in front of every
+ * registered route and refuses to start while a route has no entry, so a new endpoint
+ * cannot ship unguarded (tests/permissions.test.ts checks this too).
+ *
+ * Teachers only ever see their own data: /api/teacher/* works on the signed-in user, and
+ * shared routes narrow teachers with teacherScope().
+ *
+ * Within the areas their role reaches, what a user may do is a set of named permissions
+ * (enroll, collect payment, lock daily close, ...). Each base role has a default set; a
+ * school can define custom roles (tenant_roles, see customRoles.ts) and assign one to a
+ * user, which then replaces the defaults, e.g. a front-desk "Receptionist" who can enroll
+ * but not take payments. Super admins always hold every permission.
+ */
+import type { NextFunction, Request, RequestHandler, Response, Router } from "express";
+import type { SessionData } from "express-session";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { tenantRoles, users } from "@shared/schema";
+
+export const ACCESS_ROLES = ['teacher', 'finance', 'management', 'parent'] as const;
+export type AccessRole = typeof ACCESS_ROLES[number];
+
+type SessionUser = NonNullable<SessionData['user']>;
+
+const SUPER_ADMIN_ROLES: AccessRole[] = ['finance', 'management', 'parent'];
+
+/** The dashboards (access roles) a signed-in user holds. */
+export function accessRoles(user: Pick<SessionUser, 'role' | 'isSuperAdmin' | 'isTeacher'> | null | undefined): AccessRole[] {
+  if (!user) return [];
+  if (user.role === 'super_admin') return SUPER_ADMIN_ROLES;
+  if (user.isSuperAdmin) return user.isTeacher ? [...ACCESS_ROLES] : SUPER_ADMIN_ROLES;
+  return ACCESS_ROLES.includes(user.role as AccessRole) ? [user.role as AccessRole] : [];
+}
+
+export function hasAccess(user: Parameters<typeof accessRoles>[0], ...roles: readonly AccessRole[]): boolean {
+  const held = accessRoles(user);
+  return roles.some((role) => held.includes(role));
+}
+
+/**
+ * The teacher whose data a shared route is limited to: the user's own id when they only
+ * hold the teacher dashboard, otherwise null (finance and management see every teacher).
+ */
+export function teacherScope(user: (Parameters<typeof accessRoles>[0] & { id: string }) | null | undefined): string | null {
+  if (!user || !hasAccess(user, 'teacher') || hasAccess(user, 'finance', 'management')) return null;
+  return user.id;
+}
+
+export const PERMISSIONS = {
+  enroll: { label: 'Enroll and edit students', area: 'Front desk' },
+  collect_payment: { label: 'Collect payments', area: 'Front desk' },
+  refund: { label: 'Refund payments', area: 'Front desk' },
+  manage_invoices: { label: 'Create and adjust invoices', area: 'Front desk' },
+  manage_late_fees: { label: 'Manage late fees', area: 'Front desk' },
+  approve_cash_draw: { label: 'Approve cash draws', area: 'Front desk' },
+  lock_daily_close: { label: 'Lock daily close', area: 'Front desk' },
+  manage_portal_links: { label: 'Manage portal links and parent accounts', area: 'Front desk' },
+  take_attendance: { label: 'Take attendance', area: 'Classes' },
+  edit_grades: { label: 'Create assessments and edit grades', area: 'Classes' },
+  post_announcements: { label: 'Post announcements', area: 'Classes' },
+  view_reports: { label: 'View reports and analytics', area: 'Head office' },
+  manage_expenses: { label: 'Record expenses', area: 'Head office' },
+  manage_payouts: { label: 'Manage teacher payouts', area: 'Head office' },
+  manage_subjects: { label: 'Manage subjects and fees', area: 'Head office' },
+  manage_staff: { label: 'Manage staff and roles', area: 'Head office' },
+  manage_settings: { label: 'Manage school settings', area: 'Head office' },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+/** What each base role may do when no custom role is assigned. */
+export const DEFAULT_PERMISSIONS: Record<AccessRole, readonly Permission[]> = {
+  management: ALL_PERMISSIONS,
+  finance: [
+    'enroll', 'collect_payment', 'refund', 'manage_invoices', 'manage_late_fees', 'approve_cash_draw',
+    'lock_daily_close', 'manage_portal_links', 'take_attendance', 'view_reports',
+  ],
+  teacher: ['take_attendance', 'edit_grades', 'post_announcements'],
+  parent: [],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+/**
+ * A user's permissions: their custom role's when one is assigned, otherwise the defaults
+ * of every access role they hold. Super admins hold them all.
+ */
+export function effectivePermissions(
+  user: Parameters<typeof accessRoles>[0],
+  customRole: readonly string[] | null,
+): Permission[] {
+  if (!user) return [];
+  if (user.role === 'super_admin' || user.isSuperAdmin) return [...ALL_PERMISSIONS];
+  if (customRole) return ALL_PERMISSIONS.filter((p) => customRole.includes(p));
+  const held = new Set(accessRoles(user).flatMap((role) => DEFAULT_PERMISSIONS[role]));
+  return ALL_PERMISSIONS.filter((p) => held.has(p));
+}
+
+/** effectivePermissions for a signed-in user, reading their custom role (tenant context). */
+export async function userPermissions(user: NonNullable<Parameters<typeof accessRoles>[0]> & { id: string }): Promise<Permission[]> {
+  if (user.role === 'super_admin' || user.isSuperAdmin) return effectivePermissions(user, null);
+  const [row] = await db
+    .select({ permissions: tenantRoles.permissions })
+    .from(users)
+    .innerJoin(tenantRoles, eq(tenantRoles.id, users.customRoleId))
+    .where(eq(users.id, user.id));
+  return effectivePermissions(user, row ? row.permissions : null);
+}
+
+export type RoutePolicy =
+  | 'public' | 'signed-in' | 'portal' | 'super-admin'
+  | readonly AccessRole[]
+  | { roles: readonly AccessRole[]; permission: Permission };
+
+// A route in the roles' area that also needs the named permission
+const can = (permission: Permission, roles: readonly AccessRole[]) => ({ roles, permission });
+
+const FINANCE: AccessRole[] = ['finance', 'management'];
+const MANAGEMENT: AccessRole[] = ['management'];
+const TEACHERS: AccessRole[] = ['teacher'];
+const TEACHING: AccessRole[] = ['teacher', 'management'];
+const STAFF: AccessRole[] = ['teacher', 'finance', 'management'];
+
+export const ROUTE_POLICIES: Record<string, RoutePolicy> = {
+  // Sign-in and account (auth-traditional.ts)
+  'POST /api/auth/login': 'public',
+  'POST /api/auth/login/2fa': 'public',
+  'POST /api/auth/logout': 'public',
+  'POST /api/auth/forgot-password': 'public',
+  'POST /api/auth/reset-password': 'public',
+  'GET /api/auth/user': 'signed-in',
+  'GET /api/auth/password-policy': 'signed-in',
+  'POST /api/auth/change-password': 'signed-in',
+  'GET /api/auth/2fa': 'signed-in',
+  'POST /api/auth/2fa/setup': 'signed-in',
+  'POST /api/auth/2fa/enable': 'signed-in',
+  'POST /api/auth/2fa/recovery-codes': 'signed-in',
+  'POST /api/auth/2fa/disable': 'signed-in',
+  'GET /api/auth/sessions': 'signed-in',
+  'DELETE /api/auth/sessions/:id': 'signed-in',
+  'POST /api/auth/sessions/sign-out-others': 'signed-in',
+
+  // Schools: sign-up (tenantOnboarding.ts, tenantRegistration.ts) and the current school
+  'POST /api/tenants/onboard': 'public',
+  'GET /api/tenants/by-slug/:slug': 'public',
+  'GET /api/tenants/check-slug/:slug': 'public',
+  'POST /api/tenants/register': 'public',
+  'GET /api/tenants/check-subdomain/:subdomain': 'public',
+  'GET /api/tenants/verify/:token': 'public',
+  'GET /api/tenant/config': 'signed-in',
+  'GET /api/tenant': 'public',
+  'GET /api/health': 'public',
+
+  // Platform administration (superAdminRoutes.ts)
+  'GET /api/super-admin/dashboard': 'super-admin',
+  'GET /api/super-admin/tenants': 'super-admin',
+  'GET /api/super-admin/tenants/:id': 'super-admin',
+  'PUT /api/super-admin/tenants/:id': 'super-admin',
+  'POST /api/super-admin/tenants/:id/suspend': 'super-admin',
+  'POST /api/super-admin/tenants/:id/activate': 'super-admin',
+  'GET /api/super-admin/analytics': 'super-admin',
+  'GET /api/super-admin/audit-logs': 'super-admin',
+
+  // Subscription (billingRoutes.ts)
+  'GET /api/billing/plans': 'public',
+  'GET /api/billing/plans/:planId': 'public',
+  'POST /api/billing/subscribe': MANAGEMENT,
+  'PUT /api/billing/subscription': MANAGEMENT,
+  'POST /api/billing/subscription/cancel': MANAGEMENT,
+  'GET /api/billing/history': MANAGEMENT,
+  'GET /api/billing/limits': MANAGEMENT,
+  'GET /api/billing/metrics': 'super-admin',
+  'PUT /api/billing/admin/subscription/:tenantId': 'super-admin',
+  'POST /api/billing/admin/subscription/:tenantId/cancel': 'super-admin',
+  'GET /api/billing/admin/history/:tenantId': 'super-admin',
+
+  // System notifications (notificationRoutes.ts) and school analytics (tenantAnalyticsRoutes.ts)
+  'GET /api/notifications/': STAFF,
+  'GET /api/notifications/stats': STAFF,
+  'PUT /api/notifications/:notificationId/read': STAFF,
+  'PUT /api/notifications/read-all': STAFF,
+  'GET /api/notifications/admin/templates': 'super-admin',
+  'POST /api/notifications/admin/create': 'super-admin',
+  'POST /api/notifications/admin/template/:templateId': 'super-admin',
+  'GET /api/notifications/admin/all': 'super-admin',
+  'DELETE /api/notifications/admin/expired': 'super-admin',
+  'POST /api/notifications/admin/check-usage-limits': 'super-admin',
+  'POST /api/notifications/admin/check-subscription-expirations': 'super-admin',
+  'GET /api/analytics/dashboard': can('view_reports', FINANCE),
+  'GET /api/analytics/revenue': can('view_reports', FINANCE),
+  'GET /api/analytics/students': can('view_reports', FINANCE),
+  'GET /api/analytics/attendance': can('view_reports', FINANCE),
+  'GET /api/analytics/users': can('view_reports', MANAGEMENT),
+  'GET /api/analytics/export': can('view_reports', MANAGEMENT),
+
+  // Branches
+  'GET /api/branches': STAFF,
+  'POST /api/branches': can('manage_settings', MANAGEMENT),
+  'PUT /api/branches/:id': can('manage_settings', MANAGEMENT),
+  'POST /api/branches/active': MANAGEMENT,
+
+  // Staff accounts and security settings
+  'POST /api/teachers': can('manage_staff', MANAGEMENT),
+  'GET /api/teachers': MANAGEMENT,
+  'PUT /api/teachers/:id': can('manage_staff', MANAGEMENT),
+  'DELETE /api/teachers/:id': can('manage_staff', MANAGEMENT),
+  'POST /api/management': can('manage_staff', MANAGEMENT),
+  'PUT /api/management/:id': can('manage_staff', MANAGEMENT),
+  'DELETE /api/management/:id': can('manage_staff', MANAGEMENT),
+  'POST /api/staff': can('manage_staff', MANAGEMENT),
+  'GET /api/staff': MANAGEMENT,
+  'PUT /api/staff/:id': can('manage_staff', MANAGEMENT),
+  'DELETE /api/staff/:id': can('manage_staff', MANAGEMENT),
+  'POST /api/staff/:id/force-password-reset': can('manage_staff', MANAGEMENT),
+  'POST /api/staff/:id/unlock': can('manage_staff', MANAGEMENT),
+  'POST /api/staff/:id/active': can('manage_staff', MANAGEMENT),
+  'POST /api/staff/:id/reset-two-factor': can('manage_staff', MANAGEMENT),
+  'GET /api/security/two-factor': MANAGEMENT,
+  'PUT /api/security/two-factor': can('manage_settings', MANAGEMENT),
+  'GET /api/impersonation': 'signed-in',
+  'POST /api/impersonation': MANAGEMENT,
+  'DELETE /api/impersonation': 'signed-in',
+  'GET /api/security/session-timeouts': MANAGEMENT,
+  'PUT /api/security/session-timeouts': can('manage_settings', MANAGEMENT),
+  'GET /api/attendance-settings': MANAGEMENT,
+  'PUT /api/attendance-settings': can('manage_settings', MANAGEMENT),
+  'GET /api/password-policy': MANAGEMENT,
+  'GET /api/roles': can('manage_staff', MANAGEMENT),
+  'POST /api/roles': can('manage_staff', MANAGEMENT),
+  'PUT /api/roles/:id': can('manage_staff', MANAGEMENT),
+  'DELETE /api/roles/:id': can('manage_staff', MANAGEMENT),
+  'PUT /api/staff/:id/custom-role': can('manage_staff', MANAGEMENT),
+  'PUT /api/password-policy': can('manage_settings', MANAGEMENT),
+
+  // Students and enrollment
+  'GET /api/dashboard/stats': can('view_reports', FINANCE),
+  'GET /api/students': [...FINANCE, 'parent'],
+  'POST /api/students': can('enroll', FINANCE),
+  'PATCH /api/students/:id/toggle-active': can('enroll', FINANCE),
+  'DELETE /api/students/:id': can('enroll', FINANCE),
+  'GET /api/roll-numbers/next': FINANCE,
+  'POST /api/roll-numbers/reserve': can('enroll', FINANCE),
+  'POST /api/roll-numbers/check': FINANCE,
+  'POST /api/roll-numbers/assign-bulk': can('enroll', FINANCE),
+  'GET /api/enrollments/student/:studentId': FINANCE,
+  'POST /api/enrollments/:id/withdraw': can('enroll', FINANCE),
+  'POST /api/enrollments': can('enroll', FINANCE),
+  'GET /api/students/:id/parent-accounts': FINANCE,
+  'POST /api/students/:id/parent-accounts/:slot': can('manage_portal_links', FINANCE),
+  'DELETE /api/students/:id/parent-accounts/:slot': can('manage_portal_links', FINANCE),
+
+  // Subjects, combos and add-ons
+  'GET /api/subjects': 'signed-in',
+  'GET /api/subjects/catalogue': MANAGEMENT,
+  'POST /api/subjects': can('manage_subjects', MANAGEMENT),
+  'PUT /api/subjects/:id': can('manage_subjects', MANAGEMENT),
+  'POST /api/subjects/:id/fees': can('manage_subjects', MANAGEMENT),
+  'DELETE /api/subjects/:id/fees/:versionId': can('manage_subjects', MANAGEMENT),
+  'GET /api/subjects/:id/dependants': MANAGEMENT,
+  'POST /api/subjects/:id/active': can('manage_subjects', MANAGEMENT),
+  'GET /api/subject-combos': FINANCE,
+  'POST /api/subject-combos': can('manage_subjects', MANAGEMENT),
+  'PUT /api/subject-combos/:id': can('manage_subjects', MANAGEMENT),
+  'POST /api/subject-combos/:id/active': can('manage_subjects', MANAGEMENT),
+  'GET /api/add-ons': FINANCE,
+  'POST /api/add-ons': can('manage_invoices', FINANCE),
+
+  // The teacher dashboard (always the signed-in teacher's own data)
+  'GET /api/teacher/classes/today': TEACHERS,
+  'GET /api/teacher/earnings': TEACHERS,
+  'GET /api/teacher/subjects': TEACHERS,
+  'GET /api/teacher/students': TEACHERS,
+  'GET /api/teacher/assessments': TEACHERS,
+  'GET /api/teacher/schedules': TEACHERS,
+  'POST /api/teacher/schedules': TEACHERS,
+  'PUT /api/teacher/schedules/:id': TEACHERS,
+  'DELETE /api/teacher/schedules/:id': TEACHERS,
+  'GET /api/teacher/schedule-changes': TEACHERS,
+  'POST /api/teacher/schedule-changes': TEACHERS,
+  'PUT /api/teacher/schedule-changes/:id': TEACHERS,
+  'DELETE /api/teacher/schedule-changes/:id': TEACHERS,
+  'GET /api/rooms': STAFF,
+  'GET /api/rooms/equipment': STAFF,
+  'GET /api/rooms/utilisation': MANAGEMENT,
+  'POST /api/rooms': can('manage_settings', MANAGEMENT),
+  'PUT /api/rooms/:id': can('manage_settings', MANAGEMENT),
+  'POST /api/rooms/:id/active': can('manage_settings', MANAGEMENT),
+  'GET /api/schedule-conflicts': MANAGEMENT,
+  'POST /api/assessments': can('edit_grades', TEACHERS),
+  'POST /api/grades': can('edit_grades', TEACHERS),
+  'POST /api/cash-draw-requests': TEACHERS,
+
+  // Class sessions, attendance and assessments
+  'GET /api/class-sessions': FINANCE,
+  'GET /api/class-sessions/:id/students': STAFF,
+  'GET /api/class-sessions/:id/attendance': STAFF,
+  'PUT /api/class-sessions/:id/attendance': can('take_attendance', STAFF),
+  'GET /api/class-sessions/:id/attendance/history': STAFF,
+  'GET /api/leave-requests': TEACHING,
+  'POST /api/leave-requests/:id/review': can('take_attendance', TEACHING),
+  'GET /api/attendance': FINANCE,
+  'POST /api/attendance': can('take_attendance', STAFF),
+  'GET /api/assessments': MANAGEMENT,
+
+  // Invoices, payments and billing
+  'GET /api/invoices': FINANCE,
+  'POST /api/invoices': can('manage_invoices', FINANCE),
+  'PUT /api/invoices/:id': can('manage_invoices', FINANCE),
+  'PATCH /api/invoices/:id': can('manage_invoices', FINANCE),
+  'GET /api/payments': FINANCE,
+  'POST /api/payments': can('collect_payment', FINANCE),
+  'POST /api/payments/:id/refund': can('refund', FINANCE),
+  'GET /api/refunds': FINANCE,
+  'GET /api/refunds/:id/credit-note': FINANCE,
+  'GET /api/late-fees/policies': FINANCE,
+  'POST /api/late-fees/policies': can('manage_late_fees', FINANCE),
+  'PUT /api/late-fees/policies/:id': can('manage_late_fees', FINANCE),
+  'POST /api/late-fees/policies/:id/activate': can('manage_late_fees', FINANCE),
+  'POST /api/late-fees/preview': FINANCE,
+  'POST /api/late-fees/run': can('manage_late_fees', FINANCE),
+  'GET /api/late-fees/exemptions': FINANCE,
+  'POST /api/late-fees/exemptions': can('manage_late_fees', FINANCE),
+  'DELETE /api/late-fees/exemptions/:id': can('manage_late_fees', FINANCE),
+  'POST /api/invoices/:id/waive-late-fee': can('manage_late_fees', FINANCE),
+  'POST /api/billing/generate-monthly': can('manage_invoices', FINANCE),
+  'POST /api/billing/advance-payment': can('collect_payment', FINANCE),
+  'POST /api/billing/partial-payment': can('collect_payment', FINANCE),
+  'POST /api/billing/prorated-invoice': can('manage_invoices', FINANCE),
+  'POST /api/billing/adjustment': can('manage_invoices', FINANCE),
+  'GET /api/billing/student-credit/:studentId': FINANCE,
+  'GET /api/billing/student-credit/:studentId/movements': FINANCE,
+  'POST /api/billing/invoices/:invoiceId/apply-credit': can('manage_invoices', FINANCE),
+  'POST /api/billing/student-credit/:studentId/refund': can('refund', FINANCE),
+  'GET /api/billing/student-ledger/:studentId': FINANCE,
+  'PATCH /api/billing/invoice-status/:invoiceId': can('manage_invoices', FINANCE),
+  'POST /api/billing/run-demo': MANAGEMENT,
+  'GET /api/numbering-formats': MANAGEMENT,
+  'PUT /api/numbering-formats/:documentType': can('manage_settings', MANAGEMENT),
+
+  // Cash, payouts, daily close and expenses
+  'GET /api/cash-draw-requests': STAFF,
+  'PATCH /api/cash-draw-requests/:id': can('approve_cash_draw', FINANCE),
+  'GET /api/payout-rules': can('manage_payouts', MANAGEMENT),
+  'POST /api/payout-rules': can('manage_payouts', MANAGEMENT),
+  'GET /api/payout-runs': can('manage_payouts', MANAGEMENT),
+  'POST /api/payout-runs': can('manage_payouts', MANAGEMENT),
+  'GET /api/payout-runs/:id': can('manage_payouts', MANAGEMENT),
+  'POST /api/payout-runs/:id/recalculate': can('manage_payouts', MANAGEMENT),
+  'POST /api/payout-runs/:id/items/:itemId/adjustments': can('manage_payouts', MANAGEMENT),
+  'POST /api/payout-runs/:id/lock': can('manage_payouts', MANAGEMENT),
+  // Teachers download their own payslip; the handler checks manage_payouts for anyone else's
+  'GET /api/payout-runs/:id/payslips/:teacherId': STAFF,
+  'GET /api/daily-close/:date': FINANCE,
+  'GET /api/daily-close': FINANCE,
+  'POST /api/daily-close': FINANCE,
+  'POST /api/daily-close/lock': can('lock_daily_close', FINANCE),
+  'GET /api/expenses': MANAGEMENT,
+  'POST /api/expenses': can('manage_expenses', MANAGEMENT),
+  'GET /api/scheduled-jobs/runs': MANAGEMENT,
+  'POST /api/scheduled-jobs/:job/run': can('manage_settings', MANAGEMENT),
+
+  // Portal links and the student portal
+  'GET /api/portal-links': FINANCE,
+  'POST /api/portal-links': can('manage_portal_links', FINANCE),
+  'POST /api/portal-links/:id/revoke': can('manage_portal_links', FINANCE),
+  'GET /api/portal-links/:id/access-log': FINANCE,
+  'POST /api/portal/session': 'public',
+  'GET /api/students/:id': 'portal',
+  'GET /api/students/:id/financial': 'portal',
+  'GET /api/students/:id/attendance': 'portal',
+  'GET /api/students/:id/grade': 'portal',
+  'GET /api/students/:studentId': 'portal',
+  'GET /api/students/:studentId/grades': 'portal',
+  'GET /api/students/:studentId/attendance': 'portal',
+  'GET /api/students/:studentId/enrolled-subjects': 'portal',
+  'GET /api/students/:studentId/attendance/:subjectId': 'portal',
+  'GET /api/students/:studentId/grades/:subjectId': 'portal',
+  'GET /api/students/:studentId/invoices': 'portal',
+  'GET /api/students/:studentId/announcements': 'portal',
+  'GET /api/student/:studentId/schedule': 'portal',
+  'GET /api/student/:studentId/notifications': 'portal',
+  'PUT /api/student/notifications/:id/read': 'portal',
+  'GET /api/attendance/student/:studentId': 'portal',
+  'GET /api/students/:studentId/leave-requests': 'portal',
+  'POST /api/students/:studentId/leave-requests': 'portal',
+  'POST /api/students/:studentId/leave-requests/:id/cancel': 'portal',
+  'GET /api/grades/student/:studentId': 'portal',
+  'POST /api/announcements/:announcementId/read': 'portal',
+
+  // Digital diary
+  'GET /api/announcements': TEACHING,
+  'POST /api/announcements': can('post_announcements', TEACHING),
+  'PUT /api/announcements/:id': can('post_announcements', TEACHING),
+  'DELETE /api/announcements/:id': can('post_announcements', TEACHING),
+  'POST /api/announcements/:id/recipients': can('post_announcements', TEACHING),
+  'GET /api/classes/:classId/announcements': STAFF,
+  'GET /api/subjects/:subjectId/announcements': STAFF,
+};
+
+export const routeKey = (method: string, path: string) => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Middleware enforcing one policy; 401 without a session, 403 without the access role or
+ * the permission.
+ */
+export function authorize(policy: RoutePolicy): RequestHandler {
+  return async function routePolicyGate(req: Request, res: Response, next: NextFunction) {
+    // Portal routes carry requirePortalAccess, which also admits portal link visitors
+    if (policy === 'public' || policy === 'portal') return next();
+
+    const user = req.session?.user;
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (policy === 'signed-in') return next();
+    if (policy === 'super-admin') {
+      return user.role === 'super_admin' || user.isSuperAdmin
+        ? next()
+        : res.status(403).json({ message: "You do not have access to this resource" });
+    }
+
+    const roles = 'permission' in policy ? policy.roles : policy;
+    if (!hasAccess(user, ...roles)) {
+      return res.status(403).json({ message: "You do not have access to this resource" });
+    }
+    if (!('permission' in policy)) return next();
+    try {
+      if (!(await userPermissions(user)).includes(policy.permission)) {
+        return res.status(403).json({ message: `Your role does not allow this (${PERMISSIONS[policy.permission].label.toLowerCase()})` });
+      }
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      return res.status(500).json({ message: "Failed to check permissions" });
+    }
+    next();
+  };
+}
+
+interface RegisteredRoute {
+  path: string;
+  methods: Record<string, boolean>;
+  stack: Array<{ name: string; method?: string }>;
+}
+
+const routesOf = (router: Router | { _router?: Router }): RegisteredRoute[] =>
+  (((router as any)._router ?? router).stack as Array<{ route?: RegisteredRoute }>)
+    .map((layer) => layer.route)
+    .filter((route): route is RegisteredRoute => !!route);
+
+/** "METHOD /path" of every route registered directly on an app or router. */
+export function routeKeys(router: Router | { _router?: Router }, prefix = ''): string[] {
+  return routesOf(router).flatMap((route) => Object.keys(route.methods).map((method) => routeKey(method, prefix + route.path)));
+}
+
+/**
+ * Put the policy check in front of every route registered on `router` (mounted at
+ * `prefix`). Throws, listing them, when routes have no policy. Safe to call again after
+ * more routes are registered.
+ */
+export function applyRoutePolicies(router: Router | { _router?: Router }, prefix = ''): void {
+  const missing: string[] = [];
+  for (const route of routesOf(router)) {
+    if (route.stack[0]?.name === 'routePolicyGate') continue;
+    for (const method of Object.keys(route.methods)) {
+      const key = routeKey(method, prefix + route.path);
+      const policy = ROUTE_POLICIES[key];
+      if (!policy) {
+        missing.push(key);
+        continue;
+      }
+      (route as any)[method](authorize(policy));
+      route.stack.unshift(route.stack.pop()!);
+    }
+  }
+  if (missing.length) {
+    throw new Error(`Routes without a permission policy (add them to ROUTE_POLICIES in server/permissions.ts): ${missing.join(', ')}`);
+  }
+}
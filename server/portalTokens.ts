@@ -0,0 +1,277 @@
+/**
+ * Signed, revocable, expiring links to the student/parent portal.
+ *
+ * A link is /portal/<token>, where the token is base64url({ i: row id, e: expiry }) plus
+ * an HMAC-SHA256 of that payload, so a guessed or altered token is refused before the
+ * database is touched. The portal_tokens row is what makes a link revocable: issuing a
+ * new link for a student (or parent) revokes the previous one, and finance can revoke a
+ * link outright. Opening a link stores the token id in the visitor's session; every
+ * portal endpoint then re-checks that row (not revoked, not expired) and that the
+ * requested student is covered before running in the link's school. Each opening is
+ * written to audit_logs (portal_access) as the link's access log.
+ */
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { and, desc, eq, gt, inArray, isNull } from "drizzle-orm";
+import { db, poolDb } from "./db";
+import { auditLogs, portalTokens, students, type PortalToken } from "@shared/schema";
+import { recordAuditEvent, type AuditOrigin } from "./auditLog";
+import { pinTenantForRequest } from "./tenantDbMiddleware";
+import { canViewStudent, childOf } from "./parentAccounts";
+
+export const PORTAL_LINK_TTL_DAYS = Number(process.env.PORTAL_LINK_TTL_DAYS) || 90;
+export const PORTAL_LINK_MAX_DAYS = 365;
+
+const portalSecret = () => process.env.PORTAL_TOKEN_SECRET || process.env.SESSION_SECRET || 'primax-secret-key';
+
+export interface PortalTokenPayload {
+  id: string;
+  expiresAt: Date;
+}
+
+export type PortalTokenStatus = 'active' | 'expired' | 'revoked';
+
+const signature = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+export function signPortalToken({ id, expiresAt }: PortalTokenPayload, secret = portalSecret()): string {
+  const payload = Buffer.from(JSON.stringify({ i: id, e: Math.floor(expiresAt.getTime() / 1000) })).toString('base64url');
+  return `${payload}.${signature(payload, secret)}`;
+}
+
+/** The token's id and expiry when the signature is valid and it has not expired, otherwise null. */
+export function verifyPortalToken(token: string, now = new Date(), secret = portalSecret()): PortalTokenPayload | null {
+  const [payload, sig, extra] = String(token ?? '').split('.');
+  if (!payload || !sig || extra !== undefined) return null;
+
+  const expected = Buffer.from(signature(payload, secret));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { i, e } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof i !== 'string' || typeof e !== 'number') return null;
+    const expiresAt = new Date(e * 1000);
+    return expiresAt.getTime() > now.getTime() ? { id: i, expiresAt } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function portalTokenStatus(row: Pick<PortalToken, 'expiresAt' | 'revokedAt'>, now = new Date()): PortalTokenStatus {
+  if (row.revokedAt) return 'revoked';
+  return row.expiresAt.getTime() > now.getTime() ? 'active' : 'expired';
+}
+
+export function portalLink(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/portal/${token}`;
+}
+
+/** Link lifetime in days from a request body, defaulting to PORTAL_LINK_TTL_DAYS. */
+export function portalLinkDays(value: unknown): number {
+  if (value === undefined || value === null || value === '') return PORTAL_LINK_TTL_DAYS;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > PORTAL_LINK_MAX_DAYS) {
+    throw new Error(`Link lifetime must be between 1 and ${PORTAL_LINK_MAX_DAYS} days`);
+  }
+  return days;
+}
+
+// ---- Links (finance, in tenant context) ----
+
+const withLink = (row: PortalToken, baseUrl: string, now = new Date()) => ({
+  ...row,
+  status: portalTokenStatus(row, now),
+  url: portalLink(baseUrl, signPortalToken(row)),
+});
+
+export async function listPortalTokens(baseUrl: string) {
+  const rows = await db.select().from(portalTokens).orderBy(desc(portalTokens.createdAt));
+  const now = new Date();
+  return rows.map((row) => withLink(row, baseUrl, now));
+}
+
+/**
+ * Issue a link for one student or for every child of a parent, revoking the subject's
+ * previous links (so "regenerate" is simply issuing again).
+ */
+export async function issuePortalToken(
+  subject: { studentId?: string; parentId?: string },
+  options: { days: number; createdBy: string; baseUrl: string },
+) {
+  const { studentId, parentId } = subject;
+  if (!studentId === !parentId) throw new Error('Choose either a student or a parent');
+
+  const [match] = await db
+    .select({ id: students.id })
+    .from(students)
+    .where(studentId ? eq(students.id, studentId) : childOf(parentId!))
+    .limit(1);
+  if (!match) throw new Error(studentId ? 'Student not found' : 'No students are linked to this parent');
+
+  const now = new Date();
+  return db.transaction(async (tx) => {
+    await tx
+      .update(portalTokens)
+      .set({ revokedAt: now, revokedBy: options.createdBy })
+      .where(and(
+        studentId ? eq(portalTokens.studentId, studentId) : eq(portalTokens.parentId, parentId!),
+        isNull(portalTokens.revokedAt),
+      ));
+    const [row] = await (tx as any).insert(portalTokens).values({
+      studentId: studentId ?? null,
+      parentId: parentId ?? null,
+      expiresAt: new Date(now.getTime() + options.days * 24 * 60 * 60 * 1000),
+      createdBy: options.createdBy,
+    }).returning();
+    return withLink(row as PortalToken, options.baseUrl, now);
+  });
+}
+
+/** Returns false when there is no such link in this school. */
+export async function revokePortalToken(id: string, revokedBy: string): Promise<boolean> {
+  const [row] = await db
+    .update(portalTokens)
+    .set({ revokedAt: new Date(), revokedBy })
+    .where(and(eq(portalTokens.id, id), isNull(portalTokens.revokedAt)))
+    .returning({ id: portalTokens.id });
+  if (row) return true;
+  const [existing] = await db.select({ id: portalTokens.id }).from(portalTokens).where(eq(portalTokens.id, id));
+  return !!existing;
+}
+
+/** When and from where a link was opened, newest first. */
+export async function portalAccessLog(tokenId: string, limit = 50) {
+  return db
+    .select({
+      id: auditLogs.id,
+      accessedAt: auditLogs.createdAt,
+      ipAddress: auditLogs.ipAddress,
+      userAgent: auditLogs.userAgent,
+      userId: auditLogs.userId,
+    })
+    .from(auditLogs)
+    .where(and(eq(auditLogs.action, 'portal_access'), eq(auditLogs.resourceId, tokenId)))
+    .orderBy(desc(auditLogs.createdAt))
+    .limit(limit);
+}
+
+// ---- Portal visitors (no tenant context yet, so on the shared pool) ----
+
+interface PortalAccess {
+  token: PortalToken;
+  studentIds: string[];
+}
+
+/** The usable link row and the active students it covers, or null. */
+async function loadPortalAccess(tokenId: string, now = new Date()): Promise<PortalAccess | null> {
+  const [token] = await poolDb
+    .select()
+    .from(portalTokens)
+    .where(and(eq(portalTokens.id, tokenId), isNull(portalTokens.revokedAt), gt(portalTokens.expiresAt, now)));
+  const scope = token?.studentId
+    ? eq(students.id, token.studentId)
+    : token?.parentId ? childOf(token.parentId) : null;
+  if (!token || !scope) return null;
+
+  const covered = await poolDb
+    .select({ id: students.id })
+    .from(students)
+    .where(and(
+      eq(students.tenantId, token.tenantId),
+      eq(students.isActive, true),
+      scope,
+    ));
+  return covered.length ? { token, studentIds: covered.map((s) => s.id) } : null;
+}
+
+/**
+ * Open a portal link: verify it, remember it in the session and log the access.
+ * Returns the students the visitor may view, or null when the link is not usable.
+ */
+export async function openPortalSession(req: Request, token: string, origin: AuditOrigin) {
+  const payload = verifyPortalToken(token);
+  if (!payload) return null;
+  const access = await loadPortalAccess(payload.id);
+  // The expiry in the token must be the row's: a re-signed old token cannot extend a link
+  if (!access || Math.floor(access.token.expiresAt.getTime() / 1000) !== Math.floor(payload.expiresAt.getTime() / 1000)) {
+    return null;
+  }
+
+  req.session.portal = { tokenId: access.token.id, tenantId: access.token.tenantId };
+  await poolDb.update(portalTokens).set({ lastUsedAt: new Date() }).where(eq(portalTokens.id, access.token.id));
+  await recordAuditEvent({
+    tenantId: access.token.tenantId,
+    userId: req.session.user?.id ?? null,
+    action: 'portal_access',
+    resource: 'portal_link',
+    resourceId: access.token.id,
+    details: { studentIds: access.studentIds },
+    ...origin,
+  });
+
+  const visible = await poolDb
+    .select({ id: students.id, firstName: students.firstName, lastName: students.lastName, rollNumber: students.rollNumber })
+    .from(students)
+    .where(inArray(students.id, access.studentIds))
+    .orderBy(students.firstName);
+  return { students: visible, expiresAt: access.token.expiresAt };
+}
+
+/**
+ * Guard for portal endpoints. Signed-in staff pass through (their request is already
+ * tenant-scoped), teachers only for students in their classes and signed-in parents only
+ * for their own children; a portal visitor
+ * needs a still-valid link covering the student named by `studentIdOf` (any covered
+ * student when it returns undefined), and the rest of the request runs in that link's school.
+ */
+export function requirePortalAccess(studentIdOf: (req: Request) => string | undefined = () => undefined): RequestHandler {
+  return async function portalAccessGuard(req: Request, res: Response, next: NextFunction) {
+    const user = req.session?.user;
+    if (user) {
+      const studentId = studentIdOf(req);
+      try {
+        if (studentId && !(await canViewStudent(user, studentId))) {
+          return res.status(403).json({
+            message: user.role === 'parent' ? "You can only view your own children" : "You can only view students in your classes",
+          });
+        }
+      } catch (error) {
+        console.error("Error verifying portal access:", error);
+        return res.status(500).json({ message: "Failed to verify portal access" });
+      }
+      return next();
+    }
+
+    const portal = req.session?.portal;
+    if (!portal) {
+      return res.status(401).json({ message: "Open your portal link to continue" });
+    }
+    try {
+      const access = await loadPortalAccess(portal.tokenId);
+      if (!access) {
+        delete req.session.portal;
+        return res.status(401).json({ message: "This portal link has expired or been revoked. Ask the school for a new one." });
+      }
+      const studentId = studentIdOf(req);
+      if (studentId && !access.studentIds.includes(studentId)) {
+        return res.status(403).json({ message: "This portal link does not cover that student" });
+      }
+      pinTenantForRequest(access.token.tenantId, null, res, next);
+    } catch (error) {
+      console.error("Error verifying portal access:", error);
+      res.status(500).json({ message: "Failed to verify portal access" });
+    }
+  };
+}
+
+/**
+ * For a handler behind requirePortalAccess whose student is only known once a record is
+ * loaded: whether the signed-in user or portal visitor may see that student.
+ */
+export async function mayViewStudent(req: Request, studentId: string): Promise<boolean> {
+  const user = req.session?.user;
+  if (user) return canViewStudent(user, studentId);
+  const portal = req.session?.portal;
+  const access = portal ? await loadPortalAccess(portal.tokenId) : null;
+  return !!access?.studentIds.includes(studentId);
+}
@@ -0,0 +1,64 @@
+/**
+ * Payment refund planning.
+ *
+ * A refund gives back money from one payment. Whatever of that payment is still
+ * sitting in the student's credit wallet goes first (no invoice changes), then the
+ * payment's allocations are unwound newest first so older invoices stay settled.
+ * Pure helpers only - billing.ts applies the plan.
+ */
+import { roundMoney } from "./payouts";
+
+export interface AllocationLike {
+  id: string;
+  invoiceId: string;
+  amount: string | number;
+  createdAt?: Date | string | null;
+}
+
+export interface RefundPlan {
+  fromCredit: number;
+  unwind: Array<{ allocationId: string; invoiceId: string; amount: number }>;
+}
+
+/** Amount of a payment still refundable after earlier partial refunds. */
+export function refundableAmount(paymentAmount: string | number, refundedSoFar: number): number {
+  return Math.max(0, roundMoney(Number(paymentAmount) - refundedSoFar));
+}
+
+export function planRefund(amount: number, walletCredit: number, allocations: AllocationLike[]): RefundPlan {
+  const wanted = roundMoney(amount);
+  if (wanted <= 0) throw new Error('Refund amount must be positive');
+
+  const fromCredit = roundMoney(Math.min(Math.max(0, walletCredit), wanted));
+  let remaining = roundMoney(wanted - fromCredit);
+
+  const newestFirst = allocations
+    .map((a, index) => ({ a, index, at: a.createdAt ? new Date(a.createdAt).getTime() : index }))
+    .sort((x, y) => (y.at === x.at ? y.index - x.index : y.at - x.at));
+
+  const unwind: RefundPlan['unwind'] = [];
+  for (const { a } of newestFirst) {
+    if (remaining <= 0) break;
+    const take = roundMoney(Math.min(Number(a.amount), remaining));
+    if (take <= 0) continue;
+    unwind.push({ allocationId: a.id, invoiceId: a.invoiceId, amount: take });
+    remaining = roundMoney(remaining - take);
+  }
+  if (remaining > 0) {
+    throw new Error(`Refund exceeds what this payment can return by Rs. ${remaining}`);
+  }
+  return { fromCredit, unwind };
+}
+
+/** Invoice status once its paid amount changes. */
+export function invoiceStatusFor(total: number, amountPaid: number): 'paid' | 'partial' | 'sent' {
+  const balanceDue = roundMoney(total - amountPaid);
+  if (balanceDue <= 0) return 'paid';
+  return amountPaid > 0 ? 'partial' : 'sent';
+}
+
+/** Invoice status once its paid amount changes; an unpaid invoice past its due date is overdue. */
+export function invoiceStatusAsOf(total: number, amountPaid: number, dueDate: string, today: string) {
+  const status = invoiceStatusFor(total, amountPaid);
+  return status !== 'paid' && dueDate < today ? 'overdue' : status;
+}
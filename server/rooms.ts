@@ -0,0 +1,285 @@
+/**
+ * Rooms: the classrooms, labs and other spaces of a branch that classes are held in.
+ *
+ * A schedule (or a reschedule / extra class) can name a registered room; its name is
+ * copied into the free-text location so everything that shows a location keeps working,
+ * and the conflict checker compares registered rooms by id (scheduleConflicts.ts).
+ * Saving a class in a room smaller than the subject's enrollment is allowed but comes back
+ * with a capacity warning. The utilisation grid shows each room's weekly bookings.
+ */
+import { and, asc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { getCurrentBranchId } from "./tenantContext";
+import { WEEKDAYS, type Weekday } from "./timetable";
+import { branches, classSchedules, enrollments, rooms, scheduleChanges, subjects, users, type Room } from "@shared/schema";
+
+export const ROOM_EQUIPMENT = {
+  projector: 'Projector',
+  smart_board: 'Smart board',
+  whiteboard: 'Whiteboard',
+  science_lab: 'Science lab',
+  computer_lab: 'Computer lab',
+  air_conditioning: 'Air conditioning',
+} as const;
+export type RoomEquipment = keyof typeof ROOM_EQUIPMENT;
+
+export interface RoomInput {
+  name: string;
+  capacity?: number | string | null;
+  equipment?: string[];
+}
+
+/** Returns an error message, or null when the room can be saved. */
+export function validateRoom(input: Partial<RoomInput>): string | null {
+  if (!input.name?.trim()) return 'Room name is required';
+  if (input.capacity !== undefined && input.capacity !== null && input.capacity !== '') {
+    const capacity = Number(input.capacity);
+    if (!Number.isInteger(capacity) || capacity < 1) return 'Capacity must be a whole number of seats';
+  }
+  const unknown = (input.equipment || []).find((e) => !(e in ROOM_EQUIPMENT));
+  if (unknown) return `Unknown equipment: ${unknown}`;
+  return null;
+}
+
+/** The warning to show when more students are enrolled than the room seats, else null. */
+export function capacityWarning(room: Pick<Room, 'name' | 'capacity'>, enrolled: number, subject = 'this class'): string | null {
+  if (!room.capacity || enrolled <= room.capacity) return null;
+  return `${enrolled} students are enrolled in ${subject} but ${room.name} seats ${room.capacity}`;
+}
+
+export interface RoomBooking {
+  scheduleId: string;
+  dayOfWeek: Weekday;
+  startTime: string;
+  endTime: string;
+  subject: string;
+  teacherName: string;
+  enrolled: number;
+}
+
+export interface GridRow {
+  start: string;
+  end: string;
+  days: Record<Weekday, RoomBooking[]>;
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * A week of hourly rows, each listing per weekday the bookings that overlap the hour
+ * (an empty list is a free slot). The rows cover `open`-`close`, widened to whole hours
+ * around any booking outside them.
+ */
+export function buildRoomGrid(bookings: RoomBooking[], open = '08:00', close = '20:00'): GridRow[] {
+  const first = Math.min(toMinutes(open), ...bookings.map((b) => toMinutes(b.startTime)));
+  const last = Math.max(toMinutes(close), ...bookings.map((b) => toMinutes(b.endTime)));
+  const rows: GridRow[] = [];
+  for (let from = Math.floor(first / 60) * 60; from < last; from += 60) {
+    const start = toTime(from);
+    const end = toTime(Math.min(from + 60, 24 * 60 - 1));
+    const days = Object.fromEntries(WEEKDAYS.map((day) => [
+      day,
+      bookings.filter((b) => b.dayOfWeek === day && b.startTime < end && start < b.endTime),
+    ])) as Record<Weekday, RoomBooking[]>;
+    rows.push({ start, end, days });
+  }
+  return rows;
+}
+
+/** Minutes a week the room is booked (overlapping bookings counted once). */
+export function bookedMinutes(bookings: RoomBooking[]): number {
+  let total = 0;
+  for (const day of WEEKDAYS) {
+    const spans = bookings
+      .filter((b) => b.dayOfWeek === day)
+      .map((b) => [toMinutes(b.startTime), toMinutes(b.endTime)])
+      .sort((a, b) => a[0] - b[0]);
+    let end = -1;
+    for (const [from, to] of spans) {
+      total += Math.max(0, to - Math.max(from, end));
+      end = Math.max(end, to);
+    }
+  }
+  return total;
+}
+
+// The active branch's rooms; head office (no active branch) sees every branch
+const branchCondition = () => {
+  const branchId = getCurrentBranchId();
+  return branchId ? eq(rooms.branchId, branchId) : undefined;
+};
+
+export async function getRooms(options: { includeInactive?: boolean } = {}) {
+  return await db
+    .select({
+      id: rooms.id,
+      branchId: rooms.branchId,
+      branchName: branches.name,
+      name: rooms.name,
+      capacity: rooms.capacity,
+      equipment: rooms.equipment,
+      isActive: rooms.isActive,
+      createdAt: rooms.createdAt,
+      updatedAt: rooms.updatedAt,
+    })
+    .from(rooms)
+    .leftJoin(branches, eq(rooms.branchId, branches.id))
+    .where(and(branchCondition(), options.includeInactive ? undefined : eq(rooms.isActive, true)))
+    .orderBy(asc(branches.name), asc(rooms.name));
+}
+
+function roomValues(input: RoomInput) {
+  const capacity = input.capacity === undefined || input.capacity === null || input.capacity === '' ? null : Number(input.capacity);
+  return {
+    name: input.name.trim(),
+    capacity,
+    equipment: Array.from(new Set(input.equipment || [])),
+  };
+}
+
+const duplicateName = (error: any) => error?.code === '23505';
+
+export async function createRoom(input: RoomInput): Promise<Room> {
+  const error = validateRoom(input);
+  if (error) throw new Error(error);
+  try {
+    // branch_id is stamped with the active branch by the column default
+    const [room] = await (db as any).insert(rooms).values(roomValues(input)).returning();
+    return room;
+  } catch (e) {
+    if (duplicateName(e)) throw new Error(`There is already a room called ${input.name.trim()}`);
+    throw e;
+  }
+}
+
+/** Update a room. A rename is carried to the location shown on its schedules and changes. */
+export async function updateRoom(id: string, input: RoomInput): Promise<Room> {
+  const error = validateRoom(input);
+  if (error) throw new Error(error);
+  const values = roomValues(input);
+  try {
+    return await db.transaction(async (tx) => {
+      const [room] = await tx
+        .update(rooms)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(rooms.id, id))
+        .returning();
+      if (!room) throw new Error('Room not found');
+      await tx
+        .update(classSchedules)
+        .set({ location: room.name, updatedAt: new Date() })
+        .where(eq(classSchedules.roomId, id));
+      await tx
+        .update(scheduleChanges)
+        .set({ newLocation: room.name })
+        .where(eq(scheduleChanges.newRoomId, id));
+      return room;
+    });
+  } catch (e) {
+    if (duplicateName(e)) throw new Error(`There is already a room called ${values.name}`);
+    throw e;
+  }
+}
+
+/** Retire a room. Schedules already in it keep it; it can no longer be chosen for new ones. */
+export async function setRoomActive(id: string, isActive: boolean): Promise<Room> {
+  const [room] = await db
+    .update(rooms)
+    .set({ isActive, updatedAt: new Date() })
+    .where(eq(rooms.id, id))
+    .returning();
+  if (!room) throw new Error('Room not found');
+  return room;
+}
+
+/**
+ * The room a class is being put in. Throws when it does not exist, is retired, or belongs
+ * to a different branch than the class.
+ */
+export async function resolveRoom(roomId: string, branchId: string | null, currentRoomId?: string | null): Promise<Room> {
+  const [room] = await db.select().from(rooms).where(eq(rooms.id, roomId));
+  if (!room) throw new Error('Room not found');
+  // A class may stay in a room retired after it was booked
+  if (room.isActive === false && room.id !== currentRoomId) throw new Error(`${room.name} is no longer in use`);
+  if (branchId && room.branchId && room.branchId !== branchId) throw new Error(`${room.name} belongs to another branch`);
+  return room;
+}
+
+/**
+ * Students a teacher's class of a subject holds: active enrollments in the subject that
+ * are with this teacher or not assigned to a teacher yet.
+ */
+export async function countEnrolled(subjectId: string, teacherId: string): Promise<number> {
+  const [row] = await db
+    .select({ n: sql<number>`count(distinct ${enrollments.studentId})::int` })
+    .from(enrollments)
+    .where(and(
+      eq(enrollments.subjectId, subjectId),
+      eq(enrollments.isActive, true),
+      or(eq(enrollments.teacherId, teacherId), isNull(enrollments.teacherId)),
+    ));
+  return row?.n ?? 0;
+}
+
+/** Capacity warnings for a class held in the room (an empty list when it fits). */
+export async function roomCapacityWarnings(room: Room | null, subjectId: string, teacherId: string): Promise<string[]> {
+  if (!room?.capacity) return [];
+  const [subject] = await db.select({ name: subjects.name }).from(subjects).where(eq(subjects.id, subjectId));
+  const warning = capacityWarning(room, await countEnrolled(subjectId, teacherId), subject?.name);
+  return warning ? [warning] : [];
+}
+
+/** Every room of the active branch with its weekly bookings, hourly grid and warnings. */
+export async function getRoomUtilisation() {
+  const roomList = await getRooms();
+  const ids = roomList.map((r) => r.id);
+  const schedules = ids.length === 0 ? [] : await db
+    .select({
+      scheduleId: classSchedules.id,
+      roomId: classSchedules.roomId,
+      dayOfWeek: classSchedules.dayOfWeek,
+      startTime: classSchedules.startTime,
+      endTime: classSchedules.endTime,
+      subjectId: classSchedules.subjectId,
+      subject: subjects.name,
+      teacherId: classSchedules.teacherId,
+      teacherFirstName: users.firstName,
+      teacherLastName: users.lastName,
+    })
+    .from(classSchedules)
+    .innerJoin(subjects, eq(classSchedules.subjectId, subjects.id))
+    .leftJoin(users, eq(classSchedules.teacherId, users.id))
+    .where(and(eq(classSchedules.isActive, true), inArray(classSchedules.roomId, ids)))
+    .orderBy(asc(classSchedules.startTime));
+
+  const enrolledBy = new Map<string, number>();
+  for (const s of schedules) {
+    const key = `${s.subjectId}:${s.teacherId}`;
+    if (!enrolledBy.has(key)) enrolledBy.set(key, await countEnrolled(s.subjectId, s.teacherId));
+  }
+
+  return roomList.map((room) => {
+    const inRoom = schedules.filter((s) => s.roomId === room.id);
+    const bookings: RoomBooking[] = inRoom.map((s) => ({
+      scheduleId: s.scheduleId,
+      dayOfWeek: s.dayOfWeek,
+      startTime: s.startTime,
+      endTime: s.endTime,
+      subject: s.subject,
+      teacherName: `${s.teacherFirstName || ''} ${s.teacherLastName || ''}`.trim(),
+      enrolled: enrolledBy.get(`${s.subjectId}:${s.teacherId}`) ?? 0,
+    }));
+    const warnings = bookings
+      .map((b) => capacityWarning(room, b.enrolled, b.subject))
+      .filter((w): w is string => !!w);
+    return {
+      ...room,
+      bookings,
+      grid: buildRoomGrid(bookings),
+      bookedMinutes: bookedMinutes(bookings),
+      warnings: Array.from(new Set(warnings)),
+    };
+  });
+}
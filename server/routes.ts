@@ -7,6 +7,7 @@ import {
   tenantContextMiddleware, 
   requireTenantContextMiddleware,
   getCurrentTenantId,
+  getCurrentBranchId,
   logTenantContext 
 } from "./tenantContext";
 import { scopedDb } from "./scopedDb";
@@ -20,11 +21,88 @@ import billingRoutes from "./billingRoutes";
 import notificationRoutes from "./notificationRoutes";
 import { NotificationService } from "./notificationService";
 import { SystemMonitoringService } from "./systemMonitoringService";
+import { currentMonth } from "./payouts";
+import { generatePayslipPdf } from "./payslip";
+import { generateCreditNotePdf } from "./creditNote";
+import {
+  addLateFeeExemption,
+  applyLateFees,
+  createLateFeePolicy,
+  evaluateLateFees,
+  getLateFeeExemptions,
+  getLateFeePolicies,
+  removeLateFeeExemption,
+  setLateFeePolicyActive,
+  todayIn,
+  updateLateFeePolicy,
+  validateLateFeePolicy,
+  waiveLateFee,
+} from "./lateFees";
+import { getJobRuns, JOB_NAMES, runJob, type JobName } from "./scheduler";
+import { enrollmentDiscount } from "./monthlyBilling";
+import {
+  createSubjectCombo,
+  getSubjectCombo,
+  getSubjectCombos,
+  setSubjectComboActive,
+  updateSubjectCombo,
+} from "./combos";
+import {
+  cancelFeeChange,
+  createSubject,
+  getSubjectCatalogue,
+  getSubjectDependants,
+  hasDependants,
+  repriceSubject,
+  setSubjectActive,
+  updateSubject,
+} from "./subjectCatalogue";
+import { forcePasswordReset, getPasswordPolicy, savePasswordPolicy } from "./passwordPolicy";
+import { unlockAccount } from "./loginSecurity";
+import { recordAuditEvent, requestOrigin } from "./auditLog";
+import {
+  issuePortalToken,
+  listPortalTokens,
+  mayViewStudent,
+  openPortalSession,
+  portalAccessLog,
+  portalLinkDays,
+  requirePortalAccess,
+  revokePortalToken,
+} from "./portalTokens";
+import { getParentChildren, getStudentParentAccounts, inviteParent, isParentSlot, unlinkParent } from "./parentAccounts";
+import { applyRoutePolicies, DEFAULT_PERMISSIONS, hasAccess, PERMISSIONS, teacherScope, userPermissions } from "./permissions";
+import { currentImpersonation, endImpersonation, startImpersonation } from "./impersonation";
+import { destroyUserSessions, getIdleTimeouts, IDLE_TIMEOUT_LIMITS, IDLE_TIMEOUT_ROLES, saveIdleTimeouts, setStaffActive } from "./userSessions";
+import { assignCustomRole, createTenantRole, deleteTenantRole, getTenantRoles, updateTenantRole } from "./customRoles";
+import { addDays, getSession, validateSessionRange } from "./timetable";
+import { checkScheduleChangeConflicts, checkScheduleConflicts, getCurrentConflicts, validateSlotTimes } from "./scheduleConflicts";
+import {
+  amendDeadline,
+  AMEND_HOURS_LIMITS,
+  EXCUSED_ABSENCE_POLICIES,
+  getAmendHours,
+  getAttendanceHistory,
+  getAttendanceSettings,
+  getStudentAttendanceRate,
+  isAmendLocked,
+  saveAttendanceSettings,
+  saveSessionAttendance,
+} from "./attendance";
+import { cancelLeaveRequest, createLeaveRequest, getLeaveRequests, getStudentLeaveRequests, reviewLeaveRequest } from "./leaveRequests";
+import { createRoom, getRoomUtilisation, getRooms, resolveRoom, roomCapacityWarnings, ROOM_EQUIPMENT, setRoomActive, updateRoom } from "./rooms";
+import { getTwoFactorRoles, resetTwoFactor, saveTwoFactorRoles, TWO_FACTOR_ROLES } from "./twoFactor";
+import {
+  DEFAULT_NUMBER_FORMATS,
+  DOCUMENT_TYPES,
+  getNumberFormats,
+  saveNumberFormat,
+  type DocumentType,
+} from "./sequences";
 import { 
   insertStudentSchema, 
   insertInvoiceSchema, 
   insertPaymentSchema,
-  insertAttendanceSchema,
   insertAssessmentSchema,
   insertGradeSchema,
   insertAnnouncementSchema,
@@ -32,7 +110,7 @@ import {
   insertScheduleChangeSchema,
   students,
   subjects,
-  classes,
+  classSessions,
   enrollments,
   invoices,
   payments,
@@ -95,8 +173,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ---- Branches / campuses ----
-  const canManageBranches = (req: any) =>
-    ['management', 'super_admin'].includes(req.session?.user?.role);
+  // Role checks inside handlers use the same access roles as the route policies (permissions.ts)
+  const canManageBranches = (req: any) => hasAccess(req.session?.user, 'management');
+  // Same head-office check, for management-only settings (numbering, ...)
+  const isManagement = canManageBranches;
+  // Finance desk or head office (refunds, late fees, ...)
+  const isFinanceStaff = (req: any) => hasAccess(req.session?.user, 'finance', 'management');
 
   app.get('/api/branches', requireAuth, async (_req, res) => {
     try {
@@ -168,103 +250,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced demo authentication with role-based access control
-  app.use((req: any, res, next) => {
-    // Parse role from URL query parameter for demo purposes
-    const urlRole = req.query.role || 'finance';
-    
-    // Demo user configurations for different role types
-    const demoUsers = {
-      // Regular teacher - only sees teacher dashboard
-      'teacher': {
-        id: 'demo-teacher-1',
-        role: 'teacher',
-        isSuperAdmin: false,
-        isTeacher: true,
-        teacherSubjects: ['99c0039b-c3cb-4182-b311-5d69a755d548', '747f8a50-8cb0-4090-aaf0-1a6dda90103b'],
-        firstName: 'Ahmed',
-        lastName: 'Khan',
-        email: 'teacher1@primax.edu'
-      },
-      // Super admin who is also a teacher - sees everything
-      'super-admin-teacher': {
-        id: 'demo-super-admin-teacher',
-        role: 'teacher', // Base role is teacher
-        isSuperAdmin: true,
-        isTeacher: true,
-        teacherSubjects: ['99c0039b-c3cb-4182-b311-5d69a755d548', '747f8a50-8cb0-4090-aaf0-1a6dda90103b'],
-        firstName: 'Sarah',
-        lastName: 'Ahmed',
-        email: 'sarah.admin@primax.edu'
-      },
-      // Super admin management (not teacher) - sees finance, management, parent
-      'super-admin-management': {
-        id: 'demo-super-admin-mgmt',
-        role: 'management',
-        isSuperAdmin: true,
-        isTeacher: false,
-        teacherSubjects: [],
-        firstName: 'Hassan',
-        lastName: 'Ali',
-        email: 'hassan.admin@primax.edu'
-      },
-      // Regular finance user
-      'finance': {
-        id: 'demo-finance-user',
-        role: 'finance',
-        isSuperAdmin: false,
-        isTeacher: false,
-        teacherSubjects: [],
-        firstName: 'Demo',
-        lastName: 'User',
-        email: 'demo@primax.school'
-      }
-    };
-
-    // Select user based on role parameter
-    const user = demoUsers[urlRole as keyof typeof demoUsers] || demoUsers['finance'];
-    
-    req.user = {
-      ...user,
-      expires_at: Math.floor(Date.now() / 1000) + 3600 // 1 hour from now
-    };
-    req.isAuthenticated = () => true;
-    next();
-  });
-
-  // Enhanced auth route with role-based access info
-  app.get('/api/auth/user', async (req: any, res) => {
-    const user = req.user;
-    
-    // Determine accessible dashboards based on role and permissions
-    const accessibleDashboards = getUserAccessibleDashboards(user);
-    
-    res.json({
-      ...user,
-      accessibleDashboards
-    });
-  });
-
-  // Helper function to determine accessible dashboards
-  function getUserAccessibleDashboards(user: any): string[] {
-    const dashboards = [];
-    
-    if (user.isSuperAdmin) {
-      // Super admins get access to finance, management, and parent dashboards
-      dashboards.push('finance', 'management', 'parent');
-      
-      // Super admin teachers also get teacher dashboard
-      if (user.isTeacher) {
-        dashboards.push('teacher');
-      }
-    } else {
-      // Regular users only get their primary role dashboard
-      dashboards.push(user.role);
-    }
-    
-    return dashboards;
-  }
-
   // Dashboard stats
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
@@ -277,9 +262,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Students routes - now with tenant isolation
-  app.get("/api/students", requireTenantMiddleware, async (req, res) => {
+  app.get("/api/students", requireTenantMiddleware, async (req: any, res) => {
     try {
       logTenantContext('GET /api/students');
+      // Parents only ever see their own children
+      if (req.session?.user?.role === 'parent') {
+        return res.json(await getParentChildren(req.session.user.id));
+      }
       const students = await scopedDb.students.findMany();
       res.json(students);
     } catch (error) {
@@ -432,6 +421,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       await storage.deleteManagement(id);
+      await destroyUserSessions(id); // a removed account must not stay signed in anywhere
       res.json({ message: "Management account deleted successfully" });
     } catch (error) {
       console.error('Error deleting management:', error);
@@ -461,6 +451,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       await storage.deleteTeacher(id);
+      await destroyUserSessions(id);
       res.json({ message: "Teacher deleted successfully" });
     } catch (error) {
       console.error("Error deleting teacher:", error);
@@ -486,9 +477,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ?all=true also lists deactivated accounts (Staff Management)
   app.get("/api/staff", async (req, res) => {
     try {
-      const staff = await storage.getStaff();
+      const staff = await storage.getStaff(req.query.all === 'true');
       res.json(staff);
     } catch (error) {
       console.error("Error fetching staff:", error);
@@ -518,6 +510,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       await storage.deleteStaff(id);
+      await destroyUserSessions(id);
       res.json({ message: "Staff member deleted successfully" });
     } catch (error) {
       console.error("Error deleting staff:", error);
@@ -525,6 +518,328 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Issue a new temporary password; the user is signed out and must choose their own at next login
+  app.post("/api/staff/:id/force-password-reset", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to reset staff passwords" });
+    if (req.params.id === req.session.user.id) {
+      return res.status(400).json({ message: "Use Change Password to change your own password" });
+    }
+    try {
+      const { user, tempPassword } = await forcePasswordReset(req.params.id);
+      res.json({ id: user.id, email: user.email, name: `${user.firstName || ''} ${user.lastName || ''}`.trim(), tempPassword });
+    } catch (error) {
+      console.error("Error forcing password reset:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reset password" });
+    }
+  });
+
+  // Deactivate (signing them out of every device) or reactivate a staff account
+  app.post("/api/staff/:id/active", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to deactivate staff" });
+    const isActive = req.body?.isActive;
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ message: "isActive must be a boolean" });
+    }
+    if (!isActive && req.params.id === req.session.user.id) {
+      return res.status(400).json({ message: "You cannot deactivate your own account" });
+    }
+    try {
+      const result = await setStaffActive(req.params.id, isActive);
+      if (!result) return res.status(404).json({ message: "Staff member not found" });
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: isActive ? 'staff_reactivated' : 'staff_deactivated',
+        resource: 'user',
+        resourceId: req.params.id,
+        details: isActive ? null : { sessionsEnded: result.sessionsEnded },
+        ...requestOrigin(req),
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error changing staff status:", error);
+      res.status(500).json({ message: "Failed to change staff status" });
+    }
+  });
+
+  // Lift a sign-in lockout (too many failed passwords) before it expires
+  app.post("/api/staff/:id/unlock", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to unlock staff accounts" });
+    try {
+      const unlocked = await unlockAccount(req.session.user.tenantId, req.params.id, req.session.user.id, requestOrigin(req));
+      if (!unlocked) return res.status(404).json({ message: "Staff member not found" });
+      res.json({ message: "Account unlocked" });
+    } catch (error) {
+      console.error("Error unlocking account:", error);
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
+  // Clear a staff member's two-factor setup (e.g. a lost phone); they enroll again at next sign-in if required
+  app.post("/api/staff/:id/reset-two-factor", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to reset two-factor authentication" });
+    try {
+      await resetTwoFactor(req.params.id);
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'two_factor_reset',
+        resource: 'user',
+        resourceId: req.params.id,
+        ...requestOrigin(req),
+      });
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // School-defined roles built from the permission catalogue, plus what each base role gets by default
+  app.get("/api/roles", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view roles" });
+    try {
+      res.json({ roles: await getTenantRoles(), permissions: PERMISSIONS, defaults: DEFAULT_PERMISSIONS });
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ message: "Failed to fetch roles" });
+    }
+  });
+
+  app.post("/api/roles", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage roles" });
+    try {
+      const role = await createTenantRole(req.body, req.session.user.id);
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'role_created',
+        resource: 'tenant_role',
+        resourceId: role.id,
+        details: { name: role.name, permissions: role.permissions },
+        ...requestOrigin(req),
+      });
+      res.status(201).json(role);
+    } catch (error) {
+      console.error("Error creating role:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create role" });
+    }
+  });
+
+  app.put("/api/roles/:id", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage roles" });
+    try {
+      const role = await updateTenantRole(req.params.id, req.body);
+      if (!role) return res.status(404).json({ message: "Role not found" });
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'role_updated',
+        resource: 'tenant_role',
+        resourceId: role.id,
+        details: { name: role.name, permissions: role.permissions },
+        ...requestOrigin(req),
+      });
+      res.json(role);
+    } catch (error) {
+      console.error("Error updating role:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update role" });
+    }
+  });
+
+  // Members of a deleted role fall back to their base role's default permissions
+  app.delete("/api/roles/:id", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage roles" });
+    try {
+      const deleted = await deleteTenantRole(req.params.id);
+      if (!deleted) return res.status(404).json({ message: "Role not found" });
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'role_deleted',
+        resource: 'tenant_role',
+        resourceId: req.params.id,
+        ...requestOrigin(req),
+      });
+      res.json({ message: "Role deleted" });
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  // Give a staff member a custom role (roleId), or null to go back to their base role's defaults
+  app.put("/api/staff/:id/custom-role", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to assign roles" });
+    if (req.params.id === req.session.user.id) {
+      return res.status(400).json({ message: "Ask another manager to change your own permissions" });
+    }
+    try {
+      const roleId = req.body?.roleId || null;
+      await assignCustomRole(req.params.id, roleId);
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'custom_role_assigned',
+        resource: 'user',
+        resourceId: req.params.id,
+        details: { roleId },
+        ...requestOrigin(req),
+      });
+      res.json({ id: req.params.id, customRoleId: roleId });
+    } catch (error) {
+      console.error("Error assigning role:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to assign role" });
+    }
+  });
+
+  // Roles that must sign in with two-factor authentication in this school
+  app.get("/api/security/two-factor", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view security settings" });
+    try {
+      res.json({ requiredRoles: await getTwoFactorRoles(req.session.user.tenantId), availableRoles: TWO_FACTOR_ROLES });
+    } catch (error) {
+      console.error("Error fetching two-factor settings:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor settings" });
+    }
+  });
+
+  // Teacher impersonation (see impersonation.ts); read-only unless changes are justified
+  app.get("/api/impersonation", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await currentImpersonation(req));
+    } catch (error) {
+      console.error("Error fetching impersonation:", error);
+      res.status(500).json({ message: "Failed to fetch impersonation" });
+    }
+  });
+
+  app.post("/api/impersonation", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to impersonate teachers" });
+    try {
+      res.status(201).json(await startImpersonation(req, req.body ?? {}));
+    } catch (error) {
+      console.error("Error starting impersonation:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start impersonation" });
+    }
+  });
+
+  app.delete("/api/impersonation", requireAuth, async (req: any, res) => {
+    try {
+      await endImpersonation(req);
+      res.json({ message: "Impersonation ended" });
+    } catch (error) {
+      console.error("Error ending impersonation:", error);
+      res.status(500).json({ message: "Failed to end impersonation" });
+    }
+  });
+
+  // Per-role idle sign-out for this school (minutes; a role left out never times out)
+  app.get("/api/security/session-timeouts", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view security settings" });
+    try {
+      res.json({
+        idleMinutes: await getIdleTimeouts(req.session.user.tenantId),
+        availableRoles: IDLE_TIMEOUT_ROLES,
+        limits: IDLE_TIMEOUT_LIMITS,
+      });
+    } catch (error) {
+      console.error("Error fetching session timeouts:", error);
+      res.status(500).json({ message: "Failed to fetch session timeouts" });
+    }
+  });
+
+  app.put("/api/security/session-timeouts", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to change security settings" });
+    try {
+      const idleMinutes = await saveIdleTimeouts(req.session.user.tenantId, req.body?.idleMinutes);
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'session_timeouts_changed',
+        resource: 'tenant',
+        resourceId: req.session.user.tenantId,
+        details: { idleMinutes },
+        ...requestOrigin(req),
+      });
+      res.json({ idleMinutes, availableRoles: IDLE_TIMEOUT_ROLES, limits: IDLE_TIMEOUT_LIMITS });
+    } catch (error) {
+      console.error("Error saving session timeouts:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save session timeouts" });
+    }
+  });
+
+  // How long after a class staff may still change its attendance (hours; null = no cut-off)
+  // and how excused absences count in attendance percentages
+  app.get("/api/attendance-settings", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view attendance settings" });
+    try {
+      res.json({
+        ...(await getAttendanceSettings(req.session.user.tenantId)),
+        limits: AMEND_HOURS_LIMITS,
+        excusedPolicies: EXCUSED_ABSENCE_POLICIES,
+      });
+    } catch (error) {
+      console.error("Error fetching attendance settings:", error);
+      res.status(500).json({ message: "Failed to fetch attendance settings" });
+    }
+  });
+
+  app.put("/api/attendance-settings", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to change attendance settings" });
+    try {
+      const settings = await saveAttendanceSettings(req.session.user.tenantId, {
+        amendHours: req.body?.amendHours,
+        excusedAbsences: req.body?.excusedAbsences,
+      });
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'attendance_settings_changed',
+        resource: 'tenant',
+        resourceId: req.session.user.tenantId,
+        details: { ...settings },
+        ...requestOrigin(req),
+      });
+      res.json({ ...settings, limits: AMEND_HOURS_LIMITS, excusedPolicies: EXCUSED_ABSENCE_POLICIES });
+    } catch (error) {
+      console.error("Error saving attendance settings:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save attendance settings" });
+    }
+  });
+
+  app.put("/api/security/two-factor", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to change security settings" });
+    try {
+      const requiredRoles = await saveTwoFactorRoles(req.session.user.tenantId, req.body?.requiredRoles);
+      res.json({ requiredRoles, availableRoles: TWO_FACTOR_ROLES });
+    } catch (error) {
+      console.error("Error saving two-factor settings:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save two-factor settings" });
+    }
+  });
+
+  // School password policy (length, character classes, reuse history, expiry)
+  app.get("/api/password-policy", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view the password policy" });
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      console.error("Error fetching password policy:", error);
+      res.status(500).json({ message: "Failed to fetch password policy" });
+    }
+  });
+
+  app.put("/api/password-policy", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to change the password policy" });
+    try {
+      res.json(await savePasswordPolicy(req.body || {}, req.session.user.id));
+    } catch (error) {
+      console.error("Error saving password policy:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save password policy" });
+    }
+  });
+
   app.post("/api/roll-numbers/check", async (req, res) => {
     try {
       const { rollNumber } = req.body;
@@ -584,16 +899,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Withdraw a student from a subject/combo; the month of withdrawal is billed pro rata
+  app.post("/api/enrollments/:id/withdraw", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to withdraw enrollments" });
+    try {
+      const withdrawnAt = req.body.withdrawnAt ? new Date(req.body.withdrawnAt) : new Date();
+      if (isNaN(withdrawnAt.getTime())) return res.status(400).json({ message: "Invalid withdrawal date" });
+      const enrollment = await storage.withdrawEnrollment(req.params.id, withdrawnAt);
+      if (!enrollment) return res.status(404).json({ message: "Active enrollment not found" });
+      res.json(enrollment);
+    } catch (error) {
+      console.error("Error withdrawing enrollment:", error);
+      res.status(500).json({ message: "Failed to withdraw enrollment" });
+    }
+  });
+
   // Complete enrollment endpoint - creates student, enrollments, and invoice
   app.post("/api/enrollments", async (req, res) => {
     try {
       const { 
         studentData, 
-        selectedSubjects, // Now includes discount info per subject
+        selectedSubjects = [], // Now includes discount info per subject
+        selectedCombos = [], // [{ comboId, discountType, discountValue, discountReason }]
         additionalFees = [] 
       } = req.body;
 
-      console.log("Processing complete enrollment:", { studentData, selectedSubjects, additionalFees });
+      console.log("Processing complete enrollment:", { studentData, selectedSubjects, selectedCombos, additionalFees });
+
+      // Resolve combos before anything is written; a combo replaces its member subjects
+      const combos = [];
+      for (const selection of selectedCombos) {
+        const combo = await getSubjectCombo(selection.comboId);
+        if (!combo || !combo.isActive) {
+          return res.status(400).json({ message: "Selected combo is no longer available" });
+        }
+        combos.push({ ...selection, combo });
+      }
+      const comboSubjectIds = new Set(combos.flatMap(({ combo }) => combo.subjects.map((s: any) => s.id as string)));
+      for (const { subjectId } of selectedSubjects) {
+        const subject = await storage.getSubjectById(subjectId);
+        if (subject && subject.isActive === false) {
+          return res.status(400).json({ message: `${subject.name} has been archived and is no longer open for enrollment` });
+        }
+      }
 
       // 1. Create the student
       const validatedStudentData = insertStudentSchema.parse(studentData);
@@ -606,7 +954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let totalDiscount = 0;
       const subjectDetails = [];
 
-      for (const subjectSelection of selectedSubjects) {
+      for (const subjectSelection of selectedSubjects.filter((s: any) => !comboSubjectIds.has(s.subjectId))) {
         const { subjectId, discountType = 'none', discountValue = 0, discountReason = '' } = subjectSelection;
         const subject = await storage.getSubjectById(subjectId);
         
@@ -639,6 +987,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalTuition += baseFee;
           totalDiscount += discountAmount;
           subjectDetails.push({
+            subjectId,
+            comboId: null,
+            enrollmentId: enrollment.id,
             name: subject.name,
             baseFee,
             discountAmount,
@@ -652,13 +1003,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Combos: one enrollment per member subject, billed once at the combo fee
+      for (const { combo, discountType = 'none', discountValue = 0, discountReason = '' } of combos) {
+        const comboFee = parseFloat(combo.discountedFee);
+        const discountAmount = enrollmentDiscount(comboFee, discountType, discountValue);
+        const comboEnrollments = [];
+        for (const member of combo.subjects) {
+          comboEnrollments.push(await storage.createEnrollment({
+            studentId: student.id,
+            subjectId: member.id,
+            comboId: combo.id,
+            discountType,
+            discountValue: discountValue.toString(),
+            discountReason,
+            enrolledAt: new Date(),
+            isActive: true
+          }));
+        }
+        enrollments.push(...comboEnrollments);
+
+        totalTuition += comboFee;
+        totalDiscount += discountAmount;
+        subjectDetails.push({
+          subjectId: null,
+          comboId: combo.id,
+          enrollmentId: comboEnrollments[0]?.id ?? null,
+          name: `${combo.name}: ${combo.subjects.map((m: any) => m.name).join(', ')}`,
+          baseFee: comboFee,
+          discountAmount,
+          finalFee: comboFee - discountAmount,
+          discountType,
+          discountValue,
+          discountReason
+        });
+      }
+
       // 3. Calculate final amount with subject-specific discounts
       const additionalFeesTotal = additionalFees.reduce((sum: number, fee: any) => sum + parseFloat(fee.amount || 0), 0);
       const finalTotal = totalTuition - totalDiscount + additionalFeesTotal;
 
       // 4. Generate initial invoice
       if (finalTotal > 0) {
-        const invoiceNumber = `INV-${Date.now()}`;
+        const invoiceNumber = await billingService.generateInvoiceNumber();
         const currentDate = new Date();
         const nextMonth = new Date(currentDate);
         nextMonth.setMonth(currentDate.getMonth() + 1);
@@ -683,6 +1069,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           createdBy: 'system'
         });
         
+        // Itemise it so collections can be attributed per subject / combo for teacher payouts
+        await storage.addInvoiceItems(invoice.id, [
+          ...subjectDetails.map(detail => ({
+            type: detail.comboId ? 'combo' : 'subject',
+            subjectId: detail.subjectId,
+            comboId: detail.comboId,
+            enrollmentId: detail.enrollmentId,
+            description: detail.name,
+            unitPrice: detail.baseFee.toFixed(2),
+            discountType: detail.discountType,
+            discountValue: String(detail.discountValue || 0),
+            discountAmount: detail.discountAmount.toFixed(2),
+            discountReason: detail.discountReason || null,
+            total: detail.finalFee.toFixed(2),
+          })),
+          ...additionalFees.map((fee: any) => ({
+            type: 'custom',
+            description: fee.description || fee.type,
+            unitPrice: parseFloat(fee.amount || 0).toFixed(2),
+            total: parseFloat(fee.amount || 0).toFixed(2),
+          })),
+        ]);
+        
         console.log(`Invoice ${invoiceNumber} created for Rs.${finalTotal}`);
 
         res.status(201).json({
@@ -720,7 +1129,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/students/:id", async (req, res) => {
+  app.get("/api/students/:id", requirePortalAccess((req) => req.params.id), async (req, res) => {
     try {
       const student = await storage.getStudent(req.params.id);
       if (!student) {
@@ -734,7 +1143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New financial endpoints
-  app.get("/api/students/:id/financial", async (req, res) => {
+  app.get("/api/students/:id/financial", requirePortalAccess((req) => req.params.id), async (req, res) => {
     try {
       const financialSummary = await storage.getStudentFinancialSummary(req.params.id);
       res.json(financialSummary);
@@ -744,17 +1153,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/students/:id/attendance", async (req, res) => {
+  app.get("/api/students/:id/attendance", requirePortalAccess((req) => req.params.id), async (req, res) => {
     try {
-      const attendancePercentage = await storage.getStudentAttendancePercentage(req.params.id);
-      res.json({ attendancePercentage });
+      const rate = await getStudentAttendanceRate(req.params.id);
+      res.json({ attendancePercentage: rate.percentage, ...rate });
     } catch (error) {
       console.error("Error fetching student attendance:", error);
       res.status(500).json({ message: "Failed to fetch attendance data" });
     }
   });
 
-  app.get("/api/students/:id/grade", async (req, res) => {
+  app.get("/api/students/:id/grade", requirePortalAccess((req) => req.params.id), async (req, res) => {
     try {
       const averageGrade = await storage.getStudentAverageGrade(req.params.id);
       res.json({ averageGrade });
@@ -784,6 +1193,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Subject catalogue administration (management)
+  app.get("/api/subjects/catalogue", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      res.json(await getSubjectCatalogue({
+        classLevel: req.query.classLevel as string | undefined,
+        includeInactive: req.query.all === 'true',
+        today: todayIn(req.tenant?.timezone),
+      }));
+    } catch (error) {
+      console.error("Error fetching subject catalogue:", error);
+      res.status(500).json({ message: "Failed to fetch subjects" });
+    }
+  });
+
+  app.post("/api/subjects", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      res.status(201).json(await createSubject(req.body || {}, req.session.user.id, todayIn(req.tenant?.timezone)));
+    } catch (error) {
+      console.error("Error creating subject:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create subject" });
+    }
+  });
+
+  app.put("/api/subjects/:id", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      res.json(await updateSubject(req.params.id, req.body || {}));
+    } catch (error) {
+      console.error("Error updating subject:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update subject" });
+    }
+  });
+
+  app.post("/api/subjects/:id/fees", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      res.json(await repriceSubject(req.params.id, req.body || {}, req.session.user.id, todayIn(req.tenant?.timezone)));
+    } catch (error) {
+      console.error("Error re-pricing subject:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to change subject fee" });
+    }
+  });
+
+  app.delete("/api/subjects/:id/fees/:versionId", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      await cancelFeeChange(req.params.id, req.params.versionId, todayIn(req.tenant?.timezone));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling fee change:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel fee change" });
+    }
+  });
+
+  app.get("/api/subjects/:id/dependants", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      res.json(await getSubjectDependants(req.params.id));
+    } catch (error) {
+      console.error("Error fetching subject dependants:", error);
+      res.status(500).json({ message: "Failed to fetch subject dependants" });
+    }
+  });
+
+  // Archiving a subject still in use needs { confirm: true } after the warning has been shown
+  app.post("/api/subjects/:id/active", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage subjects" });
+    try {
+      const isActive = req.body?.isActive !== false;
+      if (!isActive && req.body?.confirm !== true) {
+        const dependants = await getSubjectDependants(req.params.id);
+        if (hasDependants(dependants)) {
+          return res.status(409).json({ message: "Subject is still in use", dependants });
+        }
+      }
+      res.json(await setSubjectActive(req.params.id, isActive));
+    } catch (error) {
+      console.error("Error updating subject:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update subject" });
+    }
+  });
+
+  // Subject combos (bundled subjects at one fee)
+  app.get("/api/subject-combos", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await getSubjectCombos({
+        classLevel: req.query.classLevel as string | undefined,
+        includeInactive: req.query.all === 'true',
+      }));
+    } catch (error) {
+      console.error("Error fetching subject combos:", error);
+      res.status(500).json({ message: "Failed to fetch subject combos" });
+    }
+  });
+
+  app.post("/api/subject-combos", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage combos" });
+    try {
+      res.status(201).json(await createSubjectCombo(req.body || {}));
+    } catch (error) {
+      console.error("Error creating subject combo:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create subject combo" });
+    }
+  });
+
+  app.put("/api/subject-combos/:id", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage combos" });
+    try {
+      res.json(await updateSubjectCombo(req.params.id, req.body || {}));
+    } catch (error) {
+      console.error("Error updating subject combo:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update subject combo" });
+    }
+  });
+
+  app.post("/api/subject-combos/:id/active", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage combos" });
+    try {
+      res.json(await setSubjectComboActive(req.params.id, req.body?.isActive !== false));
+    } catch (error) {
+      console.error("Error updating subject combo:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update subject combo" });
+    }
+  });
+
   // Add-ons routes
   app.get("/api/add-ons", async (req, res) => {
     try {
@@ -805,13 +1341,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Teacher routes
+  // Teacher routes - only teachers get in (see permissions.ts), always on their own data
   app.get("/api/teacher/classes/today", async (req: any, res) => {
     try {
-      // Use actual teacher ID from session (fallback to demo for now)
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
-      const classes = await storage.getTodayClasses(teacherId);
-      res.json(classes);
+      const teacherId = req.session.user.id;
+      const sessions = await storage.getTodayClasses(teacherId, todayIn(req.tenant?.timezone));
+      res.json(sessions);
     } catch (error) {
       console.error("Error fetching today's classes:", error);
       res.status(500).json({ message: "Failed to fetch today's classes" });
@@ -820,9 +1355,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/teacher/earnings", async (req: any, res) => {
     try {
-      // Use actual teacher ID from session (fallback to demo for now)
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
-      const earnings = await storage.getTeacherEarningsRestricted(teacherId);
+      if (!hasAccess(req.session.user, 'teacher')) {
+        return res.status(403).json({ message: "Only teachers have an earnings statement" });
+      }
+      const teacherId = req.session.user.id;
+      const month = (req.query.month as string) || currentMonth(req.tenant?.timezone);
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return res.status(400).json({ message: "month must be in YYYY-MM format" });
+      }
+      const earnings = await storage.getTeacherEarningsRestricted(teacherId, month, req.tenant?.timezone);
       res.json(earnings);
     } catch (error) {
       console.error("Error fetching teacher earnings:", error);
@@ -833,7 +1374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get teacher's assigned subjects only
   app.get("/api/teacher/subjects", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const subjects = await storage.getTeacherSubjects(teacherId);
       res.json(subjects);
     } catch (error) {
@@ -845,7 +1386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get students enrolled in teacher's subjects only
   app.get("/api/teacher/students", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const students = await storage.getTeacherStudents(teacherId);
       res.json(students);
     } catch (error) {
@@ -857,7 +1398,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get assessments created by teacher only (maintaining data isolation)
   app.get("/api/teacher/assessments", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const assessments = await storage.getTeacherAssessments(teacherId);
       res.json(assessments);
     } catch (error) {
@@ -871,7 +1412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get teacher's schedules
   app.get("/api/teacher/schedules", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const schedules = await storage.getTeacherSchedules(teacherId);
       res.json(schedules);
     } catch (error) {
@@ -883,25 +1424,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create new schedule
   app.post("/api/teacher/schedules", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       
       const scheduleData = insertClassScheduleSchema.parse({
         ...req.body,
+        roomId: req.body?.roomId || null,
         teacherId: teacherId, // Ensure teacher can only create schedules for themselves
       });
+
+      const invalid = validateSlotTimes(scheduleData.startTime, scheduleData.endTime);
+      if (invalid) return res.status(400).json({ message: invalid });
+      const branchId = getCurrentBranchId();
+      const room = scheduleData.roomId ? await resolveRoom(scheduleData.roomId, branchId) : null;
+      if (room) scheduleData.location = room.name;
+      const conflicts = await checkScheduleConflicts({ ...scheduleData, branchId });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: "This time slot conflicts with other classes", conflicts });
+      }
       
       const schedule = await storage.createSchedule(scheduleData);
-      res.status(201).json(schedule);
+      const warnings = await roomCapacityWarnings(room, schedule.subjectId, teacherId);
+      res.status(201).json({ ...schedule, warnings });
     } catch (error) {
       console.error("Error creating schedule:", error);
-      res.status(500).json({ message: "Failed to create schedule" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create schedule" });
     }
   });
 
   // Update schedule
   app.put("/api/teacher/schedules/:id", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const scheduleId = req.params.id;
       
       // Verify schedule belongs to teacher before updating
@@ -913,18 +1466,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updates = insertClassScheduleSchema.partial().parse(req.body);
+      if ('roomId' in updates) updates.roomId = updates.roomId || null;
+      const slot = { ...scheduleExists, ...updates, id: scheduleId, teacherId };
+      const invalid = validateSlotTimes(slot.startTime, slot.endTime);
+      if (invalid) return res.status(400).json({ message: invalid });
+      const branchId = scheduleExists.branchId ?? null;
+      const room = slot.roomId ? await resolveRoom(slot.roomId, branchId, scheduleExists.roomId) : null;
+      if (room) slot.location = updates.location = room.name;
+      const conflicts = await checkScheduleConflicts({ ...slot, branchId });
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: "This time slot conflicts with other classes", conflicts });
+      }
+
       const updatedSchedule = await storage.updateSchedule(scheduleId, updates);
-      res.json(updatedSchedule);
+      const warnings = await roomCapacityWarnings(room, updatedSchedule.subjectId, teacherId);
+      res.json({ ...updatedSchedule, warnings });
     } catch (error) {
       console.error("Error updating schedule:", error);
-      res.status(500).json({ message: "Failed to update schedule" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update schedule" });
     }
   });
 
   // Delete schedule
   app.delete("/api/teacher/schedules/:id", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const scheduleId = req.params.id;
       
       // Verify schedule belongs to teacher before deleting
@@ -948,7 +1514,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get schedule changes for teacher
   app.get("/api/teacher/schedule-changes", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
       const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
       
@@ -963,49 +1529,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create schedule change (cancellation, reschedule, extra class)
   app.post("/api/teacher/schedule-changes", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       
       const changeData = insertScheduleChangeSchema.parse({
         ...req.body,
+        newRoomId: req.body?.newRoomId || null,
         teacherId: teacherId,
-        createdBy: req.user?.id || teacherId,
+        createdBy: teacherId,
       });
+
+      // A reschedule may only move the class to another room
+      if (changeData.changeType === 'extra_class' || changeData.newStartTime || changeData.newEndTime) {
+        const invalid = validateSlotTimes(changeData.newStartTime, changeData.newEndTime);
+        if (invalid) return res.status(400).json({ message: invalid });
+      }
+      const room = changeData.newRoomId ? await resolveRoom(changeData.newRoomId, getCurrentBranchId()) : null;
+      if (room) changeData.newLocation = room.name;
+      const conflicts = await checkScheduleChangeConflicts(changeData);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: "This time slot conflicts with other classes", conflicts });
+      }
       
       const change = await storage.createScheduleChange(changeData);
-      res.status(201).json(change);
+      const warnings = await roomCapacityWarnings(room, change.subjectId, teacherId);
+      res.status(201).json({ ...change, warnings });
     } catch (error) {
       console.error("Error creating schedule change:", error);
-      res.status(500).json({ message: "Failed to create schedule change" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create schedule change" });
     }
   });
 
   // Update schedule change
   app.put("/api/teacher/schedule-changes/:id", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const changeId = req.params.id;
       
       // Verify change belongs to teacher
-      const existingChanges = await storage.getScheduleChanges(teacherId);
-      const changeExists = existingChanges.find(c => c.id === changeId);
+      const existing = await storage.getScheduleChange(changeId);
       
-      if (!changeExists) {
+      if (!existing || existing.teacherId !== teacherId) {
         return res.status(403).json({ message: "You can only update your own schedule changes" });
       }
       
       const updates = insertScheduleChangeSchema.partial().parse(req.body);
+      if ('newRoomId' in updates) updates.newRoomId = updates.newRoomId || null;
+      const change = { ...existing, ...updates, id: changeId, teacherId };
+      if (change.changeType === 'extra_class' || change.newStartTime || change.newEndTime) {
+        const invalid = validateSlotTimes(change.newStartTime, change.newEndTime);
+        if (invalid) return res.status(400).json({ message: invalid });
+      }
+      const room = change.newRoomId ? await resolveRoom(change.newRoomId, getCurrentBranchId(), existing.newRoomId) : null;
+      if (room) change.newLocation = updates.newLocation = room.name;
+      const conflicts = await checkScheduleChangeConflicts(change);
+      if (conflicts.length > 0) {
+        return res.status(409).json({ message: "This time slot conflicts with other classes", conflicts });
+      }
+
       const updatedChange = await storage.updateScheduleChange(changeId, updates);
-      res.json(updatedChange);
+      const warnings = await roomCapacityWarnings(room, updatedChange.subjectId, teacherId);
+      res.json({ ...updatedChange, warnings });
     } catch (error) {
       console.error("Error updating schedule change:", error);
-      res.status(500).json({ message: "Failed to update schedule change" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update schedule change" });
     }
   });
 
   // Delete schedule change
   app.delete("/api/teacher/schedule-changes/:id", async (req: any, res) => {
     try {
-      const teacherId = req.user?.role === 'teacher' ? req.user.id : "demo-teacher-1";
+      const teacherId = req.session.user.id;
       const changeId = req.params.id;
       
       // Verify change belongs to teacher
@@ -1024,17 +1617,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rooms and resources of the active branch
+  app.get("/api/rooms", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await getRooms({ includeInactive: req.query.all === 'true' }));
+    } catch (error) {
+      console.error("Error fetching rooms:", error);
+      res.status(500).json({ message: "Failed to fetch rooms" });
+    }
+  });
+
+  app.get("/api/rooms/equipment", requireAuth, (_req, res) => {
+    res.json(ROOM_EQUIPMENT);
+  });
+
+  app.get("/api/rooms/utilisation", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view room utilisation" });
+    try {
+      res.json(await getRoomUtilisation());
+    } catch (error) {
+      console.error("Error fetching room utilisation:", error);
+      res.status(500).json({ message: "Failed to fetch room utilisation" });
+    }
+  });
+
+  app.post("/api/rooms", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage rooms" });
+    try {
+      res.status(201).json(await createRoom(req.body || {}));
+    } catch (error) {
+      console.error("Error creating room:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create room" });
+    }
+  });
+
+  app.put("/api/rooms/:id", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage rooms" });
+    try {
+      res.json(await updateRoom(req.params.id, req.body || {}));
+    } catch (error) {
+      console.error("Error updating room:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update room" });
+    }
+  });
+
+  app.post("/api/rooms/:id/active", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to manage rooms" });
+    try {
+      res.json(await setRoomActive(req.params.id, req.body?.isActive !== false));
+    } catch (error) {
+      console.error("Error updating room:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update room" });
+    }
+  });
+
+  // Every clash in the current timetable, for management to resolve
+  app.get("/api/schedule-conflicts", async (req: any, res) => {
+    try {
+      res.json(await getCurrentConflicts(todayIn(req.tenant?.timezone)));
+    } catch (error) {
+      console.error("Error fetching schedule conflicts:", error);
+      res.status(500).json({ message: "Failed to fetch schedule conflicts" });
+    }
+  });
+
   // Student Schedule Routes
   
-  // Get student's schedule and schedule changes
-  app.get("/api/student/:studentId/schedule", async (req: any, res) => {
+  // Get student's class sessions for a date range (default: the coming week)
+  app.get("/api/student/:studentId/schedule", requirePortalAccess((req) => req.params.studentId), async (req: any, res) => {
     try {
       const studentId = req.params.studentId;
-      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
-      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
-      
-      const schedule = await storage.getStudentSchedule(studentId, startDate, endDate);
-      res.json(schedule);
+      const start = (req.query.startDate as string) || todayIn(req.tenant?.timezone);
+      const end = (req.query.endDate as string) || addDays(start, 6);
+      const rangeError = validateSessionRange({ start, end });
+      if (rangeError) return res.status(400).json({ message: rangeError });
+
+      const sessions = await storage.getStudentSchedule(studentId, start, end);
+      res.json(sessions);
     } catch (error) {
       console.error("Error fetching student schedule:", error);
       res.status(500).json({ message: "Failed to fetch student schedule" });
@@ -1042,7 +1701,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get student's schedule notifications
-  app.get("/api/student/:studentId/notifications", async (req: any, res) => {
+  app.get("/api/student/:studentId/notifications", requirePortalAccess((req) => req.params.studentId), async (req: any, res) => {
     try {
       const studentId = req.params.studentId;
       const notifications = await storage.getStudentNotifications(studentId);
@@ -1054,10 +1713,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark notification as read
-  app.put("/api/student/notifications/:id/read", async (req: any, res) => {
+  app.put("/api/student/notifications/:id/read", requirePortalAccess(), async (req: any, res) => {
     try {
-      const notificationId = req.params.id;
-      await storage.markNotificationRead(notificationId);
+      // The guard can't name the student up front; someone else's notification is not found
+      const notification = await storage.getStudentNotification(req.params.id);
+      if (!notification || !(await mayViewStudent(req, notification.studentId))) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      await storage.markNotificationRead(notification.id);
       res.json({ message: "Notification marked as read" });
     } catch (error) {
       console.error("Error marking notification as read:", error);
@@ -1065,10 +1728,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Classes routes
-  app.get("/api/classes/:id/students", async (req, res) => {
+  // Teachers may only open their own class sessions
+  const teachesSession = async (req: any, sessionId: string) => {
+    const teacherId = teacherScope(req.session.user);
+    if (!teacherId) return true;
+    const [row] = await db
+      .select({ id: classSessions.id })
+      .from(classSessions)
+      .where(and(eq(classSessions.id, sessionId), eq(classSessions.teacherId, teacherId)));
+    return !!row;
+  };
+
+  // Class session routes
+  app.get("/api/class-sessions/:id/students", async (req, res) => {
     try {
-      const students = await storage.getStudentsByClass(req.params.id);
+      if (!(await teachesSession(req, req.params.id))) {
+        return res.status(403).json({ message: "You can only view your own classes" });
+      }
+      const students = await storage.getStudentsBySession(req.params.id);
       res.json(students);
     } catch (error) {
       console.error("Error fetching class students:", error);
@@ -1077,24 +1754,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Attendance routes
+  const registerLock = async (req: any, session: { sessionDate: string; endTime: string }) => {
+    const amendHours = await getAmendHours(req.session.user.tenantId);
+    return {
+      deadline: amendDeadline(session, amendHours),
+      locked: isAmendLocked(session, amendHours, req.tenant?.timezone),
+    };
+  };
+
+  // Checks shared by single and bulk marking; sends the error response and returns null when not allowed
+  const sessionToMark = async (req: any, res: any, sessionId: unknown) => {
+    const session = typeof sessionId === 'string' && sessionId ? await getSession(sessionId) : undefined;
+    if (!session) {
+      res.status(400).json({ message: "A valid class session is required" });
+      return null;
+    }
+    if (!(await teachesSession(req, session.id))) {
+      res.status(403).json({ message: "You can only take attendance for your own classes" });
+      return null;
+    }
+    if (session.status === 'cancelled') {
+      res.status(400).json({ message: "This class was cancelled" });
+      return null;
+    }
+    return session;
+  };
+
+  // Past the school's cut-off only management may change saved marks (new ones are still taken)
+  const amendLocked = async (req: any, session: { sessionDate: string; endTime: string }) =>
+    !isManagement(req) && (await registerLock(req, session)).locked;
+
+  // Mark one student (upsert: marking again updates the student's mark)
   app.post("/api/attendance", requireAuth, async (req: any, res) => {
     try {
-      const validatedData = insertAttendanceSchema.parse({
-        ...req.body,
-        markedBy: "demo-teacher-id", // For demo purposes
+      const session = await sessionToMark(req, res, req.body?.sessionId);
+      if (!session) return;
+      const { studentId, status, minutesLate, notes, reason } = req.body;
+      const result = await saveSessionAttendance(session, [{ studentId, status, minutesLate, notes }], req.session.user.id, reason, {
+        amendLocked: await amendLocked(req, session),
+      });
+      res.status(201).json(result.records[0] ?? await storage.getAttendanceRecord(session.id, studentId));
+    } catch (error) {
+      console.error("Error saving attendance:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save attendance" });
+    }
+  });
+
+  // Save the register for a whole class session: { records: [{ studentId, status, notes? }], reason? }
+  app.put("/api/class-sessions/:id/attendance", requireAuth, async (req: any, res) => {
+    try {
+      const session = await sessionToMark(req, res, req.params.id);
+      if (!session) return;
+      const result = await saveSessionAttendance(session, req.body?.records, req.session.user.id, req.body?.reason, {
+        amendLocked: await amendLocked(req, session),
       });
-      const attendance = await storage.createAttendance(validatedData);
-      res.status(201).json(attendance);
+      res.json({ ...result, records: await storage.getAttendanceBySession(session.id) });
     } catch (error) {
-      console.error("Error creating attendance:", error);
-      res.status(400).json({ message: "Failed to create attendance record" });
+      console.error("Error saving class attendance:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save attendance" });
     }
   });
 
-  app.get("/api/attendance/class/:classId/:date", async (req, res) => {
+  // Changes made to a register after it was taken, and when it locks for staff
+  app.get("/api/class-sessions/:id/attendance/history", requireAuth, async (req: any, res) => {
     try {
-      const { classId, date } = req.params;
-      const attendance = await storage.getAttendanceByClass(classId, date);
+      if (!(await teachesSession(req, req.params.id))) {
+        return res.status(403).json({ message: "You can only view your own classes" });
+      }
+      const session = await getSession(req.params.id);
+      if (!session) return res.status(404).json({ message: "Class session not found" });
+      const lock = await registerLock(req, session);
+      res.json({
+        edits: await getAttendanceHistory(session.id),
+        deadline: lock.deadline,
+        locked: lock.locked,
+        canAmend: !lock.locked || isManagement(req),
+      });
+    } catch (error) {
+      console.error("Error fetching attendance history:", error);
+      res.status(500).json({ message: "Failed to fetch attendance history" });
+    }
+  });
+
+  app.get("/api/class-sessions/:id/attendance", async (req, res) => {
+    try {
+      if (!(await teachesSession(req, req.params.id))) {
+        return res.status(403).json({ message: "You can only view your own classes" });
+      }
+      const attendance = await storage.getAttendanceBySession(req.params.id);
       res.json(attendance);
     } catch (error) {
       console.error("Error fetching class attendance:", error);
@@ -1102,7 +1849,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/attendance/student/:studentId", async (req, res) => {
+  app.get("/api/attendance/student/:studentId", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       const { startDate, endDate } = req.query;
@@ -1113,8 +1860,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       res.json(attendance);
     } catch (error) {
-      console.error("Error fetching student attendance:", error);
-      res.status(500).json({ message: "Failed to fetch student attendance" });
+      console.error("Error fetching student attendance:", error);
+      res.status(500).json({ message: "Failed to fetch student attendance" });
+    }
+  });
+
+  // Leave requests: sent from the portal, approved by a teacher of the student or management
+  app.get("/api/students/:studentId/leave-requests", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
+    try {
+      res.json(await getStudentLeaveRequests(req.params.studentId));
+    } catch (error) {
+      console.error("Error fetching leave requests:", error);
+      res.status(500).json({ message: "Failed to fetch leave requests" });
+    }
+  });
+
+  app.post("/api/students/:studentId/leave-requests", requirePortalAccess((req) => req.params.studentId), async (req: any, res) => {
+    try {
+      const request = await createLeaveRequest(req.params.studentId, req.body || {}, todayIn(req.tenant?.timezone), {
+        userId: req.session.user?.id ?? null,
+        portalTokenId: req.session.portal?.tokenId ?? null,
+      });
+      res.status(201).json(request);
+    } catch (error) {
+      console.error("Error creating leave request:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to send leave request" });
+    }
+  });
+
+  app.post("/api/students/:studentId/leave-requests/:id/cancel", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
+    try {
+      res.json(await cancelLeaveRequest(req.params.id, req.params.studentId));
+    } catch (error) {
+      console.error("Error cancelling leave request:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel leave request" });
+    }
+  });
+
+  app.get("/api/leave-requests", requireAuth, async (req: any, res) => {
+    try {
+      res.json(await getLeaveRequests({
+        status: req.query.status as string | undefined,
+        teacherId: teacherScope(req.session.user),
+      }));
+    } catch (error) {
+      console.error("Error fetching leave requests:", error);
+      res.status(500).json({ message: "Failed to fetch leave requests" });
+    }
+  });
+
+  app.post("/api/leave-requests/:id/review", requireAuth, async (req: any, res) => {
+    try {
+      const user = req.session.user;
+      const result = await reviewLeaveRequest(req.params.id, req.body?.decision, {
+        userId: user.id,
+        teacherId: teacherScope(user),
+        canAmendLocked: isManagement(req),
+        amendHours: await getAmendHours(user.tenantId),
+        timeZone: req.tenant?.timezone,
+      }, req.body?.note);
+      res.json(result);
+    } catch (error) {
+      console.error("Error reviewing leave request:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to review leave request" });
     }
   });
 
@@ -1143,7 +1951,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Old format - create simple invoice without schema validation
         const invoiceData = {
           id: crypto.randomUUID(),
-          invoiceNumber: `INV-${Date.now()}`,
+          invoiceNumber: await billingService.generateInvoiceNumber(),
           studentId: req.body.studentId,
           issueDate: new Date(),
           dueDate: new Date(),
@@ -1224,7 +2032,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           studentId: req.body.studentId,
           paymentMethod: req.body.paymentMethod,
           paymentDate: req.body.paymentDate ? new Date(req.body.paymentDate) : new Date(),
-          receivedBy: req.user?.claims?.sub || req.user?.id || 'demo-management-001',
+          receivedBy: req.session.user.id,
           notes: req.body.notes || '',
           transactionNumber: req.body.transactionNumber || '',
           invoiceId: req.body.invoiceId
@@ -1238,15 +2046,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...req.body,
           receiptNumber: cleanReceiptNumber,
           paymentDate: new Date(req.body.paymentDate),
-          receivedBy: req.user?.claims?.sub || req.user?.id || 'demo-management-001',
+          receivedBy: req.session.user.id,
         });
         
         const payment = await storage.createPayment(validatedData);
         
-        // Try to apply as advance payment to outstanding invoices
+        // Try to apply as advance payment to outstanding invoices; whatever is left
+        // over goes into the student's credit wallet
         try {
           const outstandingInvoices = await storage.getInvoicesByStudent(req.body.studentId);
           const unpaidInvoices = outstandingInvoices.filter(inv => parseFloat(inv.balanceDue) > 0);
+          const paymentAmount = parseFloat(req.body.amount);
+          let unallocated = paymentAmount;
           
           if (unpaidInvoices.length > 0) {
             // Apply payment to oldest invoice first
@@ -1254,9 +2065,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               new Date(a.issueDate).getTime() - new Date(b.issueDate).getTime()
             )[0];
             
-            const paymentAmount = parseFloat(req.body.amount);
             const invoiceBalance = parseFloat(targetInvoice.balanceDue);
             const allocationAmount = Math.min(paymentAmount, invoiceBalance);
+            unallocated -= allocationAmount;
             
             // Create payment allocation
             await storage.createPaymentAllocation({
@@ -1275,6 +2086,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
               status: newBalanceDue <= 0 ? 'paid' : 'partial',
             });
           }
+          
+          if (unallocated > 0) {
+            await billingService.createStudentCredit(req.body.studentId, unallocated, payment.id, 'overpayment', validatedData.receivedBy);
+          }
         } catch (allocationError) {
           console.error("Error allocating payment:", allocationError);
           // Payment still created successfully, allocation just failed
@@ -1290,50 +2105,244 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Assessments routes - NO AUTH REQUIRED FOR DEMO
-  app.get("/api/assessments", async (req, res) => {
+  // Refunds / payment reversals
+  app.post("/api/payments/:id/refund", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to refund payments" });
     try {
-      const assessments = await storage.getAssessments();
-      res.json(assessments);
+      const { amount, reason, refundMethod, refundDate } = req.body || {};
+      const parsedAmount = amount != null && amount !== '' ? parseFloat(amount) : undefined;
+      if (parsedAmount !== undefined && !(parsedAmount > 0)) {
+        return res.status(400).json({ message: "Refund amount must be a positive number" });
+      }
+      if (refundMethod && !['cash', 'bank_transfer', 'card', 'cheque'].includes(refundMethod)) {
+        return res.status(400).json({ message: "Invalid refund method" });
+      }
+      const refund = await billingService.refundPayment(req.params.id, {
+        amount: parsedAmount,
+        reason: typeof reason === 'string' ? reason : '',
+        refundMethod,
+        refundDate,
+        processedBy: req.session.user.id,
+        timeZone: req.tenant?.timezone,
+      });
+      res.status(201).json(refund);
     } catch (error) {
-      console.error("Error fetching assessments:", error);
-      res.status(500).json({ message: "Failed to fetch assessments" });
+      console.error("Error refunding payment:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to refund payment" });
     }
   });
 
-  // Test route to bypass all authentication issues
-  app.post("/api/assessments-test", async (req: any, res) => {
+  app.get("/api/refunds", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view refunds" });
     try {
-      console.log("Received assessment creation request:", req.body);
-      const validatedData = {
-        name: req.body.name,
-        subjectId: req.body.subjectId,
-        totalMarks: req.body.totalMarks,
-        assessmentDate: req.body.assessmentDate ? new Date(req.body.assessmentDate) : new Date(),
-        description: req.body.description || '',
-        teacherId: "demo-teacher-id", // For demo purposes
-      };
-      
-      console.log("Creating assessment with data:", validatedData);
-      const assessment = await storage.createAssessment(validatedData);
-      console.log("Assessment created successfully:", assessment);
-      res.status(201).json(assessment);
+      const refunds = await billingService.getPaymentRefunds({
+        date: req.query.date as string | undefined,
+        paymentId: req.query.paymentId as string | undefined,
+        studentId: req.query.studentId as string | undefined,
+      });
+      res.json(refunds);
     } catch (error) {
-      console.error("Error creating assessment:", error);
-      res.status(400).json({ message: "Failed to create assessment", error: (error as any).message });
+      console.error("Error fetching refunds:", error);
+      res.status(500).json({ message: "Failed to fetch refunds" });
+    }
+  });
+
+  app.get("/api/refunds/:id/credit-note", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view credit notes" });
+    try {
+      const refund = await billingService.getPaymentRefund(req.params.id);
+      if (!refund) return res.status(404).json({ message: "Refund not found" });
+
+      const pdf = generateCreditNotePdf({
+        schoolName: req.tenant?.name || 'Credit Note',
+        creditNoteNumber: refund.creditNoteNumber,
+        refundDate: refund.refundDate,
+        studentName: refund.studentName,
+        rollNumber: refund.rollNumber,
+        receiptNumber: refund.receiptNumber,
+        paymentAmount: Number(refund.paymentAmount),
+        amount: Number(refund.amount),
+        refundMethod: refund.refundMethod,
+        reason: refund.reason,
+        fromCredit: Number(refund.fromCredit || 0),
+        unwound: ((refund.unwound as any[]) || []).map((u) => ({ invoiceNumber: u.invoiceNumber, amount: Number(u.amount) })),
+      });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${refund.creditNoteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating credit note:", error);
+      res.status(500).json({ message: "Failed to generate credit note" });
+    }
+  });
+
+  // Late-fee policies, preview, exemptions and waivers
+  app.get("/api/late-fees/policies", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view late-fee policies" });
+    try {
+      res.json(await getLateFeePolicies());
+    } catch (error) {
+      console.error("Error fetching late-fee policies:", error);
+      res.status(500).json({ message: "Failed to fetch late-fee policies" });
+    }
+  });
+
+  app.post("/api/late-fees/policies", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change late-fee policies" });
+    try {
+      res.status(201).json(await createLateFeePolicy(req.body || {}, req.session.user.id));
+    } catch (error) {
+      console.error("Error creating late-fee policy:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create late-fee policy" });
+    }
+  });
+
+  app.put("/api/late-fees/policies/:id", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change late-fee policies" });
+    try {
+      res.json(await updateLateFeePolicy(req.params.id, req.body || {}));
+    } catch (error) {
+      console.error("Error updating late-fee policy:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update late-fee policy" });
+    }
+  });
+
+  app.post("/api/late-fees/policies/:id/activate", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change late-fee policies" });
+    try {
+      res.json(await setLateFeePolicyActive(req.params.id, req.body?.isActive !== false));
+    } catch (error) {
+      console.error("Error activating late-fee policy:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to activate late-fee policy" });
+    }
+  });
+
+  // Dry run: what a saved or draft policy would charge today (nothing is written)
+  app.post("/api/late-fees/preview", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to preview late fees" });
+    try {
+      const { policyId, policy: draft, asOf } = req.body || {};
+      if (!policyId) {
+        const error = validateLateFeePolicy(draft || {});
+        if (error) return res.status(400).json({ message: error });
+      }
+      const policy = policyId
+        ? (await getLateFeePolicies()).find((p: any) => p.id === policyId)
+        : draft;
+      if (!policy) return res.status(404).json({ message: "Late-fee policy not found" });
+      const date = asOf || todayIn(req.tenant?.timezone);
+      const lines = await evaluateLateFees(policy, date);
+      const total = lines.reduce((sum, l) => sum + l.charge, 0);
+      res.json({ asOf: date, lines, total: Math.round(total * 100) / 100 });
+    } catch (error) {
+      console.error("Error previewing late fees:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to preview late fees" });
+    }
+  });
+
+  // Apply the active policy now instead of waiting for the scheduled job
+  app.post("/api/late-fees/run", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to apply late fees" });
+    try {
+      res.json(await applyLateFees(todayIn(req.tenant?.timezone)));
+    } catch (error) {
+      console.error("Error applying late fees:", error);
+      res.status(500).json({ message: "Failed to apply late fees" });
+    }
+  });
+
+  app.get("/api/late-fees/exemptions", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view late-fee exemptions" });
+    try {
+      res.json(await getLateFeeExemptions());
+    } catch (error) {
+      console.error("Error fetching late-fee exemptions:", error);
+      res.status(500).json({ message: "Failed to fetch late-fee exemptions" });
+    }
+  });
+
+  app.post("/api/late-fees/exemptions", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change late-fee exemptions" });
+    try {
+      const { studentId, reason } = req.body || {};
+      if (!studentId) return res.status(400).json({ message: "studentId is required" });
+      res.status(201).json(await addLateFeeExemption(studentId, reason, req.session.user.id));
+    } catch (error) {
+      console.error("Error adding late-fee exemption:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to add late-fee exemption" });
+    }
+  });
+
+  app.delete("/api/late-fees/exemptions/:id", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change late-fee exemptions" });
+    try {
+      await removeLateFeeExemption(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing late-fee exemption:", error);
+      res.status(500).json({ message: "Failed to remove late-fee exemption" });
+    }
+  });
+
+  app.post("/api/invoices/:id/waive-late-fee", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to waive late fees" });
+    try {
+      res.json(await waiveLateFee(req.params.id, req.body?.reason, req.session.user.id, todayIn(req.tenant?.timezone)));
+    } catch (error) {
+      console.error("Error waiving late fee:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to waive late fee" });
+    }
+  });
+
+  // Background job runs (recurring billing, late fees)
+  app.get("/api/scheduled-jobs/runs", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view job runs" });
+    try {
+      const job = JOB_NAMES.includes(req.query.job) ? (req.query.job as JobName) : undefined;
+      res.json(await getJobRuns(job));
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ message: "Failed to fetch job runs" });
+    }
+  });
+
+  app.post("/api/scheduled-jobs/:job/run", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to run jobs" });
+    const job = req.params.job as JobName;
+    if (!JOB_NAMES.includes(job)) return res.status(404).json({ message: "Unknown job" });
+    try {
+      res.json(await runJob(job, todayIn(req.tenant?.timezone), req.session.user.id));
+    } catch (error) {
+      console.error("Error running job:", error);
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  // Assessments routes
+  app.get("/api/assessments", async (req, res) => {
+    try {
+      const assessments = await storage.getAssessments();
+      res.json(assessments);
+    } catch (error) {
+      console.error("Error fetching assessments:", error);
+      res.status(500).json({ message: "Failed to fetch assessments" });
     }
   });
 
   app.post("/api/assessments", async (req: any, res) => {
     try {
-      console.log("Assessment creation request - bypassing auth:", req.body);
+      const teacherId = req.session.user.id;
+      const ownSubjects = await storage.getTeacherSubjects(teacherId);
+      if (!ownSubjects.some((subject) => subject.id === req.body.subjectId)) {
+        return res.status(403).json({ message: "You can only create assessments for your own subjects" });
+      }
       const validatedData = {
         name: req.body.name,
         subjectId: req.body.subjectId,
         totalMarks: req.body.totalMarks,
         assessmentDate: req.body.assessmentDate ? new Date(req.body.assessmentDate) : new Date(),
         description: req.body.description || '',
-        teacherId: "demo-teacher-id", // For demo purposes
+        teacherId,
       };
       const assessment = await storage.createAssessment(validatedData);
       res.status(201).json(assessment);
@@ -1345,9 +2354,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/grades", requireAuth, async (req: any, res) => {
     try {
+      const teacherId = req.session.user.id;
+      const ownAssessments = await storage.getTeacherAssessments(teacherId);
+      if (!ownAssessments.some((assessment) => assessment.id === req.body.assessmentId)) {
+        return res.status(403).json({ message: "You can only grade your own assessments" });
+      }
       const validatedData = insertGradeSchema.parse({
         ...req.body,
-        enteredBy: "demo-teacher-id", // For demo purposes
+        enteredBy: teacherId,
       });
       const grade = await storage.createGrade(validatedData);
       res.status(201).json(grade);
@@ -1357,7 +2371,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/grades/student/:studentId", async (req, res) => {
+  app.get("/api/grades/student/:studentId", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const grades = await storage.getStudentGrades(req.params.studentId);
       res.json(grades);
@@ -1368,10 +2382,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cash draw requests routes
-  app.get("/api/cash-draw-requests", async (req, res) => {
+  app.get("/api/cash-draw-requests", async (req: any, res) => {
     try {
+      // Teachers see their own requests, finance reviews everyone's
+      const teacherId = teacherScope(req.session.user);
       const requests = await storage.getCashDrawRequests();
-      res.json(requests);
+      res.json(teacherId ? requests.filter((request) => request.teacherId === teacherId) : requests);
     } catch (error) {
       console.error("Error fetching cash draw requests:", error);
       res.status(500).json({ message: "Failed to fetch cash draw requests" });
@@ -1382,7 +2398,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const requestData = {
         ...req.body,
-        teacherId: "demo-teacher-id", // For demo purposes
+        teacherId: req.session.user.id,
       };
       const request = await storage.createCashDrawRequest(requestData);
       res.status(201).json(request);
@@ -1396,7 +2412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const updates = {
         ...req.body,
-        reviewedBy: "demo-finance-user", // For demo purposes
+        reviewedBy: req.session.user.id,
         reviewedAt: new Date(),
       };
       const request = await storage.updateCashDrawRequest(req.params.id, updates);
@@ -1407,6 +2423,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payout rules & monthly payout runs (management only)
+  const canManagePayouts = (req: any) => hasAccess(req.session?.user, 'management');
+
+  app.get("/api/payout-rules", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to view payout rules" });
+    try {
+      const rules = await storage.getPayoutRules(req.query.teacherId as string | undefined);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching payout rules:", error);
+      res.status(500).json({ message: "Failed to fetch payout rules" });
+    }
+  });
+
+  // Rules are versioned by effectiveFrom - a rate change adds a new rule, history is kept
+  app.post("/api/payout-rules", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to manage payout rules" });
+    try {
+      const { teacherId, isFixed, fixedPercentage, tier1Percentage, tier1Threshold, tier2Percentage, extraClassRate, effectiveFrom } = req.body || {};
+      if (!teacherId || !effectiveFrom) {
+        return res.status(400).json({ message: "teacherId and effectiveFrom are required" });
+      }
+      const pct = (v: any) => v === undefined || v === null || v === '' || (Number(v) >= 0 && Number(v) <= 100);
+      if (isFixed ? !(fixedPercentage > 0 && pct(fixedPercentage)) : !(tier1Percentage > 0 && tier1Threshold > 0 && pct(tier1Percentage) && pct(tier2Percentage))) {
+        return res.status(400).json({ message: "Invalid payout percentages" });
+      }
+      const rule = await storage.createPayoutRule({
+        teacherId, isFixed: !!isFixed, fixedPercentage, tier1Percentage, tier1Threshold, tier2Percentage, extraClassRate, effectiveFrom,
+      });
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating payout rule:", error);
+      res.status(400).json({ message: "Failed to create payout rule" });
+    }
+  });
+
+  app.get("/api/payout-runs", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to view payout runs" });
+    try {
+      res.json(await storage.getPayoutRuns());
+    } catch (error) {
+      console.error("Error fetching payout runs:", error);
+      res.status(500).json({ message: "Failed to fetch payout runs" });
+    }
+  });
+
+  app.post("/api/payout-runs", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to open payout runs" });
+    try {
+      const { month } = req.body || {};
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month || '')) {
+        return res.status(400).json({ message: "month must be in YYYY-MM format" });
+      }
+      const run = await storage.openPayoutRun(month, req.session.user.id);
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Error opening payout run:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to open payout run" });
+    }
+  });
+
+  app.get("/api/payout-runs/:id", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to view payout runs" });
+    try {
+      const run = await storage.getPayoutRun(req.params.id);
+      if (!run) return res.status(404).json({ message: "Payout run not found" });
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching payout run:", error);
+      res.status(500).json({ message: "Failed to fetch payout run" });
+    }
+  });
+
+  app.post("/api/payout-runs/:id/recalculate", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to manage payout runs" });
+    try {
+      res.json(await storage.refreshPayoutRun(req.params.id));
+    } catch (error) {
+      console.error("Error recalculating payout run:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to recalculate payout run" });
+    }
+  });
+
+  app.post("/api/payout-runs/:id/items/:itemId/adjustments", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to manage payout runs" });
+    try {
+      const amount = Number(req.body?.amount);
+      const reason = (req.body?.reason || '').trim();
+      if (!Number.isFinite(amount) || amount === 0 || !reason) {
+        return res.status(400).json({ message: "A non-zero amount and a reason are required" });
+      }
+      const run = await storage.getPayoutRun(req.params.id);
+      if (!run || !run.items.some((item: any) => item.id === req.params.itemId)) {
+        return res.status(404).json({ message: "Payout line not found in this run" });
+      }
+      if (run.status !== 'open') {
+        return res.status(409).json({ message: "Payout run is locked and cannot be adjusted" });
+      }
+      await storage.addPayoutAdjustment(req.params.id, req.params.itemId, { amount, reason }, req.session.user.id);
+      res.status(201).json(await storage.getPayoutRun(req.params.id));
+    } catch (error) {
+      console.error("Error adding payout adjustment:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to add payout adjustment" });
+    }
+  });
+
+  app.post("/api/payout-runs/:id/lock", requireAuth, async (req: any, res) => {
+    if (!canManagePayouts(req)) return res.status(403).json({ message: "Not authorized to lock payout runs" });
+    try {
+      const paymentMethod = req.body?.paymentMethod || 'cash';
+      if (!['cash', 'bank_transfer', 'card', 'cheque'].includes(paymentMethod)) {
+        return res.status(400).json({ message: "Invalid payment method" });
+      }
+      res.json(await storage.lockPayoutRun(req.params.id, req.session.user.id, todayIn(req.tenant?.timezone), paymentMethod));
+    } catch (error) {
+      console.error("Error locking payout run:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to lock payout run" });
+    }
+  });
+
+  // Payslip PDF - management, or the teacher downloading their own
+  app.get("/api/payout-runs/:id/payslips/:teacherId", requireAuth, async (req: any, res) => {
+    try {
+      const isOwnPayslip = req.session.user.id === req.params.teacherId;
+      const managesPayouts = canManagePayouts(req) && (await userPermissions(req.session.user)).includes('manage_payouts');
+      if (!isOwnPayslip && !managesPayouts) {
+        return res.status(403).json({ message: "Not authorized to view this payslip" });
+      }
+      const run = await storage.getPayoutRun(req.params.id);
+      if (!run) return res.status(404).json({ message: "Payout run not found" });
+      if (run.status !== 'locked') {
+        return res.status(400).json({ message: "Payslips are available once the payout run is locked" });
+      }
+      const item = run.items.find((i: any) => i.teacherId === req.params.teacherId);
+      if (!item) return res.status(404).json({ message: "No payout for this teacher in this run" });
+
+      const pdf = generatePayslipPdf({
+        schoolName: req.tenant?.name || 'Payslip',
+        month: run.month,
+        teacherName: item.teacherName,
+        lockedAt: run.lockedAt,
+        gross: Number(item.gross),
+        cashDraws: Number(item.cashDraws),
+        adjustments: item.adjustmentEntries.map((a: any) => ({ amount: Number(a.amount), reason: a.reason })),
+        net: Number(item.net),
+        statement: item.statement,
+      });
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="payslip-${run.month}-${item.teacherName.replace(/[^a-z0-9]+/gi, '-')}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating payslip:", error);
+      res.status(500).json({ message: "Failed to generate payslip" });
+    }
+  });
+
   // Daily close routes
   app.get("/api/daily-close/:date", async (req, res) => {
     try {
@@ -1550,30 +2722,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Attendance Management Routes
   
-  // Get all classes for a specific date (used by front desk attendance management)
-  app.get("/api/classes/all", async (req, res) => {
+  // Get every class session on a date (used by front desk attendance management)
+  app.get("/api/class-sessions", async (req: any, res) => {
     try {
-      const date = req.query.date as string;
-      const dayOfWeek = new Date(date).getDay(); // 0 = Sunday, 1 = Monday, etc.
-      
-      // Get all classes for the specified day
-      const classes = await storage.getClassesForDay(dayOfWeek);
-      res.json(classes);
+      const date = (req.query.date as string) || todayIn(req.tenant?.timezone);
+      const rangeError = validateSessionRange({ start: date, end: date });
+      if (rangeError) return res.status(400).json({ message: rangeError });
+
+      const sessions = await storage.getSessionsForDate(date);
+      res.json(sessions);
     } catch (error) {
       console.error("Error fetching all classes:", error);
       res.status(500).json({ message: "Failed to fetch classes" });
     }
   });
 
-  // Get attendance records for a specific class and date
+  // Get attendance records for a class session
   app.get("/api/attendance", async (req, res) => {
     try {
-      const { classId, date } = req.query;
-      if (!classId || !date) {
-        return res.status(400).json({ message: "Class ID and date are required" });
+      const { sessionId } = req.query;
+      if (!sessionId) {
+        return res.status(400).json({ message: "Session ID is required" });
       }
       
-      const attendance = await storage.getAttendanceByClassAndDate(classId as string, date as string);
+      const attendance = await storage.getAttendanceBySessionWithStudents(sessionId as string);
       res.json(attendance);
     } catch (error) {
       console.error("Error fetching attendance:", error);
@@ -1581,47 +2753,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create or update attendance record
-  app.post("/api/attendance", async (req: any, res) => {
+  // ---- Portal links (signed, expiring, revocable; see portalTokens.ts) ----
+  const portalBaseUrl = (req: any) => process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+
+  app.get("/api/portal-links", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view portal links" });
     try {
-      const { classId, studentId, attendanceDate, status } = req.body;
-      
-      if (!classId || !studentId || !attendanceDate || !status) {
-        return res.status(400).json({ message: "Missing required fields" });
+      res.json(await listPortalTokens(portalBaseUrl(req)));
+    } catch (error) {
+      console.error("Error fetching portal links:", error);
+      res.status(500).json({ message: "Failed to fetch portal links" });
+    }
+  });
+
+  // Issue (or regenerate) the link for a student or for all of a parent's children
+  app.post("/api/portal-links", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to create portal links" });
+    try {
+      const { studentId, parentId, expiresInDays } = req.body || {};
+      const link = await issuePortalToken(
+        { studentId: studentId || undefined, parentId: parentId || undefined },
+        { days: portalLinkDays(expiresInDays), createdBy: req.session.user.id, baseUrl: portalBaseUrl(req) },
+      );
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'portal_link_issued',
+        resource: 'portal_link',
+        resourceId: link.id,
+        details: { studentId: link.studentId, parentId: link.parentId, expiresAt: link.expiresAt },
+        ...requestOrigin(req),
+      });
+      res.status(201).json(link);
+    } catch (error) {
+      console.error("Error creating portal link:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create portal link" });
+    }
+  });
+
+  app.post("/api/portal-links/:id/revoke", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to revoke portal links" });
+    try {
+      if (!(await revokePortalToken(req.params.id, req.session.user.id))) {
+        return res.status(404).json({ message: "Portal link not found" });
       }
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'portal_link_revoked',
+        resource: 'portal_link',
+        resourceId: req.params.id,
+        ...requestOrigin(req),
+      });
+      res.json({ message: "Portal link revoked" });
+    } catch (error) {
+      console.error("Error revoking portal link:", error);
+      res.status(500).json({ message: "Failed to revoke portal link" });
+    }
+  });
 
-      // Check if attendance record already exists
-      const existingRecord = await storage.getAttendanceRecord(classId, studentId, attendanceDate);
-      
-      let attendanceRecord;
-      if (existingRecord) {
-        // Update existing record
-        attendanceRecord = await storage.updateAttendance(existingRecord.id, {
-          status,
-          markedBy: 'demo-user' // In real app, this would be req.user.id
-        });
-      } else {
-        // Create new record
-        attendanceRecord = await storage.createAttendance({
-          classId,
-          studentId,
-          date: new Date(attendanceDate),
-          status,
-          markedBy: 'demo-user' // In real app, this would be req.user.id
-        });
+  app.get("/api/portal-links/:id/access-log", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view portal access" });
+    try {
+      res.json(await portalAccessLog(req.params.id));
+    } catch (error) {
+      console.error("Error fetching portal access log:", error);
+      res.status(500).json({ message: "Failed to fetch portal access log" });
+    }
+  });
+
+  // ---- Parent accounts for a student's parent emails (see parentAccounts.ts) ----
+  app.get("/api/students/:id/parent-accounts", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to view parent accounts" });
+    try {
+      res.json(await getStudentParentAccounts(req.params.id));
+    } catch (error) {
+      console.error("Error fetching parent accounts:", error);
+      res.status(404).json({ message: error instanceof Error ? error.message : "Failed to fetch parent accounts" });
+    }
+  });
+
+  // Create (or link the existing) parent account for a slot and email the invitation
+  app.post("/api/students/:id/parent-accounts/:slot", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to invite parents" });
+    if (!isParentSlot(req.params.slot)) return res.status(400).json({ message: "Unknown parent slot" });
+    try {
+      const result = await inviteParent(req.params.id, req.params.slot, { baseUrl: portalBaseUrl(req) });
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: result.tempPassword ? 'parent_account_created' : 'parent_account_linked',
+        resource: 'student',
+        resourceId: req.params.id,
+        details: { slot: req.params.slot, parentId: result.account.id, invitationSent: result.invitationSent },
+        ...requestOrigin(req),
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error inviting parent:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to invite parent" });
+    }
+  });
+
+  app.delete("/api/students/:id/parent-accounts/:slot", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to change parent accounts" });
+    if (!isParentSlot(req.params.slot)) return res.status(400).json({ message: "Unknown parent slot" });
+    try {
+      await unlinkParent(req.params.id, req.params.slot);
+      await recordAuditEvent({
+        tenantId: req.session.user.tenantId,
+        userId: req.session.user.id,
+        action: 'parent_account_unlinked',
+        resource: 'student',
+        resourceId: req.params.id,
+        details: { slot: req.params.slot },
+        ...requestOrigin(req),
+      });
+      res.json({ message: "Parent account unlinked" });
+    } catch (error) {
+      console.error("Error unlinking parent:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to unlink parent" });
+    }
+  });
+
+  // Opening a portal link (public): verifies the token and remembers it in the session
+  app.post("/api/portal/session", async (req, res) => {
+    try {
+      const access = await openPortalSession(req, String(req.body?.token ?? ''), requestOrigin(req));
+      if (!access) {
+        return res.status(401).json({ message: "This portal link has expired or been revoked. Ask the school for a new one." });
       }
-      
-      res.status(201).json(attendanceRecord);
+      res.json(access);
     } catch (error) {
-      console.error("Error creating/updating attendance:", error);
-      res.status(400).json({ message: "Failed to create/update attendance" });
+      console.error("Error opening portal link:", error);
+      res.status(500).json({ message: "Failed to open portal link" });
     }
   });
 
   // Student Portal API Routes - For parent access to view their child's information
+  // (signed-in staff, or a visitor holding a portal link that covers the student)
   
   // Get comprehensive student information for parent portal
-  app.get("/api/students/:studentId", async (req, res) => {
+  app.get("/api/students/:studentId", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       const student = await storage.getStudent(studentId);
@@ -1638,7 +2911,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get student grades and assessments
-  app.get("/api/students/:studentId/grades", async (req, res) => {
+  app.get("/api/students/:studentId/grades", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       
@@ -1668,7 +2941,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get student attendance records
-  app.get("/api/students/:studentId/attendance", async (req, res) => {
+  app.get("/api/students/:studentId/attendance", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       
@@ -1681,11 +2954,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           notes: attendance.notes,
           markedAt: attendance.markedAt,
           subjectName: subjects.name,
-          className: classes.name
+          classTime: classSessions.startTime
         })
         .from(attendance)
-        .innerJoin(classes, eq(attendance.classId, classes.id))
-        .innerJoin(subjects, eq(classes.subjectId, subjects.id))
+        .innerJoin(classSessions, eq(attendance.sessionId, classSessions.id))
+        .innerJoin(subjects, eq(classSessions.subjectId, subjects.id))
         .where(eq(attendance.studentId, studentId))
         .orderBy(desc(attendance.attendanceDate))
         .limit(50);
@@ -1698,7 +2971,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all enrolled subjects for a student with teacher info
-  app.get("/api/students/:studentId/enrolled-subjects", async (req, res) => {
+  app.get("/api/students/:studentId/enrolled-subjects", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       
@@ -1731,7 +3004,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get attendance for a specific subject
-  app.get("/api/students/:studentId/attendance/:subjectId", async (req, res) => {
+  app.get("/api/students/:studentId/attendance/:subjectId", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId, subjectId } = req.params;
       
@@ -1743,12 +3016,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           notes: attendance.notes,
           markedAt: attendance.markedAt,
           subjectName: subjects.name,
-          className: classes.name,
-          classTime: classes.startTime
+          classTime: classSessions.startTime
         })
         .from(attendance)
-        .innerJoin(classes, eq(attendance.classId, classes.id))
-        .innerJoin(subjects, eq(classes.subjectId, subjects.id))
+        .innerJoin(classSessions, eq(attendance.sessionId, classSessions.id))
+        .innerJoin(subjects, eq(classSessions.subjectId, subjects.id))
         .where(and(
           eq(attendance.studentId, studentId),
           eq(subjects.id, subjectId)
@@ -1764,7 +3036,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get grades for a specific subject
-  app.get("/api/students/:studentId/grades/:subjectId", async (req, res) => {
+  app.get("/api/students/:studentId/grades/:subjectId", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId, subjectId } = req.params;
       
@@ -1796,7 +3068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get student invoices and payment information
-  app.get("/api/students/:studentId/invoices", async (req, res) => {
+  app.get("/api/students/:studentId/invoices", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       
@@ -1809,14 +3081,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Invoice / receipt numbering formats (per tenant)
+  app.get("/api/numbering-formats", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to view numbering formats" });
+    try {
+      res.json(await getNumberFormats());
+    } catch (error) {
+      console.error("Error fetching numbering formats:", error);
+      res.status(500).json({ message: "Failed to fetch numbering formats" });
+    }
+  });
+
+  app.put("/api/numbering-formats/:documentType", requireAuth, async (req: any, res) => {
+    if (!isManagement(req)) return res.status(403).json({ message: "Not authorized to change numbering formats" });
+    try {
+      const documentType = req.params.documentType as DocumentType;
+      if (!DOCUMENT_TYPES.includes(documentType)) {
+        return res.status(400).json({ message: "Unknown document type" });
+      }
+      const { template, padding, perBranch } = req.body || {};
+      const format = await saveNumberFormat(documentType, {
+        template: String(template || ''),
+        padding: Number(padding ?? DEFAULT_NUMBER_FORMATS[documentType].padding),
+        perBranch: !!perBranch,
+      });
+      res.json(format);
+    } catch (error) {
+      console.error("Error saving numbering format:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save numbering format" });
+    }
+  });
+
   // Enhanced Billing System Routes
   
   // Generate monthly invoices
-  app.post("/api/billing/generate-monthly", async (req: any, res) => {
-    try {
-      const { targetDate } = req.body;
-      const invoices = await billingService.generateMonthlyInvoices(targetDate);
-      res.json({ success: true, invoicesGenerated: invoices.length, invoices });
+  app.post("/api/billing/generate-monthly", requireAuth, async (req: any, res) => {
+    if (!isFinanceStaff(req)) return res.status(403).json({ message: "Not authorized to generate invoices" });
+    try {
+      const { targetDate, dryRun } = req.body;
+      const invoices = await billingService.generateMonthlyInvoices({
+        targetDate,
+        dryRun: !!dryRun,
+        createdBy: req.session.user.id,
+        timezone: req.tenant?.timezone,
+      });
+      const total = invoices.reduce((sum, invoice) => sum + Number(invoice.total), 0);
+      res.json({ success: true, dryRun: !!dryRun, invoicesGenerated: invoices.length, total, invoices });
     } catch (error) {
       console.error("Error generating monthly invoices:", error);
       res.status(500).json({ message: "Failed to generate monthly invoices" });
@@ -1830,7 +3140,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const paymentData = {
         paymentMethod,
-        receivedBy: req.user?.claims?.sub || req.user?.id || 'demo-management-001',
+        receivedBy: req.session.user.id,
         notes,
         transactionNumber: paymentMethod === 'bank_transfer' ? transactionNumber : null
       };
@@ -1850,7 +3160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const paymentData = {
         paymentMethod,
-        receivedBy: req.user?.claims?.sub || req.user?.id || 'demo-management-001',
+        receivedBy: req.session.user.id,
         notes,
         transactionNumber: paymentMethod === 'bank_transfer' ? transactionNumber : null
       };
@@ -1888,7 +3198,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type,
         amount: parseFloat(amount),
         reason,
-        appliedBy: 'demo-user', // req.user.claims.sub,
+        appliedBy: req.session.user.id,
         notes
       };
       
@@ -1911,6 +3221,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Credit wallet history with running balance
+  app.get("/api/billing/student-credit/:studentId/movements", async (req, res) => {
+    try {
+      const movements = await billingService.getStudentCreditMovements(req.params.studentId);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching student credit movements:", error);
+      res.status(500).json({ message: "Failed to fetch student credit movements" });
+    }
+  });
+
+  // Apply wallet credit to an outstanding invoice
+  app.post("/api/billing/invoices/:invoiceId/apply-credit", requireAuth, async (req: any, res) => {
+    try {
+      const amount = req.body?.amount != null ? parseFloat(req.body.amount) : undefined;
+      if (amount !== undefined && !(amount > 0)) {
+        return res.status(400).json({ message: "Amount must be a positive number" });
+      }
+      const result = await billingService.applyCreditToInvoice(req.params.invoiceId, amount, req.session.user.id);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Error applying student credit:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to apply student credit" });
+    }
+  });
+
+  // Refund wallet credit to the student
+  app.post("/api/billing/student-credit/:studentId/refund", requireAuth, async (req: any, res) => {
+    try {
+      if (!isFinanceStaff(req)) {
+        return res.status(403).json({ message: "Not authorized to refund student credit" });
+      }
+      const amount = parseFloat(req.body?.amount);
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+      if (!(amount > 0) || !reason) {
+        return res.status(400).json({ message: "A positive amount and a reason are required" });
+      }
+      const refunds = await billingService.refundStudentCredit(req.params.studentId, amount, req.session.user.id, reason, req.tenant?.timezone);
+      const creditBalance = await billingService.getStudentCredit(req.params.studentId);
+      res.json({ success: true, refunds, creditBalance });
+    } catch (error) {
+      console.error("Error refunding student credit:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to refund student credit" });
+    }
+  });
+
   // Get student ledger
   app.get("/api/billing/student-ledger/:studentId", async (req, res) => {
     try {
@@ -1954,10 +3310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/announcements", async (req: any, res) => {
     try {
       // For teachers, only show their own announcements
-      let teacherId = req.query.teacherId as string;
-      if (req.user?.role === 'teacher') {
-        teacherId = req.user.id; // Override to ensure data isolation
-      }
+      const teacherId = teacherScope(req.session.user) ?? (req.query.teacherId as string);
       const announcements = await storage.getAnnouncements(teacherId);
       res.json(announcements);
     } catch (error) {
@@ -1980,7 +3333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         subjectId: req.body.subjectId || null,
         classId: req.body.classId || null,
         dueDate: req.body.dueDate || null,
-        createdBy: req.user?.id || 'demo-user',
+        createdBy: req.session.user.id,
         isActive: true,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -2004,10 +3357,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Teachers may only change their own announcements
+  const ownsAnnouncement = async (req: any, announcementId: string) => {
+    const teacherId = teacherScope(req.session.user);
+    if (!teacherId) return true;
+    const [row] = await db
+      .select({ id: announcements.id })
+      .from(announcements)
+      .where(and(eq(announcements.id, announcementId), eq(announcements.createdBy, teacherId)));
+    return !!row;
+  };
+
   // Update announcement
   app.put("/api/announcements/:id", async (req: any, res) => {
     try {
       const { id } = req.params;
+      if (!(await ownsAnnouncement(req, id))) {
+        return res.status(403).json({ message: "You can only update your own announcements" });
+      }
       const updates = req.body;
       
       const updatedAnnouncement = await storage.updateAnnouncement(id, updates);
@@ -2022,6 +3389,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/announcements/:id", async (req: any, res) => {
     try {
       const { id } = req.params;
+      if (!(await ownsAnnouncement(req, id))) {
+        return res.status(403).json({ message: "You can only delete your own announcements" });
+      }
       await storage.deleteAnnouncement(id);
       res.json({ success: true, message: "Announcement deleted successfully" });
     } catch (error) {
@@ -2039,6 +3409,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!studentIds || !Array.isArray(studentIds)) {
         return res.status(400).json({ message: "Student IDs array is required" });
       }
+      if (!(await ownsAnnouncement(req, id))) {
+        return res.status(403).json({ message: "You can only change your own announcements" });
+      }
       
       await storage.addAnnouncementRecipients(id, studentIds);
       res.json({ success: true, message: "Recipients added successfully" });
@@ -2049,7 +3422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get announcements for a specific student
-  app.get("/api/students/:studentId/announcements", async (req, res) => {
+  app.get("/api/students/:studentId/announcements", requirePortalAccess((req) => req.params.studentId), async (req, res) => {
     try {
       const { studentId } = req.params;
       const announcements = await storage.getStudentAnnouncements(studentId);
@@ -2061,7 +3434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark announcement as read
-  app.post("/api/announcements/:announcementId/read", async (req: any, res) => {
+  app.post("/api/announcements/:announcementId/read", requirePortalAccess((req) => req.body?.studentId), async (req: any, res) => {
     try {
       const { announcementId } = req.params;
       const { studentId } = req.body;
@@ -2102,6 +3475,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every route needs an entry in the permission matrix; this refuses to start otherwise
+  applyRoutePolicies(app);
+  applyRoutePolicies(tenantRegistrationRouter, '/api/tenants');
+  applyRoutePolicies(superAdminRoutes, '/api/super-admin');
+  applyRoutePolicies(tenantAnalyticsRoutes, '/api/analytics');
+  applyRoutePolicies(billingRoutes, '/api/billing');
+  applyRoutePolicies(notificationRoutes, '/api/notifications');
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,258 @@
+/**
+ * Timetable conflict checks.
+ *
+ * Two classes clash when their times overlap on the same day and they share a teacher,
+ * a room (the same registered room, or the same free-text location within one branch) or
+ * enrolled students (students of different subjects taught at once). Weekly
+ * schedules are checked against the other schedules on that weekday; a reschedule or
+ * extra class is checked against the sessions actually running on its date (timetable.ts).
+ */
+import { eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import { classSchedules, enrollments, scheduleChanges, subjects, users } from "@shared/schema";
+import { addDays, expandSessions, type DateRange, type TimetableChange } from "./timetable";
+
+export type ConflictType = 'teacher' | 'room' | 'student';
+
+/** A class occupying a time slot: a weekly schedule (dayOfWeek) or a dated session. */
+export interface Slot {
+  scheduleId: string | null;
+  scheduleChangeId: string | null;
+  branchId: string | null;
+  teacherId: string;
+  subjectId: string;
+  startTime: string;
+  endTime: string;
+  roomId: string | null;
+  location: string | null;
+  dayOfWeek?: string;
+  sessionDate?: string;
+  subject?: string;
+  teacherName?: string;
+}
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  message: string;
+  with: Slot;
+  studentIds?: string[];
+}
+
+/** subjectId -> ids of the students actively enrolled in it */
+export type EnrollmentMap = Map<string, Set<string>>;
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Returns an error message, or null when the times make a usable slot. */
+export function validateSlotTimes(startTime: unknown, endTime: unknown): string | null {
+  if (typeof startTime !== 'string' || !TIME_RE.test(startTime)) return 'Start time must be in HH:MM format';
+  if (typeof endTime !== 'string' || !TIME_RE.test(endTime)) return 'End time must be in HH:MM format';
+  if (endTime <= startTime) return 'End time must be after the start time';
+  return null;
+}
+
+/** Overlap of [start, end) slots; back-to-back classes do not clash. */
+export const timesOverlap = (a: Pick<Slot, 'startTime' | 'endTime'>, b: Pick<Slot, 'startTime' | 'endTime'>) =>
+  a.startTime < b.endTime && b.startTime < a.endTime;
+
+const placeOf = (slot: Slot) => slot.location?.trim().toLowerCase() || null;
+
+// Registered rooms compare by id; otherwise the location text stands for the room
+function sameRoom(a: Slot, b: Slot): boolean {
+  if (a.roomId && b.roomId) return a.roomId === b.roomId;
+  const place = placeOf(a);
+  return !!place && place === placeOf(b) && (a.branchId ?? null) === (b.branchId ?? null);
+}
+
+const sameSlot = (a: Slot, b: Slot) =>
+  a.scheduleId === b.scheduleId && a.scheduleChangeId === b.scheduleChangeId && a.sessionDate === b.sessionDate;
+
+const describe = (slot: Slot) =>
+  `${slot.subject || 'another class'} (${slot.startTime}-${slot.endTime}${slot.location ? `, ${slot.location}` : ''})`;
+
+function sharedStudents(a: Slot, b: Slot, enrolled: EnrollmentMap): string[] {
+  // Parallel sections of one subject are normal; each student sits in their teacher's
+  if (a.subjectId === b.subjectId) return [];
+  const theirs = enrolled.get(b.subjectId);
+  if (!theirs) return [];
+  return Array.from(enrolled.get(a.subjectId) ?? []).filter((id) => theirs.has(id));
+}
+
+/** Every way `slot` clashes with the other slots (assumed to fall on the same day). */
+export function findConflicts(slot: Slot, others: Slot[], enrolled: EnrollmentMap): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  for (const other of others) {
+    if (sameSlot(slot, other) || !timesOverlap(slot, other)) continue;
+    if (other.teacherId === slot.teacherId) {
+      conflicts.push({ type: 'teacher', message: `The teacher already has ${describe(other)}`, with: other });
+    }
+    if (sameRoom(slot, other)) {
+      conflicts.push({ type: 'room', message: `${other.location} is already booked for ${describe(other)}`, with: other });
+    }
+    const studentIds = sharedStudents(slot, other, enrolled);
+    if (studentIds.length > 0) {
+      conflicts.push({
+        type: 'student',
+        message: `${studentIds.length} enrolled student${studentIds.length === 1 ? '' : 's'} also take${studentIds.length === 1 ? 's' : ''} ${describe(other)}`,
+        with: other,
+        studentIds,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/** Each clashing pair among the slots once, as conflicts of the first slot with the second. */
+export function findAllConflicts(slots: Slot[], enrolled: EnrollmentMap): Array<ScheduleConflict & { slot: Slot }> {
+  const found: Array<ScheduleConflict & { slot: Slot }> = [];
+  slots.forEach((slot, i) => {
+    for (const conflict of findConflicts(slot, slots.slice(i + 1), enrolled)) found.push({ ...conflict, slot });
+  });
+  return found;
+}
+
+async function loadEnrollments(): Promise<EnrollmentMap> {
+  const rows = await db
+    .select({ subjectId: enrollments.subjectId, studentId: enrollments.studentId })
+    .from(enrollments)
+    .where(eq(enrollments.isActive, true));
+  const map: EnrollmentMap = new Map();
+  for (const row of rows) {
+    if (!row.subjectId) continue;
+    if (!map.has(row.subjectId)) map.set(row.subjectId, new Set());
+    map.get(row.subjectId)!.add(row.studentId);
+  }
+  return map;
+}
+
+async function labelSlots<T extends Slot>(slots: T[]): Promise<T[]> {
+  const subjectIds = Array.from(new Set(slots.map((s) => s.subjectId)));
+  const teacherIds = Array.from(new Set(slots.map((s) => s.teacherId)));
+  if (slots.length === 0) return slots;
+  const subjectRows = await db.select({ id: subjects.id, name: subjects.name }).from(subjects).where(inArray(subjects.id, subjectIds));
+  const teacherRows = await db
+    .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(inArray(users.id, teacherIds));
+  const subjectName = new Map(subjectRows.map((s) => [s.id, s.name]));
+  const teacherName = new Map(teacherRows.map((t) => [t.id, `${t.firstName || ''} ${t.lastName || ''}`.trim()]));
+  return slots.map((s) => ({ ...s, subject: subjectName.get(s.subjectId), teacherName: teacherName.get(s.teacherId) }));
+}
+
+const activeSchedules = () => db.select().from(classSchedules).where(eq(classSchedules.isActive, true));
+
+const weeklySlot = (s: typeof classSchedules.$inferSelect): Slot => ({
+  scheduleId: s.id,
+  scheduleChangeId: null,
+  branchId: s.branchId ?? null,
+  teacherId: s.teacherId,
+  subjectId: s.subjectId,
+  startTime: s.startTime,
+  endTime: s.endTime,
+  roomId: s.roomId ?? null,
+  location: s.location ?? null,
+  dayOfWeek: s.dayOfWeek,
+});
+
+/** Clashes of a new or edited weekly schedule (pass its id when editing). */
+export async function checkScheduleConflicts(candidate: {
+  id?: string;
+  branchId: string | null;
+  teacherId: string;
+  subjectId: string;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string;
+  roomId?: string | null;
+  location?: string | null;
+}): Promise<ScheduleConflict[]> {
+  const sameDay = (await activeSchedules())
+    .filter((s) => s.dayOfWeek === candidate.dayOfWeek && s.id !== candidate.id)
+    .map(weeklySlot);
+  const slot: Slot = {
+    scheduleId: candidate.id ?? null,
+    scheduleChangeId: null,
+    branchId: candidate.branchId,
+    teacherId: candidate.teacherId,
+    subjectId: candidate.subjectId,
+    startTime: candidate.startTime,
+    endTime: candidate.endTime,
+    roomId: candidate.roomId ?? null,
+    location: candidate.location ?? null,
+    dayOfWeek: candidate.dayOfWeek,
+  };
+  return findConflicts(slot, await labelSlots(sameDay), await loadEnrollments());
+}
+
+const PENDING_CHANGE_ID = 'pending-change';
+
+/**
+ * Clashes of a new or edited reschedule / extra class with the sessions running on its
+ * date. Cancellations free a slot and never clash.
+ */
+export async function checkScheduleChangeConflicts(
+  candidate: Pick<TimetableChange, 'teacherId' | 'subjectId' | 'changeType' | 'affectedDate'>
+    & Partial<Omit<TimetableChange, 'teacherId' | 'subjectId' | 'changeType' | 'affectedDate'>>,
+): Promise<ScheduleConflict[]> {
+  if (candidate.changeType === 'cancellation') return [];
+  const day: DateRange = { start: candidate.affectedDate, end: candidate.affectedDate };
+  const changeId = candidate.id ?? PENDING_CHANGE_ID;
+  const change: TimetableChange = {
+    id: changeId,
+    scheduleId: candidate.scheduleId ?? null,
+    teacherId: candidate.teacherId,
+    subjectId: candidate.subjectId,
+    changeType: candidate.changeType,
+    affectedDate: candidate.affectedDate,
+    originalStartTime: candidate.originalStartTime ?? null,
+    newStartTime: candidate.newStartTime ?? null,
+    newEndTime: candidate.newEndTime ?? null,
+    newRoomId: candidate.newRoomId ?? null,
+    newLocation: candidate.newLocation ?? null,
+  };
+  const otherChanges = await db
+    .select()
+    .from(scheduleChanges)
+    .where(eq(scheduleChanges.affectedDate, candidate.affectedDate));
+  const changes = [...otherChanges.filter((c) => c.id !== changeId), change];
+  const sessions = expandSessions(await activeSchedules(), changes, day)
+    .filter((s) => s.status === 'scheduled');
+
+  const slot = sessions.find((s) => s.scheduleChangeId === changeId);
+  if (!slot) return [];
+  const others = sessions.filter((s) => s !== slot);
+  return findConflicts(slot, await labelSlots(others), await loadEnrollments());
+}
+
+/**
+ * Everything clashing in the school right now: weekly schedules against each other, and
+ * for the coming days the clashes that reschedules and extra classes introduce.
+ */
+export async function getCurrentConflicts(today: string, days = 14) {
+  const schedules = await activeSchedules();
+  const enrolled = await loadEnrollments();
+
+  const weekly = [];
+  for (const weekday of Array.from(new Set(schedules.map((s) => s.dayOfWeek)))) {
+    const slots = await labelSlots(schedules.filter((s) => s.dayOfWeek === weekday).map(weeklySlot));
+    weekly.push(...findAllConflicts(slots, enrolled));
+  }
+
+  const range: DateRange = { start: today, end: addDays(today, days - 1) };
+  const changes = await db
+    .select()
+    .from(scheduleChanges)
+    .where(inArray(scheduleChanges.changeType, ['reschedule', 'extra_class', 'cancellation']));
+  const upcoming = [];
+  for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+    if (!changes.some((c) => c.affectedDate === date)) continue;
+    const sessions = expandSessions(schedules, changes, { start: date, end: date })
+      .filter((s) => s.status === 'scheduled');
+    const slots = await labelSlots(sessions);
+    // Weekly clashes are already listed; only report those a change is part of
+    upcoming.push(...findAllConflicts(slots, enrolled)
+      .filter((c) => c.slot.scheduleChangeId || c.with.scheduleChangeId));
+  }
+
+  return { weekly, upcoming, range };
+}
@@ -0,0 +1,149 @@
+/**
+ * In-process job scheduler.
+ *
+ * Jobs run on a fixed tick against every active tenant, each inside runWithTenant so
+ * RLS and the tenant_id defaults apply exactly as they do for requests. Jobs must be
+ * idempotent: a tick can repeat after a restart or overlap a manual run. Each job is
+ * given the tenant's local date, so "due today" follows the school's clock.
+ */
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { db, poolDb, runWithTenant } from "./db";
+import { scheduledJobRuns, tenants, users, type ScheduledJobRun } from "@shared/schema";
+import { billingService } from "./billing";
+import { applyLateFees, todayIn } from "./lateFees";
+import { runStatus, type JobCounts } from "./billingSchedules";
+import { applyDueSubjectFees } from "./subjectCatalogue";
+
+const TICK_MS = 60 * 60 * 1000; // hourly; jobs work per calendar day, so the first tick after midnight does the work
+const STARTUP_DELAY_MS = 30 * 1000;
+
+export type JobName = 'subject_fees' | 'recurring_billing' | 'late_fees';
+// Fee changes are promoted first so the day's billing sees the new fees
+export const JOB_NAMES: JobName[] = ['subject_fees', 'recurring_billing', 'late_fees'];
+
+interface JobOutcome extends JobCounts {
+  amount: number;
+  errors: string[];
+}
+
+/** The account scheduler-generated documents are attributed to: the tenant's first management user. */
+async function systemActor(): Promise<string> {
+  const [actor] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, 'management'), eq(users.isActive, true)))
+    .orderBy(asc(users.createdAt))
+    .limit(1);
+  if (!actor) throw new Error('No active management user to attribute scheduled invoices to');
+  return actor.id;
+}
+
+const JOBS: Record<JobName, (asOf: string, actorId?: string) => Promise<JobOutcome>> = {
+  subject_fees: async (asOf) => {
+    const result = await applyDueSubjectFees(asOf);
+    return { processed: result.evaluated, generated: result.updated, skipped: 0, failed: 0, amount: 0, errors: [] };
+  },
+  recurring_billing: async (asOf, actorId) => {
+    const result = await billingService.generateScheduledInvoices(asOf, actorId ?? await systemActor());
+    const { invoices: _invoices, asOf: _asOf, ...outcome } = result;
+    return outcome;
+  },
+  late_fees: async (asOf) => {
+    const result = await applyLateFees(asOf);
+    return { processed: result.evaluated, generated: result.charged, skipped: 0, failed: 0, amount: result.total, errors: [] };
+  },
+};
+
+/**
+ * Run one job for the current tenant and record it. Must be called inside the tenant's
+ * context (runWithTenant or a request). Scheduler ticks that changed nothing are not
+ * recorded - the job runs hourly - so the log only shows runs that billed, charged or failed.
+ */
+export async function runJob(job: JobName, asOf: string, triggeredBy?: string): Promise<ScheduledJobRun | undefined> {
+  const startedAt = new Date();
+  let outcome: JobOutcome;
+  try {
+    outcome = await JOBS[job](asOf, triggeredBy);
+  } catch (error) {
+    outcome = {
+      processed: 0, generated: 0, skipped: 0, failed: 1, amount: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+
+  if (!triggeredBy && outcome.generated === 0 && outcome.failed === 0) return undefined;
+
+  const [run] = await (db as any)
+    .insert(scheduledJobRuns)
+    .values({
+      job,
+      asOf,
+      trigger: triggeredBy ? 'manual' : 'scheduler',
+      status: runStatus(outcome),
+      processed: outcome.processed,
+      generated: outcome.generated,
+      skipped: outcome.skipped,
+      failed: outcome.failed,
+      amount: outcome.amount.toFixed(2),
+      errors: outcome.errors,
+      triggeredBy: triggeredBy ?? null,
+      startedAt,
+    })
+    .returning();
+  return run;
+}
+
+export async function getJobRuns(job?: JobName, limit = 100): Promise<any[]> {
+  const rows = await db
+    .select({
+      run: scheduledJobRuns,
+      triggeredByName: sql<string | null>`${users.firstName} || ' ' || ${users.lastName}`,
+    })
+    .from(scheduledJobRuns)
+    .leftJoin(users, eq(scheduledJobRuns.triggeredBy, users.id))
+    .where(job ? eq(scheduledJobRuns.job, job) : undefined)
+    .orderBy(desc(scheduledJobRuns.startedAt))
+    .limit(limit);
+  return rows.map(r => ({ ...r.run, triggeredByName: r.triggeredByName }));
+}
+
+async function runForAllTenants(): Promise<void> {
+  const active = await poolDb
+    .select({ id: tenants.id, name: tenants.name, timezone: tenants.timezone })
+    .from(tenants)
+    .where(eq(tenants.isActive, true));
+
+  for (const tenant of active) {
+    const asOf = todayIn(tenant.timezone || 'Asia/Karachi');
+    for (const job of JOB_NAMES) {
+      try {
+        const run = await runWithTenant(tenant.id, null, () => runJob(job, asOf));
+        if (run) {
+          console.log(`[scheduler] ${job} ${tenant.name} ${asOf}: ${run.generated} done, ${run.failed} failed, Rs. ${run.amount}`);
+        }
+      } catch (error) {
+        console.error(`[scheduler] ${job} failed for tenant ${tenant.id}:`, error);
+      }
+    }
+  }
+}
+
+export function startScheduler(): void {
+  if (process.env.DISABLE_SCHEDULER === 'true') return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return; // previous tick still going
+    running = true;
+    try {
+      await runForAllTenants();
+    } catch (error) {
+      console.error('[scheduler] tick failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(tick, STARTUP_DELAY_MS).unref();
+  setInterval(tick, TICK_MS).unref();
+}
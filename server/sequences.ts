@@ -0,0 +1,184 @@
+/**
+ * Document numbering sequences (invoices, receipts, credit notes).
+ *
+ * Numbers are rendered from a per-tenant template and backed by a counter row in
+ * numbering_sequences that is bumped with a single INSERT ... ON CONFLICT DO UPDATE,
+ * so concurrent cashiers can never be handed the same number. Tenant isolation comes
+ * from RLS + the tenant_id column default, like every other tenant table.
+ */
+import { eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import { branches, numberingFormats, numberingSequences, tenants } from "@shared/schema";
+import { getCurrentBranchId, getCurrentTenantId } from "./tenantContext";
+
+export type DocumentType = 'invoice' | 'receipt' | 'advance_receipt' | 'credit_note';
+
+export interface NumberFormat {
+  template: string;
+  padding: number;
+  perBranch: boolean;
+}
+
+export const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'receipt', 'advance_receipt', 'credit_note'];
+
+// The historical formats: INV-2024010001, RCP-INV-2024010001-01, RCP-ADV-2024010001
+export const DEFAULT_NUMBER_FORMATS: Record<DocumentType, NumberFormat> = {
+  invoice: { template: 'INV-{YYYY}{MM}{SEQ}', padding: 4, perBranch: false },
+  receipt: { template: 'RCP-{INVOICE}-{SEQ}', padding: 2, perBranch: false },
+  advance_receipt: { template: 'RCP-ADV-{YYYY}{MM}{SEQ}', padding: 4, perBranch: false },
+  credit_note: { template: 'CN-{YYYY}{MM}{SEQ}', padding: 4, perBranch: false },
+};
+
+const TOKEN = /\{(YYYY|YY|MM|SEQ|BRANCH|INVOICE)\}/g;
+const DATE_TOKENS = new Set(['YYYY', 'YY', 'MM']);
+
+export interface DateParts {
+  year: string; // 4 digits
+  month: string; // 2 digits
+}
+
+export function getDateParts(date: Date, timeZone = 'Asia/Karachi'): DateParts {
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit' }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return { year: get('year'), month: get('month') };
+}
+
+/**
+ * Returns an error message, or null when the template is usable for `type`. Per-branch
+ * counters restart at 1 in every branch, so the branch code must be part of the number.
+ */
+export function validateTemplate(type: DocumentType, template: string, perBranch = false): string | null {
+  if (!template || template.length > 60) return 'Template must be 1-60 characters';
+  if (!template.includes('{SEQ}')) return 'Template must contain {SEQ}';
+  if (perBranch && !template.includes('{BRANCH}')) return 'A per-branch template must contain {BRANCH}';
+  if (!perBranch && template.includes('{BRANCH}')) return '{BRANCH} is only valid in per-branch templates';
+  if (type === 'receipt' && !template.includes('{INVOICE}')) return 'Receipt template must contain {INVOICE}';
+  if (type !== 'receipt' && template.includes('{INVOICE}')) return '{INVOICE} is only valid in receipt templates';
+  const unknown = template.replace(TOKEN, '').match(/\{[^}]*\}/);
+  if (unknown) return `Unknown token ${unknown[0]}`;
+  return null;
+}
+
+/**
+ * Counter period for a template: the concatenated date tokens it renders, so
+ * {YYYY}{MM} resets monthly, {YYYY} yearly, and a template with no date part never.
+ */
+export function periodKey(template: string, parts: DateParts): string {
+  let key = '';
+  for (const [, token] of Array.from(template.matchAll(TOKEN))) {
+    if (!DATE_TOKENS.has(token)) continue;
+    key += token === 'YYYY' ? parts.year : token === 'YY' ? parts.year.slice(2) : parts.month;
+  }
+  return key;
+}
+
+export function renderNumber(
+  format: NumberFormat,
+  values: { seq: number; parts: DateParts; branchCode?: string; invoiceNumber?: string },
+): string {
+  return format.template.replace(TOKEN, (_m, token: string) => {
+    switch (token) {
+      case 'YYYY': return values.parts.year;
+      case 'YY': return values.parts.year.slice(2);
+      case 'MM': return values.parts.month;
+      case 'SEQ': return String(values.seq).padStart(format.padding, '0');
+      case 'BRANCH': return values.branchCode || 'MAIN';
+      case 'INVOICE': return values.invoiceNumber || '';
+      default: return '';
+    }
+  });
+}
+
+export async function getNumberFormat(type: DocumentType): Promise<NumberFormat> {
+  const [row] = await db.select().from(numberingFormats).where(eq(numberingFormats.documentType, type));
+  if (!row) return DEFAULT_NUMBER_FORMATS[type];
+  return {
+    template: row.template,
+    padding: row.padding ?? DEFAULT_NUMBER_FORMATS[type].padding,
+    perBranch: row.perBranch ?? false,
+  };
+}
+
+export async function getNumberFormats(): Promise<Record<DocumentType, NumberFormat>> {
+  const rows = await db.select().from(numberingFormats);
+  const formats = { ...DEFAULT_NUMBER_FORMATS };
+  for (const row of rows) {
+    if (!DOCUMENT_TYPES.includes(row.documentType as DocumentType)) continue;
+    formats[row.documentType as DocumentType] = {
+      template: row.template,
+      padding: row.padding ?? 4,
+      perBranch: row.perBranch ?? false,
+    };
+  }
+  return formats;
+}
+
+export async function saveNumberFormat(type: DocumentType, format: NumberFormat): Promise<NumberFormat> {
+  const error = validateTemplate(type, format.template, format.perBranch);
+  if (error) throw new Error(error);
+  if (!Number.isInteger(format.padding) || format.padding < 1 || format.padding > 10) {
+    throw new Error('Padding must be between 1 and 10');
+  }
+  await (db as any).insert(numberingFormats)
+    .values({ documentType: type, template: format.template, padding: format.padding, perBranch: format.perBranch })
+    .onConflictDoUpdate({
+      target: [numberingFormats.documentType, numberingFormats.tenantId],
+      set: { template: format.template, padding: format.padding, perBranch: format.perBranch, updatedAt: new Date() },
+    });
+  return format;
+}
+
+// Single-statement atomic bump; the row lock taken by ON CONFLICT serialises callers
+async function incrementSequence(scope: string, sequenceKey: string, period: string): Promise<number> {
+  const [row] = await (db as any).insert(numberingSequences)
+    .values({ scope, sequenceKey, period, value: 1 })
+    .onConflictDoUpdate({
+      target: [numberingSequences.tenantId, numberingSequences.scope, numberingSequences.sequenceKey, numberingSequences.period],
+      set: { value: sql`${numberingSequences.value} + 1`, updatedAt: new Date() },
+    })
+    .returning({ value: numberingSequences.value });
+  return row.value;
+}
+
+export async function getTenantTimeZone(): Promise<string> {
+  const tenantId = getCurrentTenantId();
+  if (!tenantId) return 'Asia/Karachi';
+  const [tenant] = await db.select({ timezone: tenants.timezone }).from(tenants).where(eq(tenants.id, tenantId));
+  return tenant?.timezone || 'Asia/Karachi';
+}
+
+async function getBranchCode(branchId: string | null): Promise<string | undefined> {
+  if (!branchId) return undefined;
+  const [branch] = await db.select({ code: branches.code }).from(branches).where(eq(branches.id, branchId));
+  return branch?.code || undefined;
+}
+
+// Only ever reached while skipping numbers issued by the old read-then-increment code
+const MAX_ATTEMPTS = 1000;
+
+/**
+ * Allocate the next number for a document type. `exists` guards against numbers
+ * issued before sequences were introduced: a taken number is skipped, not reused.
+ */
+export async function nextDocumentNumber(
+  type: DocumentType,
+  options: { invoiceNumber?: string; date?: Date; exists?: (candidate: string) => Promise<boolean> } = {},
+): Promise<string> {
+  if (type === 'receipt' && !options.invoiceNumber) {
+    throw new Error('invoiceNumber is required for receipt numbers');
+  }
+  const format = await getNumberFormat(type);
+  const parts = getDateParts(options.date ?? new Date(), await getTenantTimeZone());
+  const branchId = format.perBranch ? getCurrentBranchId() : null;
+  const branchCode = format.template.includes('{BRANCH}') ? await getBranchCode(branchId) : undefined;
+
+  const sequenceKey = type === 'receipt' ? `receipt:${options.invoiceNumber}` : type;
+  const period = periodKey(format.template, parts);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const seq = await incrementSequence(branchId ?? '', sequenceKey, period);
+    const candidate = renderNumber(format, { seq, parts, branchCode, invoiceNumber: options.invoiceNumber });
+    if (!options.exists || !(await options.exists(candidate))) return candidate;
+  }
+  throw new Error(`Unable to allocate a unique ${type} number after ${MAX_ATTEMPTS} attempts`);
+}
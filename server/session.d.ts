@@ -12,6 +12,36 @@ declare module "express-session" {
       role: string;
       isSuperAdmin?: boolean | null;
       isTeacher?: boolean | null;
+      mustChangePassword?: boolean;
+      passwordExpired?: boolean;
+      twoFactorSetupRequired?: boolean;
+    };
+    // Where this sign-in came from and when it was last used (see userSessions.ts)
+    device?: {
+      userAgent: string | null;
+      ipAddress: string | null;
+      signedInAt: number;
+    };
+    lastActivityAt?: number;
+    // Management viewing the teacher area as this teacher (see impersonation.ts)
+    impersonation?: {
+      id: string;
+      teacher: NonNullable<SessionData['user']>;
+      allowWrites: boolean;
+      justification: string | null;
+      startedAt: number;
+      expiresAt: number;
+    };
+    // Password accepted, waiting for the second factor (see /api/auth/login/2fa)
+    pendingTwoFactor?: {
+      userId: string;
+      tenantId: string;
+      expiresAt: number;
+    };
+    // Portal link opened in this browser (see portalTokens.ts); re-checked on every request
+    portal?: {
+      tokenId: string;
+      tenantId: string;
     };
   }
 }
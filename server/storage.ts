@@ -12,17 +12,29 @@ import {
   invoiceAdjustments,
   billingSchedules,
   attendance,
+  attendanceEdits,
+  leaveRequests,
   assessments,
   grades,
   payoutRules,
+  payoutRuns,
+  payoutRunItems,
+  payoutAdjustments,
   cashDrawRequests,
   dailyClose,
   expenses,
   announcements,
+  auditLogs,
+  passwordHistory,
+  portalTokens,
+  passwordResetTokens,
   announcementRecipients,
   addOns,
   invoiceItems,
+  subjectCombos,
+  comboSubjects,
   classSchedules,
+  classSessions,
   scheduleChanges,
   studentNotifications,
   type User,
@@ -30,13 +42,14 @@ import {
   type Student,
   type InsertStudent,
   type Subject,
-  type Class,
   type Invoice,
   type Payment,
   type Attendance,
   type Assessment,
   type Grade,
   type CashDrawRequest,
+  type PayoutRun,
+  type PayoutAdjustment,
   type DailyClose,
   type Expense,
   type Announcement,
@@ -52,8 +65,24 @@ import {
 } from "@shared/schema";
 import { db } from "./db";
 import { getCurrentTenantId, getCurrentBranchId } from "./tenantContext";
-import { eq, and, desc, sql, gte, lte, count, sum, avg, isNull } from "drizzle-orm";
+import { eq, and, desc, sql, gte, lte, lt, count, sum, avg, isNull, inArray, ne } from "drizzle-orm";
 import { PrimaxBillingService } from "./billing";
+import {
+  apportion,
+  computeLineShares,
+  currentMonth,
+  getMonthRange,
+  netPayout,
+  roundMoney,
+  selectPayoutRule,
+  type EarningsLine,
+  type TeacherEarningsStatement,
+} from "./payouts";
+import { comboSplitWeights } from "./combos";
+import { getExtraClassSessions, listSessions, type SessionView } from "./timetable";
+import { getStudentAttendanceRate } from "./attendance";
+import { todayIn } from "./lateFees";
+import { getTenantTimeZone } from "./sequences";
 import { generateUserCredentials } from "./passwordUtils";
 
 // In-memory roll-number reservations (dev convenience; see reserveRollNumber)
@@ -64,6 +93,8 @@ declare global {
 
 const billingService = new PrimaxBillingService();
 
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export interface IStorage {
   // User operations - mandatory for Replit Auth
   getUser(id: string): Promise<User | undefined>;
@@ -91,25 +122,33 @@ export interface IStorage {
   updateTeacher(id: string, teacherData: any): Promise<any>;
   deleteTeacher(id: string): Promise<void>;
   createStaff(staffData: any): Promise<any>;
-  getStaff(): Promise<any[]>;
+  getStaff(includeInactive?: boolean): Promise<any[]>;
   updateStaff(id: string, staffData: any): Promise<any>;
   deleteStaff(id: string): Promise<void>;
   createManagement(managementData: any): Promise<any>;
   updateManagement(id: string, managementData: any): Promise<any>;
   deleteManagement(id: string): Promise<void>;
   createPayoutRule(payoutData: any): Promise<any>;
+  getPayoutRules(teacherId?: string): Promise<any[]>;
+
+  // Payout runs
+  getPayoutRuns(): Promise<PayoutRun[]>;
+  getPayoutRun(id: string): Promise<any | undefined>;
+  openPayoutRun(month: string, openedBy: string): Promise<any>;
+  refreshPayoutRun(id: string): Promise<any>;
+  addPayoutAdjustment(runId: string, runItemId: string, adjustment: { amount: number; reason: string }, createdBy: string): Promise<PayoutAdjustment>;
+  lockPayoutRun(id: string, lockedBy: string, today: string, paymentMethod?: string): Promise<any>;
   
   // Subjects
   getSubjects(): Promise<Subject[]>;
   getSubjectsByClassLevel(classLevel: string): Promise<Subject[]>;
   
   // Classes
-  getClassesByTeacher(teacherId: string): Promise<Class[]>;
-  getTodayClasses(teacherId: string): Promise<any[]>;
-  getClassesForDay(dayOfWeek: number): Promise<any[]>;
+  getTodayClasses(teacherId: string, today: string): Promise<SessionView[]>;
+  getSessionsForDate(date: string): Promise<SessionView[]>;
   
   // Enrollments
-  getStudentsByClass(classId: string): Promise<any[]>;
+  getStudentsBySession(sessionId: string): Promise<any[]>;
   createEnrollment(enrollment: any): Promise<any>;
   
   // Invoices
@@ -120,6 +159,8 @@ export interface IStorage {
   updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice>;
   getInvoicesByStudent(studentId: string): Promise<Invoice[]>;
   getEnrollmentsByStudent(studentId: string): Promise<any[]>;
+  withdrawEnrollment(id: string, withdrawnAt: Date): Promise<any | undefined>;
+  addInvoiceItems(invoiceId: string, items: any[]): Promise<void>;
   getSubjectById(subjectId: string): Promise<Subject | null>;
   createPaymentAllocation(allocationData: { paymentId: string; invoiceId: string; amount: string; }): Promise<any>;
   
@@ -129,10 +170,10 @@ export interface IStorage {
   
   // Attendance
   createAttendance(attendanceData: any): Promise<Attendance>;
-  getAttendanceByClassAndDate(classId: string, date: string): Promise<Attendance[]>;
-  getAttendanceRecord(classId: string, studentId: string, date: string): Promise<Attendance | undefined>;
+  getAttendanceBySessionWithStudents(sessionId: string): Promise<any[]>;
+  getAttendanceRecord(sessionId: string, studentId: string): Promise<Attendance | undefined>;
   updateAttendance(attendanceId: string, updates: Partial<Attendance>): Promise<Attendance>;
-  getAttendanceByClass(classId: string, date: string): Promise<Attendance[]>;
+  getAttendanceBySession(sessionId: string): Promise<Attendance[]>;
   getStudentAttendance(studentId: string, startDate?: string, endDate?: string): Promise<Attendance[]>;
   
   // Assessments
@@ -152,6 +193,7 @@ export interface IStorage {
     totalOwed: number;
     totalPaid: number;
     outstandingBalance: number;
+    creditBalance: number;
     feeStatus: 'paid' | 'pending' | 'overdue' | 'partial';
     lastPaymentDate?: Date;
   }>;
@@ -164,7 +206,6 @@ export interface IStorage {
   addInvoiceAdjustment(invoiceId: string, adjustment: any): Promise<any>;
   getStudentLedger(studentId: string): Promise<any[]>;
   createBillingSchedule(scheduleData: any): Promise<any>;
-  generateRecurringInvoices(date?: string): Promise<Invoice[]>;
   createCashDrawRequest(request: any): Promise<CashDrawRequest>;
   updateCashDrawRequest(id: string, updates: any): Promise<CashDrawRequest>;
   
@@ -181,12 +222,12 @@ export interface IStorage {
   
   // Dashboard stats
   getDashboardStats(): Promise<any>;
-  getTeacherEarnings(teacherId: string): Promise<any>;
+  getTeacherEarnings(teacherId: string, month?: string, timeZone?: string): Promise<TeacherEarningsStatement>;
 
   // Teacher Data Isolation
   getTeacherSubjects(teacherId: string): Promise<Subject[]>;
   getTeacherStudents(teacherId: string): Promise<Student[]>;
-  getTeacherEarningsRestricted(teacherId: string): Promise<any>;
+  getTeacherEarningsRestricted(teacherId: string, month?: string, timeZone?: string): Promise<TeacherEarningsStatement>;
   getTeacherAnnouncements(teacherId: string): Promise<Announcement[]>;
 
   // Digital Diary - Announcements
@@ -214,13 +255,15 @@ export interface IStorage {
   
   // Schedule Changes
   getScheduleChanges(teacherId: string, startDate?: Date, endDate?: Date): Promise<ScheduleChange[]>;
+  getScheduleChange(id: string): Promise<ScheduleChange | undefined>;
   createScheduleChange(change: InsertScheduleChange): Promise<ScheduleChange>;
   updateScheduleChange(id: string, updates: Partial<InsertScheduleChange>): Promise<ScheduleChange>;
   deleteScheduleChange(id: string): Promise<void>;
   
   // Student Schedule & Notifications
-  getStudentSchedule(studentId: string, startDate?: Date, endDate?: Date): Promise<any[]>;
+  getStudentSchedule(studentId: string, start: string, end: string): Promise<SessionView[]>;
   getStudentNotifications(studentId: string): Promise<StudentNotification[]>;
+  getStudentNotification(id: string): Promise<StudentNotification | undefined>;
   createStudentNotification(notification: InsertStudentNotification): Promise<StudentNotification>;
   markNotificationRead(notificationId: string): Promise<void>;
 }
@@ -437,14 +480,10 @@ export class DatabaseStorage implements IStorage {
     // Delete grades (which link assessments to students)
     await db.delete(grades).where(eq(grades.studentId, id));
     
-    // Delete attendance records
+    // Delete attendance records, their edit history and leave requests
+    await db.delete(attendanceEdits).where(eq(attendanceEdits.studentId, id));
     await db.delete(attendance).where(eq(attendance.studentId, id));
-    
-    // Delete enrollments
-    await db.delete(enrollments).where(eq(enrollments.studentId, id));
-    
-    // Delete billing schedules
-    await db.delete(billingSchedules).where(eq(billingSchedules.studentId, id));
+    await db.delete(leaveRequests).where(eq(leaveRequests.studentId, id));
     
     // Delete invoice adjustments for this student's invoices
     const studentInvoices = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.studentId, id));
@@ -460,6 +499,10 @@ export class DatabaseStorage implements IStorage {
     // Delete invoices
     await db.delete(invoices).where(eq(invoices.studentId, id));
     
+    // Delete billing schedules (after the invoices generated from them), then enrollments
+    await db.delete(billingSchedules).where(eq(billingSchedules.studentId, id));
+    await db.delete(enrollments).where(eq(enrollments.studentId, id));
+    
     // Delete payments
     await db.delete(payments).where(eq(payments.studentId, id));
     
@@ -469,6 +512,9 @@ export class DatabaseStorage implements IStorage {
     // Delete student notifications
     await db.delete(studentNotifications).where(eq(studentNotifications.studentId, id));
     
+    // Delete the student's portal links
+    await db.delete(portalTokens).where(eq(portalTokens.studentId, id));
+    
     // Finally, delete the student
     await db.delete(students).where(eq(students.id, id));
   }
@@ -485,67 +531,17 @@ export class DatabaseStorage implements IStorage {
       .where(and(sql`${classLevel} = ANY(${subjects.classLevels})`, eq(subjects.isActive, true)));
   }
 
-  // Classes
-  async getClassesByTeacher(teacherId: string): Promise<Class[]> {
-    return await db
-      .select()
-      .from(classes)
-      .where(and(eq(classes.teacherId, teacherId), eq(classes.isActive, true)));
-  }
-
-  async getTodayClasses(teacherId: string): Promise<any[]> {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    
-    // Convert JavaScript Date.getDay() (0-6, 0=Sunday) to dayOfWeekEnum strings
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const todayString = dayNames[dayOfWeek];
-    
-    return await db
-      .select({
-        id: classSchedules.id,
-        subject: subjects.name,
-        startTime: classSchedules.startTime,
-        endTime: classSchedules.endTime,
-        location: classSchedules.location,
-      })
-      .from(classSchedules)
-      .innerJoin(subjects, eq(classSchedules.subjectId, subjects.id))
-      .where(
-        and(
-          eq(classSchedules.teacherId, teacherId),
-          eq(classSchedules.dayOfWeek, todayString as any),
-          eq(classSchedules.isActive, true)
-        )
-      )
-      .orderBy(classSchedules.startTime);
+  // Class sessions (dated occurrences of the timetable, see timetable.ts)
+  async getTodayClasses(teacherId: string, today: string): Promise<SessionView[]> {
+    return listSessions({ start: today, end: today }, { teacherId });
   }
 
-  async getClassesForDay(dayOfWeek: number): Promise<any[]> {
-    return await db
-      .select({
-        id: classes.id,
-        name: classes.name,
-        startTime: classes.startTime,
-        endTime: classes.endTime,
-        subject: subjects.name,
-        teacherName: sql<string>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, 'Demo Teacher')`,
-        teacherId: classes.teacherId,
-      })
-      .from(classes)
-      .innerJoin(subjects, eq(classes.subjectId, subjects.id))
-      .leftJoin(users, eq(classes.teacherId, users.id))
-      .where(
-        and(
-          eq(classes.dayOfWeek, dayOfWeek),
-          eq(classes.isActive, true)
-        )
-      )
-      .orderBy(classes.startTime);
+  async getSessionsForDate(date: string): Promise<SessionView[]> {
+    return listSessions({ start: date, end: date });
   }
 
   // Enrollments
-  async getStudentsByClass(classId: string): Promise<any[]> {
+  async getStudentsBySession(sessionId: string): Promise<any[]> {
     return await db
       .select({
         id: students.id,
@@ -556,8 +552,8 @@ export class DatabaseStorage implements IStorage {
       })
       .from(enrollments)
       .innerJoin(students, eq(enrollments.studentId, students.id))
-      .innerJoin(classes, eq(classes.subjectId, enrollments.subjectId))
-      .where(and(eq(classes.id, classId), eq(enrollments.isActive, true)));
+      .innerJoin(classSessions, eq(classSessions.subjectId, enrollments.subjectId))
+      .where(and(eq(classSessions.id, sessionId), eq(enrollments.isActive, true)));
   }
 
   // Invoices
@@ -627,6 +623,20 @@ export class DatabaseStorage implements IStorage {
     return enrollment;
   }
 
+  async addInvoiceItems(invoiceId: string, items: any[]): Promise<void> {
+    if (items.length === 0) return;
+    await (db as any).insert(invoiceItems).values(items.map(item => ({ ...item, invoiceId })));
+  }
+
+  async withdrawEnrollment(id: string, withdrawnAt: Date): Promise<any | undefined> {
+    const [enrollment] = await db
+      .update(enrollments)
+      .set({ isActive: false, withdrawnAt })
+      .where(and(eq(enrollments.id, id), eq(enrollments.isActive, true)))
+      .returning();
+    return enrollment;
+  }
+
   async getEnrollmentsByStudent(studentId: string): Promise<any[]> {
     return await db
       .select({
@@ -767,11 +777,11 @@ export class DatabaseStorage implements IStorage {
     return attendanceRecord;
   }
 
-  async getAttendanceByClass(classId: string, date: string): Promise<Attendance[]> {
+  async getAttendanceBySession(sessionId: string): Promise<Attendance[]> {
     return await db
       .select()
       .from(attendance)
-      .where(and(eq(attendance.classId, classId), eq(attendance.attendanceDate, date)));
+      .where(eq(attendance.sessionId, sessionId));
   }
 
   async getStudentAttendance(studentId: string, startDate?: string, endDate?: string): Promise<Attendance[]> {
@@ -791,7 +801,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(attendance.attendanceDate));
   }
 
-  async getAttendanceByClassAndDate(classId: string, date: string): Promise<any[]> {
+  async getAttendanceBySessionWithStudents(sessionId: string): Promise<any[]> {
     return await db
       .select({
         id: attendance.id,
@@ -808,23 +818,17 @@ export class DatabaseStorage implements IStorage {
       })
       .from(attendance)
       .innerJoin(students, eq(attendance.studentId, students.id))
-      .where(
-        and(
-          eq(attendance.classId, classId),
-          eq(attendance.attendanceDate, date)
-        )
-      );
+      .where(eq(attendance.sessionId, sessionId));
   }
 
-  async getAttendanceRecord(classId: string, studentId: string, date: string): Promise<Attendance | undefined> {
+  async getAttendanceRecord(sessionId: string, studentId: string): Promise<Attendance | undefined> {
     const result = await db
       .select()
       .from(attendance)
       .where(
         and(
-          eq(attendance.classId, classId),
-          eq(attendance.studentId, studentId),
-          eq(attendance.attendanceDate, date)
+          eq(attendance.sessionId, sessionId),
+          eq(attendance.studentId, studentId)
         )
       );
 
@@ -981,9 +985,15 @@ export class DatabaseStorage implements IStorage {
       .from(invoices)
       .where(eq(invoices.status, 'overdue'));
 
+    // Late counts as attended; excused absences as the school chose (null = left out of the average)
     const avgAttendance = await db
-      .select({ avg: avg(sql`case when status = 'present' then 1.0 else 0.0 end`) })
+      .select({ avg: avg(sql`case
+        when ${attendance.status} in ('present', 'late') then 1.0
+        when ${attendance.status} in ('excused', 'leave', 'medical') then
+          case ${tenants.excusedAbsences} when 'present' then 1.0 when 'absent' then 0.0 end
+        else 0.0 end`) })
       .from(attendance)
+      .innerJoin(tenants, eq(attendance.tenantId, tenants.id))
       .where(gte(attendance.attendanceDate, sql`date_trunc('month', current_date)`));
 
     return {
@@ -994,13 +1004,157 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getTeacherEarnings(teacherId: string): Promise<any> {
-    // Calculate earnings based on enrollments and payout rules
-    // This is a simplified version - in reality would be more complex
+  async getTeacherEarnings(teacherId: string, month: string = currentMonth(), timeZone?: string): Promise<TeacherEarningsStatement> {
+    const range = getMonthRange(month);
+    // Payments fall in the month of the school-local day they were received (stored as UTC)
+    const tz = timeZone ?? await getTenantTimeZone();
+    const localPaymentDay = sql`((${payments.paymentDate} AT TIME ZONE 'UTC') AT TIME ZONE ${tz})::date`;
+
+    const rules = await db.select().from(payoutRules).where(eq(payoutRules.teacherId, teacherId));
+
+    // Money actually received this month, per invoice it was allocated to
+    const allocations = await db
+      .select({
+        allocationId: paymentAllocations.id,
+        amount: paymentAllocations.amount,
+        paymentId: payments.id,
+        receiptNumber: payments.receiptNumber,
+        paymentDate: payments.paymentDate,
+        invoiceId: invoices.id,
+        invoiceNumber: invoices.invoiceNumber,
+        studentId: invoices.studentId,
+        firstName: students.firstName,
+        lastName: students.lastName,
+      })
+      .from(paymentAllocations)
+      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+      .innerJoin(invoices, eq(paymentAllocations.invoiceId, invoices.id))
+      .innerJoin(students, eq(invoices.studentId, students.id))
+      .where(and(
+        sql`${localPaymentDay} >= ${range.start}::date`,
+        sql`${localPaymentDay} < ${range.nextStart}::date`,
+        eq(payments.status, 'completed'),
+        eq(payments.isRefunded, false)
+      ))
+      .orderBy(payments.paymentDate, paymentAllocations.createdAt);
+
+    const invoiceIds = Array.from(new Set(allocations.map(a => a.invoiceId)));
+    const items = invoiceIds.length === 0 ? [] : await db
+      .select({
+        id: invoiceItems.id,
+        invoiceId: invoiceItems.invoiceId,
+        subjectId: invoiceItems.subjectId,
+        comboId: invoiceItems.comboId,
+        subjectName: subjects.name,
+        total: invoiceItems.total,
+      })
+      .from(invoiceItems)
+      .leftJoin(subjects, eq(invoiceItems.subjectId, subjects.id))
+      .where(inArray(invoiceItems.invoiceId, invoiceIds))
+      .orderBy(invoiceItems.id);
+
+    // Combo lines are split back across the combo's subjects by its revenue-split rule
+    const comboIds = Array.from(new Set(items.map(i => i.comboId).filter((id): id is string => !!id)));
+    const comboMembers = comboIds.length === 0 ? [] : await db
+      .select({
+        comboId: comboSubjects.comboId,
+        revenueSplit: subjectCombos.revenueSplit,
+        subjectId: subjects.id,
+        subjectName: subjects.name,
+        baseFee: subjects.baseFee,
+      })
+      .from(comboSubjects)
+      .innerJoin(subjectCombos, eq(comboSubjects.comboId, subjectCombos.id))
+      .innerJoin(subjects, eq(comboSubjects.subjectId, subjects.id))
+      .where(inArray(comboSubjects.comboId, comboIds))
+      .orderBy(subjects.name);
+
+    // A subject line belongs to this teacher when the student is (or was) enrolled with them for it
+    const taught = await db
+      .select({ studentId: enrollments.studentId, subjectId: enrollments.subjectId })
+      .from(enrollments)
+      .where(eq(enrollments.teacherId, teacherId));
+    const taughtKeys = new Set(taught.map(e => `${e.studentId}:${e.subjectId}`));
+
+    const itemsByInvoice = new Map<string, typeof items>();
+    for (const item of items) {
+      const list = itemsByInvoice.get(item.invoiceId) ?? [];
+      list.push(item);
+      itemsByInvoice.set(item.invoiceId, list);
+    }
+
+    const collections: Array<Omit<EarningsLine, 'share' | 'ruleId'> & { date: string; amount: number }> = [];
+    for (const alloc of allocations) {
+      const invoiceLines = itemsByInvoice.get(alloc.invoiceId) ?? [];
+      const parts = apportion(Number(alloc.amount), invoiceLines.map(i => Number(i.total)));
+      const paymentDate = todayIn(tz, alloc.paymentDate ?? new Date());
+      invoiceLines.forEach((item, idx) => {
+        // A combo line becomes one share per member subject; a subject line is its own share
+        const members = item.comboId
+          ? comboMembers.filter(m => m.comboId === item.comboId)
+          : [{ subjectId: item.subjectId, subjectName: item.subjectName, baseFee: item.total, revenueSplit: null }];
+        const memberParts = item.comboId
+          ? apportion(parts[idx], comboSplitWeights(members, members[0]?.revenueSplit))
+          : [parts[idx]];
+        members.forEach((member, m) => {
+          if (!member.subjectId || !taughtKeys.has(`${alloc.studentId}:${member.subjectId}`)) return;
+          if (memberParts[m] === 0) return;
+          collections.push({
+            allocationId: alloc.allocationId,
+            paymentId: alloc.paymentId,
+            receiptNumber: alloc.receiptNumber,
+            paymentDate,
+            invoiceId: alloc.invoiceId,
+            invoiceNumber: alloc.invoiceNumber,
+            invoiceItemId: item.id,
+            studentId: alloc.studentId,
+            studentName: `${alloc.firstName} ${alloc.lastName}`,
+            subjectId: member.subjectId,
+            subjectName: member.subjectName ?? '',
+            amountCollected: memberParts[m],
+            date: paymentDate,
+            amount: memberParts[m],
+          });
+        });
+      });
+    }
+
+    const lines: EarningsLine[] = computeLineShares(collections, rules).map(
+      ({ date, amount, ...line }) => line
+    );
+
+    // Extra classes held (not cancelled) pay the flat per-class rate of the rule in force that day
+    const extras = await getExtraClassSessions(teacherId, { start: range.start, end: range.end });
+
+    const extraClassLines = extras.map(extra => {
+      const rule = selectPayoutRule(rules, extra.sessionDate);
+      return {
+        sessionId: extra.id,
+        scheduleChangeId: extra.scheduleChangeId!,
+        date: extra.sessionDate,
+        subjectId: extra.subjectId,
+        subjectName: extra.subjectName ?? '',
+        amount: roundMoney(Number(rule?.extraClassRate ?? 0)),
+        ruleId: rule?.id ?? null,
+      };
+    });
+
+    const collected = roundMoney(lines.reduce((s, l) => s + l.amountCollected, 0));
+    const baseAmount = roundMoney(lines.reduce((s, l) => s + l.share, 0));
+    const extraClasses = roundMoney(extraClassLines.reduce((s, l) => s + l.amount, 0));
+
     return {
-      baseAmount: 21000,
-      extraClasses: 3500,
-      total: 24500,
+      teacherId,
+      month: range.month,
+      periodStart: range.start,
+      periodEnd: range.end,
+      collected,
+      baseAmount,
+      extraClasses,
+      extraClassCount: extraClassLines.length,
+      total: roundMoney(baseAmount + extraClasses),
+      lines,
+      extraClassLines,
     };
   }
   
@@ -1008,6 +1162,7 @@ export class DatabaseStorage implements IStorage {
     totalOwed: number;
     totalPaid: number;
     outstandingBalance: number;
+    creditBalance: number;
     feeStatus: 'paid' | 'pending' | 'overdue' | 'partial';
     lastPaymentDate?: Date;
   }> {
@@ -1025,7 +1180,9 @@ export class DatabaseStorage implements IStorage {
     
     const totalOwed = studentInvoices.reduce((sum, inv) => sum + parseFloat(inv.total), 0);
     const totalPaid = studentPayments.reduce((sum, pay) => sum + parseFloat(pay.amount), 0);
-    const outstandingBalance = totalOwed - totalPaid;
+    // Money held in the credit wallet is not "paid" against any invoice yet
+    const outstandingBalance = studentInvoices.reduce((sum, inv) => sum + parseFloat(inv.balanceDue || '0'), 0);
+    const creditBalance = await billingService.getStudentCredit(studentId);
     
     // Determine fee status
     let feeStatus: 'paid' | 'pending' | 'overdue' | 'partial' = 'paid';
@@ -1053,25 +1210,15 @@ export class DatabaseStorage implements IStorage {
       totalOwed,
       totalPaid,
       outstandingBalance,
+      creditBalance,
       feeStatus,
       lastPaymentDate: lastPayment?.paymentDate ?? undefined
     };
   }
   
   async getStudentAttendancePercentage(studentId: string): Promise<number> {
-    // Get all attendance records for this student in the current academic year
-    const attendanceRecords = await db
-      .select()
-      .from(attendance)
-      .where(eq(attendance.studentId, studentId));
-    
-    if (attendanceRecords.length === 0) return 0;
-    
-    const presentCount = attendanceRecords.filter(record => 
-      record.status === 'present' || record.status === 'late'
-    ).length;
-    
-    return Math.round((presentCount / attendanceRecords.length) * 100);
+    // Excused absences count as the student's school chose (tenants.excused_absences)
+    return (await getStudentAttendanceRate(studentId)).percentage;
   }
   
   async getStudentAverageGrade(studentId: string): Promise<string> {
@@ -1174,12 +1321,6 @@ export class DatabaseStorage implements IStorage {
     return schedule;
   }
 
-  async generateRecurringInvoices(date?: string): Promise<Invoice[]> {
-    // This would generate invoices based on billing schedules
-    // For now, return empty array as placeholder
-    return [];
-  }
-
   // Digital Diary - Announcement Implementation
   async getAnnouncements(teacherId?: string): Promise<Announcement[]> {
     const whereCondition = teacherId 
@@ -1332,8 +1473,7 @@ export class DatabaseStorage implements IStorage {
 
   // Enhanced invoice creation with items
   async createInvoiceWithItems(invoiceData: any): Promise<Invoice> {
-    // Generate invoice number
-    const invoiceNumber = `INV-${Date.now()}`;
+    const invoiceNumber = await billingService.generateInvoiceNumber();
     
     // Use provided totals or calculate from items
     const subtotal = parseFloat(invoiceData.subtotal) || invoiceData.items.reduce((sum: number, item: any) => 
@@ -1463,40 +1603,9 @@ export class DatabaseStorage implements IStorage {
       .groupBy(students.id);
   }
 
-  async getTeacherEarningsRestricted(teacherId: string): Promise<any> {
-    // Get teacher's subjects first
-    const teacherSubjects = await this.getTeacherSubjects(teacherId);
-    const subjectIds = teacherSubjects.map(s => s.id);
-    
-    if (subjectIds.length === 0) {
-      return {
-        baseAmount: 0,
-        extraClasses: 0,
-        bonuses: 0,
-        deductions: 0,
-        netAmount: 0,
-        subjectBreakdown: []
-      };
-    }
-
-    // Calculate earnings only for teacher's subjects
-    const earnings = {
-      baseAmount: teacherSubjects.reduce((sum, subject) => 
-        sum + parseFloat(subject.baseFee), 0),
-      extraClasses: 3500, // Placeholder - would calculate from actual extra classes
-      bonuses: 2000,
-      deductions: 500,
-      netAmount: 0,
-      subjectBreakdown: teacherSubjects.map(subject => ({
-        subjectName: subject.name,
-        studentCount: 0, // Will be calculated
-        baseFee: parseFloat(subject.baseFee)
-      }))
-    };
-    
-    earnings.netAmount = earnings.baseAmount + earnings.extraClasses + earnings.bonuses - earnings.deductions;
-    
-    return earnings;
+  async getTeacherEarningsRestricted(teacherId: string, month?: string, timeZone?: string): Promise<TeacherEarningsStatement> {
+    // Statement only ever covers the teacher's own enrollments and extra classes
+    return this.getTeacherEarnings(teacherId, month, timeZone);
   }
 
   async getTeacherAnnouncements(teacherId: string): Promise<Announcement[]> {
@@ -1529,11 +1638,13 @@ export class DatabaseStorage implements IStorage {
     return await (db as any)
       .select({
         id: classSchedules.id,
+        branchId: classSchedules.branchId,
         teacherId: classSchedules.teacherId,
         subjectId: classSchedules.subjectId,
         dayOfWeek: classSchedules.dayOfWeek,
         startTime: classSchedules.startTime,
         endTime: classSchedules.endTime,
+        roomId: classSchedules.roomId,
         location: classSchedules.location,
         isActive: classSchedules.isActive,
         createdAt: classSchedules.createdAt,
@@ -1592,6 +1703,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(scheduleChanges.affectedDate));
   }
 
+  async getScheduleChange(id: string): Promise<ScheduleChange | undefined> {
+    const [change] = await db.select().from(scheduleChanges).where(eq(scheduleChanges.id, id));
+    return change;
+  }
+
   async createScheduleChange(change: InsertScheduleChange): Promise<ScheduleChange> {
     const [newChange] = await db.insert(scheduleChanges).values(change).returning();
     
@@ -1676,34 +1792,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Student Schedule & Notifications Implementation
-  async getStudentSchedule(studentId: string, startDate?: Date, endDate?: Date): Promise<any[]> {
-    // Get regular schedules for student's enrolled subjects
-    const regularSchedules = await db
-      .select({
-        id: classSchedules.id,
-        type: sql<string>`'regular'`.as('type'),
-        subjectId: subjects.id,
-        subjectName: subjects.name,
-        subjectCode: subjects.code,
-        dayOfWeek: classSchedules.dayOfWeek,
-        startTime: classSchedules.startTime,
-        endTime: classSchedules.endTime,
-        location: classSchedules.location,
-        teacherName: sql<string>`CONCAT(${users.firstName}, ' ', ${users.lastName})`.as('teacherName'),
-      })
+  async getStudentSchedule(studentId: string, start: string, end: string): Promise<SessionView[]> {
+    // Sessions of the subjects the student is actively enrolled in
+    const enrolled = await db
+      .select({ subjectId: enrollments.subjectId })
       .from(enrollments)
-      .innerJoin(subjects, eq(enrollments.subjectId, subjects.id))
-      .innerJoin(classSchedules, eq(subjects.id, classSchedules.subjectId))
-      .innerJoin(users, eq(classSchedules.teacherId, users.id))
-      .where(
-        and(
-          eq(enrollments.studentId, studentId),
-          eq(enrollments.isActive, true),
-          eq(classSchedules.isActive, true)
-        )
-      );
-
-    return { regularSchedules, scheduleChanges: [] } as any;
+      .where(and(eq(enrollments.studentId, studentId), eq(enrollments.isActive, true)));
+    const subjectIds = Array.from(new Set(enrolled.map(e => e.subjectId).filter((id): id is string => !!id)));
+    return listSessions({ start, end }, { subjectIds });
   }
 
   async getStudentNotifications(studentId: string): Promise<StudentNotification[]> {
@@ -1716,6 +1812,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(studentNotifications.createdAt));
   }
 
+  async getStudentNotification(id: string): Promise<StudentNotification | undefined> {
+    const [notification] = await db.select().from(studentNotifications).where(eq(studentNotifications.id, id));
+    return notification;
+  }
+
   async createStudentNotification(notification: InsertStudentNotification): Promise<StudentNotification> {
     const [newNotification] = await db.insert(studentNotifications).values(notification).returning();
     return newNotification;
@@ -1763,9 +1864,10 @@ export class DatabaseStorage implements IStorage {
 
   async getTeachers(): Promise<any[]> {
     const teachers = await db.select().from(users).where(eq(users.isTeacher, true));
-    // Transform data to match frontend expectations
-    return teachers.map(teacher => ({
+    // Transform data to match frontend expectations (credentials and 2FA secrets never leave the server)
+    return teachers.map(({ password, temporaryPassword, twoFactorSecret, twoFactorRecoveryCodes, twoFactorLastStep, ...teacher }) => ({
       ...teacher,
+      twoFactorEnabled: !!teacher.twoFactorEnabledAt,
       name: `${teacher.firstName || ''} ${teacher.lastName || ''}`.trim()
     }));
   }
@@ -1854,12 +1956,17 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
-  async getStaff(): Promise<any[]> {
+  async getStaff(includeInactive = false): Promise<any[]> {
     // Get all active users (both teachers and non-teachers) for the staff management page
-    const allUsers = await db.select().from(users).where(eq(users.isActive, true));
-    // Transform data to match frontend expectations
-    return allUsers.map(user => ({
+    // Parent accounts are not staff; nor is the placeholder that deleted users' records point to
+    const allUsers = await db.select().from(users).where(and(
+      includeInactive ? ne(users.id, 'deleted-user-system') : eq(users.isActive, true),
+      ne(users.role, 'parent'),
+    ));
+    // Transform data to match frontend expectations (credentials and 2FA secrets never leave the server)
+    return allUsers.map(({ password, temporaryPassword, twoFactorSecret, twoFactorRecoveryCodes, twoFactorLastStep, ...user }) => ({
       ...user,
+      twoFactorEnabled: !!user.twoFactorEnabledAt,
       name: `${user.firstName || ''} ${user.lastName || ''}`.trim()
     }));
   }
@@ -1969,16 +2076,28 @@ export class DatabaseStorage implements IStorage {
       .set({ createdBy: deletedUserId })
       .where(eq(announcements.createdBy, id));
     
-    // 14. Update class schedules
+    // 14. Update class schedules and their sessions
     await db.update(classSchedules)
       .set({ teacherId: deletedUserId })
       .where(eq(classSchedules.teacherId, id));
+    await db.update(classSessions)
+      .set({ teacherId: deletedUserId })
+      .where(eq(classSessions.teacherId, id));
     
     // 15. Update enrollments
     await db.update(enrollments)
       .set({ teacherId: deletedUserId })
       .where(eq(enrollments.teacherId, id));
     
+    // 16. Keep sign-in audit entries and portal link history; drop password history and reset links
+    await db.update(auditLogs)
+      .set({ userId: deletedUserId })
+      .where(eq(auditLogs.userId, id));
+    await db.delete(passwordHistory).where(eq(passwordHistory.userId, id));
+    await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+    await db.update(portalTokens).set({ createdBy: deletedUserId }).where(eq(portalTokens.createdBy, id));
+    await db.update(portalTokens).set({ revokedBy: deletedUserId }).where(eq(portalTokens.revokedBy, id));
+    
     // Finally, delete the teacher record
     await db.delete(users).where(eq(users.id, id));
   }
@@ -2071,6 +2190,15 @@ export class DatabaseStorage implements IStorage {
       .set({ createdBy: deletedUserId })
       .where(eq(announcements.createdBy, id));
     
+    // 10. Keep sign-in audit entries and portal link history; drop password history and reset links
+    await db.update(auditLogs)
+      .set({ userId: deletedUserId })
+      .where(eq(auditLogs.userId, id));
+    await db.delete(passwordHistory).where(eq(passwordHistory.userId, id));
+    await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+    await db.update(portalTokens).set({ createdBy: deletedUserId }).where(eq(portalTokens.createdBy, id));
+    await db.update(portalTokens).set({ revokedBy: deletedUserId }).where(eq(portalTokens.revokedBy, id));
+    
     // Finally, delete the staff record
     await db.delete(users).where(eq(users.id, id));
   }
@@ -2083,6 +2211,7 @@ export class DatabaseStorage implements IStorage {
       tier1Percentage: payoutData.tier1Percentage?.toString(),
       tier1Threshold: payoutData.tier1Threshold?.toString(),
       tier2Percentage: payoutData.tier2Percentage?.toString(),
+      extraClassRate: payoutData.extraClassRate?.toString(),
       effectiveFrom: payoutData.effectiveFrom,
       isActive: true,
     }).returning();
@@ -2090,6 +2219,215 @@ export class DatabaseStorage implements IStorage {
     return rule[0];
   }
 
+  async getPayoutRules(teacherId?: string): Promise<any[]> {
+    const query = db
+      .select({
+        rule: payoutRules,
+        teacherFirstName: users.firstName,
+        teacherLastName: users.lastName,
+      })
+      .from(payoutRules)
+      .innerJoin(users, eq(payoutRules.teacherId, users.id));
+    const rows = await (teacherId ? query.where(eq(payoutRules.teacherId, teacherId)) : query)
+      .orderBy(payoutRules.teacherId, desc(payoutRules.effectiveFrom));
+    return rows.map(r => ({
+      ...r.rule,
+      teacherName: `${r.teacherFirstName || ''} ${r.teacherLastName || ''}`.trim(),
+    }));
+  }
+
+  // ---- Payout runs ----
+  async getPayoutRuns(): Promise<PayoutRun[]> {
+    return await db.select().from(payoutRuns).orderBy(desc(payoutRuns.month));
+  }
+
+  async getPayoutRun(id: string): Promise<any | undefined> {
+    const [run] = await db.select().from(payoutRuns).where(eq(payoutRuns.id, id));
+    if (!run) return undefined;
+
+    const items = await db
+      .select({
+        item: payoutRunItems,
+        teacherFirstName: users.firstName,
+        teacherLastName: users.lastName,
+      })
+      .from(payoutRunItems)
+      .innerJoin(users, eq(payoutRunItems.teacherId, users.id))
+      .where(eq(payoutRunItems.runId, id))
+      .orderBy(users.firstName, users.lastName);
+
+    const itemIds = items.map(i => i.item.id);
+    const adjustments = itemIds.length === 0 ? [] : await db
+      .select()
+      .from(payoutAdjustments)
+      .where(inArray(payoutAdjustments.runItemId, itemIds))
+      .orderBy(payoutAdjustments.createdAt);
+
+    return {
+      ...run,
+      items: items.map(({ item, teacherFirstName, teacherLastName }) => ({
+        ...item,
+        teacherName: `${teacherFirstName || ''} ${teacherLastName || ''}`.trim(),
+        adjustmentEntries: adjustments.filter(a => a.runItemId === item.id),
+      })),
+    };
+  }
+
+  async openPayoutRun(month: string, openedBy: string): Promise<any> {
+    getMonthRange(month); // validates the format
+    const [existing] = await db.select().from(payoutRuns).where(eq(payoutRuns.month, month));
+    if (existing) {
+      throw new Error(`A payout run for ${month} already exists`);
+    }
+    const [run] = await (db as any).insert(payoutRuns).values({ month, openedBy }).returning();
+    return this.refreshPayoutRun(run.id);
+  }
+
+  // Recompute every teacher's line from current earnings, cash draws and adjustments
+  async refreshPayoutRun(id: string): Promise<any> {
+    await db.transaction(async (tx) => {
+      await this.refreshPayoutRunIn(tx, await this.lockOpenPayoutRun(tx, id, 'Payout run is locked and cannot be recalculated'));
+    });
+    return this.getPayoutRun(id);
+  }
+
+  // The run row, locked FOR UPDATE so a recalculation, an adjustment and the lock run one at a time
+  private async lockOpenPayoutRun(tx: Tx, id: string, lockedMessage: string): Promise<PayoutRun> {
+    const [run] = await tx.select().from(payoutRuns).where(eq(payoutRuns.id, id)).for('update');
+    if (!run) throw new Error('Payout run not found');
+    if (run.status !== 'open') throw new Error(lockedMessage);
+    return run;
+  }
+
+  private async refreshPayoutRunIn(tx: Tx, run: PayoutRun): Promise<void> {
+    const range = getMonthRange(run.month);
+    // Draws fall in the month of the school-local day they were approved, like earnings
+    const tz = await getTenantTimeZone();
+    const localReviewDay = sql`((${cashDrawRequests.reviewedAt} AT TIME ZONE 'UTC') AT TIME ZONE ${tz})::date`;
+    const teachers = (await this.getTeachers()).filter(t => t.isActive !== false);
+    const existingItems = await tx.select().from(payoutRunItems).where(eq(payoutRunItems.runId, run.id));
+
+    for (const teacher of teachers) {
+      const statement = await this.getTeacherEarnings(teacher.id, run.month, tz);
+
+      // Approved draws are cash the teacher already took this month
+      const [draws] = await tx
+        .select({ total: sum(cashDrawRequests.amount) })
+        .from(cashDrawRequests)
+        .where(and(
+          eq(cashDrawRequests.teacherId, teacher.id),
+          eq(cashDrawRequests.status, 'approved'),
+          sql`${localReviewDay} >= ${range.start}::date`,
+          sql`${localReviewDay} < ${range.nextStart}::date`
+        ));
+      const cashDraws = roundMoney(Number(draws?.total || 0));
+
+      const item = existingItems.find(i => i.teacherId === teacher.id);
+      let adjustmentTotal = 0;
+      if (item) {
+        const [adj] = await tx
+          .select({ total: sum(payoutAdjustments.amount) })
+          .from(payoutAdjustments)
+          .where(eq(payoutAdjustments.runItemId, item.id));
+        adjustmentTotal = roundMoney(Number(adj?.total || 0));
+      }
+
+      // Skip teachers with nothing to settle unless they already have a line
+      if (!item && statement.total === 0 && cashDraws === 0) continue;
+
+      const values = {
+        collected: statement.collected.toFixed(2),
+        feeShare: statement.baseAmount.toFixed(2),
+        extraClasses: statement.extraClasses.toFixed(2),
+        gross: statement.total.toFixed(2),
+        cashDraws: cashDraws.toFixed(2),
+        adjustments: adjustmentTotal.toFixed(2),
+        net: netPayout(statement.total, cashDraws, adjustmentTotal).toFixed(2),
+        statement,
+        updatedAt: new Date(),
+      };
+
+      if (item) {
+        await tx.update(payoutRunItems).set(values).where(eq(payoutRunItems.id, item.id));
+      } else {
+        await (tx as any).insert(payoutRunItems).values({ runId: run.id, teacherId: teacher.id, ...values });
+      }
+    }
+  }
+
+  // The run row is locked first so an adjustment cannot slip in while the run is being locked
+  async addPayoutAdjustment(
+    runId: string,
+    runItemId: string,
+    adjustment: { amount: number; reason: string },
+    createdBy: string
+  ): Promise<PayoutAdjustment> {
+    return await db.transaction(async (tx) => {
+      await this.lockOpenPayoutRun(tx, runId, 'Payout run is locked and cannot be adjusted');
+      const [item] = await tx
+        .select()
+        .from(payoutRunItems)
+        .where(and(eq(payoutRunItems.id, runItemId), eq(payoutRunItems.runId, runId)));
+      if (!item) throw new Error('Payout line not found');
+
+      const [entry] = await (tx as any).insert(payoutAdjustments).values({
+        runItemId,
+        amount: adjustment.amount.toFixed(2),
+        reason: adjustment.reason,
+        createdBy,
+      }).returning();
+
+      const adjustments = roundMoney(Number(item.adjustments || 0) + adjustment.amount);
+      await tx.update(payoutRunItems)
+        .set({
+          adjustments: adjustments.toFixed(2),
+          net: netPayout(Number(item.gross || 0), Number(item.cashDraws || 0), adjustments).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(payoutRunItems.id, runItemId));
+
+      return entry;
+    });
+  }
+
+  // Final recompute, then book each positive net payout as an expense and freeze the run
+  // `today` is the school-local date the expenses are booked on
+  async lockPayoutRun(id: string, lockedBy: string, today: string, paymentMethod: string = 'cash'): Promise<any> {
+    await db.transaction(async (tx) => {
+      // A second lock request waits here and then finds the run already locked
+      const run = await this.lockOpenPayoutRun(tx, id, 'Payout run is already locked');
+      await this.refreshPayoutRunIn(tx, run);
+
+      const items = await tx
+        .select({ item: payoutRunItems, teacherFirstName: users.firstName, teacherLastName: users.lastName })
+        .from(payoutRunItems)
+        .innerJoin(users, eq(payoutRunItems.teacherId, users.id))
+        .where(eq(payoutRunItems.runId, id));
+      for (const { item, teacherFirstName, teacherLastName } of items) {
+        const net = Number(item.net || 0);
+        if (net <= 0) continue;
+        const teacherName = `${teacherFirstName || ''} ${teacherLastName || ''}`.trim();
+        const [expense] = await (tx as any).insert(expenses).values({
+          category: 'Teacher Salaries',
+          description: `Teacher payout ${run.month} - ${teacherName}`.trim(),
+          amount: net.toFixed(2),
+          expenseDate: today,
+          paymentMethod,
+          enteredBy: lockedBy,
+          whoPaid: lockedBy,
+        }).returning();
+        await tx.update(payoutRunItems)
+          .set({ expenseId: expense.id, updatedAt: new Date() })
+          .where(eq(payoutRunItems.id, item.id));
+      }
+      await tx.update(payoutRuns)
+        .set({ status: 'locked', lockedBy, lockedAt: new Date() })
+        .where(and(eq(payoutRuns.id, id), eq(payoutRuns.status, 'open')));
+    });
+
+    return this.getPayoutRun(id);
+  }
+
   // ---- Branches / campuses (tenant-scoped via RLS) ----
   async getBranches(): Promise<any[]> {
     return await db.select().from(branches).orderBy(desc(branches.isMain), branches.name);
@@ -0,0 +1,81 @@
+/**
+ * Student credit wallet.
+ *
+ * Credit lives in student_credit_movements as signed rows: deposits (advance
+ * payments, overpayments) are positive, withdrawals (applied to an invoice,
+ * refunded) are negative. Nothing stores a balance; it is always the sum of the
+ * movements. Pure helpers only - billing.ts does the DB work.
+ */
+import { roundMoney } from "./payouts";
+
+export type CreditMovementType = 'advance_payment' | 'overpayment' | 'applied_to_invoice' | 'refund';
+
+export interface CreditMovementLike {
+  amount: string | number;
+  paymentId: string;
+  createdAt?: Date | string | null;
+}
+
+export interface CreditSource {
+  paymentId: string;
+  available: number;
+}
+
+export interface CreditDraw {
+  paymentId: string;
+  amount: number;
+}
+
+const num = (v: string | number | null | undefined) => Number(v ?? 0) || 0;
+
+export function creditBalance(movements: CreditMovementLike[]): number {
+  return roundMoney(movements.reduce((s, m) => s + num(m.amount), 0));
+}
+
+/**
+ * Credit still unspent per source payment, oldest deposit first. Every movement
+ * carries the payment the money came in on, so withdrawals net off their deposit.
+ */
+export function creditSources(movements: CreditMovementLike[]): CreditSource[] {
+  const byPayment = new Map<string, { available: number; first: number }>();
+  movements.forEach((m, index) => {
+    const key = m.paymentId;
+    const at = m.createdAt ? new Date(m.createdAt).getTime() : index;
+    const entry = byPayment.get(key) ?? { available: 0, first: at };
+    entry.available = roundMoney(entry.available + num(m.amount));
+    entry.first = Math.min(entry.first, at);
+    byPayment.set(key, entry);
+  });
+  return Array.from(byPayment.entries())
+    .filter(([, e]) => e.available > 0)
+    .sort((a, b) => a[1].first - b[1].first)
+    .map(([paymentId, e]) => ({ paymentId, available: e.available }));
+}
+
+/** Draw `amount` from the sources FIFO; throws if the wallet cannot cover it. */
+export function planCreditDraw(sources: CreditSource[], amount: number): CreditDraw[] {
+  const wanted = roundMoney(amount);
+  if (wanted <= 0) throw new Error('Credit amount must be positive');
+  const available = roundMoney(sources.reduce((s, src) => s + src.available, 0));
+  if (wanted > available) {
+    throw new Error(`Requested Rs. ${wanted} exceeds available credit Rs. ${available}`);
+  }
+  const draws: CreditDraw[] = [];
+  let remaining = wanted;
+  for (const src of sources) {
+    if (remaining <= 0) break;
+    const take = roundMoney(Math.min(src.available, remaining));
+    draws.push({ paymentId: src.paymentId, amount: take });
+    remaining = roundMoney(remaining - take);
+  }
+  return draws;
+}
+
+/** Chronological movements annotated with the balance after each one. */
+export function withRunningBalance<T extends CreditMovementLike>(movements: T[]): Array<T & { balance: number }> {
+  let balance = 0;
+  return movements.map((m) => {
+    balance = roundMoney(balance + num(m.amount));
+    return { ...m, balance };
+  });
+}
@@ -0,0 +1,309 @@
+/**
+ * Subject catalogue administration.
+ *
+ * Subjects are created, edited, re-priced and archived here. Fee changes are versioned
+ * by effective date (subject_fee_versions): billing prices a period with the version in
+ * force on its first day, so invoices for past periods keep the fee they were billed at,
+ * while subjects.baseFee always holds the fee in force today. Future-dated changes are
+ * promoted into baseFee by the daily `subject_fees` job.
+ */
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  classes,
+  classSchedules,
+  comboSubjects,
+  enrollments,
+  subjectCombos,
+  subjectFeeVersions,
+  subjects,
+  users,
+  type Subject,
+} from "@shared/schema";
+import { todayIn } from "./lateFees";
+
+export const CLASS_LEVELS = ['o-level', 'igcse', 'as-level', 'a2-level'];
+
+export interface SubjectInput {
+  name: string;
+  code: string;
+  classLevels: string[];
+  baseFee?: string | number;
+  description?: string | null;
+}
+
+export interface FeeChangeInput {
+  baseFee: string | number;
+  effectiveFrom: string; // YYYY-MM-DD, school time
+  reason?: string | null;
+}
+
+export interface FeeVersionLike {
+  baseFee: string | number;
+  effectiveFrom: string;
+}
+
+export interface SubjectDependants {
+  activeStudents: number;
+  schedules: number;
+  teachers: Array<{ id: string; name: string }>;
+  combos: Array<{ id: string; name: string }>;
+}
+
+/** Returns an error message, or null when the subject can be saved. */
+export function validateSubject(input: Partial<SubjectInput>, requireFee = true): string | null {
+  if (!input.name?.trim()) return 'Subject name is required';
+  if (!input.code?.trim()) return 'Subject code is required';
+  if (!input.classLevels?.length) return 'Choose at least one class level';
+  if (input.classLevels.some((level) => !CLASS_LEVELS.includes(level))) return 'Unknown class level';
+  if (requireFee && !(Number(input.baseFee) > 0)) return 'Fee must be greater than zero';
+  return null;
+}
+
+/** Returns an error message, or null when the fee change can be scheduled. */
+export function validateFeeChange(input: Partial<FeeChangeInput>, today: string): string | null {
+  if (!(Number(input.baseFee) > 0)) return 'Fee must be greater than zero';
+  if (!input.effectiveFrom || !/^\d{4}-\d{2}-\d{2}$/.test(input.effectiveFrom) || isNaN(Date.parse(input.effectiveFrom))) {
+    return 'Effective date must be a valid date';
+  }
+  // Past periods may already be invoiced; a change can only apply from today on
+  if (input.effectiveFrom < today) return 'Fee changes cannot be backdated';
+  return null;
+}
+
+/**
+ * The fee in force on `date`: the latest version effective on or before it. A date
+ * before the first recorded version gets that first version (the fee the subject had
+ * before it was ever re-priced). Undefined when there is no history.
+ */
+export function feeOn(versions: FeeVersionLike[], date: string): number | undefined {
+  if (versions.length === 0) return undefined;
+  const sorted = [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  const inForce = sorted.filter((v) => v.effectiveFrom <= date).pop() || sorted[0];
+  return Number(inForce.baseFee);
+}
+
+export function hasDependants(d: SubjectDependants): boolean {
+  return d.activeStudents > 0 || d.schedules > 0 || d.teachers.length > 0 || d.combos.length > 0;
+}
+
+async function feeVersions(subjectIds?: string[]) {
+  return await db
+    .select()
+    .from(subjectFeeVersions)
+    .where(subjectIds ? inArray(subjectFeeVersions.subjectId, subjectIds) : undefined)
+    .orderBy(asc(subjectFeeVersions.effectiveFrom));
+}
+
+/** Fee of every subject with fee history, as of `date`. Subjects without history bill at baseFee. */
+export async function subjectFeesOn(date: string): Promise<Map<string, number>> {
+  const bySubject = new Map<string, FeeVersionLike[]>();
+  for (const v of await feeVersions()) {
+    bySubject.set(v.subjectId, [...(bySubject.get(v.subjectId) || []), v]);
+  }
+  const fees = new Map<string, number>();
+  bySubject.forEach((versions, subjectId) => fees.set(subjectId, feeOn(versions, date)!));
+  return fees;
+}
+
+export async function getSubjectCatalogue(
+  options: { classLevel?: string; includeInactive?: boolean; today?: string } = {},
+): Promise<any[]> {
+  const today = options.today || todayIn();
+  const conditions = [];
+  if (!options.includeInactive) conditions.push(eq(subjects.isActive, true));
+  if (options.classLevel) conditions.push(sql`${options.classLevel} = ANY(${subjects.classLevels})`);
+
+  const rows = await db
+    .select()
+    .from(subjects)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(asc(subjects.name));
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((s) => s.id);
+  const versions = await feeVersions(ids);
+  const enrolled = await db
+    .select({ subjectId: enrollments.subjectId, students: sql<number>`count(distinct ${enrollments.studentId})::int` })
+    .from(enrollments)
+    .where(and(inArray(enrollments.subjectId, ids), eq(enrollments.isActive, true)))
+    .groupBy(enrollments.subjectId);
+
+  return rows.map((subject) => {
+    const history = versions.filter((v) => v.subjectId === subject.id);
+    return {
+      ...subject,
+      feeHistory: history,
+      upcomingFee: history.find((v) => v.effectiveFrom > today) || null,
+      activeStudents: enrolled.find((e) => e.subjectId === subject.id)?.students ?? 0,
+    };
+  });
+}
+
+async function assertCodeAvailable(code: string, exceptId?: string): Promise<void> {
+  const [clash] = await db
+    .select({ id: subjects.id })
+    .from(subjects)
+    .where(sql`lower(${subjects.code}) = lower(${code.trim()})`)
+    .limit(1);
+  if (clash && clash.id !== exceptId) throw new Error(`Subject code ${code.trim()} is already in use`);
+}
+
+export async function createSubject(input: SubjectInput, createdBy: string, today = todayIn()): Promise<Subject> {
+  const error = validateSubject(input);
+  if (error) throw new Error(error);
+  await assertCodeAvailable(input.code);
+
+  const baseFee = Number(input.baseFee).toFixed(2);
+  return await db.transaction(async (tx) => {
+    const [subject] = await (tx as any)
+      .insert(subjects)
+      .values({
+        name: input.name.trim(),
+        code: input.code.trim(),
+        classLevels: input.classLevels,
+        baseFee,
+        description: input.description?.trim() || null,
+      })
+      .returning();
+    await (tx as any).insert(subjectFeeVersions).values({ subjectId: subject.id, baseFee, effectiveFrom: today, reason: 'Initial fee', createdBy });
+    return subject;
+  });
+}
+
+/** Edit a subject's details. The fee is changed through repriceSubject so it stays versioned. */
+export async function updateSubject(id: string, input: SubjectInput): Promise<Subject> {
+  const error = validateSubject(input, false);
+  if (error) throw new Error(error);
+  await assertCodeAvailable(input.code, id);
+
+  const [subject] = await db
+    .update(subjects)
+    .set({
+      name: input.name.trim(),
+      code: input.code.trim(),
+      classLevels: input.classLevels,
+      description: input.description?.trim() || null,
+    })
+    .where(eq(subjects.id, id))
+    .returning();
+  if (!subject) throw new Error('Subject not found');
+  return subject;
+}
+
+/**
+ * Schedule a new fee from `effectiveFrom`. A subject re-priced for the first time gets
+ * its current fee recorded as a baseline from its creation date, so periods before the
+ * change keep billing at it. A second change on the same date replaces the first.
+ */
+export async function repriceSubject(id: string, input: FeeChangeInput, createdBy: string, today = todayIn()): Promise<any> {
+  const error = validateFeeChange(input, today);
+  if (error) throw new Error(error);
+
+  const [subject] = await db.select().from(subjects).where(eq(subjects.id, id));
+  if (!subject) throw new Error('Subject not found');
+
+  const baseFee = Number(input.baseFee).toFixed(2);
+  await db.transaction(async (tx) => {
+    await (tx as any)
+      .insert(subjectFeeVersions)
+      .values({
+        subjectId: id,
+        baseFee: subject.baseFee,
+        effectiveFrom: subject.createdAt ? todayIn(undefined, subject.createdAt) : today,
+        reason: 'Fee before first change',
+        createdBy,
+      })
+      .onConflictDoNothing();
+    await (tx as any)
+      .insert(subjectFeeVersions)
+      .values({ subjectId: id, baseFee, effectiveFrom: input.effectiveFrom, reason: input.reason?.trim() || null, createdBy })
+      .onConflictDoUpdate({
+        target: [subjectFeeVersions.subjectId, subjectFeeVersions.effectiveFrom],
+        set: { baseFee, reason: input.reason?.trim() || null, createdBy, createdAt: new Date() },
+      });
+    if (input.effectiveFrom <= today) {
+      await tx.update(subjects).set({ baseFee }).where(eq(subjects.id, id));
+    }
+  });
+
+  const [updated] = await getSubjectCatalogue({ includeInactive: true, today }).then((all) => all.filter((s) => s.id === id));
+  return updated;
+}
+
+/** Withdraw a fee change that has not taken effect yet. */
+export async function cancelFeeChange(subjectId: string, versionId: string, today = todayIn()): Promise<void> {
+  const [version] = await db
+    .select()
+    .from(subjectFeeVersions)
+    .where(and(eq(subjectFeeVersions.id, versionId), eq(subjectFeeVersions.subjectId, subjectId)));
+  if (!version) throw new Error('Fee change not found');
+  if (version.effectiveFrom <= today) throw new Error('This fee is already in force; schedule a new change instead');
+  await db.delete(subjectFeeVersions).where(eq(subjectFeeVersions.id, versionId));
+}
+
+/**
+ * Bring subjects.baseFee in line with the version in force on `asOf`. Run daily by the
+ * scheduler so future-dated changes take effect on their day.
+ */
+export async function applyDueSubjectFees(asOf: string): Promise<{ evaluated: number; updated: number }> {
+  const fees = await subjectFeesOn(asOf);
+  if (fees.size === 0) return { evaluated: 0, updated: 0 };
+
+  const rows = await db
+    .select({ id: subjects.id, baseFee: subjects.baseFee })
+    .from(subjects)
+    .where(inArray(subjects.id, Array.from(fees.keys())));
+  let updated = 0;
+  for (const row of rows) {
+    const fee = fees.get(row.id)!;
+    if (Number(row.baseFee) === fee) continue;
+    await db.update(subjects).set({ baseFee: fee.toFixed(2) }).where(eq(subjects.id, row.id));
+    updated++;
+  }
+  return { evaluated: rows.length, updated };
+}
+
+/** What still depends on a subject: shown as a warning before it is archived. */
+export async function getSubjectDependants(id: string): Promise<SubjectDependants> {
+  const [enrolled] = await db
+    .select({ students: sql<number>`count(distinct ${enrollments.studentId})::int` })
+    .from(enrollments)
+    .where(and(eq(enrollments.subjectId, id), eq(enrollments.isActive, true)));
+  const [scheduled] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(classSchedules)
+    .where(and(eq(classSchedules.subjectId, id), eq(classSchedules.isActive, true)));
+  const [classCount] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(classes)
+    .where(and(eq(classes.subjectId, id), eq(classes.isActive, true)));
+  const teachers = await db
+    .select({ id: users.id, name: sql<string>`${users.firstName} || ' ' || ${users.lastName}` })
+    .from(users)
+    .where(and(sql`${id} = ANY(${users.teacherSubjects})`, eq(users.isActive, true)))
+    .orderBy(asc(users.firstName));
+  const combos = await db
+    .select({ id: subjectCombos.id, name: subjectCombos.name })
+    .from(comboSubjects)
+    .innerJoin(subjectCombos, eq(comboSubjects.comboId, subjectCombos.id))
+    .where(and(eq(comboSubjects.subjectId, id), eq(subjectCombos.isActive, true)));
+
+  return {
+    activeStudents: enrolled?.students ?? 0,
+    schedules: (scheduled?.count ?? 0) + (classCount?.count ?? 0),
+    teachers,
+    combos,
+  };
+}
+
+/** Archive or restore a subject. Archiving stops new enrollments; existing ones are left to finish. */
+export async function setSubjectActive(id: string, isActive: boolean): Promise<Subject> {
+  const [subject] = await db
+    .update(subjects)
+    .set({ isActive })
+    .where(eq(subjects.id, id))
+    .returning();
+  if (!subject) throw new Error('Subject not found');
+  return subject;
+}
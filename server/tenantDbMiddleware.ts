@@ -20,7 +20,16 @@ export function tenantDbMiddleware(req: Request, res: Response, next: NextFuncti
     return next();
   }
 
-  runWithTenant(user.tenantId, user.branchId ?? null, () =>
+  pinTenantForRequest(user.tenantId, user.branchId ?? null, res, next);
+}
+
+/**
+ * Run the rest of the request (`next`) on a connection pinned to the tenant, released
+ * once the response has finished. Also used by routes that resolve the tenant from
+ * something other than the session user (e.g. portal links, see portalTokens.ts).
+ */
+export function pinTenantForRequest(tenantId: string, branchId: string | null, res: Response, next: NextFunction) {
+  runWithTenant(tenantId, branchId, () =>
     new Promise<void>((resolve) => {
       let settled = false;
       const done = () => {
@@ -0,0 +1,372 @@
+/**
+ * The timetable: recurring class_schedules plus one-off schedule_changes (cancellations,
+ * reschedules, extra classes) expanded into concrete dated class_sessions.
+ *
+ * Expansion is pure (expandSessions). Sessions are materialised lazily: reading a date
+ * range first brings class_sessions in line with the schedules and changes for it, so
+ * attendance, the teacher's day, the student schedule and extra-class earnings can all
+ * hold a stable session id. Sessions that no longer follow from the timetable are removed
+ * unless attendance was taken for them.
+ */
+import { and, asc, eq, gte, inArray, isNull, lte, notInArray, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { daysBetween } from "./lateFees";
+import {
+  attendance,
+  classSchedules,
+  classSessions,
+  enrollments,
+  scheduleChanges,
+  subjects,
+  users,
+  type ClassSchedule,
+  type ScheduleChange,
+} from "@shared/schema";
+
+/** Weekday names indexed like Date.getUTCDay() (0 = Sunday), as stored in day_of_week. */
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const MAX_SESSION_RANGE_DAYS = 93;
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string;   // YYYY-MM-DD, inclusive
+}
+
+export type RecurringSchedule = Pick<ClassSchedule, 'id' | 'branchId' | 'teacherId' | 'subjectId' | 'dayOfWeek' | 'startTime' | 'endTime' | 'roomId' | 'location'>;
+export type TimetableChange = Pick<ScheduleChange,
+  'id' | 'scheduleId' | 'teacherId' | 'subjectId' | 'changeType' | 'affectedDate' |
+  'originalStartTime' | 'newStartTime' | 'newEndTime' | 'newRoomId' | 'newLocation'>;
+
+export interface PlannedSession {
+  scheduleId: string | null;
+  scheduleChangeId: string | null;
+  branchId: string | null;
+  teacherId: string;
+  subjectId: string;
+  sessionDate: string;
+  startTime: string;
+  endTime: string;
+  roomId: string | null;
+  location: string | null;
+  status: 'scheduled' | 'cancelled';
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_RE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Returns an error message, or null when sessions can be listed for this range. */
+export function validateSessionRange(range: Partial<DateRange>): string | null {
+  if (!isDate(range.start) || !isDate(range.end)) return 'Dates must be in YYYY-MM-DD format';
+  if (range.end < range.start) return 'The end date must not be before the start date';
+  if (daysBetween(range.start, range.end) + 1 > MAX_SESSION_RANGE_DAYS) {
+    return `A range can cover at most ${MAX_SESSION_RANGE_DAYS} days`;
+  }
+  return null;
+}
+
+/** Identity of a session across syncs: the schedule and date, or the extra class itself. */
+export const sessionKey = (s: Pick<PlannedSession, 'scheduleId' | 'scheduleChangeId' | 'sessionDate'>) =>
+  s.scheduleId ? `${s.scheduleId}:${s.sessionDate}` : `extra:${s.scheduleChangeId}`;
+
+// Extra classes go in first so a later cancellation can call one off; reschedules are
+// applied before cancellations so a cancellation always wins
+const CHANGE_ORDER: Record<TimetableChange['changeType'], number> = { extra_class: 0, reschedule: 1, cancellation: 2 };
+
+// A change names a registered room (newLocation then holds its name), a free-text place,
+// or neither and keeps where the class already was
+const placeOf = (change: TimetableChange, current: Pick<PlannedSession, 'roomId' | 'location'>) =>
+  change.newRoomId || change.newLocation
+    ? { roomId: change.newRoomId ?? null, location: change.newLocation ?? null }
+    : { roomId: current.roomId, location: current.location };
+
+function findOccurrence(sessions: PlannedSession[], change: TimetableChange): PlannedSession | undefined {
+  const sameDay = sessions.filter((s) =>
+    s.sessionDate === change.affectedDate &&
+    (change.scheduleId
+      ? s.scheduleId === change.scheduleId
+      : s.teacherId === change.teacherId && s.subjectId === change.subjectId));
+  if (sameDay.length > 1 && change.originalStartTime) {
+    return sameDay.find((s) => s.startTime === change.originalStartTime) ?? sameDay[0];
+  }
+  return sameDay[0];
+}
+
+/**
+ * Dated sessions for the range: every weekly occurrence of the (active) schedules, moved
+ * or cancelled by the changes that affect them, plus the extra classes. Changes that do
+ * not match an occurrence are ignored. Sorted by date and start time.
+ */
+export function expandSessions(schedules: RecurringSchedule[], changes: TimetableChange[], range: DateRange): PlannedSession[] {
+  const sessions: PlannedSession[] = [];
+  for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+    const day = weekdayOf(date);
+    for (const schedule of schedules) {
+      if (schedule.dayOfWeek !== day) continue;
+      sessions.push({
+        scheduleId: schedule.id,
+        scheduleChangeId: null,
+        branchId: schedule.branchId ?? null,
+        teacherId: schedule.teacherId,
+        subjectId: schedule.subjectId,
+        sessionDate: date,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        roomId: schedule.roomId ?? null,
+        location: schedule.location ?? null,
+        status: 'scheduled',
+      });
+    }
+  }
+
+  const inRange = changes
+    .filter((c) => c.affectedDate >= range.start && c.affectedDate <= range.end)
+    .sort((a, b) => CHANGE_ORDER[a.changeType] - CHANGE_ORDER[b.changeType]);
+
+  for (const change of inRange) {
+    if (change.changeType === 'extra_class') {
+      if (!change.newStartTime || !change.newEndTime) continue;
+      const parent = change.scheduleId ? schedules.find((s) => s.id === change.scheduleId) : undefined;
+      sessions.push({
+        scheduleId: null,
+        scheduleChangeId: change.id,
+        branchId: parent?.branchId ?? null,
+        teacherId: change.teacherId,
+        subjectId: change.subjectId,
+        sessionDate: change.affectedDate,
+        startTime: change.newStartTime,
+        endTime: change.newEndTime,
+        ...placeOf(change, { roomId: parent?.roomId ?? null, location: parent?.location ?? null }),
+        status: 'scheduled',
+      });
+      continue;
+    }
+
+    const occurrence = findOccurrence(sessions, change);
+    if (!occurrence) continue;
+    // An extra class keeps its own change id; recurring occurrences record what changed them
+    if (occurrence.scheduleId) occurrence.scheduleChangeId = change.id;
+    if (change.changeType === 'cancellation') {
+      occurrence.status = 'cancelled';
+    } else {
+      occurrence.startTime = change.newStartTime || occurrence.startTime;
+      occurrence.endTime = change.newEndTime || occurrence.endTime;
+      Object.assign(occurrence, placeOf(change, occurrence));
+    }
+  }
+
+  return sessions.sort((a, b) =>
+    a.sessionDate.localeCompare(b.sessionDate) || a.startTime.localeCompare(b.startTime));
+}
+
+/** Whose sessions to work with; omitted fields are not filtered on. */
+export interface SessionScope {
+  teacherId?: string;
+  subjectIds?: string[];
+}
+
+const scopeConditions = (scope: SessionScope) => [
+  scope.teacherId ? eq(classSessions.teacherId, scope.teacherId) : undefined,
+  scope.subjectIds ? inArray(classSessions.subjectId, scope.subjectIds) : undefined,
+];
+
+/** Bring class_sessions for the range (and scope) in line with the timetable. */
+export async function syncSessions(range: DateRange, scope: SessionScope = {}): Promise<void> {
+  if (scope.subjectIds?.length === 0) return;
+
+  const schedules = await db
+    .select()
+    .from(classSchedules)
+    .where(and(
+      eq(classSchedules.isActive, true),
+      scope.teacherId ? eq(classSchedules.teacherId, scope.teacherId) : undefined,
+      scope.subjectIds ? inArray(classSchedules.subjectId, scope.subjectIds) : undefined,
+    ));
+  const changes = await db
+    .select()
+    .from(scheduleChanges)
+    .where(and(
+      gte(scheduleChanges.affectedDate, range.start),
+      lte(scheduleChanges.affectedDate, range.end),
+      scope.teacherId ? eq(scheduleChanges.teacherId, scope.teacherId) : undefined,
+      scope.subjectIds ? inArray(scheduleChanges.subjectId, scope.subjectIds) : undefined,
+    ));
+  const planned = expandSessions(schedules, changes, range);
+
+  const existing = await db
+    .select()
+    .from(classSessions)
+    .where(and(
+      gte(classSessions.sessionDate, range.start),
+      lte(classSessions.sessionDate, range.end),
+      ...scopeConditions(scope),
+    ));
+  const byKey = new Map(existing.map((s) => [sessionKey(s), s]));
+
+  const inserts: PlannedSession[] = [];
+  for (const plan of planned) {
+    const current = byKey.get(sessionKey(plan));
+    byKey.delete(sessionKey(plan));
+    if (!current) {
+      inserts.push(plan);
+      continue;
+    }
+    if (
+      current.startTime !== plan.startTime || current.endTime !== plan.endTime ||
+      current.roomId !== plan.roomId || current.location !== plan.location || current.status !== plan.status ||
+      current.scheduleChangeId !== plan.scheduleChangeId || current.teacherId !== plan.teacherId
+    ) {
+      await db
+        .update(classSessions)
+        .set({
+          startTime: plan.startTime,
+          endTime: plan.endTime,
+          roomId: plan.roomId,
+          location: plan.location,
+          status: plan.status,
+          scheduleChangeId: plan.scheduleChangeId,
+          teacherId: plan.teacherId,
+          updatedAt: new Date(),
+        })
+        .where(eq(classSessions.id, current.id));
+    }
+  }
+
+  if (inserts.length > 0) {
+    // A concurrent read may have created the same sessions; the unique keys keep one
+    await (db as any)
+      .insert(classSessions)
+      .values(inserts.map(({ branchId, ...plan }) => (branchId ? { ...plan, branchId } : plan)))
+      .onConflictDoNothing();
+  }
+
+  // Left over: the schedule or change behind them is gone. Keep any with attendance.
+  const stale = Array.from(byKey.values()).map((s) => s.id);
+  if (stale.length > 0) {
+    const taken = await db
+      .selectDistinct({ sessionId: attendance.sessionId })
+      .from(attendance)
+      .where(inArray(attendance.sessionId, stale));
+    const keep = taken.map((t) => t.sessionId).filter((id): id is string => !!id);
+    await db
+      .delete(classSessions)
+      .where(and(
+        inArray(classSessions.id, stale),
+        keep.length > 0 ? notInArray(classSessions.id, keep) : undefined,
+      ));
+  }
+}
+
+const teachers = alias(users, 'session_teacher');
+
+const sessionColumns = {
+  id: classSessions.id,
+  sessionDate: classSessions.sessionDate,
+  startTime: classSessions.startTime,
+  endTime: classSessions.endTime,
+  roomId: classSessions.roomId,
+  location: classSessions.location,
+  status: classSessions.status,
+  branchId: classSessions.branchId,
+  scheduleId: classSessions.scheduleId,
+  scheduleChangeId: classSessions.scheduleChangeId,
+  changeType: scheduleChanges.changeType,
+  changeReason: scheduleChanges.reason,
+  subjectId: classSessions.subjectId,
+  subject: subjects.name,
+  subjectCode: subjects.code,
+  teacherId: classSessions.teacherId,
+  teacherFirstName: teachers.firstName,
+  teacherLastName: teachers.lastName,
+};
+
+const sessionView = (row: any) => {
+  const { teacherFirstName, teacherLastName, ...session } = row;
+  return { ...session, teacherName: `${teacherFirstName || ''} ${teacherLastName || ''}`.trim() };
+};
+
+export type SessionView = ReturnType<typeof sessionView>;
+
+const selectSessions = () => db
+  .select(sessionColumns)
+  .from(classSessions)
+  .innerJoin(subjects, eq(classSessions.subjectId, subjects.id))
+  .leftJoin(teachers, eq(classSessions.teacherId, teachers.id))
+  .leftJoin(scheduleChanges, eq(classSessions.scheduleChangeId, scheduleChanges.id));
+
+/** Sessions in the range (synced first), by date and start time, cancelled ones included. */
+export async function listSessions(range: DateRange, scope: SessionScope = {}): Promise<SessionView[]> {
+  if (scope.subjectIds?.length === 0) return [];
+  await syncSessions(range, scope);
+  const rows = await selectSessions()
+    .where(and(
+      gte(classSessions.sessionDate, range.start),
+      lte(classSessions.sessionDate, range.end),
+      ...scopeConditions(scope),
+    ))
+    .orderBy(asc(classSessions.sessionDate), asc(classSessions.startTime));
+  return rows.map(sessionView);
+}
+
+// Students a teacher teaches: active enrollments with them, or not assigned to a teacher
+// in a subject they have a weekly class of
+export const studentsTaughtBy = (teacherId: string) => db
+  .select({ studentId: enrollments.studentId })
+  .from(enrollments)
+  .where(and(
+    eq(enrollments.isActive, true),
+    or(
+      eq(enrollments.teacherId, teacherId),
+      and(
+        isNull(enrollments.teacherId),
+        inArray(
+          enrollments.subjectId,
+          db
+            .select({ subjectId: classSchedules.subjectId })
+            .from(classSchedules)
+            .where(and(eq(classSchedules.teacherId, teacherId), eq(classSchedules.isActive, true))),
+        ),
+      ),
+    ),
+  ));
+
+export async function getSession(id: string): Promise<SessionView | undefined> {
+  const [row] = await selectSessions().where(eq(classSessions.id, id));
+  return row ? sessionView(row) : undefined;
+}
+
+/** Extra classes the teacher actually held in the range (cancelled ones excluded). */
+export async function getExtraClassSessions(teacherId: string, range: DateRange) {
+  await syncSessions(range, { teacherId });
+  return db
+    .select({
+      id: classSessions.id,
+      scheduleChangeId: classSessions.scheduleChangeId,
+      sessionDate: classSessions.sessionDate,
+      subjectId: classSessions.subjectId,
+      subjectName: subjects.name,
+    })
+    .from(classSessions)
+    .leftJoin(subjects, eq(classSessions.subjectId, subjects.id))
+    .where(and(
+      eq(classSessions.teacherId, teacherId),
+      eq(classSessions.status, 'scheduled'),
+      gte(classSessions.sessionDate, range.start),
+      lte(classSessions.sessionDate, range.end),
+      isNull(classSessions.scheduleId),
+    ))
+    .orderBy(asc(classSessions.sessionDate));
+}
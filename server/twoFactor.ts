@@ -0,0 +1,259 @@
+/**
+ * TOTP two-factor authentication (RFC 6238: HMAC-SHA1, 6 digits, 30-second steps).
+ *
+ * Enrollment stores a fresh secret on the user but leaves two_factor_enabled_at empty
+ * until a code from the authenticator app proves it was scanned; enabling issues ten
+ * single-use recovery codes, of which only SHA-256 hashes are kept. At sign-in a code
+ * is accepted one step either side of now, and never for a step at or before the last
+ * one used, so an observed code cannot be replayed. Each school chooses the roles for
+ * which 2FA is mandatory (tenants.two_factor_required_roles); those users are sent to
+ * enrollment before anything else once signed in.
+ *
+ * Every time-dependent function takes `now`, so codes are reproducible in tests.
+ */
+import { createHash, createHmac, randomBytes } from "crypto";
+import { eq } from "drizzle-orm";
+import QRCode from "qrcode";
+import { db } from "./db";
+import { tenants, users, type User } from "@shared/schema";
+import { comparePassword } from "./passwordUtils";
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const RECOVERY_CODE_COUNT = 10;
+
+// Roles a school may make 2FA mandatory for (staff who sign in with a password)
+export const TWO_FACTOR_ROLES = ['management', 'finance', 'teacher'] as const;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+export function totpStep(now = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** RFC 4226 HOTP value for a counter. */
+export function hotp(secret: Buffer, counter: number, digits = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function totpCode(secret: string, now = new Date()): string {
+  return hotp(base32Decode(secret), totpStep(now));
+}
+
+/**
+ * The time step a code matches (within `window` steps of now), or null. Steps at or
+ * before `lastStep` are refused so a code works only once.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now = new Date(),
+  lastStep: number | null = null,
+  window = 1,
+): number | null {
+  const normalized = String(code ?? '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const key = base32Decode(secret);
+  const current = totpStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    if (lastStep != null && step <= lastStep) continue;
+    if (hotp(key, step) === normalized) return step;
+  }
+  return null;
+}
+
+export function generateTwoFactorSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function otpauthUri(issuer: string, account: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(TOTP_DIGITS), period: String(TOTP_PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+const normalizeRecoveryCode = (code: string) => String(code ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** Recovery codes as shown to the user (XXXXX-XXXXX). */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/** The stored hashes left after using `code`, or null when it is not one of them. */
+export function consumeRecoveryCode(hashes: string[] | null | undefined, code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  const list = hashes ?? [];
+  return list.includes(hash) ? list.filter((h) => h !== hash) : null;
+}
+
+export function isTwoFactorRequired(role: string, requiredRoles: string[] | null | undefined): boolean {
+  return !!requiredRoles?.includes(role);
+}
+
+// ---- Database ----
+
+export async function getTwoFactorRoles(tenantId: string): Promise<string[]> {
+  const [tenant] = await db.select({ roles: tenants.twoFactorRequiredRoles }).from(tenants).where(eq(tenants.id, tenantId));
+  return tenant?.roles ?? [];
+}
+
+export async function saveTwoFactorRoles(tenantId: string, roles: unknown): Promise<string[]> {
+  if (!Array.isArray(roles) || roles.some((r) => !(TWO_FACTOR_ROLES as readonly string[]).includes(r))) {
+    throw new Error(`Roles must be any of: ${TWO_FACTOR_ROLES.join(', ')}`);
+  }
+  const unique = Array.from(new Set(roles as string[]));
+  await db.update(tenants).set({ twoFactorRequiredRoles: unique, updatedAt: new Date() }).where(eq(tenants.id, tenantId));
+  return unique;
+}
+
+/** Whether a signed-in user is still owed 2FA enrollment by their school's policy. */
+export async function twoFactorSetupRequired(user: Pick<User, 'tenantId' | 'role' | 'twoFactorEnabledAt'>): Promise<boolean> {
+  if (user.twoFactorEnabledAt) return false;
+  return isTwoFactorRequired(user.role, await getTwoFactorRoles(user.tenantId));
+}
+
+async function loadUser(userId: string): Promise<User> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
+  if (!user) throw new Error('User not found');
+  return user;
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await loadUser(userId);
+  return {
+    enabled: !!user.twoFactorEnabledAt,
+    enabledAt: user.twoFactorEnabledAt,
+    required: isTwoFactorRequired(user.role, await getTwoFactorRoles(user.tenantId)),
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+  };
+}
+
+/** Start (or restart) enrollment: a new pending secret, as an otpauth URI and QR code. */
+export async function beginTwoFactorSetup(userId: string) {
+  const user = await loadUser(userId);
+  if (user.twoFactorEnabledAt) throw new Error('Two-factor authentication is already enabled');
+  const [tenant] = await db.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, user.tenantId));
+
+  const secret = generateTwoFactorSecret();
+  await db.update(users).set({ twoFactorSecret: secret, twoFactorLastStep: null, updatedAt: new Date() }).where(eq(users.id, userId));
+
+  const uri = otpauthUri(tenant?.name || 'Frontbench', user.email || user.id, secret);
+  return { secret, otpauthUri: uri, qrCode: await QRCode.toDataURL(uri) };
+}
+
+/** Confirm enrollment with a code from the app. Returns the recovery codes (shown once). */
+export async function enableTwoFactor(userId: string, code: string, now = new Date()): Promise<string[]> {
+  const user = await loadUser(userId);
+  if (user.twoFactorEnabledAt) throw new Error('Two-factor authentication is already enabled');
+  if (!user.twoFactorSecret) throw new Error('Start two-factor setup first');
+  const step = verifyTotp(user.twoFactorSecret, code, now);
+  if (step === null) throw new Error('That code is not valid. Check the time on your device and try again.');
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.update(users).set({
+    twoFactorEnabledAt: now,
+    twoFactorLastStep: step,
+    twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    updatedAt: new Date(),
+  }).where(eq(users.id, userId));
+  return recoveryCodes;
+}
+
+/**
+ * Check a sign-in's second factor (an app code or a recovery code) and consume it.
+ * Returns how it was satisfied, or null when it was not.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string },
+  now = new Date(),
+): Promise<'totp' | 'recovery_code' | null> {
+  const user = await loadUser(userId);
+  if (!user.twoFactorEnabledAt || !user.twoFactorSecret) return null;
+
+  if (input.recoveryCode) {
+    const remaining = consumeRecoveryCode(user.twoFactorRecoveryCodes, input.recoveryCode);
+    if (!remaining) return null;
+    await db.update(users).set({ twoFactorRecoveryCodes: remaining }).where(eq(users.id, userId));
+    return 'recovery_code';
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, input.code ?? '', now, user.twoFactorLastStep);
+  if (step === null) return null;
+  await db.update(users).set({ twoFactorLastStep: step }).where(eq(users.id, userId));
+  return 'totp';
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string, now = new Date()): Promise<string[]> {
+  if (!(await verifySecondFactor(userId, { code }, now))) throw new Error('That code is not valid');
+  const recoveryCodes = generateRecoveryCodes();
+  await db.update(users).set({ twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() }).where(eq(users.id, userId));
+  return recoveryCodes;
+}
+
+/** Turn 2FA off for yourself; needs the password, and is refused where the school requires it. */
+export async function disableTwoFactor(userId: string, password: string): Promise<void> {
+  const user = await loadUser(userId);
+  if (!(await comparePassword(password, user.password ?? ''))) throw new Error('Password is incorrect');
+  if (isTwoFactorRequired(user.role, await getTwoFactorRoles(user.tenantId))) {
+    throw new Error('Your school requires two-factor authentication for your role');
+  }
+  await resetTwoFactor(userId);
+}
+
+/** Clear a user's 2FA (management, e.g. for a lost phone); they enroll again if their role requires it. */
+export async function resetTwoFactor(userId: string): Promise<void> {
+  await db.update(users).set({
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: null,
+    updatedAt: new Date(),
+  }).where(eq(users.id, userId));
+}
@@ -0,0 +1,168 @@
+/**
+ * Server-side login sessions (connect-pg-simple's `sessions` table).
+ *
+ * Sessions are not tenant rows - the store reads them before any tenant is known - so
+ * these helpers run on the shared pool and always filter by the signed-in user's id
+ * (setStaffActive, which changes a user, is the exception and runs in tenant context).
+ *
+ * Each session remembers the device it was opened from and when it was last used, so a
+ * user can see where they are signed in and end the other sessions. Schools may sign
+ * people out after a period of inactivity, set per role (tenants.session_idle_minutes);
+ * without a limit a session lasts until the cookie's one-week expiry.
+ */
+import { createHash } from "crypto";
+import { and, eq, gt, ne, sql } from "drizzle-orm";
+import { db, poolDb } from "./db";
+import { sessions, tenants, users } from "@shared/schema";
+
+// Roles a school may set an idle timeout for
+export const IDLE_TIMEOUT_ROLES = ['management', 'finance', 'teacher', 'parent'] as const;
+export const IDLE_TIMEOUT_LIMITS = { minMinutes: 5, maxMinutes: 7 * 24 * 60 };
+
+// lastActivityAt is only rewritten when it is this stale, so not every request saves the session
+export const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+/** Sign a user out everywhere, optionally keeping the session making the change. Returns how many were ended. */
+export async function destroyUserSessions(userId: string, exceptSid?: string): Promise<number> {
+  const rows = await poolDb
+    .delete(sessions)
+    .where(and(
+      sql`${sessions.sess} -> 'user' ->> 'id' = ${userId}`,
+      exceptSid ? ne(sessions.sid, exceptSid) : undefined,
+    ))
+    .returning({ sid: sessions.sid });
+  return rows.length;
+}
+
+/** The id a session is shown under; the real sid is a credential and never leaves the server. */
+export function publicSessionId(sid: string): string {
+  return createHash('sha256').update(sid).digest('hex').slice(0, 24);
+}
+
+/** A short description of a browser user agent, e.g. "Chrome on Windows". */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+}
+
+/** Returns an error message, or null when the per-role idle timeouts can be saved. */
+export function validateIdleTimeouts(input: unknown): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return 'Idle timeouts must be an object of role to minutes';
+  for (const [role, minutes] of Object.entries(input)) {
+    if (!(IDLE_TIMEOUT_ROLES as readonly string[]).includes(role)) {
+      return `Roles must be any of: ${IDLE_TIMEOUT_ROLES.join(', ')}`;
+    }
+    if (minutes === null) continue;
+    if (!Number.isInteger(minutes) || (minutes as number) < IDLE_TIMEOUT_LIMITS.minMinutes || (minutes as number) > IDLE_TIMEOUT_LIMITS.maxMinutes) {
+      return `Idle timeout must be between ${IDLE_TIMEOUT_LIMITS.minMinutes} and ${IDLE_TIMEOUT_LIMITS.maxMinutes} minutes`;
+    }
+  }
+  return null;
+}
+
+/** The idle limit in minutes for a role, or null when the school has none. Super admins follow management. */
+export function idleLimitFor(limits: Record<string, number> | null | undefined, role: string): number | null {
+  const key = role === 'super_admin' ? 'management' : role;
+  return limits?.[key] ?? null;
+}
+
+export function isSessionIdle(lastActivityAt: number | undefined, limitMinutes: number | null, now = Date.now()): boolean {
+  if (limitMinutes === null || lastActivityAt === undefined) return false;
+  return now - lastActivityAt > limitMinutes * 60 * 1000;
+}
+
+// Read on every request, so the policy is cached briefly per school; saving clears it
+const IDLE_POLICY_CACHE_MS = 60 * 1000;
+const idlePolicyCache = new Map<string, { limits: Record<string, number>; loadedAt: number }>();
+
+export async function getIdleTimeouts(tenantId: string): Promise<Record<string, number>> {
+  const cached = idlePolicyCache.get(tenantId);
+  if (cached && Date.now() - cached.loadedAt < IDLE_POLICY_CACHE_MS) return cached.limits;
+  const [tenant] = await poolDb.select({ limits: tenants.sessionIdleMinutes }).from(tenants).where(eq(tenants.id, tenantId));
+  const limits = tenant?.limits ?? {};
+  idlePolicyCache.set(tenantId, { limits, loadedAt: Date.now() });
+  return limits;
+}
+
+export async function saveIdleTimeouts(tenantId: string, input: unknown): Promise<Record<string, number>> {
+  const error = validateIdleTimeouts(input);
+  if (error) throw new Error(error);
+  const limits = Object.fromEntries(
+    Object.entries(input as Record<string, number | null>).filter((entry): entry is [string, number] => entry[1] !== null),
+  );
+  await db.update(tenants).set({ sessionIdleMinutes: limits, updatedAt: new Date() }).where(eq(tenants.id, tenantId));
+  idlePolicyCache.delete(tenantId);
+  return limits;
+}
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastActivityAt: string | null;
+  current: boolean;
+}
+
+/** A user's unexpired sessions, most recently used first. */
+export async function listUserSessions(userId: string, currentSid: string, idleLimitMinutes: number | null): Promise<ActiveSession[]> {
+  const rows = await poolDb
+    .select({ sid: sessions.sid, sess: sessions.sess })
+    .from(sessions)
+    .where(and(sql`${sessions.sess} -> 'user' ->> 'id' = ${userId}`, gt(sessions.expire, new Date())));
+
+  return rows
+    .map(({ sid, sess }) => ({ sid, sess: sess as { device?: { userAgent: string | null; ipAddress: string | null; signedInAt: number }; lastActivityAt?: number } }))
+    .filter(({ sid, sess }) => sid === currentSid || !isSessionIdle(sess.lastActivityAt, idleLimitMinutes))
+    .map(({ sid, sess }) => ({
+      id: publicSessionId(sid),
+      device: describeDevice(sess.device?.userAgent),
+      ipAddress: sess.device?.ipAddress ?? null,
+      signedInAt: sess.device ? new Date(sess.device.signedInAt).toISOString() : null,
+      lastActivityAt: sess.lastActivityAt ? new Date(sess.lastActivityAt).toISOString() : null,
+      current: sid === currentSid,
+    }))
+    .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastActivityAt ?? '').localeCompare(a.lastActivityAt ?? ''));
+}
+
+/** End one of the user's sessions by its public id. Returns false when there is no such session. */
+export async function destroyUserSession(userId: string, id: string): Promise<boolean> {
+  const rows = await poolDb
+    .select({ sid: sessions.sid })
+    .from(sessions)
+    .where(sql`${sessions.sess} -> 'user' ->> 'id' = ${userId}`);
+  const match = rows.find(({ sid }) => publicSessionId(sid) === id);
+  if (!match) return false;
+  await poolDb.delete(sessions).where(eq(sessions.sid, match.sid));
+  return true;
+}
+
+/**
+ * Deactivate or reactivate a staff account (tenant context). Deactivating signs them out
+ * everywhere at once. Returns undefined when there is no such staff member.
+ */
+export async function setStaffActive(userId: string, isActive: boolean): Promise<{ id: string; isActive: boolean; sessionsEnded: number } | undefined> {
+  const [user] = await db
+    .update(users)
+    .set({ isActive, updatedAt: new Date() })
+    .where(and(eq(users.id, userId), ne(users.role, 'parent')))
+    .returning({ id: users.id });
+  if (!user) return undefined;
+  const sessionsEnded = isActive ? 0 : await destroyUserSessions(userId);
+  return { id: user.id, isActive, sessionsEnded };
+}
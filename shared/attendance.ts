@@ -0,0 +1,44 @@
+// Attendance statuses and how they count, shared by the server and the portal pages
+// (attendanceStatusEnum in schema.ts holds the same statuses)
+
+export const ATTENDANCE_STATUSES = ['present', 'absent', 'late', 'excused', 'leave', 'medical'] as const;
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+// Absences the school accepted (a note, an approved leave request, a medical certificate)
+export const EXCUSED_STATUSES: readonly AttendanceStatus[] = ['excused', 'leave', 'medical'];
+
+export const isExcused = (status: string) => (EXCUSED_STATUSES as readonly string[]).includes(status);
+
+/**
+ * How a school counts excused absences in attendance percentages (tenants.excused_absences):
+ * left out of the percentage altogether, counted as attended, or counted as absent.
+ */
+export const EXCUSED_ABSENCE_POLICIES = {
+  exclude: 'Leave them out of the percentage',
+  present: 'Count them as attended',
+  absent: 'Count them as absent',
+} as const;
+export type ExcusedAbsencePolicy = keyof typeof EXCUSED_ABSENCE_POLICIES;
+
+export interface AttendanceRate {
+  attended: number;
+  counted: number; // Sessions the percentage is out of
+  percentage: number; // Whole percent; 0 when nothing counts yet
+}
+
+/** Attendance percentage of a set of marks. Late counts as attended. */
+export function attendanceRate(statuses: string[], policy: ExcusedAbsencePolicy = 'exclude'): AttendanceRate {
+  let attended = 0;
+  let counted = 0;
+  for (const status of statuses) {
+    if (isExcused(status)) {
+      if (policy === 'exclude') continue;
+      counted++;
+      if (policy === 'present') attended++;
+      continue;
+    }
+    counted++;
+    if (status === 'present' || status === 'late') attended++;
+  }
+  return { attended, counted, percentage: counted === 0 ? 0 : Math.round((attended / counted) * 100) };
+}
@@ -12,6 +12,7 @@ import {
   date,
   pgEnum,
   unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -41,6 +42,10 @@ export const tenants = pgTable("tenants", {
   timezone: varchar("timezone").default('Asia/Karachi'), // School timezone
   currency: varchar("currency").default('PKR'), // Currency code
   rollNumberPrefix: varchar("roll_number_prefix"), // Per-school student roll-number prefix (e.g. PMX, SID)
+  twoFactorRequiredRoles: text("two_factor_required_roles").array(), // Roles that must use two-factor sign-in
+  sessionIdleMinutes: jsonb("session_idle_minutes").$type<Record<string, number>>(), // Per-role idle sign-out, e.g. { finance: 30 }
+  attendanceAmendHours: integer("attendance_amend_hours").default(48), // Hours after a class ends that staff may still change its attendance; null = no cut-off
+  excusedAbsences: varchar("excused_absences").default('exclude'), // How excused/leave/medical count in attendance percentages (EXCUSED_ABSENCE_POLICIES)
   address: text("address"), // School address
   phone: varchar("phone"), // Contact phone
   email: varchar("email"), // Contact email
@@ -104,7 +109,15 @@ export const users = pgTable("users", {
   password: varchar("password"), // Hashed password for login
   temporaryPassword: varchar("temporary_password"), // Temporary password for first login
   mustChangePassword: boolean("must_change_password").default(true), // Force password change on first login
+  passwordChangedAt: timestamp("password_changed_at").defaultNow(), // Drives expiry under the tenant's password policy
+  failedLoginCount: integer("failed_login_count").default(0), // Consecutive failed sign-ins; reset on success or unlock
+  lockedUntil: timestamp("locked_until"), // Sign-in refused until then (see loginSecurity.ts)
+  twoFactorSecret: varchar("two_factor_secret"), // Base32 TOTP secret (pending until two_factor_enabled_at is set)
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorLastStep: integer("two_factor_last_step"), // Last TOTP time step accepted; older codes cannot be replayed
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array(), // SHA-256 hashes of unused recovery codes
   role: userRoleEnum("role").notNull(), // Primary role: teacher, finance, parent, management
+  customRoleId: varchar("custom_role_id").references((): AnyPgColumn => tenantRoles.id), // School-defined role; replaces the base role's default permissions
   isSuperAdmin: boolean("is_super_admin").default(false), // Super admin privileges
   isTeacher: boolean("is_teacher").default(false), // Whether they teach (for super admins who are also teachers)
   teacherSubjects: text("teacher_subjects").array(), // Array of subject IDs they teach (for teachers/super admin teachers)
@@ -120,11 +133,87 @@ export const users = pgTable("users", {
   unique("users_email_tenant_unique").on(table.email, table.tenantId),
 ]);
 
+// Password reset tokens: only the SHA-256 of the emailed token is stored; single use, expiring
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: varchar("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_password_reset_tokens_user").on(table.userId),
+]);
+
+// Password rules per school - at most one row per tenant; without one the defaults in passwordUtils apply
+export const passwordPolicies = pgTable("password_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  minLength: integer("min_length").default(8),
+  requireUppercase: boolean("require_uppercase").default(false),
+  requireLowercase: boolean("require_lowercase").default(false),
+  requireDigit: boolean("require_digit").default(false),
+  requireSymbol: boolean("require_symbol").default(false),
+  historyCount: integer("history_count").default(0), // Previous passwords that cannot be reused
+  maxAgeDays: integer("max_age_days").default(0), // Days before a password must be changed; 0 = never
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("password_policies_tenant_unique").on(table.tenantId),
+]);
+
+// Hashes of passwords users have chosen, checked against the policy's reuse history
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  passwordHash: varchar("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_password_history_user").on(table.userId),
+]);
+
+// Parent/student portal links. The URL carries a token signed over (id, expiry); the row
+// is what makes it revocable. A link covers one student, or every child of a parent.
+export const portalTokens = pgTable("portal_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  studentId: varchar("student_id").references(() => students.id),
+  parentId: varchar("parent_id").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: varchar("revoked_by").references(() => users.id),
+  lastUsedAt: timestamp("last_used_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_portal_tokens_student").on(table.studentId),
+  index("idx_portal_tokens_parent").on(table.parentId),
+]);
+
+// School-defined roles: a named set of permissions (see server/permissions.ts) assigned to
+// staff alongside their base role
+export const tenantRoles = pgTable("tenant_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  name: varchar("name").notNull(),
+  description: text("description"),
+  permissions: text("permissions").array().notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("tenant_roles_name_tenant_unique").on(table.tenantId, table.name),
+]);
+
 // Enums
 export const classLevelEnum = pgEnum('class_level', ['o-level', 'igcse', 'as-level', 'a2-level']);
 export const genderEnum = pgEnum('gender', ['male', 'female']);
 export const feeStatusEnum = pgEnum('fee_status', ['paid', 'pending', 'overdue', 'partial']);
-export const attendanceStatusEnum = pgEnum('attendance_status', ['present', 'absent', 'late']);
+export const attendanceStatusEnum = pgEnum('attendance_status', ['present', 'absent', 'late', 'excused', 'leave', 'medical']);
+export const leaveRequestStatusEnum = pgEnum('leave_request_status', ['pending', 'approved', 'rejected', 'cancelled']);
 export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'bank_transfer', 'card', 'cheque']);
 export const invoiceStatusEnum = pgEnum('invoice_status', ['draft', 'sent', 'paid', 'overdue', 'partial', 'cancelled']);
 export const invoiceTypeEnum = pgEnum('invoice_type', ['monthly', 'prorated', 'custom', 'multi_month', 'adjustment']);
@@ -134,7 +223,11 @@ export const announcementTypeEnum = pgEnum('announcement_type', ['homework', 'an
 export const priorityEnum = pgEnum('priority', ['low', 'medium', 'high']);
 export const dayOfWeekEnum = pgEnum('day_of_week', ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
 export const scheduleChangeTypeEnum = pgEnum('schedule_change_type', ['cancellation', 'reschedule', 'extra_class']);
+export const classSessionStatusEnum = pgEnum('class_session_status', ['scheduled', 'cancelled']);
 export const notificationStatusEnum = pgEnum('notification_status', ['pending', 'sent', 'read']);
+export const payoutRunStatusEnum = pgEnum('payout_run_status', ['open', 'locked']);
+export const lateFeeTypeEnum = pgEnum('late_fee_type', ['flat', 'percentage', 'per_day']);
+export const creditMovementTypeEnum = pgEnum('credit_movement_type', ['advance_payment', 'overpayment', 'applied_to_invoice', 'refund']);
 
 // Students table
 export const students = pgTable("students", {
@@ -159,8 +252,9 @@ export const students = pgTable("students", {
   additionalParentName: varchar("additional_parent_name"),
   additionalParentPhone: varchar("additional_parent_phone"),
   additionalParentEmail: varchar("additional_parent_email"),
-  // System fields
+  // System fields - parent accounts (role 'parent') for parentEmail and additionalParentEmail
   parentId: varchar("parent_id").references(() => users.id),
+  additionalParentId: varchar("additional_parent_id").references(() => users.id),
   profileImageUrl: varchar("profile_image_url"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -168,6 +262,8 @@ export const students = pgTable("students", {
 }, (table) => [
   // Unique constraint per tenant
   unique("students_roll_number_tenant_unique").on(table.rollNumber, table.tenantId),
+  index("idx_students_parent").on(table.parentId),
+  index("idx_students_additional_parent").on(table.additionalParentId),
 ]);
 
 // Subjects table
@@ -186,6 +282,21 @@ export const subjects = pgTable("subjects", {
   unique("subjects_code_tenant_unique").on(table.code, table.tenantId),
 ]);
 
+// Subject fee history: the fee in force from each effective date. Billing prices a period
+// with the version effective on its first day; subjects.baseFee is the fee in force today.
+export const subjectFeeVersions = pgTable("subject_fee_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  subjectId: varchar("subject_id").references(() => subjects.id).notNull(),
+  baseFee: decimal("base_fee", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: date("effective_from").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("subject_fee_versions_subject_effective_unique").on(table.subjectId, table.effectiveFrom),
+]);
+
 // Subject combinations/combos
 export const subjectCombos = pgTable("subject_combos", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -194,6 +305,7 @@ export const subjectCombos = pgTable("subject_combos", {
   classLevels: text("class_levels").array().notNull(),
   discountedFee: decimal("discounted_fee", { precision: 10, scale: 2 }).notNull(),
   description: text("description"),
+  revenueSplit: varchar("revenue_split").default('base_fee'), // How teacher payouts share the fee: base_fee (pro rata) or equal
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -204,7 +316,9 @@ export const comboSubjects = pgTable("combo_subjects", {
   tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
   comboId: varchar("combo_id").references(() => subjectCombos.id).notNull(),
   subjectId: varchar("subject_id").references(() => subjects.id).notNull(),
-});
+}, (table) => [
+  unique("combo_subjects_combo_subject_unique").on(table.comboId, table.subjectId),
+]);
 
 // Student enrollments with subject-specific discount tracking
 export const enrollments = pgTable("enrollments", {
@@ -219,6 +333,7 @@ export const enrollments = pgTable("enrollments", {
   discountReason: varchar("discount_reason"), // why discount was given
   discountApprovedBy: varchar("discount_approved_by").references(() => users.id), // who approved discount
   enrolledAt: timestamp("enrolled_at").defaultNow(),
+  withdrawnAt: timestamp("withdrawn_at"), // Set when the student leaves; the last month is prorated
   isActive: boolean("is_active").default(true),
 });
 
@@ -237,12 +352,14 @@ export const invoices = pgTable("invoices", {
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   discount: decimal("discount", { precision: 10, scale: 2 }).default('0'),
   lateFee: decimal("late_fee", { precision: 10, scale: 2 }).default('0'),
+  lateFeeWaived: boolean("late_fee_waived").default(false), // Waived by finance - the late-fee job skips it
   adjustments: decimal("adjustments", { precision: 10, scale: 2 }).default('0'),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).default('0'),
   balanceDue: decimal("balance_due", { precision: 10, scale: 2 }).notNull(),
   status: invoiceStatusEnum("status").default('draft'),
   isRecurring: boolean("is_recurring").default(false),
+  billingScheduleId: varchar("billing_schedule_id").references(() => billingSchedules.id), // Set when generated from a schedule
   parentInvoiceId: varchar("parent_invoice_id"), // For adjustments/corrections
   notes: text("notes"),
   createdBy: varchar("created_by").references(() => users.id).notNull(),
@@ -251,6 +368,8 @@ export const invoices = pgTable("invoices", {
 }, (table) => [
   // Unique constraint per tenant
   unique("invoices_invoice_number_tenant_unique").on(table.invoiceNumber, table.tenantId),
+  // A schedule bills each period once, however often the job re-runs
+  unique("invoices_billing_schedule_period_unique").on(table.billingScheduleId, table.billingPeriodStart),
 ]);
 
 // Add-ons/Services table
@@ -271,8 +390,10 @@ export const invoiceItems = pgTable("invoice_items", {
   tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
   invoiceId: varchar("invoice_id").references(() => invoices.id).notNull(),
   subjectId: varchar("subject_id").references(() => subjects.id),
+  comboId: varchar("combo_id").references(() => subjectCombos.id),
   addOnId: varchar("add_on_id").references(() => addOns.id),
-  type: varchar("type").notNull(), // 'subject', 'addon', 'custom'
+  enrollmentId: varchar("enrollment_id").references(() => enrollments.id), // Enrollment the line was billed for
+  type: varchar("type").notNull(), // 'subject', 'combo', 'addon', 'custom'
   description: text("description").notNull(),
   quantity: integer("quantity").default(1),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
@@ -280,6 +401,7 @@ export const invoiceItems = pgTable("invoice_items", {
   discountValue: decimal("discount_value", { precision: 10, scale: 2 }).default('0'), // percentage or fixed amount
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'), // calculated discount
   discountReason: varchar("discount_reason"), // teacher name, reason for discount
+  discountApprovedBy: varchar("discount_approved_by").references(() => users.id), // carried from the enrollment
   total: decimal("total", { precision: 10, scale: 2 }).notNull(), // after discount
 });
 
@@ -316,6 +438,44 @@ export const paymentAllocations = pgTable("payment_allocations", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Payment refunds / reversals - each one is a credit note taking money back out
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  branchId: varchar("branch_id").references(() => branches.id), // Branch / campus (counted in that branch's daily close)
+  creditNoteNumber: varchar("credit_note_number").notNull(),
+  paymentId: varchar("payment_id").references(() => payments.id).notNull(),
+  studentId: varchar("student_id").references(() => students.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  refundMethod: paymentMethodEnum("refund_method").notNull(),
+  refundDate: date("refund_date").notNull(), // Day the money left - drives the daily close
+  reason: text("reason").notNull(),
+  fromCredit: decimal("from_credit", { precision: 10, scale: 2 }).default('0'), // Part taken from the credit wallet
+  unwound: jsonb("unwound"), // [{ allocationId, invoiceId, invoiceNumber, amount }] allocations reduced
+  processedBy: varchar("processed_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("payment_refunds_credit_note_tenant_unique").on(table.creditNoteNumber, table.tenantId),
+  index("idx_payment_refunds_date").on(table.refundDate),
+]);
+
+// Student credit wallet - append-only ledger; balance = SUM(amount) per student.
+// Deposits (advance/overpayment) are positive, withdrawals (invoice/refund) negative.
+export const studentCreditMovements = pgTable("student_credit_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  studentId: varchar("student_id").references(() => students.id).notNull(),
+  type: creditMovementTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Signed
+  paymentId: varchar("payment_id").references(() => payments.id).notNull(), // Payment the credit came from
+  invoiceId: varchar("invoice_id").references(() => invoices.id), // Invoice the credit was applied to
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_student_credit_movements_student").on(table.studentId),
+]);
+
 // Invoice adjustments for audit trail
 export const invoiceAdjustments = pgTable("invoice_adjustments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -329,6 +489,34 @@ export const invoiceAdjustments = pgTable("invoice_adjustments", {
   notes: text("notes"),
 });
 
+// Late-fee policies - at most one active per tenant, applied by the late-fee job
+export const lateFeePolicies = pgTable("late_fee_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  name: varchar("name").notNull(),
+  type: lateFeeTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Rs. (flat, per day) or % of the invoice (percentage)
+  cap: decimal("cap", { precision: 10, scale: 2 }), // Max late fee per invoice; null = uncapped
+  graceDays: integer("grace_days").default(0),
+  exemptDiscounted: boolean("exempt_discounted").default(false), // Skip students with a discounted enrollment
+  isActive: boolean("is_active").default(false),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Students never charged late fees
+export const lateFeeExemptions = pgTable("late_fee_exemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  studentId: varchar("student_id").references(() => students.id).notNull(),
+  reason: text("reason").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("late_fee_exemptions_student_tenant_unique").on(table.studentId, table.tenantId),
+]);
+
 // Billing schedules for recurring invoices
 export const billingSchedules = pgTable("billing_schedules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -347,7 +535,29 @@ export const billingSchedules = pgTable("billing_schedules", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Classes/Periods
+// One row per execution of a background job (scheduler tick or manual run) for a tenant
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  job: varchar("job").notNull(), // recurring_billing, late_fees
+  asOf: date("as_of").notNull(), // Tenant-local date the job ran for
+  trigger: varchar("trigger").notNull(), // scheduler, manual
+  status: varchar("status").notNull(), // success, partial, failed
+  processed: integer("processed").default(0),
+  generated: integer("generated").default(0),
+  skipped: integer("skipped").default(0),
+  failed: integer("failed").default(0),
+  amount: decimal("amount", { precision: 12, scale: 2 }).default('0'),
+  errors: jsonb("errors").$type<string[]>().default([]),
+  triggeredBy: varchar("triggered_by").references(() => users.id), // null for scheduler ticks
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow(),
+}, (table) => [
+  index("idx_scheduled_job_runs_started").on(table.startedAt),
+]);
+
+// Classes/Periods (legacy timetable). Superseded by class_schedules + class_sessions;
+// scripts/timetable.mjs carries these rows across and nothing new is written here.
 export const classes = pgTable("classes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
@@ -366,14 +576,57 @@ export const classes = pgTable("classes", {
 export const attendance = pgTable("attendance", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
-  classId: varchar("class_id").references(() => classes.id).notNull(),
+  sessionId: varchar("session_id").references((): AnyPgColumn => classSessions.id), // The dated class session; legacy rows are linked by scripts/timetable.mjs
+  classId: varchar("class_id").references(() => classes.id), // Legacy timetable only
   studentId: varchar("student_id").references(() => students.id).notNull(),
-  attendanceDate: date("attendance_date").notNull(),
+  attendanceDate: date("attendance_date").notNull(), // Always the session's date
   status: attendanceStatusEnum("status").notNull(),
-  markedBy: varchar("marked_by").references(() => users.id).notNull(),
+  minutesLate: integer("minutes_late"), // Only for late marks, when recorded
+  leaveRequestId: varchar("leave_request_id").references((): AnyPgColumn => leaveRequests.id), // Set when an approved leave request marked it
+  markedBy: varchar("marked_by").references(() => users.id).notNull(), // Who last marked it
   markedAt: timestamp("marked_at").defaultNow(),
   notes: text("notes"),
-});
+}, (table) => [
+  unique("attendance_session_student_unique").on(table.sessionId, table.studentId),
+]);
+
+// Absence requests from the portal (parent or student), approved by a teacher or management.
+// Approving one marks the student's sessions in the date range with absenceType.
+export const leaveRequests = pgTable("leave_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  studentId: varchar("student_id").references(() => students.id).notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  absenceType: attendanceStatusEnum("absence_type").notNull().default('leave'), // leave, medical or excused
+  reason: text("reason").notNull(),
+  status: leaveRequestStatusEnum("status").notNull().default('pending'),
+  requestedBy: varchar("requested_by").references(() => users.id), // Null when sent through a portal link
+  portalTokenId: varchar("portal_token_id").references(() => portalTokens.id), // The portal link it was sent through
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  sessionsMarked: integer("sessions_marked").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_leave_requests_student").on(table.studentId),
+]);
+
+// Attendance changed after it was taken: who changed a student's mark, from what, and why
+export const attendanceEdits = pgTable("attendance_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  attendanceId: varchar("attendance_id").references(() => attendance.id).notNull(),
+  sessionId: varchar("session_id").references((): AnyPgColumn => classSessions.id),
+  studentId: varchar("student_id").references(() => students.id).notNull(),
+  previousStatus: attendanceStatusEnum("previous_status").notNull(),
+  newStatus: attendanceStatusEnum("new_status").notNull(),
+  reason: text("reason").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id).notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("idx_attendance_edits_attendance").on(table.attendanceId),
+]);
 
 // Grades/Assessments
 export const assessments = pgTable("assessments", {
@@ -410,6 +663,7 @@ export const payoutRules = pgTable("payout_rules", {
   tier1Percentage: decimal("tier1_percentage", { precision: 5, scale: 2 }),
   tier1Threshold: decimal("tier1_threshold", { precision: 10, scale: 2 }),
   tier2Percentage: decimal("tier2_percentage", { precision: 5, scale: 2 }),
+  extraClassRate: decimal("extra_class_rate", { precision: 10, scale: 2 }).default('0'), // Flat amount per extra class
   isActive: boolean("is_active").default(true),
   effectiveFrom: date("effective_from").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -430,6 +684,80 @@ export const cashDrawRequests = pgTable("cash_draw_requests", {
   notes: text("notes"),
 });
 
+// Document numbering formats per tenant (invoice, receipt, advance_receipt).
+// Template tokens: {YYYY} {YY} {MM} {SEQ} {BRANCH} {INVOICE}; the counter resets
+// whenever the date part of the rendered number changes.
+export const numberingFormats = pgTable("numbering_formats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  documentType: varchar("document_type").notNull(), // 'invoice', 'receipt', 'advance_receipt'
+  template: varchar("template").notNull(), // e.g. INV-{YYYY}{MM}{SEQ}
+  padding: integer("padding").default(4), // Zero-pad width for {SEQ}
+  perBranch: boolean("per_branch").default(false), // Separate counter per branch
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("numbering_formats_type_tenant_unique").on(table.documentType, table.tenantId),
+]);
+
+// Atomic counters behind numbering_formats - incremented with INSERT ... ON CONFLICT
+export const numberingSequences = pgTable("numbering_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  scope: varchar("scope").notNull().default(''), // Branch id for per-branch counters, '' for tenant-wide
+  sequenceKey: varchar("sequence_key").notNull(), // Document type, or e.g. receipt:INV-2024010001
+  period: varchar("period").notNull().default(''), // Rendered date part, e.g. 202401
+  value: integer("value").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("numbering_sequences_tenant_scope_key_period_unique").on(table.tenantId, table.scope, table.sequenceKey, table.period),
+]);
+
+// Monthly teacher payout runs - one per tenant per month
+export const payoutRuns = pgTable("payout_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  month: varchar("month").notNull(), // YYYY-MM
+  status: payoutRunStatusEnum("status").default('open'),
+  openedBy: varchar("opened_by").references(() => users.id).notNull(),
+  openedAt: timestamp("opened_at").defaultNow(),
+  lockedBy: varchar("locked_by").references(() => users.id),
+  lockedAt: timestamp("locked_at"),
+  notes: text("notes"),
+}, (table) => [
+  unique("payout_runs_month_tenant_unique").on(table.month, table.tenantId),
+]);
+
+// Per-teacher lines of a payout run (gross - cash draws +/- adjustments = net)
+export const payoutRunItems = pgTable("payout_run_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  runId: varchar("run_id").references(() => payoutRuns.id).notNull(),
+  teacherId: varchar("teacher_id").references(() => users.id).notNull(),
+  collected: decimal("collected", { precision: 10, scale: 2 }).default('0'), // Fees collected for the teacher's subjects
+  feeShare: decimal("fee_share", { precision: 10, scale: 2 }).default('0'),
+  extraClasses: decimal("extra_classes", { precision: 10, scale: 2 }).default('0'),
+  gross: decimal("gross", { precision: 10, scale: 2 }).default('0'),
+  cashDraws: decimal("cash_draws", { precision: 10, scale: 2 }).default('0'), // Approved draws already paid out this month
+  adjustments: decimal("adjustments", { precision: 10, scale: 2 }).default('0'), // Signed sum of payout_adjustments
+  net: decimal("net", { precision: 10, scale: 2 }).default('0'),
+  statement: jsonb("statement"), // Earnings statement snapshot used for the payslip
+  expenseId: varchar("expense_id").references(() => expenses.id), // Set when the run is locked
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("payout_run_items_run_teacher_unique").on(table.runId, table.teacherId),
+]);
+
+// Manual bonuses (+) and deductions (-) against a payout run line
+export const payoutAdjustments = pgTable("payout_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  runItemId: varchar("run_item_id").references(() => payoutRunItems.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Daily close records
 export const dailyClose = pgTable("daily_close", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -497,16 +825,33 @@ export const announcementRecipients = pgTable("announcement_recipients", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Rooms - Classrooms, labs and other bookable spaces of a branch (server/rooms.ts)
+export const rooms = pgTable("rooms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  branchId: varchar("branch_id").references(() => branches.id), // Branch / campus
+  name: varchar("name").notNull(), // e.g. "Room 101", "Physics Lab"
+  capacity: integer("capacity"), // Seats; null until known (no capacity warnings)
+  equipment: text("equipment").array().notNull().default(sql`'{}'::text[]`), // ROOM_EQUIPMENT keys
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("rooms_branch_name_unique").on(table.tenantId, table.branchId, table.name),
+]);
+
 // Class Schedules - Regular recurring schedules
 export const classSchedules = pgTable("class_schedules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  branchId: varchar("branch_id").references(() => branches.id), // Branch / campus
   teacherId: varchar("teacher_id").references(() => users.id).notNull(),
   subjectId: varchar("subject_id").references(() => subjects.id).notNull(),
   dayOfWeek: dayOfWeekEnum("day_of_week").notNull(),
   startTime: varchar("start_time").notNull(), // Format: "HH:MM"
   endTime: varchar("end_time").notNull(), // Format: "HH:MM"
-  location: varchar("location"), // Room number or location
+  roomId: varchar("room_id").references(() => rooms.id), // Registered room, if any
+  location: varchar("location"), // Room name (copied from the room) or free-text location
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -525,6 +870,7 @@ export const scheduleChanges = pgTable("schedule_changes", {
   originalEndTime: varchar("original_end_time"), // For rescheduling
   newStartTime: varchar("new_start_time"), // For rescheduling or extra classes
   newEndTime: varchar("new_end_time"), // For rescheduling or extra classes
+  newRoomId: varchar("new_room_id").references(() => rooms.id), // For moving to a registered room
   newLocation: varchar("new_location"), // For location changes
   reason: text("reason"), // Why the change was made
   isNotificationSent: boolean("is_notification_sent").default(false),
@@ -532,6 +878,31 @@ export const scheduleChanges = pgTable("schedule_changes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Class Sessions - Concrete dated classes expanded from class_schedules and schedule_changes
+// (see server/timetable.ts). Attendance, the teacher's day, the student schedule and extra
+// class earnings all key off these rows.
+export const classSessions = pgTable("class_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").references(() => tenants.id).notNull(), // Multi-tenant isolation
+  branchId: varchar("branch_id").references(() => branches.id), // Branch / campus
+  scheduleId: varchar("schedule_id").references(() => classSchedules.id), // Null for extra classes
+  scheduleChangeId: varchar("schedule_change_id").references(() => scheduleChanges.id), // The change that cancelled, moved or added it
+  teacherId: varchar("teacher_id").references(() => users.id).notNull(),
+  subjectId: varchar("subject_id").references(() => subjects.id).notNull(),
+  sessionDate: date("session_date").notNull(),
+  startTime: varchar("start_time").notNull(), // Format: "HH:MM"
+  endTime: varchar("end_time").notNull(),
+  roomId: varchar("room_id").references(() => rooms.id),
+  location: varchar("location"),
+  status: classSessionStatusEnum("status").notNull().default('scheduled'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("class_sessions_schedule_date_unique").on(table.scheduleId, table.sessionDate),
+  unique("class_sessions_extra_class_unique").on(table.scheduleChangeId),
+  index("idx_class_sessions_date").on(table.sessionDate),
+]);
+
 // Student Notifications - Track alerts for schedule changes
 export const studentNotifications = pgTable("student_notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -648,7 +1019,10 @@ export const auditLogs = pgTable("audit_logs", {
   ipAddress: varchar("ip_address"),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Login throttling counts recent failures per IP
+  index("idx_audit_logs_ip_action_created").on(table.ipAddress, table.action, table.createdAt),
+]);
 
 // Relations
 export const tenantsRelations = relations(tenants, ({ many }) => ({
@@ -841,7 +1215,11 @@ export const classesRelations = relations(classes, ({ one, many }) => ({
   announcements: many(announcements),
 }));
 
-export const attendanceRelations = relations(attendance, ({ one }) => ({
+export const attendanceRelations = relations(attendance, ({ one, many }) => ({
+  session: one(classSessions, {
+    fields: [attendance.sessionId],
+    references: [classSessions.id],
+  }),
   class: one(classes, {
     fields: [attendance.classId],
     references: [classes.id],
@@ -854,6 +1232,34 @@ export const attendanceRelations = relations(attendance, ({ one }) => ({
     fields: [attendance.markedBy],
     references: [users.id],
   }),
+  leaveRequest: one(leaveRequests, {
+    fields: [attendance.leaveRequestId],
+    references: [leaveRequests.id],
+  }),
+  edits: many(attendanceEdits),
+}));
+
+export const leaveRequestsRelations = relations(leaveRequests, ({ one, many }) => ({
+  student: one(students, {
+    fields: [leaveRequests.studentId],
+    references: [students.id],
+  }),
+  reviewedByUser: one(users, {
+    fields: [leaveRequests.reviewedBy],
+    references: [users.id],
+  }),
+  attendance: many(attendance),
+}));
+
+export const attendanceEditsRelations = relations(attendanceEdits, ({ one }) => ({
+  attendance: one(attendance, {
+    fields: [attendanceEdits.attendanceId],
+    references: [attendance.id],
+  }),
+  changedByUser: one(users, {
+    fields: [attendanceEdits.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
@@ -901,6 +1307,66 @@ export const cashDrawRequestsRelations = relations(cashDrawRequests, ({ one }) =
   }),
 }));
 
+export const lateFeeExemptionsRelations = relations(lateFeeExemptions, ({ one }) => ({
+  student: one(students, {
+    fields: [lateFeeExemptions.studentId],
+    references: [students.id],
+  }),
+}));
+
+export const paymentRefundsRelations = relations(paymentRefunds, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentRefunds.paymentId],
+    references: [payments.id],
+  }),
+  student: one(students, {
+    fields: [paymentRefunds.studentId],
+    references: [students.id],
+  }),
+  processor: one(users, {
+    fields: [paymentRefunds.processedBy],
+    references: [users.id],
+  }),
+}));
+
+export const studentCreditMovementsRelations = relations(studentCreditMovements, ({ one }) => ({
+  student: one(students, {
+    fields: [studentCreditMovements.studentId],
+    references: [students.id],
+  }),
+  payment: one(payments, {
+    fields: [studentCreditMovements.paymentId],
+    references: [payments.id],
+  }),
+  invoice: one(invoices, {
+    fields: [studentCreditMovements.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const payoutRunsRelations = relations(payoutRuns, ({ many }) => ({
+  items: many(payoutRunItems),
+}));
+
+export const payoutRunItemsRelations = relations(payoutRunItems, ({ one, many }) => ({
+  run: one(payoutRuns, {
+    fields: [payoutRunItems.runId],
+    references: [payoutRuns.id],
+  }),
+  teacher: one(users, {
+    fields: [payoutRunItems.teacherId],
+    references: [users.id],
+  }),
+  adjustmentEntries: many(payoutAdjustments),
+}));
+
+export const payoutAdjustmentsRelations = relations(payoutAdjustments, ({ one }) => ({
+  runItem: one(payoutRunItems, {
+    fields: [payoutAdjustments.runItemId],
+    references: [payoutRunItems.id],
+  }),
+}));
+
 export const dailyCloseRelations = relations(dailyClose, ({ one }) => ({
   closedByUser: one(users, {
     fields: [dailyClose.closedBy],
@@ -951,7 +1417,36 @@ export const classSchedulesRelations = relations(classSchedules, ({ one, many })
     fields: [classSchedules.subjectId],
     references: [subjects.id],
   }),
+  room: one(rooms, {
+    fields: [classSchedules.roomId],
+    references: [rooms.id],
+  }),
   scheduleChanges: many(scheduleChanges),
+  sessions: many(classSessions),
+}));
+
+export const roomsRelations = relations(rooms, ({ many }) => ({
+  schedules: many(classSchedules),
+}));
+
+export const classSessionsRelations = relations(classSessions, ({ one, many }) => ({
+  schedule: one(classSchedules, {
+    fields: [classSessions.scheduleId],
+    references: [classSchedules.id],
+  }),
+  scheduleChange: one(scheduleChanges, {
+    fields: [classSessions.scheduleChangeId],
+    references: [scheduleChanges.id],
+  }),
+  teacher: one(users, {
+    fields: [classSessions.teacherId],
+    references: [users.id],
+  }),
+  subject: one(subjects, {
+    fields: [classSessions.subjectId],
+    references: [subjects.id],
+  }),
+  attendance: many(attendance),
 }));
 
 export const scheduleChangesRelations = relations(scheduleChanges, ({ one, many }) => ({
@@ -1126,22 +1621,42 @@ export type Tenant = typeof tenants.$inferSelect;
 export type InsertTenant = typeof tenants.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type PasswordPolicy = typeof passwordPolicies.$inferSelect;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type PortalToken = typeof portalTokens.$inferSelect;
+export type TenantRole = typeof tenantRoles.$inferSelect;
 export type Student = typeof students.$inferSelect;
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 export type Subject = typeof subjects.$inferSelect;
 export type InsertSubject = z.infer<typeof insertSubjectSchema>;
+export type SubjectFeeVersion = typeof subjectFeeVersions.$inferSelect;
+export type SubjectCombo = typeof subjectCombos.$inferSelect;
+export type Room = typeof rooms.$inferSelect;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Payment = typeof payments.$inferSelect;
+export type BillingSchedule = typeof billingSchedules.$inferSelect;
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type LateFeePolicy = typeof lateFeePolicies.$inferSelect;
+export type LateFeeExemption = typeof lateFeeExemptions.$inferSelect;
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+export type StudentCreditMovement = typeof studentCreditMovements.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Attendance = typeof attendance.$inferSelect;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
+export type AttendanceEdit = typeof attendanceEdits.$inferSelect;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
 export type Assessment = typeof assessments.$inferSelect;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type Grade = typeof grades.$inferSelect;
 export type InsertGrade = z.infer<typeof insertGradeSchema>;
 export type Class = typeof classes.$inferSelect;
 export type PayoutRule = typeof payoutRules.$inferSelect;
+export type NumberingFormat = typeof numberingFormats.$inferSelect;
+export type PayoutRun = typeof payoutRuns.$inferSelect;
+export type PayoutRunItem = typeof payoutRunItems.$inferSelect;
+export type PayoutAdjustment = typeof payoutAdjustments.$inferSelect;
 export type CashDrawRequest = typeof cashDrawRequests.$inferSelect;
 export type DailyClose = typeof dailyClose.$inferSelect;
 export type Expense = typeof expenses.$inferSelect;
@@ -1152,6 +1667,7 @@ export type InsertAnnouncementRecipient = z.infer<typeof insertAnnouncementRecip
 export type ClassSchedule = typeof classSchedules.$inferSelect;
 export type InsertClassSchedule = z.infer<typeof insertClassScheduleSchema>;
 export type ScheduleChange = typeof scheduleChanges.$inferSelect;
+export type ClassSession = typeof classSessions.$inferSelect;
 export type InsertScheduleChange = z.infer<typeof insertScheduleChangeSchema>;
 export type StudentNotification = typeof studentNotifications.$inferSelect;
 export type InsertStudentNotification = z.infer<typeof insertStudentNotificationSchema>;
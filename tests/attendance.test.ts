@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  amendDeadline,
+  amendLockError,
+  diffMarks,
+  isAmendLocked,
+  localNow,
+  statusChanges,
+  validateAmendHours,
+  validateExcusedPolicy,
+  validateMarks,
+} from "../server/attendance";
+import { attendanceRate } from "@shared/attendance";
+
+const saved = [
+  { id: "a1", studentId: "s1", status: "present" as const, notes: null },
+  { id: "a2", studentId: "s2", status: "absent" as const, notes: "Sick" },
+];
+
+describe("validateMarks", () => {
+  it("accepts a register of known statuses", () => {
+    expect(validateMarks([{ studentId: "s1", status: "present" }, { studentId: "s2", status: "late", notes: "Bus" }])).toBeNull();
+  });
+
+  it("rejects empty registers, unknown statuses and repeated students", () => {
+    expect(validateMarks([])).toMatch(/at least one/);
+    expect(validateMarks([{ studentId: "s1", status: "here" }])).toMatch(/Status must be/);
+    expect(validateMarks([{ status: "present" }])).toMatch(/student/);
+    expect(validateMarks([{ studentId: "s1", status: "present" }, { studentId: "s1", status: "absent" }])).toMatch(/more than once/);
+  });
+
+  it("accepts excused statuses and minutes late on late marks only", () => {
+    expect(validateMarks([{ studentId: "s1", status: "medical" }, { studentId: "s2", status: "late", minutesLate: 15 }])).toBeNull();
+    expect(validateMarks([{ studentId: "s1", status: "present", minutesLate: null }])).toBeNull();
+    expect(validateMarks([{ studentId: "s1", status: "present", minutesLate: 5 }])).toMatch(/late mark/);
+    expect(validateMarks([{ studentId: "s1", status: "late", minutesLate: 0 }])).toMatch(/from 1 to 600/);
+    expect(validateMarks([{ studentId: "s1", status: "late", minutesLate: 7.5 }])).toMatch(/whole number/);
+  });
+});
+
+describe("diffMarks", () => {
+  it("inserts new marks, updates changed ones and leaves the rest", () => {
+    const diff = diffMarks(saved, [
+      { studentId: "s1", status: "present" },
+      { studentId: "s2", status: "present" },
+      { studentId: "s3", status: "late" },
+    ]);
+    expect(diff.create.map((m) => m.studentId)).toEqual(["s3"]);
+    expect(diff.update.map((u) => u.record.id)).toEqual(["a2"]);
+    expect(diff.unchanged).toBe(1);
+    expect(statusChanges(diff)).toHaveLength(1);
+  });
+
+  it("treats a notes-only change as an update that is not a status change", () => {
+    const diff = diffMarks(saved, [{ studentId: "s2", status: "absent", notes: "Fever" }]);
+    expect(diff.update).toHaveLength(1);
+    expect(statusChanges(diff)).toEqual([]);
+    expect(diffMarks(saved, [{ studentId: "s2", status: "absent", notes: " Sick " }]).unchanged).toBe(1);
+    expect(diffMarks(saved, [{ studentId: "s2", status: "absent" }]).unchanged).toBe(1);
+  });
+
+  it("updates a late mark when only the minutes change", () => {
+    const late = [{ id: "a3", studentId: "s3", status: "late" as const, notes: null, minutesLate: 10 }];
+    expect(diffMarks(late, [{ studentId: "s3", status: "late", minutesLate: 20 }]).update).toHaveLength(1);
+    expect(diffMarks(late, [{ studentId: "s3", status: "late" }]).unchanged).toBe(1);
+  });
+});
+
+describe("excused absences", () => {
+  const marks = ["present", "late", "absent", "leave", "medical"];
+
+  it("validates the policy", () => {
+    expect(validateExcusedPolicy("present")).toBeNull();
+    expect(validateExcusedPolicy("ignore")).toMatch(/one of/);
+    expect(validateExcusedPolicy("toString")).toMatch(/one of/);
+  });
+
+  it("counts them by the school's policy, with late as attended", () => {
+    expect(attendanceRate(marks)).toEqual({ attended: 2, counted: 3, percentage: 67 });
+    expect(attendanceRate(marks, "present")).toEqual({ attended: 4, counted: 5, percentage: 80 });
+    expect(attendanceRate(marks, "absent")).toEqual({ attended: 2, counted: 5, percentage: 40 });
+    expect(attendanceRate(["excused"]).percentage).toBe(0);
+  });
+});
+
+describe("amend cut-off", () => {
+  const session = { sessionDate: "2026-03-10", endTime: "16:00" };
+
+  it("validates the hours", () => {
+    expect(validateAmendHours(48)).toBeNull();
+    expect(validateAmendHours(null)).toBeNull();
+    expect(validateAmendHours(0)).toMatch(/between/);
+    expect(validateAmendHours(1.5)).toMatch(/between/);
+  });
+
+  it("counts the hours from the end of the class, across days", () => {
+    expect(amendDeadline(session, 48)).toBe("2026-03-12T16:00");
+    expect(amendDeadline(session, 10)).toBe("2026-03-11T02:00");
+    expect(amendDeadline(session, null)).toBeNull();
+  });
+
+  it("locks once the school-local time passes the deadline", () => {
+    // 10:00 UTC is 15:00 in Karachi
+    expect(localNow("Asia/Karachi", new Date("2026-03-12T10:00:00Z"))).toBe("2026-03-12T15:00");
+    expect(isAmendLocked(session, 48, "Asia/Karachi", new Date("2026-03-12T10:59:00Z"))).toBe(false);
+    expect(isAmendLocked(session, 48, "Asia/Karachi", new Date("2026-03-12T11:00:00Z"))).toBe(true);
+    expect(isAmendLocked(session, null, "Asia/Karachi", new Date("2030-01-01T00:00:00Z"))).toBe(false);
+  });
+
+  it("still takes first marks past the cut-off but refuses changes to saved ones", () => {
+    const firstMarks = diffMarks([], [{ studentId: "s1", status: "present" }]);
+    expect(amendLockError(firstMarks, true)).toBeNull();
+    const missed = diffMarks(saved, [{ studentId: "s1", status: "present" }, { studentId: "s9", status: "absent" }]);
+    expect(amendLockError(missed, true)).toBeNull();
+    const changed = diffMarks(saved, [{ studentId: "s1", status: "absent" }]);
+    expect(amendLockError(changed, true)).toMatch(/locked/);
+    expect(amendLockError(changed, false)).toBeNull();
+  });
+});
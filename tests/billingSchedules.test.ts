@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { addDays, billingPeriod, dueBillingDates, nextBillingDate, runStatus } from "../server/billingSchedules";
+
+describe("billingSchedules.nextBillingDate", () => {
+  it("moves monthly schedules to the same day next month", () => {
+    expect(nextBillingDate("2024-03-05", "monthly", 5)).toBe("2024-04-05");
+    expect(nextBillingDate("2024-12-01", "monthly", 1)).toBe("2025-01-01");
+  });
+
+  it("clamps to short months and returns to the billing day afterwards", () => {
+    expect(nextBillingDate("2024-01-31", "monthly", 31)).toBe("2024-02-29");
+    expect(nextBillingDate("2024-02-29", "monthly", 31)).toBe("2024-03-31");
+  });
+
+  it("moves weekly schedules by seven days", () => {
+    expect(nextBillingDate("2024-02-26", "weekly", null)).toBe("2024-03-04");
+  });
+});
+
+describe("billingSchedules.billingPeriod", () => {
+  it("ends the day before the next billing date", () => {
+    expect(billingPeriod("2024-02-01", "monthly", 1)).toEqual({ start: "2024-02-01", end: "2024-02-29" });
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+});
+
+describe("billingSchedules.dueBillingDates", () => {
+  it("catches up on every missed period, oldest first", () => {
+    const schedule = { nextBillingDate: "2024-01-01", frequency: "monthly", dayOfMonth: 1 };
+    expect(dueBillingDates(schedule, "2024-03-15")).toEqual(["2024-01-01", "2024-02-01", "2024-03-01"]);
+    expect(dueBillingDates(schedule, "2023-12-31")).toEqual([]);
+  });
+
+  it("stops at the end date and the catch-up limit", () => {
+    const schedule = { nextBillingDate: "2024-01-01", endDate: "2024-02-15", frequency: "monthly", dayOfMonth: 1 };
+    expect(dueBillingDates(schedule, "2024-06-01")).toEqual(["2024-01-01", "2024-02-01"]);
+    expect(dueBillingDates({ ...schedule, endDate: null }, "2030-01-01", 3)).toHaveLength(3);
+  });
+});
+
+describe("billingSchedules.runStatus", () => {
+  it("is partial when some work succeeded despite failures", () => {
+    expect(runStatus({ processed: 2, generated: 2, skipped: 0, failed: 0 })).toBe("success");
+    expect(runStatus({ processed: 2, generated: 1, skipped: 0, failed: 1 })).toBe("partial");
+    expect(runStatus({ processed: 1, generated: 0, skipped: 0, failed: 1 })).toBe("failed");
+  });
+});
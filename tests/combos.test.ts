@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { comboSplitWeights, validateCombo } from "../server/combos";
+import { apportion } from "../server/payouts";
+
+const phy = { id: "phy", baseFee: "6000", classLevels: ["as-level", "a2-level"], isActive: true };
+const chem = { id: "chem", baseFee: "6000", classLevels: ["as-level"], isActive: true };
+const bio = { id: "bio", baseFee: "4000", classLevels: ["as-level"], isActive: true };
+
+const input = { name: "Pre-Medical", classLevels: ["as-level"], discountedFee: 14000, subjectIds: ["phy", "chem", "bio"] };
+
+describe("combos.validateCombo", () => {
+  it("accepts a combo priced at or below its subjects", () => {
+    expect(validateCombo(input, [phy, chem, bio])).toBeNull();
+    expect(validateCombo({ ...input, discountedFee: 16000 }, [phy, chem, bio])).toBeNull();
+  });
+
+  it("rejects a fee above the individual total or not positive", () => {
+    expect(validateCombo({ ...input, discountedFee: 16001 }, [phy, chem, bio])).toMatch(/exceeds/);
+    expect(validateCombo({ ...input, discountedFee: 0 }, [phy, chem, bio])).toMatch(/greater than zero/);
+  });
+
+  it("needs two existing, active subjects offered at every level", () => {
+    expect(validateCombo({ ...input, subjectIds: ["phy"] }, [phy])).toMatch(/two subjects/);
+    expect(validateCombo(input, [phy, chem])).toMatch(/exist/);
+    expect(validateCombo(input, [phy, chem, { ...bio, isActive: false }])).toMatch(/active/);
+    expect(validateCombo({ ...input, classLevels: ["as-level", "a2-level"] }, [phy, chem, bio])).toMatch(/class levels/);
+  });
+
+  it("rejects an unknown split rule", () => {
+    expect(validateCombo({ ...input, revenueSplit: "teacher" as any }, [phy, chem, bio])).toMatch(/Revenue split/);
+  });
+});
+
+describe("combos.comboSplitWeights", () => {
+  it("weighs by base fee by default and equally on request", () => {
+    expect(comboSplitWeights([phy, chem, bio])).toEqual([6000, 6000, 4000]);
+    expect(comboSplitWeights([phy, chem, bio], "equal")).toEqual([1, 1, 1]);
+  });
+
+  it("falls back to equal shares when no subject has a fee", () => {
+    expect(comboSplitWeights([{ baseFee: "0" }, { baseFee: "0" }])).toEqual([1, 1]);
+  });
+
+  it("splits collected combo revenue without losing paisa", () => {
+    const shares = apportion(10000, comboSplitWeights([phy, chem, bio]));
+    expect(shares).toEqual([3750, 3750, 2500]);
+    const equal = apportion(10000, comboSplitWeights([phy, chem, bio], "equal"));
+    expect(equal.reduce((a, b) => a + b, 0)).toBeCloseTo(10000, 2);
+  });
+});
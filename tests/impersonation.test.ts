@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import {
+  IMPERSONATION_MINUTES,
+  isImpersonationExpired,
+  isMutatingMethod,
+  validateImpersonationStart,
+} from "../server/impersonation";
+
+describe("impersonation", () => {
+  it("is read-only unless changes are justified", () => {
+    expect(validateImpersonationStart({ teacherId: "t1" })).toBeNull();
+    expect(validateImpersonationStart({})).toBe("Choose a teacher");
+    expect(validateImpersonationStart({ teacherId: "t1", allowWrites: true })).toMatch(/Explain why/);
+    expect(validateImpersonationStart({ teacherId: "t1", allowWrites: true, justification: "  fix  " })).toMatch(/Explain why/);
+    expect(validateImpersonationStart({ teacherId: "t1", allowWrites: true, justification: "Teacher is on leave, correcting attendance" })).toBeNull();
+  });
+
+  it("treats anything but reads as a change", () => {
+    expect(isMutatingMethod("GET")).toBe(false);
+    expect(isMutatingMethod("head")).toBe(false);
+    expect(isMutatingMethod("POST")).toBe(true);
+    expect(isMutatingMethod("DELETE")).toBe(true);
+  });
+
+  it("expires on its deadline", () => {
+    const startedAt = Date.parse("2024-06-01T10:00:00Z");
+    const expiresAt = startedAt + IMPERSONATION_MINUTES * 60 * 1000;
+    expect(isImpersonationExpired({ expiresAt }, expiresAt - 1)).toBe(false);
+    expect(isImpersonationExpired({ expiresAt }, expiresAt)).toBe(true);
+  });
+});
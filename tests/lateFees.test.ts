@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { computeLateFee, daysBetween, todayIn, validateLateFeePolicy } from "../server/lateFees";
+
+describe("lateFees.daysBetween", () => {
+  it("counts calendar days across month ends", () => {
+    expect(daysBetween("2024-01-31", "2024-02-05")).toBe(5);
+    expect(daysBetween("2024-03-10", "2024-03-10")).toBe(0);
+    expect(daysBetween("2024-03-10", "2024-03-09")).toBe(-1);
+  });
+});
+
+describe("lateFees.todayIn", () => {
+  it("uses the tenant timezone", () => {
+    const now = new Date("2024-03-31T20:00:00Z");
+    expect(todayIn("Asia/Karachi", now)).toBe("2024-04-01");
+    expect(todayIn("UTC", now)).toBe("2024-03-31");
+  });
+});
+
+describe("lateFees.computeLateFee", () => {
+  it("charges nothing inside the grace period", () => {
+    expect(computeLateFee({ type: "flat", amount: "500", graceDays: 5 }, 10000, 5)).toBe(0);
+    expect(computeLateFee({ type: "flat", amount: "500", graceDays: 5 }, 10000, 6)).toBe(500);
+  });
+
+  it("takes a percentage of the invoice amount", () => {
+    expect(computeLateFee({ type: "percentage", amount: "2.5" }, 12000, 1)).toBe(300);
+  });
+
+  it("accrues per day after the grace period, up to the cap", () => {
+    const policy = { type: "per_day" as const, amount: "50", cap: "1000", graceDays: 3 };
+    expect(computeLateFee(policy, 10000, 10)).toBe(350);
+    expect(computeLateFee(policy, 10000, 60)).toBe(1000);
+  });
+});
+
+describe("lateFees.validateLateFeePolicy", () => {
+  it("rejects unusable policies", () => {
+    expect(validateLateFeePolicy({ name: "x", type: "percentage", amount: 120 })).toMatch(/100/);
+    expect(validateLateFeePolicy({ name: "x", type: "flat", amount: 0 })).toMatch(/Amount/);
+    expect(validateLateFeePolicy({ name: "x", type: "per_day", amount: 10, graceDays: -1 })).toMatch(/Grace/);
+    expect(validateLateFeePolicy({ name: "Standard", type: "flat", amount: "500", cap: null })).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { classesWithOtherTeachers, planLeaveMarks, validateLeaveRequest } from "../server/leaveRequests";
+import type { SessionView } from "../server/timetable";
+
+const today = "2026-03-10";
+const request = { startDate: "2026-03-12", endDate: "2026-03-13", absenceType: "medical", reason: "Fever" };
+
+const session = (id: string, over: Record<string, unknown> = {}): SessionView => ({
+  id,
+  sessionDate: "2026-03-12",
+  startTime: "15:00",
+  endTime: "16:00",
+  status: "scheduled",
+  teacherName: "Ayesha Khan",
+  ...over,
+});
+
+describe("validateLeaveRequest", () => {
+  it("accepts a dated request with a reason", () => {
+    expect(validateLeaveRequest(request, today)).toBeNull();
+    expect(validateLeaveRequest({ ...request, absenceType: undefined }, today)).toBeNull();
+  });
+
+  it("rejects bad or reversed dates, over-long and too-old requests", () => {
+    expect(validateLeaveRequest({ ...request, startDate: "12/03/2026" }, today)).toMatch(/YYYY-MM-DD/);
+    expect(validateLeaveRequest({ ...request, endDate: "2026-03-11" }, today)).toMatch(/before the first day/);
+    expect(validateLeaveRequest({ ...request, endDate: "2026-04-12" }, today)).toMatch(/at most 31 days/);
+    expect(validateLeaveRequest({ ...request, startDate: "2026-02-20" }, today)).toMatch(/14 days ago/);
+    expect(validateLeaveRequest({ ...request, startDate: "2026-02-24" }, today)).toBeNull();
+  });
+
+  it("needs a known absence type and a reason", () => {
+    expect(validateLeaveRequest({ ...request, absenceType: "absent" }, today)).toMatch(/one of/);
+    expect(validateLeaveRequest({ ...request, reason: "  " }, today)).toMatch(/reason/);
+  });
+});
+
+describe("planLeaveMarks", () => {
+  const sessions = [
+    session("s1"),
+    session("s2", { status: "cancelled" }),
+    session("s3"),
+    session("s4"),
+    session("s5", { sessionDate: "2026-03-01" }),
+    session("s6"),
+  ];
+  const saved = new Map([["s3", "present"], ["s4", "medical"], ["s6", "absent"]]);
+
+  it("marks unmarked and absent sessions, keeping attended ones and skipping cancelled classes", () => {
+    const plan = planLeaveMarks(sessions, saved, "medical", () => false);
+    expect(plan.mark.map((s) => s.id)).toEqual(["s1", "s5", "s6"]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.skipped).toEqual({ attended: 1, locked: 0 });
+  });
+
+  it("skips saved marks the approver can no longer amend but still marks unmarked sessions", () => {
+    const plan = planLeaveMarks(sessions, saved, "medical", (s) => s.id === "s5" || s.id === "s6");
+    expect(plan.mark.map((s) => s.id)).toEqual(["s1", "s5"]);
+    expect(plan.skipped).toEqual({ attended: 1, locked: 1 });
+  });
+});
+
+describe("classesWithOtherTeachers", () => {
+  it("counts a student's classes with another teacher, so one teacher can't decide for both", () => {
+    const sessions = [
+      session("s1", { teacherId: "t1" }),
+      session("s2", { teacherId: "t2", subject: "Chemistry" }),
+      session("s3", { teacherId: "t2", status: "cancelled" }),
+    ];
+    expect(classesWithOtherTeachers(sessions, "t1")).toBe(1);
+    expect(classesWithOtherTeachers(sessions, "t2")).toBe(1);
+    expect(classesWithOtherTeachers(sessions.filter((s) => s.teacherId === "t1"), "t1")).toBe(0);
+  });
+});
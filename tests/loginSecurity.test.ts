@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  isIpBlocked,
+  isLockedOut,
+  isSuspiciousIp,
+  lockoutUntil,
+  LOGIN_LIMITS,
+  loginDelayMs,
+  minutesUntil,
+} from "../server/loginSecurity";
+
+const now = new Date("2024-06-01T10:00:00Z");
+
+describe("loginSecurity throttling", () => {
+  it("delays progressively after the free failures, up to a cap", () => {
+    expect(loginDelayMs(0)).toBe(0);
+    expect(loginDelayMs(2)).toBe(0);
+    expect(loginDelayMs(3)).toBe(500);
+    expect(loginDelayMs(4)).toBe(1000);
+    expect(loginDelayMs(5)).toBe(2000);
+    expect(loginDelayMs(50)).toBe(LOGIN_LIMITS.maxDelayMs);
+  });
+
+  it("locks at each multiple of the threshold, doubling the lockout", () => {
+    expect(lockoutUntil(4, now)).toBeNull();
+    expect(lockoutUntil(5, now)).toEqual(new Date("2024-06-01T10:15:00Z"));
+    expect(lockoutUntil(6, now)).toBeNull();
+    expect(lockoutUntil(10, now)).toEqual(new Date("2024-06-01T10:30:00Z"));
+    expect(lockoutUntil(500, now)).toEqual(new Date("2024-06-02T10:00:00Z"));
+  });
+
+  it("is locked only until the lockout passes", () => {
+    expect(isLockedOut(null, now)).toBe(false);
+    expect(isLockedOut(new Date("2024-06-01T10:00:01Z"), now)).toBe(true);
+    expect(isLockedOut(now, now)).toBe(false);
+    expect(minutesUntil(new Date("2024-06-01T10:14:01Z"), now)).toBe(15);
+    expect(minutesUntil(new Date("2024-06-01T10:00:05Z"), now)).toBe(1);
+  });
+
+  it("blocks noisy IPs and flags ones failing across many accounts", () => {
+    expect(isIpBlocked({ failures: LOGIN_LIMITS.ipMaxFailures - 1, accounts: 1 })).toBe(false);
+    expect(isIpBlocked({ failures: LOGIN_LIMITS.ipMaxFailures, accounts: 1 })).toBe(true);
+    expect(isSuspiciousIp({ failures: 20, accounts: 1 })).toBe(false);
+    expect(isSuspiciousIp({ failures: 5, accounts: LOGIN_LIMITS.suspiciousAccounts })).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import net from "net";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { buildMimeMessage, FileTransport, mailAddress, SmtpTransport, transportFromEnv, ConsoleTransport } from "../server/mailer";
+
+const message = { to: "parent@example.com", subject: "Reset your password", text: "Line one\n.leading dot" };
+const from = "Frontbench <no-reply@frontbench.io>";
+
+const decodeBody = (raw: string) => Buffer.from(raw.split("\r\n\r\n")[1].replace(/\r\n/g, ""), "base64").toString("utf8");
+
+describe("mailer.buildMimeMessage", () => {
+  it("writes headers and a base64 body with CRLF endings", () => {
+    const raw = buildMimeMessage(message, from, new Date("2024-06-01T10:00:00Z"), "abc");
+    expect(raw).toContain("To: parent@example.com\r\n");
+    expect(raw).toContain("Message-ID: <abc@frontbench.io>\r\n");
+    expect(raw).toContain("Date: Sat, 01 Jun 2024 10:00:00 GMT\r\n");
+    expect(decodeBody(raw)).toBe(message.text);
+  });
+
+  it("strips line breaks from headers and encodes non-ASCII subjects", () => {
+    const raw = buildMimeMessage({ ...message, to: "a@b.c\r\nBcc: x@y.z", subject: "Fee — due" }, from);
+    expect(raw).not.toMatch(/^Bcc:/m);
+    expect(raw).toMatch(/Subject: =\?UTF-8\?B\?/);
+  });
+
+  it("adds an html alternative when given", () => {
+    const raw = buildMimeMessage({ ...message, html: "<p>Hi</p>" }, from, new Date(), "xyz");
+    expect(raw).toContain('multipart/alternative; boundary="fb-xyz"');
+    expect(raw).toContain("--fb-xyz--");
+  });
+
+  it("reads the bare address", () => {
+    expect(mailAddress(from)).toBe("no-reply@frontbench.io");
+    expect(mailAddress(" a@b.c ")).toBe("a@b.c");
+  });
+});
+
+describe("mailer transports", () => {
+  it("file transport writes an .eml file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fb-mail-"));
+    await new FileTransport(dir).send(message, from);
+    const files = await fs.readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    expect(decodeBody(await fs.readFile(path.join(dir, files[0]), "utf8"))).toBe(message.text);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("is chosen from the environment", () => {
+    expect(transportFromEnv({})).toBeInstanceOf(ConsoleTransport);
+    expect(transportFromEnv({ MAIL_TRANSPORT: "file" })).toBeInstanceOf(FileTransport);
+    expect(transportFromEnv({ SMTP_HOST: "smtp.example.com" })).toBeInstanceOf(SmtpTransport);
+    expect(() => transportFromEnv({ MAIL_TRANSPORT: "smtp" })).toThrow(/SMTP_HOST/);
+  });
+
+  it("smtp transport authenticates and delivers the message", async () => {
+    const commands: string[] = [];
+    let data = "";
+    const server = net.createServer((socket) => {
+      let buffer = "";
+      let inData = false;
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString();
+        let end;
+        while ((end = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-test\r\n250 AUTH PLAIN LOGIN\r\n");
+          else if (line.startsWith("AUTH PLAIN")) socket.write("235 ok\r\n");
+          else if (line === "DATA") { inData = true; socket.write("354 go\r\n"); }
+          else if (line === "QUIT") { socket.write("221 bye\r\n"); socket.end(); }
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      await new SmtpTransport({ host: "127.0.0.1", port, secure: false, user: "mailer", pass: "secret" }).send(message, from);
+    } finally {
+      server.close();
+    }
+
+    expect(commands[0]).toBe("EHLO frontbench");
+    expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from("\0mailer\0secret").toString("base64")}`);
+    expect(commands).toContain("MAIL FROM:<no-reply@frontbench.io>");
+    expect(commands).toContain("RCPT TO:<parent@example.com>");
+    expect(decodeBody(data)).toBe(message.text);
+  });
+
+  it("smtp transport reports a rejected recipient", async () => {
+    const server = net.createServer((socket) => {
+      socket.write("220 test\r\n");
+      socket.on("data", (chunk) => {
+        const line = chunk.toString();
+        if (line.startsWith("RCPT")) socket.write("550 no such user\r\n");
+        else if (line.startsWith("EHLO")) socket.write("250 test\r\n");
+        else socket.write("250 ok\r\n");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      await expect(new SmtpTransport({ host: "127.0.0.1", port, secure: false }).send(message, from))
+        .rejects.toThrow(/RCPT TO:<parent@example.com> failed: 550/);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { billedDays, billingMonth, buildInvoiceLines, enrollmentDiscount, invoiceTotals } from "../server/monthlyBilling";
+
+const month = billingMonth("2024-04-10");
+const subjects = new Map([
+  ["phy", { id: "phy", name: "Physics", baseFee: "6000" }],
+  ["chem", { id: "chem", name: "Chemistry", baseFee: "6000" }],
+  ["math", { id: "math", name: "Maths", baseFee: "5000" }],
+]);
+const combos = new Map([
+  ["sci", { id: "sci", name: "Science", discountedFee: "10000", subjectIds: ["phy", "chem"] }],
+]);
+
+describe("monthlyBilling.billingMonth", () => {
+  it("spans the calendar month", () => {
+    expect(month).toEqual({ start: "2024-04-01", end: "2024-04-30", days: 30 });
+    expect(billingMonth("2024-02-15").days).toBe(29);
+  });
+});
+
+describe("monthlyBilling.billedDays", () => {
+  it("counts the days covered between enrollment and withdrawal", () => {
+    expect(billedDays(month)).toBe(30);
+    expect(billedDays(month, "2024-04-16")).toBe(15);
+    expect(billedDays(month, "2024-03-01", "2024-04-10")).toBe(10);
+    expect(billedDays(month, "2024-05-02")).toBe(0);
+    expect(billedDays(month, null, "2024-03-31")).toBe(0);
+  });
+});
+
+describe("monthlyBilling.enrollmentDiscount", () => {
+  it("supports percentage and capped fixed discounts", () => {
+    expect(enrollmentDiscount(6000, "percentage", "25")).toBe(1500);
+    expect(enrollmentDiscount(6000, "fixed", 8000)).toBe(6000);
+    expect(enrollmentDiscount(6000, "none", 500)).toBe(0);
+  });
+});
+
+describe("monthlyBilling.buildInvoiceLines", () => {
+  it("bills a combo once in place of its member subjects", () => {
+    const lines = buildInvoiceLines([
+      { id: "e1", subjectId: "phy", comboId: "sci" },
+      { id: "e2", subjectId: "chem", comboId: "sci" },
+      { id: "e3", subjectId: "math", comboId: null },
+    ], subjects, combos, month);
+
+    expect(lines.map((l) => [l.type, l.description, l.total])).toEqual([
+      ["combo", "Science: Physics, Chemistry", 10000],
+      ["subject", "Maths", 5000],
+    ]);
+    expect(invoiceTotals(lines)).toEqual({ subtotal: 15000, discount: 0, total: 15000 });
+  });
+
+  it("carries the enrollment discount and prorates partial months", () => {
+    const [line] = buildInvoiceLines([{
+      id: "e1", subjectId: "phy", comboId: null,
+      discountType: "percentage", discountValue: "10", discountReason: "Sibling", discountApprovedBy: "u1",
+      enrolledOn: "2024-04-16",
+    }], subjects, combos, month);
+
+    expect(line).toMatchObject({
+      description: "Physics (15 of 30 days)",
+      unitPrice: 3000,
+      discountAmount: 300,
+      discountReason: "Sibling",
+      discountApprovedBy: "u1",
+      total: 2700,
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { isParentSlot, parentSlot, splitParentName } from "../server/parentAccounts";
+
+describe("parentAccounts", () => {
+  it("splits a parent's name into first and last name", () => {
+    expect(splitParentName("Ayesha Khan")).toEqual({ firstName: "Ayesha", lastName: "Khan" });
+    expect(splitParentName("  Muhammad  Ali   Raza ")).toEqual({ firstName: "Muhammad", lastName: "Ali Raza" });
+    expect(splitParentName("Ayesha")).toEqual({ firstName: "Ayesha", lastName: null });
+    expect(splitParentName("")).toEqual({ firstName: null, lastName: null });
+    expect(splitParentName(null)).toEqual({ firstName: null, lastName: null });
+  });
+
+  it("reads the email and linked account of each slot", () => {
+    const student = {
+      parentEmail: " ayesha@example.com ",
+      parentId: "parent-1",
+      additionalParentEmail: "",
+      additionalParentId: null,
+    };
+    expect(parentSlot(student, "primary")).toEqual({ email: "ayesha@example.com", parentId: "parent-1" });
+    expect(parentSlot(student, "additional")).toEqual({ email: null, parentId: null });
+  });
+
+  it("accepts only known slots", () => {
+    expect(isParentSlot("primary")).toBe(true);
+    expect(isParentSlot("additional")).toBe(true);
+    expect(isParentSlot("guardian")).toBe(false);
+    expect(isParentSlot(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { generateResetToken, hashResetToken, isResetTokenUsable, resetLink } from "../server/passwordReset";
+
+describe("passwordReset tokens", () => {
+  it("stores only a hash of a random, url-safe token", () => {
+    const a = generateResetToken();
+    const b = generateResetToken();
+    expect(a.token).not.toBe(b.token);
+    expect(a.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(a.tokenHash).toBe(hashResetToken(a.token));
+    expect(a.tokenHash).not.toContain(a.token);
+  });
+
+  it("is usable once, until it expires", () => {
+    const now = new Date("2024-06-01T10:00:00Z");
+    const expiresAt = new Date("2024-06-01T11:00:00Z");
+    expect(isResetTokenUsable({ expiresAt, usedAt: null }, now)).toBe(true);
+    expect(isResetTokenUsable({ expiresAt, usedAt: new Date("2024-06-01T10:30:00Z") }, now)).toBe(false);
+    expect(isResetTokenUsable({ expiresAt, usedAt: null }, new Date("2024-06-01T11:00:00Z"))).toBe(false);
+  });
+
+  it("builds the reset link on the app's origin", () => {
+    expect(resetLink("https://primax.frontbench.io/", "a+b")).toBe("https://primax.frontbench.io/reset-password?token=a%2Bb");
+  });
+});
@@ -3,6 +3,12 @@ import {
   hashPassword,
   comparePassword,
   generateTemporaryPassword,
+  passwordProblem,
+  describePasswordPolicy,
+  validatePasswordPolicy,
+  isPasswordExpired,
+  isPasswordReused,
+  DEFAULT_PASSWORD_POLICY,
 } from "../server/passwordUtils";
 
 describe("passwordUtils", () => {
@@ -29,4 +35,52 @@ describe("passwordUtils", () => {
     expect(a.length).toBeGreaterThanOrEqual(6);
     expect(a).not.toBe(b);
   });
+
+  it("passwordProblem requires a minimum length", () => {
+    expect(passwordProblem("short")).toMatch(/at least 8/);
+    expect(passwordProblem("")).toMatch(/at least 8/);
+    expect(passwordProblem("long enough")).toBeNull();
+  });
+
+  it("passwordProblem applies the tenant policy's length and character classes", () => {
+    const policy = { ...DEFAULT_PASSWORD_POLICY, minLength: 10, requireUppercase: true, requireDigit: true, requireSymbol: true };
+    expect(passwordProblem("Short1!", policy)).toMatch(/at least 10/);
+    expect(passwordProblem("alllowercase", policy)).toBe("Password must include an uppercase letter, a number, a symbol");
+    expect(passwordProblem("Upper-case-9", policy)).toBeNull();
+  });
+
+  it("describes the policy as a checklist", () => {
+    expect(describePasswordPolicy(DEFAULT_PASSWORD_POLICY)).toEqual([
+      "At least 8 characters",
+      "Different from your current password",
+    ]);
+    expect(describePasswordPolicy({ ...DEFAULT_PASSWORD_POLICY, requireDigit: true, historyCount: 5, maxAgeDays: 90 })).toEqual([
+      "At least 8 characters",
+      "Includes a number",
+      "Not one of your last 5 passwords",
+      "Expires after 90 days",
+    ]);
+  });
+
+  it("validates policy settings", () => {
+    expect(validatePasswordPolicy(DEFAULT_PASSWORD_POLICY)).toBeNull();
+    expect(validatePasswordPolicy({ minLength: 6 })).toMatch(/between 8 and 128/);
+    expect(validatePasswordPolicy({ minLength: 8, historyCount: 30 })).toMatch(/history/);
+    expect(validatePasswordPolicy({ minLength: 8, maxAgeDays: -1 })).toMatch(/expiry/);
+  });
+
+  it("expires passwords only when the policy has a maximum age", () => {
+    const changedAt = new Date("2024-01-01T00:00:00Z");
+    const policy = { ...DEFAULT_PASSWORD_POLICY, maxAgeDays: 90 };
+    expect(isPasswordExpired(changedAt, DEFAULT_PASSWORD_POLICY, new Date("2030-01-01T00:00:00Z"))).toBe(false);
+    expect(isPasswordExpired(changedAt, policy, new Date("2024-03-30T23:59:59Z"))).toBe(false);
+    expect(isPasswordExpired(changedAt, policy, new Date("2024-03-31T00:00:00Z"))).toBe(true);
+    expect(isPasswordExpired(null, policy)).toBe(false);
+  });
+
+  it("detects reuse of any remembered password", async () => {
+    const hashes = [await hashPassword("first-pass"), null];
+    expect(await isPasswordReused("first-pass", hashes)).toBe(true);
+    expect(await isPasswordReused("fresh-pass", hashes)).toBe(false);
+  });
 });
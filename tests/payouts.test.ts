@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  apportion,
+  computeLineShares,
+  getMonthRange,
+  netPayout,
+  selectPayoutRule,
+  shareForAmount,
+} from "../server/payouts";
+
+const fixed = (pct: number, effectiveFrom = "2024-01-01", id = "fixed") => ({
+  id,
+  isFixed: true,
+  fixedPercentage: String(pct),
+  tier1Percentage: null,
+  tier1Threshold: null,
+  tier2Percentage: null,
+  effectiveFrom,
+});
+
+const tiered = {
+  id: "tiered",
+  isFixed: false,
+  fixedPercentage: null,
+  tier1Percentage: "70",
+  tier1Threshold: "10000",
+  tier2Percentage: "50",
+  effectiveFrom: "2024-01-01",
+};
+
+describe("payouts.getMonthRange", () => {
+  it("resolves month bounds including December rollover", () => {
+    expect(getMonthRange("2024-02")).toEqual({
+      month: "2024-02", start: "2024-02-01", end: "2024-02-29", nextStart: "2024-03-01",
+    });
+    expect(getMonthRange("2024-12").nextStart).toBe("2025-01-01");
+  });
+
+  it("rejects malformed months", () => {
+    expect(() => getMonthRange("2024-13")).toThrow();
+    expect(() => getMonthRange("March")).toThrow();
+  });
+});
+
+describe("payouts.selectPayoutRule", () => {
+  it("picks the latest active rule effective on the date", () => {
+    const rules = [fixed(60, "2024-01-01", "old"), fixed(70, "2024-06-01", "new"), { ...fixed(90, "2024-03-01", "off"), isActive: false }];
+    expect(selectPayoutRule(rules, "2024-05-31")?.id).toBe("old");
+    expect(selectPayoutRule(rules, "2024-06-01")?.id).toBe("new");
+    expect(selectPayoutRule(rules, "2023-12-31")).toBeNull();
+  });
+});
+
+describe("payouts.shareForAmount", () => {
+  it("applies tier1 up to the threshold and tier2 above it", () => {
+    expect(shareForAmount(tiered, 8000)).toBe(5600);
+    expect(shareForAmount(tiered, 4000, 8000)).toBe(2000 * 0.7 + 2000 * 0.5);
+    expect(shareForAmount(tiered, 1000, 12000)).toBe(500);
+  });
+});
+
+describe("payouts.computeLineShares", () => {
+  it("crosses the tier in date order and keeps the input order", () => {
+    const lines = [
+      { date: "2024-03-20", amount: 4000 },
+      { date: "2024-03-05", amount: 8000 },
+    ];
+    const result = computeLineShares(lines, [tiered]);
+    expect(result.map((l) => l.share)).toEqual([2400, 5600]);
+  });
+
+  it("line shares always sum to the rounded total", () => {
+    const lines = [1, 2, 3].map((i) => ({ date: `2024-03-0${i}`, amount: 333.33 }));
+    const result = computeLineShares(lines, [fixed(33.33)]);
+    const total = result.reduce((s, l) => s + l.share, 0);
+    expect(Math.round(total * 100) / 100).toBe(Math.round(999.99 * 0.3333 * 100) / 100);
+  });
+
+  it("pays nothing when no rule is in force", () => {
+    const [line] = computeLineShares([{ date: "2023-01-01", amount: 500 }], [fixed(70)]);
+    expect(line.share).toBe(0);
+    expect(line.ruleId).toBeNull();
+  });
+});
+
+describe("payouts.apportion", () => {
+  it("splits an allocation by item totals without losing paisa", () => {
+    const parts = apportion(100, [1, 1, 1]);
+    expect(parts).toEqual([33.33, 33.34, 33.33]);
+    expect(parts.reduce((s, p) => s + p, 0)).toBeCloseTo(100, 10);
+  });
+});
+
+describe("payouts.netPayout", () => {
+  it("nets cash draws and signed adjustments off the gross", () => {
+    expect(netPayout(24500, 5000, -250.5)).toBe(19249.5);
+    expect(netPayout(1000, 1500, 0)).toBe(-500);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import express from "express";
+import { registerRoutes } from "../server/routes";
+import { setupTraditionalAuth } from "../server/auth-traditional";
+import { tenantRegistrationRouter } from "../server/tenantRegistration";
+import { superAdminRoutes } from "../server/superAdminRoutes";
+import { tenantAnalyticsRoutes } from "../server/tenantAnalyticsRoutes";
+import billingRoutes from "../server/billingRoutes";
+import notificationRoutes from "../server/notificationRoutes";
+import {
+  DEFAULT_PERMISSIONS,
+  ROUTE_POLICIES,
+  accessRoles,
+  applyRoutePolicies,
+  authorize,
+  effectivePermissions,
+  routeKeys,
+  teacherScope,
+} from "../server/permissions";
+import { validateTenantRole } from "../server/customRoles";
+
+const teacher = { id: "t1", role: "teacher", isSuperAdmin: false, isTeacher: true };
+const finance = { id: "f1", role: "finance", isSuperAdmin: false, isTeacher: false };
+const superAdminTeacher = { id: "s1", role: "teacher", isSuperAdmin: true, isTeacher: true };
+const superAdminManagement = { id: "s2", role: "management", isSuperAdmin: true, isTeacher: false };
+
+async function buildApp() {
+  const app = express();
+  setupTraditionalAuth(app);
+  await registerRoutes(app);
+  return app;
+}
+
+const mounted = () => [
+  ...routeKeys(tenantRegistrationRouter, "/api/tenants"),
+  ...routeKeys(superAdminRoutes, "/api/super-admin"),
+  ...routeKeys(tenantAnalyticsRoutes, "/api/analytics"),
+  ...routeKeys(billingRoutes, "/api/billing"),
+  ...routeKeys(notificationRoutes, "/api/notifications"),
+];
+
+function call(policy: Parameters<typeof authorize>[0], user?: object) {
+  const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+  const next = vi.fn();
+  authorize(policy)({ session: { user } } as any, res, next);
+  return { status: res.status.mock.calls[0]?.[0], next: next.mock.calls.length > 0 };
+}
+
+describe("route policies", () => {
+  it("covers every registered route and puts the check first", async () => {
+    const app = await buildApp(); // throws, naming the routes, when one has no policy
+    const stack = (app as any)._router.stack.filter((layer: any) => layer.route);
+    expect(stack.length).toBeGreaterThan(100);
+    for (const { route } of stack) {
+      expect(route.stack[0].name, route.path).toBe("routePolicyGate");
+    }
+  });
+
+  it("has no policies for routes that no longer exist", async () => {
+    const registered = new Set([...routeKeys(await buildApp()), ...mounted()]);
+    expect(Object.keys(ROUTE_POLICIES).filter((key) => !registered.has(key))).toEqual([]);
+  });
+
+  it("keeps requirePortalAccess on every portal route", async () => {
+    const app = await buildApp();
+    const portalRoutes = (app as any)._router.stack
+      .filter((layer: any) => layer.route)
+      .filter(({ route }: any) => Object.keys(route.methods).some((m) => ROUTE_POLICIES[`${m.toUpperCase()} ${route.path}`] === "portal"));
+    expect(portalRoutes.length).toBeGreaterThan(0);
+    for (const { route } of portalRoutes) {
+      expect(route.stack.map((layer: any) => layer.name), route.path).toContain("portalAccessGuard");
+    }
+  });
+
+  it("refuses to start when a route has no policy", () => {
+    const router = express.Router();
+    router.get("/api/new-endpoint", (_req, res) => { res.end(); });
+    expect(() => applyRoutePolicies(router)).toThrow("GET /api/new-endpoint");
+  });
+});
+
+describe("access roles", () => {
+  it("mirrors the dashboards each kind of user can open", () => {
+    expect(accessRoles(teacher)).toEqual(["teacher"]);
+    expect(accessRoles(finance)).toEqual(["finance"]);
+    expect(accessRoles({ role: "parent" })).toEqual(["parent"]);
+    expect(accessRoles(superAdminManagement)).toEqual(["finance", "management", "parent"]);
+    expect(accessRoles(superAdminTeacher)).toEqual(["teacher", "finance", "management", "parent"]);
+    expect(accessRoles({ role: "super_admin" })).toEqual(["finance", "management", "parent"]);
+    expect(accessRoles({ role: "unknown" })).toEqual([]);
+    expect(accessRoles(null)).toEqual([]);
+  });
+
+  it("limits teachers to their own data", () => {
+    expect(teacherScope(teacher)).toBe("t1");
+    expect(teacherScope(finance)).toBeNull();
+    expect(teacherScope(superAdminTeacher)).toBeNull();
+  });
+
+  it("answers 401 without a session and 403 without the access role", () => {
+    expect(call(["finance", "management"])).toEqual({ status: 401, next: false });
+    expect(call(["finance", "management"], teacher)).toEqual({ status: 403, next: false });
+    expect(call(["finance", "management"], finance)).toEqual({ status: undefined, next: true });
+    expect(call("signed-in", { role: "parent" })).toEqual({ status: undefined, next: true });
+    expect(call("super-admin", finance)).toEqual({ status: 403, next: false });
+    expect(call("super-admin", superAdminManagement)).toEqual({ status: undefined, next: true });
+    expect(call("public")).toEqual({ status: undefined, next: true });
+  });
+});
+
+describe("permissions", () => {
+  it("gives each base role its defaults", () => {
+    expect(effectivePermissions(finance, null)).toEqual(DEFAULT_PERMISSIONS.finance);
+    expect(effectivePermissions(teacher, null)).toEqual(["take_attendance", "edit_grades", "post_announcements"]);
+    expect(effectivePermissions({ role: "parent" }, null)).toEqual([]);
+    expect(effectivePermissions(null, null)).toEqual([]);
+  });
+
+  it("lets a custom role replace the defaults", () => {
+    expect(effectivePermissions(finance, ["enroll"])).toEqual(["enroll"]);
+    expect(effectivePermissions(finance, ["view_reports", "retired_permission"])).toEqual(["view_reports"]);
+  });
+
+  it("never narrows a super admin", () => {
+    expect(effectivePermissions(superAdminManagement, ["enroll"])).toContain("manage_staff");
+    expect(effectivePermissions({ role: "super_admin" }, null)).toContain("refund");
+  });
+
+  it("checks the role before the permission", () => {
+    const refund = ROUTE_POLICIES["POST /api/payments/:id/refund"];
+    expect(refund).toHaveProperty("permission", "refund");
+    expect(call(refund)).toEqual({ status: 401, next: false });
+    expect(call(refund, teacher)).toEqual({ status: 403, next: false });
+  });
+
+  it("lets a teacher through to their own payslip", () => {
+    const payslip = ROUTE_POLICIES["GET /api/payout-runs/:id/payslips/:teacherId"];
+    expect(call(payslip, teacher)).toEqual({ status: undefined, next: true });
+    expect(call(payslip)).toEqual({ status: 401, next: false });
+  });
+
+  it("validates custom roles", () => {
+    expect(validateTenantRole({ name: "Receptionist", permissions: ["enroll"] })).toBeNull();
+    expect(validateTenantRole({ name: " ", permissions: ["enroll"] })).toBe("Role name is required");
+    expect(validateTenantRole({ name: "Receptionist", permissions: [] })).toBe("Choose at least one permission");
+    expect(validateTenantRole({ name: "Receptionist", permissions: ["fly"] })).toBe("Unknown permission: fly");
+  });
+});
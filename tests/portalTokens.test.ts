@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  PORTAL_LINK_MAX_DAYS,
+  PORTAL_LINK_TTL_DAYS,
+  portalLink,
+  portalLinkDays,
+  portalTokenStatus,
+  requirePortalAccess,
+  signPortalToken,
+  verifyPortalToken,
+} from "../server/portalTokens";
+
+// Rows every query resolves to, standing in for the tenant database
+const queryRows = vi.hoisted(() => ({ rows: [] as object[] }));
+vi.mock("../server/db", async (importOriginal) => {
+  const query: any = new Proxy({}, {
+    get: (_t, prop) => prop === "then"
+      ? (resolve: (rows: object[]) => void) => resolve(queryRows.rows)
+      : () => query,
+  });
+  return { ...(await importOriginal<typeof import("../server/db")>()), db: query };
+});
+
+const SECRET = "test-secret";
+const now = new Date("2024-06-01T10:00:00Z");
+const expiresAt = new Date("2024-09-01T10:00:00Z");
+const id = "6f1c2d4e-0000-4000-8000-000000000001";
+
+describe("portalTokens signing", () => {
+  it("verifies its own tokens and returns the id and expiry", () => {
+    const token = signPortalToken({ id, expiresAt }, SECRET);
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(verifyPortalToken(token, now, SECRET)).toEqual({ id, expiresAt });
+  });
+
+  it("refuses tokens signed with another secret or altered", () => {
+    const token = signPortalToken({ id, expiresAt }, SECRET);
+    expect(verifyPortalToken(token, now, "other-secret")).toBeNull();
+
+    const [payload, sig] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ i: id, e: 4102444800 })).toString("base64url");
+    expect(verifyPortalToken(`${forged}.${sig}`, now, SECRET)).toBeNull();
+    expect(verifyPortalToken(`${payload}.${sig.slice(1)}`, now, SECRET)).toBeNull();
+    expect(verifyPortalToken(`${token}.extra`, now, SECRET)).toBeNull();
+    expect(verifyPortalToken("", now, SECRET)).toBeNull();
+    expect(verifyPortalToken("not-a-token", now, SECRET)).toBeNull();
+  });
+
+  it("refuses expired tokens", () => {
+    const token = signPortalToken({ id, expiresAt }, SECRET);
+    expect(verifyPortalToken(token, new Date("2024-09-01T10:00:01Z"), SECRET)).toBeNull();
+  });
+
+  it("builds the portal URL", () => {
+    expect(portalLink("https://school.frontbench.io/", "abc.def")).toBe("https://school.frontbench.io/portal/abc.def");
+  });
+});
+
+describe("portalTokens status and lifetime", () => {
+  it("reports revoked before expired", () => {
+    expect(portalTokenStatus({ expiresAt, revokedAt: null }, now)).toBe("active");
+    expect(portalTokenStatus({ expiresAt: new Date("2024-05-01"), revokedAt: null }, now)).toBe("expired");
+    expect(portalTokenStatus({ expiresAt: new Date("2024-05-01"), revokedAt: new Date("2024-04-01") }, now)).toBe("revoked");
+  });
+
+  it("defaults and bounds the link lifetime", () => {
+    expect(portalLinkDays(undefined)).toBe(PORTAL_LINK_TTL_DAYS);
+    expect(portalLinkDays("")).toBe(PORTAL_LINK_TTL_DAYS);
+    expect(portalLinkDays(30)).toBe(30);
+    expect(portalLinkDays("180")).toBe(180);
+    expect(() => portalLinkDays(0)).toThrow();
+    expect(() => portalLinkDays(1.5)).toThrow();
+    expect(() => portalLinkDays(PORTAL_LINK_MAX_DAYS + 1)).toThrow();
+  });
+});
+
+describe("requirePortalAccess for signed-in users", () => {
+  const teacher = { id: "t1", role: "teacher", isSuperAdmin: false, isTeacher: true };
+
+  async function call(user: object, studentId: string) {
+    const res: any = { status: vi.fn(() => res), json: vi.fn(() => res) };
+    const next = vi.fn();
+    await requirePortalAccess(() => studentId)({ session: { user } } as any, res, next);
+    return { status: res.status.mock.calls[0]?.[0], next: next.mock.calls.length > 0 };
+  }
+
+  it("refuses a teacher a student they don't teach", async () => {
+    queryRows.rows = [];
+    expect(await call(teacher, "s2")).toEqual({ status: 403, next: false });
+  });
+
+  it("lets a teacher see a student in their classes", async () => {
+    queryRows.rows = [{ id: "s1" }];
+    expect(await call(teacher, "s1")).toEqual({ status: undefined, next: true });
+  });
+
+  it("lets management see any student", async () => {
+    queryRows.rows = [];
+    expect(await call({ id: "m1", role: "management", isSuperAdmin: false, isTeacher: false }, "s2")).toEqual({ status: undefined, next: true });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { invoiceStatusAsOf, invoiceStatusFor, planRefund, refundableAmount } from "../server/refunds";
+
+const allocations = [
+  { id: "a1", invoiceId: "jan", amount: "5000.00", createdAt: "2024-01-05T10:00:00Z" },
+  { id: "a2", invoiceId: "feb", amount: "3000.00", createdAt: "2024-02-05T10:00:00Z" },
+];
+
+describe("refunds.refundableAmount", () => {
+  it("subtracts earlier partial refunds", () => {
+    expect(refundableAmount("10000.00", 2500)).toBe(7500);
+    expect(refundableAmount("100", 150)).toBe(0);
+  });
+});
+
+describe("refunds.planRefund", () => {
+  it("returns wallet credit before touching invoices", () => {
+    expect(planRefund(1500, 2000, allocations)).toEqual({ fromCredit: 1500, unwind: [] });
+  });
+
+  it("unwinds the newest allocation first", () => {
+    expect(planRefund(4000, 500, allocations)).toEqual({
+      fromCredit: 500,
+      unwind: [
+        { allocationId: "a2", invoiceId: "feb", amount: 3000 },
+        { allocationId: "a1", invoiceId: "jan", amount: 500 },
+      ],
+    });
+  });
+
+  it("rejects refunds larger than the payment can give back", () => {
+    expect(() => planRefund(8000.01, 0, allocations)).toThrow(/exceeds/);
+    expect(() => planRefund(0, 0, allocations)).toThrow();
+  });
+});
+
+describe("refunds.invoiceStatusFor", () => {
+  it("reopens invoices as the paid amount drops", () => {
+    expect(invoiceStatusFor(5000, 5000)).toBe("paid");
+    expect(invoiceStatusFor(5000, 4500)).toBe("partial");
+    expect(invoiceStatusFor(5000, 0)).toBe("sent");
+  });
+});
+
+describe("refunds.invoiceStatusAsOf", () => {
+  it("keeps an unpaid invoice past its due date overdue", () => {
+    expect(invoiceStatusAsOf(5000, 0, "2026-03-10", "2026-03-20")).toBe("overdue");
+    expect(invoiceStatusAsOf(5000, 2000, "2026-03-10", "2026-03-20")).toBe("overdue");
+    expect(invoiceStatusAsOf(5000, 0, "2026-03-25", "2026-03-20")).toBe("sent");
+    expect(invoiceStatusAsOf(5000, 5000, "2026-03-10", "2026-03-20")).toBe("paid");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { bookedMinutes, buildRoomGrid, capacityWarning, validateRoom, type RoomBooking } from "../server/rooms";
+
+const booking = (over: Partial<RoomBooking> = {}): RoomBooking => ({
+  scheduleId: "sch-math",
+  dayOfWeek: "monday",
+  startTime: "09:00",
+  endTime: "10:30",
+  subject: "Mathematics",
+  teacherName: "Ayesha Khan",
+  enrolled: 20,
+  ...over,
+});
+
+describe("validateRoom", () => {
+  it("requires a name and whole-seat capacity", () => {
+    expect(validateRoom({ name: "Room 101", capacity: 30, equipment: ["projector"] })).toBeNull();
+    expect(validateRoom({ name: "Hall", capacity: null })).toBeNull();
+    expect(validateRoom({ name: " " })).toMatch(/name/);
+    expect(validateRoom({ name: "Lab", capacity: 0 })).toMatch(/whole number/);
+    expect(validateRoom({ name: "Lab", capacity: "12.5" })).toMatch(/whole number/);
+  });
+
+  it("only accepts known equipment", () => {
+    expect(validateRoom({ name: "Lab", equipment: ["science_lab", "jetpack"] })).toBe("Unknown equipment: jetpack");
+  });
+});
+
+describe("capacityWarning", () => {
+  it("warns only when enrollment exceeds a known capacity", () => {
+    expect(capacityWarning({ name: "Room 1", capacity: 25 }, 25)).toBeNull();
+    expect(capacityWarning({ name: "Room 1", capacity: null }, 80)).toBeNull();
+    expect(capacityWarning({ name: "Room 1", capacity: 25 }, 31, "Physics")).toBe("31 students are enrolled in Physics but Room 1 seats 25");
+  });
+});
+
+describe("room grid", () => {
+  it("marks the hours each booking overlaps and leaves the rest free", () => {
+    const grid = buildRoomGrid([booking()]);
+    expect(grid[0]).toMatchObject({ start: "08:00", end: "09:00" });
+    expect(grid).toHaveLength(12);
+    expect(grid[0].days.monday).toEqual([]);
+    expect(grid[1].days.monday.map((b) => b.scheduleId)).toEqual(["sch-math"]);
+    expect(grid[2].days.monday.map((b) => b.scheduleId)).toEqual(["sch-math"]);
+    expect(grid[3].days.monday).toEqual([]);
+    expect(grid[1].days.tuesday).toEqual([]);
+  });
+
+  it("widens to bookings outside opening hours", () => {
+    const grid = buildRoomGrid([booking({ startTime: "07:30", endTime: "08:15" }), booking({ scheduleId: "late", startTime: "20:00", endTime: "21:00" })]);
+    expect(grid[0].start).toBe("07:00");
+    expect(grid[grid.length - 1]).toMatchObject({ start: "20:00", end: "21:00" });
+  });
+
+  it("counts booked minutes once where bookings overlap", () => {
+    expect(bookedMinutes([
+      booking(),
+      booking({ scheduleId: "b", startTime: "10:00", endTime: "11:00" }),
+      booking({ scheduleId: "c", dayOfWeek: "friday", startTime: "14:00", endTime: "15:00" }),
+    ])).toBe(120 + 60);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  findAllConflicts,
+  findConflicts,
+  timesOverlap,
+  validateSlotTimes,
+  type EnrollmentMap,
+  type Slot,
+} from "../server/scheduleConflicts";
+
+const slot = (over: Partial<Slot> = {}): Slot => ({
+  scheduleId: "sch-math",
+  scheduleChangeId: null,
+  branchId: "branch-1",
+  teacherId: "t1",
+  subjectId: "math",
+  startTime: "09:00",
+  endTime: "10:00",
+  roomId: null,
+  location: "Room 1",
+  dayOfWeek: "monday",
+  ...over,
+});
+
+const noStudents: EnrollmentMap = new Map();
+
+describe("slot times", () => {
+  it("validates format and order", () => {
+    expect(validateSlotTimes("09:00", "10:30")).toBeNull();
+    expect(validateSlotTimes("9am", "10:00")).toMatch(/HH:MM/);
+    expect(validateSlotTimes("09:00", undefined)).toMatch(/End time/);
+    expect(validateSlotTimes("10:00", "10:00")).toMatch(/after/);
+  });
+
+  it("treats back-to-back classes as not overlapping", () => {
+    expect(timesOverlap({ startTime: "09:00", endTime: "10:00" }, { startTime: "09:30", endTime: "11:00" })).toBe(true);
+    expect(timesOverlap({ startTime: "09:00", endTime: "10:00" }, { startTime: "10:00", endTime: "11:00" })).toBe(false);
+    expect(timesOverlap({ startTime: "08:00", endTime: "12:00" }, { startTime: "09:00", endTime: "10:00" })).toBe(true);
+  });
+});
+
+describe("findConflicts", () => {
+  it("flags a teacher double-booked", () => {
+    const conflicts = findConflicts(slot(), [slot({ scheduleId: "sch-phy", subjectId: "physics", location: "Lab", startTime: "09:30", endTime: "10:30" })], noStudents);
+    expect(conflicts.map((c) => c.type)).toEqual(["teacher"]);
+    expect(conflicts[0].with.scheduleId).toBe("sch-phy");
+  });
+
+  it("flags a room booked twice in the same branch only", () => {
+    const other = slot({ scheduleId: "sch-eng", teacherId: "t2", subjectId: "english", location: " room 1 " });
+    expect(findConflicts(slot(), [other], noStudents).map((c) => c.type)).toEqual(["room"]);
+    expect(findConflicts(slot(), [{ ...other, branchId: "branch-2" }], noStudents)).toEqual([]);
+    expect(findConflicts(slot({ location: null }), [{ ...other, location: null }], noStudents)).toEqual([]);
+  });
+
+  it("compares registered rooms by id", () => {
+    const other = slot({ scheduleId: "sch-eng", teacherId: "t2", subjectId: "english", roomId: "room-1", location: "Room 1" });
+    expect(findConflicts(slot({ roomId: "room-1" }), [other], noStudents).map((c) => c.type)).toEqual(["room"]);
+    expect(findConflicts(slot({ roomId: "room-9" }), [other], noStudents)).toEqual([]);
+  });
+
+  it("flags students enrolled in both subjects, but not parallel sections of one subject", () => {
+    const enrolled: EnrollmentMap = new Map([
+      ["math", new Set(["s1", "s2", "s3"])],
+      ["physics", new Set(["s2", "s3", "s4"])],
+    ]);
+    const physics = slot({ scheduleId: "sch-phy", teacherId: "t2", subjectId: "physics", location: "Lab" });
+    const [conflict] = findConflicts(slot(), [physics], enrolled);
+    expect(conflict).toMatchObject({ type: "student", studentIds: ["s2", "s3"] });
+    expect(conflict.message).toMatch(/2 enrolled students/);
+
+    const section = slot({ scheduleId: "sch-math-b", teacherId: "t2", location: "Room 2" });
+    expect(findConflicts(slot(), [section], enrolled)).toEqual([]);
+  });
+
+  it("ignores the slot itself and classes that do not overlap", () => {
+    expect(findConflicts(slot(), [slot(), slot({ scheduleId: "sch-later", startTime: "10:00", endTime: "11:00" })], noStudents)).toEqual([]);
+  });
+});
+
+describe("findAllConflicts", () => {
+  it("reports each clashing pair once", () => {
+    const slots = [
+      slot(),
+      slot({ scheduleId: "sch-phy", subjectId: "physics", location: "Lab" }),
+      slot({ scheduleId: "sch-eng", teacherId: "t2", subjectId: "english", location: "Room 3", startTime: "11:00", endTime: "12:00" }),
+    ];
+    const conflicts = findAllConflicts(slots, noStudents);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: "teacher", slot: { scheduleId: "sch-math" }, with: { scheduleId: "sch-phy" } });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_NUMBER_FORMATS,
+  getDateParts,
+  periodKey,
+  renderNumber,
+  validateTemplate,
+} from "../server/sequences";
+
+const parts = { year: "2024", month: "03" };
+
+describe("sequences.renderNumber", () => {
+  it("keeps the historical invoice and receipt formats", () => {
+    expect(renderNumber(DEFAULT_NUMBER_FORMATS.invoice, { seq: 7, parts })).toBe("INV-2024030007");
+    expect(renderNumber(DEFAULT_NUMBER_FORMATS.receipt, { seq: 2, parts, invoiceNumber: "INV-2024030007" }))
+      .toBe("RCP-INV-2024030007-02");
+    expect(renderNumber(DEFAULT_NUMBER_FORMATS.advance_receipt, { seq: 12, parts })).toBe("RCP-ADV-2024030012");
+  });
+
+  it("renders branch codes and short years", () => {
+    const format = { template: "{BRANCH}/{YY}/{SEQ}", padding: 3, perBranch: true };
+    expect(renderNumber(format, { seq: 5, parts, branchCode: "DHA" })).toBe("DHA/24/005");
+  });
+});
+
+describe("sequences.periodKey", () => {
+  it("resets monthly, yearly or never depending on the date tokens", () => {
+    expect(periodKey("INV-{YYYY}{MM}{SEQ}", parts)).toBe("202403");
+    expect(periodKey("INV-{YY}-{SEQ}", parts)).toBe("24");
+    expect(periodKey("RCP-{INVOICE}-{SEQ}", parts)).toBe("");
+  });
+});
+
+describe("sequences.validateTemplate", () => {
+  it("requires {SEQ} and only allows {INVOICE} on receipts", () => {
+    expect(validateTemplate("invoice", "INV-{YYYY}")).toMatch(/SEQ/);
+    expect(validateTemplate("invoice", "INV-{INVOICE}-{SEQ}")).not.toBeNull();
+    expect(validateTemplate("receipt", "RCP-{SEQ}")).toMatch(/INVOICE/);
+    expect(validateTemplate("advance_receipt", "ADV-{DD}{SEQ}")).toMatch(/Unknown token/);
+    expect(validateTemplate("invoice", "{BRANCH}-INV-{YYYY}{MM}{SEQ}")).toMatch(/per-branch/);
+    expect(validateTemplate("invoice", "{BRANCH}-INV-{YYYY}{MM}{SEQ}", true)).toBeNull();
+    expect(validateTemplate("invoice", "INV-{YYYY}{MM}{SEQ}", true)).toMatch(/BRANCH/);
+  });
+});
+
+describe("sequences.getDateParts", () => {
+  it("uses the tenant timezone for the month boundary", () => {
+    // 20:00 UTC on 31 Jan is already 1 Feb in Karachi (UTC+5)
+    const date = new Date("2024-01-31T20:00:00Z");
+    expect(getDateParts(date, "Asia/Karachi")).toEqual({ year: "2024", month: "02" });
+    expect(getDateParts(date, "UTC")).toEqual({ year: "2024", month: "01" });
+  });
+});
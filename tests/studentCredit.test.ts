@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { creditBalance, creditSources, planCreditDraw, withRunningBalance } from "../server/studentCredit";
+
+const movements = [
+  { paymentId: "p1", amount: "5000.00", createdAt: "2024-01-05T10:00:00Z" },
+  { paymentId: "p2", amount: "3000.00", createdAt: "2024-02-01T10:00:00Z" },
+  { paymentId: "p1", amount: "-4500.00", createdAt: "2024-02-02T10:00:00Z" },
+];
+
+describe("studentCredit.creditBalance", () => {
+  it("is the sum of signed movements", () => {
+    expect(creditBalance(movements)).toBe(3500);
+    expect(creditBalance([])).toBe(0);
+  });
+});
+
+describe("studentCredit.creditSources", () => {
+  it("nets withdrawals against their payment and orders oldest first", () => {
+    expect(creditSources(movements)).toEqual([
+      { paymentId: "p1", available: 500 },
+      { paymentId: "p2", available: 3000 },
+    ]);
+  });
+
+  it("drops fully spent payments", () => {
+    expect(creditSources([...movements, { paymentId: "p1", amount: -500, createdAt: "2024-02-03T00:00:00Z" }]))
+      .toEqual([{ paymentId: "p2", available: 3000 }]);
+  });
+});
+
+describe("studentCredit.planCreditDraw", () => {
+  it("draws FIFO across payments", () => {
+    expect(planCreditDraw(creditSources(movements), 1200)).toEqual([
+      { paymentId: "p1", amount: 500 },
+      { paymentId: "p2", amount: 700 },
+    ]);
+  });
+
+  it("refuses to overdraw the wallet", () => {
+    expect(() => planCreditDraw(creditSources(movements), 3500.01)).toThrow(/exceeds available credit/);
+    expect(() => planCreditDraw(creditSources(movements), 0)).toThrow();
+  });
+});
+
+describe("studentCredit.withRunningBalance", () => {
+  it("annotates each movement with the balance after it", () => {
+    expect(withRunningBalance(movements).map((m) => m.balance)).toEqual([5000, 8000, 3500]);
+  });
+});
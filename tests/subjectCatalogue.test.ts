@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { feeOn, hasDependants, validateFeeChange, validateSubject } from "../server/subjectCatalogue";
+
+const history = [
+  { baseFee: "6000.00", effectiveFrom: "2024-01-10" },
+  { baseFee: "7000.00", effectiveFrom: "2024-09-01" },
+  { baseFee: "6500.00", effectiveFrom: "2024-06-01" },
+];
+
+describe("subjectCatalogue.feeOn", () => {
+  it("uses the latest version in force on the date", () => {
+    expect(feeOn(history, "2024-05-31")).toBe(6000);
+    expect(feeOn(history, "2024-06-01")).toBe(6500);
+    expect(feeOn(history, "2025-01-01")).toBe(7000);
+  });
+
+  it("prices dates before the first change at the first recorded fee", () => {
+    expect(feeOn(history, "2023-08-01")).toBe(6000);
+  });
+
+  it("has nothing to say without history", () => {
+    expect(feeOn([], "2024-06-01")).toBeUndefined();
+  });
+});
+
+describe("subjectCatalogue.validateSubject", () => {
+  const subject = { name: "Physics", code: "PHY", classLevels: ["as-level"], baseFee: 6000 };
+
+  it("accepts a complete subject", () => {
+    expect(validateSubject(subject)).toBeNull();
+  });
+
+  it("requires name, code, a known class level and a fee", () => {
+    expect(validateSubject({ ...subject, name: " " })).toMatch(/name/);
+    expect(validateSubject({ ...subject, code: "" })).toMatch(/code/);
+    expect(validateSubject({ ...subject, classLevels: [] })).toMatch(/class level/);
+    expect(validateSubject({ ...subject, classLevels: ["grade-9"] })).toMatch(/Unknown/);
+    expect(validateSubject({ ...subject, baseFee: 0 })).toMatch(/Fee/);
+  });
+
+  it("does not require a fee when editing details", () => {
+    expect(validateSubject({ ...subject, baseFee: undefined }, false)).toBeNull();
+  });
+});
+
+describe("subjectCatalogue.validateFeeChange", () => {
+  it("allows today or a future date, never a backdated one", () => {
+    expect(validateFeeChange({ baseFee: 7000, effectiveFrom: "2024-06-01" }, "2024-06-01")).toBeNull();
+    expect(validateFeeChange({ baseFee: 7000, effectiveFrom: "2024-09-01" }, "2024-06-01")).toBeNull();
+    expect(validateFeeChange({ baseFee: 7000, effectiveFrom: "2024-05-31" }, "2024-06-01")).toMatch(/backdated/);
+  });
+
+  it("rejects a missing fee or malformed date", () => {
+    expect(validateFeeChange({ baseFee: 0, effectiveFrom: "2024-09-01" }, "2024-06-01")).toMatch(/Fee/);
+    expect(validateFeeChange({ baseFee: 7000, effectiveFrom: "01/09/2024" }, "2024-06-01")).toMatch(/valid date/);
+  });
+});
+
+describe("subjectCatalogue.hasDependants", () => {
+  it("is true when anything still uses the subject", () => {
+    const none = { activeStudents: 0, schedules: 0, teachers: [], combos: [] };
+    expect(hasDependants(none)).toBe(false);
+    expect(hasDependants({ ...none, teachers: [{ id: "t1", name: "A Teacher" }] })).toBe(true);
+    expect(hasDependants({ ...none, activeStudents: 3 })).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDays,
+  expandSessions,
+  sessionKey,
+  validateSessionRange,
+  weekdayOf,
+  type RecurringSchedule,
+  type TimetableChange,
+} from "../server/timetable";
+
+// 2024-06-03 is a Monday
+const week = { start: "2024-06-03", end: "2024-06-09" };
+
+const schedule = (over: Partial<RecurringSchedule> = {}): RecurringSchedule => ({
+  id: "sch-math",
+  branchId: "branch-1",
+  teacherId: "t1",
+  subjectId: "math",
+  dayOfWeek: "monday",
+  startTime: "09:00",
+  endTime: "10:00",
+  roomId: "room-1",
+  location: "Room 1",
+  ...over,
+});
+
+const change = (over: Partial<TimetableChange>): TimetableChange => ({
+  id: "chg-1",
+  scheduleId: "sch-math",
+  teacherId: "t1",
+  subjectId: "math",
+  changeType: "cancellation",
+  affectedDate: "2024-06-03",
+  originalStartTime: null,
+  newStartTime: null,
+  newEndTime: null,
+  newRoomId: null,
+  newLocation: null,
+  ...over,
+});
+
+describe("timetable dates", () => {
+  it("names weekdays and steps across months", () => {
+    expect(weekdayOf("2024-06-03")).toBe("monday");
+    expect(weekdayOf("2024-06-09")).toBe("sunday");
+    expect(addDays("2024-06-30", 1)).toBe("2024-07-01");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+
+  it("validates ranges", () => {
+    expect(validateSessionRange(week)).toBeNull();
+    expect(validateSessionRange({ start: "2024-06-09", end: "2024-06-03" })).toMatch(/before/);
+    expect(validateSessionRange({ start: "03/06/2024", end: "2024-06-09" })).toMatch(/YYYY-MM-DD/);
+    expect(validateSessionRange({ start: "2024-01-01", end: "2024-12-31" })).toMatch(/at most 93 days/);
+  });
+});
+
+describe("expandSessions", () => {
+  it("expands weekly schedules into dated sessions in order", () => {
+    const sessions = expandSessions(
+      [schedule(), schedule({ id: "sch-phy", subjectId: "physics", dayOfWeek: "wednesday", startTime: "11:00", endTime: "12:00" })],
+      [],
+      { start: "2024-06-03", end: "2024-06-12" },
+    );
+    expect(sessions.map((s) => [s.sessionDate, s.subjectId])).toEqual([
+      ["2024-06-03", "math"],
+      ["2024-06-05", "physics"],
+      ["2024-06-10", "math"],
+      ["2024-06-12", "physics"],
+    ]);
+    expect(sessions[0]).toMatchObject({ scheduleId: "sch-math", branchId: "branch-1", location: "Room 1", status: "scheduled" });
+  });
+
+  it("cancels and reschedules single occurrences", () => {
+    const [cancelled] = expandSessions([schedule()], [change({})], week);
+    expect(cancelled).toMatchObject({ status: "cancelled", scheduleChangeId: "chg-1" });
+
+    const [moved] = expandSessions(
+      [schedule()],
+      [change({ changeType: "reschedule", newStartTime: "14:00", newEndTime: "15:00", newLocation: "Lab" })],
+      week,
+    );
+    expect(moved).toMatchObject({ startTime: "14:00", endTime: "15:00", roomId: null, location: "Lab", status: "scheduled" });
+
+    const [toRoom] = expandSessions([schedule()], [change({ changeType: "reschedule", newRoomId: "room-2", newLocation: "Room 2" })], week);
+    expect(toRoom).toMatchObject({ startTime: "09:00", roomId: "room-2", location: "Room 2" });
+  });
+
+  it("adds extra classes, which a later cancellation can call off", () => {
+    const extra = change({ id: "chg-extra", scheduleId: null, changeType: "extra_class", affectedDate: "2024-06-08", newStartTime: "10:00", newEndTime: "12:00" });
+    const sessions = expandSessions([schedule()], [extra], week);
+    expect(sessions).toHaveLength(2);
+    expect(sessions[1]).toMatchObject({ scheduleId: null, scheduleChangeId: "chg-extra", sessionDate: "2024-06-08", status: "scheduled" });
+
+    const callOff = change({ id: "chg-off", scheduleId: null, affectedDate: "2024-06-08" });
+    const [, cancelledExtra] = expandSessions([schedule()], [callOff, extra], week);
+    expect(cancelledExtra).toMatchObject({ scheduleChangeId: "chg-extra", status: "cancelled" });
+  });
+
+  it("ignores changes outside the range or without a matching class", () => {
+    const sessions = expandSessions([schedule()], [change({ affectedDate: "2024-06-10" }), change({ affectedDate: "2024-06-04" })], week);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].status).toBe("scheduled");
+  });
+
+  it("keys recurring sessions by schedule and date, extra classes by their change", () => {
+    expect(sessionKey({ scheduleId: "sch-math", scheduleChangeId: "chg-1", sessionDate: "2024-06-03" })).toBe("sch-math:2024-06-03");
+    expect(sessionKey({ scheduleId: null, scheduleChangeId: "chg-extra", sessionDate: "2024-06-08" })).toBe("extra:chg-extra");
+  });
+});
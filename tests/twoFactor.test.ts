@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  hashRecoveryCode,
+  hotp,
+  isTwoFactorRequired,
+  otpauthUri,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from "../server/twoFactor";
+
+// RFC 6238 appendix B test secret ("12345678901234567890", SHA-1)
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("twoFactor TOTP", () => {
+  it("round-trips base32", () => {
+    expect(base32Encode(Buffer.from("12345678901234567890"))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe("12345678901234567890");
+    expect(base32Decode("gezd gnbv-gy3t qojq gezd gnbv gy3t qojq").toString()).toBe("12345678901234567890");
+    expect(() => base32Decode("NOT BASE32!")).toThrow();
+
+    const secret = generateTwoFactorSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it("matches the RFC test vectors", () => {
+    expect(hotp(Buffer.from("12345678901234567890"), 0)).toBe("755224");
+    expect(totpCode(RFC_SECRET, at(59))).toBe("287082");
+    expect(totpCode(RFC_SECRET, at(1111111109))).toBe("081804");
+    expect(totpCode(RFC_SECRET, at(1234567890))).toBe("005924");
+  });
+
+  it("accepts a code one step either side of now and returns its step", () => {
+    const now = at(1111111109);
+    const step = totpStep(now);
+    const previous = totpCode(RFC_SECRET, at(1111111109 - 30));
+    const next = totpCode(RFC_SECRET, at(1111111109 + 30));
+
+    expect(verifyTotp(RFC_SECRET, "081804", now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "081 804", now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, next, now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, at(1111111109 - 90)), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", now)).toBeNull();
+  });
+
+  it("refuses a code for a step already used", () => {
+    const now = at(1111111109);
+    const step = verifyTotp(RFC_SECRET, "081804", now)!;
+    expect(verifyTotp(RFC_SECRET, "081804", now, step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, at(1111111109 - 30)), now, step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, at(1111111109 + 30)), now, step)).toBe(step + 1);
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = otpauthUri("Springfield High", "ned@example.com", RFC_SECRET);
+    expect(uri.startsWith("otpauth://totp/Springfield%20High%3Aned%40example.com?")).toBe(true);
+    const params = new URL(uri).searchParams;
+    expect(params.get("secret")).toBe(RFC_SECRET);
+    expect(params.get("issuer")).toBe("Springfield High");
+    expect(params.get("digits")).toBe("6");
+    expect(params.get("period")).toBe("30");
+  });
+});
+
+describe("twoFactor recovery codes", () => {
+  it("generates distinct codes in XXXXX-XXXXX form", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) expect(code).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+  });
+
+  it("consumes a code once, ignoring case and separators", () => {
+    const codes = generateRecoveryCodes(3);
+    const hashes = codes.map(hashRecoveryCode);
+
+    const remaining = consumeRecoveryCode(hashes, codes[1].toLowerCase().replace("-", " "));
+    expect(remaining).toEqual([hashes[0], hashes[2]]);
+    expect(consumeRecoveryCode(remaining, codes[1])).toBeNull();
+    expect(consumeRecoveryCode(remaining, "AAAAA-AAAAA")).toBeNull();
+    expect(consumeRecoveryCode(null, codes[0])).toBeNull();
+  });
+});
+
+describe("twoFactor policy", () => {
+  it("requires 2FA only for the school's chosen roles", () => {
+    expect(isTwoFactorRequired("finance", ["finance", "management"])).toBe(true);
+    expect(isTwoFactorRequired("teacher", ["finance", "management"])).toBe(false);
+    expect(isTwoFactorRequired("management", [])).toBe(false);
+    expect(isTwoFactorRequired("management", null)).toBe(false);
+  });
+});
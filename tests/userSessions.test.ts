@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeDevice,
+  idleLimitFor,
+  isSessionIdle,
+  publicSessionId,
+  validateIdleTimeouts,
+} from "../server/userSessions";
+
+const now = Date.parse("2024-06-01T10:00:00Z");
+const minutesAgo = (minutes: number) => now - minutes * 60 * 1000;
+
+describe("userSessions idle timeout", () => {
+  it("times out only past the role's limit", () => {
+    expect(isSessionIdle(minutesAgo(29), 30, now)).toBe(false);
+    expect(isSessionIdle(minutesAgo(31), 30, now)).toBe(true);
+    expect(isSessionIdle(minutesAgo(10_000), null, now)).toBe(false);
+    expect(isSessionIdle(undefined, 30, now)).toBe(false);
+  });
+
+  it("looks the limit up by role, super admins following management", () => {
+    const limits = { finance: 30, management: 60 };
+    expect(idleLimitFor(limits, "finance")).toBe(30);
+    expect(idleLimitFor(limits, "teacher")).toBeNull();
+    expect(idleLimitFor(limits, "super_admin")).toBe(60);
+    expect(idleLimitFor(null, "finance")).toBeNull();
+  });
+
+  it("validates per-role minutes", () => {
+    expect(validateIdleTimeouts({ finance: 30, teacher: null })).toBeNull();
+    expect(validateIdleTimeouts({})).toBeNull();
+    expect(validateIdleTimeouts({ finance: 2 })).toMatch(/between 5 and 10080/);
+    expect(validateIdleTimeouts({ finance: 12.5 })).toMatch(/between/);
+    expect(validateIdleTimeouts({ janitor: 30 })).toMatch(/Roles must be any of/);
+    expect(validateIdleTimeouts([30])).toMatch(/object/);
+  });
+});
+
+describe("userSessions listing", () => {
+  it("names common browsers and systems", () => {
+    expect(describeDevice("Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36"))
+      .toBe("Chrome on Windows");
+    expect(describeDevice("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1"))
+      .toBe("Safari on iOS");
+    expect(describeDevice("Mozilla/5.0 (Windows NT 10.0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0")).toBe("Edge on Windows");
+    expect(describeDevice("curl/8.0")).toBe("Unknown device");
+    expect(describeDevice(null)).toBe("Unknown device");
+  });
+
+  it("never shows the session id itself", () => {
+    const id = publicSessionId("secret-sid");
+    expect(id).not.toContain("secret");
+    expect(id).toHaveLength(24);
+    expect(publicSessionId("secret-sid")).toBe(id);
+  });
+});